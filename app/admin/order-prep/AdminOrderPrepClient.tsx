@@ -20,6 +20,9 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import EscalationsPanel from './EscalationsPanel';
+import RoutingRulesPanel from './RoutingRulesPanel';
+import BackOrdersPanel from './BackOrdersPanel';
 
 interface OrderUser {
   id: string;
@@ -1093,6 +1096,12 @@ export default function AdminOrderPrepPage() {
             </CardContent>
           </Card>
 
+          <EscalationsPanel refreshKey={lastUpdated?.getTime()} />
+
+          <RoutingRulesPanel users={users} />
+
+          <BackOrdersPanel users={users} refreshKey={lastUpdated?.getTime()} />
+
           <Card>
             <CardContent className="space-y-4 p-6">
             <div>
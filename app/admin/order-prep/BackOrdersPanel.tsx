@@ -0,0 +1,215 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { NativeSelect } from '@/components/ui/native-select';
+import { cn } from '@/lib/utils';
+
+interface BackOrderUser {
+  id: string;
+  name: string;
+}
+
+interface BackOrderLine {
+  lineIndex: number;
+  sku: string | null;
+  name: string | null;
+  quantity: number;
+}
+
+interface BackOrder {
+  id: string;
+  orderId: string;
+  orderNumber: string | null;
+  sequence: number;
+  status: string;
+  lines: BackOrderLine[];
+  createdByName: string | null;
+  createdAt: string;
+  assignmentStatus: string | null;
+  assignmentUserName: string | null;
+}
+
+const statusLabels: Record<string, string> = {
+  waiting_stock: 'بانتظار المخزون',
+  preparing: 'قيد التجهيز',
+  ready: 'جاهزة للشحن',
+  shipped: 'تم الشحن',
+  cancelled: 'ملغاة',
+};
+
+const statusStyles: Record<string, string> = {
+  waiting_stock: 'border-amber-200 bg-amber-50 text-amber-800',
+  preparing: 'border-sky-200 bg-sky-50 text-sky-800',
+  ready: 'border-emerald-200 bg-emerald-50 text-emerald-800',
+};
+
+export default function BackOrdersPanel({
+  users,
+  refreshKey,
+}: {
+  users: BackOrderUser[];
+  refreshKey?: number;
+}) {
+  const [backOrders, setBackOrders] = useState<BackOrder[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [actingId, setActingId] = useState<string | null>(null);
+  const [releaseUserIds, setReleaseUserIds] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBackOrders = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/order-assignments/back-orders', { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر تحميل الشحنات المؤجلة');
+      }
+      setBackOrders(Array.isArray(data.backOrders) ? data.backOrders : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'تعذر تحميل الشحنات المؤجلة');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadBackOrders();
+  }, [loadBackOrders, refreshKey]);
+
+  const updateBackOrder = useCallback(
+    async (backOrder: BackOrder, action: 'release' | 'cancel') => {
+      if (action === 'cancel' && !window.confirm(`إلغاء الشحنة المؤجلة للطلب #${backOrder.orderNumber || backOrder.orderId}؟`)) {
+        return;
+      }
+      setActingId(backOrder.id);
+      setError(null);
+      try {
+        const response = await fetch('/api/admin/order-assignments/back-orders', {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            backOrderId: backOrder.id,
+            action,
+            userId: releaseUserIds[backOrder.id] || undefined,
+          }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'تعذر تحديث الشحنة المؤجلة');
+        }
+        await loadBackOrders();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'تعذر تحديث الشحنة المؤجلة');
+      } finally {
+        setActingId(null);
+      }
+    },
+    [loadBackOrders, releaseUserIds],
+  );
+
+  return (
+    <Card>
+      <CardContent className="space-y-4 p-6">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">الشحنات المؤجلة</h3>
+            <p className="text-sm text-gray-500">
+              منتجات فُصلت عن طلبات شُحنت جزئياً وتنتظر توفر المخزون
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => loadBackOrders()} disabled={loading}>
+            {loading ? 'جاري التحميل...' : 'تحديث'}
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {backOrders.length === 0 ? (
+          <p className="text-sm text-gray-500">لا توجد شحنات مؤجلة مفتوحة</p>
+        ) : (
+          <ul className="divide-y rounded-lg border">
+            {backOrders.map((backOrder) => {
+              const waiting = backOrder.status === 'waiting_stock';
+              return (
+                <li key={backOrder.id} className="flex flex-col gap-3 p-3 md:flex-row md:items-start md:justify-between">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold text-gray-900">
+                        #{backOrder.orderNumber || backOrder.orderId}
+                      </span>
+                      <span className="text-xs text-gray-500">الشحنة المؤجلة {backOrder.sequence}</span>
+                      <span
+                        className={cn(
+                          'rounded-full border px-2 py-0.5 text-xs font-medium',
+                          statusStyles[backOrder.status] || 'border-gray-200 bg-gray-50 text-gray-700',
+                        )}
+                      >
+                        {statusLabels[backOrder.status] || backOrder.status}
+                      </span>
+                      {backOrder.assignmentUserName && (
+                        <span className="text-xs text-gray-500">المجهز: {backOrder.assignmentUserName}</span>
+                      )}
+                    </div>
+                    <ul className="text-sm text-gray-600">
+                      {backOrder.lines.map((line) => (
+                        <li key={line.lineIndex}>
+                          {line.name || line.sku || `منتج ${line.lineIndex + 1}`} × {line.quantity}
+                          {line.sku && line.name ? <span className="text-xs text-gray-400"> ({line.sku})</span> : null}
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-xs text-gray-400">
+                      {backOrder.createdByName ? `بواسطة ${backOrder.createdByName} · ` : ''}
+                      {new Date(backOrder.createdAt).toLocaleString('ar-SA', {
+                        dateStyle: 'medium',
+                        timeStyle: 'short',
+                      })}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {waiting && (
+                      <>
+                        <NativeSelect
+                          value={releaseUserIds[backOrder.id] || ''}
+                          onChange={(event) =>
+                            setReleaseUserIds((prev) => ({ ...prev, [backOrder.id]: event.target.value }))
+                          }
+                          className="w-40"
+                        >
+                          <option value="">المجهز السابق</option>
+                          {users.map((user) => (
+                            <option key={user.id} value={user.id}>
+                              {user.name}
+                            </option>
+                          ))}
+                        </NativeSelect>
+                        <Button
+                          size="sm"
+                          onClick={() => updateBackOrder(backOrder, 'release')}
+                          disabled={actingId === backOrder.id}
+                        >
+                          بدء التجهيز الآن
+                        </Button>
+                      </>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => updateBackOrder(backOrder, 'cancel')}
+                      disabled={actingId === backOrder.id}
+                    >
+                      إلغاء
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
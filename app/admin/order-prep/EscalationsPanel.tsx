@@ -0,0 +1,137 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+
+interface Escalation {
+  id: string;
+  orderId: string;
+  orderNumber: string | null;
+  reason: string;
+  notes: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+const reasonLabels: Record<string, string> = {
+  missing_items: 'نواقص',
+  manual_review: 'مراجعة يدوية',
+  sla_not_started: 'تأخر بدء التجهيز',
+  sla_prep_overdue: 'تأخر إنهاء التجهيز',
+  sla_waiting_overdue: 'انتظار طويل',
+  sla_released: 'أعيد للتوزيع',
+  sla_priority_waiting: 'أولوية عالية بانتظار التعيين',
+};
+
+export default function EscalationsPanel({ refreshKey }: { refreshKey?: number }) {
+  const [escalations, setEscalations] = useState<Escalation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEscalations = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/order-assignments/escalations', { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر تحميل التصعيدات');
+      }
+      setEscalations(Array.isArray(data.escalations) ? data.escalations : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'تعذر تحميل التصعيدات');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadEscalations();
+  }, [loadEscalations, refreshKey]);
+
+  const resolveEscalation = useCallback(async (id: string) => {
+    setResolvingId(id);
+    try {
+      const response = await fetch('/api/admin/order-assignments/escalations', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر معالجة التصعيد');
+      }
+      setEscalations((prev) => prev.filter((escalation) => escalation.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'تعذر معالجة التصعيد');
+    } finally {
+      setResolvingId(null);
+    }
+  }, []);
+
+  return (
+    <Card>
+      <CardContent className="space-y-4 p-6">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">التصعيدات المفتوحة</h3>
+            <p className="text-sm text-gray-500">
+              تجاوزات مهلة التجهيز والطلبات المحوّلة للمراجعة
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => loadEscalations()} disabled={loading}>
+            {loading ? 'جاري التحميل...' : 'تحديث'}
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {escalations.length === 0 ? (
+          <p className="text-sm text-gray-500">لا توجد تصعيدات مفتوحة</p>
+        ) : (
+          <ul className="divide-y rounded-lg border">
+            {escalations.map((escalation) => (
+              <li key={escalation.id} className="flex flex-col gap-2 p-3 md:flex-row md:items-center md:justify-between">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold text-gray-900">
+                      #{escalation.orderNumber || escalation.orderId}
+                    </span>
+                    <span
+                      className={cn(
+                        'rounded-full border px-2 py-0.5 text-xs font-medium',
+                        escalation.reason.startsWith('sla_')
+                          ? 'border-amber-200 bg-amber-50 text-amber-800'
+                          : 'border-rose-200 bg-rose-50 text-rose-700',
+                      )}
+                    >
+                      {reasonLabels[escalation.reason] || escalation.reason}
+                    </span>
+                    <span className="text-xs text-gray-400">
+                      {new Date(escalation.createdAt).toLocaleString('ar-SA', {
+                        dateStyle: 'medium',
+                        timeStyle: 'short',
+                      })}
+                    </span>
+                  </div>
+                  {escalation.notes && <p className="text-sm text-gray-600">{escalation.notes}</p>}
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => resolveEscalation(escalation.id)}
+                  disabled={resolvingId === escalation.id}
+                >
+                  {resolvingId === escalation.id ? 'جاري المعالجة...' : 'تمت المعالجة'}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
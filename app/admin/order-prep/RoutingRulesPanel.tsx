@@ -0,0 +1,450 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { cn } from '@/lib/utils';
+
+interface RoutingUser {
+  id: string;
+  name: string;
+}
+
+interface RoutingRule {
+  id: string;
+  name: string;
+  position: number;
+  isActive: boolean;
+  destination: string | null;
+  countries: string[];
+  paymentType: string | null;
+  paymentMethods: string[];
+  shippingCompanies: string[];
+  isGift: boolean | null;
+  isHighPriority: boolean | null;
+  warehouseCodes: string[];
+  skuCategories: string[];
+  targetUserIds: string[];
+  teamName: string | null;
+  weight: number;
+  capacity: number | null;
+}
+
+interface ConditionCheck {
+  condition: string;
+  expected: string;
+  actual: string;
+  passed: boolean;
+}
+
+interface RuleEvaluation {
+  ruleId: string;
+  ruleName: string;
+  position: number;
+  matched: boolean;
+  skippedReason: string | null;
+  checks: ConditionCheck[];
+}
+
+interface ClaimCheck {
+  allowed: boolean;
+  reason: string;
+}
+
+interface DryRunResult {
+  orderId: string;
+  orderNumber: string | null;
+  decision: { explanation: string; evaluations: RuleEvaluation[] };
+  targets: Array<{ id: string; name: string; activeUnderRule: number; claim: ClaimCheck }>;
+  user: { id: string; name: string; claim: ClaimCheck } | null;
+}
+
+const conditionLabels: Record<string, string> = {
+  destination: 'الوجهة',
+  country: 'الدولة',
+  paymentType: 'نوع الدفع',
+  paymentMethod: 'طريقة الدفع',
+  shippingCompany: 'شركة الشحن',
+  gift: 'هدية',
+  highPriority: 'أولوية عالية',
+  warehouse: 'المستودع',
+  skuCategory: 'تصنيف المنتج',
+};
+
+const emptyForm = {
+  name: '',
+  position: '0',
+  destination: '',
+  countries: '',
+  paymentType: '',
+  paymentMethods: '',
+  shippingCompanies: '',
+  isGift: '',
+  isHighPriority: '',
+  warehouseCodes: '',
+  skuCategories: '',
+  targetUserIds: [] as string[],
+  teamName: '',
+  weight: '1',
+  capacity: '',
+};
+
+const flagLabel = (value: boolean | null) => (value === null ? null : value ? 'نعم' : 'لا');
+
+function describeConditions(rule: RoutingRule): string {
+  const parts = [
+    rule.destination && `الوجهة: ${rule.destination === 'international' ? 'دولي' : 'محلي'}`,
+    rule.countries.length > 0 && `الدول: ${rule.countries.join('، ')}`,
+    rule.paymentType && `الدفع: ${rule.paymentType === 'cod' ? 'عند الاستلام' : 'مسبق'}`,
+    rule.paymentMethods.length > 0 && `طرق الدفع: ${rule.paymentMethods.join('، ')}`,
+    rule.shippingCompanies.length > 0 && `الشحن: ${rule.shippingCompanies.join('، ')}`,
+    flagLabel(rule.isGift) && `هدية: ${flagLabel(rule.isGift)}`,
+    flagLabel(rule.isHighPriority) && `أولوية عالية: ${flagLabel(rule.isHighPriority)}`,
+    rule.warehouseCodes.length > 0 && `المستودع: ${rule.warehouseCodes.join('، ')}`,
+    rule.skuCategories.length > 0 && `التصنيف: ${rule.skuCategories.join('، ')}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'كل الطلبات';
+}
+
+export default function RoutingRulesPanel({ users }: { users: RoutingUser[] }) {
+  const [rules, setRules] = useState<RoutingRule[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dryRunOrderId, setDryRunOrderId] = useState('');
+  const [dryRunUserId, setDryRunUserId] = useState('');
+  const [dryRunLoading, setDryRunLoading] = useState(false);
+  const [dryRunResult, setDryRunResult] = useState<DryRunResult | null>(null);
+
+  const userName = useCallback(
+    (id: string) => users.find((user) => user.id === id)?.name || id,
+    [users],
+  );
+
+  const loadRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/order-assignments/routing-rules', { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر تحميل قواعد التوجيه');
+      }
+      setRules(Array.isArray(data.rules) ? data.rules : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'تعذر تحميل قواعد التوجيه');
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadRules();
+  }, [loadRules]);
+
+  const updateForm = (field: keyof typeof emptyForm, value: string) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const toggleTarget = (id: string) =>
+    setForm((prev) => ({
+      ...prev,
+      targetUserIds: prev.targetUserIds.includes(id)
+        ? prev.targetUserIds.filter((value) => value !== id)
+        : [...prev.targetUserIds, id],
+    }));
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/order-assignments/routing-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          destination: form.destination || null,
+          paymentType: form.paymentType || null,
+          isGift: form.isGift || null,
+          isHighPriority: form.isHighPriority || null,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر إنشاء قاعدة التوجيه');
+      }
+      setForm(emptyForm);
+      await loadRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'تعذر إنشاء قاعدة التوجيه');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: RoutingRule) => {
+    setError(null);
+    const response = await fetch(`/api/admin/order-assignments/routing-rules/${rule.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isActive: !rule.isActive }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      setError(data.error || 'تعذر تحديث قاعدة التوجيه');
+      return;
+    }
+    await loadRules();
+  };
+
+  const handleDelete = async (rule: RoutingRule) => {
+    if (!window.confirm(`حذف القاعدة "${rule.name}"؟`)) return;
+    setError(null);
+    const response = await fetch(`/api/admin/order-assignments/routing-rules/${rule.id}`, {
+      method: 'DELETE',
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      setError(data.error || 'تعذر حذف قاعدة التوجيه');
+      return;
+    }
+    await loadRules();
+  };
+
+  const handleDryRun = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!dryRunOrderId.trim()) return;
+    setDryRunLoading(true);
+    setDryRunResult(null);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/order-assignments/routing-rules/dry-run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderId: dryRunOrderId.trim(), userId: dryRunUserId || null }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر تجربة قواعد التوجيه');
+      }
+      setDryRunResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'تعذر تجربة قواعد التوجيه');
+    } finally {
+      setDryRunLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-5 p-6">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">قواعد توجيه الطلبات</h3>
+          <p className="text-sm text-gray-500">
+            تُطبَّق القواعد حسب الترتيب، وأول قاعدة مطابقة تحدد من يمكنه استلام الطلب. الطلبات التي لا تطابق أي قاعدة
+            متاحة للجميع.
+          </p>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {rules.length === 0 ? (
+          <p className="text-sm text-gray-500">لا توجد قواعد توجيه بعد</p>
+        ) : (
+          <ul className="divide-y rounded-lg border">
+            {rules.map((rule) => (
+              <li key={rule.id} className="flex flex-col gap-2 p-3 md:flex-row md:items-center md:justify-between">
+                <div className={cn('space-y-1', !rule.isActive && 'opacity-50')}>
+                  <p className="font-semibold text-gray-900">
+                    {rule.position}. {rule.name}
+                  </p>
+                  <p className="text-xs text-gray-600">{describeConditions(rule)}</p>
+                  <p className="text-xs text-gray-500">
+                    {rule.teamName ? `فريق ${rule.teamName}: ` : ''}
+                    {rule.targetUserIds.map(userName).join('، ')} · الوزن {rule.weight}
+                    {rule.capacity ? ` · السعة ${rule.capacity}` : ''}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => handleToggle(rule)}>
+                    {rule.isActive ? 'إيقاف' : 'تفعيل'}
+                  </Button>
+                  <Button size="sm" variant="outline" className="text-red-600" onClick={() => handleDelete(rule)}>
+                    حذف
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-3 rounded-lg border border-dashed p-4">
+          <p className="text-sm font-semibold text-gray-800">قاعدة جديدة</p>
+          <div className="grid gap-3 md:grid-cols-3">
+            <Input placeholder="اسم القاعدة" value={form.name} onChange={(e) => updateForm('name', e.target.value)} />
+            <Input
+              type="number"
+              placeholder="الترتيب"
+              value={form.position}
+              onChange={(e) => updateForm('position', e.target.value)}
+            />
+            <NativeSelect
+              className="w-full"
+              value={form.destination}
+              onChange={(e) => updateForm('destination', e.target.value)}
+            >
+              <option value="">أي وجهة</option>
+              <option value="domestic">محلي</option>
+              <option value="international">دولي</option>
+            </NativeSelect>
+            <NativeSelect
+              className="w-full"
+              value={form.paymentType}
+              onChange={(e) => updateForm('paymentType', e.target.value)}
+            >
+              <option value="">أي نوع دفع</option>
+              <option value="cod">الدفع عند الاستلام</option>
+              <option value="prepaid">مدفوع مسبقاً</option>
+            </NativeSelect>
+            <NativeSelect className="w-full" value={form.isGift} onChange={(e) => updateForm('isGift', e.target.value)}>
+              <option value="">هدية أو غير هدية</option>
+              <option value="true">هدايا فقط</option>
+              <option value="false">بدون الهدايا</option>
+            </NativeSelect>
+            <NativeSelect
+              className="w-full"
+              value={form.isHighPriority}
+              onChange={(e) => updateForm('isHighPriority', e.target.value)}
+            >
+              <option value="">أي أولوية</option>
+              <option value="true">أولوية عالية فقط</option>
+              <option value="false">بدون الأولوية العالية</option>
+            </NativeSelect>
+            <Input
+              placeholder="الدول (مفصولة بفاصلة)"
+              value={form.countries}
+              onChange={(e) => updateForm('countries', e.target.value)}
+            />
+            <Input
+              placeholder="طرق الدفع (مفصولة بفاصلة)"
+              value={form.paymentMethods}
+              onChange={(e) => updateForm('paymentMethods', e.target.value)}
+            />
+            <Input
+              placeholder="شركات الشحن (مفصولة بفاصلة)"
+              value={form.shippingCompanies}
+              onChange={(e) => updateForm('shippingCompanies', e.target.value)}
+            />
+            <Input
+              placeholder="رموز المستودعات"
+              value={form.warehouseCodes}
+              onChange={(e) => updateForm('warehouseCodes', e.target.value)}
+            />
+            <Input
+              placeholder="تصنيفات أو بادئات SKU"
+              value={form.skuCategories}
+              onChange={(e) => updateForm('skuCategories', e.target.value)}
+            />
+            <Input
+              placeholder="اسم الفريق (اختياري)"
+              value={form.teamName}
+              onChange={(e) => updateForm('teamName', e.target.value)}
+            />
+            <Input
+              type="number"
+              min={0}
+              placeholder="الوزن"
+              value={form.weight}
+              onChange={(e) => updateForm('weight', e.target.value)}
+            />
+            <Input
+              type="number"
+              min={0}
+              placeholder="السعة لكل مستخدم (اختياري)"
+              value={form.capacity}
+              onChange={(e) => updateForm('capacity', e.target.value)}
+            />
+          </div>
+          <div className="flex flex-wrap gap-3">
+            {users.map((user) => (
+              <label key={user.id} className="flex items-center gap-2 text-sm text-gray-700">
+                <Checkbox
+                  checked={form.targetUserIds.includes(user.id)}
+                  onCheckedChange={() => toggleTarget(user.id)}
+                />
+                {user.name}
+              </label>
+            ))}
+          </div>
+          <Button type="submit" disabled={saving}>
+            {saving ? 'جاري الحفظ...' : 'إضافة القاعدة'}
+          </Button>
+        </form>
+
+        <form onSubmit={handleDryRun} className="space-y-3 rounded-lg bg-slate-50 p-4">
+          <p className="text-sm font-semibold text-gray-800">تجربة التوجيه لطلب</p>
+          <div className="flex flex-col gap-2 md:flex-row">
+            <Input
+              placeholder="رقم الطلب في سلة"
+              value={dryRunOrderId}
+              onChange={(e) => setDryRunOrderId(e.target.value)}
+              className="flex-1"
+            />
+            <NativeSelect value={dryRunUserId} onChange={(e) => setDryRunUserId(e.target.value)}>
+              <option value="">بدون مستخدم محدد</option>
+              {users.map((user) => (
+                <option key={user.id} value={user.id}>
+                  {user.name}
+                </option>
+              ))}
+            </NativeSelect>
+            <Button type="submit" disabled={dryRunLoading || !dryRunOrderId.trim()}>
+              {dryRunLoading ? 'جاري التحليل...' : 'تجربة'}
+            </Button>
+          </div>
+
+          {dryRunResult && (
+            <div className="space-y-3 text-sm">
+              <p className="font-semibold text-gray-900">
+                #{dryRunResult.orderNumber || dryRunResult.orderId}: {dryRunResult.decision.explanation}
+              </p>
+              {dryRunResult.user && (
+                <p className={dryRunResult.user.claim.allowed ? 'text-emerald-700' : 'text-red-700'}>
+                  {dryRunResult.user.name}: {dryRunResult.user.claim.reason}
+                </p>
+              )}
+              {dryRunResult.targets.length > 0 && (
+                <ul className="space-y-1">
+                  {dryRunResult.targets.map((target) => (
+                    <li key={target.id} className={target.claim.allowed ? 'text-emerald-700' : 'text-amber-700'}>
+                      {target.name} ({target.activeUnderRule} طلب نشط): {target.claim.reason}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <ol className="space-y-2">
+                {dryRunResult.decision.evaluations.map((evaluation) => (
+                  <li key={evaluation.ruleId} className="rounded-md border bg-white p-2">
+                    <p className={cn('font-medium', evaluation.matched ? 'text-emerald-700' : 'text-gray-700')}>
+                      {evaluation.position}. {evaluation.ruleName} —{' '}
+                      {evaluation.matched ? 'مطابقة' : evaluation.skippedReason || 'غير مطابقة'}
+                    </p>
+                    {evaluation.checks.length > 0 && (
+                      <ul className="mt-1 space-y-0.5 text-xs">
+                        {evaluation.checks.map((check) => (
+                          <li key={check.condition} className={check.passed ? 'text-emerald-700' : 'text-red-600'}>
+                            {conditionLabels[check.condition] || check.condition}: المطلوب {check.expected}، الطلب{' '}
+                            {check.actual}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,292 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { cn } from '@/lib/utils';
+import {
+  SHIPPING_OPTION_CODES,
+  SHIPPING_OPTION_LABELS,
+  isShippingOptionCode,
+  type CarrierRateCardLike,
+} from '@/app/lib/carrier-rates';
+
+type RateCard = CarrierRateCardLike & { notes: string | null };
+
+const emptyForm = {
+  carrier: 'smsa',
+  name: '',
+  destination: '',
+  countries: '',
+  cities: '',
+  currency: 'SAR',
+  baseFee: '',
+  baseWeightKg: '',
+  extraKgFee: '',
+  codFee: '',
+  codFeePercent: '',
+  valueFeePercent: '',
+  maxWeightKg: '',
+  maxCodAmount: '',
+  estimatedDaysMin: '1',
+  estimatedDaysMax: '',
+};
+
+function describeScope(card: RateCard): string {
+  const parts = [
+    card.destination && (card.destination === 'international' ? 'دولي' : 'محلي'),
+    card.countries.length > 0 && `الدول: ${card.countries.join('، ')}`,
+    card.cities.length > 0 && `المدن: ${card.cities.join('، ')}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'كل الوجهات';
+}
+
+function describePricing(card: RateCard): string {
+  const parts = [
+    `${card.baseFee} ${card.currency} حتى ${card.baseWeightKg} كجم`,
+    card.extraKgFee > 0 && `+${card.extraKgFee} لكل كجم إضافي`,
+    (card.codFee > 0 || card.codFeePercent > 0) && `تحصيل ${card.codFee} + ${card.codFeePercent}%`,
+    card.valueFeePercent > 0 && `تأمين ${card.valueFeePercent}%`,
+    card.maxWeightKg !== null && `حد الوزن ${card.maxWeightKg} كجم`,
+    card.maxCodAmount !== null && `حد التحصيل ${card.maxCodAmount}`,
+    card.estimatedDaysMin === card.estimatedDaysMax
+      ? `${card.estimatedDaysMax} يوم`
+      : `${card.estimatedDaysMin}-${card.estimatedDaysMax} أيام`,
+  ].filter(Boolean);
+  return parts.join(' · ');
+}
+
+export default function RateCardsPanel() {
+  const [cards, setCards] = useState<RateCard[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCards = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/shipping-rates/rate-cards', { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر تحميل بطاقات الأسعار');
+      }
+      setCards(Array.isArray(data.rateCards) ? data.rateCards : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'تعذر تحميل بطاقات الأسعار');
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadCards();
+  }, [loadCards]);
+
+  const updateForm = (field: keyof typeof emptyForm, value: string) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/shipping-rates/rate-cards', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, destination: form.destination || null }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر إنشاء بطاقة الأسعار');
+      }
+      setForm(emptyForm);
+      await loadCards();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'تعذر إنشاء بطاقة الأسعار');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (card: RateCard) => {
+    setError(null);
+    const response = await fetch(`/api/admin/shipping-rates/rate-cards/${card.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isActive: !card.isActive }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      setError(data.error || 'تعذر تحديث بطاقة الأسعار');
+      return;
+    }
+    await loadCards();
+  };
+
+  const handleDelete = async (card: RateCard) => {
+    if (!window.confirm(`حذف بطاقة الأسعار "${card.name}"؟`)) return;
+    setError(null);
+    const response = await fetch(`/api/admin/shipping-rates/rate-cards/${card.id}`, { method: 'DELETE' });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      setError(data.error || 'تعذر حذف بطاقة الأسعار');
+      return;
+    }
+    await loadCards();
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-5 p-6">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">بطاقات الأسعار</h3>
+          <p className="text-sm text-gray-500">
+            لكل شركة تُستخدم البطاقة الأكثر تحديداً للوجهة (المدينة ثم الدولة ثم العامة)، وعند التساوي الأرخص.
+          </p>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {cards.length === 0 ? (
+          <p className="text-sm text-gray-500">لا توجد بطاقات أسعار بعد، ولن تُقترح أي شركة شحن حتى تضاف.</p>
+        ) : (
+          <ul className="divide-y rounded-lg border">
+            {cards.map((card) => (
+              <li key={card.id} className="flex flex-col gap-2 p-3 md:flex-row md:items-center md:justify-between">
+                <div className={cn('space-y-1', !card.isActive && 'opacity-50')}>
+                  <p className="font-semibold text-gray-900">
+                    {isShippingOptionCode(card.carrier) ? SHIPPING_OPTION_LABELS[card.carrier] : card.carrier} · {card.name}
+                  </p>
+                  <p className="text-xs text-gray-600">{describeScope(card)}</p>
+                  <p className="text-xs text-gray-500">{describePricing(card)}</p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => handleToggle(card)}>
+                    {card.isActive ? 'إيقاف' : 'تفعيل'}
+                  </Button>
+                  <Button size="sm" variant="outline" className="text-red-600" onClick={() => handleDelete(card)}>
+                    حذف
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-3 rounded-lg border border-dashed p-4">
+          <p className="text-sm font-semibold text-gray-800">بطاقة جديدة</p>
+          <div className="grid gap-3 md:grid-cols-4">
+            <NativeSelect className="w-full" value={form.carrier} onChange={(e) => updateForm('carrier', e.target.value)}>
+              {SHIPPING_OPTION_CODES.map((code) => (
+                <option key={code} value={code}>
+                  {SHIPPING_OPTION_LABELS[code]}
+                </option>
+              ))}
+            </NativeSelect>
+            <Input placeholder="اسم البطاقة" value={form.name} onChange={(e) => updateForm('name', e.target.value)} />
+            <NativeSelect
+              className="w-full"
+              value={form.destination}
+              onChange={(e) => updateForm('destination', e.target.value)}
+            >
+              <option value="">أي وجهة</option>
+              <option value="domestic">محلي</option>
+              <option value="international">دولي</option>
+            </NativeSelect>
+            <Input placeholder="العملة" value={form.currency} onChange={(e) => updateForm('currency', e.target.value)} />
+            <Input
+              placeholder="الدول (مفصولة بفاصلة)"
+              value={form.countries}
+              onChange={(e) => updateForm('countries', e.target.value)}
+            />
+            <Input
+              placeholder="المدن (مفصولة بفاصلة)"
+              value={form.cities}
+              onChange={(e) => updateForm('cities', e.target.value)}
+            />
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder="السعر الأساسي"
+              value={form.baseFee}
+              onChange={(e) => updateForm('baseFee', e.target.value)}
+            />
+            <Input
+              type="number"
+              min={0}
+              step="0.1"
+              placeholder="الوزن المشمول (كجم)"
+              value={form.baseWeightKg}
+              onChange={(e) => updateForm('baseWeightKg', e.target.value)}
+            />
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder="سعر الكيلو الإضافي"
+              value={form.extraKgFee}
+              onChange={(e) => updateForm('extraKgFee', e.target.value)}
+            />
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder="رسوم التحصيل الثابتة"
+              value={form.codFee}
+              onChange={(e) => updateForm('codFee', e.target.value)}
+            />
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder="نسبة التحصيل %"
+              value={form.codFeePercent}
+              onChange={(e) => updateForm('codFeePercent', e.target.value)}
+            />
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder="نسبة التأمين من القيمة %"
+              value={form.valueFeePercent}
+              onChange={(e) => updateForm('valueFeePercent', e.target.value)}
+            />
+            <Input
+              type="number"
+              min={0}
+              step="0.1"
+              placeholder="الحد الأقصى للوزن (اختياري)"
+              value={form.maxWeightKg}
+              onChange={(e) => updateForm('maxWeightKg', e.target.value)}
+            />
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder="الحد الأقصى للتحصيل (اختياري)"
+              value={form.maxCodAmount}
+              onChange={(e) => updateForm('maxCodAmount', e.target.value)}
+            />
+            <Input
+              type="number"
+              min={0}
+              placeholder="أقل مدة توصيل (أيام)"
+              value={form.estimatedDaysMin}
+              onChange={(e) => updateForm('estimatedDaysMin', e.target.value)}
+            />
+            <Input
+              type="number"
+              min={0}
+              placeholder="أقصى مدة توصيل (أيام)"
+              value={form.estimatedDaysMax}
+              onChange={(e) => updateForm('estimatedDaysMax', e.target.value)}
+            />
+          </div>
+          <Button type="submit" disabled={saving}>
+            {saving ? 'جاري الحفظ...' : 'إضافة البطاقة'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
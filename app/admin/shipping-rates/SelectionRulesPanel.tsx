@@ -0,0 +1,350 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { cn } from '@/lib/utils';
+import {
+  SHIPPING_OPTION_CODES,
+  SHIPPING_OPTION_LABELS,
+  isShippingOptionCode,
+  type CarrierSelectionDecision,
+  type CarrierSelectionRuleLike,
+  type RateShipmentFacts,
+  type ShippingOptionCode,
+} from '@/app/lib/carrier-rates';
+
+type SelectionRule = CarrierSelectionRuleLike & { notes: string | null };
+
+interface PreviewResult {
+  orderId: string;
+  orderNumber: string | null;
+  facts: RateShipmentFacts;
+  decision: CarrierSelectionDecision;
+}
+
+const conditionLabels: Record<string, string> = {
+  destination: 'الوجهة',
+  country: 'الدولة',
+  city: 'المدينة',
+  paymentType: 'نوع الدفع',
+  weight: 'الوزن',
+};
+
+const emptyForm = {
+  name: '',
+  position: '0',
+  effect: 'only_when',
+  carriers: [] as string[],
+  destination: '',
+  countries: '',
+  cities: '',
+  paymentType: '',
+  minWeightKg: '',
+  maxWeightKg: '',
+};
+
+const carrierLabel = (code: string) => (isShippingOptionCode(code) ? SHIPPING_OPTION_LABELS[code] : code);
+
+function describeConditions(rule: SelectionRule): string {
+  const parts = [
+    rule.destination && `الوجهة: ${rule.destination === 'international' ? 'دولي' : 'محلي'}`,
+    rule.countries.length > 0 && `الدول: ${rule.countries.join('، ')}`,
+    rule.cities.length > 0 && `المدن: ${rule.cities.join('، ')}`,
+    rule.paymentType && `الدفع: ${rule.paymentType === 'cod' ? 'عند الاستلام' : 'مسبق'}`,
+    rule.minWeightKg !== null && `الوزن من ${rule.minWeightKg} كجم`,
+    rule.maxWeightKg !== null && `الوزن حتى ${rule.maxWeightKg} كجم`,
+  ].filter(Boolean);
+  return parts.join(' · ');
+}
+
+export default function SelectionRulesPanel() {
+  const [rules, setRules] = useState<SelectionRule[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [previewOrderId, setPreviewOrderId] = useState('');
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [previewResult, setPreviewResult] = useState<PreviewResult | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/shipping-rates/selection-rules', { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر تحميل قواعد الاختيار');
+      }
+      setRules(Array.isArray(data.rules) ? data.rules : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'تعذر تحميل قواعد الاختيار');
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadRules();
+  }, [loadRules]);
+
+  const updateForm = (field: Exclude<keyof typeof emptyForm, 'carriers'>, value: string) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const toggleCarrier = (code: ShippingOptionCode) =>
+    setForm((prev) => ({
+      ...prev,
+      carriers: prev.carriers.includes(code)
+        ? prev.carriers.filter((value) => value !== code)
+        : [...prev.carriers, code],
+    }));
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/shipping-rates/selection-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          destination: form.destination || null,
+          paymentType: form.paymentType || null,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر إنشاء قاعدة الاختيار');
+      }
+      setForm(emptyForm);
+      await loadRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'تعذر إنشاء قاعدة الاختيار');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: SelectionRule) => {
+    setError(null);
+    const response = await fetch(`/api/admin/shipping-rates/selection-rules/${rule.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isActive: !rule.isActive }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      setError(data.error || 'تعذر تحديث قاعدة الاختيار');
+      return;
+    }
+    await loadRules();
+  };
+
+  const handleDelete = async (rule: SelectionRule) => {
+    if (!window.confirm(`حذف القاعدة "${rule.name}"؟`)) return;
+    setError(null);
+    const response = await fetch(`/api/admin/shipping-rates/selection-rules/${rule.id}`, { method: 'DELETE' });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      setError(data.error || 'تعذر حذف قاعدة الاختيار');
+      return;
+    }
+    await loadRules();
+  };
+
+  const handlePreview = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!previewOrderId.trim()) return;
+    setPreviewLoading(true);
+    setPreviewResult(null);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/shipping-rates/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderId: previewOrderId.trim() }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر حساب أسعار الشحن');
+      }
+      setPreviewResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'تعذر حساب أسعار الشحن');
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-5 p-6">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">قواعد اختيار شركة الشحن</h3>
+          <p className="text-sm text-gray-500">
+            كل القواعد المفعّلة تُطبَّق معاً: قاعدة &quot;فقط عندما&quot; تستبعد الشركات المحددة إذا لم تتحقق شروطها،
+            وقاعدة &quot;ليس عندما&quot; تستبعدها إذا تحققت. يُقترح الأرخص أو الأسرع من الشركات المتبقية.
+          </p>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {rules.length === 0 ? (
+          <p className="text-sm text-gray-500">لا توجد قواعد اختيار بعد</p>
+        ) : (
+          <ul className="divide-y rounded-lg border">
+            {rules.map((rule) => (
+              <li key={rule.id} className="flex flex-col gap-2 p-3 md:flex-row md:items-center md:justify-between">
+                <div className={cn('space-y-1', !rule.isActive && 'opacity-50')}>
+                  <p className="font-semibold text-gray-900">
+                    {rule.position}. {rule.name}
+                  </p>
+                  <p className="text-xs text-gray-600">
+                    {rule.carriers.map(carrierLabel).join('، ')} {rule.effect === 'never_when' ? 'ليس عندما' : 'فقط عندما'}{' '}
+                    {describeConditions(rule)}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => handleToggle(rule)}>
+                    {rule.isActive ? 'إيقاف' : 'تفعيل'}
+                  </Button>
+                  <Button size="sm" variant="outline" className="text-red-600" onClick={() => handleDelete(rule)}>
+                    حذف
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-3 rounded-lg border border-dashed p-4">
+          <p className="text-sm font-semibold text-gray-800">قاعدة جديدة</p>
+          <div className="flex flex-wrap gap-3">
+            {SHIPPING_OPTION_CODES.map((code) => (
+              <label key={code} className="flex items-center gap-2 text-sm text-gray-700">
+                <Checkbox checked={form.carriers.includes(code)} onCheckedChange={() => toggleCarrier(code)} />
+                {SHIPPING_OPTION_LABELS[code]}
+              </label>
+            ))}
+          </div>
+          <div className="grid gap-3 md:grid-cols-3">
+            <Input placeholder="اسم القاعدة" value={form.name} onChange={(e) => updateForm('name', e.target.value)} />
+            <Input
+              type="number"
+              placeholder="الترتيب"
+              value={form.position}
+              onChange={(e) => updateForm('position', e.target.value)}
+            />
+            <NativeSelect className="w-full" value={form.effect} onChange={(e) => updateForm('effect', e.target.value)}>
+              <option value="only_when">فقط عندما</option>
+              <option value="never_when">ليس عندما</option>
+            </NativeSelect>
+            <NativeSelect
+              className="w-full"
+              value={form.destination}
+              onChange={(e) => updateForm('destination', e.target.value)}
+            >
+              <option value="">أي وجهة</option>
+              <option value="domestic">محلي</option>
+              <option value="international">دولي</option>
+            </NativeSelect>
+            <NativeSelect
+              className="w-full"
+              value={form.paymentType}
+              onChange={(e) => updateForm('paymentType', e.target.value)}
+            >
+              <option value="">أي نوع دفع</option>
+              <option value="cod">الدفع عند الاستلام</option>
+              <option value="prepaid">مدفوع مسبقاً</option>
+            </NativeSelect>
+            <Input
+              placeholder="الدول (مفصولة بفاصلة)"
+              value={form.countries}
+              onChange={(e) => updateForm('countries', e.target.value)}
+            />
+            <Input
+              placeholder="المدن (مفصولة بفاصلة)"
+              value={form.cities}
+              onChange={(e) => updateForm('cities', e.target.value)}
+            />
+            <Input
+              type="number"
+              min={0}
+              step="0.1"
+              placeholder="أقل وزن (كجم)"
+              value={form.minWeightKg}
+              onChange={(e) => updateForm('minWeightKg', e.target.value)}
+            />
+            <Input
+              type="number"
+              min={0}
+              step="0.1"
+              placeholder="أقصى وزن (كجم)"
+              value={form.maxWeightKg}
+              onChange={(e) => updateForm('maxWeightKg', e.target.value)}
+            />
+          </div>
+          <Button type="submit" disabled={saving}>
+            {saving ? 'جاري الحفظ...' : 'إضافة القاعدة'}
+          </Button>
+        </form>
+
+        <form onSubmit={handlePreview} className="space-y-3 rounded-lg bg-slate-50 p-4">
+          <p className="text-sm font-semibold text-gray-800">تجربة الاختيار لطلب</p>
+          <div className="flex flex-col gap-2 md:flex-row">
+            <Input
+              placeholder="رقم الطلب في سلة"
+              value={previewOrderId}
+              onChange={(e) => setPreviewOrderId(e.target.value)}
+              className="flex-1"
+            />
+            <Button type="submit" disabled={previewLoading || !previewOrderId.trim()}>
+              {previewLoading ? 'جاري الحساب...' : 'تجربة'}
+            </Button>
+          </div>
+
+          {previewResult && (
+            <div className="space-y-3 text-sm">
+              <p className="font-semibold text-gray-900">
+                #{previewResult.orderNumber || previewResult.orderId}: {previewResult.decision.explanation}
+              </p>
+              <p className="text-xs text-gray-600">
+                {previewResult.facts.city || 'مدينة غير معروفة'} · {previewResult.facts.weightKg} كجم ·{' '}
+                {previewResult.facts.isCod ? `تحصيل ${previewResult.facts.codAmount}` : 'مدفوع مسبقاً'} · القيمة{' '}
+                {previewResult.facts.declaredValue}
+              </p>
+              <ol className="space-y-2">
+                {previewResult.decision.evaluations.map((evaluation) => (
+                  <li key={evaluation.ruleId} className="rounded-md border bg-white p-2">
+                    <p
+                      className={cn(
+                        'font-medium',
+                        evaluation.excludedCarriers.length > 0 ? 'text-amber-700' : 'text-gray-700',
+                      )}
+                    >
+                      {evaluation.position}. {evaluation.ruleName} —{' '}
+                      {evaluation.skippedReason ||
+                        (evaluation.excludedCarriers.length > 0
+                          ? `استبعدت ${evaluation.excludedCarriers.map(carrierLabel).join('، ')}`
+                          : 'لم تستبعد شيئاً')}
+                    </p>
+                    {evaluation.checks.length > 0 && (
+                      <ul className="mt-1 space-y-0.5 text-xs">
+                        {evaluation.checks.map((check) => (
+                          <li key={check.condition} className={check.passed ? 'text-emerald-700' : 'text-red-600'}>
+                            {conditionLabels[check.condition] || check.condition}: المطلوب {check.expected}، الطلب{' '}
+                            {check.actual}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
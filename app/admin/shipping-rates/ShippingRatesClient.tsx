@@ -0,0 +1,115 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { AppPageShell } from '@/components/dashboard/app-page-shell';
+import { LoadingState } from '@/components/dashboard/states';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { NativeSelect } from '@/components/ui/native-select';
+import { isCarrierSelectionStrategy, type CarrierSelectionStrategy } from '@/app/lib/carrier-rates';
+import RateCardsPanel from './RateCardsPanel';
+import SelectionRulesPanel from './SelectionRulesPanel';
+
+const STRATEGY_SETTING_KEY = 'carrier_selection_strategy';
+
+export default function ShippingRatesClient() {
+  const { data: session, status } = useSession();
+  const [strategy, setStrategy] = useState<CarrierSelectionStrategy>('cheapest');
+  const [savingStrategy, setSavingStrategy] = useState(false);
+  const [strategyMessage, setStrategyMessage] = useState<string | null>(null);
+
+  const loadStrategy = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/settings?key=${STRATEGY_SETTING_KEY}`, { cache: 'no-store' });
+      // A missing setting means the default strategy is in effect.
+      if (response.status === 404) return;
+      const data = await response.json();
+      if (response.ok && isCarrierSelectionStrategy(data.setting?.value)) {
+        setStrategy(data.setting.value);
+      }
+    } catch (error) {
+      console.error('Failed to load carrier selection strategy', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      void loadStrategy();
+    }
+  }, [status, loadStrategy]);
+
+  const handleStrategyChange = async (value: string) => {
+    if (!isCarrierSelectionStrategy(value)) return;
+    const previous = strategy;
+    setStrategy(value);
+    setSavingStrategy(true);
+    setStrategyMessage(null);
+    try {
+      const response = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: STRATEGY_SETTING_KEY, value }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر حفظ معيار الاختيار');
+      }
+      setStrategyMessage('تم حفظ معيار الاختيار');
+    } catch (error) {
+      setStrategy(previous);
+      setStrategyMessage(error instanceof Error ? error.message : 'تعذر حفظ معيار الاختيار');
+    } finally {
+      setSavingStrategy(false);
+    }
+  };
+
+  if (status === 'loading') {
+    return (
+      <AppPageShell title="أسعار الشحن" subtitle="بطاقات الأسعار وقواعد اختيار شركة الشحن">
+        <LoadingState label="جاري التحميل..." />
+      </AppPageShell>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md p-8 text-center">
+          <h1 className="text-2xl font-bold mb-4">أسعار الشحن</h1>
+          <Button onClick={() => (window.location.href = '/login')} className="w-full">
+            تسجيل الدخول
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <AppPageShell title="أسعار الشحن" subtitle="بطاقات الأسعار وقواعد اختيار شركة الشحن">
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="flex flex-col gap-3 p-6 md:flex-row md:items-center md:justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">معيار الاختيار التلقائي</h3>
+              <p className="text-sm text-gray-500">
+                تختار صفحة شحن الطلبات مسبقاً الشركة الأرخص أو الأسرع من بين الشركات التي تسمح بها القواعد.
+              </p>
+              {strategyMessage && <p className="mt-1 text-xs text-gray-600">{strategyMessage}</p>}
+            </div>
+            <NativeSelect
+              value={strategy}
+              disabled={savingStrategy}
+              onChange={(e) => void handleStrategyChange(e.target.value)}
+            >
+              <option value="cheapest">الأرخص</option>
+              <option value="fastest">الأسرع</option>
+            </NativeSelect>
+          </CardContent>
+        </Card>
+        <RateCardsPanel />
+        <SelectionRulesPanel />
+      </div>
+    </AppPageShell>
+  );
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { getAuditUser } from '@/app/lib/audit';
+import { cancelBackOrder, listBackOrders, releaseBackOrder } from '@/app/lib/order-back-orders';
+import { OrderSplitError } from '@/app/lib/order-prep-split';
+
+export const runtime = 'nodejs';
+
+const ensureAdmin = async () => {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return { status: 401 as const, response: NextResponse.json({ error: 'غير مصرح' }, { status: 401 }) };
+  }
+  const roles = (session.user as any)?.roles || [];
+  const role = (session.user as any)?.role;
+  const isAdmin = roles.includes('admin') || role === 'admin';
+  if (!isAdmin) {
+    return {
+      status: 403 as const,
+      response: NextResponse.json({ error: 'لا تملك صلاحية الوصول' }, { status: 403 }),
+    };
+  }
+  return { status: 200 as const, session };
+};
+
+/**
+ * GET /api/admin/order-assignments/back-orders
+ * Open back-orders, oldest first. Pass ?orderId= to scope to one order and
+ * ?includeClosed=1 to include shipped and cancelled ones.
+ */
+export async function GET(request: NextRequest) {
+  const check = await ensureAdmin();
+  if (check.status !== 200) {
+    return check.response;
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const backOrders = await listBackOrders({
+      orderId: searchParams.get('orderId')?.trim() || null,
+      includeClosed: ['1', 'true'].includes(searchParams.get('includeClosed') || ''),
+    });
+    return NextResponse.json({ success: true, backOrders });
+  } catch (error) {
+    log.error('Failed to load order back-orders', { error });
+    return NextResponse.json({ error: 'تعذر تحميل الشحنات المؤجلة' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/admin/order-assignments/back-orders
+ * { backOrderId, action: 'release' | 'cancel', userId? }
+ */
+export async function PATCH(request: NextRequest) {
+  const check = await ensureAdmin();
+  if (check.status !== 200) {
+    return check.response;
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const backOrderId = typeof body?.backOrderId === 'string' ? body.backOrderId.trim() : '';
+    const action = body?.action;
+    if (!backOrderId) {
+      return NextResponse.json({ error: 'معرف الشحنة المؤجلة مطلوب' }, { status: 400 });
+    }
+
+    const auditUser = getAuditUser(check.session.user as any);
+    const actorName = auditUser.name || 'الإدارة';
+    if (action === 'release') {
+      const assignment = await releaseBackOrder({
+        backOrderId,
+        userId: typeof body?.userId === 'string' && body.userId.trim() ? body.userId.trim() : null,
+        actorName,
+      });
+      return NextResponse.json({ success: true, assignment });
+    }
+    if (action === 'cancel') {
+      const backOrder = await cancelBackOrder({ backOrderId, actorName });
+      return NextResponse.json({ success: true, backOrder });
+    }
+    return NextResponse.json({ error: 'إجراء غير مدعوم' }, { status: 400 });
+  } catch (error) {
+    if (error instanceof OrderSplitError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to update order back-order', { error });
+    return NextResponse.json({ error: 'تعذر تحديث الشحنة المؤجلة' }, { status: 500 });
+  }
+}
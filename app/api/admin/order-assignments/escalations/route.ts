@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+import { getAuditUser } from '@/app/lib/audit';
+
+export const runtime = 'nodejs';
+
+const MERCHANT_ID = process.env.NEXT_PUBLIC_MERCHANT_ID || '1696031053';
+
+const ensureAdmin = async () => {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return { status: 401 as const, response: NextResponse.json({ error: 'غير مصرح' }, { status: 401 }) };
+  }
+  const roles = (session.user as any)?.roles || [];
+  const role = (session.user as any)?.role;
+  const isAdmin = roles.includes('admin') || role === 'admin';
+  if (!isAdmin) {
+    return {
+      status: 403 as const,
+      response: NextResponse.json({ error: 'لا تملك صلاحية الوصول' }, { status: 403 }),
+    };
+  }
+  return { status: 200 as const, session };
+};
+
+/**
+ * GET /api/admin/order-assignments/escalations
+ * Open order-prep escalations, newest first. Pass ?includeResolved=1 for history.
+ */
+export async function GET(request: NextRequest) {
+  const check = await ensureAdmin();
+  if (check.status !== 200) {
+    return check.response;
+  }
+
+  try {
+    const includeResolved = ['1', 'true'].includes(
+      request.nextUrl.searchParams.get('includeResolved') || ''
+    );
+    const escalations = await prisma.orderPrepEscalation.findMany({
+      where: {
+        merchantId: MERCHANT_ID,
+        ...(includeResolved ? {} : { resolvedAt: null }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    });
+
+    return NextResponse.json({ success: true, escalations });
+  } catch (error) {
+    log.error('Failed to load order prep escalations', { error });
+    return NextResponse.json({ error: 'تعذر تحميل التصعيدات' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/admin/order-assignments/escalations
+ * Resolve one escalation by id.
+ */
+export async function PATCH(request: NextRequest) {
+  const check = await ensureAdmin();
+  if (check.status !== 200) {
+    return check.response;
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const id = typeof body?.id === 'string' ? body.id.trim() : '';
+    if (!id) {
+      return NextResponse.json({ error: 'معرف التصعيد مطلوب' }, { status: 400 });
+    }
+
+    const auditUser = getAuditUser(check.session.user as any);
+    const result = await prisma.orderPrepEscalation.updateMany({
+      where: { id, resolvedAt: null },
+      data: {
+        resolvedAt: new Date(),
+        resolvedById: auditUser.id,
+        resolvedByName: auditUser.name,
+      },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json({ error: 'التصعيد غير موجود أو تمت معالجته' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error('Failed to resolve order prep escalation', { error });
+    return NextResponse.json({ error: 'تعذر معالجة التصعيد' }, { status: 500 });
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+import {
+  OrderRoutingRuleError,
+  parseRoutingRuleInput,
+  serializeRoutingRule,
+} from '@/app/lib/order-routing';
+
+export const runtime = 'nodejs';
+
+const MERCHANT_ID = process.env.NEXT_PUBLIC_MERCHANT_ID || '1696031053';
+
+const ensureAdmin = async () => {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return { status: 401 as const, response: NextResponse.json({ error: 'غير مصرح' }, { status: 401 }) };
+  }
+  const roles = (session.user as any)?.roles || [];
+  const role = (session.user as any)?.role;
+  const isAdmin = roles.includes('admin') || role === 'admin';
+  if (!isAdmin) {
+    return {
+      status: 403 as const,
+      response: NextResponse.json({ error: 'لا تملك صلاحية الوصول' }, { status: 403 }),
+    };
+  }
+  return { status: 200 as const, session };
+};
+
+/**
+ * PATCH /api/admin/order-assignments/routing-rules/[ruleId]
+ * Replace a rule. `{ isActive }` alone just toggles it.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  const check = await ensureAdmin();
+  if (check.status !== 200) {
+    return check.response;
+  }
+
+  try {
+    const { ruleId } = await params;
+    const existing = await prisma.orderRoutingRule.findFirst({
+      where: { id: ruleId, merchantId: MERCHANT_ID },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'قاعدة التوجيه غير موجودة' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const isToggle = body && Object.keys(body).length === 1 && typeof body.isActive === 'boolean';
+    const data = isToggle ? { isActive: body.isActive as boolean } : await parseRoutingRuleInput(body);
+
+    const rule = await prisma.orderRoutingRule.update({
+      where: { id: existing.id },
+      data,
+    });
+
+    return NextResponse.json({ success: true, rule: serializeRoutingRule(rule) });
+  } catch (error) {
+    if (error instanceof OrderRoutingRuleError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to update order routing rule', { error });
+    return NextResponse.json({ error: 'تعذر تحديث قاعدة التوجيه' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/order-assignments/routing-rules/[ruleId]
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  const check = await ensureAdmin();
+  if (check.status !== 200) {
+    return check.response;
+  }
+
+  try {
+    const { ruleId } = await params;
+    const result = await prisma.orderRoutingRule.deleteMany({
+      where: { id: ruleId, merchantId: MERCHANT_ID },
+    });
+    if (result.count === 0) {
+      return NextResponse.json({ error: 'قاعدة التوجيه غير موجودة' }, { status: 404 });
+    }
+
+    log.info('Order routing rule deleted', { ruleId });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error('Failed to delete order routing rule', { error });
+    return NextResponse.json({ error: 'تعذر حذف قاعدة التوجيه' }, { status: 500 });
+  }
+}
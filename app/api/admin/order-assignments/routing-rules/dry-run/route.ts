@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { explainOrderRouting } from '@/app/lib/order-prep-service';
+
+export const runtime = 'nodejs';
+
+const ensureAdmin = async () => {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return { status: 401 as const, response: NextResponse.json({ error: 'غير مصرح' }, { status: 401 }) };
+  }
+  const roles = (session.user as any)?.roles || [];
+  const role = (session.user as any)?.role;
+  const isAdmin = roles.includes('admin') || role === 'admin';
+  if (!isAdmin) {
+    return {
+      status: 403 as const,
+      response: NextResponse.json({ error: 'لا تملك صلاحية الوصول' }, { status: 403 }),
+    };
+  }
+  return { status: 200 as const, session };
+};
+
+/**
+ * POST /api/admin/order-assignments/routing-rules/dry-run
+ * Body: { orderId, userId? }. Explains which rule routes the Salla order, why
+ * earlier rules did not match, and who could claim it. Nothing is assigned.
+ */
+export async function POST(request: NextRequest) {
+  const check = await ensureAdmin();
+  if (check.status !== 200) {
+    return check.response;
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const orderId = typeof body?.orderId === 'string' ? body.orderId.trim() : String(body?.orderId ?? '').trim();
+    const userId = typeof body?.userId === 'string' && body.userId.trim() ? body.userId.trim() : null;
+
+    if (!orderId) {
+      return NextResponse.json({ error: 'يجب تمرير رقم الطلب' }, { status: 400 });
+    }
+
+    const explanation = await explainOrderRouting(orderId, { userId });
+    if (!explanation) {
+      return NextResponse.json({ error: 'تعذر العثور على الطلب في سلة' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, ...explanation });
+  } catch (error) {
+    log.error('Failed to dry-run order routing', { error });
+    return NextResponse.json({ error: 'تعذر تجربة قواعد التوجيه' }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+import { getAuditUser } from '@/app/lib/audit';
+import {
+  OrderRoutingRuleError,
+  parseRoutingRuleInput,
+  serializeRoutingRule,
+} from '@/app/lib/order-routing';
+
+export const runtime = 'nodejs';
+
+const MERCHANT_ID = process.env.NEXT_PUBLIC_MERCHANT_ID || '1696031053';
+
+const ensureAdmin = async () => {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return { status: 401 as const, response: NextResponse.json({ error: 'غير مصرح' }, { status: 401 }) };
+  }
+  const roles = (session.user as any)?.roles || [];
+  const role = (session.user as any)?.role;
+  const isAdmin = roles.includes('admin') || role === 'admin';
+  if (!isAdmin) {
+    return {
+      status: 403 as const,
+      response: NextResponse.json({ error: 'لا تملك صلاحية الوصول' }, { status: 403 }),
+    };
+  }
+  return { status: 200 as const, session };
+};
+
+/**
+ * GET /api/admin/order-assignments/routing-rules
+ * All routing rules in evaluation order, active or not.
+ */
+export async function GET() {
+  const check = await ensureAdmin();
+  if (check.status !== 200) {
+    return check.response;
+  }
+
+  try {
+    const rules = await prisma.orderRoutingRule.findMany({
+      where: { merchantId: MERCHANT_ID },
+      orderBy: [{ position: 'asc' }, { id: 'asc' }],
+    });
+    return NextResponse.json({ success: true, rules: rules.map(serializeRoutingRule) });
+  } catch (error) {
+    log.error('Failed to load order routing rules', { error });
+    return NextResponse.json({ error: 'تعذر تحميل قواعد التوجيه' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/order-assignments/routing-rules
+ * Create a routing rule.
+ */
+export async function POST(request: NextRequest) {
+  const check = await ensureAdmin();
+  if (check.status !== 200) {
+    return check.response;
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const input = await parseRoutingRuleInput(body);
+    const auditUser = getAuditUser(check.session.user as any);
+
+    const rule = await prisma.orderRoutingRule.create({
+      data: {
+        ...input,
+        merchantId: MERCHANT_ID,
+        createdById: auditUser.id,
+        createdByName: auditUser.name,
+      },
+    });
+
+    log.info('Order routing rule created', { ruleId: rule.id, name: rule.name });
+    return NextResponse.json({ success: true, rule: serializeRoutingRule(rule) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof OrderRoutingRuleError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to create order routing rule', { error });
+    return NextResponse.json({ error: 'تعذر إنشاء قاعدة التوجيه' }, { status: 500 });
+  }
+}
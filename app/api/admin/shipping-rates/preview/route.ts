@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { previewOrderCarriers } from '@/app/lib/carrier-selection';
+
+export const runtime = 'nodejs';
+
+const MERCHANT_ID = process.env.NEXT_PUBLIC_MERCHANT_ID || '1696031053';
+
+const ensureAdmin = async () => {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return { status: 401 as const, response: NextResponse.json({ error: 'غير مصرح' }, { status: 401 }) };
+  }
+  const roles = (session.user as any)?.roles || [];
+  const role = (session.user as any)?.role;
+  const isAdmin = roles.includes('admin') || role === 'admin';
+  if (!isAdmin) {
+    return {
+      status: 403 as const,
+      response: NextResponse.json({ error: 'لا تملك صلاحية الوصول' }, { status: 403 }),
+    };
+  }
+  return { status: 200 as const, session };
+};
+
+/**
+ * POST /api/admin/shipping-rates/preview
+ * Body: { orderId }. Quotes the Salla order on the current rate cards and
+ * rules and explains which carrier order shipping would preselect. Nothing is
+ * recorded.
+ */
+export async function POST(request: NextRequest) {
+  const check = await ensureAdmin();
+  if (check.status !== 200) {
+    return check.response;
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const orderId = typeof body?.orderId === 'string' ? body.orderId.trim() : String(body?.orderId ?? '').trim();
+    if (!orderId) {
+      return NextResponse.json({ error: 'يجب تمرير رقم الطلب' }, { status: 400 });
+    }
+
+    const preview = await previewOrderCarriers(MERCHANT_ID, orderId);
+    if (!preview) {
+      return NextResponse.json({ error: 'تعذر العثور على الطلب في سلة' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, ...preview });
+  } catch (error) {
+    log.error('Failed to preview carrier selection', { error });
+    return NextResponse.json({ error: 'تعذر حساب أسعار الشحن' }, { status: 500 });
+  }
+}
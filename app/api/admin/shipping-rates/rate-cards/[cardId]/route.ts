@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+import { CarrierRateError, parseRateCardInput, serializeRateCard } from '@/app/lib/carrier-selection';
+
+export const runtime = 'nodejs';
+
+const MERCHANT_ID = process.env.NEXT_PUBLIC_MERCHANT_ID || '1696031053';
+
+const ensureAdmin = async () => {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return { status: 401 as const, response: NextResponse.json({ error: 'غير مصرح' }, { status: 401 }) };
+  }
+  const roles = (session.user as any)?.roles || [];
+  const role = (session.user as any)?.role;
+  const isAdmin = roles.includes('admin') || role === 'admin';
+  if (!isAdmin) {
+    return {
+      status: 403 as const,
+      response: NextResponse.json({ error: 'لا تملك صلاحية الوصول' }, { status: 403 }),
+    };
+  }
+  return { status: 200 as const, session };
+};
+
+/**
+ * PATCH /api/admin/shipping-rates/rate-cards/[cardId]
+ * Replace a rate card. `{ isActive }` alone just toggles it.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ cardId: string }> }
+) {
+  const check = await ensureAdmin();
+  if (check.status !== 200) {
+    return check.response;
+  }
+
+  try {
+    const { cardId } = await params;
+    const existing = await prisma.carrierRateCard.findFirst({
+      where: { id: cardId, merchantId: MERCHANT_ID },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'بطاقة الأسعار غير موجودة' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const isToggle = body && Object.keys(body).length === 1 && typeof body.isActive === 'boolean';
+    const data = isToggle ? { isActive: body.isActive as boolean } : parseRateCardInput(body);
+
+    const card = await prisma.carrierRateCard.update({
+      where: { id: existing.id },
+      data,
+    });
+
+    return NextResponse.json({ success: true, rateCard: serializeRateCard(card) });
+  } catch (error) {
+    if (error instanceof CarrierRateError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to update carrier rate card', { error });
+    return NextResponse.json({ error: 'تعذر تحديث بطاقة الأسعار' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/shipping-rates/rate-cards/[cardId]
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ cardId: string }> }
+) {
+  const check = await ensureAdmin();
+  if (check.status !== 200) {
+    return check.response;
+  }
+
+  try {
+    const { cardId } = await params;
+    const result = await prisma.carrierRateCard.deleteMany({
+      where: { id: cardId, merchantId: MERCHANT_ID },
+    });
+    if (result.count === 0) {
+      return NextResponse.json({ error: 'بطاقة الأسعار غير موجودة' }, { status: 404 });
+    }
+
+    log.info('Carrier rate card deleted', { cardId });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error('Failed to delete carrier rate card', { error });
+    return NextResponse.json({ error: 'تعذر حذف بطاقة الأسعار' }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+import { getAuditUser } from '@/app/lib/audit';
+import { CarrierRateError, parseRateCardInput, serializeRateCard } from '@/app/lib/carrier-selection';
+
+export const runtime = 'nodejs';
+
+const MERCHANT_ID = process.env.NEXT_PUBLIC_MERCHANT_ID || '1696031053';
+
+const ensureAdmin = async () => {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return { status: 401 as const, response: NextResponse.json({ error: 'غير مصرح' }, { status: 401 }) };
+  }
+  const roles = (session.user as any)?.roles || [];
+  const role = (session.user as any)?.role;
+  const isAdmin = roles.includes('admin') || role === 'admin';
+  if (!isAdmin) {
+    return {
+      status: 403 as const,
+      response: NextResponse.json({ error: 'لا تملك صلاحية الوصول' }, { status: 403 }),
+    };
+  }
+  return { status: 200 as const, session };
+};
+
+/**
+ * GET /api/admin/shipping-rates/rate-cards
+ * Every rate card, active or not, grouped by carrier.
+ */
+export async function GET() {
+  const check = await ensureAdmin();
+  if (check.status !== 200) {
+    return check.response;
+  }
+
+  try {
+    const cards = await prisma.carrierRateCard.findMany({
+      where: { merchantId: MERCHANT_ID },
+      orderBy: [{ carrier: 'asc' }, { createdAt: 'asc' }],
+    });
+    return NextResponse.json({ success: true, rateCards: cards.map(serializeRateCard) });
+  } catch (error) {
+    log.error('Failed to load carrier rate cards', { error });
+    return NextResponse.json({ error: 'تعذر تحميل بطاقات الأسعار' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/shipping-rates/rate-cards
+ * Create a rate card.
+ */
+export async function POST(request: NextRequest) {
+  const check = await ensureAdmin();
+  if (check.status !== 200) {
+    return check.response;
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const input = parseRateCardInput(body);
+    const auditUser = getAuditUser(check.session.user as any);
+
+    const card = await prisma.carrierRateCard.create({
+      data: {
+        ...input,
+        merchantId: MERCHANT_ID,
+        createdById: auditUser.id,
+        createdByName: auditUser.name,
+      },
+    });
+
+    log.info('Carrier rate card created', { cardId: card.id, carrier: card.carrier, name: card.name });
+    return NextResponse.json({ success: true, rateCard: serializeRateCard(card) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof CarrierRateError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to create carrier rate card', { error });
+    return NextResponse.json({ error: 'تعذر إنشاء بطاقة الأسعار' }, { status: 500 });
+  }
+}
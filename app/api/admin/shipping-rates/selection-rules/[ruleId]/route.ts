@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+import { CarrierRateError, parseSelectionRuleInput, serializeSelectionRule } from '@/app/lib/carrier-selection';
+
+export const runtime = 'nodejs';
+
+const MERCHANT_ID = process.env.NEXT_PUBLIC_MERCHANT_ID || '1696031053';
+
+const ensureAdmin = async () => {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return { status: 401 as const, response: NextResponse.json({ error: 'غير مصرح' }, { status: 401 }) };
+  }
+  const roles = (session.user as any)?.roles || [];
+  const role = (session.user as any)?.role;
+  const isAdmin = roles.includes('admin') || role === 'admin';
+  if (!isAdmin) {
+    return {
+      status: 403 as const,
+      response: NextResponse.json({ error: 'لا تملك صلاحية الوصول' }, { status: 403 }),
+    };
+  }
+  return { status: 200 as const, session };
+};
+
+/**
+ * PATCH /api/admin/shipping-rates/selection-rules/[ruleId]
+ * Replace a rule. `{ isActive }` alone just toggles it.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  const check = await ensureAdmin();
+  if (check.status !== 200) {
+    return check.response;
+  }
+
+  try {
+    const { ruleId } = await params;
+    const existing = await prisma.carrierSelectionRule.findFirst({
+      where: { id: ruleId, merchantId: MERCHANT_ID },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'قاعدة اختيار شركة الشحن غير موجودة' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const isToggle = body && Object.keys(body).length === 1 && typeof body.isActive === 'boolean';
+    const data = isToggle ? { isActive: body.isActive as boolean } : parseSelectionRuleInput(body);
+
+    const rule = await prisma.carrierSelectionRule.update({
+      where: { id: existing.id },
+      data,
+    });
+
+    return NextResponse.json({ success: true, rule: serializeSelectionRule(rule) });
+  } catch (error) {
+    if (error instanceof CarrierRateError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to update carrier selection rule', { error });
+    return NextResponse.json({ error: 'تعذر تحديث قاعدة اختيار شركة الشحن' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/shipping-rates/selection-rules/[ruleId]
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  const check = await ensureAdmin();
+  if (check.status !== 200) {
+    return check.response;
+  }
+
+  try {
+    const { ruleId } = await params;
+    const result = await prisma.carrierSelectionRule.deleteMany({
+      where: { id: ruleId, merchantId: MERCHANT_ID },
+    });
+    if (result.count === 0) {
+      return NextResponse.json({ error: 'قاعدة اختيار شركة الشحن غير موجودة' }, { status: 404 });
+    }
+
+    log.info('Carrier selection rule deleted', { ruleId });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error('Failed to delete carrier selection rule', { error });
+    return NextResponse.json({ error: 'تعذر حذف قاعدة اختيار شركة الشحن' }, { status: 500 });
+  }
+}
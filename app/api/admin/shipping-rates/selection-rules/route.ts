@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+import { getAuditUser } from '@/app/lib/audit';
+import { CarrierRateError, parseSelectionRuleInput, serializeSelectionRule } from '@/app/lib/carrier-selection';
+
+export const runtime = 'nodejs';
+
+const MERCHANT_ID = process.env.NEXT_PUBLIC_MERCHANT_ID || '1696031053';
+
+const ensureAdmin = async () => {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return { status: 401 as const, response: NextResponse.json({ error: 'غير مصرح' }, { status: 401 }) };
+  }
+  const roles = (session.user as any)?.roles || [];
+  const role = (session.user as any)?.role;
+  const isAdmin = roles.includes('admin') || role === 'admin';
+  if (!isAdmin) {
+    return {
+      status: 403 as const,
+      response: NextResponse.json({ error: 'لا تملك صلاحية الوصول' }, { status: 403 }),
+    };
+  }
+  return { status: 200 as const, session };
+};
+
+/**
+ * GET /api/admin/shipping-rates/selection-rules
+ * All carrier selection rules in evaluation order, active or not.
+ */
+export async function GET() {
+  const check = await ensureAdmin();
+  if (check.status !== 200) {
+    return check.response;
+  }
+
+  try {
+    const rules = await prisma.carrierSelectionRule.findMany({
+      where: { merchantId: MERCHANT_ID },
+      orderBy: [{ position: 'asc' }, { id: 'asc' }],
+    });
+    return NextResponse.json({ success: true, rules: rules.map(serializeSelectionRule) });
+  } catch (error) {
+    log.error('Failed to load carrier selection rules', { error });
+    return NextResponse.json({ error: 'تعذر تحميل قواعد اختيار شركة الشحن' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/shipping-rates/selection-rules
+ * Create a carrier selection rule.
+ */
+export async function POST(request: NextRequest) {
+  const check = await ensureAdmin();
+  if (check.status !== 200) {
+    return check.response;
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const input = parseSelectionRuleInput(body);
+    const auditUser = getAuditUser(check.session.user as any);
+
+    const rule = await prisma.carrierSelectionRule.create({
+      data: {
+        ...input,
+        merchantId: MERCHANT_ID,
+        createdById: auditUser.id,
+        createdByName: auditUser.name,
+      },
+    });
+
+    log.info('Carrier selection rule created', { ruleId: rule.id, name: rule.name });
+    return NextResponse.json({ success: true, rule: serializeSelectionRule(rule) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof CarrierRateError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to create carrier selection rule', { error });
+    return NextResponse.json({ error: 'تعذر إنشاء قاعدة اختيار شركة الشحن' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { getAuditUser } from '@/app/lib/audit';
+import { CodCashUpError, parseCashUpClose } from '@/app/lib/cod-cash-up';
+import { closeCashUpSession, serializeCashUpSession } from '@/app/lib/cod-cash-up-service';
+import { canManageCashUps } from '../../utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/cod-cash-ups/[id]/close
+ * Records the final count, the messenger's signature and the deposit
+ * reference, and moves the gathered collections to deposited.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!canManageCashUps(session)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لاستلام النقدية' }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    const body = await request.json().catch(() => ({}));
+    const input = parseCashUpClose(body);
+    const cashUp = await closeCashUpSession(id, input, getAuditUser(session.user as any));
+    log.info('COD cash-up session closed', {
+      cashUpId: id,
+      cashUpNumber: cashUp.cashUpNumber,
+      depositReference: cashUp.depositReference,
+      varianceAmount: cashUp.varianceAmount === null ? null : Number(cashUp.varianceAmount),
+    });
+    return NextResponse.json({ success: true, session: serializeCashUpSession(cashUp, { includeCollections: true }) });
+  } catch (error) {
+    if (error instanceof CodCashUpError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to close COD cash-up session', { cashUpId: id, error });
+    return NextResponse.json({ error: 'تعذر إغلاق جلسة تسليم النقدية' }, { status: 500 });
+  }
+}
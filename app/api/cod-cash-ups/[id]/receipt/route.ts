@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { getCashUpSession } from '@/app/lib/cod-cash-up-service';
+import { generateCashUpReceiptPdf } from '@/app/lib/cod-cash-up-pdf';
+import { canManageCashUps } from '../../utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/cod-cash-ups/[id]/receipt
+ * Downloads the signed cash-up receipt.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!canManageCashUps(session)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لعرض تسليم النقدية' }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    const cashUp = await getCashUpSession(id);
+    if (!cashUp) {
+      return NextResponse.json({ error: 'جلسة التسليم غير موجودة' }, { status: 404 });
+    }
+    const pdf = await generateCashUpReceiptPdf(cashUp);
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${cashUp.cashUpNumber}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    log.error('Failed to render COD cash-up receipt', { cashUpId: id, error });
+    return NextResponse.json({ error: 'تعذر إنشاء إيصال تسليم النقدية' }, { status: 500 });
+  }
+}
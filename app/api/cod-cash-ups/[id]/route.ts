@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { CodCashUpError } from '@/app/lib/cod-cash-up';
+import {
+  cancelCashUpSession,
+  getCashUpSession,
+  saveCashUpCount,
+  serializeCashUpSession,
+} from '@/app/lib/cod-cash-up-service';
+import { canManageCashUps } from '../utils';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/cod-cash-ups/[id]
+ * The session with the collections it gathered.
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!canManageCashUps(session)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لعرض تسليم النقدية' }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    const cashUp = await getCashUpSession(id);
+    if (!cashUp) {
+      return NextResponse.json({ error: 'جلسة التسليم غير موجودة' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, session: serializeCashUpSession(cashUp, { includeCollections: true }) });
+  } catch (error) {
+    log.error('Failed to load COD cash-up session', { cashUpId: id, error });
+    return NextResponse.json({ error: 'تعذر تحميل جلسة تسليم النقدية' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/cod-cash-ups/[id]
+ * Saves the denomination count in progress.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!canManageCashUps(session)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لاستلام النقدية' }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    const body = await request.json().catch(() => ({}));
+    const cashUp = await saveCashUpCount(id, { counts: body?.counts, notes: body?.notes });
+    return NextResponse.json({ success: true, session: serializeCashUpSession(cashUp, { includeCollections: true }) });
+  } catch (error) {
+    if (error instanceof CodCashUpError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to save COD cash-up count', { cashUpId: id, error });
+    return NextResponse.json({ error: 'تعذر حفظ عدّ النقدية' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/cod-cash-ups/[id]
+ * Cancels an open session and releases its collections.
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!canManageCashUps(session)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لاستلام النقدية' }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    const cashUp = await cancelCashUpSession(id);
+    return NextResponse.json({ success: true, session: serializeCashUpSession(cashUp) });
+  } catch (error) {
+    if (error instanceof CodCashUpError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to cancel COD cash-up session', { cashUpId: id, error });
+    return NextResponse.json({ error: 'تعذر إلغاء جلسة تسليم النقدية' }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { getAuditUser } from '@/app/lib/audit';
+import { CodCashUpError } from '@/app/lib/cod-cash-up';
+import {
+  listAgentsAwaitingCashUp,
+  listCashUpSessions,
+  openCashUpSession,
+  serializeCashUpSession,
+} from '@/app/lib/cod-cash-up-service';
+import { canManageCashUps } from './utils';
+
+export const runtime = 'nodejs';
+
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 90;
+
+/**
+ * GET /api/cod-cash-ups
+ * Cash-up sessions from the last few days plus messengers still holding collected COD.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!canManageCashUps(session)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لعرض تسليم النقدية' }, { status: 403 });
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const days = Math.min(MAX_DAYS, Math.max(1, Number.parseInt(searchParams.get('days') || '', 10) || DEFAULT_DAYS));
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const [sessions, awaitingAgents] = await Promise.all([
+      listCashUpSessions({
+        status: searchParams.get('status'),
+        deliveryAgentId: searchParams.get('deliveryAgentId'),
+        since,
+      }),
+      listAgentsAwaitingCashUp(),
+    ]);
+    return NextResponse.json({
+      success: true,
+      sessions: sessions.map((item) => serializeCashUpSession(item)),
+      awaitingAgents,
+    });
+  } catch (error) {
+    log.error('Failed to load COD cash-up sessions', { error });
+    return NextResponse.json({ error: 'تعذر تحميل جلسات تسليم النقدية' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/cod-cash-ups
+ * Opens (or tops up) today's cash-up for a messenger.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!canManageCashUps(session)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لاستلام النقدية' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const deliveryAgentId = typeof body?.deliveryAgentId === 'string' ? body.deliveryAgentId.trim() : '';
+    if (!deliveryAgentId) {
+      return NextResponse.json({ error: 'المندوب مطلوب' }, { status: 400 });
+    }
+    const cashUp = await openCashUpSession(deliveryAgentId, getAuditUser(session.user as any));
+    return NextResponse.json({ success: true, session: serializeCashUpSession(cashUp, { includeCollections: true }) });
+  } catch (error) {
+    if (error instanceof CodCashUpError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to open COD cash-up session', { error });
+    return NextResponse.json({ error: 'تعذر فتح جلسة تسليم النقدية' }, { status: 500 });
+  }
+}
@@ -0,0 +1,9 @@
+import { hasServiceAccess } from '@/app/lib/service-access';
+
+/**
+ * Warehouse staff count the cash at the counter; accountants review the
+ * sessions and the variances posted to messenger wallets.
+ */
+export function canManageCashUps(session: any): boolean {
+  return hasServiceAccess(session, ['cod-tracker', 'delivery-agent-wallets']);
+}
@@ -44,7 +44,7 @@ export async function PATCH(
       include: {
         shipment: {
           include: {
-            assignment: true,
+            assignments: { orderBy: { attemptNumber: 'desc' }, take: 1 },
           },
         },
       },
@@ -93,6 +93,13 @@ export async function PATCH(
               { status: 403 }
             );
           }
+          // Cash gathered on an open cash-up is deposited when that session closes.
+          if (collection.cashUpSessionId && collection.status === 'collected') {
+            return NextResponse.json(
+              { error: 'هذا المبلغ ضمن جلسة تسليم نقدية مفتوحة، أغلق الجلسة لتسجيل الإيداع' },
+              { status: 409 }
+            );
+          }
           updateData.status = 'deposited';
           updateData.depositedAt = new Date();
           updateData.depositedBy = user.username || user.name;
@@ -143,7 +150,9 @@ export async function PATCH(
       include: {
         shipment: {
           include: {
-            assignment: {
+            assignments: {
+              orderBy: { attemptNumber: 'desc' },
+              take: 1,
               include: {
                 deliveryAgent: {
                   select: {
@@ -42,7 +42,9 @@ export async function GET(request: NextRequest) {
       include: {
         shipment: {
           include: {
-            assignment: {
+            assignments: {
+              orderBy: { attemptNumber: 'desc' },
+              take: 1,
               include: {
                 deliveryAgent: {
                   select: {
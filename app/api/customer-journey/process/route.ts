@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 
 import { processDueCustomerJourneyNotifications } from '@/app/lib/customer-journey-notifications';
+import { processDueDeliveryOtpSmsFallbacks } from '@/app/lib/delivery-otp-channel';
 import { log } from '@/app/lib/logger';
 
 export const runtime = 'nodejs';
@@ -18,7 +19,8 @@ export async function GET(request: NextRequest) {
   }
   try {
     const result = await processDueCustomerJourneyNotifications(50);
-    return NextResponse.json({ success: true, ...result });
+    const otpSmsFallbacks = await processDueDeliveryOtpSmsFallbacks(50);
+    return NextResponse.json({ success: true, ...result, otpSmsFallbacks });
   } catch (error) {
     log.error('Customer journey worker failed', {
       error: error instanceof Error ? error.message : error,
@@ -209,6 +209,8 @@ export async function PATCH(
         taskId: task.id,
         deliveryAgentId: task.deliveryAgentId,
         title: updatedTask.title,
+        requestType: updatedTask.requestType,
+        completedAt: updatedTask.completedAt ?? undefined,
         createdById: auditUser.id || undefined,
         createdByName: auditUser.name || user.name || user.username,
       });
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import {
+  WalletStatementError,
+  formatStatementDay,
+  lastStatementDay,
+  parseStatementPeriod,
+} from '@/app/lib/delivery-agent-statement';
+import { buildWalletStatementWorkbook, loadWalletStatement } from '@/app/lib/delivery-agent-statement-service';
+import { generateWalletStatementPdf } from '@/app/lib/delivery-agent-statement-pdf';
+import { hasPrivilegedAccess, isDeliveryAgent } from '../../utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/delivery-agent-wallets/[agentId]/statement
+ * Query: `month=YYYY-MM` or `from`/`to` (YYYY-MM-DD, inclusive), default last
+ * month; `format=pdf|xlsx`, JSON otherwise. `me` is the signed-in messenger,
+ * who may only read their own statement.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ agentId: string }> }) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+
+  const user = session.user as any;
+  const { agentId: agentIdParam } = await params;
+  const agentId = agentIdParam === 'me' ? user.id : agentIdParam;
+  if (!hasPrivilegedAccess(user) && (!isDeliveryAgent(user) || agentId !== user.id)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لعرض هذه المحفظة' }, { status: 403 });
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const period = parseStatementPeriod(searchParams, new Date());
+    const statement = await loadWalletStatement(agentId, period);
+    const format = searchParams.get('format');
+
+    if (format === 'pdf' || format === 'xlsx') {
+      const fileName = `statement-${statement.agent.username}-${formatStatementDay(period.from)}-${formatStatementDay(
+        lastStatementDay(period),
+      )}.${format}`;
+      const body =
+        format === 'pdf' ? await generateWalletStatementPdf(statement) : buildWalletStatementWorkbook(statement);
+      return new NextResponse(new Uint8Array(body), {
+        headers: {
+          'Content-Type':
+            format === 'pdf'
+              ? 'application/pdf'
+              : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      statement: {
+        ...statement,
+        period: { from: statement.period.from.toISOString(), to: statement.period.to.toISOString() },
+        lines: statement.lines.map((line) => ({ ...line, createdAt: line.createdAt.toISOString() })),
+      },
+    });
+  } catch (error) {
+    if (error instanceof WalletStatementError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to build delivery agent wallet statement', { agentId, error });
+    return NextResponse.json({ error: 'تعذر إنشاء كشف الحساب' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { getAuditUser } from '@/app/lib/audit';
+import { PayoutBatchError } from '@/app/lib/delivery-agent-payout-batch';
+import { approvePayoutBatch, serializePayoutBatch } from '@/app/lib/delivery-agent-payout-batch-service';
+import { canApprovePayoutBatches } from '../../../utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/delivery-agent-wallets/payout-batches/[id]/approve
+ * Accountant approval: writes every payout of the batch in one transaction.
+ */
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!canApprovePayoutBatches(session.user)) {
+    return NextResponse.json({ error: 'اعتماد الدفعات الجماعية من صلاحية المحاسب' }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    const batch = await approvePayoutBatch(id, getAuditUser(session.user as any));
+
+    log.info('Delivery agent payout batch approved', {
+      batchId: id,
+      batchNumber: batch.batchNumber,
+      agents: batch.lines.length,
+      totalAmount: Number(batch.totalAmount),
+    });
+    return NextResponse.json({ success: true, batch: serializePayoutBatch(batch) });
+  } catch (error) {
+    if (error instanceof PayoutBatchError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to approve delivery agent payout batch', { batchId: id, error });
+    return NextResponse.json({ error: 'تعذر اعتماد الدفعة الجماعية' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { getAuditUser } from '@/app/lib/audit';
+import { PayoutBatchError } from '@/app/lib/delivery-agent-payout-batch';
+import { cancelPayoutBatch, serializePayoutBatch } from '@/app/lib/delivery-agent-payout-batch-service';
+import { hasPrivilegedAccess } from '../../../utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/delivery-agent-wallets/payout-batches/[id]/cancel
+ * Drops a proposed batch; approved batches cannot be cancelled.
+ */
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!hasPrivilegedAccess(session.user)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لإلغاء دفعات المحافظ' }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    const batch = await cancelPayoutBatch(id, getAuditUser(session.user as any));
+    log.info('Delivery agent payout batch cancelled', { batchId: id, batchNumber: batch.batchNumber });
+    return NextResponse.json({ success: true, batch: serializePayoutBatch(batch) });
+  } catch (error) {
+    if (error instanceof PayoutBatchError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to cancel delivery agent payout batch', { batchId: id, error });
+    return NextResponse.json({ error: 'تعذر إلغاء الدفعة الجماعية' }, { status: 500 });
+  }
+}
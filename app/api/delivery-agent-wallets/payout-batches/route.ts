@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { getAuditUser } from '@/app/lib/audit';
+import { PayoutBatchError, parsePayoutBatchInput } from '@/app/lib/delivery-agent-payout-batch';
+import {
+  createPayoutBatch,
+  listPayoutBatches,
+  serializePayoutBatch,
+} from '@/app/lib/delivery-agent-payout-batch-service';
+import { hasPrivilegedAccess } from '../utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/delivery-agent-wallets/payout-batches
+ * Recent payout batches with their lines, newest first.
+ */
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!hasPrivilegedAccess(session.user)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لعرض دفعات المحافظ' }, { status: 403 });
+  }
+
+  try {
+    const batches = await listPayoutBatches();
+    return NextResponse.json({ success: true, batches: batches.map(serializePayoutBatch) });
+  } catch (error) {
+    log.error('Failed to load delivery agent payout batches', { error });
+    return NextResponse.json({ error: 'تعذر تحميل الدفعات الجماعية' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/delivery-agent-wallets/payout-batches
+ * Body: { threshold, paymentMethod?, notes? }. Proposes paying every messenger
+ * whose balance reached the threshold; nothing is paid until it is approved.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!hasPrivilegedAccess(session.user)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لإضافة دفعات المحافظ' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const input = parsePayoutBatchInput(body);
+    const batch = await createPayoutBatch(input, getAuditUser(session.user as any));
+
+    log.info('Delivery agent payout batch proposed', {
+      batchId: batch.id,
+      batchNumber: batch.batchNumber,
+      agents: batch.lines.length,
+      totalAmount: Number(batch.totalAmount),
+    });
+    return NextResponse.json({ success: true, batch: serializePayoutBatch(batch) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PayoutBatchError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to propose delivery agent payout batch', { error });
+    return NextResponse.json({ error: 'تعذر اقتراح الدفعة الجماعية' }, { status: 500 });
+  }
+}
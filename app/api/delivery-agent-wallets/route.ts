@@ -6,23 +6,10 @@ import { prisma } from '@/lib/prisma';
 import { log } from '@/app/lib/logger';
 import { recordDeliveryAgentWalletPayout } from '@/app/lib/delivery-agent-wallet';
 import { getAuditUser } from '@/app/lib/audit';
+import { hasPrivilegedAccess, isDeliveryAgent } from './utils';
 
 export const runtime = 'nodejs';
 
-const ADMIN_ROLES = new Set(['admin', 'warehouse', 'accountant']);
-
-const hasPrivilegedAccess = (user: any) => {
-  if (!user) return false;
-  if (user.role === 'admin') return true;
-  const roles: string[] = Array.isArray(user.roles) ? user.roles : [];
-  return roles.some((role) => ADMIN_ROLES.has(role));
-};
-
-const isDeliveryAgent = (user: any) => {
-  const roles: string[] = Array.isArray(user.roles) ? user.roles : [];
-  return roles.includes('delivery_agent');
-};
-
 const decimalToNumber = (value: any) => {
   if (!value) return 0;
   if (typeof value === 'number') return value;
@@ -50,6 +37,7 @@ const buildStats = (
 ): {
   shipments: StatSnapshot;
   tasks: StatSnapshot;
+  failedAttempts: StatSnapshot;
   payouts: StatSnapshot;
   adjustments: StatSnapshot;
   totalEarned: number;
@@ -66,15 +54,17 @@ const buildStats = (
 
   const shipments = map[DeliveryAgentWalletTransactionType.SHIPMENT_COMPLETED] || emptySnapshot();
   const tasks = map[DeliveryAgentWalletTransactionType.TASK_COMPLETED] || emptySnapshot();
+  const failedAttempts = map[DeliveryAgentWalletTransactionType.FAILED_ATTEMPT] || emptySnapshot();
   const payouts = map[DeliveryAgentWalletTransactionType.PAYOUT] || emptySnapshot();
   const adjustments = map[DeliveryAgentWalletTransactionType.ADJUSTMENT] || emptySnapshot();
 
   return {
     shipments,
     tasks,
+    failedAttempts,
     payouts,
     adjustments,
-    totalEarned: shipments.total + tasks.total + Math.max(0, adjustments.total),
+    totalEarned: shipments.total + tasks.total + failedAttempts.total + Math.max(0, adjustments.total),
     totalPaid: Math.abs(payouts.total + Math.min(0, adjustments.total)),
   };
 };
@@ -86,9 +76,10 @@ async function settleAgentCodCollections(
   const codCollections = await prisma.cODCollection.findMany({
     where: {
       status: 'collected',
+      // Cash is held by the agent whose attempt delivered the shipment
       shipment: {
-        assignment: {
-          deliveryAgentId,
+        assignments: {
+          some: { deliveryAgentId, status: 'delivered' },
         },
       },
     },
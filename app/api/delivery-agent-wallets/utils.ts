@@ -0,0 +1,20 @@
+const ADMIN_ROLES = new Set(['admin', 'warehouse', 'accountant']);
+
+export const hasPrivilegedAccess = (user: any) => {
+  if (!user) return false;
+  if (user.role === 'admin') return true;
+  const roles: string[] = Array.isArray(user.roles) ? user.roles : [];
+  return roles.some((role) => ADMIN_ROLES.has(role));
+};
+
+export const isDeliveryAgent = (user: any) => {
+  const roles: string[] = Array.isArray(user.roles) ? user.roles : [];
+  return roles.includes('delivery_agent');
+};
+
+/** Payout batches are proposed by any wallet manager but only paid once an accountant approves them. */
+export const canApprovePayoutBatches = (user: any) => {
+  if (!user) return false;
+  const roles: string[] = Array.isArray(user.roles) ? user.roles : [];
+  return roles.includes('accountant') || user.role === 'admin';
+};
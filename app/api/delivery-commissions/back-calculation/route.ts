@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import {
+  DeliveryCommissionError,
+  parseCommissionRuleInput,
+  parseMonthRange,
+} from '@/app/lib/delivery-commission';
+import { runCommissionBackCalculation } from '@/app/lib/delivery-commission-service';
+import { canManageCommissions } from '../utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/delivery-commissions/back-calculation
+ * Body: { rule, month? }. What agents were paid in `month` (YYYY-MM, default
+ * last month) under the rules in force at the time, against what the draft
+ * rule would have paid for the same deliveries, attempts and tasks.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!canManageCommissions(session)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لعرض عمولات المناديب' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const proposed = { ...parseCommissionRuleInput(body?.rule), id: null };
+    const range = parseMonthRange(body?.month, new Date());
+    const comparison = await runCommissionBackCalculation(range, proposed);
+
+    return NextResponse.json({
+      success: true,
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+      ...comparison,
+    });
+  } catch (error) {
+    if (error instanceof DeliveryCommissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to back-calculate delivery commissions', { error });
+    return NextResponse.json({ error: 'تعذر حساب أثر القاعدة' }, { status: 500 });
+  }
+}
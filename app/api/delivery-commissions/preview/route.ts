@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import {
+  DeliveryCommissionError,
+  parseCommissionRuleInput,
+  parseCommissionSample,
+  previewCommissionQuotes,
+} from '@/app/lib/delivery-commission';
+import { getCommissionRuleForDate } from '@/app/lib/delivery-commission-service';
+import { canManageCommissions } from '../utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/delivery-commissions/preview
+ * Body: { sample: { city, district, isCod, taskType }, rule?, at? }. Quotes a
+ * delivery, a failed attempt and a task for the sample under the draft
+ * `rule`, or under the rule in force at `at` (default now). Nothing is recorded.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!canManageCommissions(session)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لعرض عمولات المناديب' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const sample = parseCommissionSample(body?.sample);
+
+    let rule;
+    if (body?.rule) {
+      rule = { ...parseCommissionRuleInput(body.rule), id: null };
+    } else {
+      const at = body?.at ? new Date(body.at) : new Date();
+      if (Number.isNaN(at.getTime())) {
+        return NextResponse.json({ error: 'تاريخ المعاينة غير صالح' }, { status: 400 });
+      }
+      rule = await getCommissionRuleForDate(at);
+    }
+
+    return NextResponse.json({
+      success: true,
+      rule: { id: rule.id, name: rule.name },
+      quotes: previewCommissionQuotes(rule, sample),
+    });
+  } catch (error) {
+    if (error instanceof DeliveryCommissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to preview delivery commission', { error });
+    return NextResponse.json({ error: 'تعذر حساب العمولة' }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { DeliveryCommissionError, parseCommissionRuleInput } from '@/app/lib/delivery-commission';
+import {
+  deleteCommissionRule,
+  serializeCommissionRule,
+  updateCommissionRule,
+} from '@/app/lib/delivery-commission-service';
+import { canManageCommissions } from '../../utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * PATCH /api/delivery-commissions/rules/[ruleId]
+ * Replace a rule. Credits already posted keep the amounts they were given.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!canManageCommissions(session)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لتعديل عمولات المناديب' }, { status: 403 });
+  }
+
+  try {
+    const { ruleId } = await params;
+    const body = await request.json().catch(() => null);
+    const rule = await updateCommissionRule(ruleId, parseCommissionRuleInput(body));
+
+    log.info('Delivery commission rule updated', { ruleId });
+    return NextResponse.json({ success: true, rule: serializeCommissionRule(rule) });
+  } catch (error) {
+    if (error instanceof DeliveryCommissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to update delivery commission rule', { error });
+    return NextResponse.json({ error: 'تعذر تحديث قاعدة العمولة' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/delivery-commissions/rules/[ruleId]
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!canManageCommissions(session)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لتعديل عمولات المناديب' }, { status: 403 });
+  }
+
+  try {
+    const { ruleId } = await params;
+    await deleteCommissionRule(ruleId);
+
+    log.info('Delivery commission rule deleted', { ruleId });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof DeliveryCommissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to delete delivery commission rule', { error });
+    return NextResponse.json({ error: 'تعذر حذف قاعدة العمولة' }, { status: 500 });
+  }
+}
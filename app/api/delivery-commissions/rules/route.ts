@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { getAuditUser } from '@/app/lib/audit';
+import { DeliveryCommissionError, parseCommissionRuleInput } from '@/app/lib/delivery-commission';
+import {
+  createCommissionRule,
+  listCommissionRules,
+  serializeCommissionRule,
+} from '@/app/lib/delivery-commission-service';
+import { canManageCommissions } from '../utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/delivery-commissions/rules
+ * Every commission rule, newest effective date first.
+ */
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!canManageCommissions(session)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لعرض عمولات المناديب' }, { status: 403 });
+  }
+
+  try {
+    const rules = await listCommissionRules();
+    return NextResponse.json({ success: true, rules: rules.map(serializeCommissionRule) });
+  } catch (error) {
+    log.error('Failed to load delivery commission rules', { error });
+    return NextResponse.json({ error: 'تعذر تحميل قواعد العمولة' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/delivery-commissions/rules
+ * Create a rule. Its effective range must not overlap another rule's.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!canManageCommissions(session)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لتعديل عمولات المناديب' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const input = parseCommissionRuleInput(body);
+    const rule = await createCommissionRule(input, getAuditUser(session.user as any));
+
+    log.info('Delivery commission rule created', { ruleId: rule.id, name: rule.name });
+    return NextResponse.json({ success: true, rule: serializeCommissionRule(rule) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof DeliveryCommissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to create delivery commission rule', { error });
+    return NextResponse.json({ error: 'تعذر إنشاء قاعدة العمولة' }, { status: 500 });
+  }
+}
@@ -0,0 +1,6 @@
+import { hasServiceAccess } from '@/app/lib/service-access';
+
+/** Commission rules decide what agents are paid: admins and accountants only by default. */
+export function canManageCommissions(session: any): boolean {
+  return hasServiceAccess(session, 'delivery-commissions');
+}
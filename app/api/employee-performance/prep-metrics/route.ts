@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { METRICS_GRANULARITIES, type MetricsGranularity } from '@/app/lib/order-prep-metrics';
+import { getPrepMetricsReport } from '@/app/lib/order-prep-metrics-report';
+
+export const runtime = 'nodejs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 366;
+const DATE_INPUT = /^\d{4}-\d{2}-\d{2}$/;
+
+const ensureAdmin = async () => {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return { status: 401 as const, response: NextResponse.json({ error: 'غير مصرح' }, { status: 401 }) };
+  }
+  const roles = (session.user as any)?.roles || [];
+  const role = (session.user as any)?.role;
+  const isAdmin = roles.includes('admin') || role === 'admin';
+  if (!isAdmin) {
+    return {
+      status: 403 as const,
+      response: NextResponse.json({ error: 'لا تملك صلاحية الوصول' }, { status: 403 }),
+    };
+  }
+  return { status: 200 as const, session };
+};
+
+/**
+ * GET /api/employee-performance/prep-metrics?from=YYYY-MM-DD&to=YYYY-MM-DD&granularity=day|week|month&userId=
+ * Per-preparer throughput and accuracy for the Riyadh-time date range, with
+ * team percentiles and a per-period trend.
+ */
+export async function GET(request: NextRequest) {
+  const check = await ensureAdmin();
+  if (check.status !== 200) {
+    return check.response;
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const from = searchParams.get('from') || '';
+  const to = searchParams.get('to') || '';
+  const granularity = (searchParams.get('granularity') || 'day') as MetricsGranularity;
+  const userId = searchParams.get('userId') || null;
+
+  if (!DATE_INPUT.test(from) || !DATE_INPUT.test(to)) {
+    return NextResponse.json({ error: 'يرجى تحديد الفترة بصيغة YYYY-MM-DD' }, { status: 400 });
+  }
+  if (!METRICS_GRANULARITIES.includes(granularity)) {
+    return NextResponse.json({ error: 'التجميع يجب أن يكون يومي أو أسبوعي أو شهري' }, { status: 400 });
+  }
+
+  const start = new Date(`${from}T00:00:00+03:00`);
+  const endExclusive = new Date(new Date(`${to}T00:00:00+03:00`).getTime() + DAY_MS);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(endExclusive.getTime()) || start >= endExclusive) {
+    return NextResponse.json({ error: 'الفترة غير صحيحة' }, { status: 400 });
+  }
+  if ((endExclusive.getTime() - start.getTime()) / DAY_MS > MAX_RANGE_DAYS) {
+    return NextResponse.json({ error: `أقصى فترة مسموحة ${MAX_RANGE_DAYS} يوماً` }, { status: 400 });
+  }
+
+  try {
+    const report = await getPrepMetricsReport({ start, endExclusive, granularity, userId });
+    return NextResponse.json({ success: true, from, to, report });
+  } catch (error) {
+    log.error('Failed to build order prep metrics', { from, to, granularity, error });
+    return NextResponse.json({ error: 'تعذر حساب مؤشرات التحضير' }, { status: 500 });
+  }
+}
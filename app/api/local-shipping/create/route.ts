@@ -17,6 +17,7 @@ import {
 } from '@/app/lib/local-shipping/messenger';
 import { extractAppliedCouponCodes } from '@/app/lib/returns/exchange-order';
 import { detectInternationalOrder } from '@/app/lib/order-destination';
+import { getOrderShipmentSplitSummary, recordShipmentLines } from '@/app/lib/order-shipment-lines';
 
 const SHIPPING_PRINTER_OVERRIDES: Record<string, number> = {
   '1': 75062490,
@@ -83,7 +84,9 @@ const ensureShipmentAssignment = async ({
     const shipment = await tx.localShipment.findUnique({
       where: { id: shipmentId },
       include: {
-        assignment: {
+        assignments: {
+          orderBy: { attemptNumber: 'desc' },
+          take: 1,
           include: {
             deliveryAgent: {
               select: {
@@ -103,8 +106,9 @@ const ensureShipmentAssignment = async ({
       throw new Error('الشحنة غير موجودة');
     }
 
-    if (shipment.assignment) {
-      if (shipment.assignment.deliveryAgentId !== deliveryAgentId) {
+    const [currentAssignment] = shipment.assignments;
+    if (currentAssignment) {
+      if (currentAssignment.deliveryAgentId !== deliveryAgentId) {
         throw new Error('الشحنة مُعيّنة بالفعل لمندوب آخر');
       }
       if (shipment.status === 'pending') {
@@ -123,7 +127,7 @@ const ensureShipmentAssignment = async ({
           },
         });
       }
-      return shipment.assignment;
+      return currentAssignment;
     }
 
     const assignment = await tx.shipmentAssignment.create({
@@ -332,13 +336,19 @@ export async function POST(request: NextRequest) {
     const collectionAmount = isCashOnDelivery ? Number(orderTotalAmount) : 0;
     const paymentLabel = paymentMethodRaw || (isCashOnDelivery ? 'Cash On Delivery' : 'Prepaid');
 
-    // Ensure we reuse existing labels for the same order
-    const existingShipment = await prisma.localShipment.findFirst({
-      where: {
-        merchantId: body.merchantId,
-        orderNumber: normalizedOrderNumber,
-      },
-    });
+    // A ready back-order of a split order gets its own label; otherwise reuse
+    // the existing label for the same order.
+    const splitSummary = await getOrderShipmentSplitSummary(body.merchantId, order.id.toString(), order);
+    const shipsBackOrder = Boolean(splitSummary.pendingPart?.backOrderId);
+    const existingShipment = shipsBackOrder
+      ? null
+      : await prisma.localShipment.findFirst({
+          where: {
+            merchantId: body.merchantId,
+            orderNumber: normalizedOrderNumber,
+          },
+          orderBy: { createdAt: 'desc' },
+        });
 
     if (existingShipment) {
       log.info('Local shipping label already exists, returning existing label', {
@@ -437,6 +447,23 @@ export async function POST(request: NextRequest) {
       trackingNumber: localShipment.trackingNumber,
     });
 
+    try {
+      await recordShipmentLines({
+        merchantId: body.merchantId,
+        orderId: localShipment.orderId,
+        orderNumber: normalizedOrderNumber,
+        orderData: order,
+        carrier: 'local',
+        trackingNumber: localShipment.trackingNumber,
+        localShipmentId: localShipment.id,
+      });
+    } catch (error) {
+      log.error('Failed to link local shipment to order lines', {
+        shipmentId: localShipment.id,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+
     const assignment = await ensureShipmentAssignment({
       shipmentId: localShipment.id,
       deliveryAgentId,
@@ -70,7 +70,9 @@ export async function GET(request: NextRequest) {
       where,
       orderBy: { createdAt: 'desc' },
       include: {
-        assignment: {
+        assignments: {
+          orderBy: { attemptNumber: 'desc' },
+          take: 1,
           include: {
             deliveryAgent: {
               select: {
@@ -88,15 +90,16 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       shipments: shipments.map((shipment) => {
         const serialized = serializeLocalShipment(shipment);
-        const agent = shipment.assignment?.deliveryAgent;
+        const [assignment] = shipment.assignments;
+        const agent = assignment?.deliveryAgent;
         return {
           ...serialized,
           assignedAgentId: agent?.id ?? null,
           assignedAgentName: agent?.name || agent?.username || null,
           assignedAgentUsername: agent?.username ?? null,
           assignedAgentPhone: agent?.phone ?? null,
-          assignmentStatus: shipment.assignment?.status ?? null,
-          assignmentUpdatedAt: shipment.assignment?.updatedAt?.toISOString() ?? null,
+          assignmentStatus: assignment?.status ?? null,
+          assignmentUpdatedAt: assignment?.updatedAt?.toISOString() ?? null,
         };
       }),
     });
@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
-import { cancelB2CShipment } from '@/app/lib/smsa-api';
-import { serializeManualSmsaShipment } from '@/app/lib/manual-smsa/serializer';
+import { getCarrierAdapter, resolveCarrierCode } from '@/app/lib/carriers';
+import { serializeManualShipment } from '@/app/lib/manual-shipments/serializer';
 import { log } from '@/app/lib/logger';
 
 export const runtime = 'nodejs';
@@ -22,7 +22,7 @@ export async function POST(
   }
 
   try {
-    const shipment = await prisma.manualSmsaShipment.findUnique({
+    const shipment = await prisma.manualShipment.findUnique({
       where: { id: shipmentId },
     });
 
@@ -41,11 +41,11 @@ export async function POST(
       return NextResponse.json({
         success: true,
         message: 'تم إلغاء هذه الشحنة سابقاً',
-        shipment: serializeManualSmsaShipment(shipment),
+        shipment: serializeManualShipment(shipment),
       });
     }
 
-    const awb = shipment.smsaTrackingNumber || shipment.smsaAwbNumber;
+    const awb = shipment.trackingNumber || shipment.carrierReference;
     if (!awb) {
       return NextResponse.json(
         { error: 'لا يوجد رقم بوليصة لإلغائه. تأكد من إنشاء الشحنة بنجاح.' },
@@ -53,15 +53,19 @@ export async function POST(
       );
     }
 
-    const cancellation = await cancelB2CShipment(awb);
+    const carrier = getCarrierAdapter(resolveCarrierCode(shipment.carrier));
+    const cancellation = await carrier.cancel(awb, { kind: 'shipment' });
     if (!cancellation.success) {
       return NextResponse.json(
-        { error: cancellation.error || 'تعذر إلغاء الشحنة من شركة الشحن' },
+        {
+          error: cancellation.error || 'تعذر إلغاء الشحنة من شركة الشحن',
+          errorCode: cancellation.errorCode,
+        },
         { status: 400 },
       );
     }
 
-    const updated = await prisma.manualSmsaShipment.update({
+    const updated = await prisma.manualShipment.update({
       where: { id: shipmentId },
       data: {
         cancelledAt: new Date(),
@@ -76,11 +80,11 @@ export async function POST(
 
     return NextResponse.json({
       success: true,
-      message: cancellation.message || 'تم إلغاء الشحنة بنجاح',
-      shipment: serializeManualSmsaShipment(updated),
+      message: cancellation.message,
+      shipment: serializeManualShipment(updated),
     });
   } catch (error) {
-    log.error('Failed to cancel manual SMSA shipment', { error, shipmentId });
+    log.error('Failed to cancel manual shipment', { error, shipmentId });
     return NextResponse.json(
       { error: 'تعذر إلغاء الشحنة في الوقت الحالي' },
       { status: 500 },
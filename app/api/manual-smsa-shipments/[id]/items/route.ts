@@ -9,9 +9,9 @@ import {
 import { log } from '@/app/lib/logger';
 import {
   parseManualShipmentItems,
-  serializeManualSmsaShipment,
-} from '@/app/lib/manual-smsa/serializer';
-import type { ManualSmsaShipmentItem } from '@/app/lib/manual-smsa/types';
+  serializeManualShipment,
+} from '@/app/lib/manual-shipments/serializer';
+import type { ManualShipmentItem } from '@/app/lib/manual-shipments/types';
 
 export const runtime = 'nodejs';
 
@@ -46,7 +46,7 @@ const normalizeQuantity = (value: number): number => {
   return rounded > 0 ? rounded : 0;
 };
 
-const normalizeOrderItem = (item: SallaOrderItem, quantity: number): ManualSmsaShipmentItem => {
+const normalizeOrderItem = (item: SallaOrderItem, quantity: number): ManualShipmentItem => {
   const safeQuantity = normalizeQuantity(quantity);
   const lineQuantity = Number(item.quantity) > 0 ? Number(item.quantity) : 1;
   const lineTotal = safeNumber(item.amounts?.total?.amount);
@@ -106,7 +106,7 @@ export async function POST(
       );
     }
 
-    const shipment = await prisma.manualSmsaShipment.findUnique({
+    const shipment = await prisma.manualShipment.findUnique({
       where: { id: shipmentId },
     });
 
@@ -131,7 +131,7 @@ export async function POST(
       });
     }
 
-    const newItems: ManualSmsaShipmentItem[] = [];
+    const newItems: ManualShipmentItem[] = [];
 
     normalizedOrderItems.forEach(({ id, quantity }) => {
       const orderItem = orderItemsMap.get(id);
@@ -181,7 +181,7 @@ export async function POST(
       ? newItems
       : [...existingItems, ...newItems];
 
-    const updated = await prisma.manualSmsaShipment.update({
+    const updated = await prisma.manualShipment.update({
       where: { id: shipment.id },
       data: {
         shipmentItems: nextItems as unknown as Prisma.InputJsonValue,
@@ -191,10 +191,10 @@ export async function POST(
 
     return NextResponse.json({
       success: true,
-      shipment: serializeManualSmsaShipment(updated),
+      shipment: serializeManualShipment(updated),
     });
   } catch (error) {
-    log.error('Failed to add items to manual SMSA shipment', { error, shipmentId });
+    log.error('Failed to add items to manual shipment', { error, shipmentId });
     return NextResponse.json(
       { error: 'تعذر إضافة المنتجات إلى هذه الشحنة' },
       { status: 500 },
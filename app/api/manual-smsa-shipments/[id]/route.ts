@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { serializeManualSmsaShipment } from '@/app/lib/manual-smsa/serializer';
+import { serializeManualShipment } from '@/app/lib/manual-shipments/serializer';
 import { log } from '@/app/lib/logger';
 
 export const runtime = 'nodejs';
@@ -15,7 +15,7 @@ export async function DELETE(
   }
 
   try {
-    const shipment = await prisma.manualSmsaShipment.findUnique({
+    const shipment = await prisma.manualShipment.findUnique({
       where: { id: shipmentId },
     });
 
@@ -30,7 +30,7 @@ export async function DELETE(
       );
     }
 
-    const updated = await prisma.manualSmsaShipment.update({
+    const updated = await prisma.manualShipment.update({
       where: { id: shipmentId },
       data: {
         deletedAt: new Date(),
@@ -40,10 +40,10 @@ export async function DELETE(
 
     return NextResponse.json({
       success: true,
-      shipment: serializeManualSmsaShipment(updated),
+      shipment: serializeManualShipment(updated),
     });
   } catch (error) {
-    log.error('Failed to delete manual SMSA shipment', { error, shipmentId });
+    log.error('Failed to delete manual shipment', { error, shipmentId });
     return NextResponse.json(
       { error: 'تعذر حذف الشحنة حالياً' },
       { status: 500 },
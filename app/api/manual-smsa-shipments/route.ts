@@ -5,16 +5,15 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { getSallaOrderByReference } from '@/app/lib/salla-api';
-import { createSMSAB2CShipment } from '@/app/lib/smsa-api';
+import { carrierLabelDataUrl, getCarrierAdapter, isCarrierCode } from '@/app/lib/carriers';
 import { log } from '@/app/lib/logger';
 import { resolveSallaMerchantId } from '@/app/api/salla/products/merchant';
-import { buildConsigneeAddressFromOrder, buildMerchantShipperAddress } from '@/app/lib/manual-smsa/address';
-import { serializeManualSmsaShipment } from '@/app/lib/manual-smsa/serializer';
+import { buildConsigneeAddressFromOrder, buildMerchantShipperAddress } from '@/app/lib/manual-shipments/address';
+import { serializeManualShipment } from '@/app/lib/manual-shipments/serializer';
 import type {
-  ManualSmsaShipmentItem,
-  ManualSmsaShipmentPayload,
-} from '@/app/lib/manual-smsa/types';
-import { extractSmsaLabelBase64, buildSmsaLabelDataUrl } from '@/lib/returns/smsa-label';
+  ManualShipmentItem,
+  ManualShipmentPayload,
+} from '@/app/lib/manual-shipments/types';
 
 const FALLBACK_MERCHANT_ID = process.env.NEXT_PUBLIC_MERCHANT_ID || '1696031053';
 const MIN_DECLARED_VALUE = 1;
@@ -53,12 +52,12 @@ const positiveInteger = (value: unknown): number | null => {
   return rounded > 0 ? rounded : null;
 };
 
-const normalizeItems = (items: ManualSmsaShipmentPayload['items']): ManualSmsaShipmentItem[] => {
+const normalizeItems = (items: ManualShipmentPayload['items']): ManualShipmentItem[] => {
   if (!Array.isArray(items)) {
     return [];
   }
 
-  const normalized: ManualSmsaShipmentItem[] = [];
+  const normalized: ManualShipmentItem[] = [];
 
   for (const raw of items) {
     if (!raw || typeof raw !== 'object') continue;
@@ -169,17 +168,17 @@ export async function GET(request: NextRequest) {
       filters.deletedAt = null;
     }
 
-    const shipments = await prisma.manualSmsaShipment.findMany({
+    const shipments = await prisma.manualShipment.findMany({
       where: filters,
       orderBy: { createdAt: 'desc' },
     });
 
     return NextResponse.json({
       success: true,
-      shipments: shipments.map(serializeManualSmsaShipment),
+      shipments: shipments.map(serializeManualShipment),
     });
   } catch (error) {
-    log.error('Failed to list manual SMSA shipments', { error });
+    log.error('Failed to list manual shipments', { error });
     return NextResponse.json(
       { error: 'تعذر تحميل الشحنات اليدوية لهذا الطلب' },
       { status: 500 },
@@ -189,7 +188,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const payload: ManualSmsaShipmentPayload = await request.json();
+    const payload: ManualShipmentPayload = await request.json();
     if (!payload || !payload.orderNumber) {
       return NextResponse.json({ error: 'رقم الطلب مطلوب' }, { status: 400 });
     }
@@ -202,6 +201,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const carrierInput = payload.carrier ?? 'smsa';
+    if (!isCarrierCode(carrierInput)) {
+      return NextResponse.json({ error: 'شركة الشحن غير مدعومة' }, { status: 400 });
+    }
+    const carrier = getCarrierAdapter(carrierInput);
+
     const session = await getServerSession(authOptions).catch(() => null);
     const user = session?.user as { id?: string; name?: string; username?: string } | undefined;
 
@@ -272,7 +277,8 @@ export async function POST(request: NextRequest) {
 
     const shipmentReference = `${resolveOrderReference(order, orderNumber)}-NX-${randomUUID().slice(0, 8)}`;
 
-    log.info('Creating manual SMSA shipment', {
+    log.info('Creating manual shipment', {
+      carrier: carrier.code,
       orderNumber,
       merchantId,
       shipmentReference,
@@ -282,51 +288,48 @@ export async function POST(request: NextRequest) {
       codAmount,
     });
 
-    const smsaResult = await createSMSAB2CShipment({
-      OrderNumber: shipmentReference,
-      DeclaredValue: declaredValue,
-      Parcels: parcels,
-      ShipDate: new Date().toISOString(),
-      ShipmentCurrency: currency,
-      Weight: weight,
-      WeightUnit: 'KG',
-      ContentDescription: contentDescription,
-      ConsigneeAddress: consigneeAddress,
-      ShipperAddress: shipperAddress,
-      CODAmount: codAmount ?? undefined,
+    const carrierResult = await carrier.createShipment({
+      reference: shipmentReference,
+      declaredValue,
+      parcels,
+      currency,
+      weightKg: weight,
+      contentDescription,
+      consignee: consigneeAddress,
+      shipper: shipperAddress,
+      codAmount,
     });
 
-    if (!smsaResult.success) {
-      log.error('Manual SMSA shipment creation failed', {
+    if (!carrierResult.success) {
+      log.error('Manual shipment creation failed', {
+        carrier: carrier.code,
         orderNumber,
-        error: smsaResult.error,
-        response: smsaResult.rawResponse,
+        error: carrierResult.error,
+        response: carrierResult.rawResponse,
       });
       return NextResponse.json(
-        { error: smsaResult.error || 'تعذر إنشاء الشحنة مع شركة الشحن' },
+        { error: carrierResult.error || 'تعذر إنشاء الشحنة مع شركة الشحن' },
         { status: 502 },
       );
     }
 
-    const smsaLabelBase64 = extractSmsaLabelBase64(smsaResult.rawResponse);
-    const smsaLabelDataUrl = buildSmsaLabelDataUrl(smsaLabelBase64);
-    const tracking = smsaResult.trackingNumber || smsaResult.awbNumber || smsaResult.sawb || null;
+    const { shipment } = carrierResult;
 
-    const createdShipment = await prisma.manualSmsaShipment.create({
+    const createdShipment = await prisma.manualShipment.create({
       data: {
         merchantId,
         orderId: order.id ? String(order.id) : null,
         orderNumber: resolveOrderReference(order, orderNumber),
-        customerName: consigneeAddress.ContactName,
-        customerPhone: consigneeAddress.ContactPhoneNumber,
-        customerEmail: order.customer?.email ? String(order.customer.email) : null,
-        addressLine1: consigneeAddress.AddressLine1,
-        addressLine2: consigneeAddress.AddressLine2,
-        city: consigneeAddress.City,
-        country: consigneeAddress.Country,
-        district: consigneeAddress.District,
-        postalCode: consigneeAddress.PostalCode,
-        shortCode: consigneeAddress.ShortCode,
+        customerName: consigneeAddress.name,
+        customerPhone: consigneeAddress.phone,
+        customerEmail: consigneeAddress.email ?? null,
+        addressLine1: consigneeAddress.line1,
+        addressLine2: consigneeAddress.line2,
+        city: consigneeAddress.city,
+        country: consigneeAddress.country,
+        district: consigneeAddress.district,
+        postalCode: consigneeAddress.postalCode,
+        shortCode: consigneeAddress.shortCode,
         declaredValue,
         currency,
         parcels,
@@ -339,26 +342,28 @@ export async function POST(request: NextRequest) {
         consigneeAddress: toJsonValue(consigneeAddress),
         shipperAddress: toJsonValue(shipperAddress),
         status: 'created',
-        smsaAwbNumber: smsaResult.sawb || null,
-        smsaTrackingNumber: tracking,
-        smsaResponse: smsaResult.rawResponse as any,
-        smsaLabelDataUrl,
+        carrier: carrier.code,
+        carrierReference: shipment.carrierReference,
+        trackingNumber: shipment.trackingNumber,
+        carrierResponse: (shipment.rawResponse ?? undefined) as Prisma.InputJsonValue | undefined,
+        labelDataUrl: carrierLabelDataUrl(shipment.label),
         createdById: user?.id || null,
         createdByName: user?.name || (user as any)?.username || null,
       },
     });
 
-    log.info('Manual SMSA shipment stored', {
+    log.info('Manual shipment stored', {
       id: createdShipment.id,
-      trackingNumber: createdShipment.smsaTrackingNumber,
+      carrier: createdShipment.carrier,
+      trackingNumber: createdShipment.trackingNumber,
     });
 
     return NextResponse.json({
       success: true,
-      shipment: serializeManualSmsaShipment(createdShipment),
+      shipment: serializeManualShipment(createdShipment),
     });
   } catch (error) {
-    log.error('Failed to create manual SMSA shipment', { error });
+    log.error('Failed to create manual shipment', { error });
     return NextResponse.json(
       { error: 'تعذر إنشاء الشحنة اليدوية، حاول مرة أخرى.' },
       { status: 500 },
@@ -41,6 +41,7 @@ export async function POST(request: NextRequest) {
     });
 
     if (existingAssignment) {
+      const wasFinished = Boolean(existingAssignment.completedAt) || existingAssignment.status === 'completed';
       const updated = await prisma.orderAssignment.update({
         where: { id: existingAssignment.id },
         data: {
@@ -53,6 +54,25 @@ export async function POST(request: NextRequest) {
         },
       });
 
+      if (wasFinished) {
+        const previousUser = await prisma.orderUser.findUnique({
+          where: { id: existingAssignment.userId },
+          select: { name: true },
+        });
+        await prisma.orderReopenLog.create({
+          data: {
+            merchantId: existingAssignment.merchantId,
+            orderId: existingAssignment.orderId,
+            orderNumber: existingAssignment.orderNumber,
+            previousUserId: existingAssignment.userId,
+            previousUserName: previousUser?.name ?? null,
+            reopenedById: user.id,
+            reopenedByName: user.name ?? null,
+            source: 'assignment',
+          },
+        });
+      }
+
       log.info('Order assignment reopened for user', {
         orderId: updated.orderId,
         orderNumber: updated.orderNumber,
@@ -98,6 +118,19 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await prisma.orderReopenLog.create({
+      data: {
+        merchantId: historyEntry.merchantId,
+        orderId: historyEntry.orderId,
+        orderNumber: historyEntry.orderNumber,
+        previousUserId: historyEntry.userId,
+        previousUserName: historyEntry.userName,
+        reopenedById: user.id,
+        reopenedByName: user.name ?? null,
+        source: 'history',
+      },
+    });
+
     log.info('Order assignment created from history', {
       orderId: newAssignment.orderId,
       orderNumber: newAssignment.orderNumber,
@@ -1314,7 +1314,9 @@ async function getShipmentInfoForOrder(params: {
   }
 
   const localInclude = {
-    assignment: {
+    assignments: {
+      orderBy: { attemptNumber: 'desc' as const },
+      take: 1,
       include: {
         deliveryAgent: {
           select: { id: true, name: true, username: true },
@@ -1344,7 +1346,8 @@ async function getShipmentInfoForOrder(params: {
 
   if (localShipment) {
     const serialized = serializeLocalShipment(localShipment);
-    const agent = localShipment.assignment?.deliveryAgent;
+    const [assignment] = localShipment.assignments;
+    const agent = assignment?.deliveryAgent;
     const deliveryStatus = buildLocalDeliveryStatus(localShipment);
     return {
       id: localShipment.id,
@@ -1360,7 +1363,7 @@ async function getShipmentInfoForOrder(params: {
       type: 'local',
       localShipmentId: localShipment.id,
       assignedAgentName: agent ? (agent.name || agent.username) : null,
-      assignmentStatus: localShipment.assignment?.status || null,
+      assignmentStatus: assignment?.status || null,
     };
   }
 
@@ -1466,6 +1469,7 @@ function formatDeliveryStatus(status: string | null | undefined): string | null
     cancelled: 'ملغي',
     canceled: 'ملغي',
     returned: 'مرتجع',
+    returning: 'قيد الإرجاع للمستودع',
     shipped: 'تم الشحن',
     created: 'تم إنشاء الشحنة',
   };
@@ -1499,20 +1503,30 @@ function toDeliveryStatusPayload(params: {
 }
 
 function buildLocalDeliveryStatus(localShipment: any) {
-  const assignmentStatus = formatDeliveryStatus(localShipment.assignment?.status);
+  // Once the last attempt fails the shipment's own return status is the news.
+  const returning = localShipment.status === 'returning' || localShipment.status === 'returned';
+  const assignment = returning ? null : localShipment.assignments?.[0];
+  const assignmentStatus = formatDeliveryStatus(assignment?.status);
   const shipmentStatus = formatDeliveryStatus(localShipment.status);
   const label = assignmentStatus || shipmentStatus || null;
 
   return toDeliveryStatusPayload({
     carrier: 'local',
     label,
-    code: localShipment.assignment?.status || localShipment.status || null,
-    description: localShipment.assignment?.failureReason || localShipment.deliveryNotes || localShipment.notes || null,
+    code: assignment?.status || localShipment.status || null,
+    description:
+      assignment?.failureReason ||
+      localShipment.returnReason ||
+      localShipment.deliveryNotes ||
+      localShipment.notes ||
+      null,
     timestamp:
-      localShipment.assignment?.deliveredAt?.toISOString?.() ||
+      assignment?.deliveredAt?.toISOString?.() ||
       localShipment.deliveredAt?.toISOString?.() ||
-      localShipment.assignment?.pickedUpAt?.toISOString?.() ||
-      localShipment.assignment?.updatedAt?.toISOString?.() ||
+      localShipment.returnedAt?.toISOString?.() ||
+      localShipment.returnStartedAt?.toISOString?.() ||
+      assignment?.pickedUpAt?.toISOString?.() ||
+      assignment?.updatedAt?.toISOString?.() ||
       localShipment.updatedAt?.toISOString?.() ||
       null,
     updatedAt: localShipment.updatedAt,
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { hasServiceAccess } from '@/app/lib/service-access';
+import {
+  OrderPrepDocumentError,
+  printOrderPrepDocument,
+  renderOrderPrepDocument,
+} from '@/app/lib/order-prep-documents-pdf';
+import { ORDER_PREP_DOCUMENT_TYPES, type OrderPrepDocumentType } from '@/app/lib/order-prep-documents';
+import { log } from '@/app/lib/logger';
+
+export const runtime = 'nodejs';
+
+const parseDocumentType = (value: unknown): OrderPrepDocumentType | null =>
+  ORDER_PREP_DOCUMENT_TYPES.includes(value as OrderPrepDocumentType) ? (value as OrderPrepDocumentType) : null;
+
+/**
+ * GET /api/order-prep/orders/:assignmentId/documents?type=pick-list|packing-slip
+ * Renders the document inline for preview or manual printing.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ assignmentId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'يجب تسجيل الدخول' }, { status: 401 });
+  }
+  if (!hasServiceAccess(session, ['order-prep', 'order-shipping', 'warehouse'])) {
+    return NextResponse.json({ error: 'ليست لديك صلاحية للوصول' }, { status: 403 });
+  }
+
+  const { assignmentId } = await context.params;
+  const type = parseDocumentType(request.nextUrl.searchParams.get('type'));
+  if (!type) {
+    return NextResponse.json({ error: 'نوع المستند غير مدعوم' }, { status: 400 });
+  }
+
+  try {
+    const { pdf, orderNumber } = await renderOrderPrepDocument({ assignmentId, type });
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${type}-${orderNumber}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof OrderPrepDocumentError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to render order prep document', { assignmentId, type, error });
+    return NextResponse.json({ error: 'تعذر إنشاء المستند' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/order-prep/orders/:assignmentId/documents
+ * { type, printerId?, copies? } — sends the document to the preparer's printer.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ assignmentId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'يجب تسجيل الدخول' }, { status: 401 });
+  }
+  if (!hasServiceAccess(session, ['order-prep', 'order-shipping', 'warehouse'])) {
+    return NextResponse.json({ success: false, error: 'ليست لديك صلاحية للوصول' }, { status: 403 });
+  }
+
+  const { assignmentId } = await context.params;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const type = parseDocumentType(body?.type);
+    if (!type) {
+      return NextResponse.json({ success: false, error: 'نوع المستند غير مدعوم' }, { status: 400 });
+    }
+    const printerId = Number(body?.printerId);
+
+    const result = await printOrderPrepDocument({
+      assignmentId,
+      type,
+      printerId: Number.isInteger(printerId) && printerId > 0 ? printerId : undefined,
+      copies: Number.isInteger(body?.copies) && body.copies > 0 ? body.copies : 1,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error || 'تعذر إرسال المستند للطابعة' },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'تم إرسال المستند للطابعة',
+      jobId: result.jobId ?? null,
+      printerId: result.printerId,
+    });
+  } catch (error) {
+    if (error instanceof OrderPrepDocumentError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to print order prep document', { assignmentId, error });
+    return NextResponse.json({ success: false, error: 'تعذر طباعة المستند' }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { hasServiceAccess } from '@/app/lib/service-access';
+import { heartbeatPrepLease, releasePrepLease } from '@/app/lib/order-prep-service';
+import {
+  ORDER_PREP_LEASE_HEARTBEAT_MS,
+  OrderPrepLeaseConflictError,
+} from '@/app/lib/order-prep-status-guard';
+import { log } from '@/app/lib/logger';
+
+export const runtime = 'nodejs';
+
+const LEASE_ACTIONS = ['heartbeat', 'reclaim', 'release'] as const;
+
+type LeaseAction = (typeof LEASE_ACTIONS)[number];
+
+/**
+ * POST /api/order-prep/orders/:assignmentId/lease
+ * { leaseId, action: 'heartbeat' | 'reclaim' | 'release' }
+ * `leaseId` identifies the browser tab working the order.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ assignmentId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json({ error: 'يجب تسجيل الدخول' }, { status: 401 });
+  }
+
+  if (!hasServiceAccess(session, ['order-prep'])) {
+    return NextResponse.json({ error: 'ليست لديك صلاحية للوصول' }, { status: 403 });
+  }
+
+  const user = session.user as any;
+  const { assignmentId } = await context.params;
+
+  try {
+    // Tab-close releases arrive via sendBeacon as text/plain.
+    const body = await request
+      .text()
+      .then((raw) => (raw ? JSON.parse(raw) : {}))
+      .catch(() => ({}));
+    const leaseId = typeof body?.leaseId === 'string' ? body.leaseId.trim() : '';
+    const action = (body?.action ?? 'heartbeat') as LeaseAction;
+
+    if (!leaseId || leaseId.length > 100) {
+      return NextResponse.json({ error: 'معرف الجلسة مطلوب' }, { status: 400 });
+    }
+    if (!LEASE_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: 'إجراء غير مدعوم' }, { status: 400 });
+    }
+
+    if (action === 'release') {
+      const released = await releasePrepLease({ assignmentId, userId: user.id, holder: leaseId });
+      return NextResponse.json({ success: true, released });
+    }
+
+    const assignment = await heartbeatPrepLease({
+      assignmentId,
+      userId: user.id,
+      holder: leaseId,
+      reclaim: action === 'reclaim',
+    });
+
+    if (!assignment) {
+      return NextResponse.json(
+        { error: 'لم يتم العثور على الطلب أو لم يعد نشطاً' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      assignment,
+      heartbeatMs: ORDER_PREP_LEASE_HEARTBEAT_MS,
+    });
+  } catch (error) {
+    if (error instanceof OrderPrepLeaseConflictError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          leaseConflict: {
+            reclaimable: error.reclaimable,
+            leaseExpiresAt: error.leaseExpiresAt?.toISOString() ?? null,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+    log.error('Failed to update order prep lease', { userId: user.id, assignmentId, error });
+    return NextResponse.json({ error: 'تعذر تحديث جلسة الطلب' }, { status: 500 });
+  }
+}
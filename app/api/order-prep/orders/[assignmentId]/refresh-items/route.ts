@@ -6,6 +6,7 @@ import { prisma } from '@/lib/prisma';
 import { getSallaAccessToken } from '@/app/lib/salla-oauth';
 import { fetchSallaWithRetry } from '@/app/lib/fetch-with-retry';
 import { serializeAssignment, attachProductLocations } from '@/app/lib/order-prep-service';
+import { rebuildPrepOrderData } from '@/app/lib/order-prep-split';
 import { log } from '@/app/lib/logger';
 import { Prisma } from '@prisma/client';
 
@@ -101,7 +102,7 @@ export async function POST(
     const updatedAssignment = await prisma.orderPrepAssignment.update({
       where: { id: assignment.id },
       data: {
-        orderData: detail as Prisma.InputJsonValue,
+        orderData: rebuildPrepOrderData(assignment.orderData, detail) as Prisma.InputJsonValue,
       },
     });
 
@@ -6,6 +6,7 @@ import { prisma } from '@/lib/prisma';
 import { createSallaOrderHistoryEntry, updateSallaOrderStatus } from '@/app/lib/salla-order-status';
 import { log } from '@/app/lib/logger';
 import { getAuditUser } from '@/app/lib/audit';
+import { OrderPrepLeaseConflictError, assertPrepLeaseWritable } from '@/app/lib/order-prep-status-guard';
 
 export const runtime = 'nodejs';
 
@@ -80,6 +81,8 @@ export async function POST(
       );
     }
 
+    assertPrepLeaseWritable(assignment, typeof body?.leaseId === 'string' ? body.leaseId : null);
+
     const statusConfig = TARGET_STATUSES[target];
 
     const result = await updateSallaOrderStatus(MERCHANT_ID, assignment.orderId, {
@@ -142,6 +145,18 @@ export async function POST(
       success: true,
     });
   } catch (error) {
+    if (error instanceof OrderPrepLeaseConflictError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          leaseConflict: {
+            reclaimable: error.reclaimable,
+            leaseExpiresAt: error.leaseExpiresAt?.toISOString() ?? null,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
     log.error('Failed to update Salla status from order prep', {
       assignmentId,
       userId: user.id,
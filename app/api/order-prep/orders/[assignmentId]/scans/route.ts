@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { hasServiceAccess } from '@/app/lib/service-access';
+import { prisma } from '@/lib/prisma';
+import { getPrepScanState, recordPrepScan } from '@/app/lib/order-prep-scan-verification';
+import { log } from '@/app/lib/logger';
+
+export const runtime = 'nodejs';
+
+const scanResultMessages: Record<string, string> = {
+  accepted: 'تم التحقق من القطعة',
+  wrong_item: 'هذا المنتج ليس ضمن الطلب',
+  extra: 'تم مسح الكمية المطلوبة من هذا المنتج بالفعل',
+};
+
+async function authorize() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return { error: NextResponse.json({ error: 'يجب تسجيل الدخول' }, { status: 401 }) };
+  }
+
+  if (!hasServiceAccess(session, ['order-prep'])) {
+    return { error: NextResponse.json({ error: 'ليست لديك صلاحية للوصول' }, { status: 403 }) };
+  }
+
+  return { user: session.user as any };
+}
+
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ assignmentId: string }> },
+) {
+  const auth = await authorize();
+  if ('error' in auth) {
+    return auth.error;
+  }
+
+  const { assignmentId } = await context.params;
+
+  try {
+    const assignment = await prisma.orderPrepAssignment.findUnique({
+      where: { id: assignmentId },
+    });
+
+    if (!assignment || assignment.userId !== auth.user.id) {
+      return NextResponse.json(
+        { error: 'لم يتم العثور على الطلب أو لا تملك إذن تحديثه' },
+        { status: 404 },
+      );
+    }
+
+    const state = await getPrepScanState(assignment);
+    return NextResponse.json({ success: true, ...state });
+  } catch (error) {
+    log.error('Failed to load order prep scan state', { assignmentId, error });
+    return NextResponse.json({ error: 'تعذر تحميل حالة التحقق' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ assignmentId: string }> },
+) {
+  const auth = await authorize();
+  if ('error' in auth) {
+    return auth.error;
+  }
+
+  const { assignmentId } = await context.params;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const code = typeof body?.code === 'string' ? body.code.trim() : '';
+    if (!code) {
+      return NextResponse.json({ error: 'رمز الباركود مطلوب' }, { status: 400 });
+    }
+
+    const outcome = await recordPrepScan({ assignmentId, userId: auth.user.id, code });
+    if (!outcome) {
+      return NextResponse.json(
+        { error: 'لم يتم العثور على الطلب أو لا تملك إذن تحديثه' },
+        { status: 404 },
+      );
+    }
+
+    const accepted = outcome.resolution.result === 'accepted';
+    return NextResponse.json(
+      {
+        success: accepted,
+        result: outcome.resolution.result,
+        lineIndex: outcome.resolution.lineIndex,
+        message: scanResultMessages[outcome.resolution.result],
+        progress: outcome.progress,
+      },
+      { status: accepted ? 200 : 422 },
+    );
+  } catch (error) {
+    log.error('Failed to record order prep scan', { assignmentId, error });
+    return NextResponse.json({ error: 'تعذر تسجيل المسح' }, { status: 500 });
+  }
+}
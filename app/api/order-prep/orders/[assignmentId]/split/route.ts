@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { hasServiceAccess } from '@/app/lib/service-access';
+import { splitOrderPrepAssignment } from '@/app/lib/order-back-orders';
+import { OrderSplitError } from '@/app/lib/order-prep-split';
+import { OrderPrepLeaseConflictError } from '@/app/lib/order-prep-status-guard';
+import { syncWaveCompletion } from '@/app/lib/order-prep-waves';
+import { log } from '@/app/lib/logger';
+
+export const runtime = 'nodejs';
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ assignmentId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json({ error: 'يجب تسجيل الدخول' }, { status: 401 });
+  }
+
+  if (!hasServiceAccess(session, ['order-prep'])) {
+    return NextResponse.json({ error: 'ليست لديك صلاحية للوصول' }, { status: 403 });
+  }
+
+  const user = session.user as any;
+  const { assignmentId } = await context.params;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const itemStatuses = Array.isArray(body?.itemStatuses) ? body.itemStatuses : [];
+
+    const result = await splitOrderPrepAssignment({
+      assignmentId,
+      user: { id: user.id, name: user.name || user.username || 'مستخدم' },
+      itemStatuses,
+      leaseHolder: typeof body?.leaseId === 'string' ? body.leaseId : null,
+    });
+
+    if (result.assignment.waveId) {
+      await syncWaveCompletion(result.assignment.waveId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      assignment: result.assignment,
+      backOrder: result.backOrder,
+      sallaStatusSynced: result.sallaStatusSynced,
+    });
+  } catch (error) {
+    if (error instanceof OrderSplitError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    if (error instanceof OrderPrepLeaseConflictError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          leaseConflict: {
+            reclaimable: error.reclaimable,
+            leaseExpiresAt: error.leaseExpiresAt?.toISOString() ?? null,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+    log.error('Failed to split order prep assignment', {
+      userId: user.id,
+      assignmentId,
+      error,
+    });
+    return NextResponse.json({ error: 'تعذر تقسيم الطلب' }, { status: 500 });
+  }
+}
@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/lib/auth';
 import { hasServiceAccess } from '@/app/lib/service-access';
 import { updateAssignmentStatus } from '@/app/lib/order-prep-service';
+import { OrderPrepLeaseConflictError } from '@/app/lib/order-prep-status-guard';
+import { syncWaveCompletion } from '@/app/lib/order-prep-waves';
 import { log } from '@/app/lib/logger';
 
 export const runtime = 'nodejs';
@@ -33,6 +35,7 @@ export async function POST(
     const status = body?.status as AllowedStatus | undefined;
     const skipSallaSync = Boolean(body?.skipSallaSync);
     const itemStatuses = Array.isArray(body?.itemStatuses) ? body.itemStatuses : undefined;
+    const leaseHolder = typeof body?.leaseId === 'string' ? body.leaseId : null;
 
     if (!status || !ALLOWED_STATUSES.includes(status)) {
       return NextResponse.json(
@@ -47,6 +50,7 @@ export async function POST(
       targetStatus: status,
       skipSallaSync,
       itemStatuses,
+      leaseHolder,
     });
 
     if (!result) {
@@ -56,6 +60,13 @@ export async function POST(
       );
     }
 
+    if (result.verificationError) {
+      return NextResponse.json(
+        { error: result.verificationError, scanProgress: result.scanProgress ?? null },
+        { status: 409 }
+      );
+    }
+
     if (result.blocked) {
       return NextResponse.json(
         { error: result.sallaError || 'تعذر تحديث حالة الطلب في سلة' },
@@ -63,6 +74,10 @@ export async function POST(
       );
     }
 
+    if (status === 'completed' && result.assignment.waveId) {
+      await syncWaveCompletion(result.assignment.waveId);
+    }
+
     return NextResponse.json({
       success: true,
       assignment: result.assignment,
@@ -70,6 +85,18 @@ export async function POST(
       sallaError: result.sallaError ?? null,
     });
   } catch (error) {
+    if (error instanceof OrderPrepLeaseConflictError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          leaseConflict: {
+            reclaimable: error.reclaimable,
+            leaseExpiresAt: error.leaseExpiresAt?.toISOString() ?? null,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
     log.error('Failed to update order prep status', {
       userId: user.id,
       assignmentId,
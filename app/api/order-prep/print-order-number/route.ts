@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/lib/auth';
 import {
   sendPrintJob,
+  sendZplPrintJob,
   PRINTNODE_ORDER_NUMBER_PRINTER_ID,
   PRINTNODE_DEFAULT_DPI,
 } from '@/app/lib/printnode';
@@ -10,6 +11,8 @@ import { log } from '@/app/lib/logger';
 import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
 import { hasServiceAccess } from '@/app/lib/service-access';
 import { encodeCode128 } from '@/app/lib/barcode-code128';
+import { getPrinterLabelFormat } from '@/app/lib/printer-profiles';
+import { renderOrderNumberTicketZpl } from '@/app/lib/zpl-labels';
 
 export const runtime = 'nodejs';
 
@@ -63,6 +66,9 @@ const sanitizePrintableText = (input: string) => {
 
 const mmToPoints = (valueMm: number) => valueMm * MM_TO_POINTS;
 
+const toTicketOrderNumber = (orderNumber: string) =>
+  (sanitizePrintableText(orderNumber) || 'UNKNOWN').toUpperCase();
+
 const DEFAULT_DATE_FORMAT = new Intl.DateTimeFormat('en-GB', {
   day: '2-digit',
   month: '2-digit',
@@ -78,7 +84,7 @@ const formatPrintDate = (value?: string) => {
 };
 
 async function generateOrderTicketPdf(orderNumber: string, printDate?: string) {
-  const safeOrderNumber = (sanitizePrintableText(orderNumber) || 'UNKNOWN').toUpperCase();
+  const safeOrderNumber = toTicketOrderNumber(orderNumber);
   const spacedOrderNumber = safeOrderNumber.split('').join(' ');
   const dateLabel = formatPrintDate(printDate);
 
@@ -186,24 +192,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const encodedPdf = await generateOrderTicketPdf(printableOrderReference, rawPrintDate);
+    const labelFormat = await getPrinterLabelFormat(PRINTNODE_ORDER_NUMBER_PRINTER_ID);
+    const copies = Number.isInteger(body?.copies) && body.copies > 0 ? body.copies : 1;
+    const encodedPdf =
+      labelFormat === 'pdf' || shouldIncludePdf
+        ? await generateOrderTicketPdf(printableOrderReference, rawPrintDate)
+        : null;
 
     log.info('Sending order number ticket to PrintNode', {
       orderNumber: printableOrderReference,
+      labelFormat,
       requestedBy: (session.user as any)?.username || session.user.email || session.user.name,
     });
 
-    const printResult = await sendPrintJob({
-      title: `Order Ticket ${printableOrderReference}`,
-      contentType: 'pdf_base64',
-      content: encodedPdf,
-      printerId: PRINTNODE_ORDER_NUMBER_PRINTER_ID,
-      copies: Number.isInteger(body?.copies) && body.copies > 0 ? body.copies : 1,
-      paperSizeMm: ORDER_TICKET_MM,
-      paperName: ORDER_TICKET_PAPER_NAME,
-      fitToPage: false,
-      dpi: PRINTNODE_DEFAULT_DPI,
-    });
+    const printResult =
+      labelFormat === 'zpl'
+        ? await sendZplPrintJob({
+            title: `Order Ticket ${printableOrderReference}`,
+            zpl: renderOrderNumberTicketZpl(
+              toTicketOrderNumber(printableOrderReference),
+              formatPrintDate(rawPrintDate)
+            ),
+            printerId: PRINTNODE_ORDER_NUMBER_PRINTER_ID,
+            copies,
+          })
+        : await sendPrintJob({
+            title: `Order Ticket ${printableOrderReference}`,
+            contentType: 'pdf_base64',
+            content: encodedPdf ?? '',
+            printerId: PRINTNODE_ORDER_NUMBER_PRINTER_ID,
+            copies,
+            paperSizeMm: ORDER_TICKET_MM,
+            paperName: ORDER_TICKET_PAPER_NAME,
+            fitToPage: false,
+            dpi: PRINTNODE_DEFAULT_DPI,
+          });
 
     if (!printResult.success) {
       log.error('Failed to send order number ticket to PrintNode', {
@@ -220,7 +243,7 @@ export async function POST(request: NextRequest) {
       success: true,
       message: 'تم إرسال رقم الطلب للطابعة',
       jobId: printResult.jobId || null,
-      ...(shouldIncludePdf ? { pdfBase64: encodedPdf } : {}),
+      ...(shouldIncludePdf && encodedPdf ? { pdfBase64: encodedPdf } : {}),
     });
   } catch (error) {
     log.error('Unexpected error while printing order number', { error });
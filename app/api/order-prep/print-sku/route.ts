@@ -4,10 +4,13 @@ import { authOptions } from '@/app/lib/auth';
 import { hasServiceAccess } from '@/app/lib/service-access';
 import {
   sendPrintJob,
+  sendZplPrintJob,
   PRINTNODE_ORDER_NUMBER_PRINTER_ID,
   PRINTNODE_DEFAULT_DPI,
 } from '@/app/lib/printnode';
 import { log } from '@/app/lib/logger';
+import { getPrinterLabelFormat } from '@/app/lib/printer-profiles';
+import { renderSkuLabelZpl } from '@/app/lib/zpl-labels';
 import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
 
 export const runtime = 'nodejs';
@@ -87,18 +90,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const encodedPdf = await generateSkuLabelPdf(sku, productName);
-    const result = await sendPrintJob({
-      title: `SKU ${sku}`,
-      contentType: 'pdf_base64',
-      content: encodedPdf,
-      printerId: PRINTNODE_ORDER_NUMBER_PRINTER_ID,
-      copies: Number.isInteger(body?.copies) && body.copies > 0 ? body.copies : 1,
-      paperSizeMm: LABEL_MM,
-      paperName: 'Small labels',
-      fitToPage: false,
-      dpi: PRINTNODE_DEFAULT_DPI,
-    });
+    const copies = Number.isInteger(body?.copies) && body.copies > 0 ? body.copies : 1;
+    const labelFormat = await getPrinterLabelFormat(PRINTNODE_ORDER_NUMBER_PRINTER_ID);
+    const result =
+      labelFormat === 'zpl'
+        ? await sendZplPrintJob({
+            title: `SKU ${sku}`,
+            zpl: renderSkuLabelZpl(sku.toUpperCase(), productName),
+            printerId: PRINTNODE_ORDER_NUMBER_PRINTER_ID,
+            copies,
+          })
+        : await sendPrintJob({
+            title: `SKU ${sku}`,
+            contentType: 'pdf_base64',
+            content: await generateSkuLabelPdf(sku, productName),
+            printerId: PRINTNODE_ORDER_NUMBER_PRINTER_ID,
+            copies,
+            paperSizeMm: LABEL_MM,
+            paperName: 'Small labels',
+            fitToPage: false,
+            dpi: PRINTNODE_DEFAULT_DPI,
+          });
 
     if (!result.success) {
       log.error('Failed to print SKU label', { sku, error: result.error });
@@ -63,6 +63,12 @@ export async function POST(request: NextRequest) {
 
     const locations = await prisma.sallaProductLocation.findMany({
       where: { sku: { in: normalizedSkus } },
+      include: {
+        bins: {
+          select: { code: true, quantity: true, isPrimary: true },
+          orderBy: [{ isPrimary: 'desc' }, { code: 'asc' }],
+        },
+      },
     });
 
     return NextResponse.json({ success: true, locations });
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { log } from '@/app/lib/logger';
+import { runOrderShortageCheck } from '@/app/lib/order-shortage-watcher';
+import { createDefaultShortageWatcherDeps } from '@/app/lib/order-shortage-restock';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/**
+ * Scheduled restock check for items preparers marked unavailable. Resolves
+ * shortages whose SKU has stock again, returns fully restocked orders to the
+ * preparer who reported them, and raises purchase requests for shortages that
+ * stay open past the configured threshold.
+ *
+ * Pass ?dryRun=1 to see what would happen without writing anything.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get('authorization');
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    log.warn('Unauthorized order shortage check attempt');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const dryRun = ['1', 'true', 'yes'].includes(
+    (new URL(request.url).searchParams.get('dryRun') || '').toLowerCase()
+  );
+
+  try {
+    const deps = await createDefaultShortageWatcherDeps();
+    const result = await runOrderShortageCheck({ deps, dryRun });
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...result,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'UNKNOWN_ERROR';
+    log.error('Order shortage check failed', { error: message });
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { log } from '@/app/lib/logger';
+import { runOrderPrepSlaCheck } from '@/app/lib/order-prep-sla-monitor';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled order-prep SLA check. Called by the Vercel cron entry in vercel.json,
+ * or by any external scheduler that can send the CRON_SECRET bearer token.
+ *
+ * Pass ?dryRun=1 to see which assignments would be escalated or released
+ * without writing anything.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get('authorization');
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    log.warn('Unauthorized order prep SLA check attempt');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const dryRun = ['1', 'true', 'yes'].includes(
+    (new URL(request.url).searchParams.get('dryRun') || '').toLowerCase()
+  );
+
+  try {
+    const result = await runOrderPrepSlaCheck({ dryRun });
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...result,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'UNKNOWN_ERROR';
+    log.error('Order prep SLA check failed', { error: message });
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { hasServiceAccess } from '@/app/lib/service-access';
+import { markWavePicked, OrderPrepWaveError } from '@/app/lib/order-prep-waves';
+import { log } from '@/app/lib/logger';
+
+export const runtime = 'nodejs';
+
+export async function POST(
+  _request: NextRequest,
+  context: { params: Promise<{ waveId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json({ error: 'يجب تسجيل الدخول' }, { status: 401 });
+  }
+
+  if (!hasServiceAccess(session, ['order-prep'])) {
+    return NextResponse.json({ error: 'ليست لديك صلاحية للوصول' }, { status: 403 });
+  }
+
+  const user = session.user as any;
+  const { waveId } = await context.params;
+
+  try {
+    const wave = await markWavePicked(waveId, user.id);
+    if (!wave) {
+      return NextResponse.json({ error: 'لم يتم العثور على دفعة التجميع' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, wave });
+  } catch (error) {
+    if (error instanceof OrderPrepWaveError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to mark order prep wave as picked', { userId: user.id, waveId, error });
+    return NextResponse.json({ error: 'تعذر تحديث دفعة التجميع' }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { hasServiceAccess } from '@/app/lib/service-access';
+import { claimWaveForUser, getActiveWaveForUser, OrderPrepWaveError } from '@/app/lib/order-prep-waves';
+import { log } from '@/app/lib/logger';
+import { prisma } from '@/lib/prisma';
+
+export const runtime = 'nodejs';
+// Claiming a wave fetches every order detail from Salla one by one.
+export const maxDuration = 120;
+
+async function resolveOrderUser() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return { error: NextResponse.json({ error: 'يجب تسجيل الدخول' }, { status: 401 }) };
+  }
+
+  if (!hasServiceAccess(session, ['order-prep'])) {
+    return { error: NextResponse.json({ error: 'ليست لديك صلاحية للوصول' }, { status: 403 }) };
+  }
+
+  const user = session.user as any;
+  const orderUser = await prisma.orderUser.findUnique({
+    where: { id: user.id },
+    select: { id: true, name: true },
+  });
+
+  if (!orderUser) {
+    return {
+      error: NextResponse.json(
+        { error: 'هذا الحساب غير مضاف ضمن مستخدمي التحضير. الرجاء إنشاء مستخدم تحضير أولاً.' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { orderUser: { id: orderUser.id, name: orderUser.name || user.name } };
+}
+
+export async function GET() {
+  const resolved = await resolveOrderUser();
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+
+  try {
+    const wave = await getActiveWaveForUser(resolved.orderUser.id);
+    return NextResponse.json({ success: true, wave });
+  } catch (error) {
+    log.error('Failed to load order prep wave', { userId: resolved.orderUser.id, error });
+    return NextResponse.json({ error: 'تعذر تحميل دفعة التجميع' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const resolved = await resolveOrderUser();
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const wave = await claimWaveForUser(resolved.orderUser, body?.size);
+    return NextResponse.json({ success: true, wave });
+  } catch (error) {
+    if (error instanceof OrderPrepWaveError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to claim order prep wave', { userId: resolved.orderUser.id, error });
+    return NextResponse.json({ error: 'تعذر إنشاء دفعة تجميع جديدة' }, { status: 500 });
+  }
+}
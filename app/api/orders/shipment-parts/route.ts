@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { hasServiceAccess } from '@/app/lib/service-access';
+import { getOrderShipmentSplitSummary } from '@/app/lib/order-shipment-lines';
+import { log } from '@/app/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MERCHANT_ID = process.env.NEXT_PUBLIC_MERCHANT_ID || '1696031053';
+
+/**
+ * GET /api/orders/shipment-parts?orderId=XXX
+ * Whether an order was split at prep, its back-orders, the shipments already
+ * linked to its lines and which lines the next label will carry.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!hasServiceAccess(session, ['order-shipping', 'order-prep', 'local-shipping', 'warehouse'])) {
+    return NextResponse.json({ error: 'لا تملك صلاحية الوصول' }, { status: 403 });
+  }
+
+  const orderId = request.nextUrl.searchParams.get('orderId')?.trim();
+  if (!orderId) {
+    return NextResponse.json({ error: 'رقم الطلب مطلوب' }, { status: 400 });
+  }
+
+  try {
+    const summary = await getOrderShipmentSplitSummary(MERCHANT_ID, orderId);
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    log.error('Failed to load order shipment parts', { orderId, error });
+    return NextResponse.json({ error: 'تعذر تحميل أجزاء شحن الطلب' }, { status: 500 });
+  }
+}
@@ -5,6 +5,7 @@ import { hasServiceAccess } from '@/app/lib/service-access';
 import { prisma } from '@/lib/prisma';
 import { fetchPrintNodePrinters } from '@/app/lib/printnode';
 import { log } from '@/app/lib/logger';
+import { isPrinterLabelFormat } from '@/app/lib/printer-profiles';
 
 export const runtime = 'nodejs';
 
@@ -61,7 +62,7 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { printerId: printerIdInput, label, location, paperName, notes } = body || {};
+    const { printerId: printerIdInput, label, location, paperName, labelFormat, notes } = body || {};
 
     const printerId =
       typeof printerIdInput === 'number'
@@ -85,6 +86,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (labelFormat !== undefined && !isPrinterLabelFormat(labelFormat)) {
+      return NextResponse.json(
+        { error: 'صيغة الملصق يجب أن تكون PDF أو ZPL' },
+        { status: 400 }
+      );
+    }
+
     const profile = await prisma.printerProfile.upsert({
       where: { printerId },
       create: {
@@ -92,12 +100,14 @@ export async function POST(request: NextRequest) {
         label: normalizedLabel,
         location: typeof location === 'string' && location.trim() ? location.trim() : null,
         paperName: typeof paperName === 'string' && paperName.trim() ? paperName.trim() : null,
+        labelFormat: labelFormat ?? 'pdf',
         notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null,
       },
       update: {
         label: normalizedLabel,
         location: typeof location === 'string' && location.trim() ? location.trim() : null,
         paperName: typeof paperName === 'string' && paperName.trim() ? paperName.trim() : null,
+        labelFormat,
         notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null,
       },
     });
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { Prisma } from '@prisma/client';
+import { authOptions } from '@/app/lib/auth';
+import { getAuditUser } from '@/app/lib/audit';
+import { log } from '@/app/lib/logger';
+import { hasServiceAccess } from '@/app/lib/service-access';
+import type { ServiceKey } from '@/app/lib/service-definitions';
+import { ProductBinError, normalizeBinAddress, parseMoveQuantity } from '@/app/lib/product-bins';
+import { listProductBinMoves, moveProductBinStock } from '@/app/lib/product-bin-service';
+
+export const runtime = 'nodejs';
+
+const ALLOWED_SERVICES: ServiceKey[] = ['warehouse', 'warehouse-locations', 'search-update-stock'];
+
+function productBinTableMissing(error: unknown) {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2021';
+}
+
+function normalizeSku(input: unknown) {
+  return typeof input === 'string' ? input.trim().toUpperCase() : '';
+}
+
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || !hasServiceAccess(session, ALLOWED_SERVICES)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لعرض سجل نقل المخزون' }, { status: 403 });
+  }
+
+  try {
+    const sku = normalizeSku(request.nextUrl.searchParams.get('sku'));
+    const requestedLimit = Number.parseInt(request.nextUrl.searchParams.get('limit') || '50', 10);
+    const take = Number.isFinite(requestedLimit) ? Math.min(Math.max(requestedLimit, 1), 200) : 50;
+
+    const moves = await listProductBinMoves({ sku: sku || null, take });
+    return NextResponse.json({ success: true, moves });
+  } catch (error) {
+    if (productBinTableMissing(error)) {
+      return NextResponse.json(
+        { error: 'جدول سجل نقل المخزون غير موجود بعد. يرجى تطبيق ترحيل قاعدة البيانات.', moves: [] },
+        { status: 503 }
+      );
+    }
+    log.error('Failed to load product bin moves', { error });
+    return NextResponse.json({ error: 'تعذر تحميل سجل نقل المخزون' }, { status: 500 });
+  }
+}
+
+/**
+ * Moves units from one bin to another. `toBinId` targets an existing bin of
+ * the SKU; otherwise `to` carries a zone/aisle/shelf/bin address and the bin is
+ * created.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || !hasServiceAccess(session, ALLOWED_SERVICES)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لنقل المخزون' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const sku = normalizeSku(body?.sku);
+    const fromBinId = typeof body?.fromBinId === 'string' ? body.fromBinId.trim() : '';
+    const toBinId = typeof body?.toBinId === 'string' ? body.toBinId.trim() : '';
+    const toAddress = toBinId ? null : normalizeBinAddress(body?.to ?? {});
+    if (!sku || !fromBinId) {
+      return NextResponse.json({ error: 'رمز SKU والموقع المصدر مطلوبان' }, { status: 400 });
+    }
+    if (!toBinId && !toAddress) {
+      return NextResponse.json({ error: 'حدد الموقع الهدف' }, { status: 400 });
+    }
+
+    const result = await moveProductBinStock({
+      sku,
+      fromBinId,
+      to: toBinId ? { binId: toBinId } : { address: toAddress! },
+      quantity: parseMoveQuantity(body?.quantity),
+      reason: typeof body?.reason === 'string' ? body.reason.trim() : null,
+      actor: getAuditUser(session.user),
+    });
+
+    log.info('Product bin stock moved', {
+      sku,
+      from: result.log.fromBinCode,
+      to: result.log.toBinCode,
+      quantity: result.log.quantity,
+    });
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof ProductBinError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    if (productBinTableMissing(error)) {
+      return NextResponse.json(
+        { error: 'جدول سجل نقل المخزون غير موجود بعد. يرجى تطبيق ترحيل قاعدة البيانات.' },
+        { status: 503 }
+      );
+    }
+    log.error('Failed to move product bin stock', { error });
+    return NextResponse.json({ error: 'تعذر نقل المخزون' }, { status: 500 });
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { Prisma } from '@prisma/client';
+import { authOptions } from '@/app/lib/auth';
+import { getAuditUser } from '@/app/lib/audit';
+import { log } from '@/app/lib/logger';
+import { hasServiceAccess } from '@/app/lib/service-access';
+import type { ServiceKey } from '@/app/lib/service-definitions';
+import { ProductBinError, normalizeBinAddress } from '@/app/lib/product-bins';
+import { deleteProductBin, listProductBins, saveProductBin } from '@/app/lib/product-bin-service';
+
+export const runtime = 'nodejs';
+
+const ALLOWED_SERVICES: ServiceKey[] = ['warehouse', 'warehouse-locations', 'search-update-stock'];
+
+function productBinTableMissing(error: unknown) {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2021';
+}
+
+function normalizeSku(input: unknown) {
+  return typeof input === 'string' ? input.trim().toUpperCase() : '';
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof ProductBinError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+  if (productBinTableMissing(error)) {
+    return NextResponse.json(
+      {
+        error: 'يرجى تشغيل `prisma migrate deploy` لإنشاء جداول مواقع التخزين.',
+        missingProductLocationTable: true,
+      },
+      { status: 503 }
+    );
+  }
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || !hasServiceAccess(session, ALLOWED_SERVICES)) {
+    return NextResponse.json({ error: 'غير مصرح لك بالوصول إلى مواقع المنتجات' }, { status: 403 });
+  }
+
+  const sku = normalizeSku(request.nextUrl.searchParams.get('sku'));
+  if (!sku) {
+    return NextResponse.json({ error: 'رمز SKU مطلوب' }, { status: 400 });
+  }
+
+  try {
+    const bins = await listProductBins(sku);
+    return NextResponse.json({ success: true, bins });
+  } catch (error) {
+    log.error('Failed to load product bins', { sku, error });
+    return errorResponse(error, 'تعذر تحميل مواقع المنتج');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || !hasServiceAccess(session, ALLOWED_SERVICES)) {
+    return NextResponse.json({ error: 'غير مصرح لك بتحديث مواقع المنتجات' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const sku = normalizeSku(body?.sku);
+    const address = normalizeBinAddress(body ?? {});
+    if (!sku) {
+      return NextResponse.json({ error: 'رمز SKU مطلوب' }, { status: 400 });
+    }
+    if (!address) {
+      return NextResponse.json({ error: 'المنطقة (Zone) مطلوبة لتحديد الموقع' }, { status: 400 });
+    }
+
+    let quantity: number | undefined;
+    if (body?.quantity !== undefined && body?.quantity !== null && body?.quantity !== '') {
+      quantity = Number(body.quantity);
+      if (!Number.isInteger(quantity) || quantity < 0) {
+        return NextResponse.json({ error: 'الكمية يجب أن تكون رقماً صحيحاً غير سالب' }, { status: 400 });
+      }
+    }
+
+    const bin = await saveProductBin({
+      sku,
+      address,
+      quantity,
+      isPrimary: body?.isPrimary === true,
+      notes: typeof body?.notes === 'string' ? body.notes.trim() || null : undefined,
+      actor: getAuditUser(session.user),
+    });
+
+    log.info('Product bin saved', { sku, code: bin.code, quantity: bin.quantity });
+    return NextResponse.json({ success: true, bin });
+  } catch (error) {
+    if (!(error instanceof ProductBinError)) {
+      log.error('Failed to save product bin', { error });
+    }
+    return errorResponse(error, 'تعذر حفظ موقع المنتج');
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || !hasServiceAccess(session, ALLOWED_SERVICES)) {
+    return NextResponse.json({ error: 'غير مصرح لك بحذف مواقع المنتجات' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const sku = normalizeSku(body?.sku);
+    const binId = typeof body?.binId === 'string' ? body.binId.trim() : '';
+    if (!sku || !binId) {
+      return NextResponse.json({ error: 'رمز SKU ومعرف الموقع مطلوبان' }, { status: 400 });
+    }
+
+    await deleteProductBin({ sku, binId, actor: getAuditUser(session.user) });
+    log.info('Product bin deleted', { sku, binId });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (!(error instanceof ProductBinError)) {
+      log.error('Failed to delete product bin', { error });
+    }
+    return errorResponse(error, 'تعذر حذف موقع المنتج');
+  }
+}
@@ -5,6 +5,8 @@ import { authOptions } from '@/app/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { log } from '@/app/lib/logger';
 import { hasServiceAccess } from '@/app/lib/service-access';
+import { getAuditUser } from '@/app/lib/audit';
+import { syncPrimaryBinFromLocation } from '@/app/lib/product-bin-service';
 
 export const runtime = 'nodejs';
 
@@ -82,6 +84,7 @@ export async function GET(request: NextRequest) {
             { sku: { contains: search, mode: 'insensitive' as const } },
             { productName: { contains: search, mode: 'insensitive' as const } },
             { location: { contains: search, mode: 'insensitive' as const } },
+            { bins: { some: { code: { contains: search, mode: 'insensitive' as const } } } },
           ],
         }
       : undefined;
@@ -90,6 +93,9 @@ export async function GET(request: NextRequest) {
       where,
       orderBy: { updatedAt: 'desc' },
       take,
+      include: {
+        bins: { orderBy: [{ isPrimary: 'desc' }, { code: 'asc' }] },
+      },
     });
 
     return NextResponse.json({ success: true, productLocations });
@@ -185,6 +191,7 @@ export async function POST(request: NextRequest) {
       },
       update: updateData,
     });
+    await syncPrimaryBinFromLocation(sku, location, getAuditUser(session.user));
 
     log.info('Warehouse location saved', { sku, location, actor, action: existingRecord ? 'update' : 'create' });
 
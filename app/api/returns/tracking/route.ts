@@ -1,27 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { log } from '@/app/lib/logger';
-import { trackBulkShipments, trackC2BShipment, type SMSATrackingRecord } from '@/app/lib/smsa-api';
+import { getCarrierAdapter, resolveCarrierCode, type CarrierTracking, type CarrierTrackingEvent } from '@/app/lib/carriers';
 
 export const runtime = 'nodejs';
 
-type SMSATrackingScan = {
-  ScanType?: string;
-  ScanDescription?: string;
-  ScanDateTime?: string;
-  ScanTimeZone?: string;
-  City?: string;
-  ReceivedBy?: string;
-};
-
-type TrackingHistoryEntry = {
-  code: string | null;
-  description: string | null;
-  city: string | null;
-  timestamp: string | null;
-  timezone: string | null;
-  receivedBy: string | null;
-};
-
 type TrackingStatusPayload = {
   code: string | null;
   description: string | null;
@@ -30,78 +12,14 @@ type TrackingStatusPayload = {
   timezone: string | null;
   receivedBy: string | null;
   delivered: boolean;
-  history: TrackingHistoryEntry[];
+  history: CarrierTrackingEvent[];
 };
 
-const normalizeScan = (scan: SMSATrackingScan | null | undefined): TrackingHistoryEntry => ({
-  code: scan?.ScanType ?? null,
-  description: scan?.ScanDescription ?? null,
-  city: scan?.City ?? null,
-  timestamp: scan?.ScanDateTime ?? null,
-  timezone: scan?.ScanTimeZone ?? null,
-  receivedBy: scan?.ReceivedBy ?? null,
-});
-
-const sortHistory = (entries: TrackingHistoryEntry[]): TrackingHistoryEntry[] =>
-  entries.sort((a, b) => {
-    const aTime = a.timestamp ? Date.parse(a.timestamp) : 0;
-    const bTime = b.timestamp ? Date.parse(b.timestamp) : 0;
-    return bTime - aTime;
-  });
-
-const extractScans = (payload: SMSATrackingRecord | null | undefined): SMSATrackingScan[] => {
-  if (!payload) {
-    return [];
-  }
-
-  const candidates = [
-    payload?.Scans,
-    (payload as any)?.scans,
-    (payload as any)?.trackingHistory,
-    (payload as any)?.history,
-    (payload as any)?.TrackingHistory,
-    (payload as any)?.tracking,
-  ];
-
-  for (const candidate of candidates) {
-    if (Array.isArray(candidate)) {
-      return candidate as SMSATrackingScan[];
-    }
-  }
-
-  if (Array.isArray((payload as any)?.TrackingLogs)) {
-    return (payload as any)?.TrackingLogs as SMSATrackingScan[];
-  }
-
-  if (Array.isArray((payload as any)?.Waybills)) {
-    // Some responses have scans nested per waybill
-    const scans = [];
-    for (const waybill of (payload as any).Waybills) {
-      if (Array.isArray(waybill?.Scans)) {
-        scans.push(...waybill.Scans);
-      }
-    }
-    if (scans.length > 0) {
-      return scans as SMSATrackingScan[];
-    }
-  }
-
-  return [];
-};
-
-const toTrackingPayload = (raw: SMSATrackingRecord | null): TrackingStatusPayload | null => {
-  if (!raw) {
+const toTrackingPayload = (tracking: CarrierTracking | undefined): TrackingStatusPayload | null => {
+  if (!tracking) {
     return null;
   }
-  const history = sortHistory(extractScans(raw).map(normalizeScan));
-  const latest = history[0] || null;
-  const delivered =
-    Boolean(
-      raw?.isDelivered ||
-      raw?.IsDelivered ||
-      history.some((entry) => entry.code === 'DL' || entry.description?.toLowerCase().includes('delivered'))
-    ) || false;
-
+  const latest = tracking.events[0] || null;
   return {
     code: latest?.code ?? null,
     description: latest?.description ?? null,
@@ -109,38 +27,11 @@ const toTrackingPayload = (raw: SMSATrackingRecord | null): TrackingStatusPayloa
     timestamp: latest?.timestamp ?? null,
     timezone: latest?.timezone ?? null,
     receivedBy: latest?.receivedBy ?? null,
-    delivered,
-    history,
+    delivered: tracking.delivered,
+    history: tracking.events,
   };
 };
 
-const resolveAwbFromRecord = (record: SMSATrackingRecord): string | null => {
-  const candidates = [
-    typeof record.AWB === 'string' ? record.AWB.trim() : '',
-    typeof record.awb === 'string' ? record.awb.trim() : '',
-    typeof (record as any)?.trackingNumber === 'string' ? (record as any).trackingNumber.trim() : '',
-  ].filter(Boolean);
-  return candidates.length > 0 ? candidates[0] : null;
-};
-
-const fetchSingleTrackingRecord = async (awb: string): Promise<SMSATrackingRecord | null> => {
-  const normalized = awb.trim();
-  if (!normalized) {
-    return null;
-  }
-
-  try {
-    const c2b = await trackC2BShipment(normalized);
-    if (c2b && typeof c2b === 'object') {
-      return c2b as SMSATrackingRecord;
-    }
-  } catch (error) {
-    log.warn('Failed to fetch SMSA C2B tracking for AWB', { awb: normalized, error });
-  }
-
-  return null;
-};
-
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json().catch(() => ({}));
@@ -158,42 +49,21 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: true, statuses: {} });
     }
 
-    const statuses: Record<string, TrackingStatusPayload | null> = {};
+    // Returns were all SMSA before other carriers existed, so a missing
+    // carrier keeps meaning SMSA rather than guessing from the number format.
+    const carrier = getCarrierAdapter(resolveCarrierCode(body?.carrier));
+    const trackings = await carrier.track(normalized, { kind: 'return' });
 
-    const trackingRecords = await trackBulkShipments(normalized);
-    const recordMap = new Map<string, SMSATrackingRecord>();
-    for (const record of trackingRecords) {
-      const awb = resolveAwbFromRecord(record);
-      if (awb) {
-        recordMap.set(awb, record);
-      }
-    }
-
-    const missingAwbs: string[] = [];
+    const statuses: Record<string, TrackingStatusPayload | null> = {};
     for (const awb of normalized) {
-      const record = recordMap.get(awb);
-      const payload = toTrackingPayload(record ?? null);
-      statuses[awb] = payload;
-      if (!payload) {
-        missingAwbs.push(awb);
-      }
-    }
-
-    if (missingAwbs.length > 0) {
-      for (const awb of missingAwbs) {
-        const fallbackRecord = await fetchSingleTrackingRecord(awb);
-        const payload = toTrackingPayload(fallbackRecord);
-        if (payload) {
-          statuses[awb] = payload;
-        }
-      }
+      statuses[awb] = toTrackingPayload(trackings.get(awb));
     }
 
     return NextResponse.json({ success: true, statuses });
   } catch (error) {
-    log.error('Failed to fetch SMSA tracking statuses', { error });
+    log.error('Failed to fetch return tracking statuses', { error });
     return NextResponse.json(
-      { success: false, error: 'تعذر جلب حالة الشحنة من سمسا' },
+      { success: false, error: 'تعذر جلب حالة الشحنة من شركة الشحن' },
       { status: 500 }
     );
   }
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { hasServiceAccess } from '@/app/lib/service-access';
+import { CodReconciliationError, parseReconciliationQuery } from '@/app/lib/cod-reconciliation';
+import { buildCodClaimsWorkbook, runCodReconciliation } from '@/app/lib/cod-reconciliation-service';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/settlements/cod-reconciliation/export
+ * Downloads the COD claims workbook to send to the carrier.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'يجب تسجيل الدخول' }, { status: 401 });
+  }
+  if (!hasServiceAccess(session, 'settlements')) {
+    return NextResponse.json({ error: 'لا تملك صلاحية للوصول' }, { status: 403 });
+  }
+
+  try {
+    const report = await runCodReconciliation(parseReconciliationQuery(request.nextUrl.searchParams));
+    const workbook = buildCodClaimsWorkbook(report);
+    const day = report.asOf.toISOString().slice(0, 10);
+    return new NextResponse(new Uint8Array(workbook), {
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="smsa-cod-claims-${day}.xlsx"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof CodReconciliationError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to export carrier COD claims', { error });
+    return NextResponse.json({ error: 'تعذر تصدير قائمة مطالبات التحصيل' }, { status: 500 });
+  }
+}
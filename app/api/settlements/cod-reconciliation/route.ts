@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { hasServiceAccess } from '@/app/lib/service-access';
+import { CodReconciliationError, parseReconciliationQuery } from '@/app/lib/cod-reconciliation';
+import { runCodReconciliation } from '@/app/lib/cod-reconciliation-service';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/settlements/cod-reconciliation
+ * Expected carrier COD against the uploaded SMSA settlement files, by AWB.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'يجب تسجيل الدخول' }, { status: 401 });
+  }
+  if (!hasServiceAccess(session, 'settlements')) {
+    return NextResponse.json({ error: 'لا تملك صلاحية للوصول' }, { status: 403 });
+  }
+
+  try {
+    const query = parseReconciliationQuery(request.nextUrl.searchParams);
+    const report = await runCodReconciliation(query);
+    return NextResponse.json({ ...query, ...report });
+  } catch (error) {
+    if (error instanceof CodReconciliationError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to reconcile carrier COD', { error });
+    return NextResponse.json({ error: 'تعذر مطابقة مبالغ التحصيل مع شركة الشحن' }, { status: 500 });
+  }
+}
@@ -5,11 +5,12 @@ import { prisma } from '@/lib/prisma';
 import { log } from '@/app/lib/logger';
 import {
   DELIVERY_OTP_EXPIRY_MINUTES,
+  buildDeliveryOtpSmsBody,
   generateDeliveryOtp,
   hashDeliveryOtp,
   maskPhoneNumber,
 } from '@/app/lib/delivery-otp';
-import { sendMsegatSms } from '@/app/lib/msegat';
+import { sendDeliveryOtp } from '@/app/lib/delivery-otp-channel';
 
 const MIN_SECONDS_BETWEEN_OTPS = 60;
 
@@ -113,21 +114,18 @@ export async function POST(
         deliveryOtpExpiresAt: expiresAt,
         deliveryOtpVerifiedAt: null,
         deliveryOtpAttemptCount: 0,
+        deliveryOtpSmsDueAt: null,
       },
     });
 
-    const orderLabel = assignment.shipment.orderNumber
-      ? `طلب ${assignment.shipment.orderNumber}`
-      : assignment.shipment.trackingNumber
-        ? `شحنة ${assignment.shipment.trackingNumber}`
-        : 'طلبك';
-
-    const smsBody = `رمز تسليم ${orderLabel}: ${otp}. شاركه مع مندوب مليحة.`;
+    const smsBody = buildDeliveryOtpSmsBody(assignment.shipment, otp);
 
+    let dispatch;
     try {
-      await sendMsegatSms({
+      dispatch = await sendDeliveryOtp({
         to: customerPhone,
-        body: smsBody,
+        otp,
+        smsBody,
       });
     } catch (smsError) {
       await prisma.shipmentAssignment.update({
@@ -141,7 +139,7 @@ export async function POST(
         },
       });
 
-      log.error('Failed to send OTP via Msegat', {
+      log.error('Failed to send delivery OTP', {
         assignmentId: id,
         error: smsError instanceof Error ? smsError.message : smsError,
       });
@@ -157,9 +155,19 @@ export async function POST(
       );
     }
 
+    await prisma.shipmentAssignment.update({
+      where: { id },
+      data: {
+        deliveryOtpChannel: dispatch.channel,
+        deliveryOtpMessageId: dispatch.messageId,
+        deliveryOtpSmsDueAt: dispatch.smsDueAt,
+      },
+    });
+
     log.info('Sent delivery OTP', {
       assignmentId: id,
       deliveryAgentId: assignment.deliveryAgentId,
+      channel: dispatch.channel,
     });
 
     return NextResponse.json({
@@ -167,6 +175,7 @@ export async function POST(
       requestedAt: now.toISOString(),
       expiresAt: expiresAt.toISOString(),
       maskedPhone: maskPhoneNumber(customerPhone),
+      channel: dispatch.channel,
       durationMinutes: DELIVERY_OTP_EXPIRY_MINUTES,
     });
   } catch (error) {
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+import { isDeliveryProofKind } from '@/app/lib/delivery-proof';
+import { getDeliveryProofFile } from '@/app/lib/delivery-proof-service';
+import { canAccessDeliveryProof } from '../utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/shipment-assignments/:id/proof/:kind
+ * Serves the stored photo or signature image.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; kind: string }> },
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+
+  const { id, kind } = await params;
+  if (!isDeliveryProofKind(kind)) {
+    return NextResponse.json({ error: 'نوع الإثبات غير معروف' }, { status: 404 });
+  }
+
+  try {
+    const assignment = await prisma.shipmentAssignment.findUnique({
+      where: { id },
+      select: { deliveryAgentId: true },
+    });
+    if (!assignment) {
+      return NextResponse.json({ error: 'التعيين غير موجود' }, { status: 404 });
+    }
+    if (!canAccessDeliveryProof(session, assignment)) {
+      return NextResponse.json({ error: 'ليس لديك صلاحية لعرض إثبات التسليم' }, { status: 403 });
+    }
+
+    const file = await getDeliveryProofFile(id, kind);
+    if (!file) {
+      return NextResponse.json({ error: 'لم يتم التقاط هذا الإثبات' }, { status: 404 });
+    }
+    return new NextResponse(new Uint8Array(file.fileData), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Cache-Control': 'private, max-age=86400',
+        'Last-Modified': file.updatedAt.toUTCString(),
+      },
+    });
+  } catch (error) {
+    log.error('Failed to load delivery proof file', { assignmentId: id, kind, error });
+    return NextResponse.json({ error: 'تعذر تحميل ملف الإثبات' }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { getDeliveryProofAssignment, getDeliveryProofFile } from '@/app/lib/delivery-proof-service';
+import { generateDeliveryProofPdf } from '@/app/lib/delivery-proof-pdf';
+import { canAccessDeliveryProof } from '../utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/shipment-assignments/:id/proof/pdf
+ * Downloads the proof-of-delivery sheet for a customer dispute.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  try {
+    const assignment = await getDeliveryProofAssignment(id);
+    if (!assignment) {
+      return NextResponse.json({ error: 'التعيين غير موجود' }, { status: 404 });
+    }
+    if (!canAccessDeliveryProof(session, assignment)) {
+      return NextResponse.json({ error: 'ليس لديك صلاحية لعرض إثبات التسليم' }, { status: 403 });
+    }
+    if (assignment.proofFiles.length === 0) {
+      return NextResponse.json({ error: 'لا يوجد إثبات تسليم لهذه الشحنة' }, { status: 404 });
+    }
+
+    const [photo, signature] = await Promise.all([
+      getDeliveryProofFile(id, 'photo'),
+      getDeliveryProofFile(id, 'signature'),
+    ]);
+    const pdf = await generateDeliveryProofPdf(assignment, {
+      photo: photo && { contentType: photo.contentType, data: photo.fileData },
+      signature: signature && { contentType: signature.contentType, data: signature.fileData },
+    });
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="POD-${assignment.shipment.orderNumber}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    log.error('Failed to render delivery proof', { assignmentId: id, error });
+    return NextResponse.json({ error: 'تعذر إنشاء ملف إثبات التسليم' }, { status: 500 });
+  }
+}
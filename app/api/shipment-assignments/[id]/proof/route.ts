@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { getAuditUser } from '@/app/lib/audit';
+import { log } from '@/app/lib/logger';
+import { DeliveryProofError, assertDeliveryProofWritable } from '@/app/lib/delivery-proof';
+import {
+  getDeliveryProofAssignment,
+  saveDeliveryProof,
+  serializeDeliveryProof,
+} from '@/app/lib/delivery-proof-service';
+import { canAccessDeliveryProof } from './utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/shipment-assignments/:id/proof
+ * Proof-of-delivery summary for the POD viewer.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  try {
+    const assignment = await getDeliveryProofAssignment(id);
+    if (!assignment) {
+      return NextResponse.json({ error: 'التعيين غير موجود' }, { status: 404 });
+    }
+    if (!canAccessDeliveryProof(session, assignment)) {
+      return NextResponse.json({ error: 'ليس لديك صلاحية لعرض إثبات التسليم' }, { status: 403 });
+    }
+    return NextResponse.json({ success: true, proof: serializeDeliveryProof(assignment) });
+  } catch (error) {
+    log.error('Failed to load delivery proof', { assignmentId: id, error });
+    return NextResponse.json({ error: 'تعذر تحميل إثبات التسليم' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/shipment-assignments/:id/proof
+ * Body: { photo?, signature?, recipientName? } with images as data URLs.
+ * Uploaded before the agent confirms delivery with the customer's OTP; a
+ * delivered, failed or cancelled assignment keeps the proof it has.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  try {
+    const assignment = await getDeliveryProofAssignment(id);
+    if (!assignment) {
+      return NextResponse.json({ error: 'التعيين غير موجود' }, { status: 404 });
+    }
+    if (!canAccessDeliveryProof(session, assignment)) {
+      return NextResponse.json({ error: 'ليس لديك صلاحية لتحديث هذا التعيين' }, { status: 403 });
+    }
+    assertDeliveryProofWritable(assignment.status);
+
+    const body = await request.json().catch(() => ({}));
+    const saved = await saveDeliveryProof(
+      id,
+      { photo: body.photo, signature: body.signature, recipientName: body.recipientName },
+      getAuditUser(session.user),
+    );
+
+    log.info('Delivery proof captured', {
+      assignmentId: id,
+      kinds: saved.proofFiles.map((file) => file.kind),
+    });
+    return NextResponse.json({ success: true, proof: serializeDeliveryProof(saved) });
+  } catch (error) {
+    if (error instanceof DeliveryProofError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to save delivery proof', { assignmentId: id, error });
+    return NextResponse.json({ error: 'تعذر حفظ إثبات التسليم' }, { status: 500 });
+  }
+}
@@ -0,0 +1,13 @@
+import { hasServiceAccess } from '@/app/lib/service-access';
+
+/**
+ * The assigned agent captures and sees their own proof; dispatchers review
+ * any assignment's proof when a customer disputes a delivery.
+ */
+export function canAccessDeliveryProof(session: any, assignment: { deliveryAgentId: string }): boolean {
+  const user = session?.user as any;
+  if (user?.roles?.includes('delivery_agent') && user.role !== 'admin') {
+    return assignment.deliveryAgentId === user.id;
+  }
+  return hasServiceAccess(session, ['shipment-assignments', 'local-shipping', 'order-shipping']);
+}
@@ -4,12 +4,21 @@ import { authOptions } from '@/app/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { log } from '@/app/lib/logger';
 import {
+  ensureFailedAttemptWalletCredit,
   ensureShipmentWalletCredit,
+  removeFailedAttemptWalletCredit,
   removeShipmentWalletCredit,
 } from '@/app/lib/delivery-agent-wallet';
 import { getAuditUser } from '@/app/lib/audit';
 import { hashDeliveryOtp } from '@/app/lib/delivery-otp';
 import { markSallaOrderDelivered } from '@/app/lib/local-shipping/salla-status';
+import { hasDeliveryProof } from '@/app/lib/delivery-proof-service';
+import {
+  describeDeliveryFailure,
+  isDeliveryFailureReasonCode,
+  type DeliveryFailureReasonCode,
+} from '@/app/lib/delivery-reattempts';
+import { handleFailedDeliveryAttempt, type FailedDeliveryResult } from '@/app/lib/delivery-reattempt-service';
 
 export const runtime = 'nodejs';
 
@@ -40,6 +49,7 @@ export async function PATCH(
       recipientName,
       recipientSignature,
       failureReason,
+      failureReasonCode,
       cancellationReason,
       deliveryOtpCode,
     } = body;
@@ -93,11 +103,39 @@ export async function PATCH(
     if (failureReason !== undefined) updateData.failureReason = failureReason;
     if (cancellationReason !== undefined) updateData.cancellationReason = cancellationReason;
 
+    // Agents must say why a delivery failed; the code drives the reattempt policy.
+    let failureCode: DeliveryFailureReasonCode | null = null;
+    if (status === 'failed') {
+      if (failureReasonCode && !isDeliveryFailureReasonCode(failureReasonCode)) {
+        return NextResponse.json(
+          { error: 'سبب فشل التوصيل غير معروف' },
+          { status: 400 }
+        );
+      }
+      if (!failureReasonCode && isDeliveryAgent) {
+        return NextResponse.json(
+          { error: 'يرجى اختيار سبب فشل التوصيل' },
+          { status: 400 }
+        );
+      }
+      const code: DeliveryFailureReasonCode = failureReasonCode || 'other';
+      failureCode = code;
+      updateData.failureReasonCode = code;
+      updateData.failureReason = describeDeliveryFailure(code, failureReason);
+    }
+
     // Handle status changes
     const requiresDeliveryOtp = Boolean(
       status === 'delivered' && user.roles?.includes('delivery_agent')
     );
 
+    if (requiresDeliveryOtp && !(await hasDeliveryProof(assignmentId))) {
+      return NextResponse.json(
+        { error: 'يجب إرفاق صورة أو توقيع إثبات التسليم' },
+        { status: 400 }
+      );
+    }
+
     if (requiresDeliveryOtp) {
       const providedCode = typeof deliveryOtpCode === 'string' ? deliveryOtpCode.trim() : '';
       if (!providedCode) {
@@ -145,6 +183,7 @@ export async function PATCH(
       updateData.deliveryOtpExpiresAt = null;
       updateData.deliveryOtpCodeHash = null;
       updateData.deliveryOtpAttemptCount = 0;
+      updateData.deliveryOtpSmsDueAt = null;
     }
 
     if (status) {
@@ -182,7 +221,34 @@ export async function PATCH(
     const updatedAssignment = await prisma.shipmentAssignment.update({
       where: { id: assignmentId },
       data: updateData,
-      include: {
+      // Explicit columns: the OTP hash and message id never leave the server.
+      select: {
+        id: true,
+        shipmentId: true,
+        attemptNumber: true,
+        deliveryAgentId: true,
+        status: true,
+        assignedAt: true,
+        assignedBy: true,
+        pickedUpAt: true,
+        deliveredAt: true,
+        failedAt: true,
+        cancelledAt: true,
+        failureReasonCode: true,
+        failureReason: true,
+        cancellationReason: true,
+        deliveryProofUrl: true,
+        recipientName: true,
+        recipientSignature: true,
+        notes: true,
+        routeSequence: true,
+        routePlannedAt: true,
+        deliveryOtpRequestedAt: true,
+        deliveryOtpExpiresAt: true,
+        deliveryOtpVerifiedAt: true,
+        deliveryOtpAttemptCount: true,
+        deliveryOtpChannel: true,
+        updatedAt: true,
         shipment: {
           include: {
             warehouse: true,
@@ -214,6 +280,11 @@ export async function PATCH(
     }
 
     const previousStatus = assignment.status;
+    let failureOutcome: FailedDeliveryResult | null = null;
+    if (failureCode && previousStatus !== 'failed') {
+      failureOutcome = await handleFailedDeliveryAttempt(assignmentId, failureCode, auditUser);
+    }
+
     if (previousStatus !== 'delivered' && updatedAssignment.status === 'delivered') {
       await ensureShipmentWalletCredit({
         shipmentId: assignment.shipmentId,
@@ -221,6 +292,7 @@ export async function PATCH(
         assignmentId,
         orderNumber: updatedAssignment.shipment?.orderNumber,
         trackingNumber: updatedAssignment.shipment?.trackingNumber,
+        deliveredAt: updatedAssignment.deliveredAt ?? undefined,
         createdById: auditUser.id || undefined,
         createdByName: auditUser.name || user.name || user.username,
       });
@@ -246,15 +318,31 @@ export async function PATCH(
       await removeShipmentWalletCredit(assignment.shipmentId);
     }
 
+    if (previousStatus !== 'failed' && updatedAssignment.status === 'failed') {
+      await ensureFailedAttemptWalletCredit({
+        assignmentId,
+        deliveryAgentId: assignment.deliveryAgentId,
+        orderNumber: updatedAssignment.shipment?.orderNumber,
+        trackingNumber: updatedAssignment.shipment?.trackingNumber,
+        failedAt: updatedAssignment.failedAt ?? undefined,
+        createdById: auditUser.id || undefined,
+        createdByName: auditUser.name || user.name || user.username,
+      });
+    } else if (previousStatus === 'failed' && status && status !== 'failed') {
+      await removeFailedAttemptWalletCredit(assignmentId);
+    }
+
     log.info('Shipment assignment updated', {
       assignmentId,
       status,
+      failureReasonCode: failureCode,
       updatedBy: user.username,
     });
 
     return NextResponse.json({
       success: true,
       assignment: updatedAssignment,
+      failureOutcome,
     });
   } catch (error) {
     log.error('Error updating shipment assignment', {
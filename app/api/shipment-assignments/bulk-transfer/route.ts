@@ -133,6 +133,9 @@ export async function POST(request: NextRequest) {
         deliveryAgentId: targetAgentId,
         assignedAt: now,
         assignedBy: user.username || user.name,
+        // The stops join the new agent's route at the end, not at their old position.
+        routeSequence: null,
+        routePlannedAt: null,
       },
     });
 
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { getAuditUser } from '@/app/lib/audit';
+import { DeliveryReattemptError } from '@/app/lib/delivery-reattempts';
+import { receiveReturnedShipment } from '@/app/lib/delivery-reattempt-service';
+import { canReceiveReturns } from '../../utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/shipment-assignments/returns/[shipmentId]/receive
+ * The parcel is back in the warehouse: restock its items and mark the Salla order restored.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ shipmentId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!canReceiveReturns(session)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لاستلام المرتجعات' }, { status: 403 });
+  }
+  try {
+    const { shipmentId } = await params;
+    const result = await receiveReturnedShipment(shipmentId, getAuditUser(session.user as any));
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof DeliveryReattemptError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to receive returned local shipment', { error });
+    return NextResponse.json({ error: 'تعذر استلام الشحنة العائدة' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { listReturningShipments } from '@/app/lib/delivery-reattempt-service';
+import { canReceiveReturns } from './utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/shipment-assignments/returns
+ * Shipments heading back to the warehouse after their last failed attempt.
+ */
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  if (!canReceiveReturns(session)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لعرض المرتجعات' }, { status: 403 });
+  }
+  try {
+    const shipments = await listReturningShipments();
+    return NextResponse.json({ success: true, shipments });
+  } catch (error) {
+    log.error('Failed to load returning local shipments', { error });
+    return NextResponse.json({ error: 'تعذر تحميل الشحنات العائدة' }, { status: 500 });
+  }
+}
@@ -0,0 +1,6 @@
+import { hasServiceAccess } from '@/app/lib/service-access';
+
+/** Checking returns back in is warehouse work, never the delivering agent's. */
+export function canReceiveReturns(session: any): boolean {
+  return hasServiceAccess(session, ['shipment-assignments', 'local-shipping']);
+}
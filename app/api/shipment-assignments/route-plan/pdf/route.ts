@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+import { DeliveryRouteError } from '@/app/lib/delivery-routes';
+import { getDeliveryRoute } from '@/app/lib/delivery-route-service';
+import { generateDeliveryRoutePdf } from '@/app/lib/delivery-route-pdf';
+import { resolveRouteAgentId } from '../utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/shipment-assignments/route-plan/pdf?agentId=&labels=1
+ * The stop list on label stock; with labels=1 each stop's label follows in
+ * route order.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  try {
+    const agentId = resolveRouteAgentId(session, searchParams.get('agentId'));
+    const route = await getDeliveryRoute(agentId);
+    const labels =
+      searchParams.get('labels') === '1' && route.stops.length > 0
+        ? await prisma.localShipment.findMany({
+            where: { id: { in: route.stops.map((stop) => stop.shipmentId) } },
+          })
+        : undefined;
+
+    const pdf = await generateDeliveryRoutePdf(route, { labels });
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="route-${route.agent.username}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof DeliveryRouteError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to render delivery route', { error });
+    return NextResponse.json({ error: 'تعذر إنشاء ملف المسار' }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { DeliveryRouteError } from '@/app/lib/delivery-routes';
+import {
+  getDeliveryRoute,
+  optimizeDeliveryRoute,
+  reorderDeliveryRoute,
+  serializeDeliveryRoute,
+} from '@/app/lib/delivery-route-service';
+import { resolveRouteAgentId } from './utils';
+
+export const runtime = 'nodejs';
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof DeliveryRouteError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+  log.error(message, { error });
+  return NextResponse.json({ error: 'تعذر تحميل مسار التوصيل' }, { status: 500 });
+}
+
+/**
+ * GET /api/shipment-assignments/route-plan?agentId=
+ * The agent's active stops in delivery order.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  try {
+    const agentId = resolveRouteAgentId(session, request.nextUrl.searchParams.get('agentId'));
+    const route = await getDeliveryRoute(agentId);
+    return NextResponse.json({ success: true, route: serializeDeliveryRoute(route) });
+  } catch (error) {
+    return handleError(error, 'Failed to load delivery route');
+  }
+}
+
+/**
+ * POST /api/shipment-assignments/route-plan
+ * Re-plans the route with the nearest-neighbour heuristic, replacing any manual order.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  try {
+    const body = await request.json().catch(() => ({}));
+    const agentId = resolveRouteAgentId(session, body?.agentId);
+    const route = await optimizeDeliveryRoute(agentId);
+    log.info('Delivery route optimized', {
+      agentId,
+      stops: route.stops.length,
+      totalKm: route.totalKm,
+      by: (session.user as any).username || (session.user as any).id,
+    });
+    return NextResponse.json({ success: true, route: serializeDeliveryRoute(route) });
+  } catch (error) {
+    return handleError(error, 'Failed to optimize delivery route');
+  }
+}
+
+/**
+ * PUT /api/shipment-assignments/route-plan
+ * Body: { agentId?, assignmentIds } — the full route in the order to drive it.
+ */
+export async function PUT(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'غير مصرح' }, { status: 401 });
+  }
+  try {
+    const body = await request.json().catch(() => ({}));
+    const agentId = resolveRouteAgentId(session, body?.agentId);
+    const assignmentIds = Array.isArray(body?.assignmentIds)
+      ? body.assignmentIds.filter((id: unknown): id is string => typeof id === 'string')
+      : null;
+    if (!assignmentIds) {
+      return NextResponse.json({ error: 'يجب إرسال ترتيب الشحنات' }, { status: 400 });
+    }
+    const route = await reorderDeliveryRoute(agentId, assignmentIds);
+    return NextResponse.json({ success: true, route: serializeDeliveryRoute(route) });
+  } catch (error) {
+    return handleError(error, 'Failed to reorder delivery route');
+  }
+}
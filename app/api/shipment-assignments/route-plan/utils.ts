@@ -0,0 +1,19 @@
+import { hasServiceAccess } from '@/app/lib/service-access';
+import { DeliveryRouteError } from '@/app/lib/delivery-routes';
+
+/**
+ * Delivery agents only ever see their own route; dispatchers pick the agent.
+ */
+export function resolveRouteAgentId(session: any, requestedAgentId: unknown): string {
+  const user = session?.user as any;
+  if (user?.roles?.includes('delivery_agent') && user.role !== 'admin') {
+    return user.id;
+  }
+  if (!hasServiceAccess(session, ['shipment-assignments', 'local-shipping', 'order-shipping'])) {
+    throw new DeliveryRouteError('لا تملك صلاحية إدارة مسارات المناديب', 403);
+  }
+  if (typeof requestedAgentId !== 'string' || !requestedAgentId.trim()) {
+    throw new DeliveryRouteError('يجب تحديد المندوب');
+  }
+  return requestedAgentId.trim();
+}
@@ -314,7 +314,10 @@ export async function POST(request: NextRequest) {
     // Check if shipment exists and is not already assigned
     const shipment = await prisma.localShipment.findUnique({
       where: { id: shipmentId },
-      include: { assignment: true },
+      include: {
+        assignments: { orderBy: { attemptNumber: 'desc' }, take: 1 },
+        codCollection: { select: { id: true } },
+      },
     });
 
     if (!shipment) {
@@ -324,7 +327,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (shipment.assignment) {
+    // A failed or cancelled attempt may be handed to another agent as a new attempt
+    const [latestAssignment] = shipment.assignments;
+    if (latestAssignment && !['failed', 'cancelled'].includes(latestAssignment.status)) {
       return NextResponse.json(
         { error: 'الشحنة مُعيّنة بالفعل لمندوب' },
         { status: 400 }
@@ -365,6 +370,7 @@ export async function POST(request: NextRequest) {
       data: {
         shipmentId,
         deliveryAgentId,
+        attemptNumber: (latestAssignment?.attemptNumber ?? 0) + 1,
         assignedBy: user.username || user.name,
         notes,
       },
@@ -392,7 +398,7 @@ export async function POST(request: NextRequest) {
     });
 
     // If shipment is COD, create COD collection record
-    if (shipment.isCOD) {
+    if (shipment.isCOD && !shipment.codCollection) {
       await prisma.cODCollection.create({
         data: {
           shipmentId,
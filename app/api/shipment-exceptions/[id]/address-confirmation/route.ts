@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { getAuditUser } from '@/app/lib/audit';
+import { log } from '@/app/lib/logger';
+import { hasServiceAccess } from '@/app/lib/service-access';
+import { ShipmentExceptionError } from '@/app/lib/shipment-exceptions';
+import { requestAddressConfirmation } from '@/app/lib/shipment-exception-service';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/shipment-exceptions/:id/address-confirmation
+ * Queues the WhatsApp message asking the customer to confirm their address.
+ */
+export async function POST(_request: Request, context: { params: Promise<{ id: string }> }) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ error: 'يجب تسجيل الدخول' }, { status: 401 });
+  }
+  if (!hasServiceAccess(session, 'shipment-exceptions')) {
+    return NextResponse.json({ error: 'لا تملك صلاحية للوصول' }, { status: 403 });
+  }
+
+  const { id } = await context.params;
+  try {
+    const exception = await requestAddressConfirmation(id, getAuditUser(session.user));
+    return NextResponse.json({ success: true, exception });
+  } catch (error) {
+    if (error instanceof ShipmentExceptionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to queue address confirmation', { exceptionId: id, error });
+    return NextResponse.json({ error: 'تعذر إرسال طلب تأكيد العنوان' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { getAuditUser } from '@/app/lib/audit';
+import { log } from '@/app/lib/logger';
+import { hasServiceAccess } from '@/app/lib/service-access';
+import { ShipmentExceptionError } from '@/app/lib/shipment-exceptions';
+import { assignShipmentExceptionOwner, resolveShipmentException } from '@/app/lib/shipment-exception-service';
+
+export const runtime = 'nodejs';
+
+/**
+ * PATCH /api/shipment-exceptions/:id
+ * Body: { action: 'assign', ownerId: string | null } | { action: 'resolve', note }
+ */
+export async function PATCH(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ error: 'يجب تسجيل الدخول' }, { status: 401 });
+  }
+  if (!hasServiceAccess(session, 'shipment-exceptions')) {
+    return NextResponse.json({ error: 'لا تملك صلاحية للوصول' }, { status: 403 });
+  }
+
+  const { id } = await context.params;
+  const body = await request.json().catch(() => null);
+
+  try {
+    if (body?.action === 'assign') {
+      const ownerId = typeof body.ownerId === 'string' && body.ownerId ? body.ownerId : null;
+      const exception = await assignShipmentExceptionOwner(id, ownerId);
+      return NextResponse.json({ success: true, exception });
+    }
+    if (body?.action === 'resolve') {
+      const note = typeof body.note === 'string' ? body.note : '';
+      const exception = await resolveShipmentException(id, note, getAuditUser(session.user));
+      return NextResponse.json({ success: true, exception });
+    }
+    return NextResponse.json({ error: 'إجراء غير معروف' }, { status: 400 });
+  } catch (error) {
+    if (error instanceof ShipmentExceptionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to update shipment exception', { exceptionId: id, error });
+    return NextResponse.json({ error: 'تعذر تحديث الاستثناء' }, { status: 500 });
+  }
+}
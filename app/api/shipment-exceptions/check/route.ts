@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { hasServiceAccess } from '@/app/lib/service-access';
+import { runShipmentExceptionScan } from '@/app/lib/shipment-exception-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled SMSA shipment exception scan. Called by the Vercel cron entry in
+ * vercel.json, or by any external scheduler that can send the CRON_SECRET
+ * bearer token. Pass ?dryRun=1 to count changes without writing them.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get('authorization');
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    log.warn('Unauthorized shipment exception scan attempt');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const dryRun = ['1', 'true', 'yes'].includes(
+    (new URL(request.url).searchParams.get('dryRun') || '').toLowerCase()
+  );
+
+  try {
+    const result = await runShipmentExceptionScan({ dryRun });
+    return NextResponse.json({ success: true, timestamp: new Date().toISOString(), ...result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'UNKNOWN_ERROR';
+    log.error('Shipment exception scan failed', { error: message });
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/shipment-exceptions/check — runs the scan now from the inbox.
+ */
+export async function POST() {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ error: 'يجب تسجيل الدخول' }, { status: 401 });
+  }
+  if (!hasServiceAccess(session, 'shipment-exceptions')) {
+    return NextResponse.json({ error: 'لا تملك صلاحية للوصول' }, { status: 403 });
+  }
+
+  try {
+    const result = await runShipmentExceptionScan();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    log.error('Manual shipment exception scan failed', { error });
+    return NextResponse.json({ error: 'تعذر فحص الشحنات' }, { status: 500 });
+  }
+}
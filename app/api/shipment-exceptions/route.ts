@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { hasServiceAccess } from '@/app/lib/service-access';
+import { isShipmentExceptionType } from '@/app/lib/shipment-exceptions';
+import { listShipmentExceptionOwners, listShipmentExceptions } from '@/app/lib/shipment-exception-service';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/shipment-exceptions?status=open|resolved|all&type=&owner=me|<id>&q=
+ * Exceptions inbox with open counts per type and the users who can own them.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ error: 'يجب تسجيل الدخول' }, { status: 401 });
+  }
+  if (!hasServiceAccess(session, 'shipment-exceptions')) {
+    return NextResponse.json({ error: 'لا تملك صلاحية للوصول' }, { status: 403 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const statusParam = params.get('status');
+  const status = statusParam === 'resolved' || statusParam === 'all' ? statusParam : 'open';
+  const typeParam = params.get('type');
+  const ownerParam = params.get('owner');
+  const ownerId = ownerParam === 'me' ? ((session.user as any)?.id ?? null) : ownerParam || null;
+
+  try {
+    const [{ exceptions, openCounts }, owners] = await Promise.all([
+      listShipmentExceptions({
+        status,
+        type: isShipmentExceptionType(typeParam) ? typeParam : null,
+        ownerId,
+        search: params.get('q'),
+      }),
+      listShipmentExceptionOwners(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      openCounts,
+      owners,
+      exceptions: exceptions.map((exception) => ({
+        ...exception,
+        shipment: {
+          ...exception.shipment,
+          codAmount: exception.shipment.codAmount ? Number(exception.shipment.codAmount) : null,
+        },
+      })),
+    });
+  } catch (error) {
+    log.error('Failed to list shipment exceptions', { error });
+    return NextResponse.json({ error: 'تعذر تحميل استثناءات الشحنات' }, { status: 500 });
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { cancelC2BShipment } from '@/app/lib/smsa-api';
+import { getCarrierAdapter, isCarrierCode } from '@/app/lib/carriers';
 import { log } from '@/app/lib/logger';
 
 export const runtime = 'nodejs';
@@ -7,12 +7,14 @@ export const runtime = 'nodejs';
 /**
  * POST /api/shipments/cancel
  *
- * Cancels a C2B (return) shipment by AWB/tracking number
+ * Cancels a return shipment by AWB/tracking number. `carrier` defaults to
+ * SMSA, which handled every return before other adapters existed.
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { trackingNumber } = body;
+    const carrierCode = body.carrier ?? 'smsa';
 
     if (!trackingNumber) {
       return NextResponse.json(
@@ -21,16 +23,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    log.info('Cancelling shipment via API', { trackingNumber });
+    if (!isCarrierCode(carrierCode)) {
+      return NextResponse.json(
+        { error: 'شركة الشحن غير مدعومة' },
+        { status: 400 }
+      );
+    }
+
+    log.info('Cancelling shipment via API', { trackingNumber, carrier: carrierCode });
 
-    const result = await cancelC2BShipment(trackingNumber);
+    const result = await getCarrierAdapter(carrierCode).cancel(trackingNumber, { kind: 'return' });
 
     if (!result.success) {
       log.error('Shipment cancellation failed', { trackingNumber, error: result.error });
 
       // Translate error to Arabic
       let arabicError = 'فشل إلغاء الشحنة';
-      if (result.error?.includes('not found')) {
+      if (result.errorCode === 'NOT_SUPPORTED') {
+        arabicError = result.error;
+      } else if (result.error?.includes('not found')) {
         arabicError = 'لم يتم العثور على الشحنة. يرجى التحقق من رقم التتبع.';
       } else if (result.error?.includes('cannot be cancelled')) {
         arabicError = 'لا يمكن إلغاء هذه الشحنة. قد تكون قيد التسليم أو تم تسليمها بالفعل.';
@@ -48,7 +59,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      message: result.message || 'تم إلغاء الشحنة بنجاح',
+      message: result.message,
     });
 
   } catch (error) {
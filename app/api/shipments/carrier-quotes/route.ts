@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { hasServiceAccess } from '@/app/lib/service-access';
+import type { ServiceKey } from '@/app/lib/service-definitions';
+import { log } from '@/app/lib/logger';
+import { quoteOrderCarriers } from '@/app/lib/carrier-selection';
+
+export const runtime = 'nodejs';
+
+const MERCHANT_ID = process.env.NEXT_PUBLIC_MERCHANT_ID || '1696031053';
+
+const ALLOWED_SERVICES: ServiceKey[] = ['order-shipping', 'admin-order-prep'];
+
+/**
+ * POST /api/shipments/carrier-quotes
+ * Body: { orderId, merchantId?, orderData }. Prices the order on every
+ * carrier's rate card and returns the carrier order shipping should preselect,
+ * with the reason. Nothing is recorded until the shipment is created.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || !hasServiceAccess(session, ALLOWED_SERVICES)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لعرض أسعار الشحن' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const orderId = String(body?.orderId ?? '').trim();
+    if (!orderId || !body?.orderData || typeof body.orderData !== 'object') {
+      return NextResponse.json({ error: 'يجب تمرير الطلب وبياناته' }, { status: 400 });
+    }
+    const merchantId = String(body?.merchantId || MERCHANT_ID);
+
+    const { facts, decision } = await quoteOrderCarriers(merchantId, orderId, body.orderData);
+    return NextResponse.json({ success: true, facts, decision });
+  } catch (error) {
+    log.error('Failed to quote carriers for order', { error });
+    return NextResponse.json({ error: 'تعذر حساب أسعار الشحن' }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { hasServiceAccess } from '@/app/lib/service-access';
+import type { ServiceKey } from '@/app/lib/service-definitions';
+import { getAuditUser } from '@/app/lib/audit';
+import { log } from '@/app/lib/logger';
+import { isShippingOptionCode } from '@/app/lib/carrier-rates';
+import { recordCarrierSelection } from '@/app/lib/carrier-selection';
+
+export const runtime = 'nodejs';
+
+const MERCHANT_ID = process.env.NEXT_PUBLIC_MERCHANT_ID || '1696031053';
+
+const ALLOWED_SERVICES: ServiceKey[] = ['order-shipping', 'admin-order-prep'];
+
+/**
+ * GET /api/shipments/carrier-selections?orderId=
+ * The carrier decisions recorded for an order, newest first.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || !hasServiceAccess(session, ALLOWED_SERVICES)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لعرض سجل اختيار الشحن' }, { status: 403 });
+  }
+
+  const orderId = request.nextUrl.searchParams.get('orderId')?.trim();
+  if (!orderId) {
+    return NextResponse.json({ error: 'يجب تمرير رقم الطلب' }, { status: 400 });
+  }
+
+  try {
+    const selections = await prisma.orderCarrierSelection.findMany({
+      where: { merchantId: MERCHANT_ID, orderId },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    });
+    return NextResponse.json({ success: true, selections });
+  } catch (error) {
+    log.error('Failed to load carrier selections', { orderId, error });
+    return NextResponse.json({ error: 'تعذر تحميل سجل اختيار شركة الشحن' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/shipments/carrier-selections
+ * Body: { orderId, orderNumber?, merchantId?, orderData, carrier, note? }.
+ * Called once the shipment exists; re-quotes the order and stores the
+ * carrier used together with why (followed or overrode the recommendation).
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || !hasServiceAccess(session, ALLOWED_SERVICES)) {
+    return NextResponse.json({ error: 'ليس لديك صلاحية لتسجيل اختيار الشحن' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const orderId = String(body?.orderId ?? '').trim();
+    if (!orderId || !body?.orderData || typeof body.orderData !== 'object') {
+      return NextResponse.json({ error: 'يجب تمرير الطلب وبياناته' }, { status: 400 });
+    }
+    if (!isShippingOptionCode(body?.carrier)) {
+      return NextResponse.json({ error: 'شركة الشحن غير مدعومة' }, { status: 400 });
+    }
+
+    const actor = getAuditUser(session.user as any);
+    const selection = await recordCarrierSelection({
+      merchantId: String(body?.merchantId || MERCHANT_ID),
+      orderId,
+      orderNumber: body?.orderNumber ? String(body.orderNumber) : null,
+      orderData: body.orderData,
+      carrier: body.carrier,
+      note: typeof body?.note === 'string' ? body.note.trim() || null : null,
+      actor,
+    });
+
+    log.info('Carrier selection recorded', {
+      orderId,
+      carrier: selection.carrier,
+      recommended: selection.recommendedCarrier,
+      overridden: selection.overridden,
+    });
+    return NextResponse.json({ success: true, selection }, { status: 201 });
+  } catch (error) {
+    log.error('Failed to record carrier selection', { error });
+    return NextResponse.json({ error: 'تعذر تسجيل اختيار شركة الشحن' }, { status: 500 });
+  }
+}
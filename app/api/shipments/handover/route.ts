@@ -3,6 +3,29 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { hasWarehouseFeatureAccess, resolveWarehouseIds } from '@/app/api/shipments/utils';
+import { addShipmentToManifest } from '@/app/lib/pickup-manifest-service';
+import { PickupManifestError } from '@/app/lib/pickup-manifests';
+import { getAuditUser } from '@/app/lib/audit';
+import { log } from '@/app/lib/logger';
+
+// The handover itself is already recorded when this runs, so a manifest
+// failure is reported to the scanner instead of undoing the scan; scanning the
+// AWB again retries it.
+async function attachToManifest(
+  shipment: { id: string; trackingNumber: string; company: string; warehouseId: string | null },
+  sessionUser: any,
+) {
+  try {
+    return { manifest: await addShipmentToManifest(shipment, getAuditUser(sessionUser)), manifestError: null };
+  } catch (error) {
+    log.error('Failed to add handed-over shipment to manifest', { shipmentId: shipment.id, error });
+    return {
+      manifest: null,
+      manifestError:
+        error instanceof PickupManifestError ? error.message : 'تعذر إضافة الشحنة إلى بيان التسليم، يرجى إعادة المسح',
+    };
+  }
+}
 
 function isToday(date: Date) {
   const startOfDay = new Date();
@@ -86,8 +109,11 @@ export async function POST(request: NextRequest) {
     }
 
     if (shipment.handoverScannedAt) {
+      const { manifest, manifestError } = await attachToManifest(shipment, session.user);
       return NextResponse.json({
         outcome: 'already_confirmed',
+        manifest,
+        manifestError,
         shipment: {
           ...shipment,
           scannedAt: shipment.scannedAt.toISOString(),
@@ -109,8 +135,12 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    const { manifest, manifestError } = await attachToManifest(updated, session.user);
+
     return NextResponse.json({
       outcome: 'confirmed',
+      manifest,
+      manifestError,
       shipment: {
         ...updated,
         scannedAt: updated.scannedAt.toISOString(),
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { getPickupManifest } from '@/app/lib/pickup-manifest-service';
+import { generatePickupManifestPdf } from '@/app/lib/pickup-manifest-pdf';
+import { hasWarehouseFeatureAccess, resolveWarehouseScope } from '@/app/api/shipments/utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/shipments/manifests/:id/pdf
+ * Renders the manifest inline. An open manifest prints with an empty
+ * signature box so it can also be signed on paper.
+ */
+export async function GET(_request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ error: 'يجب تسجيل الدخول' }, { status: 401 });
+  }
+  if (!hasWarehouseFeatureAccess(session)) {
+    return NextResponse.json({ error: 'لا تملك صلاحية عرض بيانات التسليم' }, { status: 403 });
+  }
+
+  const { id } = await context.params;
+  try {
+    const manifest = await getPickupManifest(id);
+    const scope = await resolveWarehouseScope(session);
+    if (!manifest || (scope && !scope.includes(manifest.warehouseId))) {
+      return NextResponse.json({ error: 'لم يتم العثور على البيان' }, { status: 404 });
+    }
+
+    const pdf = await generatePickupManifestPdf(manifest);
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${manifest.manifestNumber}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    log.error('Failed to render pickup manifest', { manifestId: id, error });
+    return NextResponse.json({ error: 'تعذر إنشاء ملف البيان' }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { getPickupManifest, serializePickupManifest } from '@/app/lib/pickup-manifest-service';
+import { hasWarehouseFeatureAccess, resolveWarehouseScope } from '@/app/api/shipments/utils';
+
+export const runtime = 'nodejs';
+
+export async function GET(_request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ error: 'يجب تسجيل الدخول' }, { status: 401 });
+  }
+  if (!hasWarehouseFeatureAccess(session)) {
+    return NextResponse.json({ error: 'لا تملك صلاحية عرض بيانات التسليم' }, { status: 403 });
+  }
+
+  try {
+    const { id } = await context.params;
+    const manifest = await getPickupManifest(id);
+    const scope = await resolveWarehouseScope(session);
+    if (!manifest || (scope && !scope.includes(manifest.warehouseId))) {
+      return NextResponse.json({ error: 'لم يتم العثور على البيان' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, manifest: serializePickupManifest(manifest, { includeItems: true }) });
+  } catch (error) {
+    log.error('Failed to load pickup manifest', { error });
+    return NextResponse.json({ error: 'تعذر تحميل البيان' }, { status: 500 });
+  }
+}
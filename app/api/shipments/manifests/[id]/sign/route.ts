@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { getAuditUser } from '@/app/lib/audit';
+import { log } from '@/app/lib/logger';
+import { PickupManifestError, parseManifestSignature } from '@/app/lib/pickup-manifests';
+import { getPickupManifest, serializePickupManifest, signPickupManifest } from '@/app/lib/pickup-manifest-service';
+import { hasWarehouseFeatureAccess, resolveWarehouseScope } from '@/app/api/shipments/utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/shipments/manifests/:id/sign
+ * Body: { driverName, driverPhone?, signatureDataUrl } — the courier driver
+ * signs for every shipment on the manifest, which closes it.
+ */
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ error: 'يجب تسجيل الدخول' }, { status: 401 });
+  }
+  if (!hasWarehouseFeatureAccess(session)) {
+    return NextResponse.json({ error: 'لا تملك صلاحية توقيع بيانات التسليم' }, { status: 403 });
+  }
+
+  const { id } = await context.params;
+  try {
+    const existing = await getPickupManifest(id);
+    const scope = await resolveWarehouseScope(session);
+    if (!existing || (scope && !scope.includes(existing.warehouseId))) {
+      return NextResponse.json({ error: 'لم يتم العثور على البيان' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const signature = parseManifestSignature(body);
+    const manifest = await signPickupManifest(id, signature, getAuditUser(session.user));
+    if (!manifest) {
+      return NextResponse.json({ error: 'لم يتم العثور على البيان' }, { status: 404 });
+    }
+
+    log.info('Pickup manifest signed', {
+      manifestId: id,
+      manifestNumber: manifest.manifestNumber,
+      items: manifest.items.length,
+      driverName: signature.driverName,
+    });
+    return NextResponse.json({ success: true, manifest: serializePickupManifest(manifest, { includeItems: true }) });
+  } catch (error) {
+    if (error instanceof PickupManifestError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    log.error('Failed to sign pickup manifest', { manifestId: id, error });
+    return NextResponse.json({ error: 'تعذر حفظ توقيع البيان' }, { status: 500 });
+  }
+}
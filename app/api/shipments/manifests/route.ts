@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { listPickupManifests, serializePickupManifest } from '@/app/lib/pickup-manifest-service';
+import { riyadhDayStart } from '@/app/lib/pickup-manifests';
+import { hasWarehouseFeatureAccess, resolveWarehouseScope } from '@/app/api/shipments/utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/shipments/manifests?warehouseId=&days=
+ * Open manifests plus those opened in the last `days` days (default 1).
+ */
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ error: 'يجب تسجيل الدخول' }, { status: 401 });
+  }
+  if (!hasWarehouseFeatureAccess(session)) {
+    return NextResponse.json({ error: 'لا تملك صلاحية عرض بيانات التسليم' }, { status: 403 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const warehouseId = searchParams.get('warehouseId');
+    const days = Math.min(Math.max(Number(searchParams.get('days')) || 1, 1), 31);
+
+    const scope = await resolveWarehouseScope(session);
+    if (warehouseId && scope && !scope.includes(warehouseId)) {
+      return NextResponse.json({ error: 'لا تملك صلاحية لهذا المستودع' }, { status: 403 });
+    }
+
+    const since = riyadhDayStart(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000));
+
+    const manifests = await listPickupManifests({
+      warehouseIds: warehouseId ? [warehouseId] : scope,
+      since,
+    });
+    return NextResponse.json({
+      success: true,
+      manifests: manifests.map((manifest) => serializePickupManifest(manifest)),
+    });
+  } catch (error) {
+    log.error('Failed to list pickup manifests', { error });
+    return NextResponse.json({ error: 'تعذر تحميل بيانات التسليم' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/lib/auth';
+import { log } from '@/app/lib/logger';
+import { listUnmanifestedShipments } from '@/app/lib/pickup-manifest-service';
+import { hasWarehouseFeatureAccess } from '@/app/api/shipments/utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/shipments/manifests/unmanifested?days=
+ * Labelled shipments from the last `days` days (default 7) that were missing
+ * from the courier manifest signed after their label was printed.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ error: 'يجب تسجيل الدخول' }, { status: 401 });
+  }
+  if (!hasWarehouseFeatureAccess(session)) {
+    return NextResponse.json({ error: 'لا تملك صلاحية عرض بيانات التسليم' }, { status: 403 });
+  }
+
+  try {
+    const days = Math.min(Math.max(Number(request.nextUrl.searchParams.get('days')) || 7, 1), 31);
+    const shipments = await listUnmanifestedShipments(days);
+    return NextResponse.json({
+      success: true,
+      shipments: shipments.map((shipment) => ({
+        ...shipment,
+        labelledAt: shipment.labelledAt.toISOString(),
+        expectedSignedAt: shipment.expectedSignedAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    log.error('Failed to list unmanifested shipments', { error });
+    return NextResponse.json({ error: 'تعذر فحص الشحنات غير المدرجة في البيانات' }, { status: 500 });
+  }
+}
@@ -53,15 +53,16 @@ async function autoMarkAssignmentPickedUp(trackingNumber: string): Promise<AutoM
   const localShipment = await prisma.localShipment.findUnique({
     where: { trackingNumber },
     include: {
-      assignment: true,
+      assignments: { orderBy: { attemptNumber: 'desc' }, take: 1 },
     },
   });
 
-  if (!localShipment?.assignment) {
+  const assignment = localShipment?.assignments[0];
+  if (!localShipment || !assignment) {
     return { updated: false };
   }
 
-  if (localShipment.assignment.status !== 'assigned') {
+  if (assignment.status !== 'assigned') {
     return { updated: false };
   }
 
@@ -70,7 +71,7 @@ async function autoMarkAssignmentPickedUp(trackingNumber: string): Promise<AutoM
   const updated = await prisma.$transaction(async (tx) => {
     const assignmentUpdate = await tx.shipmentAssignment.updateMany({
       where: {
-        id: localShipment.assignment!.id,
+        id: assignment.id,
         status: 'assigned',
       },
       data: {
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { log } from '@/app/lib/logger';
+import { runTrackingRefresh } from '@/app/lib/tracking-refresh-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/**
+ * Scheduled bulk tracking refresh for Salla, manual, local and return
+ * shipments. Called by the Vercel cron entry in vercel.json, or by any
+ * external scheduler that can send the CRON_SECRET bearer token. Pass
+ * ?dryRun=1 to count new scans and transitions without writing them. A run
+ * that runs out of time returns complete: false and the next one resumes.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get('authorization');
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    log.warn('Unauthorized tracking refresh attempt');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const dryRun = ['1', 'true', 'yes'].includes(
+    (new URL(request.url).searchParams.get('dryRun') || '').toLowerCase()
+  );
+
+  try {
+    const result = await runTrackingRefresh({ dryRun });
+    log.info('Tracking refresh finished', { ...result });
+    return NextResponse.json({ success: true, timestamp: new Date().toISOString(), ...result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'UNKNOWN_ERROR';
+    log.error('Tracking refresh failed', { error: message });
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -66,3 +66,16 @@ export function hasWarehouseFeatureAccess(session: any): boolean {
   const roles = ((session.user as any)?.roles || []) as string[];
   return roles.includes('admin') || roles.includes('warehouse');
 }
+
+/**
+ * Warehouses whose data the session may act on, or null for all of them.
+ * Only warehouse-role users are scoped, matching the handover scanner.
+ */
+export async function resolveWarehouseScope(session: any): Promise<string[] | null> {
+  const role = (session?.user as any)?.role;
+  const roles = ((session?.user as any)?.roles || [role]) as string[];
+  if (!roles.includes('warehouse')) {
+    return null;
+  }
+  return resolveWarehouseIds(session);
+}
@@ -12,6 +12,7 @@ import { printCommercialInvoiceIfInternational } from '@/app/lib/international-p
 import { extractSallaTrackingNumber, extractTrackingFromShipment } from '@/app/lib/salla-shipment';
 import { maybeNotifyReturnLabelCreated } from '@/app/lib/returns/return-label-notification';
 import { enqueueCustomerJourneyEvent } from '@/app/lib/customer-journey-notifications';
+import { recordShipmentLines } from '@/app/lib/order-shipment-lines';
 
 export const runtime = 'nodejs';
 
@@ -249,6 +250,27 @@ export async function POST(request: NextRequest) {
         }
 
         if (!isReturnShipment) {
+          // Split orders ship in parts; each part gets its own shipped message.
+          let backOrderSequence: number | null = null;
+          try {
+            const linked = await recordShipmentLines({
+              merchantId,
+              orderId: resolvedOrderId,
+              orderNumber: referenceId || resolvedOrderId,
+              orderData: storedOrderSnapshot?.rawOrder,
+              carrier: 'smsa',
+              trackingNumber: trackingNumberValue,
+              sallaShipmentId: shipmentInfo.id?.toString() ?? null,
+            });
+            backOrderSequence = linked.part?.backOrderId ? linked.part.sequence : null;
+          } catch (linkError) {
+            log.error('Failed to link Salla shipment to order lines', {
+              orderId: resolvedOrderId,
+              trackingNumber: trackingNumberValue,
+              error: linkError,
+            });
+          }
+
           await enqueueCustomerJourneyEvent({
             event: eventType,
             merchantId,
@@ -262,6 +284,7 @@ export async function POST(request: NextRequest) {
             },
             data,
             status: 'shipped',
+            ...(backOrderSequence ? { dedupeDiscriminator: `backorder-${backOrderSequence}` } : {}),
           });
         }
       }
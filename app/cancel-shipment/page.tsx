@@ -11,6 +11,7 @@ import { Input } from '@/components/ui/input';
 
 export default function CancelShipmentPage() {
   const [trackingNumber, setTrackingNumber] = useState('');
+  const [carrier, setCarrier] = useState('smsa');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
@@ -29,6 +30,7 @@ export default function CancelShipmentPage() {
         },
         body: JSON.stringify({
           trackingNumber: trackingNumber.trim(),
+          carrier,
         }),
       });
 
@@ -64,6 +66,19 @@ export default function CancelShipmentPage() {
           <CardContent>
           <form onSubmit={handleCancel}>
             <FieldGroup>
+            <Field>
+              <FieldLabel htmlFor="carrier">شركة الشحن</FieldLabel>
+              <select
+                id="carrier"
+                value={carrier}
+                onChange={(e) => setCarrier(e.target.value)}
+                className="h-9 w-full rounded-md border bg-background px-3 text-sm"
+                disabled={loading}
+              >
+                <option value="smsa">سمسا</option>
+                <option value="aramex">أرامكس</option>
+              </select>
+            </Field>
             <Field>
               <FieldLabel htmlFor="trackingNumber">رقم تتبع الشحنة (AWB)</FieldLabel>
               <Input
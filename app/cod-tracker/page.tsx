@@ -29,6 +29,7 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Textarea } from '@/components/ui/textarea';
+import { CodCashUpPanel } from '@/components/local-shipping/CodCashUpPanel';
 
 interface CODCollection {
   id: string;
@@ -53,14 +54,15 @@ interface CODCollection {
     trackingNumber: string;
     customerName: string;
     shippingCity: string;
-    assignment?: {
+    // Latest delivery attempt only
+    assignments?: {
       deliveryAgent: {
         id: string;
         name: string;
         username: string;
         phone?: string;
       };
-    };
+    }[];
   };
 }
 
@@ -295,6 +297,14 @@ export default function CODTrackerPage() {
           </Card>
         </div>
 
+        {/* End-of-day cash-up */}
+        {(isWarehouse || isAccountant) && (
+          <Card className="p-6">
+            <h2 className="mb-4 text-xl font-semibold">تسليم النقدية اليومي</h2>
+            <CodCashUpPanel onClosed={fetchCollections} />
+          </Card>
+        )}
+
         {/* Filters */}
         <Card className="p-4">
           <Field className="max-w-xs gap-2">
@@ -344,7 +354,7 @@ export default function CODTrackerPage() {
                       <TableCell className="font-mono">{collection.shipment.orderNumber}</TableCell>
                       <TableCell>{collection.shipment.customerName}</TableCell>
                       <TableCell>
-                        {collection.shipment.assignment?.deliveryAgent.name || '-'}
+                        {collection.shipment.assignments?.[0]?.deliveryAgent.name || '-'}
                       </TableCell>
                       <TableCell className="font-semibold">
                         {formatCurrency(collection.collectionAmount)}
@@ -0,0 +1,284 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Field, FieldLabel } from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { NativeSelect, NativeSelectOption } from '@/components/ui/native-select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  DEFAULT_PAYOUT_THRESHOLD,
+  PAYOUT_BATCH_STATUS_LABELS,
+  PAYOUT_PAYMENT_METHOD_LABELS,
+  type PayoutBatchStatus,
+} from '@/app/lib/delivery-agent-payout-batch';
+
+interface PayoutBatch {
+  id: string;
+  batchNumber: string;
+  status: PayoutBatchStatus;
+  threshold: number;
+  totalAmount: number;
+  paymentMethod: string | null;
+  notes: string | null;
+  proposedByName: string | null;
+  approvedAt: string | null;
+  approvedByName: string | null;
+  cancelledByName: string | null;
+  createdAt: string;
+  lines: {
+    deliveryAgentId: string;
+    agentName: string;
+    agentUsername: string;
+    amount: number;
+  }[];
+}
+
+const STATUS_VARIANTS: Record<PayoutBatchStatus, 'default' | 'secondary' | 'outline'> = {
+  proposed: 'secondary',
+  approved: 'default',
+  cancelled: 'outline',
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('ar-SA', { style: 'currency', currency: 'SAR' }).format(value);
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('ar-SA-u-ca-gregory-nu-latn', { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Payout batches on the wallets page: propose paying everyone above a
+ * threshold, then an accountant approves (or anyone cancels) the proposal.
+ * Calls `onPaid` after an approval so the wallet balances reload.
+ */
+export default function PayoutBatchesPanel({ onPaid }: { onPaid: () => void }) {
+  const { data: session } = useSession();
+  const { toast } = useToast();
+  const user = session?.user as any;
+  const canApprove = Boolean(user?.roles?.includes('accountant') || user?.role === 'admin');
+
+  const [batches, setBatches] = useState<PayoutBatch[]>([]);
+  const [threshold, setThreshold] = useState(String(DEFAULT_PAYOUT_THRESHOLD));
+  const [paymentMethod, setPaymentMethod] = useState('bank_transfer');
+  const [notes, setNotes] = useState('');
+  const [proposing, setProposing] = useState(false);
+  const [actingId, setActingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const loadBatches = useCallback(async () => {
+    try {
+      const response = await fetch('/api/delivery-agent-wallets/payout-batches', { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر تحميل الدفعات الجماعية');
+      }
+      setBatches(Array.isArray(data.batches) ? data.batches : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'تعذر تحميل الدفعات الجماعية');
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadBatches();
+  }, [loadBatches]);
+
+  const handlePropose = async (event: FormEvent) => {
+    event.preventDefault();
+    setProposing(true);
+    setError('');
+    try {
+      const response = await fetch('/api/delivery-agent-wallets/payout-batches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ threshold, paymentMethod, notes }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر اقتراح الدفعة الجماعية');
+      }
+      setNotes('');
+      await loadBatches();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'تعذر اقتراح الدفعة الجماعية');
+    } finally {
+      setProposing(false);
+    }
+  };
+
+  const handleAction = async (batch: PayoutBatch, action: 'approve' | 'cancel') => {
+    const question =
+      action === 'approve'
+        ? `اعتماد الدفعة ${batch.batchNumber} وصرف ${formatCurrency(batch.totalAmount)} لـ ${batch.lines.length} مندوب؟`
+        : `إلغاء الدفعة ${batch.batchNumber}؟`;
+    if (!window.confirm(question)) return;
+
+    setActingId(batch.id);
+    setError('');
+    try {
+      const response = await fetch(`/api/delivery-agent-wallets/payout-batches/${batch.id}/${action}`, {
+        method: 'POST',
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر تحديث الدفعة الجماعية');
+      }
+      if (action === 'approve') {
+        toast({
+          title: 'تم اعتماد الدفعة',
+          description: `تم خصم ${formatCurrency(batch.totalAmount)} من محافظ ${batch.lines.length} مندوب`,
+        });
+        onPaid();
+      }
+      await loadBatches();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'تعذر تحديث الدفعة الجماعية');
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  return (
+    <Card className="rounded-lg mb-8">
+      <CardHeader>
+        <CardTitle>الدفعات الجماعية</CardTitle>
+        <CardDescription>
+          تقترح دفعة لكل مندوب بلغ رصيده الحد الأدنى، ولا يُخصم شيء من المحافظ حتى يعتمدها المحاسب.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handlePropose} className="flex flex-col gap-4 md:flex-row md:items-end">
+          <Field className="md:w-40">
+            <FieldLabel htmlFor="payout-batch-threshold">الحد الأدنى للرصيد</FieldLabel>
+            <Input
+              id="payout-batch-threshold"
+              type="number"
+              min={1}
+              step="0.01"
+              value={threshold}
+              onChange={(event) => setThreshold(event.target.value)}
+            />
+          </Field>
+          <Field className="md:w-44">
+            <FieldLabel htmlFor="payout-batch-method">طريقة الدفع</FieldLabel>
+            <NativeSelect
+              id="payout-batch-method"
+              value={paymentMethod}
+              onChange={(event) => setPaymentMethod(event.target.value)}
+            >
+              {Object.entries(PAYOUT_PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                <NativeSelectOption key={value} value={value}>
+                  {label}
+                </NativeSelectOption>
+              ))}
+            </NativeSelect>
+          </Field>
+          <Field className="md:flex-1">
+            <FieldLabel htmlFor="payout-batch-notes">ملاحظات (اختياري)</FieldLabel>
+            <Input
+              id="payout-batch-notes"
+              value={notes}
+              onChange={(event) => setNotes(event.target.value)}
+              placeholder="مثال: مستحقات الأسبوع الأول"
+            />
+          </Field>
+          <Button type="submit" disabled={proposing}>
+            {proposing ? 'جاري الاقتراح...' : 'اقتراح دفعة'}
+          </Button>
+        </form>
+
+        {batches.length === 0 ? (
+          <p className="text-sm text-muted-foreground">لا توجد دفعات جماعية بعد</p>
+        ) : (
+          <div className="space-y-4">
+            {batches.map((batch) => (
+              <div key={batch.id} className="rounded-lg border p-4 space-y-3">
+                <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                  <div className="space-y-1">
+                    <p className="font-semibold">
+                      <span className="font-mono">{batch.batchNumber}</span>{' '}
+                      <Badge variant={STATUS_VARIANTS[batch.status]}>{PAYOUT_BATCH_STATUS_LABELS[batch.status]}</Badge>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatCurrency(batch.totalAmount)} لـ {batch.lines.length} مندوب · الحد الأدنى{' '}
+                      {formatCurrency(batch.threshold)}
+                      {batch.paymentMethod ? ` · ${PAYOUT_PAYMENT_METHOD_LABELS[batch.paymentMethod] ?? batch.paymentMethod}` : ''}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      اقترحها {batch.proposedByName || '-'} في {formatDateTime(batch.createdAt)}
+                      {batch.approvedAt && ` · اعتمدها ${batch.approvedByName || '-'} في ${formatDateTime(batch.approvedAt)}`}
+                      {batch.status === 'cancelled' && ` · ألغاها ${batch.cancelledByName || '-'}`}
+                    </p>
+                    {batch.notes && <p className="text-xs">{batch.notes}</p>}
+                  </div>
+                  {batch.status === 'proposed' && (
+                    <div className="flex gap-2">
+                      {canApprove && (
+                        <Button
+                          size="sm"
+                          disabled={actingId === batch.id}
+                          onClick={() => handleAction(batch, 'approve')}
+                        >
+                          اعتماد وصرف
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={actingId === batch.id}
+                        onClick={() => handleAction(batch, 'cancel')}
+                      >
+                        إلغاء
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {batch.status === 'proposed' && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>المندوب</TableHead>
+                        <TableHead>المبلغ</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {batch.lines.map((line) => (
+                        <TableRow key={line.deliveryAgentId}>
+                          <TableCell>
+                            {line.agentName}
+                            <span className="text-xs text-muted-foreground"> ({line.agentUsername})</span>
+                          </TableCell>
+                          <TableCell>{formatCurrency(line.amount)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+                {batch.status === 'proposed' && !canApprove && (
+                  <p className="text-xs text-muted-foreground">بانتظار اعتماد المحاسب</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -18,6 +18,7 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { useToast } from '@/components/ui/use-toast';
+import PayoutBatchesPanel from './PayoutBatchesPanel';
 
 interface WalletStatsSnapshot {
   count: number;
@@ -61,6 +62,13 @@ interface WalletSummaryResponse {
 const formatCurrency = (value: number) =>
   new Intl.NumberFormat('ar-SA', { style: 'currency', currency: 'SAR' }).format(value);
 
+const previousMonth = () => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
 export default function DeliveryAgentWalletsPage() {
   const { toast } = useToast();
   const [wallets, setWallets] = useState<WalletSummary[]>([]);
@@ -75,6 +83,7 @@ export default function DeliveryAgentWalletsPage() {
   });
   const [submitting, setSubmitting] = useState(false);
   const [collectingAgentId, setCollectingAgentId] = useState<string | null>(null);
+  const [statementMonth, setStatementMonth] = useState(previousMonth);
 
   useEffect(() => {
     fetchWallets();
@@ -255,9 +264,23 @@ export default function DeliveryAgentWalletsPage() {
                 <CardTitle>قائمة المحافظ</CardTitle>
                 <CardDescription>رصيد كل مندوب مع تفاصيل الإنجاز والدفعات</CardDescription>
               </div>
-              <div className="text-right text-sm text-muted-foreground">
-                <p>عدد المناديب: {wallets.length}</p>
-                <p>صافي التزامات الإدارة: {formatCurrency(totalPositiveBalances)}</p>
+              <div className="flex flex-col gap-2 sm:items-end">
+                <div className="text-right text-sm text-muted-foreground">
+                  <p>عدد المناديب: {wallets.length}</p>
+                  <p>صافي التزامات الإدارة: {formatCurrency(totalPositiveBalances)}</p>
+                </div>
+                <Field orientation="horizontal" className="w-auto">
+                  <FieldLabel htmlFor="wallet-statement-month" className="whitespace-nowrap">
+                    شهر كشف الحساب
+                  </FieldLabel>
+                  <Input
+                    id="wallet-statement-month"
+                    type="month"
+                    className="w-40"
+                    value={statementMonth}
+                    onChange={(event) => setStatementMonth(event.target.value)}
+                  />
+                </Field>
               </div>
             </CardHeader>
             <CardContent>
@@ -332,6 +355,18 @@ export default function DeliveryAgentWalletsPage() {
                         {wallet.balance <= 0 && (
                           <p className="text-xs text-muted-foreground mt-1">لا يوجد رصيد موجب للتحصيل</p>
                         )}
+                        <div className="mt-2 flex gap-2 text-xs">
+                          <span className="text-muted-foreground">كشف الحساب:</span>
+                          {(['pdf', 'xlsx'] as const).map((format) => (
+                            <a
+                              key={format}
+                              className="text-blue-600 hover:underline"
+                              href={`/api/delivery-agent-wallets/${wallet.agent.id}/statement?month=${statementMonth}&format=${format}`}
+                            >
+                              {format === 'pdf' ? 'PDF' : 'Excel'}
+                            </a>
+                          ))}
+                        </div>
                       </TableCell>
                     </TableRow>
                   ))}
@@ -423,6 +458,8 @@ export default function DeliveryAgentWalletsPage() {
           </Card>
         </div>
 
+        <PayoutBatchesPanel onPaid={fetchWallets} />
+
         {loading && (
           <LoadingState label="جاري تحميل بيانات المحافظ..." />
         )}
@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+import { History, Loader2 } from 'lucide-react';
+import { EmptyState } from '@/components/dashboard/states';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Field, FieldLabel } from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  COMMISSION_EVENT_LABELS,
+  previousMonthRange,
+  type CommissionComparison,
+  type CommissionEventKind,
+} from '@/app/lib/delivery-commission';
+import { formToRuleBody, formatAmount, type CommissionRuleForm } from './rule-form';
+
+type BackCalculationResult = CommissionComparison & { from: string; to: string };
+
+const EVENT_KINDS = Object.keys(COMMISSION_EVENT_LABELS) as CommissionEventKind[];
+
+const monthInput = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+const differenceClass = (value: number) =>
+  value > 0 ? 'text-rose-600' : value < 0 ? 'text-emerald-600' : undefined;
+
+/**
+ * What agents were paid in a month under the rules of the time against what
+ * the rule being edited would have paid them, per agent.
+ */
+export default function BackCalculationPanel({ draft }: { draft: CommissionRuleForm }) {
+  const [month, setMonth] = useState(() => monthInput(previousMonthRange(new Date()).from));
+  const [result, setResult] = useState<BackCalculationResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/delivery-commissions/back-calculation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rule: formToRuleBody(draft), month }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر حساب أثر القاعدة');
+      }
+      setResult(data);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'تعذر حساب أثر القاعدة');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totals = result?.totals;
+
+  return (
+    <Card>
+      <CardContent className="space-y-5 p-6">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">أثر القاعدة على شهر سابق</h3>
+          <p className="text-sm text-gray-500">
+            يعيد احتساب تسليمات ومحاولات ومهام الشهر بالقاعدة في النموذج أعلاه ويقارنها بما استحقه كل مندوب
+            بالقواعد السارية وقتها. لا يغيّر أي رصيد.
+          </p>
+        </div>
+
+        <div className="flex flex-col gap-3 md:flex-row md:items-end">
+          <Field className="md:w-48">
+            <FieldLabel htmlFor="commission-back-month">الشهر</FieldLabel>
+            <Input id="commission-back-month" type="month" value={month} onChange={(e) => setMonth(e.target.value)} />
+          </Field>
+          <Button variant="outline" onClick={handleRun} disabled={loading}>
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <History className="h-4 w-4" />}
+            احسب الأثر
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {result && totals && (
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="rounded-lg border p-4">
+              <p className="text-sm text-gray-500">بالقواعد الحالية</p>
+              <p className="text-2xl font-bold text-gray-900">{formatAmount(totals.currentAmount)}</p>
+            </div>
+            <div className="rounded-lg border p-4">
+              <p className="text-sm text-gray-500">بالقاعدة المقترحة</p>
+              <p className="text-2xl font-bold text-gray-900">{formatAmount(totals.proposedAmount)}</p>
+            </div>
+            <div className="rounded-lg border p-4">
+              <p className="text-sm text-gray-500">الفرق</p>
+              <p className={`text-2xl font-bold ${differenceClass(totals.difference) ?? 'text-gray-900'}`}>
+                {formatAmount(totals.difference)}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {result && (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>المندوب</TableHead>
+                  {EVENT_KINDS.map((kind) => (
+                    <TableHead key={kind}>{COMMISSION_EVENT_LABELS[kind]}</TableHead>
+                  ))}
+                  <TableHead>الحالي</TableHead>
+                  <TableHead>المقترح</TableHead>
+                  <TableHead>الفرق</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.rows.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={EVENT_KINDS.length + 4}>
+                      <EmptyState title="لا توجد بيانات" description="لا توجد تسليمات أو مهام في هذا الشهر." />
+                    </TableCell>
+                  </TableRow>
+                )}
+                {result.rows.map((row) => (
+                  <TableRow key={row.agentId}>
+                    <TableCell className="font-medium">{row.agentName}</TableCell>
+                    {EVENT_KINDS.map((kind) => (
+                      <TableCell key={kind}>{row.counts[kind]}</TableCell>
+                    ))}
+                    <TableCell>{formatAmount(row.currentAmount)}</TableCell>
+                    <TableCell>{formatAmount(row.proposedAmount)}</TableCell>
+                    <TableCell className={differenceClass(row.difference)}>{formatAmount(row.difference)}</TableCell>
+                  </TableRow>
+                ))}
+                {totals && result.rows.length > 0 && (
+                  <TableRow className="font-semibold">
+                    <TableCell>الإجمالي</TableCell>
+                    {EVENT_KINDS.map((kind) => (
+                      <TableCell key={kind}>{totals.counts[kind]}</TableCell>
+                    ))}
+                    <TableCell>{formatAmount(totals.currentAmount)}</TableCell>
+                    <TableCell>{formatAmount(totals.proposedAmount)}</TableCell>
+                    <TableCell className={differenceClass(totals.difference)}>
+                      {formatAmount(totals.difference)}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
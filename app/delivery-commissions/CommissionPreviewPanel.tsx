@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { Calculator, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Field, FieldLabel } from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { NativeSelect, NativeSelectOption } from '@/components/ui/native-select';
+import {
+  COMMISSION_EVENT_LABELS,
+  COMMISSION_TASK_TYPE_LABELS,
+  type CommissionEventKind,
+  type CommissionQuote,
+} from '@/app/lib/delivery-commission';
+import { COMMISSION_TASK_TYPES, formToRuleBody, formatAmount, toDateInput, type CommissionRuleForm } from './rule-form';
+
+type PreviewSource = 'draft' | 'date';
+
+interface PreviewResult {
+  rule: { id: string | null; name: string };
+  quotes: Record<CommissionEventKind, CommissionQuote>;
+}
+
+/**
+ * Quotes a sample stop and task under the rule being edited, or under the
+ * rule in force on a date, so a rule can be checked before it is saved.
+ */
+export default function CommissionPreviewPanel({ draft }: { draft: CommissionRuleForm }) {
+  const [source, setSource] = useState<PreviewSource>('draft');
+  const [at, setAt] = useState(() => toDateInput(new Date().toISOString()));
+  const [city, setCity] = useState('');
+  const [district, setDistrict] = useState('');
+  const [isCod, setIsCod] = useState(false);
+  const [taskType, setTaskType] = useState('other');
+  const [result, setResult] = useState<PreviewResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePreview = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/delivery-commissions/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sample: { city, district, isCod, taskType },
+          ...(source === 'draft'
+            ? { rule: formToRuleBody(draft) }
+            : { at: at ? new Date(`${at}T12:00:00`).toISOString() : null }),
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر حساب العمولة');
+      }
+      setResult(data);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'تعذر حساب العمولة');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-5 p-6">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">معاينة العمولة</h3>
+          <p className="text-sm text-gray-500">
+            احسب ما يُضاف لمحفظة المندوب عن شحنة أو محاولة فاشلة أو مهمة دون تسجيل أي شيء.
+          </p>
+        </div>
+
+        <div className="grid gap-3 md:grid-cols-3">
+          <Field>
+            <FieldLabel htmlFor="commission-preview-source">القاعدة</FieldLabel>
+            <NativeSelect
+              id="commission-preview-source"
+              value={source}
+              onChange={(e) => setSource(e.target.value as PreviewSource)}
+            >
+              <NativeSelectOption value="draft">القاعدة في النموذج أعلاه</NativeSelectOption>
+              <NativeSelectOption value="date">القاعدة السارية في تاريخ</NativeSelectOption>
+            </NativeSelect>
+          </Field>
+          {source === 'date' && (
+            <Field>
+              <FieldLabel htmlFor="commission-preview-at">التاريخ</FieldLabel>
+              <Input id="commission-preview-at" type="date" value={at} onChange={(e) => setAt(e.target.value)} />
+            </Field>
+          )}
+        </div>
+
+        <div className="grid gap-3 md:grid-cols-4 md:items-end">
+          <Field>
+            <FieldLabel htmlFor="commission-preview-city">المدينة</FieldLabel>
+            <Input id="commission-preview-city" value={city} onChange={(e) => setCity(e.target.value)} />
+          </Field>
+          <Field>
+            <FieldLabel htmlFor="commission-preview-district">الحي</FieldLabel>
+            <Input id="commission-preview-district" value={district} onChange={(e) => setDistrict(e.target.value)} />
+          </Field>
+          <Field>
+            <FieldLabel htmlFor="commission-preview-task">نوع المهمة</FieldLabel>
+            <NativeSelect id="commission-preview-task" value={taskType} onChange={(e) => setTaskType(e.target.value)}>
+              {COMMISSION_TASK_TYPES.map((type) => (
+                <NativeSelectOption key={type} value={type}>
+                  {COMMISSION_TASK_TYPE_LABELS[type]}
+                </NativeSelectOption>
+              ))}
+            </NativeSelect>
+          </Field>
+          <label className="flex h-9 items-center gap-2 rounded-lg border px-3 text-sm">
+            <Checkbox checked={isCod} onCheckedChange={(checked) => setIsCod(checked === true)} />
+            <span>دفع عند الاستلام</span>
+          </label>
+        </div>
+
+        <Button variant="outline" onClick={handlePreview} disabled={loading}>
+          {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Calculator className="h-4 w-4" />}
+          احسب
+        </Button>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {result && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">القاعدة المستخدمة: {result.rule.name}</p>
+            <div className="grid gap-4 md:grid-cols-3">
+              {(Object.keys(COMMISSION_EVENT_LABELS) as CommissionEventKind[]).map((kind) => (
+                <div key={kind} className="rounded-lg border p-4">
+                  <p className="text-sm text-gray-500">{COMMISSION_EVENT_LABELS[kind]}</p>
+                  <p className="text-2xl font-bold text-gray-900">{formatAmount(result.quotes[kind].amount)}</p>
+                  <ul className="mt-2 space-y-1 text-xs text-gray-600">
+                    {result.quotes[kind].lines.map((line) => (
+                      <li key={line.label} className="flex justify-between gap-2">
+                        <span>{line.label}</span>
+                        <span>{formatAmount(line.amount)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
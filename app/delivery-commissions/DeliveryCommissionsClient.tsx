@@ -0,0 +1,382 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { Plus, Trash2 } from 'lucide-react';
+import { AppPageShell } from '@/components/dashboard/app-page-shell';
+import { LoadingState } from '@/components/dashboard/states';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Field, FieldLabel } from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { COMMISSION_TASK_TYPE_LABELS } from '@/app/lib/delivery-commission';
+import BackCalculationPanel from './BackCalculationPanel';
+import CommissionPreviewPanel from './CommissionPreviewPanel';
+import {
+  COMMISSION_TASK_TYPES,
+  emptyRuleForm,
+  formToRuleBody,
+  formatAmount,
+  ruleToForm,
+  type CommissionRuleForm,
+  type SerializedCommissionRule,
+} from './rule-form';
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('ar-SA-u-ca-gregory-nu-latn', { year: 'numeric', month: 'short', day: 'numeric' });
+
+function describeRange(rule: SerializedCommissionRule): string {
+  return rule.effectiveTo
+    ? `من ${formatDate(rule.effectiveFrom)} حتى ${formatDate(rule.effectiveTo)}`
+    : `من ${formatDate(rule.effectiveFrom)} وحتى الآن`;
+}
+
+function describeRates(rule: SerializedCommissionRule): string {
+  const parts = [
+    `التوصيل ${formatAmount(rule.baseShipmentRate)}`,
+    rule.codHandlingBonus > 0 && `بدل التحصيل ${formatAmount(rule.codHandlingBonus)}`,
+    rule.failedAttemptRate > 0 && `المحاولة الفاشلة ${formatAmount(rule.failedAttemptRate)}`,
+    `المهمة ${formatAmount(rule.defaultTaskRate)}`,
+    ...Object.entries(rule.taskTypeRates).map(
+      ([taskType, amount]) => `${COMMISSION_TASK_TYPE_LABELS[taskType] ?? taskType} ${formatAmount(amount)}`,
+    ),
+    rule.areaSurcharges.length > 0 && `${rule.areaSurcharges.length} بدل منطقة`,
+  ].filter(Boolean);
+  return parts.join(' · ');
+}
+
+const isCurrent = (rule: SerializedCommissionRule, now: number) =>
+  new Date(rule.effectiveFrom).getTime() <= now && (!rule.effectiveTo || new Date(rule.effectiveTo).getTime() > now);
+
+export default function DeliveryCommissionsClient() {
+  const { data: session, status } = useSession();
+  const [rules, setRules] = useState<SerializedCommissionRule[]>([]);
+  const [form, setForm] = useState<CommissionRuleForm>(emptyRuleForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/delivery-commissions/rules', { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر تحميل قواعد العمولة');
+      }
+      setRules(Array.isArray(data.rules) ? data.rules : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'تعذر تحميل قواعد العمولة');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      void loadRules();
+    }
+  }, [status, loadRules]);
+
+  const updateForm = (field: keyof CommissionRuleForm, value: string) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const updateTaskRate = (taskType: string, value: string) =>
+    setForm((prev) => ({ ...prev, taskTypeRates: { ...prev.taskTypeRates, [taskType]: value } }));
+
+  const updateSurcharge = (index: number, field: 'city' | 'district' | 'amount', value: string) =>
+    setForm((prev) => ({
+      ...prev,
+      areaSurcharges: prev.areaSurcharges.map((row, i) => (i === index ? { ...row, [field]: value } : row)),
+    }));
+
+  const addSurcharge = () =>
+    setForm((prev) => ({ ...prev, areaSurcharges: [...prev.areaSurcharges, { city: '', district: '', amount: '' }] }));
+
+  const removeSurcharge = (index: number) =>
+    setForm((prev) => ({ ...prev, areaSurcharges: prev.areaSurcharges.filter((_, i) => i !== index) }));
+
+  const resetForm = () => {
+    setForm(emptyRuleForm());
+    setEditingId(null);
+  };
+
+  const handleEdit = (rule: SerializedCommissionRule) => {
+    setForm(ruleToForm(rule));
+    setEditingId(rule.id);
+    setError(null);
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        editingId ? `/api/delivery-commissions/rules/${editingId}` : '/api/delivery-commissions/rules',
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(formToRuleBody(form)),
+        },
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر حفظ قاعدة العمولة');
+      }
+      resetForm();
+      await loadRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'تعذر حفظ قاعدة العمولة');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: SerializedCommissionRule) => {
+    if (!window.confirm(`حذف قاعدة العمولة "${rule.name}"؟ لن تتغير المبالغ المضافة سابقاً للمحافظ.`)) return;
+    setError(null);
+    const response = await fetch(`/api/delivery-commissions/rules/${rule.id}`, { method: 'DELETE' });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      setError(data.error || 'تعذر حذف قاعدة العمولة');
+      return;
+    }
+    if (editingId === rule.id) resetForm();
+    await loadRules();
+  };
+
+  if (status === 'loading') {
+    return (
+      <AppPageShell title="عمولات المناديب" subtitle="قواعد أجور التوصيل والمهام وأثرها على المحافظ">
+        <LoadingState label="جاري التحميل..." />
+      </AppPageShell>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md p-8 text-center">
+          <h1 className="text-2xl font-bold mb-4">عمولات المناديب</h1>
+          <Button onClick={() => (window.location.href = '/login')} className="w-full">
+            تسجيل الدخول
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  const now = Date.now();
+
+  return (
+    <AppPageShell title="عمولات المناديب" subtitle="قواعد أجور التوصيل والمهام وأثرها على المحافظ">
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="space-y-5 p-6">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">قواعد العمولة</h3>
+              <p className="text-sm text-gray-500">
+                تُحتسب كل شحنة أو محاولة أو مهمة بالقاعدة السارية وقت حدوثها. إن لم تغطِّ أي قاعدة التاريخ يُضاف
+                الأجر الثابت (30 ريال للشحنة والمهمة).
+              </p>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {rules.length === 0 ? (
+              <p className="text-sm text-gray-500">لا توجد قواعد بعد، ويُطبّق الأجر الثابت على كل التسليمات.</p>
+            ) : (
+              <ul className="divide-y rounded-lg border">
+                {rules.map((rule) => (
+                  <li key={rule.id} className="flex flex-col gap-2 p-3 md:flex-row md:items-center md:justify-between">
+                    <div className="space-y-1">
+                      <p className="font-semibold text-gray-900">
+                        {rule.name}{' '}
+                        {isCurrent(rule, now) && <Badge variant="default">سارية</Badge>}
+                      </p>
+                      <p className="text-xs text-gray-600">{describeRange(rule)}</p>
+                      <p className="text-xs text-gray-500">{describeRates(rule)}</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => handleEdit(rule)}>
+                        تعديل
+                      </Button>
+                      <Button size="sm" variant="outline" className="text-red-600" onClick={() => handleDelete(rule)}>
+                        حذف
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border border-dashed p-4">
+              <p className="text-sm font-semibold text-gray-800">
+                {editingId ? 'تعديل القاعدة' : 'قاعدة جديدة'}
+              </p>
+              <div className="grid gap-3 md:grid-cols-3">
+                <Field>
+                  <FieldLabel htmlFor="commission-name">اسم القاعدة</FieldLabel>
+                  <Input id="commission-name" value={form.name} onChange={(e) => updateForm('name', e.target.value)} />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="commission-from">تسري من</FieldLabel>
+                  <Input
+                    id="commission-from"
+                    type="date"
+                    value={form.effectiveFrom}
+                    onChange={(e) => updateForm('effectiveFrom', e.target.value)}
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="commission-to">حتى (اختياري، غير شامل)</FieldLabel>
+                  <Input
+                    id="commission-to"
+                    type="date"
+                    value={form.effectiveTo}
+                    onChange={(e) => updateForm('effectiveTo', e.target.value)}
+                  />
+                </Field>
+              </div>
+
+              <div className="grid gap-3 md:grid-cols-4">
+                <Field>
+                  <FieldLabel htmlFor="commission-base">أجر الشحنة المسلّمة</FieldLabel>
+                  <Input
+                    id="commission-base"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={form.baseShipmentRate}
+                    onChange={(e) => updateForm('baseShipmentRate', e.target.value)}
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="commission-cod">بدل التحصيل النقدي</FieldLabel>
+                  <Input
+                    id="commission-cod"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="0"
+                    value={form.codHandlingBonus}
+                    onChange={(e) => updateForm('codHandlingBonus', e.target.value)}
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="commission-failed">أجر المحاولة الفاشلة</FieldLabel>
+                  <Input
+                    id="commission-failed"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="0"
+                    value={form.failedAttemptRate}
+                    onChange={(e) => updateForm('failedAttemptRate', e.target.value)}
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="commission-task">أجر المهمة الافتراضي</FieldLabel>
+                  <Input
+                    id="commission-task"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={form.defaultTaskRate}
+                    onChange={(e) => updateForm('defaultTaskRate', e.target.value)}
+                  />
+                </Field>
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">أجر حسب نوع المهمة (يُترك فارغاً للأجر الافتراضي)</p>
+                <div className="grid gap-3 md:grid-cols-4">
+                  {COMMISSION_TASK_TYPES.map((taskType) => (
+                    <Input
+                      key={taskType}
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      placeholder={COMMISSION_TASK_TYPE_LABELS[taskType]}
+                      aria-label={COMMISSION_TASK_TYPE_LABELS[taskType]}
+                      value={form.taskTypeRates[taskType] ?? ''}
+                      onChange={(e) => updateTaskRate(taskType, e.target.value)}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-gray-700">
+                    بدلات المناطق (بدل الحي يُقدَّم على بدل المدينة)
+                  </p>
+                  <Button type="button" size="sm" variant="outline" onClick={addSurcharge}>
+                    <Plus className="h-4 w-4" />
+                    إضافة بدل
+                  </Button>
+                </div>
+                {form.areaSurcharges.map((row, index) => (
+                  <div key={index} className="grid gap-3 md:grid-cols-[1fr_1fr_10rem_auto]">
+                    <Input
+                      placeholder="المدينة"
+                      value={row.city}
+                      onChange={(e) => updateSurcharge(index, 'city', e.target.value)}
+                    />
+                    <Input
+                      placeholder="الحي (اختياري)"
+                      value={row.district}
+                      onChange={(e) => updateSurcharge(index, 'district', e.target.value)}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      placeholder="المبلغ"
+                      value={row.amount}
+                      onChange={(e) => updateSurcharge(index, 'amount', e.target.value)}
+                    />
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      className="text-red-600"
+                      aria-label="حذف البدل"
+                      onClick={() => removeSurcharge(index)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <Field>
+                <FieldLabel htmlFor="commission-notes">ملاحظات</FieldLabel>
+                <Textarea
+                  id="commission-notes"
+                  rows={2}
+                  value={form.notes}
+                  onChange={(e) => updateForm('notes', e.target.value)}
+                />
+              </Field>
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={saving}>
+                  {saving ? 'جاري الحفظ...' : editingId ? 'حفظ التعديل' : 'إضافة القاعدة'}
+                </Button>
+                {editingId && (
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    إلغاء
+                  </Button>
+                )}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <CommissionPreviewPanel draft={form} />
+        <BackCalculationPanel draft={form} />
+      </div>
+    </AppPageShell>
+  );
+}
@@ -0,0 +1,9 @@
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+export const fetchCache = 'force-no-store';
+
+import DeliveryCommissionsClient from './DeliveryCommissionsClient';
+
+export default function DeliveryCommissionsPage() {
+  return <DeliveryCommissionsClient />;
+}
@@ -0,0 +1,90 @@
+import { COMMISSION_TASK_TYPE_LABELS } from '@/app/lib/delivery-commission';
+
+export const COMMISSION_TASK_TYPES = Object.keys(COMMISSION_TASK_TYPE_LABELS);
+
+export type SurchargeRow = { city: string; district: string; amount: string };
+
+export type CommissionRuleForm = {
+  name: string;
+  effectiveFrom: string;
+  effectiveTo: string;
+  baseShipmentRate: string;
+  codHandlingBonus: string;
+  failedAttemptRate: string;
+  defaultTaskRate: string;
+  taskTypeRates: Record<string, string>;
+  areaSurcharges: SurchargeRow[];
+  notes: string;
+};
+
+export type SerializedCommissionRule = {
+  id: string;
+  name: string;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  baseShipmentRate: number;
+  codHandlingBonus: number;
+  failedAttemptRate: number;
+  defaultTaskRate: number;
+  taskTypeRates: Record<string, number>;
+  areaSurcharges: { city: string; district: string | null; amount: number }[];
+  notes: string | null;
+  createdByName: string | null;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** ISO timestamp to the `YYYY-MM-DD` of a date input, in the browser's time zone. */
+export const toDateInput = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Rules start and end at local midnight, not UTC midnight.
+const fromDateInput = (value: string) => (value ? new Date(`${value}T00:00:00`).toISOString() : null);
+
+export const emptyRuleForm = (): CommissionRuleForm => ({
+  name: '',
+  effectiveFrom: toDateInput(new Date().toISOString()),
+  effectiveTo: '',
+  baseShipmentRate: '30',
+  codHandlingBonus: '',
+  failedAttemptRate: '',
+  defaultTaskRate: '30',
+  taskTypeRates: {},
+  areaSurcharges: [],
+  notes: '',
+});
+
+export const ruleToForm = (rule: SerializedCommissionRule): CommissionRuleForm => ({
+  name: rule.name,
+  effectiveFrom: toDateInput(rule.effectiveFrom),
+  effectiveTo: toDateInput(rule.effectiveTo),
+  baseShipmentRate: String(rule.baseShipmentRate),
+  codHandlingBonus: String(rule.codHandlingBonus),
+  failedAttemptRate: String(rule.failedAttemptRate),
+  defaultTaskRate: String(rule.defaultTaskRate),
+  taskTypeRates: Object.fromEntries(
+    Object.entries(rule.taskTypeRates).map(([taskType, amount]) => [taskType, String(amount)]),
+  ),
+  areaSurcharges: rule.areaSurcharges.map((surcharge) => ({
+    city: surcharge.city,
+    district: surcharge.district ?? '',
+    amount: String(surcharge.amount),
+  })),
+  notes: rule.notes ?? '',
+});
+
+/** The request body `parseCommissionRuleInput` expects; blank surcharge rows are dropped. */
+export const formToRuleBody = (form: CommissionRuleForm) => ({
+  ...form,
+  effectiveFrom: fromDateInput(form.effectiveFrom),
+  effectiveTo: fromDateInput(form.effectiveTo),
+  areaSurcharges: form.areaSurcharges
+    .filter((row) => row.city.trim() || row.amount.trim())
+    .map((row) => ({ city: row.city, district: row.district || null, amount: row.amount })),
+});
+
+export const formatAmount = (value: number) =>
+  new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
@@ -0,0 +1,346 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Gauge, Loader2, TrendingUp } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import {
+  ITEM_COUNT_BANDS,
+  type MetricPercentiles,
+  type MetricsGranularity,
+  type PercentileMetric,
+  type PreparerPeriodFigures,
+  type PrepMetricsReport,
+} from '@/app/lib/order-prep-metrics';
+
+const granularityLabels: Record<MetricsGranularity, string> = {
+  day: 'يومي',
+  week: 'أسبوعي',
+  month: 'شهري',
+};
+
+type MetricConfig = {
+  key: PercentileMetric;
+  label: string;
+  format: (value: number) => string;
+  /** Whether a higher value is the better one (drives the colouring against the team). */
+  higherIsBetter: boolean;
+  color: string;
+};
+
+const formatRate = (value: number) => `${(value * 100).toFixed(1)}%`;
+const formatMinutes = (value: number) => `${Math.round(value)} د`;
+const formatPerHour = (value: number) => value.toFixed(1);
+
+const METRICS: MetricConfig[] = [
+  { key: 'ordersPerHour', label: 'طلب / ساعة', format: formatPerHour, higherIsBetter: true, color: '#0e7490' },
+  { key: 'medianPrepMinutes', label: 'وسيط وقت التحضير', format: formatMinutes, higherIsBetter: false, color: '#b45309' },
+  { key: 'shortageRate', label: 'نسبة بلاغات النقص', format: formatRate, higherIsBetter: false, color: '#be123c' },
+  { key: 'reopenRate', label: 'نسبة إعادة الفتح', format: formatRate, higherIsBetter: false, color: '#7c3aed' },
+  { key: 'escalationRate', label: 'نسبة التصعيد', format: formatRate, higherIsBetter: false, color: '#475569' },
+];
+
+function defaultGranularity(from: string, to: string): MetricsGranularity {
+  const days = (Date.parse(to) - Date.parse(from)) / 86_400_000 + 1;
+  if (days > 120) return 'month';
+  if (days > 31) return 'week';
+  return 'day';
+}
+
+function formatPeriod(period: string, granularity: MetricsGranularity) {
+  const date = new Date(`${period.length === 7 ? `${period}-01` : period}T12:00:00+03:00`);
+  return new Intl.DateTimeFormat('ar-SA-u-ca-gregory-nu-latn', {
+    timeZone: 'Asia/Riyadh',
+    ...(granularity === 'month' ? { month: 'short', year: 'numeric' } : { day: 'numeric', month: 'short' }),
+  }).format(date);
+}
+
+/** Green when in the team's best quartile, red when in its worst. */
+function standingClass(value: number | null, spread: MetricPercentiles | null, higherIsBetter: boolean) {
+  if (value === null || !spread || spread.p25 === spread.p75) return 'text-slate-700';
+  const good = higherIsBetter ? value >= spread.p75 : value <= spread.p25;
+  const poor = higherIsBetter ? value <= spread.p25 : value >= spread.p75;
+  if (good) return 'font-semibold text-emerald-700';
+  if (poor) return 'font-semibold text-rose-700';
+  return 'text-slate-700';
+}
+
+function TrendChart({
+  metric,
+  granularity,
+  team,
+  preparer,
+}: {
+  metric: MetricConfig;
+  granularity: MetricsGranularity;
+  team: PreparerPeriodFigures[];
+  preparer?: PreparerPeriodFigures[];
+}) {
+  const width = 320;
+  const height = 110;
+  const padding = 8;
+  const series = [team, ...(preparer ? [preparer] : [])].map((points) =>
+    points.map((point) => point[metric.key]),
+  );
+  const values = series.flat().filter((value): value is number => value !== null);
+  const max = Math.max(...values, 0) || 1;
+  const step = team.length > 1 ? (width - padding * 2) / (team.length - 1) : 0;
+  const toPath = (points: Array<number | null>) =>
+    points
+      .map((value, index) =>
+        value === null
+          ? null
+          : `${padding + index * step},${height - padding - (value / max) * (height - padding * 2)}`,
+      )
+      .filter(Boolean)
+      .join(' ');
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-3">
+      <div className="mb-2 flex items-center justify-between text-xs">
+        <span className="font-semibold text-slate-800">{metric.label}</span>
+        <span className="text-slate-400">الأعلى {metric.format(max)}</span>
+      </div>
+      {values.length === 0 ? (
+        <div className="flex h-[110px] items-center justify-center text-xs text-slate-400">لا توجد بيانات</div>
+      ) : (
+        <svg viewBox={`0 0 ${width} ${height}`} className="h-[110px] w-full" preserveAspectRatio="none">
+          <polyline
+            points={toPath(series[0])}
+            fill="none"
+            stroke={metric.color}
+            strokeWidth={2}
+            strokeLinejoin="round"
+            opacity={preparer ? 0.35 : 1}
+          />
+          {series[1] && (
+            <polyline points={toPath(series[1])} fill="none" stroke={metric.color} strokeWidth={2.5} strokeLinejoin="round" />
+          )}
+        </svg>
+      )}
+      <div className="mt-1 flex justify-between text-[10px] text-slate-400">
+        <span>{team[0] ? formatPeriod(team[0].period, granularity) : ''}</span>
+        <span>{team.length > 1 ? formatPeriod(team[team.length - 1].period, granularity) : ''}</span>
+      </div>
+    </div>
+  );
+}
+
+export function PrepMetricsPanel({
+  from,
+  to,
+  userId,
+}: {
+  from: string;
+  to: string;
+  userId: string;
+}) {
+  const [granularity, setGranularity] = useState<MetricsGranularity>(() => defaultGranularity(from, to));
+  const [report, setReport] = useState<PrepMetricsReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const query = new URLSearchParams({ from, to, granularity });
+        if (userId) query.set('userId', userId);
+        const response = await fetch(`/api/employee-performance/prep-metrics?${query.toString()}`, {
+          cache: 'no-store',
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'تعذر تحميل مؤشرات التحضير');
+        }
+        if (!cancelled) setReport(data.report as PrepMetricsReport);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'تعذر تحميل مؤشرات التحضير');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to, granularity, userId]);
+
+  const selected = userId ? report?.preparers.find((preparer) => preparer.userId === userId) : undefined;
+
+  return (
+    <Card className="overflow-hidden border-slate-200 shadow-md">
+      <CardHeader className="flex-row items-center justify-between gap-4 border-b border-slate-100 bg-slate-50/70">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="size-5 text-cyan-700" />
+            مؤشرات سرعة ودقة التحضير
+          </CardTitle>
+          <p className="mt-1 text-sm text-slate-500">
+            مقارنة كل محضّر بفريق التحضير خلال الفترة، مع اتجاه المؤشرات (تجميع {granularityLabels[granularity]}).
+          </p>
+        </div>
+        <div className="flex gap-1">
+          {(Object.keys(granularityLabels) as MetricsGranularity[]).map((option) => (
+            <Button
+              key={option}
+              size="xs"
+              variant={option === granularity ? 'default' : 'outline'}
+              onClick={() => setGranularity(option)}
+            >
+              {granularityLabels[option]}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5 p-4 md:p-5">
+        {error && (
+          <Alert className="border-rose-200 bg-rose-50 text-rose-900">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {loading && !report ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="size-8 animate-spin text-cyan-600" />
+          </div>
+        ) : report ? (
+          <>
+            <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-5">
+              {METRICS.map((metric) => {
+                const value = report.team.totals[metric.key];
+                const spread = report.team.percentiles[metric.key];
+                return (
+                  <div key={metric.key} className="rounded-xl border border-slate-200 bg-slate-50/60 p-3">
+                    <p className="text-xs text-slate-500">{metric.label} (الفريق)</p>
+                    <p className="mt-1 text-2xl font-bold text-slate-900">
+                      {value === null ? '—' : metric.format(value)}
+                    </p>
+                    {spread && (
+                      <p className="mt-1 text-[11px] text-slate-500">
+                        الربيع الأدنى {metric.format(spread.p25)} · الوسيط {metric.format(spread.p50)} · الربيع الأعلى{' '}
+                        {metric.format(spread.p75)} · P90 {metric.format(spread.p90)}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div>
+              <p className="mb-2 flex items-center gap-2 text-sm font-semibold text-slate-800">
+                <TrendingUp className="size-4" />
+                الاتجاه {selected ? `— ${selected.userName} مقابل الفريق` : 'للفريق'}
+              </p>
+              <div className="grid gap-3 md:grid-cols-2 xl:grid-cols-5">
+                {METRICS.map((metric) => (
+                  <TrendChart
+                    key={metric.key}
+                    metric={metric}
+                    granularity={granularity}
+                    team={report.team.trend}
+                    preparer={selected?.periods}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="overflow-x-auto rounded-xl border border-slate-200">
+              <Table className="min-w-[1080px]">
+                <TableHeader>
+                  <TableRow className="bg-slate-50/80">
+                    <TableHead>المحضّر</TableHead>
+                    <TableHead className="text-center">مكتملة</TableHead>
+                    <TableHead className="text-center">طلب / ساعة</TableHead>
+                    <TableHead className="text-center">وسيط الوقت</TableHead>
+                    {ITEM_COUNT_BANDS.map((band) => (
+                      <TableHead key={band} className="text-center text-xs">
+                        {band} قطع
+                      </TableHead>
+                    ))}
+                    <TableHead className="text-center">النقص</TableHead>
+                    <TableHead className="text-center">إعادة الفتح</TableHead>
+                    <TableHead className="text-center">التصعيد</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.preparers.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={10} className="py-10 text-center text-slate-500">
+                        لا توجد طلبات محضّرة خلال الفترة المختارة.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    report.preparers.map((preparer) => {
+                      const cell = (key: PercentileMetric, count?: number) => {
+                        const metric = METRICS.find((entry) => entry.key === key)!;
+                        const value = preparer.totals[key];
+                        return (
+                          <TableCell className="text-center">
+                            <div
+                              className={standingClass(value, report.team.percentiles[key], metric.higherIsBetter)}
+                            >
+                              {value === null ? '—' : metric.format(value)}
+                            </div>
+                            {count !== undefined && (
+                              <div className="text-[11px] text-slate-400">{count.toLocaleString('en-US')}</div>
+                            )}
+                          </TableCell>
+                        );
+                      };
+                      return (
+                        <TableRow key={preparer.userId}>
+                          <TableCell className="font-semibold text-slate-900">
+                            {preparer.userName}
+                            {preparer.totals.completed === 0 && (
+                              <Badge variant="outline" className="mr-2">
+                                بدون طلبات مكتملة
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-center font-semibold">
+                            {preparer.totals.completed.toLocaleString('en-US')}
+                          </TableCell>
+                          {cell('ordersPerHour')}
+                          {cell('medianPrepMinutes')}
+                          {ITEM_COUNT_BANDS.map((band) => {
+                            const value = preparer.totals.medianPrepMinutesByItems[band];
+                            return (
+                              <TableCell key={band} className="text-center text-xs text-slate-600">
+                                {value === null ? '—' : formatMinutes(value)}
+                              </TableCell>
+                            );
+                          })}
+                          {cell('shortageRate', preparer.totals.shortageOrders)}
+                          {cell('reopenRate', preparer.totals.reopens)}
+                          {cell('escalationRate', preparer.totals.escalatedOrders)}
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+            <p className={cn('text-xs text-slate-500', loading && 'opacity-60')}>
+              الطلب/ساعة محسوب على ساعات العمل الفعلية (من أول بدء إلى آخر إنهاء في كل يوم). النقص والتصعيد نسبة من
+              الطلبات التي تعامل معها المحضّر، وإعادة الفتح نسبة من طلباته المكتملة. الأخضر ضمن أفضل ربع في الفريق
+              والأحمر ضمن أضعف ربع.
+            </p>
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
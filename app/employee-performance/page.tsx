@@ -30,6 +30,7 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { prisma } from '@/lib/prisma';
+import { PrepMetricsPanel } from './PrepMetricsPanel';
 import { RecognitionQuickAction } from './RecognitionQuickAction';
 
 export const dynamic = 'force-dynamic';
@@ -689,6 +690,10 @@ export default async function EmployeePerformancePage({
         </CardContent>
       </Card>
 
+      {(activity === 'all' || activity === 'prep') && (
+        <PrepMetricsPanel from={range.fromInput} to={range.toInput} userId={selectedUserId} />
+      )}
+
       <Card className="border-slate-200 bg-slate-50/70 shadow-none">
         <CardContent className="grid gap-4 p-5 text-sm text-slate-600 md:grid-cols-3">
           <div className="flex gap-3">
@@ -0,0 +1,178 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  describeCarrierOverride,
+  normalizeCityName,
+  priceRateCard,
+  quoteCarriers,
+  rankQuotes,
+  selectCarrier,
+  type CarrierRateCardLike,
+  type CarrierSelectionRuleLike,
+  type RateShipmentFacts,
+} from '../carrier-rates';
+
+const card = (overrides: Partial<CarrierRateCardLike>): CarrierRateCardLike => ({
+  id: 'card',
+  carrier: 'smsa',
+  name: 'عام',
+  isActive: true,
+  destination: 'domestic',
+  countries: [],
+  cities: [],
+  currency: 'SAR',
+  baseFee: 20,
+  baseWeightKg: 1,
+  extraKgFee: 0,
+  codFee: 0,
+  codFeePercent: 0,
+  valueFeePercent: 0,
+  maxWeightKg: null,
+  maxCodAmount: null,
+  estimatedDaysMin: 2,
+  estimatedDaysMax: 3,
+  ...overrides,
+});
+
+const facts = (overrides: Partial<RateShipmentFacts> = {}): RateShipmentFacts => ({
+  orderId: '1001',
+  country: 'SA',
+  isInternational: false,
+  city: 'الرياض',
+  weightKg: 1,
+  isCod: false,
+  codAmount: null,
+  declaredValue: 300,
+  ...overrides,
+});
+
+const cards = [
+  card({ id: 'smsa', carrier: 'smsa', baseFee: 22, estimatedDaysMin: 1, estimatedDaysMax: 2 }),
+  card({ id: 'aramex', carrier: 'aramex', baseFee: 18, estimatedDaysMin: 2, estimatedDaysMax: 4 }),
+  card({ id: 'messenger', carrier: 'messenger', baseFee: 15, estimatedDaysMin: 1, estimatedDaysMax: 1 }),
+];
+
+const messengerRiyadhOnly: CarrierSelectionRuleLike = {
+  id: 'rule-1',
+  name: 'المندوب داخل الرياض فقط',
+  position: 0,
+  isActive: true,
+  carriers: ['messenger'],
+  effect: 'only_when',
+  destination: null,
+  countries: [],
+  cities: ['Riyadh'],
+  paymentType: null,
+  minWeightKg: null,
+  maxWeightKg: null,
+};
+
+test('priceRateCard charges started extra kilograms, COD and insurance', () => {
+  const quote = priceRateCard(
+    card({ baseFee: 20, baseWeightKg: 1, extraKgFee: 5, codFee: 5, codFeePercent: 1, valueFeePercent: 0.5 }),
+    facts({ weightKg: 2.2, isCod: true, codAmount: 400, declaredValue: 400 }),
+  );
+  assert.deepEqual(quote.breakdown, { base: 20, weight: 10, cod: 9, insurance: 2 });
+  assert.equal(quote.total, 41);
+});
+
+test('quoteCarriers prefers a city card over a cheaper general card and reports limits', () => {
+  const { quotes, unavailable } = quoteCarriers(
+    [
+      card({ id: 'general', carrier: 'smsa', baseFee: 15 }),
+      card({ id: 'riyadh', carrier: 'smsa', baseFee: 19, cities: ['riyadh'] }),
+      card({ id: 'aramex-light', carrier: 'aramex', maxWeightKg: 2 }),
+    ],
+    facts({ weightKg: 3 }),
+  );
+  assert.equal(quotes.length, 1);
+  assert.equal(quotes[0].rateCardId, 'riyadh');
+  assert.match(unavailable.find((entry) => entry.carrier === 'aramex')?.reason ?? '', /يتجاوز/);
+  assert.equal(unavailable.find((entry) => entry.carrier === 'messenger')?.reason, 'لا توجد بطاقة أسعار');
+});
+
+test('selectCarrier never uses the messenger outside Riyadh and explains why', () => {
+  const inRiyadh = selectCarrier({ cards, rules: [messengerRiyadhOnly], facts: facts(), strategy: 'cheapest' });
+  assert.equal(inRiyadh.carrier, 'messenger');
+  assert.deepEqual(
+    inRiyadh.quotes.map((quote) => quote.carrier),
+    ['messenger', 'aramex', 'smsa'],
+  );
+
+  const inJeddah = selectCarrier({
+    cards,
+    rules: [messengerRiyadhOnly],
+    facts: facts({ city: 'جدة' }),
+    strategy: 'cheapest',
+  });
+  assert.equal(inJeddah.carrier, 'aramex');
+  assert.ok(inJeddah.excluded.some((entry) => entry.carrier === 'messenger'));
+  assert.match(inJeddah.explanation, /الأرخص/);
+  assert.match(inJeddah.explanation, /المندوب داخل الرياض فقط/);
+});
+
+test('selectCarrier ranks by delivery days when the strategy is fastest', () => {
+  const decision = selectCarrier({
+    cards,
+    rules: [messengerRiyadhOnly],
+    facts: facts({ city: 'Dammam' }),
+    strategy: 'fastest',
+  });
+  assert.equal(decision.carrier, 'smsa');
+  assert.match(decision.explanation, /الأسرع/);
+});
+
+test('normalizeCityName reads city spellings through the Saudi address directory', () => {
+  assert.equal(normalizeCityName('الرياض'), normalizeCityName('Riyadh'));
+  assert.equal(normalizeCityName('جده'), normalizeCityName('Jeddah'));
+  assert.equal(normalizeCityName('Al Khobar'), normalizeCityName('الخبر'));
+  assert.equal(normalizeCityName(' Kuwait City '), 'kuwait city');
+});
+
+test('selectCarrier only compares quotes priced in riyals', () => {
+  const decision = selectCarrier({
+    cards: [...cards.slice(0, 2), card({ id: 'messenger-usd', carrier: 'messenger', currency: 'USD', baseFee: 5 })],
+    rules: [],
+    facts: facts(),
+    strategy: 'cheapest',
+  });
+  assert.equal(decision.carrier, 'aramex');
+  assert.deepEqual(
+    decision.quotes.map((quote) => quote.carrier),
+    ['aramex', 'smsa'],
+  );
+  const usd = decision.excluded.find((entry) => entry.carrier === 'messenger');
+  assert.match(usd?.reason ?? '', /USD/);
+
+  const quotes = quoteCarriers([card({ currency: 'usd' })], facts()).quotes;
+  assert.deepEqual(rankQuotes(quotes, 'cheapest'), []);
+});
+
+test('selectCarrier skips inactive rules and ignores never_when rules that do not match', () => {
+  const decision = selectCarrier({
+    cards,
+    rules: [
+      { ...messengerRiyadhOnly, isActive: false },
+      { ...messengerRiyadhOnly, id: 'rule-2', name: 'لا مندوب للدفع عند الاستلام', effect: 'never_when', cities: [], paymentType: 'cod' },
+    ],
+    facts: facts({ city: 'Jeddah' }),
+    strategy: 'cheapest',
+  });
+  assert.equal(decision.carrier, 'messenger');
+  assert.equal(decision.evaluations[0].skippedReason, 'القاعدة غير مفعلة');
+  assert.deepEqual(decision.evaluations[1].excludedCarriers, []);
+});
+
+test('describeCarrierOverride records a manual choice against the recommendation', () => {
+  const decision = selectCarrier({
+    cards,
+    rules: [messengerRiyadhOnly],
+    facts: facts({ city: 'Jeddah' }),
+    strategy: 'cheapest',
+  });
+  assert.equal(describeCarrierOverride(decision, 'aramex'), decision.explanation);
+  const reason = describeCarrierOverride(decision, 'messenger', 'طلب العميل');
+  assert.match(reason, /بدلاً من التوصية \(أرامكس\)/);
+  assert.match(reason, /رغم أنها مستبعدة/);
+  assert.match(reason, /السبب: طلب العميل/);
+});
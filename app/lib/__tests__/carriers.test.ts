@@ -0,0 +1,154 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { createAramexCarrier } from '../carriers/aramex';
+import { createFakeAramexApi, createFakeSmsaApi } from '../carriers/fakes';
+import { resolveCarrierCode } from '../carriers';
+import { createSmsaCarrier } from '../carriers/smsa';
+import type { CarrierAddress, CarrierShipmentRequest } from '../carriers/types';
+
+const warehouse: CarrierAddress = {
+  name: 'مليحة',
+  phone: '0500000000',
+  line1: 'طريق الملك فهد',
+  city: 'Riyadh',
+  country: 'SA',
+};
+
+const customer: CarrierAddress = {
+  name: 'Sara',
+  phone: '0555555555',
+  line1: 'حي النرجس',
+  city: 'Jeddah',
+  country: 'SA',
+  shortCode: 'JEDA1234',
+};
+
+const request: CarrierShipmentRequest = {
+  reference: '277740122',
+  declaredValue: 350,
+  currency: 'SAR',
+  parcels: 1,
+  weightKg: 1.5,
+  contentDescription: 'Clothes',
+  codAmount: 350,
+  consignee: customer,
+  shipper: warehouse,
+};
+
+test('SMSA adapter creates, labels and tracks an outbound shipment', async () => {
+  const fake = createFakeSmsaApi();
+  const carrier = createSmsaCarrier(fake.transport);
+
+  const created = await carrier.createShipment(request);
+  assert.ok(created.success);
+  const { trackingNumber, carrierReference, label } = created.shipment;
+  assert.match(carrierReference ?? '', /^SAWB/);
+  assert.equal(label?.format, 'pdf');
+  assert.equal(fake.shipments.get(trackingNumber)?.request.ConsigneeAddress.ShortCode, 'JEDA1234');
+
+  assert.ok((await carrier.label(trackingNumber))?.base64);
+
+  fake.addScan(trackingNumber, {
+    ScanType: 'DL',
+    ScanDescription: 'Delivered',
+    ScanDateTime: new Date(Date.now() + 60_000).toISOString(),
+    City: 'Jeddah',
+    ReceivedBy: 'Sara',
+  });
+  const trackings = await carrier.track([trackingNumber, '000000000000']);
+  const tracking = trackings.get(trackingNumber);
+  assert.equal(tracking?.delivered, true);
+  assert.equal(tracking?.events[0].code, 'DL');
+  assert.equal(tracking?.events[0].receivedBy, 'Sara');
+  assert.equal(trackings.has('000000000000'), false);
+});
+
+test('SMSA adapter cancels only before pickup and only for the matching kind', async () => {
+  const fake = createFakeSmsaApi();
+  const carrier = createSmsaCarrier(fake.transport);
+
+  const first = await carrier.createShipment(request);
+  assert.ok(first.success);
+  const wrongKind = await carrier.cancel(first.shipment.trackingNumber, { kind: 'return' });
+  assert.equal(wrongKind.success, false);
+  const cancelled = await carrier.cancel(first.shipment.trackingNumber);
+  assert.ok(cancelled.success);
+  assert.equal(fake.shipments.get(first.shipment.trackingNumber)?.cancelled, true);
+
+  const second = await carrier.createShipment(request);
+  assert.ok(second.success);
+  fake.addScan(second.shipment.trackingNumber, { ScanType: 'PU', ScanDescription: 'Picked Up' });
+  const late = await carrier.cancel(second.shipment.trackingNumber);
+  assert.equal(late.success, false);
+});
+
+test('SMSA adapter creates returns as C2B shipments from the customer', async () => {
+  const fake = createFakeSmsaApi();
+  const carrier = createSmsaCarrier(fake.transport);
+
+  const created = await carrier.createReturn({ ...request, codAmount: null, pickup: customer, returnTo: warehouse });
+  assert.ok(created.success);
+  const stored = fake.shipments.get(created.shipment.trackingNumber);
+  assert.equal(stored?.kind, 'c2b');
+  assert.equal(stored?.request.PickupAddress.City, 'Jeddah');
+  assert.ok((await carrier.cancel(created.shipment.trackingNumber, { kind: 'return' })).success);
+});
+
+test('SMSA adapter reports API failures instead of throwing', async () => {
+  const carrier = createSmsaCarrier(createFakeSmsaApi({ apiKey: 'other' }).transport);
+  const wrongKey = createSmsaCarrier({ ...createFakeSmsaApi().transport, apiKey: 'wrong' });
+
+  const incomplete = await carrier.createShipment({ ...request, consignee: { ...customer, city: '' } });
+  assert.equal(incomplete.success, false);
+  assert.equal((await wrongKey.createShipment(request)).success, false);
+});
+
+test('Aramex adapter creates, labels and tracks a COD shipment', async () => {
+  const fake = createFakeAramexApi();
+  const carrier = createAramexCarrier(fake.transport);
+
+  const created = await carrier.createShipment(request);
+  assert.ok(created.success);
+  const { trackingNumber } = created.shipment;
+  assert.match(trackingNumber, /^5\d{10}$/);
+  const stored = fake.shipments.get(trackingNumber)?.request;
+  assert.equal(stored?.Details.Services, 'CODS');
+  assert.equal(stored?.Details.CashOnDeliveryAmount.Value, 350);
+  assert.equal(created.shipment.label?.format, 'pdf');
+
+  assert.ok((await carrier.label(trackingNumber))?.base64);
+
+  fake.addUpdate(trackingNumber, {
+    WaybillNumber: trackingNumber,
+    UpdateCode: 'SH005',
+    UpdateDescription: 'Delivered',
+    UpdateDateTime: `/Date(${Date.now() + 60_000}+0300)/`,
+    UpdateLocation: 'Jeddah',
+  });
+  const tracking = (await carrier.track([trackingNumber])).get(trackingNumber);
+  assert.equal(tracking?.delivered, true);
+  assert.equal(tracking?.events[0].code, 'SH005');
+  assert.equal(tracking?.events.length, 2);
+});
+
+test('Aramex adapter books returns on our account and refuses API cancellation', async () => {
+  const fake = createFakeAramexApi();
+  const carrier = createAramexCarrier(fake.transport);
+
+  const created = await carrier.createReturn({ ...request, codAmount: null, pickup: customer, returnTo: warehouse });
+  assert.ok(created.success);
+  const stored = fake.shipments.get(created.shipment.trackingNumber)?.request;
+  assert.equal(stored?.Shipper.PartyAddress.City, 'Jeddah');
+  assert.equal(stored?.Details.PaymentType, 'C');
+
+  const cancelled = await carrier.cancel(created.shipment.trackingNumber);
+  assert.equal(cancelled.success, false);
+  assert.equal(cancelled.success === false && cancelled.errorCode, 'NOT_SUPPORTED');
+});
+
+test('resolveCarrierCode prefers the stored carrier, then the number format, then SMSA', () => {
+  assert.equal(resolveCarrierCode('aramex', '233011127922'), 'aramex');
+  assert.equal(resolveCarrierCode(undefined, '233011127922'), 'smsa');
+  assert.equal(resolveCarrierCode('dhl'), 'smsa');
+  assert.equal(resolveCarrierCode(null), 'smsa');
+});
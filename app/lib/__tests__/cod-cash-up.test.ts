@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  CodCashUpError,
+  buildCashUpNumber,
+  countedHalalas,
+  expectedCashUpAmount,
+  parseCashUpClose,
+  parseDenominationCounts,
+  summarizeCashUp,
+} from '../cod-cash-up';
+
+const SIGNATURE = 'data:image/png;base64,iVBORw0KGgo=';
+
+test('buildCashUpNumber is dated, ASCII-only and sequenced per messenger', () => {
+  assert.equal(buildCashUpNumber('ahmed.k', new Date(2026, 9, 18, 21, 5), 2), 'CU-20261018-AHMEDK-02');
+  assert.equal(buildCashUpNumber('مندوب', new Date(2026, 0, 3), 1), 'CU-20260103-AGENT-01');
+});
+
+test('parseDenominationCounts keeps whole positive counts and rejects the rest', () => {
+  assert.deepEqual(parseDenominationCounts({ '100': 3, '0.5': '2', '50': 0, '10': '' }), { '100': 3, '0.5': 2 });
+  assert.deepEqual(parseDenominationCounts(undefined), {});
+  assert.throws(() => parseDenominationCounts({ '1000': 1 }), CodCashUpError);
+  assert.throws(() => parseDenominationCounts({ '100': 1.5 }), CodCashUpError);
+  assert.throws(() => parseDenominationCounts({ '100': -1 }), CodCashUpError);
+  assert.throws(() => parseDenominationCounts([1, 2]), CodCashUpError);
+});
+
+test('counts are totalled in halalas so coins do not drift', () => {
+  assert.equal(countedHalalas({ '0.1': 3, '0.05': 1, '0.25': 4 }), 135);
+  assert.equal(expectedCashUpAmount([
+    { collectedAmount: 10.1, collectionAmount: 10.1 },
+    { collectedAmount: null, collectionAmount: 20.2 },
+  ]), 30.3);
+});
+
+test('summarizeCashUp reports shortages as a negative variance', () => {
+  assert.deepEqual(summarizeCashUp(450, { '200': 2, '50': 1 }), {
+    expectedAmount: 450,
+    countedAmount: 450,
+    varianceAmount: 0,
+    outcome: 'balanced',
+  });
+  const short = summarizeCashUp(455.5, { '200': 2, '50': 1 });
+  assert.equal(short.outcome, 'short');
+  assert.equal(short.varianceAmount, -5.5);
+  assert.equal(summarizeCashUp(100, { '100': 1, '1': 2 }).outcome, 'over');
+});
+
+test('parseCashUpClose requires a deposit reference and the messenger signature', () => {
+  const input = parseCashUpClose({
+    counts: { '100': 2 },
+    depositReference: '  DEP-7781 ',
+    signatureDataUrl: SIGNATURE,
+    varianceNote: ' ',
+  });
+  assert.equal(input.depositReference, 'DEP-7781');
+  assert.equal(input.depositMethod, 'cash');
+  assert.equal(input.varianceResolution, 'wallet_adjustment');
+  assert.equal(input.varianceNote, null);
+
+  assert.throws(() => parseCashUpClose({ signatureDataUrl: SIGNATURE }), /مرجع الإيداع/);
+  assert.throws(() => parseCashUpClose({ depositReference: 'X' }), /توقيع/);
+  assert.throws(
+    () => parseCashUpClose({ depositReference: 'X', signatureDataUrl: SIGNATURE, depositMethod: 'cheque' }),
+    /طريقة الإيداع/,
+  );
+});
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  CodReconciliationError,
+  ageingBucket,
+  buildCodClaimRows,
+  parseReconciliationQuery,
+  reconcileCarrierCod,
+  remittedCodAmount,
+  type CarrierCodRemittance,
+  type ExpectedCarrierCod,
+} from '../cod-reconciliation';
+
+const AS_OF = new Date('2026-10-18T12:00:00Z');
+const daysAgo = (days: number) => new Date(AS_OF.getTime() - days * 86_400_000);
+
+const expected = (awbNumber: string, codAmount: number, deliveredDaysAgo: number): ExpectedCarrierCod => ({
+  awbNumber,
+  sourceType: 'salla',
+  sourceId: `shipment-${awbNumber}`,
+  orderNumber: `ORD-${awbNumber}`,
+  codAmount,
+  deliveredAt: daysAgo(deliveredDaysAgo),
+});
+
+const remittance = (id: string, awbNumber: string, amount: number, settledDaysAgo = 2): CarrierCodRemittance => ({
+  id,
+  awbNumber,
+  amount,
+  settlementDate: daysAgo(settledDaysAgo),
+  uploadId: 'upload-1',
+});
+
+test('remittedCodAmount reads the COD column whatever its casing and ignores files without one', () => {
+  assert.equal(remittedCodAmount({ AWB: '2900', 'COD Amount ': '1,250.50' }), 1250.5);
+  assert.equal(remittedCodAmount({ AWB: '2900', cod: '' }), 0);
+  assert.equal(remittedCodAmount({ AWB: '2900', 'Total Amount': 30 }), null);
+  assert.equal(remittedCodAmount(null), null);
+});
+
+test('reconcileCarrierCod classifies each AWB against its remittances', () => {
+  const report = reconcileCarrierCod(
+    [
+      expected('AWB1', 300, 10),
+      expected('AWB2', 200.1, 20),
+      expected('AWB3', 150, 40),
+      expected('AWB4', 100, 3),
+      expected('AWB5', 90, 12),
+      expected('AWB6', 80, 5),
+    ],
+    [
+      remittance('r1', 'awb1', 300),
+      remittance('r2', 'AWB2', 150.1),
+      remittance('r5a', 'AWB5', 90),
+      remittance('r5b', 'AWB5', 90, 1),
+      remittance('r6', 'AWB6', 95),
+      remittance('r6-fee', 'AWB6', 0),
+      remittance('r7', 'AWB7', 40),
+      remittance('r8', 'AWB8', 0),
+    ],
+    { asOf: AS_OF, graceDays: 7 },
+  );
+
+  const byAwb = new Map(report.lines.map((line) => [line.awbNumber, line]));
+  assert.equal(byAwb.get('AWB1')?.status, 'matched');
+  assert.equal(byAwb.get('AWB2')?.status, 'short');
+  assert.equal(byAwb.get('AWB2')?.varianceAmount, -50);
+  assert.equal(byAwb.get('AWB3')?.status, 'missing');
+  assert.equal(byAwb.get('AWB3')?.ageingBucket, '31-60');
+  assert.equal(byAwb.get('AWB4')?.status, 'pending');
+  assert.equal(byAwb.get('AWB5')?.status, 'duplicate');
+  assert.deepEqual(byAwb.get('AWB5')?.remittanceIds, ['r5a', 'r5b']);
+  assert.equal(byAwb.get('AWB6')?.status, 'over');
+  assert.equal(byAwb.get('AWB6')?.remittanceCount, 1);
+  assert.equal(byAwb.get('AWB7')?.status, 'over');
+  assert.equal(byAwb.get('AWB7')?.sourceType, null);
+  assert.equal(byAwb.has('AWB8'), false);
+
+  assert.equal(report.lines[0].awbNumber, 'AWB3');
+  assert.equal(report.summary.claimAmount, 200);
+  assert.equal(report.summary.overRemittedAmount, 145);
+  assert.deepEqual(report.summary.ageing['15-30'], { count: 1, amount: 50 });
+  assert.deepEqual(report.summary.ageing['31-60'], { count: 1, amount: 150 });
+  assert.equal(report.summary.statusCounts.pending, 1);
+});
+
+test('buildCodClaimRows separates claims from over-remitted AWBs', () => {
+  const report = reconcileCarrierCod(
+    [expected('AWB1', 100, 20), expected('AWB2', 50, 20)],
+    [remittance('r1', 'AWB1', 60), remittance('r2', 'AWB2', 70)],
+    { asOf: AS_OF },
+  );
+  const { claims, credits } = buildCodClaimRows(report);
+  assert.equal(claims.length, 1);
+  assert.equal(claims[0].AWB, 'AWB1');
+  assert.equal(claims[0].Difference, 40);
+  assert.equal(claims[0].Issue, 'Short remitted');
+  assert.equal(credits.length, 1);
+  assert.equal(credits[0].Difference, -20);
+});
+
+test('ageing buckets and query parsing', () => {
+  assert.equal(ageingBucket(0), '0-7');
+  assert.equal(ageingBucket(14), '8-14');
+  assert.equal(ageingBucket(61), '60+');
+  assert.deepEqual(parseReconciliationQuery(new URLSearchParams()), { days: 90, graceDays: 7 });
+  assert.deepEqual(parseReconciliationQuery(new URLSearchParams('days=30&graceDays=0')), { days: 30, graceDays: 0 });
+  assert.throws(() => parseReconciliationQuery(new URLSearchParams('days=0')), CodReconciliationError);
+  assert.throws(() => parseReconciliationQuery(new URLSearchParams('graceDays=abc')), CodReconciliationError);
+});
@@ -4,6 +4,7 @@ import { PDFDocument } from 'pdf-lib';
 
 import {
   buildJourneyNotificationData,
+  buildJourneySmsText,
   extractJourneyRatingLink,
   extractJourneyShipment,
   isDeliveredJourneyStatus,
@@ -280,3 +281,37 @@ test('rendered invoice adds continuation pages for every product chunk', async (
   // Three item-table pages (5 + 10 + 1), followed by the declaration page.
   assert.equal(pdf.getPageCount(), 4);
 });
+
+test('journey SMS text carries the same details as the WhatsApp template', () => {
+  const base = { merchantId: 'm1', orderId: 'o1' };
+  assert.equal(
+    buildJourneySmsText({
+      ...base,
+      step: 'shipped',
+      data: {
+        customerName: 'نورة',
+        orderNumber: '12345',
+        carrier: 'SMSA',
+        trackingNumber: '290019',
+        trackingLink: 'https://track.example/290019',
+      },
+    }),
+    'مرحباً نورة، تم شحن طلبك رقم 12345 مع SMSA، رقم التتبع 290019: https://track.example/290019',
+  );
+  assert.equal(
+    buildJourneySmsText({
+      ...base,
+      step: 'refunded',
+      data: { customerName: 'نورة', orderNumber: '12345', refundAmount: '150', currency: 'SAR' },
+    }),
+    'مرحباً نورة، تم استرداد 150 SAR لطلبك رقم 12345.',
+  );
+  assert.match(
+    buildJourneySmsText({
+      ...base,
+      step: 'delivery_reschedule',
+      data: { customerName: 'نورة', orderNumber: '12345', trackingNumber: 'LD-1' },
+    }),
+    /12345 \(شحنة LD-1\)/,
+  );
+});
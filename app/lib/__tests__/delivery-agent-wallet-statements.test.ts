@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  WalletStatementError,
+  buildStatementSheetRows,
+  buildWalletStatement,
+  parseStatementPeriod,
+  type StatementTransaction,
+} from '../delivery-agent-statement';
+import {
+  PayoutBatchError,
+  buildPayoutBatchNumber,
+  findPayoutShortfalls,
+  parsePayoutBatchInput,
+  proposePayoutLines,
+} from '../delivery-agent-payout-batch';
+
+const AGENT = { id: 'agent-1', name: 'سالم', username: 'salem' };
+const PERIOD = { from: new Date(2026, 8, 1), to: new Date(2026, 9, 1) };
+
+const entry = (
+  id: string,
+  type: StatementTransaction['type'],
+  amount: number,
+  day: number,
+  extra: Partial<StatementTransaction> = {},
+): StatementTransaction => ({
+  id,
+  type,
+  amount,
+  createdAt: new Date(2026, 8, day, 12),
+  notes: null,
+  orderNumber: null,
+  batchNumber: null,
+  ...extra,
+});
+
+test('buildWalletStatement totals credits by type, payouts and the running balance', () => {
+  const statement = buildWalletStatement(AGENT, PERIOD, 45.5, [
+    entry('t4', 'PAYOUT', -100, 20, { batchNumber: 'PB-20260920-01' }),
+    entry('t1', 'SHIPMENT_COMPLETED', 30, 2, { orderNumber: '1001' }),
+    entry('t2', 'SHIPMENT_COMPLETED', 35.25, 3),
+    entry('t3', 'FAILED_ATTEMPT', 7.5, 4),
+    entry('t5', 'TASK_COMPLETED', 30, 21),
+    entry('t6', 'ADJUSTMENT', -12.1, 22),
+    entry('t7', 'ADJUSTMENT', 5, 23),
+  ]);
+
+  assert.equal(statement.openingBalance, 45.5);
+  assert.deepEqual(statement.credits.SHIPMENT_COMPLETED, { count: 2, total: 65.25 });
+  assert.deepEqual(statement.credits.FAILED_ATTEMPT, { count: 1, total: 7.5 });
+  assert.deepEqual(statement.credits.TASK_COMPLETED, { count: 1, total: 30 });
+  assert.deepEqual(statement.payouts, { count: 1, total: 100 });
+  assert.deepEqual(statement.adjustmentDebits, { count: 1, total: 12.1 });
+  assert.deepEqual(statement.adjustmentCredits, { count: 1, total: 5 });
+  assert.equal(statement.totalCredits, 107.75);
+  assert.equal(statement.totalDebits, 112.1);
+  assert.equal(statement.closingBalance, 41.15);
+
+  assert.deepEqual(
+    statement.lines.map((line) => [line.id, line.balance]),
+    [
+      ['t1', 75.5],
+      ['t2', 110.75],
+      ['t3', 118.25],
+      ['t4', 18.25],
+      ['t5', 48.25],
+      ['t6', 36.15],
+      ['t7', 41.15],
+    ],
+  );
+});
+
+test('buildStatementSheetRows splits credits and debits and ends on the closing balance', () => {
+  const statement = buildWalletStatement(AGENT, PERIOD, 0, [
+    entry('t1', 'SHIPMENT_COMPLETED', 30, 2, { orderNumber: '1001' }),
+    entry('t2', 'PAYOUT', -30, 3, { batchNumber: 'PB-20260903-01' }),
+  ]);
+  const rows = buildStatementSheetRows(statement);
+  assert.deepEqual(rows[2], ['الفترة', '2026-09-01 - 2026-09-30']);
+  assert.deepEqual(rows.find((row) => row[0] === 'الرصيد الختامي'), ['الرصيد الختامي', 0]);
+  const [shipment, payout] = rows.slice(-2);
+  assert.equal(shipment[1], 'شحنة مكتملة - طلب 1001');
+  assert.deepEqual(shipment.slice(3), [30, '', 30]);
+  assert.equal(payout[1], 'دفعة من الإدارة - دفعة PB-20260903-01');
+  assert.deepEqual(payout.slice(3), ['', 30, 0]);
+});
+
+test('parseStatementPeriod accepts a month or an inclusive day range', () => {
+  const now = new Date(2026, 9, 18);
+  assert.deepEqual(parseStatementPeriod(new URLSearchParams(), now), PERIOD);
+  assert.deepEqual(parseStatementPeriod(new URLSearchParams('month=2026-02'), now), {
+    from: new Date(2026, 1, 1),
+    to: new Date(2026, 2, 1),
+  });
+  assert.deepEqual(parseStatementPeriod(new URLSearchParams('from=2026-10-01&to=2026-10-15'), now), {
+    from: new Date(2026, 9, 1),
+    to: new Date(2026, 9, 16),
+  });
+  assert.throws(() => parseStatementPeriod(new URLSearchParams('from=2026-10-01'), now), WalletStatementError);
+  assert.throws(() => parseStatementPeriod(new URLSearchParams('from=2026-02-30&to=2026-03-01'), now), WalletStatementError);
+  assert.throws(() => parseStatementPeriod(new URLSearchParams('from=2026-10-05&to=2026-10-01'), now), WalletStatementError);
+  assert.throws(() => parseStatementPeriod(new URLSearchParams('from=2024-01-01&to=2026-01-01'), now), WalletStatementError);
+  assert.throws(() => parseStatementPeriod(new URLSearchParams('month=2026-13'), now), WalletStatementError);
+});
+
+test('payout batches propose everyone at the threshold and refuse lines a wallet no longer covers', () => {
+  const lines = proposePayoutLines(
+    [
+      { deliveryAgentId: 'a', balance: 99.99 },
+      { deliveryAgentId: 'b', balance: 100 },
+      { deliveryAgentId: 'c', balance: 250.456 },
+      { deliveryAgentId: 'd', balance: -40 },
+    ],
+    100,
+  );
+  assert.deepEqual(lines, [
+    { deliveryAgentId: 'c', amount: 250.46 },
+    { deliveryAgentId: 'b', amount: 100 },
+  ]);
+
+  const shortfalls = findPayoutShortfalls(
+    lines,
+    new Map([
+      ['c', 250.46],
+      ['b', 70],
+    ]),
+  );
+  assert.deepEqual(shortfalls, [{ deliveryAgentId: 'b', amount: 100 }]);
+  assert.deepEqual(findPayoutShortfalls(lines, new Map([['b', 100]])), [{ deliveryAgentId: 'c', amount: 250.46 }]);
+
+  assert.equal(buildPayoutBatchNumber(new Date(2026, 9, 8), 3), 'PB-20261008-03');
+});
+
+test('parsePayoutBatchInput defaults the threshold and validates the payment method', () => {
+  assert.deepEqual(parsePayoutBatchInput({}), { threshold: 100, paymentMethod: 'cash', notes: null });
+  assert.deepEqual(parsePayoutBatchInput({ threshold: '250.5', paymentMethod: 'bank_transfer', notes: ' أسبوعية ' }), {
+    threshold: 250.5,
+    paymentMethod: 'bank_transfer',
+    notes: 'أسبوعية',
+  });
+  assert.throws(() => parsePayoutBatchInput({ threshold: 0 }), PayoutBatchError);
+  assert.throws(() => parsePayoutBatchInput({ paymentMethod: 'cheque' }), PayoutBatchError);
+});
@@ -0,0 +1,172 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  DEFAULT_COMMISSION_RULE,
+  DeliveryCommissionError,
+  backCalculateCommissions,
+  findOverlappingRule,
+  findRuleForDate,
+  parseCommissionRuleInput,
+  parseMonthRange,
+  quoteCommission,
+  type CommissionRuleLike,
+} from '../delivery-commission';
+
+const rule = (overrides: Partial<CommissionRuleLike>): CommissionRuleLike => ({
+  ...DEFAULT_COMMISSION_RULE,
+  id: 'rule-1',
+  name: 'قاعدة',
+  effectiveFrom: new Date('2026-09-01T00:00:00Z'),
+  effectiveTo: null,
+  ...overrides,
+});
+
+const september = rule({
+  id: 'september',
+  name: 'سبتمبر',
+  effectiveTo: new Date('2026-10-01T00:00:00Z'),
+  baseShipmentRate: 25,
+});
+const october = rule({
+  id: 'october',
+  name: 'أكتوبر',
+  effectiveFrom: new Date('2026-10-01T00:00:00Z'),
+  baseShipmentRate: 20,
+  codHandlingBonus: 3,
+  failedAttemptRate: 7.5,
+  defaultTaskRate: 15,
+  taskTypeRates: { purchase: 40 },
+  areaSurcharges: [
+    { city: 'الرياض', district: null, amount: 5 },
+    { city: 'Riyadh', district: 'Al Malqa', amount: 12 },
+  ],
+});
+
+test('findRuleForDate picks the rule in force and treats the end date as exclusive', () => {
+  const rules = [october, september];
+  assert.equal(findRuleForDate(rules, new Date('2026-09-30T23:59:59Z'))?.id, 'september');
+  assert.equal(findRuleForDate(rules, new Date('2026-10-01T00:00:00Z'))?.id, 'october');
+  assert.equal(findRuleForDate(rules, new Date('2026-08-31T00:00:00Z')), null);
+});
+
+test('findOverlappingRule rejects ranges that touch an existing rule', () => {
+  const rules = [october, september];
+  assert.equal(
+    findOverlappingRule(rules, { effectiveFrom: new Date('2026-08-01T00:00:00Z'), effectiveTo: september.effectiveFrom }),
+    null,
+  );
+  assert.equal(
+    findOverlappingRule(rules, { effectiveFrom: new Date('2026-11-01T00:00:00Z'), effectiveTo: null })?.id,
+    'october',
+  );
+  assert.equal(
+    findOverlappingRule(rules, { effectiveFrom: new Date('2026-11-01T00:00:00Z'), effectiveTo: null }, 'october'),
+    null,
+  );
+});
+
+test('quoteCommission adds the district surcharge over the city one and the COD bonus', () => {
+  const malqa = quoteCommission(october, { kind: 'delivery', city: 'Riyadh', district: 'حي الملقا', isCod: true });
+  assert.equal(malqa.amount, 35);
+  assert.deepEqual(
+    malqa.lines.map((line) => line.amount),
+    [20, 12, 3],
+  );
+  assert.equal(malqa.ruleId, 'october');
+
+  const olaya = quoteCommission(october, { kind: 'delivery', city: 'الرياض', district: 'العليا', isCod: false });
+  assert.equal(olaya.amount, 25);
+
+  const jeddah = quoteCommission(october, { kind: 'delivery', city: 'جدة', district: null, isCod: false });
+  assert.equal(jeddah.amount, 20);
+  assert.equal(jeddah.lines.length, 1);
+});
+
+test('quoteCommission prices failed attempts and task types', () => {
+  assert.equal(quoteCommission(october, { kind: 'failed_attempt' }).amount, 7.5);
+  assert.deepEqual(quoteCommission(september, { kind: 'failed_attempt' }).lines, []);
+  assert.equal(quoteCommission(october, { kind: 'task', taskType: 'purchase' }).amount, 40);
+  assert.equal(quoteCommission(october, { kind: 'task', taskType: 'pickup' }).amount, 15);
+  assert.equal(quoteCommission(DEFAULT_COMMISSION_RULE, { kind: 'task', taskType: null }).amount, 30);
+});
+
+test('parseCommissionRuleInput validates rates, dates and surcharges', () => {
+  const input = parseCommissionRuleInput({
+    name: ' أكتوبر ',
+    effectiveFrom: '2026-10-01T00:00:00.000Z',
+    baseShipmentRate: '22.505',
+    defaultTaskRate: 15,
+    taskTypeRates: { purchase: '40', pickup: '' },
+    areaSurcharges: [{ city: 'الرياض', district: '', amount: '5' }],
+  });
+  assert.equal(input.name, 'أكتوبر');
+  assert.equal(input.baseShipmentRate, 22.51);
+  assert.equal(input.codHandlingBonus, 0);
+  assert.equal(input.effectiveTo, null);
+  assert.deepEqual(input.taskTypeRates, { purchase: 40 });
+  assert.deepEqual(input.areaSurcharges, [{ city: 'الرياض', district: null, amount: 5 }]);
+
+  const valid = { name: 'x', effectiveFrom: '2026-10-01', baseShipmentRate: 1, defaultTaskRate: 1 };
+  assert.throws(() => parseCommissionRuleInput({ ...valid, name: '' }), DeliveryCommissionError);
+  assert.throws(() => parseCommissionRuleInput({ ...valid, baseShipmentRate: -1 }), DeliveryCommissionError);
+  assert.throws(() => parseCommissionRuleInput({ ...valid, effectiveTo: '2026-09-01' }), DeliveryCommissionError);
+  assert.throws(() => parseCommissionRuleInput({ ...valid, taskTypeRates: { rocket: 5 } }), DeliveryCommissionError);
+  assert.throws(
+    () =>
+      parseCommissionRuleInput({
+        ...valid,
+        areaSurcharges: [
+          { city: 'الرياض', district: 'الملقا', amount: 1 },
+          { city: 'Riyadh', district: 'Al Malqa', amount: 2 },
+        ],
+      }),
+    DeliveryCommissionError,
+  );
+});
+
+test('backCalculateCommissions prices each event under its own rule and the proposal', () => {
+  const proposed = rule({ id: null, name: 'مقترحة', baseShipmentRate: 22, failedAttemptRate: 5, defaultTaskRate: 30 });
+  const comparison = backCalculateCommissions(
+    [
+      {
+        agentId: 'a1',
+        agentName: 'سالم',
+        occurredAt: new Date('2026-09-15T10:00:00Z'),
+        event: { kind: 'delivery', city: null, district: null, isCod: false },
+      },
+      {
+        agentId: 'a1',
+        agentName: 'سالم',
+        occurredAt: new Date('2026-10-02T10:00:00Z'),
+        event: { kind: 'failed_attempt' },
+      },
+      {
+        agentId: 'a2',
+        agentName: 'ماجد',
+        occurredAt: new Date('2026-08-20T10:00:00Z'),
+        event: { kind: 'task', taskType: 'support' },
+      },
+    ],
+    [october, september],
+    proposed,
+  );
+
+  const byAgent = new Map(comparison.rows.map((row) => [row.agentId, row]));
+  assert.equal(byAgent.get('a1')?.currentAmount, 32.5);
+  assert.equal(byAgent.get('a1')?.proposedAmount, 27);
+  assert.equal(byAgent.get('a1')?.difference, -5.5);
+  assert.deepEqual(byAgent.get('a1')?.counts, { delivery: 1, failed_attempt: 1, task: 0 });
+  // Before any rule existed the fixed 30 applies.
+  assert.equal(byAgent.get('a2')?.currentAmount, 30);
+  assert.equal(byAgent.get('a2')?.difference, 0);
+  assert.equal(comparison.rows[0].agentId, 'a1');
+  assert.equal(comparison.totals.difference, -5.5);
+  assert.deepEqual(comparison.byKind.failed_attempt, { current: 7.5, proposed: 5 });
+});
+
+test('parseMonthRange defaults to the previous month', () => {
+  const now = new Date(2026, 9, 18);
+  assert.deepEqual(parseMonthRange('', now), { from: new Date(2026, 8, 1), to: new Date(2026, 9, 1) });
+  assert.deepEqual(parseMonthRange('2026-01', now), { from: new Date(2026, 0, 1), to: new Date(2026, 1, 1) });
+  assert.throws(() => parseMonthRange('2026-13', now), DeliveryCommissionError);
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  DeliveryProofError,
+  assertDeliveryProofWritable,
+  deliveryProofFileUrl,
+  isDeliveryProofKind,
+  parseProofImage,
+} from '../delivery-proof';
+
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const dataUrl = (type: string, bytes: Buffer) => `data:${type};base64,${bytes.toString('base64')}`;
+
+const rejectsWith = (statusCode: number) => (error: unknown) =>
+  error instanceof DeliveryProofError && error.statusCode === statusCode;
+
+test('parseProofImage decodes an allowed photo or signature', () => {
+  const photo = parseProofImage('photo', dataUrl('image/JPEG', PNG_BYTES));
+  assert.equal(photo.kind, 'photo');
+  assert.equal(photo.contentType, 'image/jpeg');
+  assert.deepEqual(photo.data, PNG_BYTES);
+
+  const signature = parseProofImage('signature', dataUrl('image/png', PNG_BYTES));
+  assert.equal(signature.contentType, 'image/png');
+});
+
+test('parseProofImage rejects other formats and malformed uploads', () => {
+  assert.throws(() => parseProofImage('signature', dataUrl('image/jpeg', PNG_BYTES)), rejectsWith(400));
+  assert.throws(() => parseProofImage('photo', dataUrl('image/webp', PNG_BYTES)), rejectsWith(400));
+  assert.throws(() => parseProofImage('photo', 'https://example.com/photo.jpg'), rejectsWith(400));
+  assert.throws(() => parseProofImage('photo', 'data:image/png;base64,'), rejectsWith(400));
+  assert.throws(() => parseProofImage('photo', { data: 'x' }), rejectsWith(400));
+});
+
+test('parseProofImage rejects uncompressed captures as too large', () => {
+  const oversized = Buffer.alloc(400_000, 1);
+  assert.throws(() => parseProofImage('signature', dataUrl('image/png', oversized)), rejectsWith(413));
+  assert.doesNotThrow(() => parseProofImage('photo', dataUrl('image/png', oversized)));
+});
+
+test('proof kinds map to their serving URLs', () => {
+  assert.equal(isDeliveryProofKind('photo'), true);
+  assert.equal(isDeliveryProofKind('pdf'), false);
+  assert.equal(deliveryProofFileUrl('abc', 'signature'), '/api/shipment-assignments/abc/proof/signature');
+});
+
+test('proof can no longer be captured once the assignment is closed', () => {
+  for (const status of ['assigned', 'picked_up', 'in_transit']) {
+    assert.doesNotThrow(() => assertDeliveryProofWritable(status));
+  }
+  for (const status of ['delivered', 'failed', 'cancelled']) {
+    assert.throws(() => assertDeliveryProofWritable(status), rejectsWith(409));
+  }
+});
@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { Prisma } from '@prisma/client';
+import {
+  collectRestockLines,
+  createNextAttemptOnce,
+  decideDeliveryFailureOutcome,
+  describeDeliveryFailure,
+  describeReturnToOrigin,
+  isDeliveryFailureReasonCode,
+} from '../delivery-reattempts';
+
+test('decideDeliveryFailureOutcome reattempts until the configured limit', () => {
+  assert.deepEqual(
+    decideDeliveryFailureOutcome({ reasonCode: 'customer_unreachable', attemptNumber: 1, maxAttempts: 3 }),
+    { action: 'reattempt', nextAttemptNumber: 2, attemptsLeft: 2 },
+  );
+  assert.deepEqual(
+    decideDeliveryFailureOutcome({ reasonCode: 'customer_unreachable', attemptNumber: 2, maxAttempts: 3 }),
+    { action: 'reattempt', nextAttemptNumber: 3, attemptsLeft: 1 },
+  );
+  assert.deepEqual(
+    decideDeliveryFailureOutcome({ reasonCode: 'customer_unreachable', attemptNumber: 3, maxAttempts: 3 }),
+    { action: 'return', cause: 'max_attempts' },
+  );
+});
+
+test('decideDeliveryFailureOutcome returns at once for final reasons and a limit of one', () => {
+  assert.deepEqual(
+    decideDeliveryFailureOutcome({ reasonCode: 'customer_refused', attemptNumber: 1, maxAttempts: 3 }),
+    { action: 'return', cause: 'final_reason' },
+  );
+  assert.deepEqual(
+    decideDeliveryFailureOutcome({ reasonCode: 'wrong_address', attemptNumber: 1, maxAttempts: 0 }),
+    { action: 'return', cause: 'max_attempts' },
+  );
+});
+
+test('describeDeliveryFailure and describeReturnToOrigin use the reason label', () => {
+  assert.equal(describeDeliveryFailure('customer_not_available'), 'العميل غير متواجد');
+  assert.equal(describeDeliveryFailure('other', ' الباب مغلق '), 'سبب آخر - الباب مغلق');
+  assert.equal(
+    describeReturnToOrigin({ action: 'return', cause: 'final_reason' }, 'damaged', 1),
+    'إرجاع للمستودع: الشحنة تالفة',
+  );
+  assert.match(describeReturnToOrigin({ action: 'return', cause: 'max_attempts' }, 'other', 3), /بعد 3 محاولات/);
+  assert.equal(isDeliveryFailureReasonCode('customer_refused'), true);
+  assert.equal(isDeliveryFailureReasonCode('lost'), false);
+});
+
+test('collectRestockLines merges SKUs and skips lines Salla cannot match', () => {
+  const lines = collectRestockLines([
+    { sku: 'DR-01', name: 'فستان', quantity: 1 },
+    { sku: '', product: { sku: 'AB-02' }, name: 'عباية', quantity: '2' },
+    { sku: 'DR-01', name: 'فستان', quantity: 2 },
+    { name: 'بدون رمز', quantity: 1 },
+    { sku: 'GIFT', quantity: 0 },
+    null,
+  ]);
+  assert.deepEqual(lines, [
+    { sku: 'DR-01', quantity: 3, name: 'فستان' },
+    { sku: 'AB-02', quantity: 2, name: 'عباية' },
+  ]);
+});
+
+test('createNextAttemptOnce leaves a duplicate attempt to the report that created it', async () => {
+  const created = await createNextAttemptOnce(async () => ({ id: 'a2' }));
+  assert.deepEqual(created, { id: 'a2' });
+
+  const duplicate = await createNextAttemptOnce(async () => {
+    throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed on (shipmentId, attemptNumber)', {
+      code: 'P2002',
+      clientVersion: Prisma.prismaVersion.client,
+    });
+  });
+  assert.equal(duplicate, null);
+
+  await assert.rejects(
+    createNextAttemptOnce(async () => {
+      throw new Error('connection lost');
+    }),
+    /connection lost/,
+  );
+});
@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  DeliveryRouteError,
+  assertSameStops,
+  haversineKm,
+  locateRouteStop,
+  measureRoute,
+  mergeRouteOrder,
+  planRoute,
+} from '../delivery-routes';
+
+const RIYADH_WAREHOUSE = { lat: 24.69, lng: 46.72 };
+
+test('haversineKm measures straight-line distance', () => {
+  const riyadhToJeddah = haversineKm({ lat: 24.71, lng: 46.68 }, { lat: 21.54, lng: 39.17 });
+  assert.ok(riyadhToJeddah > 840 && riyadhToJeddah < 860, String(riyadhToJeddah));
+  assert.equal(haversineKm(RIYADH_WAREHOUSE, RIYADH_WAREHOUSE), 0);
+});
+
+test('locateRouteStop prefers stored coordinates, then the district, then the city', () => {
+  const exact = locateRouteStop({ id: 'a', city: 'الرياض', district: 'حي النرجس', latitude: '24.87', longitude: '46.65' });
+  assert.equal(exact.positionSource, 'coordinates');
+  assert.deepEqual(exact.position, { lat: 24.87, lng: 46.65 });
+  assert.equal(exact.clusterLabel, 'الرياض - النرجس');
+
+  const byDistrict = locateRouteStop({ id: 'b', city: 'Riyadh', district: 'An Narjis', latitude: 0, longitude: 0 });
+  assert.equal(byDistrict.positionSource, 'district');
+  assert.equal(byDistrict.clusterKey, exact.clusterKey);
+
+  const byCity = locateRouteStop({ id: 'c', city: 'Jeddah', postcode: '23442' });
+  assert.equal(byCity.positionSource, 'city');
+  assert.equal(byCity.clusterKey, 'jeddah|p:23442');
+
+  const unknown = locateRouteStop({ id: 'd', city: 'قرية غير معروفة' });
+  assert.equal(unknown.positionSource, 'none');
+  assert.equal(unknown.position, null);
+});
+
+test('planRoute keeps districts together and walks them nearest first from the warehouse', () => {
+  const route = planRoute(
+    [
+      { id: 'narjis-1', city: 'الرياض', district: 'النرجس' },
+      { id: 'malaz-1', city: 'الرياض', district: 'الملز', latitude: 24.668, longitude: 46.728 },
+      { id: 'unknown', city: 'مكان ما' },
+      { id: 'narjis-2', city: 'الرياض', district: 'النرجس', latitude: 24.85, longitude: 46.655 },
+      { id: 'suwaidi', city: 'الرياض', district: 'السويدي' },
+      { id: 'malaz-2', city: 'الرياض', district: 'الملز', latitude: 24.662, longitude: 46.735 },
+    ],
+    RIYADH_WAREHOUSE,
+  );
+
+  assert.deepEqual(
+    route.stops.map((stop) => stop.id),
+    ['malaz-1', 'malaz-2', 'suwaidi', 'narjis-2', 'narjis-1', 'unknown'],
+  );
+  assert.deepEqual(
+    route.stops.map((stop) => stop.sequence),
+    [1, 2, 3, 4, 5, 6],
+  );
+  assert.equal(route.stops[5].legKm, null);
+  assert.equal(route.roughlyPlacedCount, 1);
+  assert.ok(route.totalKm > 30 && route.totalKm < 60, String(route.totalKm));
+});
+
+test('mergeRouteOrder keeps a hand-arranged order and appends newly assigned stops', () => {
+  const suggested = planRoute(
+    [
+      { id: 'a', city: 'الرياض', district: 'الملز' },
+      { id: 'b', city: 'الرياض', district: 'العليا' },
+      { id: 'c', city: 'الرياض', district: 'النرجس' },
+    ],
+    RIYADH_WAREHOUSE,
+  ).stops;
+
+  const merged = mergeRouteOrder(
+    suggested,
+    new Map([
+      ['c', 1],
+      ['a', 2],
+    ]),
+  );
+  assert.deepEqual(
+    merged.map((stop) => stop.id),
+    ['c', 'a', 'b'],
+  );
+  assert.deepEqual(
+    measureRoute(merged, RIYADH_WAREHOUSE).stops.map((stop) => stop.sequence),
+    [1, 2, 3],
+  );
+});
+
+test('assertSameStops rejects stale or duplicated manual orders', () => {
+  assert.doesNotThrow(() => assertSameStops(['a', 'b'], ['b', 'a']));
+  assert.throws(
+    () => assertSameStops(['a', 'b'], ['a', 'a']),
+    (error: unknown) => error instanceof DeliveryRouteError && error.statusCode === 400,
+  );
+  assert.throws(
+    () => assertSameStops(['a', 'b', 'c'], ['a', 'b']),
+    (error: unknown) => error instanceof DeliveryRouteError && error.statusCode === 409,
+  );
+});
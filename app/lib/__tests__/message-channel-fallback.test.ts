@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  DEFAULT_SMS_FALLBACK_SETTINGS,
+  FALLBACK_MESSAGE_TYPES,
+  formatSmsFallbackRule,
+  isFallbackMessageType,
+  parseSmsFallbackRule,
+  smsFallbackSettingKey,
+  undeliveredFallbackDueAt,
+} from '../message-channel-fallback';
+
+test('parses per-type SMS fallback rules and treats anything unreadable as off', () => {
+  assert.deepEqual(parseSmsFallbackRule('off'), { enabled: false, undeliveredMinutes: null });
+  assert.deepEqual(parseSmsFallbackRule(' Failed '), { enabled: true, undeliveredMinutes: null });
+  assert.deepEqual(parseSmsFallbackRule('15'), { enabled: true, undeliveredMinutes: 15 });
+  assert.deepEqual(parseSmsFallbackRule('0'), { enabled: false, undeliveredMinutes: null });
+  assert.deepEqual(parseSmsFallbackRule('-5'), { enabled: false, undeliveredMinutes: null });
+  assert.deepEqual(parseSmsFallbackRule('soon'), { enabled: false, undeliveredMinutes: null });
+  assert.deepEqual(parseSmsFallbackRule(undefined), { enabled: false, undeliveredMinutes: null });
+  assert.equal(parseSmsFallbackRule('999999').undeliveredMinutes, 7 * 24 * 60);
+
+  for (const value of ['off', 'failed', '30']) {
+    assert.equal(formatSmsFallbackRule(parseSmsFallbackRule(value)), value);
+  }
+});
+
+test('every fallback message type has a settings key and a readable default', () => {
+  for (const type of FALLBACK_MESSAGE_TYPES) {
+    assert.equal(smsFallbackSettingKey(type), `sms_fallback_${type}`);
+    assert.equal(formatSmsFallbackRule(parseSmsFallbackRule(DEFAULT_SMS_FALLBACK_SETTINGS[type])), DEFAULT_SMS_FALLBACK_SETTINGS[type]);
+  }
+  assert.equal(isFallbackMessageType('delivery_otp'), true);
+  assert.equal(isFallbackMessageType('preparing'), false);
+});
+
+test('schedules the undelivered fallback only for minute-based rules', () => {
+  const acceptedAt = new Date('2026-10-11T09:00:00Z');
+  assert.equal(
+    undeliveredFallbackDueAt(parseSmsFallbackRule('2'), acceptedAt)?.toISOString(),
+    '2026-10-11T09:02:00.000Z',
+  );
+  assert.equal(undeliveredFallbackDueAt(parseSmsFallbackRule('failed'), acceptedAt), null);
+  assert.equal(undeliveredFallbackDueAt(parseSmsFallbackRule('off'), acceptedAt), null);
+});
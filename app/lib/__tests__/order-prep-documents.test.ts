@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildPackingSlipDocument, buildPickListDocument } from '../order-prep-documents';
+
+const order = {
+  id: 501,
+  reference_id: '1001',
+  urls: { customer: 'https://store.example/orders/501' },
+  customer: { first_name: 'سارة', last_name: 'أحمد', city: 'الرياض' },
+  amounts: {
+    sub_total: { amount: 450, currency: 'SAR' },
+    shipping_cost: { amount: 30, currency: 'SAR' },
+    total_discount: { amount: 0, currency: 'SAR' },
+    total: { amount: 480, currency: 'SAR' },
+  },
+  items: [
+    {
+      sku: 'DRS-RED-M',
+      name: 'فستان أحمر',
+      quantity: 1,
+      inventoryLocation: 'B-2',
+      amounts: { total: { amount: 250, currency: 'SAR' } },
+      options: [{ name: 'المقاس', value: { name: 'M' } }],
+    },
+    {
+      sku: 'ABY-BLK-L',
+      name: 'عباية سوداء',
+      quantity: 2,
+      inventoryLocation: 'A-1',
+      amounts: { total: { amount: 200, currency: 'SAR' } },
+    },
+    { sku: 'SCF-WHT', name: 'طرحة بيضاء', quantity: 1 },
+  ],
+};
+
+test('buildPickListDocument groups the lines by bin and counts the units', () => {
+  const doc = buildPickListDocument({
+    id: 'a1',
+    orderId: '501',
+    orderNumber: '1001',
+    userName: 'نورة',
+    toteNumber: 4,
+    status: 'preparing',
+    orderData: order,
+  });
+
+  assert.equal(doc.totalUnits, 4);
+  assert.deepEqual(
+    doc.locations.map((location) => location.location),
+    ['A-1', 'B-2', null],
+  );
+  assert.equal(doc.backOrderSequence, null);
+});
+
+test('buildPackingSlipDocument shows line prices and totals on a regular order', () => {
+  const slip = buildPackingSlipDocument({ orderId: '501', orderNumber: '1001', orderData: order, isGift: false });
+
+  assert.deepEqual(slip.lines.map((line) => line.lineTotal), [250, 200, 0]);
+  assert.deepEqual(slip.lines[0].options, ['المقاس: M']);
+  assert.equal(slip.recipientName, 'سارة أحمد');
+  assert.deepEqual(slip.totals, { subtotal: 450, shipping: 30, discount: 0, total: 480, currency: 'SAR' });
+  assert.equal(slip.qrValue, 'https://store.example/orders/501');
+});
+
+test('buildPackingSlipDocument hides every price on a gift order', () => {
+  const slip = buildPackingSlipDocument({ orderId: '501', orderNumber: '1001', orderData: order, isGift: true });
+
+  assert.ok(slip.isGift);
+  assert.ok(slip.lines.every((line) => line.lineTotal === null));
+  assert.equal(slip.totals, null);
+});
+
+test('buildPackingSlipDocument leaves held-back lines and order totals off a split shipment', () => {
+  const slip = buildPackingSlipDocument({
+    orderId: '501',
+    orderNumber: '1001',
+    orderData: { ...order, prepSplit: { heldLineIndexes: [1] } },
+    isGift: false,
+  });
+
+  assert.deepEqual(slip.lines.map((line) => line.sku), ['DRS-RED-M', 'SCF-WHT']);
+  assert.equal(slip.totalUnits, 2);
+  assert.equal(slip.totals, null);
+});
+
+test('buildPackingSlipDocument falls back to the order number for the QR code', () => {
+  const backOrder = {
+    ...order,
+    urls: undefined,
+    items: [order.items[1]],
+    prepBackOrder: { sequence: 1 },
+  };
+  const slip = buildPackingSlipDocument({ orderId: '501', orderNumber: null, orderData: backOrder, isGift: false });
+
+  assert.equal(slip.orderNumber, '1001');
+  assert.equal(slip.qrValue, '1001');
+  assert.equal(slip.backOrderSequence, 1);
+  assert.equal(slip.totals, null);
+});
@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  buildPrepMetricsReport,
+  listMetricsPeriods,
+  metricsPeriodKey,
+  percentile,
+  type PrepCompletionRecord,
+} from '../order-prep-metrics';
+
+// Riyadh is UTC+3: 09:00 local is 06:00Z.
+const at = (day: string, time: string) => new Date(`${day}T${time}:00+03:00`);
+
+const completion = (
+  userId: string,
+  orderId: string,
+  day: string,
+  from: string,
+  to: string,
+  itemCount = 1,
+): PrepCompletionRecord => {
+  const startedAt = at(day, from);
+  const finishedAt = at(day, to);
+  return {
+    userId,
+    userName: userId === 'u1' ? 'نورة' : 'سارة',
+    orderId,
+    startedAt,
+    finishedAt,
+    durationMinutes: (finishedAt.getTime() - startedAt.getTime()) / 60000,
+    itemCount,
+  };
+};
+
+const start = at('2026-09-06', '00:00');
+const endExclusive = at('2026-09-08', '00:00');
+
+test('metricsPeriodKey buckets in Riyadh time and starts weeks on Sunday', () => {
+  // 23:30Z on the 5th is already the 6th in Riyadh.
+  assert.equal(metricsPeriodKey(new Date('2026-09-05T23:30:00Z'), 'day'), '2026-09-06');
+  assert.equal(metricsPeriodKey(at('2026-09-10', '12:00'), 'week'), '2026-09-06');
+  assert.equal(metricsPeriodKey(at('2026-09-10', '12:00'), 'month'), '2026-09');
+  assert.deepEqual(listMetricsPeriods(start, endExclusive, 'day'), ['2026-09-06', '2026-09-07']);
+});
+
+test('orders per hour uses the working span, not summed durations', () => {
+  const report = buildPrepMetricsReport({
+    granularity: 'day',
+    start,
+    endExclusive,
+    // Two orders prepared side by side between 09:00 and 10:00.
+    completions: [
+      completion('u1', 'o1', '2026-09-06', '09:00', '10:00'),
+      completion('u1', 'o2', '2026-09-06', '09:10', '10:00', 3),
+    ],
+    shortages: [],
+    reopens: [],
+    escalations: [],
+  });
+
+  const [preparer] = report.preparers;
+  assert.equal(preparer.totals.activeHours, 1);
+  assert.equal(preparer.totals.ordersPerHour, 2);
+  assert.equal(preparer.totals.medianPrepMinutes, 55);
+  assert.equal(preparer.totals.medianPrepMinutesByItems['1'], 60);
+  assert.equal(preparer.totals.medianPrepMinutesByItems['3-4'], 50);
+  assert.deepEqual(
+    preparer.periods.map((period) => period.completed),
+    [2, 0],
+  );
+});
+
+test('rates count handled orders and attribute SLA escalations to the preparer who completed the order', () => {
+  const report = buildPrepMetricsReport({
+    granularity: 'day',
+    start,
+    endExclusive,
+    completions: [
+      completion('u1', 'o1', '2026-09-06', '09:00', '09:30'),
+      completion('u1', 'o2', '2026-09-06', '10:00', '10:30'),
+      completion('u2', 'o3', '2026-09-07', '09:00', '09:20'),
+    ],
+    shortages: [{ userId: 'u1', orderId: 'o4', at: at('2026-09-06', '11:00') }],
+    reopens: [{ userId: 'u1', orderId: 'o1', at: at('2026-09-07', '08:00') }],
+    escalations: [{ userId: null, orderId: 'o3', at: at('2026-09-07', '08:30') }],
+    userNames: new Map([['u1', 'نورة']]),
+  });
+
+  const u1 = report.preparers.find((preparer) => preparer.userId === 'u1')!;
+  const u2 = report.preparers.find((preparer) => preparer.userId === 'u2')!;
+  assert.equal(u1.totals.handled, 3);
+  assert.equal(u1.totals.shortageRate, 1 / 3);
+  assert.equal(u1.totals.reopenRate, 1 / 2);
+  assert.equal(u1.totals.escalationRate, 0);
+  assert.equal(u2.totals.escalationRate, 1);
+  assert.equal(report.team.totals.completed, 3);
+  assert.deepEqual(
+    report.team.trend.map((period) => period.completed),
+    [2, 1],
+  );
+});
+
+test('events outside the range are ignored and percentiles interpolate', () => {
+  const report = buildPrepMetricsReport({
+    granularity: 'week',
+    start,
+    endExclusive,
+    completions: [completion('u1', 'o1', '2026-09-06', '09:00', '09:30')],
+    shortages: [{ userId: 'u1', orderId: 'o9', at: at('2026-09-01', '10:00') }],
+    reopens: [],
+    escalations: [],
+  });
+
+  assert.equal(report.preparers[0].totals.shortageOrders, 0);
+  assert.equal(percentile([10, 20, 30, 40], 50), 25);
+  assert.equal(percentile([], 50), null);
+});
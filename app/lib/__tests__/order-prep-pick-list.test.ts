@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildWavePickList } from '../order-prep-pick-list';
+
+function assignment(
+  id: string,
+  toteNumber: number,
+  items: Array<Record<string, unknown>>,
+  status = 'preparing'
+) {
+  return {
+    id,
+    orderId: `order-${id}`,
+    orderNumber: `10${toteNumber}`,
+    toteNumber,
+    status,
+    orderData: { items },
+  };
+}
+
+test('merges the same SKU across orders into one line with a per-tote split', () => {
+  const pickList = buildWavePickList([
+    assignment('a', 1, [{ sku: 'AB-52', name: 'عباية', quantity: 2, inventoryLocation: 'A-02' }]),
+    assignment('b', 2, [
+      { sku: 'ab-52', name: 'عباية', quantity: 1, inventoryLocation: 'A-02' },
+      { sku: 'SH-1', name: 'شيلة', quantity: 1, inventoryLocation: 'A-10' },
+    ]),
+  ]);
+
+  assert.equal(pickList.orderCount, 2);
+  assert.equal(pickList.totalUnits, 4);
+  assert.deepEqual(
+    pickList.locations.map((location) => location.location),
+    ['A-02', 'A-10']
+  );
+
+  const abaya = pickList.locations[0].items[0];
+  assert.equal(abaya.totalQuantity, 3);
+  assert.deepEqual(
+    abaya.totes.map((tote) => [tote.toteNumber, tote.quantity]),
+    [
+      [1, 2],
+      [2, 1],
+    ]
+  );
+});
+
+test('orders locations naturally and keeps unmapped lines last', () => {
+  const pickList = buildWavePickList([
+    assignment('a', 1, [
+      { sku: 'X-1', quantity: 1 },
+      { sku: 'X-2', quantity: 1, inventoryLocation: 'B-10' },
+      { sku: 'X-3', quantity: 1, inventoryLocation: 'B-9' },
+    ]),
+  ]);
+
+  assert.deepEqual(
+    pickList.locations.map((location) => location.location),
+    ['B-9', 'B-10', null]
+  );
+});
+
+test('flags totes of orders that already left the active statuses', () => {
+  const pickList = buildWavePickList([
+    assignment('a', 1, [{ sku: 'X-1', quantity: 1, inventoryLocation: 'C-1' }], 'completed'),
+    assignment('b', 2, [{ sku: 'X-1', quantity: 1, inventoryLocation: 'C-1' }]),
+  ]);
+
+  assert.deepEqual(
+    pickList.locations[0].items[0].totes.map((tote) => tote.done),
+    [true, false]
+  );
+});
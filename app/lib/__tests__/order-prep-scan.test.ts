@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { extractPrepLineItems } from '../order-prep-items';
+import { buildPrepScanProgress, recordedExemptLineIndexes, resolvePrepScan } from '../order-prep-scan';
+
+const items = extractPrepLineItems({
+  items: [
+    { sku: 'AB-52', name: 'عباية', quantity: 2, product: { barcode: '6281000000017' } },
+    { sku: 'SH-1', name: 'شيلة', quantity: 1 },
+  ],
+});
+
+test('counts accepted scans down per line and completes when every unit is scanned', () => {
+  let progress = buildPrepScanProgress(items, []);
+  assert.equal(progress.remainingUnits, 3);
+
+  const first = resolvePrepScan(items, progress, 'ab-52');
+  assert.deepEqual([first.result, first.lineIndex], ['accepted', 0]);
+
+  const second = resolvePrepScan(items, buildPrepScanProgress(items, [0]), '6281000000017');
+  assert.deepEqual([second.result, second.lineIndex], ['accepted', 0]);
+
+  progress = buildPrepScanProgress(items, [0, 0, 1]);
+  assert.equal(progress.complete, true);
+});
+
+test('rejects codes outside the order and extra units of a counted line', () => {
+  const progress = buildPrepScanProgress(items, [0, 0]);
+
+  assert.equal(resolvePrepScan(items, progress, 'ZZ-9').result, 'wrong_item');
+  assert.equal(resolvePrepScan(items, progress, 'AB-52').result, 'extra');
+  assert.equal(resolvePrepScan(items, progress, '   ').result, 'wrong_item');
+});
+
+test('ignores scans beyond the required quantity and skips exempt lines', () => {
+  const progress = buildPrepScanProgress(items, [0, 0, 0], [1]);
+
+  assert.equal(progress.lines[0].scanned, 2);
+  assert.equal(progress.lines[1].exempt, true);
+  assert.equal(progress.complete, true);
+});
+
+test('exempts only lines the server recorded as short, never the client payload', () => {
+  // The preparer sends every line as unavailable, but no shortage was recorded,
+  // so the exemptions come out empty and completion is still refused.
+  const unrecorded = buildPrepScanProgress(items, [], recordedExemptLineIndexes(items, []));
+  assert.equal(unrecorded.complete, false);
+  assert.equal(unrecorded.remainingUnits, 3);
+
+  const recorded = buildPrepScanProgress(items, [1], recordedExemptLineIndexes(items, ['ab-52']));
+  assert.deepEqual(recorded.lines.map((line) => line.exempt), [true, false]);
+  assert.equal(recorded.complete, true);
+
+  assert.deepEqual(recordedExemptLineIndexes(items, [null], [1]), [1]);
+});
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { evaluatePrepAssignmentSla, sortByPrepPriority, type OrderPrepSlaThresholds } from '../order-prep-sla';
+
+const thresholds: OrderPrepSlaThresholds = {
+  assignedToStartedMinutes: 30,
+  startedToCompletedMinutes: 120,
+  waitingMinutes: 1440,
+  releaseUnstartedMinutes: 60,
+  priorityUnassignedMinutes: 15,
+};
+
+const now = new Date('2026-09-01T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60000);
+
+test('escalates unstarted assignments and releases them past the release threshold', () => {
+  const fresh = evaluatePrepAssignmentSla(
+    { status: 'assigned', assignedAt: minutesAgo(10), startedAt: null, waitingAt: null },
+    thresholds,
+    now,
+  );
+  assert.deepEqual(fresh, { breach: null, release: false });
+
+  const late = evaluatePrepAssignmentSla(
+    { status: 'assigned', assignedAt: minutesAgo(45), startedAt: null, waitingAt: null },
+    thresholds,
+    now,
+  );
+  assert.equal(late.breach?.reason, 'sla_not_started');
+  assert.equal(late.release, false);
+
+  const abandoned = evaluatePrepAssignmentSla(
+    { status: 'assigned', assignedAt: minutesAgo(90), startedAt: null, waitingAt: null },
+    thresholds,
+    now,
+  );
+  assert.equal(abandoned.release, true);
+});
+
+test('never releases started work and skips disabled rules', () => {
+  const preparing = evaluatePrepAssignmentSla(
+    { status: 'preparing', assignedAt: minutesAgo(600), startedAt: minutesAgo(180), waitingAt: null },
+    thresholds,
+    now,
+  );
+  assert.equal(preparing.breach?.reason, 'sla_prep_overdue');
+  assert.equal(preparing.breach?.elapsedMinutes, 180);
+  assert.equal(preparing.release, false);
+
+  const disabled = evaluatePrepAssignmentSla(
+    { status: 'waiting', assignedAt: minutesAgo(5000), startedAt: null, waitingAt: minutesAgo(4000) },
+    { ...thresholds, waitingMinutes: 0 },
+    now,
+  );
+  assert.equal(disabled.breach, null);
+});
+
+test('queues high-priority orders first, then the oldest orders', () => {
+  const orders = [
+    { id: 'a', at: 1 },
+    { id: 'b', at: 2 },
+    { id: 'c', at: 3 },
+    { id: 'd', at: 4 },
+  ];
+  const flagged = new Map([
+    ['d', 200],
+    ['c', 100],
+  ]);
+
+  const sorted = sortByPrepPriority(orders, (order) => order.id, (order) => order.at, flagged);
+  assert.deepEqual(
+    sorted.map((order) => order.id),
+    ['c', 'd', 'a', 'b'],
+  );
+});
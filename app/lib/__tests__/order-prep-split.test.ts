@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { extractPrepLineItems } from '../order-prep-items';
+import {
+  OrderSplitError,
+  buildBackOrderOrderData,
+  planOrderSplit,
+  rebuildPrepOrderData,
+  selectPendingShipmentPart,
+  type BackOrderLike,
+  type SplitLine,
+} from '../order-prep-split';
+
+const order = {
+  id: 501,
+  reference_id: '1001',
+  items: [
+    { id: 1, sku: 'DRS-RED-M', name: 'فستان أحمر', quantity: 1 },
+    { id: 2, sku: 'ABY-BLK-L', name: 'عباية سوداء', quantity: 2 },
+    { id: 3, sku: 'SCF-WHT', name: 'طرحة بيضاء', quantity: 1 },
+  ],
+};
+
+const line = (lineIndex: number, sku: string, quantity = 1): SplitLine => ({
+  lineIndex,
+  sku,
+  name: null,
+  quantity,
+});
+
+test('planOrderSplit holds back the short lines and ships the rest', () => {
+  const plan = planOrderSplit(extractPrepLineItems(order), [1]);
+
+  assert.deepEqual(plan.shipNow.map((entry) => entry.lineIndex), [0, 2]);
+  assert.deepEqual(plan.backOrder, [{ lineIndex: 1, sku: 'ABY-BLK-L', name: 'عباية سوداء', quantity: 2 }]);
+});
+
+test('planOrderSplit refuses splits that leave nothing to ship or nothing to hold', () => {
+  const lines = extractPrepLineItems(order);
+
+  assert.throws(() => planOrderSplit(lines, []), OrderSplitError);
+  assert.throws(() => planOrderSplit(lines, [0, 1, 2]), OrderSplitError);
+  assert.throws(() => planOrderSplit(lines, [7]), OrderSplitError);
+});
+
+test('buildBackOrderOrderData keeps only the held lines and drops prep metadata', () => {
+  const data = buildBackOrderOrderData(
+    { ...order, prepRestock: { restockedAt: '2026-09-01' }, prepSplit: { backOrderIds: ['x'] } },
+    { id: 'bo1', sequence: 1, lineIndexes: [1, 2] },
+  );
+
+  assert.deepEqual((data.items as any[]).map((item) => item.sku), ['ABY-BLK-L', 'SCF-WHT']);
+  assert.equal(data.prepRestock, undefined);
+  assert.equal(data.prepSplit, undefined);
+  assert.deepEqual(data.prepBackOrder, { backOrderId: 'bo1', sequence: 1, lineIndexes: [1, 2] });
+  assert.equal(data.reference_id, '1001');
+});
+
+test('rebuildPrepOrderData keeps a back-order narrowed when Salla items are refreshed', () => {
+  const stored = buildBackOrderOrderData(order, { id: 'bo1', sequence: 1, lineIndexes: [1] });
+  const fresh = { ...order, items: order.items.map((item) => ({ ...item, quantity: item.quantity + 1 })) };
+
+  const rebuilt = rebuildPrepOrderData(stored, fresh);
+  assert.deepEqual(rebuilt.items, [{ id: 2, sku: 'ABY-BLK-L', name: 'عباية سوداء', quantity: 3 }]);
+  assert.deepEqual(rebuilt.prepBackOrder, stored.prepBackOrder);
+
+  const original = rebuildPrepOrderData({ ...order, prepSplit: { heldLineIndexes: [1] } }, fresh);
+  assert.equal((original.items as any[]).length, 3);
+  assert.deepEqual(original.prepSplit, { heldLineIndexes: [1] });
+});
+
+test('selectPendingShipmentPart ships the available lines first, then ready back-orders in sequence', () => {
+  const lines = [line(0, 'DRS-RED-M'), line(1, 'ABY-BLK-L', 2), line(2, 'SCF-WHT')];
+  const backOrders: BackOrderLike[] = [
+    { id: 'bo1', sequence: 1, status: 'waiting_stock', lines: [line(1, 'ABY-BLK-L', 2)] },
+    { id: 'bo2', sequence: 2, status: 'ready', lines: [line(2, 'SCF-WHT')] },
+  ];
+
+  const first = selectPendingShipmentPart({ lines, backOrders, shipped: [] });
+  assert.deepEqual(first, { backOrderId: null, sequence: 0, lines: [line(0, 'DRS-RED-M')] });
+
+  const shipped = [{ lineIndex: 0, backOrderId: null }];
+  assert.deepEqual(selectPendingShipmentPart({ lines, backOrders, shipped })?.backOrderId, 'bo2');
+
+  backOrders[0].status = 'ready';
+  assert.deepEqual(selectPendingShipmentPart({ lines, backOrders, shipped })?.backOrderId, 'bo1');
+
+  assert.equal(
+    selectPendingShipmentPart({
+      lines,
+      backOrders,
+      shipped: [...shipped, { lineIndex: 1, backOrderId: 'bo1' }, { lineIndex: 2, backOrderId: 'bo2' }],
+    }),
+    null,
+  );
+});
+
+test('selectPendingShipmentPart treats an order without back-orders as one shipment', () => {
+  const lines = [line(0, 'DRS-RED-M'), line(1, 'ABY-BLK-L')];
+  const cancelled: BackOrderLike[] = [{ id: 'bo1', sequence: 1, status: 'cancelled', lines: [line(1, 'ABY-BLK-L')] }];
+
+  assert.deepEqual(selectPendingShipmentPart({ lines, backOrders: cancelled, shipped: [] })?.lines, lines);
+  assert.equal(
+    selectPendingShipmentPart({ lines, backOrders: [], shipped: [{ lineIndex: 0, backOrderId: null }] }),
+    null,
+  );
+});
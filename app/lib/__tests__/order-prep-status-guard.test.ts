@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  ORDER_PREP_LEASE_TTL_MS,
+  OrderPrepLeaseConflictError,
+  assertPrepLeaseClaimable,
+  assertPrepLeaseWritable,
+  getPrepLeaseState,
+} from '../order-prep-status-guard';
+
+const now = new Date('2026-09-11T10:00:00Z');
+const live = new Date(now.getTime() + ORDER_PREP_LEASE_TTL_MS);
+const lapsed = new Date(now.getTime() - 1000);
+
+test('getPrepLeaseState tells the caller whose lease it is', () => {
+  assert.equal(getPrepLeaseState({ leaseHolder: null, leaseExpiresAt: null }, 'tab-a', now), 'free');
+  assert.equal(getPrepLeaseState({ leaseHolder: 'tab-a', leaseExpiresAt: live }, 'tab-a', now), 'held');
+  assert.equal(getPrepLeaseState({ leaseHolder: 'tab-b', leaseExpiresAt: live }, 'tab-a', now), 'foreign');
+  assert.equal(getPrepLeaseState({ leaseHolder: 'tab-b', leaseExpiresAt: lapsed }, 'tab-a', now), 'expired');
+  assert.equal(getPrepLeaseState({ leaseHolder: 'tab-b', leaseExpiresAt: live }, null, now), 'foreign');
+});
+
+test('assertPrepLeaseWritable rejects writes while another device holds a live lease', () => {
+  assert.throws(
+    () => assertPrepLeaseWritable({ leaseHolder: 'tab-b', leaseExpiresAt: live }, 'tab-a', now),
+    (error: unknown) =>
+      error instanceof OrderPrepLeaseConflictError && error.statusCode === 409 && !error.reclaimable,
+  );
+  assert.doesNotThrow(() => assertPrepLeaseWritable({ leaseHolder: 'tab-a', leaseExpiresAt: live }, 'tab-a', now));
+  assert.doesNotThrow(() => assertPrepLeaseWritable({ leaseHolder: 'tab-b', leaseExpiresAt: lapsed }, 'tab-a', now));
+  assert.doesNotThrow(() => assertPrepLeaseWritable({ leaseHolder: null, leaseExpiresAt: null }, null, now));
+});
+
+test('assertPrepLeaseClaimable needs an explicit reclaim to take over a lapsed lease', () => {
+  const lapsedLease = { leaseHolder: 'tab-b', leaseExpiresAt: lapsed };
+
+  assert.throws(
+    () => assertPrepLeaseClaimable(lapsedLease, 'tab-a', {}, now),
+    (error: unknown) => error instanceof OrderPrepLeaseConflictError && error.reclaimable,
+  );
+  assert.doesNotThrow(() => assertPrepLeaseClaimable(lapsedLease, 'tab-a', { reclaim: true }, now));
+  // A device whose own lease lapsed (laptop asleep) just renews it.
+  assert.doesNotThrow(() => assertPrepLeaseClaimable(lapsedLease, 'tab-b', {}, now));
+  assert.throws(
+    () => assertPrepLeaseClaimable({ leaseHolder: 'tab-b', leaseExpiresAt: live }, 'tab-a', { reclaim: true }, now),
+    (error: unknown) => error instanceof OrderPrepLeaseConflictError && !error.reclaimable,
+  );
+});
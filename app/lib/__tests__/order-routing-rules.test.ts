@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  checkRoutingClaim,
+  resolveBranchWarehouseCodes,
+  routeOrder,
+  skuCategoryPrefix,
+  type OrderRoutingFacts,
+  type OrderRoutingRuleLike,
+} from '../order-routing-rules';
+
+const baseRule: OrderRoutingRuleLike = {
+  id: 'rule',
+  name: 'rule',
+  position: 0,
+  isActive: true,
+  destination: null,
+  countries: [],
+  paymentType: null,
+  paymentMethods: [],
+  shippingCompanies: [],
+  isGift: null,
+  isHighPriority: null,
+  warehouseCodes: [],
+  skuCategories: [],
+  targetUserIds: ['u1'],
+  teamName: null,
+  weight: 1,
+  capacity: null,
+};
+
+const facts: OrderRoutingFacts = {
+  orderId: '1001',
+  country: 'KW',
+  isInternational: true,
+  paymentMethod: 'credit_card',
+  isCod: false,
+  shippingCompany: 'Aramex',
+  isGift: false,
+  isHighPriority: false,
+  warehouses: ['12'],
+  skuCategories: ['ab'],
+};
+
+test('routes by the first matching rule in position order and explains skipped rules', () => {
+  const rules: OrderRoutingRuleLike[] = [
+    { ...baseRule, id: 'cod', name: 'COD', position: 2, paymentType: 'cod', targetUserIds: ['u2'] },
+    { ...baseRule, id: 'intl', name: 'International', position: 1, destination: 'international', targetUserIds: ['u1', 'u3'], teamName: 'دولي' },
+    { ...baseRule, id: 'off', name: 'Disabled', position: 0, isActive: false },
+  ];
+
+  const decision = routeOrder(rules, facts);
+  assert.equal(decision.rule?.id, 'intl');
+  assert.deepEqual(
+    decision.evaluations.map((evaluation) => [evaluation.ruleId, evaluation.matched]),
+    [['off', false], ['intl', true]],
+  );
+  assert.equal(decision.evaluations[0].skippedReason, 'القاعدة غير مفعلة');
+});
+
+test('all configured conditions must match, case-insensitively', () => {
+  const rule: OrderRoutingRuleLike = {
+    ...baseRule,
+    shippingCompanies: ['aramex'],
+    warehouseCodes: ['12'],
+    skuCategories: ['AB'],
+    isGift: true,
+  };
+
+  const miss = routeOrder([rule], facts);
+  assert.equal(miss.rule, null);
+  const failed = miss.evaluations[0].checks.filter((check) => !check.passed).map((check) => check.condition);
+  assert.deepEqual(failed, ['gift']);
+
+  assert.equal(routeOrder([rule], { ...facts, isGift: true }).rule?.id, 'rule');
+});
+
+test('reserves routed orders for their targets up to the rule capacity', () => {
+  const decision = routeOrder([{ ...baseRule, capacity: 2 }], facts);
+
+  assert.equal(checkRoutingClaim(decision, 'u1', 1).allowed, true);
+  assert.equal(checkRoutingClaim(decision, 'u1', 2).allowed, false);
+  assert.equal(checkRoutingClaim(decision, 'u9', 0).allowed, false);
+  assert.equal(checkRoutingClaim(routeOrder([], facts), 'u9', 0).allowed, true);
+});
+
+test('derives SKU category prefixes', () => {
+  assert.equal(skuCategoryPrefix('AB-52-L'), 'ab');
+  assert.equal(skuCategoryPrefix('PLAIN'), null);
+});
+
+test('dry run matches warehouse rules on the warehouse code the Salla branch maps to', () => {
+  const warehouses = [
+    { code: 'RUH-1', name: 'مستودع الرياض' },
+    { code: 'JED', name: 'Jeddah Branch' },
+    { code: null, name: 'Returns' },
+  ];
+  const rule = { ...baseRule, id: 'riyadh', warehouseCodes: ['ruh-1'] };
+
+  const byName = resolveBranchWarehouseCodes(['884512', 'مستودع الرياض'], warehouses);
+  assert.deepEqual(byName, ['RUH-1']);
+  const decision = routeOrder([rule], { ...facts, warehouses: byName });
+  assert.equal(decision.rule?.id, 'riyadh');
+  assert.deepEqual(decision.evaluations[0].checks.map((check) => check.actual), ['RUH-1']);
+
+  // A raw branch id that names no warehouse no longer reaches the rule.
+  const unmapped = resolveBranchWarehouseCodes(['884512', 'Returns'], warehouses);
+  assert.deepEqual(unmapped, []);
+  assert.equal(routeOrder([rule], { ...facts, warehouses: unmapped }).rule, null);
+  assert.deepEqual(resolveBranchWarehouseCodes([' jeddah  branch '], warehouses), ['JED']);
+});
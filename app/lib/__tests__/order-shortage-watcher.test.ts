@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  runOrderShortageCheck,
+  type ShortageRecord,
+  type ShortageWatcherDeps,
+  type SkuAvailability,
+} from '../order-shortage-watcher';
+
+const now = new Date('2026-09-07T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 3600000);
+
+const shortage = (overrides: Partial<ShortageRecord>): ShortageRecord => ({
+  id: 'r1',
+  orderId: 'o1',
+  orderNumber: '1001',
+  sku: 'DRS-RED-M',
+  normalizedSku: 'DRS-RED-M',
+  itemName: 'فستان',
+  reportedById: 'u1',
+  reportedByName: 'سارة',
+  createdAt: hoursAgo(1),
+  purchaseRequestId: null,
+  ...overrides,
+});
+
+const stock = (sku: string, quantity: number | null, found = true): SkuAvailability => ({
+  sku,
+  found,
+  productId: found ? 10 : null,
+  productName: found ? 'فستان' : null,
+  quantity,
+  variantId: null,
+  variantName: null,
+});
+
+function fakeDeps(records: ShortageRecord[], stockBySku: Record<string, SkuAvailability | Error>) {
+  const calls = {
+    checked: [] as string[],
+    resolved: [] as string[],
+    returned: [] as string[],
+    notified: [] as string[],
+    purchases: [] as string[][],
+  };
+  const deps: ShortageWatcherDeps = {
+    listOpen: async () => records,
+    loadSkuAvailability: async (sku) => {
+      const entry = stockBySku[sku];
+      if (entry instanceof Error) throw entry;
+      return entry ?? stock(sku, 0, false);
+    },
+    markChecked: async (ids) => {
+      calls.checked.push(...ids);
+    },
+    resolve: async (ids) => {
+      calls.resolved.push(...ids);
+    },
+    returnOrder: async (orderId) => {
+      calls.returned.push(orderId);
+      return { status: 'returned', userId: 'u1', userName: 'سارة', assignmentId: `a-${orderId}` };
+    },
+    notifyPreparer: async (outcome) => {
+      calls.notified.push(outcome.userId);
+    },
+    requestPurchase: async (_availability, overdue) => {
+      calls.purchases.push(overdue.map((record) => record.id));
+      return 'pr1';
+    },
+    purchaseRequestHours: async () => 48,
+  };
+  return { deps, calls };
+}
+
+test('returns an order to its preparer only when every shortage on it is restocked', async () => {
+  const records = [
+    shortage({ id: 'r1', orderId: 'o1', sku: 'A', normalizedSku: 'A' }),
+    shortage({ id: 'r2', orderId: 'o1', sku: 'B', normalizedSku: 'B' }),
+    shortage({ id: 'r3', orderId: 'o2', sku: 'A', normalizedSku: 'A' }),
+  ];
+  const { deps, calls } = fakeDeps(records, { A: stock('A', 3), B: stock('B', 0) });
+
+  const result = await runOrderShortageCheck({ deps, now });
+
+  assert.deepEqual(calls.resolved.sort(), ['r1', 'r3']);
+  assert.deepEqual(calls.returned, ['o2']);
+  assert.deepEqual(calls.notified, ['u1']);
+  assert.equal(result.resolved, 2);
+  assert.equal(result.ordersReturned, 1);
+});
+
+test('leaves shortages untouched when the stock lookup fails', async () => {
+  const { deps, calls } = fakeDeps([shortage({})], { 'DRS-RED-M': new Error('salla down') });
+
+  const result = await runOrderShortageCheck({ deps, now });
+
+  assert.deepEqual(calls.checked, []);
+  assert.deepEqual(calls.resolved, []);
+  assert.equal(result.skus[0].error, 'salla down');
+});
+
+test('raises one purchase request for shortages open past the threshold', async () => {
+  const records = [
+    shortage({ id: 'old', createdAt: hoursAgo(72) }),
+    shortage({ id: 'requested', createdAt: hoursAgo(72), purchaseRequestId: 'pr0' }),
+    shortage({ id: 'new', createdAt: hoursAgo(2) }),
+  ];
+  const { deps, calls } = fakeDeps(records, { 'DRS-RED-M': stock('DRS-RED-M', 0) });
+
+  const result = await runOrderShortageCheck({ deps, now });
+  assert.deepEqual(calls.purchases, [['old']]);
+  assert.equal(result.purchaseRequests, 1);
+
+  const dry = fakeDeps(records, { 'DRS-RED-M': stock('DRS-RED-M', 5) });
+  const dryResult = await runOrderShortageCheck({ deps: dry.deps, now, dryRun: true });
+  assert.equal(dryResult.ordersReturned, 1);
+  assert.deepEqual(dry.calls.resolved, []);
+  assert.deepEqual(dry.calls.returned, []);
+});
+
+test('keeps an order\'s shortages open when handing it back is skipped or fails', async () => {
+  const records = [
+    shortage({ id: 'r1', orderId: 'o1' }),
+    shortage({ id: 'r2', orderId: 'o2' }),
+    shortage({ id: 'r3', orderId: 'o3' }),
+  ];
+  const { deps, calls } = fakeDeps(records, { 'DRS-RED-M': stock('DRS-RED-M', 4) });
+  deps.returnOrder = async (orderId) => {
+    calls.returned.push(orderId);
+    if (orderId === 'o1') return { status: 'skipped', reason: 'reporter_inactive' };
+    if (orderId === 'o2') throw new Error('salla timeout');
+    return { status: 'active', userId: 'u1', userName: 'سارة', assignmentId: 'a-o3' };
+  };
+
+  const result = await runOrderShortageCheck({ deps, now });
+
+  assert.deepEqual(calls.returned, ['o1', 'o2', 'o3']);
+  assert.deepEqual(calls.resolved, ['r3']);
+  assert.equal(result.ordersSkipped, 2);
+  assert.equal(result.ordersAlreadyActive, 1);
+  assert.equal(result.resolved, 1);
+  assert.equal(result.skus[0].resolved, 1);
+});
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  PickupManifestError,
+  buildManifestNumber,
+  findUnmanifestedShipments,
+  parseManifestSignature,
+  riyadhDayStart,
+  summarizeManifestItems,
+  type LabelledShipment,
+} from '../pickup-manifests';
+
+const SIGNATURE = 'data:image/png;base64,iVBORw0KGgo=';
+
+const labelled = (overrides: Partial<LabelledShipment>): LabelledShipment => ({
+  trackingNumber: '231200000001',
+  company: 'smsa',
+  orderNumber: '1001',
+  source: 'salla',
+  labelledAt: new Date('2026-09-21T08:00:00'),
+  ...overrides,
+});
+
+test('buildManifestNumber pads the date and daily sequence and keeps the carrier ASCII', () => {
+  assert.equal(buildManifestNumber('smsa', new Date('2026-09-01T09:00:00Z'), 3), 'MF-20260901-SMSA-03');
+  assert.equal(buildManifestNumber('j&t', new Date('2026-12-31T12:00:00Z'), 12), 'MF-20261231-JT-12');
+  assert.equal(buildManifestNumber('', new Date('2026-01-05T06:00:00Z'), 1), 'MF-20260105-X-01');
+});
+
+test('manifest days follow Riyadh time, not the server clock', () => {
+  const lateEvening = new Date('2026-09-01T22:30:00Z');
+  assert.equal(buildManifestNumber('smsa', lateEvening, 1), 'MF-20260902-SMSA-01');
+  assert.equal(riyadhDayStart(lateEvening).toISOString(), '2026-09-01T21:00:00.000Z');
+  assert.equal(riyadhDayStart(new Date('2026-09-01T20:59:00Z')).toISOString(), '2026-08-31T21:00:00.000Z');
+});
+
+test('summarizeManifestItems counts pieces, COD shipments and rounds the COD total', () => {
+  const totals = summarizeManifestItems([
+    { trackingNumber: 'A', pieces: 2, codAmount: 100.1 },
+    { trackingNumber: 'B', pieces: 0, codAmount: 0 },
+    { trackingNumber: 'C', pieces: 1, codAmount: 49.2 },
+  ]);
+
+  assert.deepEqual(totals, { shipmentCount: 3, pieceCount: 4, codTotal: 149.3, codShipmentCount: 2 });
+  assert.deepEqual(summarizeManifestItems([]), {
+    shipmentCount: 0,
+    pieceCount: 0,
+    codTotal: 0,
+    codShipmentCount: 0,
+  });
+});
+
+test('parseManifestSignature trims the driver details and requires a PNG signature', () => {
+  assert.deepEqual(parseManifestSignature({ driverName: '  خالد ', driverPhone: ' ', signatureDataUrl: SIGNATURE }), {
+    driverName: 'خالد',
+    driverPhone: null,
+    signatureDataUrl: SIGNATURE,
+  });
+
+  assert.throws(() => parseManifestSignature({ signatureDataUrl: SIGNATURE }), PickupManifestError);
+  assert.throws(
+    () => parseManifestSignature({ driverName: 'خالد', signatureDataUrl: 'data:image/jpeg;base64,abc' }),
+    /توقيع المندوب مطلوب/,
+  );
+  assert.throws(
+    () => parseManifestSignature({ driverName: 'خالد', signatureDataUrl: SIGNATURE + 'A'.repeat(400_000) }),
+    /كبيرة جداً/,
+  );
+  assert.throws(() => parseManifestSignature(null), PickupManifestError);
+});
+
+test('findUnmanifestedShipments flags labels the next signed pickup of the same carrier missed', () => {
+  const flagged = findUnmanifestedShipments({
+    labelled: [
+      labelled({ trackingNumber: 'MISSED', labelledAt: new Date('2026-09-21T09:00:00') }),
+      labelled({ trackingNumber: 'ON-MANIFEST', labelledAt: new Date('2026-09-21T08:00:00') }),
+      labelled({ trackingNumber: 'AFTER-PICKUP', labelledAt: new Date('2026-09-21T18:00:00') }),
+      labelled({ trackingNumber: 'OTHER-CARRIER', company: 'aramex' }),
+      labelled({ trackingNumber: 'EARLIER', labelledAt: new Date('2026-09-20T10:00:00') }),
+    ],
+    manifestedTrackingNumbers: new Set(['ON-MANIFEST']),
+    signedManifests: [
+      { manifestNumber: 'MF-20260921-SMSA-01', company: 'smsa', signedAt: new Date('2026-09-21T16:00:00') },
+      { manifestNumber: 'MF-20260920-SMSA-01', company: 'smsa', signedAt: new Date('2026-09-20T16:00:00') },
+    ],
+  });
+
+  assert.deepEqual(
+    flagged.map((shipment) => [shipment.trackingNumber, shipment.expectedManifestNumber]),
+    [
+      ['EARLIER', 'MF-20260920-SMSA-01'],
+      ['MISSED', 'MF-20260921-SMSA-01'],
+    ],
+  );
+});
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  ProductBinError,
+  assertBinMovable,
+  binCodeForLocation,
+  describeBinPicks,
+  formatBinCode,
+  normalizeBinAddress,
+  parseBinCode,
+  planBinPicks,
+} from '../product-bins';
+
+test('formats structured addresses and reads legacy free-text codes back', () => {
+  const address = normalizeBinAddress({ zone: ' a ', aisle: '03', shelf: 2, bin: 'b' });
+  assert.deepEqual(address, { zone: 'A', aisle: '03', shelf: '2', bin: 'B' });
+  assert.equal(formatBinCode(address!), 'A-03-2-B');
+  assert.equal(formatBinCode({ zone: 'OVF', aisle: null, shelf: '1', bin: null }), 'OVF-1');
+  assert.equal(normalizeBinAddress({ zone: '  ' }), null);
+
+  assert.deepEqual(parseBinCode('a1-03-b'), { zone: 'A1', aisle: '03', shelf: 'B', bin: null });
+  assert.deepEqual(parseBinCode('A-1-2-B-X'), { zone: 'A', aisle: '1', shelf: '2', bin: 'BX' });
+  assert.equal(parseBinCode(''), null);
+
+  assert.equal(binCodeForLocation(' a 3 - 2 '), 'A-3-2');
+  assert.equal(binCodeForLocation('A-1-2-B-X'), 'A-1-2-BX');
+  assert.equal(binCodeForLocation(null), null);
+});
+
+test('sends the picker to the primary bin when it can fill the line', () => {
+  const bins = [
+    { code: 'A-1', quantity: 3, isPrimary: true },
+    { code: 'OVF-1', quantity: 40, isPrimary: false },
+  ];
+  assert.deepEqual(planBinPicks(bins, 2), [{ code: 'A-1', quantity: 2 }]);
+});
+
+test('falls back to the overflow bin that holds the stock when the pick face is empty', () => {
+  const bins = [
+    { code: 'A-1', quantity: 0, isPrimary: true },
+    { code: 'OVF-1', quantity: 40, isPrimary: false },
+    { code: 'OVF-2', quantity: 2, isPrimary: false },
+  ];
+  // The smallest bin that still covers the line is drained first.
+  assert.deepEqual(planBinPicks(bins, 2), [{ code: 'OVF-2', quantity: 2 }]);
+  assert.deepEqual(planBinPicks(bins, 5), [{ code: 'OVF-1', quantity: 5 }]);
+});
+
+test('splits a line across bins when no single bin can fill it', () => {
+  const bins = [
+    { code: 'A-1', quantity: 1, isPrimary: true },
+    { code: 'OVF-1', quantity: 2, isPrimary: false },
+    { code: 'OVF-2', quantity: 1, isPrimary: false },
+  ];
+  const picks = planBinPicks(bins, 3);
+  assert.deepEqual(picks, [
+    { code: 'A-1', quantity: 1 },
+    { code: 'OVF-1', quantity: 2 },
+  ]);
+  assert.equal(describeBinPicks(picks), 'اسحب من A-1 ×1، OVF-1 ×2');
+
+  // Short overall: the remainder stays on the first bin so the shortage is
+  // reported there.
+  assert.deepEqual(planBinPicks(bins, 6), [
+    { code: 'A-1', quantity: 3 },
+    { code: 'OVF-1', quantity: 2 },
+    { code: 'OVF-2', quantity: 1 },
+  ]);
+});
+
+test('uses the primary bin when no stock has been counted yet', () => {
+  const bins = [
+    { code: 'OVF-1', quantity: 0, isPrimary: false },
+    { code: 'A-1', quantity: 0, isPrimary: true },
+  ];
+  assert.deepEqual(planBinPicks(bins, 1), [{ code: 'A-1', quantity: 1 }]);
+  assert.deepEqual(planBinPicks([], 1), []);
+});
+
+test('rejects moves to the same bin or beyond the source quantity', () => {
+  const from = { id: 'bin-1', code: 'A-1', quantity: 2 };
+  assert.throws(() => assertBinMovable(from, { id: 'bin-1', code: 'A-1' }, 1), ProductBinError);
+  assert.throws(
+    () => assertBinMovable(from, { code: 'OVF-1' }, 3),
+    (error: unknown) => error instanceof ProductBinError && error.statusCode === 409,
+  );
+  assert.doesNotThrow(() => assertBinMovable(from, { code: 'OVF-1' }, 2));
+});
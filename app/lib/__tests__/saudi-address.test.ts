@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  assessSaudiAddress,
+  extractShortAddress,
+  normalizeSaudiPostcode,
+  parseShortAddress,
+  resolveSaudiCity,
+  resolveSaudiDistrict,
+  saudiAddressFromOrder,
+} from '@/lib/saudi-address';
+
+test('parseShortAddress accepts spacing, lower case and Arabic digits and rejects other shapes', () => {
+  assert.equal(parseShortAddress('RRRD2929'), 'RRRD2929');
+  assert.equal(parseShortAddress(' rrrd-2929 '), 'RRRD2929');
+  assert.equal(parseShortAddress('JEDA ١٢٣٤'), 'JEDA1234');
+  assert.equal(parseShortAddress('RRD2929'), null);
+  assert.equal(parseShortAddress('RRRD29291'), null);
+  assert.equal(parseShortAddress(null), null);
+
+  assert.equal(extractShortAddress('حي الصفا، العنوان المختصر jesa 4521 بجوار المسجد'), 'JESA4521');
+  assert.equal(extractShortAddress('شارع الأمير سلطان 12345'), null);
+});
+
+test('normalizeSaudiPostcode keeps five digits and rejects placeholders', () => {
+  assert.equal(normalizeSaudiPostcode('12345'), '12345');
+  assert.equal(normalizeSaudiPostcode('٢٣٤٥٦'), '23456');
+  assert.equal(normalizeSaudiPostcode('12345-6789'), '12345');
+  assert.equal(normalizeSaudiPostcode(34421), '34421');
+  assert.equal(normalizeSaudiPostcode('00000'), null);
+  assert.equal(normalizeSaudiPostcode('1234'), null);
+  assert.equal(normalizeSaudiPostcode('NW1 6XE'), null);
+});
+
+test('resolveSaudiCity folds Arabic and English spellings onto one city', () => {
+  for (const name of ['الرياض', 'رياض', 'Riyadh', 'AR RIYADH', 'Riyadh, Saudi Arabia']) {
+    assert.equal(resolveSaudiCity(name)?.key, 'riyadh', name);
+  }
+  for (const name of ['الخبر', 'Al Khobar', 'al-khobar', 'Khobar', 'AlKhobar']) {
+    assert.equal(resolveSaudiCity(name)?.key, 'khobar', name);
+  }
+  assert.equal(resolveSaudiCity('جده')?.nameEn, 'Jeddah');
+  assert.equal(resolveSaudiCity('مكة')?.key, 'makkah');
+  assert.equal(resolveSaudiCity('الأحساء')?.key, 'hofuf');
+  assert.equal(resolveSaudiCity("Ha'il")?.key, 'hail');
+  assert.equal(resolveSaudiCity('London'), null);
+
+  const jeddah = resolveSaudiCity('Jeddah');
+  assert.equal(resolveSaudiDistrict(jeddah, 'حي الصفا')?.nameEn, 'As Safa');
+  assert.equal(resolveSaudiDistrict(jeddah, 'Al Safa district')?.nameAr, 'الصفا');
+  assert.equal(resolveSaudiDistrict(jeddah, 'حي غير موجود'), null);
+});
+
+test('assessSaudiAddress scores a complete address as good', () => {
+  const assessment = assessSaudiAddress({
+    city: 'جدة',
+    district: 'الصفا',
+    line1: 'شارع الأمير متعب، عمارة 12',
+    postalCode: '23453',
+    shortCode: 'jesa4521',
+    coordinates: '21.58,39.21',
+  });
+
+  assert.equal(assessment.score, 100);
+  assert.equal(assessment.level, 'good');
+  assert.equal(assessment.likelyToFail, false);
+  assert.equal(assessment.shortCode, 'JESA4521');
+  assert.equal(assessment.city?.nameEn, 'Jeddah');
+  assert.equal(assessment.district?.nameEn, 'As Safa');
+  assert.deepEqual(assessment.issues, []);
+});
+
+test('assessSaudiAddress flags addresses a courier is unlikely to find', () => {
+  const cityOnly = assessSaudiAddress({ city: 'Riyadh', line1: 'الرياض' });
+  assert.equal(cityOnly.likelyToFail, true);
+  assert.deepEqual(
+    cityOnly.issues.map((issue) => [issue.code, issue.severity]),
+    [
+      ['missing_short_address', 'info'],
+      ['missing_street', 'error'],
+      ['missing_district', 'warning'],
+    ],
+  );
+
+  // A short code alone is enough to find the building.
+  const shortCodeOnly = assessSaudiAddress({ city: 'Riyadh', shortCode: 'RRRD2929', district: 'العليا' });
+  assert.equal(shortCodeOnly.likelyToFail, false);
+  assert.equal(shortCodeOnly.issues.find((issue) => issue.code === 'missing_street')?.severity, 'warning');
+
+  const noCity = assessSaudiAddress({ line1: 'شارع التحلية، مبنى 4', district: 'الروضة' });
+  assert.equal(noCity.likelyToFail, true);
+  assert.equal(noCity.issues[0].code, 'missing_city');
+
+  const mismatched = assessSaudiAddress({
+    city: 'Dammam',
+    district: 'الفيصلية',
+    line1: 'شارع الملك سعود 18',
+    postalCode: '12345',
+    shortCode: 'bad',
+  });
+  assert.deepEqual(
+    mismatched.issues.map((issue) => issue.code),
+    ['invalid_short_address', 'postcode_region_mismatch'],
+  );
+  assert.equal(mismatched.postalCode, '12345');
+  assert.equal(mismatched.likelyToFail, false);
+});
+
+test('saudiAddressFromOrder reads the Salla ship-to block', () => {
+  const input = saudiAddressFromOrder({
+    shipping: {
+      ship_to: {
+        city: 'الرياض',
+        district: { id: 5, name: 'النرجس' },
+        address_line: 'شارع أبي بكر الصديق',
+        street_number: '8123',
+        postal_code: 13327,
+        short_address: 'RNAA8123',
+        geo_coordinates: { lat: 24.83, lng: 46.67 },
+      },
+    },
+    shipping_address: { city: 'Jeddah' },
+  });
+
+  assert.deepEqual(input, {
+    city: 'الرياض',
+    district: 'النرجس',
+    line1: 'شارع أبي بكر الصديق',
+    line2: '8123',
+    postalCode: '13327',
+    shortCode: 'RNAA8123',
+    coordinates: '24.83,46.67',
+  });
+  assert.deepEqual(saudiAddressFromOrder(null).city, null);
+});
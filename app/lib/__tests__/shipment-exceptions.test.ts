@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { classifySmsaScanIssue } from '@/lib/smsa-status';
+import {
+  detectShipmentExceptions,
+  shouldReopenException,
+  type ScanLike,
+  type TrackedShipmentLike,
+} from '../shipment-exceptions';
+
+const NOW = new Date('2026-09-23T12:00:00Z');
+const THRESHOLDS = { noScanDays: 3, failedAttempts: 2 };
+
+const scan = (scanDateTime: string, scanType: string, scanDescription: string): ScanLike => ({
+  scanType,
+  scanDescription,
+  scanDateTime,
+  city: 'Riyadh',
+});
+
+const shipment = (scans: ScanLike[], overrides: Partial<TrackedShipmentLike> = {}): TrackedShipmentLike => ({
+  awb: '231200000001',
+  isDelivered: null,
+  createdAt: new Date('2026-09-18T08:00:00Z'),
+  scans,
+  ...overrides,
+});
+
+const types = (result: ReturnType<typeof detectShipmentExceptions>) => result.map((entry) => entry.type).sort();
+
+test('classifySmsaScanIssue prefers return and address problems over a generic failed attempt', () => {
+  assert.equal(classifySmsaScanIssue({ code: 'RT', description: 'Returned to shipper' }), 'returned');
+  assert.equal(
+    classifySmsaScanIssue({ code: 'UD', description: 'Unable to deliver - incorrect address' }),
+    'address_issue',
+  );
+  assert.equal(classifySmsaScanIssue({ code: 'UD', description: 'Consignee not available' }), 'failed_attempt');
+  assert.equal(classifySmsaScanIssue({ code: 'IT', description: 'In transit' }), null);
+  assert.equal(classifySmsaScanIssue({ code: null, description: null }), null);
+});
+
+test('delivered shipments never raise exceptions', () => {
+  const result = detectShipmentExceptions(
+    shipment([scan('2026-09-10T09:00:00Z', 'UD', 'Not delivered')], { isDelivered: true }),
+    THRESHOLDS,
+    NOW,
+  );
+  assert.deepEqual(result, []);
+});
+
+test('a shipment without scans for the threshold is stuck, measured from its last scan', () => {
+  const stuck = detectShipmentExceptions(
+    shipment([scan('2026-09-19T10:00:00Z', 'IT', 'In transit')]),
+    THRESHOLDS,
+    NOW,
+  );
+  assert.deepEqual(types(stuck), ['no_scan']);
+  assert.equal(stuck[0].evidenceAt.toISOString(), '2026-09-19T10:00:00.000Z');
+
+  const moving = detectShipmentExceptions(shipment([scan('2026-09-22T10:00:00Z', 'IT', 'In transit')]), THRESHOLDS, NOW);
+  assert.deepEqual(moving, []);
+
+  const neverScanned = detectShipmentExceptions(shipment([]), THRESHOLDS, NOW);
+  assert.deepEqual(types(neverScanned), ['no_scan']);
+
+  assert.deepEqual(detectShipmentExceptions(shipment([]), { ...THRESHOLDS, noScanDays: 0 }, NOW), []);
+});
+
+test('failed attempts are counted across address problems and raised at the threshold', () => {
+  const once = detectShipmentExceptions(
+    shipment([scan('2026-09-22T09:00:00Z', 'UD', 'Consignee not available')]),
+    THRESHOLDS,
+    NOW,
+  );
+  assert.deepEqual(once, []);
+
+  const twice = detectShipmentExceptions(
+    shipment([
+      scan('2026-09-21T09:00:00Z', 'UD', 'Consignee not available'),
+      scan('2026-09-22T09:00:00Z', 'BA', 'Incorrect address'),
+    ]),
+    THRESHOLDS,
+    NOW,
+  );
+  assert.deepEqual(types(twice), ['address_issue', 'failed_attempts']);
+  const failed = twice.find((entry) => entry.type === 'failed_attempts');
+  assert.equal(failed?.evidenceAt.toISOString(), '2026-09-22T09:00:00.000Z');
+});
+
+test('a return to shipper replaces the other exceptions', () => {
+  const result = detectShipmentExceptions(
+    shipment([
+      scan('2026-09-15T09:00:00Z', 'UD', 'Consignee not available'),
+      scan('2026-09-16T09:00:00Z', 'UD', 'Refused'),
+      scan('2026-09-17T09:00:00Z', 'RT', 'Returned to shipper'),
+    ]),
+    THRESHOLDS,
+    NOW,
+  );
+  assert.deepEqual(types(result), ['returned_to_shipper']);
+});
+
+test('resolved exceptions reopen only on newer evidence', () => {
+  const resolved = { status: 'resolved', evidenceAt: new Date('2026-09-20T09:00:00Z') };
+  assert.equal(shouldReopenException(resolved, { evidenceAt: new Date('2026-09-20T09:00:00Z') }), false);
+  assert.equal(shouldReopenException(resolved, { evidenceAt: new Date('2026-09-21T09:00:00Z') }), true);
+  assert.equal(
+    shouldReopenException({ ...resolved, status: 'open' }, { evidenceAt: new Date('2026-09-21T09:00:00Z') }),
+    false,
+  );
+});
@@ -0,0 +1,156 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { CarrierTrackingEvent } from '@/app/lib/carriers/types';
+import {
+  chunk,
+  localTrackingEvent,
+  normalizeTrackingEvent,
+  planTrackingRefreshBatches,
+  planTrackingUpdate,
+  trackingEventFingerprint,
+} from '../tracking-history';
+
+const NOW = new Date('2026-09-25T12:00:00Z');
+
+const event = (timestamp: string | null, code: string | null, description: string | null): CarrierTrackingEvent => ({
+  code,
+  description,
+  city: 'Riyadh',
+  timestamp,
+  timezone: null,
+  receivedBy: null,
+});
+
+test('normalizeTrackingEvent reads SMSA codes and carrier descriptions without mistaking failed deliveries', () => {
+  assert.equal(normalizeTrackingEvent({ code: 'DL', description: 'Delivered' }, 'smsa'), 'delivered');
+  assert.equal(normalizeTrackingEvent({ code: 'UD', description: 'Not delivered - no answer' }, 'smsa'), 'failed_attempt');
+  assert.equal(normalizeTrackingEvent({ code: null, description: 'Undelivered' }, 'smsa'), 'failed_attempt');
+  assert.equal(normalizeTrackingEvent({ code: 'RT', description: 'Returned to shipper' }, 'smsa'), 'returned');
+  assert.equal(normalizeTrackingEvent({ code: 'OD', description: 'Out for delivery' }, 'smsa'), 'out_for_delivery');
+  assert.equal(normalizeTrackingEvent({ code: 'SH014', description: 'Picked Up From Shipper' }, 'aramex'), 'picked_up');
+  assert.equal(normalizeTrackingEvent({ code: 'PP', description: 'Awaiting pickup' }, 'smsa'), 'created');
+  assert.equal(normalizeTrackingEvent({ code: 'XX', description: 'Customs comment' }, 'smsa'), null);
+  assert.equal(normalizeTrackingEvent({ code: 'failed', description: null }, 'local'), 'failed_attempt');
+  assert.equal(normalizeTrackingEvent({ code: 'collected', description: null }, 'local'), 'delivered');
+});
+
+test('planTrackingUpdate appends only unseen scans and records each status change in scan order', () => {
+  const pickedUp = event('2026-09-22T08:00:00Z', 'PU', 'Picked up');
+  const transit = event('2026-09-23T08:00:00Z', 'IT', 'In transit');
+  const transitAgain = event('2026-09-23T18:00:00Z', 'AR', 'Arrived at facility');
+  const outForDelivery = event('2026-09-24T07:00:00Z', 'OD', 'Out for delivery');
+
+  const plan = planTrackingUpdate({
+    carrier: 'smsa',
+    previousStatus: 'picked_up',
+    knownFingerprints: new Set([trackingEventFingerprint(pickedUp)]),
+    // Carriers return newest first.
+    events: [outForDelivery, transitAgain, transit, pickedUp],
+    now: NOW,
+  });
+
+  assert.deepEqual(
+    plan.scans.map((scan) => scan.event.code),
+    ['IT', 'AR', 'OD'],
+  );
+  assert.deepEqual(
+    plan.transitions.map((transition) => [transition.fromStatus, transition.toStatus, transition.occurredAt.toISOString()]),
+    [
+      ['picked_up', 'in_transit', '2026-09-23T08:00:00.000Z'],
+      ['in_transit', 'out_for_delivery', '2026-09-24T07:00:00.000Z'],
+    ],
+  );
+  assert.equal(plan.status, 'out_for_delivery');
+
+  const repeat = planTrackingUpdate({
+    carrier: 'smsa',
+    previousStatus: plan.status,
+    knownFingerprints: new Set([pickedUp, transit, transitAgain, outForDelivery].map(trackingEventFingerprint)),
+    events: [outForDelivery, transitAgain, transit, pickedUp],
+    now: NOW,
+  });
+  assert.deepEqual(repeat, { scans: [], transitions: [], status: 'out_for_delivery' });
+});
+
+test("planTrackingUpdate trusts the carrier's delivered flag unless the parcel went back", () => {
+  const delivered = planTrackingUpdate({
+    carrier: 'aramex',
+    previousStatus: 'out_for_delivery',
+    knownFingerprints: new Set(),
+    events: [event('2026-09-24T15:00:00Z', 'SH005', 'Proof of delivery captured')],
+    delivered: true,
+    now: NOW,
+  });
+  assert.deepEqual(
+    delivered.transitions.map((transition) => [transition.toStatus, transition.fingerprint]),
+    [['delivered', null]],
+  );
+  assert.equal(delivered.transitions[0].occurredAt.toISOString(), '2026-09-24T15:00:00.000Z');
+
+  const returned = planTrackingUpdate({
+    carrier: 'smsa',
+    previousStatus: 'failed_attempt',
+    knownFingerprints: new Set(),
+    events: [event('2026-09-24T15:00:00Z', 'RT', 'Returned to shipper')],
+    delivered: true,
+    now: NOW,
+  });
+  assert.deepEqual(
+    returned.transitions.map((transition) => transition.toStatus),
+    ['returned'],
+  );
+});
+
+test('localTrackingEvent changes only when the delivery assignment moves on', () => {
+  const shipment = {
+    status: 'assigned',
+    shippingCity: 'جدة',
+    createdAt: new Date('2026-09-20T08:00:00Z'),
+    assignment: {
+      status: 'assigned',
+      assignedAt: new Date('2026-09-20T09:00:00Z'),
+      pickedUpAt: null,
+      deliveredAt: null,
+      failedAt: null,
+      cancelledAt: null,
+      failureReason: null,
+      cancellationReason: null,
+    },
+  };
+  const assigned = localTrackingEvent(shipment);
+  assert.equal(trackingEventFingerprint(assigned), trackingEventFingerprint(localTrackingEvent({ ...shipment })));
+
+  const failed = localTrackingEvent({
+    ...shipment,
+    assignment: {
+      ...shipment.assignment,
+      status: 'failed',
+      failedAt: new Date('2026-09-21T13:00:00Z'),
+      failureReason: 'العميل لا يرد',
+    },
+  });
+  assert.equal(failed.timestamp, '2026-09-21T13:00:00.000Z');
+  assert.equal(failed.description, 'العميل لا يرد');
+  assert.notEqual(trackingEventFingerprint(failed), trackingEventFingerprint(assigned));
+
+  assert.equal(localTrackingEvent({ ...shipment, assignment: null }).code, 'assigned');
+});
+
+test('chunk splits into carrier-sized batches', () => {
+  assert.deepEqual(chunk([1, 2, 3, 4, 5], 2), [[1, 2], [3, 4], [5]]);
+  assert.deepEqual(chunk([], 20), []);
+});
+
+test('refresh batches keep one carrier per batch and resume after the saved key', () => {
+  const record = (carrier: string, sourceId: string) => ({ carrier, kind: 'shipment', sourceType: 'salla', sourceId });
+  const records = [record('smsa', 's3'), record('aramex', 'a1'), record('smsa', 's1'), record('smsa', 's2')];
+  const ids = (batches: { sourceId: string }[][]) => batches.map((batch) => batch.map((entry) => entry.sourceId));
+
+  assert.deepEqual(ids(planTrackingRefreshBatches(records, 2)), [['a1'], ['s1', 's2'], ['s3']]);
+  assert.deepEqual(
+    ids(planTrackingRefreshBatches(records, 2, 'smsa:shipment:salla:s1')),
+    [['s2', 's3'], ['a1'], ['s1']],
+  );
+  // A cursor past the last key starts over from the beginning.
+  assert.deepEqual(ids(planTrackingRefreshBatches(records, 5, 'zzz')), [['a1'], ['s1', 's2', 's3']]);
+});
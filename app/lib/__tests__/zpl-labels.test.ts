@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { LocalShipment } from '@prisma/client';
+import { encodeCode128 } from '../barcode-code128';
+import { generateLocalShipmentLabelZpl } from '../local-shipping/label-zpl';
+import { escapeZplFieldData, zplCode128, zplGraphicField, zplLabel, zplText } from '../zpl';
+import { renderOrderNumberTicketZpl, renderSkuLabelZpl } from '../zpl-labels';
+
+test('escapeZplFieldData hex-escapes ZPL control characters', () => {
+  assert.equal(escapeZplFieldData('A^B~C_D'), 'A_5EB_7EC_5FD');
+  assert.equal(escapeZplFieldData('line1\nline2'), 'line1 line2');
+});
+
+test('zplGraphicField packs rows MSB first and collapses repeated rows', () => {
+  const row = [true, false, false, false, false, false, false, true, true];
+  const field = zplGraphicField([row, row, [false, false, false, false, false, false, false, false, true]]);
+  assert.equal(field, '^GFA,6,6,2,8180:0080');
+});
+
+test('zplCode128 draws every module of the encoded symbol on whole dots', () => {
+  const { modules } = encodeCode128('102345');
+  const field = zplCode128('102345', { x: 10.4, y: 20, height: 50, moduleDots: 3 });
+  const match = field.match(/^\^FO10,20\^GFA,(\d+),\d+,(\d+),([0-9A-F]+)(:*)\^FS$/);
+  assert.ok(match, field);
+  const bytesPerRow = Number(match[2]);
+  assert.equal(bytesPerRow, Math.ceil((modules * 3) / 8));
+  assert.equal(Number(match[1]), bytesPerRow * 50);
+  assert.equal(match[3].length, bytesPerRow * 2);
+  assert.equal(match[4].length, 49);
+});
+
+test('zplText picks a Unicode font for Arabic and right-aligns in a field block', () => {
+  const latin = zplText('Order #1', { x: 0, y: 0, width: 300, height: 24 });
+  assert.ok(latin.includes('^A0N,24,24'));
+  const arabic = zplText('الرياض', { x: 0, y: 0, width: 300, height: 24, align: 'R', reverse: true });
+  assert.match(arabic, /\^A@N,24,24,[^^]+\.TTF/);
+  assert.ok(arabic.includes('^FB300,1,0,R,0^FR^FH^FDالرياض^FS'));
+});
+
+test('zplLabel wraps fields with UTF-8, shaping and label size', () => {
+  const label = zplLabel(['^FO0,0^FDX^FS'], { widthDots: 320, heightDots: 176 });
+  const lines = label.split('\n');
+  assert.equal(lines[0], '^XA');
+  assert.ok(lines.includes('^CI28'));
+  assert.ok(lines.includes('^PW320'));
+  assert.ok(lines.includes('^LL176'));
+  assert.equal(lines.at(-1), '^XZ');
+});
+
+test('small order-number and SKU labels fit the 40x22mm stock', () => {
+  const ticket = renderOrderNumberTicketZpl('245871', '18/10/26');
+  assert.ok(ticket.includes('^PW320'));
+  assert.ok(ticket.includes('^FD2 4 5 8 7 1^FS'));
+  assert.ok(ticket.includes('^FD18/10/26^FS'));
+
+  const sku = renderSkuLabelZpl('DRS-101-BLK-M', 'Abaya');
+  assert.ok(sku.includes('^FDDRS-101-BLK-M^FS'));
+  assert.ok(sku.includes('^FDAbaya^FS'));
+  assert.ok(!renderSkuLabelZpl('DRS-1').includes('^FDAbaya'));
+});
+
+test('local shipment label carries the tracking code, recipient and COD box', () => {
+  const shipment = {
+    id: 'ship-1',
+    orderNumber: '245871',
+    trackingNumber: 'LOC-245871',
+    customerName: 'سارة أحمد',
+    customerPhone: '0551234567',
+    shippingCity: 'الرياض',
+    shippingAddress: 'حي النرجس، شارع الأمير',
+    shippingPostcode: null,
+    orderTotal: 250,
+    codAmount: 250,
+    paymentMethod: 'cod',
+    isCOD: true,
+    orderItems: [],
+    notes: null,
+  } as unknown as LocalShipment;
+
+  const zpl = generateLocalShipmentLabelZpl(shipment, {
+    name: 'مليحة',
+    nameEn: 'Mleha',
+    phone: '0500000000',
+    address: 'Riyadh',
+    city: 'Riyadh',
+  });
+
+  assert.ok(zpl.startsWith('^XA'));
+  assert.ok(zpl.endsWith('^XZ'));
+  assert.ok(zpl.includes('^FDLOC-245871^FS'));
+  assert.ok(zpl.includes('^FDسارة أحمد^FS'));
+  assert.ok(zpl.includes('^FDCOD 250.00 SAR^FS'));
+});
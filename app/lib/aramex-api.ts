@@ -0,0 +1,309 @@
+import { log } from './logger';
+
+type AramexEnvironment = 'production' | 'sandbox';
+
+const BASE_URLS: Record<AramexEnvironment, string> = {
+  production: 'https://ws.aramex.net/ShippingAPI.V2',
+  sandbox: 'https://ws.dev.aramex.net/ShippingAPI.V2',
+};
+
+/** Aramex's standard 4x6 label report. */
+const LABEL_REPORT_ID = 9729;
+
+const readEnv = (key: string): string | undefined => {
+  const value = process.env[key]?.trim();
+  return value || undefined;
+};
+
+const environment: AramexEnvironment =
+  readEnv('ARAMEX_API_ENVIRONMENT')?.toLowerCase() === 'production' ? 'production' : 'sandbox';
+
+export interface AramexClientInfo {
+  UserName: string;
+  Password: string;
+  Version: string;
+  AccountNumber: string;
+  AccountPin: string;
+  AccountEntity: string;
+  AccountCountryCode: string;
+  Source: number;
+}
+
+/**
+ * Where Aramex requests go. Defaults to the configured account; carrier
+ * adapter tests pass a local fake of the Aramex API instead.
+ */
+export interface AramexTransport {
+  baseUrl: string;
+  clientInfo: AramexClientInfo;
+  fetch: typeof fetch;
+}
+
+export const defaultAramexTransport: AramexTransport = {
+  baseUrl: (readEnv('ARAMEX_API_BASE_URL') ?? BASE_URLS[environment]).replace(/\/$/, ''),
+  clientInfo: {
+    UserName: readEnv('ARAMEX_USERNAME') ?? '',
+    Password: readEnv('ARAMEX_PASSWORD') ?? '',
+    Version: 'v1.0',
+    AccountNumber: readEnv('ARAMEX_ACCOUNT_NUMBER') ?? '',
+    AccountPin: readEnv('ARAMEX_ACCOUNT_PIN') ?? '',
+    AccountEntity: readEnv('ARAMEX_ACCOUNT_ENTITY') ?? 'RUH',
+    AccountCountryCode: readEnv('ARAMEX_ACCOUNT_COUNTRY_CODE') ?? 'SA',
+    Source: 24,
+  },
+  fetch: (input, init) => fetch(input, init),
+};
+
+export const ARAMEX_PRODUCT_TYPE = readEnv('ARAMEX_PRODUCT_TYPE') ?? 'ONP';
+
+export interface AramexNotification {
+  Code?: string;
+  Message?: string;
+}
+
+export interface AramexParty {
+  Reference1?: string;
+  AccountNumber?: string;
+  PartyAddress: {
+    Line1: string;
+    Line2?: string;
+    Line3?: string;
+    City: string;
+    PostCode?: string;
+    CountryCode: string;
+    Longitude?: number;
+    Latitude?: number;
+  };
+  Contact: {
+    PersonName: string;
+    CompanyName: string;
+    PhoneNumber1: string;
+    PhoneNumber2?: string;
+    CellPhone: string;
+    EmailAddress: string;
+  };
+}
+
+export interface AramexShipmentInput {
+  Reference1: string;
+  Shipper: AramexParty;
+  Consignee: AramexParty;
+  ShippingDateTime: string;
+  Details: {
+    ActualWeight: { Unit: 'KG'; Value: number };
+    DescriptionOfGoods: string;
+    GoodsOriginCountry: string;
+    NumberOfPieces: number;
+    ProductGroup: 'DOM' | 'EXP';
+    ProductType: string;
+    PaymentType: 'P' | 'C' | '3';
+    PaymentOptions?: string;
+    Services?: string;
+    CashOnDeliveryAmount?: { CurrencyCode: string; Value: number } | null;
+    CustomsValueAmount?: { CurrencyCode: string; Value: number } | null;
+  };
+}
+
+export interface AramexCreatedShipment {
+  ID: string;
+  Reference1?: string;
+  HasErrors?: boolean;
+  Notifications?: AramexNotification[];
+  ShipmentLabel?: { LabelURL?: string | null; LabelFileContents?: string | null } | null;
+}
+
+export interface AramexTrackingUpdate {
+  WaybillNumber?: string;
+  UpdateCode?: string;
+  UpdateDescription?: string;
+  UpdateDateTime?: string;
+  UpdateLocation?: string;
+  Comments?: string;
+  ProblemCode?: string;
+}
+
+export type AramexResult<T> =
+  | ({ success: true; rawResponse: unknown } & T)
+  | { success: false; error: string; errorCode: string; rawResponse?: unknown };
+
+/** Aramex's WCF JSON dates look like `/Date(1700000000000+0300)/`. */
+export const toAramexDate = (date: Date) => `/Date(${date.getTime()})/`;
+
+export const parseAramexDate = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const match = value.match(/\/Date\((-?\d+)([+-]\d{4})?\)\//);
+  if (!match) {
+    const parsed = Date.parse(value);
+    return Number.isFinite(parsed) ? new Date(parsed).toISOString() : null;
+  }
+  return new Date(Number(match[1])).toISOString();
+};
+
+const notificationText = (notifications: AramexNotification[] | undefined) =>
+  (notifications ?? [])
+    .map((notification) => [notification.Code, notification.Message].filter(Boolean).join(': '))
+    .filter(Boolean)
+    .join(' | ');
+
+const hasCredentials = (transport: AramexTransport) =>
+  Boolean(transport.clientInfo.UserName && transport.clientInfo.Password && transport.clientInfo.AccountNumber);
+
+async function postAramex<T = any>(
+  transport: AramexTransport,
+  path: string,
+  body: Record<string, unknown>,
+): Promise<AramexResult<{ data: T }>> {
+  if (!hasCredentials(transport)) {
+    log.error('Aramex credentials not configured');
+    return {
+      success: false,
+      error: 'Aramex API credentials not configured. Please check your environment variables.',
+      errorCode: 'MISSING_CREDENTIALS',
+    };
+  }
+
+  try {
+    const response = await transport.fetch(`${transport.baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify({ ClientInfo: transport.clientInfo, ...body }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      log.error('Aramex API request failed', { path, status: response.status, error: errorText });
+      return {
+        success: false,
+        error: `Aramex API error: ${response.status}`,
+        errorCode: response.status === 401 ? 'AUTHENTICATION_FAILED' : 'API_ERROR',
+        rawResponse: errorText,
+      };
+    }
+
+    const data = await response.json();
+    if (data?.HasErrors) {
+      const message = notificationText(data.Notifications);
+      log.error('Aramex API returned errors', { path, notifications: data.Notifications });
+      return {
+        success: false,
+        error: message || 'Aramex rejected the request',
+        errorCode: data.Notifications?.[0]?.Code || 'SHIPMENT_FAILED',
+        rawResponse: data,
+      };
+    }
+
+    return { success: true, data, rawResponse: data };
+  } catch (error) {
+    log.error('Error calling Aramex API', { path, error });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      errorCode: 'EXCEPTION',
+    };
+  }
+}
+
+export async function createAramexShipment(
+  shipment: AramexShipmentInput,
+  transport: AramexTransport = defaultAramexTransport,
+): Promise<AramexResult<{ shipment: AramexCreatedShipment }>> {
+  log.info('Creating Aramex shipment', { reference: shipment.Reference1, baseUrl: transport.baseUrl });
+
+  const result = await postAramex<{ Shipments?: AramexCreatedShipment[] }>(
+    transport,
+    '/Shipping/Service_1_0.svc/json/CreateShipments',
+    {
+      LabelInfo: { ReportID: LABEL_REPORT_ID, ReportType: 'URL' },
+      Shipments: [shipment],
+      Transaction: null,
+    },
+  );
+  if (!result.success) {
+    return result;
+  }
+
+  const created = result.data.Shipments?.[0];
+  if (!created?.ID || created.HasErrors) {
+    return {
+      success: false,
+      error: notificationText(created?.Notifications) || 'Aramex did not return a shipment number',
+      errorCode: 'SHIPMENT_FAILED',
+      rawResponse: result.rawResponse,
+    };
+  }
+
+  log.info('Aramex shipment created successfully', { id: created.ID, reference: shipment.Reference1 });
+  return { success: true, shipment: created, rawResponse: result.rawResponse };
+}
+
+/** Fetches the label PDF for a shipment, as base64. */
+export async function printAramexLabel(
+  shipmentNumber: string,
+  transport: AramexTransport = defaultAramexTransport,
+): Promise<string | null> {
+  const result = await postAramex<{ ShipmentLabel?: AramexCreatedShipment['ShipmentLabel'] }>(
+    transport,
+    '/Shipping/Service_1_0.svc/json/PrintLabel',
+    {
+      ShipmentNumber: shipmentNumber,
+      LabelInfo: { ReportID: LABEL_REPORT_ID, ReportType: 'URL' },
+    },
+  );
+  if (!result.success) {
+    return null;
+  }
+  return downloadAramexLabel(result.data.ShipmentLabel, transport);
+}
+
+export async function downloadAramexLabel(
+  label: AramexCreatedShipment['ShipmentLabel'],
+  transport: AramexTransport = defaultAramexTransport,
+): Promise<string | null> {
+  if (label?.LabelFileContents) {
+    return label.LabelFileContents;
+  }
+  if (!label?.LabelURL) {
+    return null;
+  }
+
+  try {
+    const response = await transport.fetch(label.LabelURL);
+    if (!response.ok) {
+      log.error('Aramex label download failed', { status: response.status });
+      return null;
+    }
+    return Buffer.from(await response.arrayBuffer()).toString('base64');
+  } catch (error) {
+    log.error('Error downloading Aramex label', { error });
+    return null;
+  }
+}
+
+export async function trackAramexShipments(
+  shipmentNumbers: string[],
+  transport: AramexTransport = defaultAramexTransport,
+): Promise<Map<string, AramexTrackingUpdate[]>> {
+  const results = new Map<string, AramexTrackingUpdate[]>();
+  const normalized = Array.from(new Set(shipmentNumbers.map((value) => value.trim()).filter(Boolean)));
+  if (normalized.length === 0) {
+    return results;
+  }
+
+  const result = await postAramex<{
+    TrackingResults?: Array<{ Key: string; Value: AramexTrackingUpdate[] }>;
+  }>(transport, '/Tracking/Service_1_0.svc/json/TrackShipments', {
+    Shipments: normalized,
+    GetLastTrackingUpdateOnly: false,
+    Transaction: null,
+  });
+  if (!result.success) {
+    return results;
+  }
+
+  for (const entry of result.data.TrackingResults ?? []) {
+    if (entry?.Key && Array.isArray(entry.Value)) {
+      results.set(String(entry.Key), entry.Value);
+    }
+  }
+  return results;
+}
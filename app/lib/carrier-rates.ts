@@ -0,0 +1,425 @@
+/**
+ * Rate shopping across couriers. Each carrier is priced on its best matching
+ * rate card, selection rules then drop carriers that may not take the order,
+ * and the cheapest or fastest of the rest is recommended. Kept free of Prisma
+ * so order shipping, the admin preview and the recorded reason share the same
+ * logic; `carrier-selection.ts` loads the cards and stores decisions.
+ */
+import type { CarrierCode } from '@/app/lib/carriers/types';
+import { normalizeRoutingValue } from '@/app/lib/order-routing-rules';
+import { resolveSaudiCity } from '@/lib/saudi-address';
+
+/** Everything order shipping can hand a parcel to: the carrier adapters plus our own messengers. */
+export type ShippingOptionCode = CarrierCode | 'messenger';
+
+export const SHIPPING_OPTION_CODES: ShippingOptionCode[] = ['smsa', 'aramex', 'messenger'];
+
+export const SHIPPING_OPTION_LABELS: Record<ShippingOptionCode, string> = {
+  smsa: 'سمسا',
+  aramex: 'أرامكس',
+  messenger: 'المندوب',
+};
+
+export type CarrierSelectionStrategy = 'cheapest' | 'fastest';
+
+export type CarrierSelectionEffect = 'only_when' | 'never_when';
+
+export type RateShipmentFacts = {
+  orderId: string;
+  country: string;
+  isInternational: boolean;
+  city: string | null;
+  weightKg: number;
+  isCod: boolean;
+  codAmount: number | null;
+  declaredValue: number;
+};
+
+export type CarrierRateCardLike = {
+  id: string;
+  carrier: string;
+  name: string;
+  isActive: boolean;
+  destination: string | null;
+  countries: string[];
+  cities: string[];
+  currency: string;
+  baseFee: number;
+  baseWeightKg: number;
+  extraKgFee: number;
+  codFee: number;
+  codFeePercent: number;
+  valueFeePercent: number;
+  maxWeightKg: number | null;
+  maxCodAmount: number | null;
+  estimatedDaysMin: number;
+  estimatedDaysMax: number;
+};
+
+export type CarrierSelectionRuleLike = {
+  id: string;
+  name: string;
+  position: number;
+  isActive: boolean;
+  carriers: string[];
+  effect: string;
+  destination: string | null;
+  countries: string[];
+  cities: string[];
+  paymentType: string | null;
+  minWeightKg: number | null;
+  maxWeightKg: number | null;
+};
+
+export type RateQuote = {
+  carrier: ShippingOptionCode;
+  rateCardId: string;
+  rateCardName: string;
+  currency: string;
+  total: number;
+  breakdown: { base: number; weight: number; cod: number; insurance: number };
+  estimatedDaysMin: number;
+  estimatedDaysMax: number;
+};
+
+export type UnavailableCarrier = {
+  carrier: ShippingOptionCode;
+  reason: string;
+};
+
+export type SelectionCondition = 'destination' | 'country' | 'city' | 'paymentType' | 'weight';
+
+export type SelectionConditionCheck = {
+  condition: SelectionCondition;
+  expected: string;
+  actual: string;
+  passed: boolean;
+};
+
+export type SelectionRuleEvaluation = {
+  ruleId: string;
+  ruleName: string;
+  position: number;
+  effect: CarrierSelectionEffect;
+  conditionsMet: boolean;
+  skippedReason: string | null;
+  excludedCarriers: ShippingOptionCode[];
+  checks: SelectionConditionCheck[];
+};
+
+export type CarrierSelectionDecision = {
+  strategy: CarrierSelectionStrategy;
+  carrier: ShippingOptionCode | null;
+  quote: RateQuote | null;
+  /** Eligible quotes in strategy order; the first one is the recommendation. */
+  quotes: RateQuote[];
+  excluded: UnavailableCarrier[];
+  evaluations: SelectionRuleEvaluation[];
+  explanation: string;
+};
+
+export const isShippingOptionCode = (value: unknown): value is ShippingOptionCode =>
+  typeof value === 'string' && (SHIPPING_OPTION_CODES as string[]).includes(value);
+
+export const isCarrierSelectionStrategy = (value: unknown): value is CarrierSelectionStrategy =>
+  value === 'cheapest' || value === 'fastest';
+
+export const isCarrierSelectionEffect = (value: unknown): value is CarrierSelectionEffect =>
+  value === 'only_when' || value === 'never_when';
+
+// Salla sends the city in whichever language and spelling the customer typed.
+export function normalizeCityName(value: unknown): string {
+  return resolveSaudiCity(value)?.key ?? normalizeRoutingValue(value);
+}
+
+const cityListIncludes = (cities: string[], city: string | null) => {
+  const target = normalizeCityName(city);
+  return Boolean(target) && cities.some((entry) => normalizeCityName(entry) === target);
+};
+
+const countryListIncludes = (countries: string[], country: string) => {
+  const target = normalizeRoutingValue(country);
+  return Boolean(target) && countries.some((entry) => normalizeRoutingValue(entry) === target);
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const describeList = (values: string[]) => (values.length > 0 ? values.join('، ') : '—');
+
+const describeDays = (quote: Pick<RateQuote, 'estimatedDaysMin' | 'estimatedDaysMax'>) =>
+  quote.estimatedDaysMin === quote.estimatedDaysMax
+    ? `${quote.estimatedDaysMax} يوم`
+    : `${quote.estimatedDaysMin}-${quote.estimatedDaysMax} أيام`;
+
+/** Why a card cannot price this order, or null when it can. */
+export function rateCardMismatch(card: CarrierRateCardLike, facts: RateShipmentFacts): string | null {
+  if (!card.isActive) {
+    return 'بطاقة الأسعار غير مفعلة';
+  }
+  const destination = facts.isInternational ? 'international' : 'domestic';
+  if (card.destination && card.destination !== destination) {
+    return card.destination === 'international' ? 'البطاقة للشحن الدولي فقط' : 'البطاقة للشحن المحلي فقط';
+  }
+  if (card.countries.length > 0 && !countryListIncludes(card.countries, facts.country)) {
+    return `الدولة ${facts.country || 'غير معروفة'} خارج نطاق البطاقة`;
+  }
+  if (card.cities.length > 0 && !cityListIncludes(card.cities, facts.city)) {
+    return `المدينة ${facts.city || 'غير معروفة'} خارج نطاق البطاقة`;
+  }
+  if (card.maxWeightKg !== null && facts.weightKg > card.maxWeightKg) {
+    return `الوزن ${facts.weightKg} كجم يتجاوز الحد ${card.maxWeightKg} كجم`;
+  }
+  if (card.maxCodAmount !== null && (facts.codAmount ?? 0) > card.maxCodAmount) {
+    return `مبلغ التحصيل ${facts.codAmount} يتجاوز الحد ${card.maxCodAmount}`;
+  }
+  return null;
+}
+
+/**
+ * Prices one order on one card. Weight above the included weight is charged
+ * per started kilogram; COD and insurance fees only apply when there is an
+ * amount to collect or declare.
+ */
+export function priceRateCard(card: CarrierRateCardLike, facts: RateShipmentFacts): RateQuote {
+  const extraKg = Math.max(0, Math.ceil(round2(facts.weightKg - card.baseWeightKg)));
+  const codAmount = facts.codAmount && facts.codAmount > 0 ? facts.codAmount : 0;
+  const breakdown = {
+    base: round2(card.baseFee),
+    weight: round2(extraKg * card.extraKgFee),
+    cod: codAmount > 0 ? round2(card.codFee + (codAmount * card.codFeePercent) / 100) : 0,
+    insurance: round2((Math.max(0, facts.declaredValue) * card.valueFeePercent) / 100),
+  };
+  return {
+    carrier: card.carrier as ShippingOptionCode,
+    rateCardId: card.id,
+    rateCardName: card.name,
+    currency: card.currency,
+    total: round2(breakdown.base + breakdown.weight + breakdown.cod + breakdown.insurance),
+    breakdown,
+    estimatedDaysMin: card.estimatedDaysMin,
+    estimatedDaysMax: card.estimatedDaysMax,
+  };
+}
+
+const cardSpecificity = (card: CarrierRateCardLike) => (card.cities.length > 0 ? 2 : card.countries.length > 0 ? 1 : 0);
+
+/**
+ * One quote per carrier. When several cards match, the most specific one wins
+ * (a city card over a country card over a general one) so a negotiated local
+ * price is never undercut by a catch-all card; ties go to the cheaper card.
+ */
+export function quoteCarriers(
+  cards: CarrierRateCardLike[],
+  facts: RateShipmentFacts,
+): { quotes: RateQuote[]; unavailable: UnavailableCarrier[] } {
+  const quotes: RateQuote[] = [];
+  const unavailable: UnavailableCarrier[] = [];
+
+  for (const carrier of SHIPPING_OPTION_CODES) {
+    const carrierCards = cards.filter((card) => card.carrier === carrier);
+    if (carrierCards.length === 0) {
+      unavailable.push({ carrier, reason: 'لا توجد بطاقة أسعار' });
+      continue;
+    }
+
+    const matching = carrierCards.filter((card) => rateCardMismatch(card, facts) === null);
+    if (matching.length === 0) {
+      const [closest] = [...carrierCards].sort((a, b) => cardSpecificity(b) - cardSpecificity(a));
+      unavailable.push({ carrier, reason: rateCardMismatch(closest, facts) ?? 'لا توجد بطاقة أسعار مطابقة' });
+      continue;
+    }
+
+    const [best] = matching
+      .map((card) => ({ card, quote: priceRateCard(card, facts) }))
+      .sort((a, b) => cardSpecificity(b.card) - cardSpecificity(a.card) || a.quote.total - b.quote.total);
+    quotes.push(best.quote);
+  }
+
+  return { quotes, unavailable };
+}
+
+export function sortSelectionRules<T extends Pick<CarrierSelectionRuleLike, 'position' | 'id'>>(rules: T[]): T[] {
+  return [...rules].sort((a, b) => a.position - b.position || a.id.localeCompare(b.id));
+}
+
+export function evaluateSelectionRule(
+  rule: CarrierSelectionRuleLike,
+  facts: RateShipmentFacts,
+): SelectionRuleEvaluation {
+  const effect: CarrierSelectionEffect = rule.effect === 'never_when' ? 'never_when' : 'only_when';
+  const base = {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    position: rule.position,
+    effect,
+  };
+  const carriers = rule.carriers.filter(isShippingOptionCode);
+  if (!rule.isActive || carriers.length === 0) {
+    return {
+      ...base,
+      conditionsMet: false,
+      skippedReason: rule.isActive ? 'القاعدة بدون شركات شحن' : 'القاعدة غير مفعلة',
+      excludedCarriers: [],
+      checks: [],
+    };
+  }
+
+  const checks: SelectionConditionCheck[] = [];
+  const add = (condition: SelectionCondition, expected: string, actual: string, passed: boolean) =>
+    checks.push({ condition, expected, actual, passed });
+
+  if (rule.destination === 'domestic' || rule.destination === 'international') {
+    const actual = facts.isInternational ? 'international' : 'domestic';
+    add('destination', rule.destination, actual, actual === rule.destination);
+  }
+  if (rule.countries.length > 0) {
+    add('country', describeList(rule.countries), facts.country || '—', countryListIncludes(rule.countries, facts.country));
+  }
+  if (rule.cities.length > 0) {
+    add('city', describeList(rule.cities), facts.city || '—', cityListIncludes(rule.cities, facts.city));
+  }
+  if (rule.paymentType === 'cod' || rule.paymentType === 'prepaid') {
+    const actual = facts.isCod ? 'cod' : 'prepaid';
+    add('paymentType', rule.paymentType, actual, actual === rule.paymentType);
+  }
+  if (rule.minWeightKg !== null || rule.maxWeightKg !== null) {
+    const min = rule.minWeightKg ?? 0;
+    const max = rule.maxWeightKg ?? Number.POSITIVE_INFINITY;
+    add(
+      'weight',
+      `${min}-${rule.maxWeightKg ?? '∞'} كجم`,
+      `${facts.weightKg} كجم`,
+      facts.weightKg >= min && facts.weightKg <= max,
+    );
+  }
+
+  const conditionsMet = checks.every((check) => check.passed);
+  const excludes = effect === 'only_when' ? !conditionsMet : conditionsMet;
+  return {
+    ...base,
+    conditionsMet,
+    skippedReason: null,
+    excludedCarriers: excludes ? carriers : [],
+    checks,
+  };
+}
+
+const conditionLabels: Record<SelectionCondition, string> = {
+  destination: 'الوجهة',
+  country: 'الدولة',
+  city: 'المدينة',
+  paymentType: 'نوع الدفع',
+  weight: 'الوزن',
+};
+
+function describeExclusion(evaluation: SelectionRuleEvaluation): string {
+  if (evaluation.effect === 'never_when') {
+    return `القاعدة "${evaluation.ruleName}" تمنعها لهذا الطلب`;
+  }
+  const failed = evaluation.checks.find((check) => !check.passed);
+  const detail = failed
+    ? ` (${conditionLabels[failed.condition]}: المطلوب ${failed.expected}، الطلب ${failed.actual})`
+    : '';
+  return `القاعدة "${evaluation.ruleName}" تقصرها على طلبات أخرى${detail}`;
+}
+
+// Totals are only compared in the store currency; there is no exchange rate
+// table to convert a card priced in another currency.
+export const RATE_COMPARISON_CURRENCY = 'SAR';
+
+const isComparableQuote = (quote: RateQuote) => quote.currency.toUpperCase() === RATE_COMPARISON_CURRENCY;
+
+/** Quotes in strategy order. Quotes in another currency are left out rather than compared by face value. */
+export function rankQuotes(quotes: RateQuote[], strategy: CarrierSelectionStrategy): RateQuote[] {
+  const order = (quote: RateQuote) => SHIPPING_OPTION_CODES.indexOf(quote.carrier);
+  return quotes.filter(isComparableQuote).sort((a, b) =>
+    strategy === 'fastest'
+      ? a.estimatedDaysMax - b.estimatedDaysMax ||
+        a.estimatedDaysMin - b.estimatedDaysMin ||
+        a.total - b.total ||
+        order(a) - order(b)
+      : a.total - b.total || a.estimatedDaysMax - b.estimatedDaysMax || order(a) - order(b),
+  );
+}
+
+/**
+ * Quotes every carrier, removes those a rule excludes (every rule applies, not
+ * just the first match) and recommends the best remaining quote. The
+ * explanation is what gets stored as the reason for the choice.
+ */
+export function selectCarrier(input: {
+  cards: CarrierRateCardLike[];
+  rules: CarrierSelectionRuleLike[];
+  facts: RateShipmentFacts;
+  strategy: CarrierSelectionStrategy;
+}): CarrierSelectionDecision {
+  const { strategy, facts } = input;
+  const { quotes, unavailable } = quoteCarriers(input.cards, facts);
+  const evaluations = sortSelectionRules(input.rules).map((rule) => evaluateSelectionRule(rule, facts));
+
+  const excluded: UnavailableCarrier[] = [...unavailable];
+  const eligible = quotes.filter((quote) => {
+    const evaluation = evaluations.find((entry) => entry.excludedCarriers.includes(quote.carrier));
+    if (evaluation) {
+      excluded.push({ carrier: quote.carrier, reason: describeExclusion(evaluation) });
+      return false;
+    }
+    if (!isComparableQuote(quote)) {
+      excluded.push({
+        carrier: quote.carrier,
+        reason: `بطاقة "${quote.rateCardName}" مسعّرة بعملة ${quote.currency} ولا يمكن مقارنتها بأسعار ${RATE_COMPARISON_CURRENCY}`,
+      });
+      return false;
+    }
+    return true;
+  });
+
+  const ranked = rankQuotes(eligible, strategy);
+  const best = ranked[0] ?? null;
+  const excludedText = excluded
+    .map((entry) => `${SHIPPING_OPTION_LABELS[entry.carrier]}: ${entry.reason}`)
+    .join('؛ ');
+
+  let explanation: string;
+  if (!best) {
+    explanation = `لا توجد شركة شحن متاحة لهذا الطلب. ${excludedText}`.trim();
+  } else {
+    const criterion = strategy === 'fastest' ? 'الأسرع' : 'الأرخص';
+    explanation =
+      `اختيرت ${SHIPPING_OPTION_LABELS[best.carrier]} لأنها ${criterion} بين ${ranked.length} ` +
+      `${ranked.length === 1 ? 'خيار متاح' : 'خيارات متاحة'} ` +
+      `(${best.total} ${best.currency}، ${describeDays(best)}، بطاقة "${best.rateCardName}")` +
+      (excludedText ? `. المستبعد: ${excludedText}` : '');
+  }
+
+  return {
+    strategy,
+    carrier: best?.carrier ?? null,
+    quote: best,
+    quotes: ranked,
+    excluded,
+    evaluations,
+    explanation,
+  };
+}
+
+/** The reason stored when someone ships with a carrier other than the recommendation. */
+export function describeCarrierOverride(
+  decision: Pick<CarrierSelectionDecision, 'carrier' | 'explanation' | 'excluded'>,
+  chosen: ShippingOptionCode,
+  note?: string | null,
+): string {
+  if (decision.carrier === chosen) {
+    return decision.explanation;
+  }
+  const blocked = decision.excluded.find((entry) => entry.carrier === chosen);
+  const recommended = decision.carrier ? SHIPPING_OPTION_LABELS[decision.carrier] : 'لا شيء';
+  return [
+    `اختار المستخدم ${SHIPPING_OPTION_LABELS[chosen]} بدلاً من التوصية (${recommended})`,
+    blocked ? `رغم أنها مستبعدة: ${blocked.reason}` : null,
+    note ? `السبب: ${note}` : null,
+    `التوصية: ${decision.explanation}`,
+  ]
+    .filter(Boolean)
+    .join('. ');
+}
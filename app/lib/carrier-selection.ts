@@ -0,0 +1,332 @@
+import type { CarrierRateCard, CarrierSelectionRule, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getSetting } from '@/app/lib/settings';
+import { getSallaOrder, getSallaOrderItems } from '@/app/lib/salla-api';
+import { detectInternationalOrder } from '@/app/lib/order-destination';
+import { getShippingAddressSummary } from '@/app/lib/shipping-company';
+import { extractPaymentMethod } from '@/app/lib/salla-orders';
+import { extractPrepLineItems } from '@/app/lib/order-prep-items';
+import { isCodPaymentMethod } from '@/app/lib/order-routing-rules';
+import { cleanList, optionalBoolean, stringOf } from '@/app/lib/input-values';
+import {
+  describeCarrierOverride,
+  isCarrierSelectionEffect,
+  isCarrierSelectionStrategy,
+  isShippingOptionCode,
+  selectCarrier,
+  type CarrierRateCardLike,
+  type CarrierSelectionDecision,
+  type CarrierSelectionRuleLike,
+  type CarrierSelectionStrategy,
+  type RateShipmentFacts,
+  type ShippingOptionCode,
+} from '@/app/lib/carrier-rates';
+
+/** Same fallback as manual shipments when Salla has no weight for a product. */
+const DEFAULT_ITEM_WEIGHT_KG = 0.5;
+const DESTINATIONS = new Set(['domestic', 'international']);
+const PAYMENT_TYPES = new Set(['cod', 'prepaid']);
+
+export class CarrierRateError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'CarrierRateError';
+    this.statusCode = statusCode;
+  }
+}
+
+const decimal = (value: Prisma.Decimal | number | null): number | null =>
+  value === null ? null : Number(value);
+
+export function toRateCardLike(card: CarrierRateCard): CarrierRateCardLike {
+  return {
+    id: card.id,
+    carrier: card.carrier,
+    name: card.name,
+    isActive: card.isActive,
+    destination: card.destination,
+    countries: card.countries,
+    cities: card.cities,
+    currency: card.currency,
+    baseFee: Number(card.baseFee),
+    baseWeightKg: Number(card.baseWeightKg),
+    extraKgFee: Number(card.extraKgFee),
+    codFee: Number(card.codFee),
+    codFeePercent: Number(card.codFeePercent),
+    valueFeePercent: Number(card.valueFeePercent),
+    maxWeightKg: decimal(card.maxWeightKg),
+    maxCodAmount: decimal(card.maxCodAmount),
+    estimatedDaysMin: card.estimatedDaysMin,
+    estimatedDaysMax: card.estimatedDaysMax,
+  };
+}
+
+export function toSelectionRuleLike(rule: CarrierSelectionRule): CarrierSelectionRuleLike {
+  return {
+    id: rule.id,
+    name: rule.name,
+    position: rule.position,
+    isActive: rule.isActive,
+    carriers: rule.carriers,
+    effect: rule.effect,
+    destination: rule.destination,
+    countries: rule.countries,
+    cities: rule.cities,
+    paymentType: rule.paymentType,
+    minWeightKg: decimal(rule.minWeightKg),
+    maxWeightKg: decimal(rule.maxWeightKg),
+  };
+}
+
+export function serializeRateCard(card: CarrierRateCard) {
+  return {
+    ...toRateCardLike(card),
+    notes: card.notes,
+    createdByName: card.createdByName,
+    createdAt: card.createdAt.toISOString(),
+    updatedAt: card.updatedAt.toISOString(),
+  };
+}
+
+export function serializeSelectionRule(rule: CarrierSelectionRule) {
+  return {
+    ...toSelectionRuleLike(rule),
+    notes: rule.notes,
+    createdByName: rule.createdByName,
+    createdAt: rule.createdAt.toISOString(),
+    updatedAt: rule.updatedAt.toISOString(),
+  };
+}
+
+export async function getCarrierSelectionStrategy(): Promise<CarrierSelectionStrategy> {
+  const value = await getSetting('carrier_selection_strategy');
+  return isCarrierSelectionStrategy(value) ? value : 'cheapest';
+}
+
+const numberOf = (value: unknown): number | null => {
+  const numeric = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+  return Number.isFinite(numeric) ? numeric : null;
+};
+
+const amountOf = (value: unknown): number | null =>
+  value && typeof value === 'object' ? numberOf((value as Record<string, unknown>).amount) : numberOf(value);
+
+/**
+ * Reads what a rate card needs from a Salla order. Line weights fall back to
+ * the manual-shipment default so an order without product weights still gets
+ * a realistic quote instead of a zero-weight one.
+ */
+export function extractRateShipmentFacts(orderId: string, orderData: unknown): RateShipmentFacts {
+  const root = (orderData && typeof orderData === 'object' ? orderData : {}) as Record<string, any>;
+  const { isInternational, country } = detectInternationalOrder(orderData);
+  const rawItems: any[] = Array.isArray(root.items) ? root.items : [];
+
+  const lineWeight = extractPrepLineItems(orderData).reduce((sum, line) => {
+    const item = rawItems[line.index];
+    const weight = numberOf(item?.weight) ?? numberOf(item?.product?.weight) ?? DEFAULT_ITEM_WEIGHT_KG;
+    return sum + Math.max(0, weight) * line.quantity;
+  }, 0);
+  const orderWeight = numberOf(root.total_weight) ?? numberOf(root.shipping?.total_weight);
+  const weightKg = Math.round(Math.max(orderWeight ?? 0, lineWeight, DEFAULT_ITEM_WEIGHT_KG) * 100) / 100;
+
+  const total = amountOf(root.amounts?.total) ?? amountOf(root.total) ?? 0;
+  const isCod = isCodPaymentMethod(extractPaymentMethod(root));
+
+  return {
+    orderId,
+    country,
+    isInternational,
+    city: getShippingAddressSummary(orderData).city,
+    weightKg,
+    isCod,
+    codAmount: isCod && total > 0 ? total : null,
+    declaredValue: Math.max(0, total),
+  };
+}
+
+export async function quoteOrderCarriers(
+  merchantId: string,
+  orderId: string,
+  orderData: unknown,
+): Promise<{ facts: RateShipmentFacts; decision: CarrierSelectionDecision }> {
+  const [cards, rules, strategy] = await Promise.all([
+    prisma.carrierRateCard.findMany({ where: { merchantId, isActive: true } }),
+    prisma.carrierSelectionRule.findMany({
+      where: { merchantId, isActive: true },
+      orderBy: [{ position: 'asc' }, { id: 'asc' }],
+    }),
+    getCarrierSelectionStrategy(),
+  ]);
+  const facts = extractRateShipmentFacts(orderId, orderData);
+  const decision = selectCarrier({
+    cards: cards.map(toRateCardLike),
+    rules: rules.map(toSelectionRuleLike),
+    facts,
+    strategy,
+  });
+  return { facts, decision };
+}
+
+/** Admin preview by Salla order id; null when Salla does not know the order. */
+export async function previewOrderCarriers(merchantId: string, orderId: string) {
+  const [order, items] = await Promise.all([
+    getSallaOrder(merchantId, orderId),
+    getSallaOrderItems(merchantId, orderId),
+  ]);
+  if (!order) {
+    return null;
+  }
+  const orderData = items ? { ...order, items } : order;
+  const quote = await quoteOrderCarriers(merchantId, orderId, orderData);
+  return { orderId, orderNumber: order.reference_id || null, ...quote };
+}
+
+/**
+ * Stores which carrier an order went out with and why: the recommendation's
+ * explanation when it was followed, or who overrode it and the note they gave.
+ */
+export async function recordCarrierSelection(input: {
+  merchantId: string;
+  orderId: string;
+  orderNumber: string | null;
+  orderData: unknown;
+  carrier: ShippingOptionCode;
+  note?: string | null;
+  actor: { id: string | null; name: string | null };
+}) {
+  const { facts, decision } = await quoteOrderCarriers(input.merchantId, input.orderId, input.orderData);
+  const overridden = decision.carrier !== input.carrier;
+
+  return prisma.orderCarrierSelection.create({
+    data: {
+      merchantId: input.merchantId,
+      orderId: input.orderId,
+      orderNumber: input.orderNumber,
+      carrier: input.carrier,
+      recommendedCarrier: decision.carrier,
+      strategy: decision.strategy,
+      overridden,
+      reason: describeCarrierOverride(decision, input.carrier, input.note),
+      facts: facts as unknown as Prisma.InputJsonValue,
+      quotes: decision.quotes as unknown as Prisma.InputJsonValue,
+      excluded: decision.excluded as unknown as Prisma.InputJsonValue,
+      selectedById: input.actor.id,
+      selectedByName: input.actor.name,
+    },
+  });
+}
+
+const optionalAmount = (value: unknown, label: string): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric) || numeric < 0) {
+    throw new CarrierRateError(`${label} يجب أن يكون رقماً موجباً`);
+  }
+  return Math.round(numeric * 100) / 100;
+};
+
+const parseConditions = (body: any) => {
+  const destination = stringOf(body?.destination);
+  if (destination && !DESTINATIONS.has(destination)) {
+    throw new CarrierRateError('قيمة الوجهة غير صحيحة');
+  }
+  return { destination, countries: cleanList(body?.countries), cities: cleanList(body?.cities) };
+};
+
+export function parseRateCardInput(body: any): Omit<Prisma.CarrierRateCardUncheckedCreateInput, 'merchantId'> {
+  const name = stringOf(body?.name);
+  if (!name) {
+    throw new CarrierRateError('اسم بطاقة الأسعار مطلوب');
+  }
+  const carrier = stringOf(body?.carrier);
+  if (!isShippingOptionCode(carrier)) {
+    throw new CarrierRateError('شركة الشحن غير مدعومة');
+  }
+  const baseFee = optionalAmount(body?.baseFee, 'السعر الأساسي');
+  if (baseFee === null) {
+    throw new CarrierRateError('السعر الأساسي مطلوب');
+  }
+
+  const estimatedDaysMin = Math.floor(optionalAmount(body?.estimatedDaysMin, 'أقل مدة توصيل') ?? 1);
+  const estimatedDaysMax = Math.floor(optionalAmount(body?.estimatedDaysMax, 'أقصى مدة توصيل') ?? estimatedDaysMin);
+  if (estimatedDaysMax < estimatedDaysMin) {
+    throw new CarrierRateError('أقصى مدة توصيل يجب ألا تقل عن أقل مدة');
+  }
+
+  return {
+    carrier,
+    name,
+    isActive: optionalBoolean(body?.isActive) ?? true,
+    ...parseConditions(body),
+    currency: stringOf(body?.currency)?.toUpperCase() ?? 'SAR',
+    baseFee,
+    baseWeightKg: optionalAmount(body?.baseWeightKg, 'الوزن المشمول') ?? 0,
+    extraKgFee: optionalAmount(body?.extraKgFee, 'سعر الكيلو الإضافي') ?? 0,
+    codFee: optionalAmount(body?.codFee, 'رسوم التحصيل') ?? 0,
+    codFeePercent: optionalAmount(body?.codFeePercent, 'نسبة التحصيل') ?? 0,
+    valueFeePercent: optionalAmount(body?.valueFeePercent, 'نسبة التأمين') ?? 0,
+    maxWeightKg: optionalAmount(body?.maxWeightKg, 'الحد الأقصى للوزن'),
+    maxCodAmount: optionalAmount(body?.maxCodAmount, 'الحد الأقصى للتحصيل'),
+    estimatedDaysMin,
+    estimatedDaysMax,
+    notes: stringOf(body?.notes),
+  };
+}
+
+/**
+ * Validates an admin selection rule. Unknown values are rejected rather than
+ * ignored so a typo never silently widens or narrows a carrier.
+ */
+export function parseSelectionRuleInput(
+  body: any,
+): Omit<Prisma.CarrierSelectionRuleUncheckedCreateInput, 'merchantId'> {
+  const name = stringOf(body?.name);
+  if (!name) {
+    throw new CarrierRateError('اسم القاعدة مطلوب');
+  }
+  const carriers = cleanList(body?.carriers);
+  if (carriers.length === 0 || !carriers.every(isShippingOptionCode)) {
+    throw new CarrierRateError('اختر شركة شحن واحدة على الأقل من الشركات المدعومة');
+  }
+  const effect = stringOf(body?.effect) ?? 'only_when';
+  if (!isCarrierSelectionEffect(effect)) {
+    throw new CarrierRateError('نوع القاعدة غير صحيح');
+  }
+  const paymentType = stringOf(body?.paymentType);
+  if (paymentType && !PAYMENT_TYPES.has(paymentType)) {
+    throw new CarrierRateError('نوع الدفع غير صحيح');
+  }
+  const minWeightKg = optionalAmount(body?.minWeightKg, 'أقل وزن');
+  const maxWeightKg = optionalAmount(body?.maxWeightKg, 'أقصى وزن');
+  if (minWeightKg !== null && maxWeightKg !== null && maxWeightKg < minWeightKg) {
+    throw new CarrierRateError('أقصى وزن يجب ألا يقل عن أقل وزن');
+  }
+
+  const conditions = parseConditions(body);
+  if (
+    !conditions.destination &&
+    conditions.countries.length === 0 &&
+    conditions.cities.length === 0 &&
+    !paymentType &&
+    minWeightKg === null &&
+    maxWeightKg === null
+  ) {
+    throw new CarrierRateError('حدد شرطاً واحداً على الأقل للقاعدة');
+  }
+
+  const position = Number(body?.position);
+  return {
+    name,
+    position: Number.isFinite(position) ? Math.floor(position) : 0,
+    isActive: optionalBoolean(body?.isActive) ?? true,
+    carriers,
+    effect,
+    ...conditions,
+    paymentType,
+    minWeightKg,
+    maxWeightKg,
+    notes: stringOf(body?.notes),
+  };
+}
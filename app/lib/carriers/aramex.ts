@@ -0,0 +1,168 @@
+import {
+  ARAMEX_PRODUCT_TYPE,
+  createAramexShipment,
+  defaultAramexTransport,
+  downloadAramexLabel,
+  parseAramexDate,
+  printAramexLabel,
+  toAramexDate,
+  trackAramexShipments,
+  type AramexParty,
+  type AramexShipmentInput,
+  type AramexTrackingUpdate,
+  type AramexTransport,
+} from '@/app/lib/aramex-api';
+import {
+  sortTrackingEvents,
+  type CarrierAdapter,
+  type CarrierAddress,
+  type CarrierParcelDetails,
+  type CarrierResult,
+  type CarrierShipment,
+  type CarrierTrackingEvent,
+} from './types';
+
+/** Delivered, collected by consignee, and delivered to a neighbour/reception. */
+const DELIVERED_CODES = new Set(['SH005', 'SH006', 'SH007']);
+
+const toAramexParty = (address: CarrierAddress, accountNumber?: string): AramexParty => {
+  const [lat, lng] = (address.coordinates ?? '').split(',').map((part) => Number(part.trim()));
+  return {
+    Reference1: address.shortCode,
+    AccountNumber: accountNumber,
+    PartyAddress: {
+      Line1: address.line1,
+      Line2: address.line2 || address.district,
+      Line3: address.shortCode,
+      City: address.city,
+      PostCode: address.postalCode,
+      CountryCode: address.country || 'SA',
+      ...(Number.isFinite(lat) && Number.isFinite(lng) ? { Latitude: lat, Longitude: lng } : {}),
+    },
+    Contact: {
+      PersonName: address.name,
+      CompanyName: address.name,
+      PhoneNumber1: address.phone,
+      PhoneNumber2: address.phone2,
+      CellPhone: address.phone,
+      EmailAddress: address.email ?? '',
+    },
+  };
+};
+
+const shipmentDetails = (
+  request: CarrierParcelDetails,
+  overrides: Partial<AramexShipmentInput['Details']> = {},
+): AramexShipmentInput['Details'] => {
+  const cod = request.codAmount && request.codAmount > 0 ? request.codAmount : null;
+  return {
+    ActualWeight: { Unit: 'KG', Value: request.weightKg },
+    DescriptionOfGoods: request.contentDescription,
+    GoodsOriginCountry: 'SA',
+    NumberOfPieces: request.parcels,
+    ProductGroup: 'DOM',
+    ProductType: ARAMEX_PRODUCT_TYPE,
+    PaymentType: 'P',
+    PaymentOptions: '',
+    Services: cod ? 'CODS' : '',
+    CashOnDeliveryAmount: cod ? { CurrencyCode: request.currency, Value: cod } : null,
+    CustomsValueAmount: null,
+    ...overrides,
+  };
+};
+
+const toEvent = (update: AramexTrackingUpdate): CarrierTrackingEvent => ({
+  code: update.UpdateCode ?? null,
+  description: update.UpdateDescription ?? null,
+  city: update.UpdateLocation ?? null,
+  timestamp: parseAramexDate(update.UpdateDateTime),
+  timezone: null,
+  receivedBy: update.Comments || null,
+});
+
+export function createAramexCarrier(transport: AramexTransport = defaultAramexTransport): CarrierAdapter {
+  const accountNumber = transport.clientInfo.AccountNumber;
+
+  const create = async (input: AramexShipmentInput): Promise<CarrierResult<{ shipment: CarrierShipment }>> => {
+    const result = await createAramexShipment(input, transport);
+    if (!result.success) {
+      return result;
+    }
+    const base64 = await downloadAramexLabel(result.shipment.ShipmentLabel, transport);
+    return {
+      success: true,
+      shipment: {
+        trackingNumber: result.shipment.ID,
+        carrierReference: null,
+        label: base64 ? { format: 'pdf', base64 } : null,
+        rawResponse: result.rawResponse,
+      },
+    };
+  };
+
+  return {
+    code: 'aramex',
+    nameAr: 'ارامكس',
+
+    createShipment(request) {
+      return create({
+        Reference1: request.reference,
+        Shipper: toAramexParty(request.shipper, accountNumber),
+        Consignee: toAramexParty(request.consignee),
+        ShippingDateTime: toAramexDate(request.shipDate ?? new Date()),
+        Details: shipmentDetails(request),
+      });
+    },
+
+    createReturn(request) {
+      // The customer ships back to us and our account pays on delivery.
+      return create({
+        Reference1: request.reference,
+        Shipper: toAramexParty(request.pickup),
+        Consignee: toAramexParty(request.returnTo, accountNumber),
+        ShippingDateTime: toAramexDate(request.shipDate ?? new Date()),
+        Details: shipmentDetails(
+          { ...request, codAmount: null },
+          { PaymentType: 'C' },
+        ),
+      });
+    },
+
+    async cancel() {
+      // Aramex exposes no API to void a waybill; it is cancelled by calling
+      // the account manager before pickup.
+      return {
+        success: false,
+        error: 'أرامكس لا تدعم إلغاء البوليصة آلياً. تواصل مع أرامكس لإلغائها قبل الاستلام.',
+        errorCode: 'NOT_SUPPORTED',
+      };
+    },
+
+    async track(trackingNumbers) {
+      const updates = await trackAramexShipments(trackingNumbers, transport);
+      return new Map(
+        Array.from(updates.entries()).map(([trackingNumber, entries]) => {
+          const events = sortTrackingEvents(entries.map(toEvent));
+          return [
+            trackingNumber,
+            {
+              trackingNumber,
+              delivered: events.some(
+                (event) =>
+                  (event.code && DELIVERED_CODES.has(event.code)) ||
+                  Boolean(event.description?.toLowerCase().includes('delivered')),
+              ),
+              events,
+              raw: entries,
+            },
+          ];
+        }),
+      );
+    },
+
+    async label(trackingNumber) {
+      const base64 = await printAramexLabel(trackingNumber, transport);
+      return base64 ? { format: 'pdf', base64 } : null;
+    },
+  };
+}
@@ -0,0 +1,224 @@
+import type { AramexTrackingUpdate, AramexTransport } from '@/app/lib/aramex-api';
+import type { SMSATrackingScan, SmsaTransport } from '@/app/lib/smsa-api';
+
+/**
+ * In-memory stand-ins for each carrier's HTTP API. They answer the same
+ * endpoints with the same payload shapes, so the real adapters run end to end
+ * in tests (and locally without courier credentials) with only `fetch` swapped.
+ */
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const fakeLabelBase64 = (id: string) => Buffer.from(`%PDF-1.4\n% label ${id}\n%%EOF\n`).toString('base64');
+
+const requestUrl = (input: Parameters<typeof fetch>[0]) =>
+  new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+
+const readBody = (init?: RequestInit) => (typeof init?.body === 'string' ? JSON.parse(init.body) : null);
+
+type FakeSmsaShipment = {
+  awb: string;
+  sawb: string;
+  kind: 'b2c' | 'c2b';
+  request: Record<string, any>;
+  cancelled: boolean;
+  scans: SMSATrackingScan[];
+};
+
+export function createFakeSmsaApi(options: { apiKey?: string } = {}) {
+  const apiKey = options.apiKey ?? 'fake-smsa-key';
+  const baseUrl = 'https://smsa.fake.local';
+  const shipments = new Map<string, FakeSmsaShipment>();
+  let sequence = 0;
+
+  const record = (shipment: FakeSmsaShipment) => ({
+    AWB: shipment.awb,
+    Reference: shipment.request.OrderNumber,
+    Scans: shipment.scans,
+    isDelivered: shipment.scans.some((scan) => scan.ScanType === 'DL'),
+    waybills: [{ awb: shipment.awb, awbFile: fakeLabelBase64(shipment.awb) }],
+  });
+
+  const handle: typeof fetch = async (input, init) => {
+    const url = requestUrl(input);
+    const headers = new Headers(init?.headers);
+    if ((headers.get('apikey') ?? '') !== apiKey) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const path = url.pathname;
+    const create = path.match(/^\/api\/(b2c|c2b)\/new$/);
+    if (create && init?.method === 'POST') {
+      const body = readBody(init);
+      const kind = create[1] as FakeSmsaShipment['kind'];
+      const address = kind === 'b2c' ? body?.ConsigneeAddress : body?.PickupAddress;
+      if (!address?.ContactPhoneNumber || !address?.City) {
+        return json({ error: 'Address is incomplete', errorCode: 'VALIDATION' });
+      }
+      sequence += 1;
+      const shipment: FakeSmsaShipment = {
+        awb: `2900${String(sequence).padStart(8, '0')}`,
+        sawb: `SAWB${String(sequence).padStart(6, '0')}`,
+        kind,
+        request: body,
+        cancelled: false,
+        scans: [
+          {
+            ScanType: 'DATA',
+            ScanDescription: 'Data Received',
+            ScanDateTime: new Date().toISOString(),
+            City: 'Riyadh',
+          },
+        ],
+      };
+      shipments.set(shipment.awb, shipment);
+      return json({ sawb: shipment.sawb, waybills: [{ awb: shipment.awb, awbFile: fakeLabelBase64(shipment.awb) }] });
+    }
+
+    const cancel = path.match(/^\/api\/(b2c|c2b)\/cancel\/(.+)$/);
+    if (cancel) {
+      const shipment = shipments.get(decodeURIComponent(cancel[2]));
+      if (!shipment || shipment.kind !== cancel[1]) {
+        return new Response('No Shipment found', { status: 404 });
+      }
+      if (shipment.scans.some((scan) => scan.ScanType !== 'DATA')) {
+        return new Response('Shipment cannot be cancelled, already picked up', { status: 400 });
+      }
+      shipment.cancelled = true;
+      return new Response('Shipment cancelled');
+    }
+
+    const query = path.match(/^\/api\/(?:shipment\/b2c|c2b)\/query\/(.+)$/);
+    if (query) {
+      const shipment = shipments.get(decodeURIComponent(query[1]));
+      return shipment ? json(record(shipment)) : new Response('Not found', { status: 404 });
+    }
+
+    if (path === '/api/track/bulk') {
+      const awbs: string[] = readBody(init) ?? [];
+      return json(awbs.flatMap((awb) => (shipments.has(awb) ? [record(shipments.get(awb)!)] : [])));
+    }
+
+    return new Response('Not found', { status: 404 });
+  };
+
+  const transport: SmsaTransport = { baseUrl, apiKey, fetch: handle };
+  return {
+    transport,
+    shipments,
+    addScan(awb: string, scan: SMSATrackingScan) {
+      shipments.get(awb)?.scans.push(scan);
+    },
+  };
+}
+
+type FakeAramexShipment = {
+  id: string;
+  request: Record<string, any>;
+  updates: AramexTrackingUpdate[];
+};
+
+export function createFakeAramexApi() {
+  const baseUrl = 'https://aramex.fake.local/ShippingAPI.V2';
+  const shipments = new Map<string, FakeAramexShipment>();
+  let sequence = 0;
+
+  const labelUrl = (id: string) => `${baseUrl}/labels/${id}.pdf`;
+  const error = (code: string, message: string) =>
+    json({ HasErrors: true, Notifications: [{ Code: code, Message: message }] });
+
+  const handle: typeof fetch = async (input, init) => {
+    const url = requestUrl(input);
+    const path = url.pathname.replace('/ShippingAPI.V2', '');
+
+    const label = path.match(/^\/labels\/(.+)\.pdf$/);
+    if (label) {
+      return shipments.has(label[1])
+        ? new Response(Buffer.from(fakeLabelBase64(label[1]), 'base64'))
+        : new Response('Not found', { status: 404 });
+    }
+
+    const body = readBody(init);
+    if (!body?.ClientInfo?.UserName || !body?.ClientInfo?.AccountNumber) {
+      return error('ERR01', 'Invalid ClientInfo');
+    }
+
+    if (path === '/Shipping/Service_1_0.svc/json/CreateShipments') {
+      const input = body.Shipments?.[0];
+      if (!input?.Consignee?.Contact?.PhoneNumber1 || !input?.Consignee?.PartyAddress?.City) {
+        return json({
+          HasErrors: true,
+          Shipments: [{ ID: '', HasErrors: true, Notifications: [{ Code: 'ERR04', Message: 'Consignee is incomplete' }] }],
+        });
+      }
+      sequence += 1;
+      const shipment: FakeAramexShipment = {
+        id: `5${String(sequence).padStart(10, '0')}`,
+        request: input,
+        updates: [
+          {
+            WaybillNumber: '',
+            UpdateCode: 'SH014',
+            UpdateDescription: 'Record created.',
+            UpdateDateTime: `/Date(${Date.now()}+0300)/`,
+            UpdateLocation: input.Shipper?.PartyAddress?.City ?? '',
+          },
+        ],
+      };
+      shipment.updates[0].WaybillNumber = shipment.id;
+      shipments.set(shipment.id, shipment);
+      return json({
+        HasErrors: false,
+        Shipments: [
+          {
+            ID: shipment.id,
+            Reference1: input.Reference1,
+            HasErrors: false,
+            ShipmentLabel: { LabelURL: labelUrl(shipment.id), LabelFileContents: null },
+          },
+        ],
+      });
+    }
+
+    if (path === '/Shipping/Service_1_0.svc/json/PrintLabel') {
+      return shipments.has(body.ShipmentNumber)
+        ? json({ HasErrors: false, ShipmentLabel: { LabelURL: labelUrl(body.ShipmentNumber) } })
+        : error('ERR52', 'Shipment not found');
+    }
+
+    if (path === '/Tracking/Service_1_0.svc/json/TrackShipments') {
+      const numbers: string[] = body.Shipments ?? [];
+      return json({
+        HasErrors: false,
+        TrackingResults: numbers
+          .filter((id) => shipments.has(id))
+          .map((id) => ({ Key: id, Value: shipments.get(id)!.updates })),
+      });
+    }
+
+    return new Response('Not found', { status: 404 });
+  };
+
+  const transport: AramexTransport = {
+    baseUrl,
+    clientInfo: {
+      UserName: 'fake@aramex.local',
+      Password: 'fake',
+      Version: 'v1.0',
+      AccountNumber: '0000000',
+      AccountPin: '000000',
+      AccountEntity: 'RUH',
+      AccountCountryCode: 'SA',
+      Source: 24,
+    },
+    fetch: handle,
+  };
+  return {
+    transport,
+    shipments,
+    addUpdate(id: string, update: AramexTrackingUpdate) {
+      shipments.get(id)?.updates.push({ WaybillNumber: id, ...update });
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { defaultAramexTransport, type AramexTransport } from '@/app/lib/aramex-api';
+import { fetchWithRetry } from '@/app/lib/fetch-with-retry';
+import { defaultSmsaTransport, type SmsaTransport } from '@/app/lib/smsa-api';
+import { detectShipmentCompany } from '@/lib/shipment-detector';
+import { createAramexCarrier } from './aramex';
+import { createFakeAramexApi, createFakeSmsaApi } from './fakes';
+import { createSmsaCarrier } from './smsa';
+import { CARRIER_CODES, type CarrierAdapter, type CarrierCode } from './types';
+
+export * from './types';
+
+// Local development without courier credentials: CARRIERS_USE_FAKE_APIS=true
+// points every adapter at its in-memory fake.
+const useFakes = process.env.CARRIERS_USE_FAKE_APIS === 'true';
+
+type CarrierTransports = { smsa: SmsaTransport; aramex: AramexTransport };
+
+let transports: CarrierTransports | null = null;
+let adapters: Record<CarrierCode, CarrierAdapter> | null = null;
+let trackingAdapters: Record<CarrierCode, CarrierAdapter> | null = null;
+
+// Built once so the tracking adapters see the same fake shipments as the rest.
+const getTransports = (): CarrierTransports =>
+  (transports ??= useFakes
+    ? { smsa: createFakeSmsaApi().transport, aramex: createFakeAramexApi().transport }
+    : { smsa: defaultSmsaTransport, aramex: defaultAramexTransport });
+
+const buildAdapters = ({ smsa, aramex }: CarrierTransports): Record<CarrierCode, CarrierAdapter> => ({
+  smsa: createSmsaCarrier(smsa),
+  aramex: createAramexCarrier(aramex),
+});
+
+const requestUrl = (input: Parameters<typeof fetch>[0]): string =>
+  typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+
+// Scheduled tracking sends hundreds of requests in a row; back off on rate
+// limits and server errors instead of losing the chunk.
+const withRetry = (base: typeof fetch): typeof fetch => (input, init) =>
+  fetchWithRetry(requestUrl(input), init, {
+    fetchImpl: base,
+    maxRetries: 4,
+    baseDelay: 2000,
+    maxDelay: 20000,
+    timeoutMs: 20000,
+    shouldRetry: (response) => response.status >= 500 || response.status === 429,
+  });
+
+export const isCarrierCode = (value: unknown): value is CarrierCode =>
+  typeof value === 'string' && (CARRIER_CODES as string[]).includes(value);
+
+export function getCarrierAdapter(code: CarrierCode): CarrierAdapter {
+  adapters ??= buildAdapters(getTransports());
+  return adapters[code];
+}
+
+/** Adapter for unattended bulk tracking: every carrier request is retried. */
+export function getTrackingCarrierAdapter(code: CarrierCode): CarrierAdapter {
+  if (!trackingAdapters) {
+    const { smsa, aramex } = getTransports();
+    trackingAdapters = buildAdapters({
+      smsa: { ...smsa, fetch: withRetry(smsa.fetch) },
+      aramex: { ...aramex, fetch: withRetry(aramex.fetch) },
+    });
+  }
+  return trackingAdapters[code];
+}
+
+/**
+ * Picks the adapter for a request: an explicit carrier wins, then the
+ * tracking-number format, then SMSA (every shipment before adapters existed).
+ */
+export function resolveCarrierCode(explicit: unknown, trackingNumber?: string | null): CarrierCode {
+  if (isCarrierCode(explicit)) {
+    return explicit;
+  }
+  if (trackingNumber) {
+    const detected = detectShipmentCompany(trackingNumber).id;
+    if (isCarrierCode(detected)) {
+      return detected;
+    }
+  }
+  return 'smsa';
+}
@@ -0,0 +1,226 @@
+import {
+  SMSA_WAYBILL_TYPE,
+  cancelB2CShipment,
+  cancelC2BShipment,
+  createSMSAB2CShipment,
+  createSMSAReturnShipment,
+  defaultSmsaTransport,
+  trackB2CShipment,
+  trackBulkShipments,
+  trackC2BShipment,
+  type SMSAShipmentResponse,
+  type SMSATrackingRecord,
+  type SMSATrackingScan,
+  type ShipmentAddress,
+  type SmsaTransport,
+} from '@/app/lib/smsa-api';
+import { extractSmsaLabelBase64 } from '@/lib/returns/smsa-label';
+import { log } from '@/app/lib/logger';
+import { classifySmsaScanIssue } from '@/lib/smsa-status';
+import {
+  sortTrackingEvents,
+  type CarrierAdapter,
+  type CarrierAddress,
+  type CarrierLabel,
+  type CarrierParcelDetails,
+  type CarrierResult,
+  type CarrierShipment,
+  type CarrierTracking,
+  type CarrierTrackingEvent,
+} from './types';
+
+const toSmsaAddress = (address: CarrierAddress): ShipmentAddress => ({
+  ContactName: address.name,
+  ContactPhoneNumber: address.phone,
+  ContactPhoneNumber2: address.phone2,
+  AddressLine1: address.line1,
+  AddressLine2: address.line2,
+  City: address.city,
+  Country: address.country,
+  District: address.district,
+  PostalCode: address.postalCode,
+  ShortCode: address.shortCode,
+  Coordinates: address.coordinates,
+});
+
+const parcelFields = (request: CarrierParcelDetails) => ({
+  OrderNumber: request.reference,
+  DeclaredValue: request.declaredValue,
+  Parcels: request.parcels,
+  ShipDate: (request.shipDate ?? new Date()).toISOString(),
+  ShipmentCurrency: request.currency,
+  Weight: request.weightKg,
+  WeightUnit: 'KG',
+  ContentDescription: request.contentDescription,
+  CODAmount: request.codAmount ?? undefined,
+});
+
+const labelFrom = (payload: unknown): CarrierLabel | null => {
+  const base64 = extractSmsaLabelBase64(payload);
+  return base64 ? { format: SMSA_WAYBILL_TYPE === 'ZPL' ? 'zpl' : 'pdf', base64 } : null;
+};
+
+const toShipmentResult = (
+  result: SMSAShipmentResponse,
+): CarrierResult<{ shipment: CarrierShipment }> => {
+  const trackingNumber = result.trackingNumber || result.awbNumber || result.sawb;
+  if (!result.success || !trackingNumber) {
+    return {
+      success: false,
+      error: result.error || 'تعذر إنشاء الشحنة مع سمسا',
+      errorCode: result.errorCode,
+      rawResponse: result.rawResponse,
+    };
+  }
+  return {
+    success: true,
+    shipment: {
+      trackingNumber,
+      carrierReference: result.sawb ?? null,
+      label: labelFrom(result.rawResponse),
+      rawResponse: result.rawResponse,
+    },
+  };
+};
+
+const normalizeScan = (scan: SMSATrackingScan | null | undefined): CarrierTrackingEvent => ({
+  code: scan?.ScanType ?? null,
+  description: scan?.ScanDescription ?? null,
+  city: scan?.City ?? null,
+  timestamp: scan?.ScanDateTime ?? null,
+  timezone: scan?.ScanTimeZone ?? null,
+  receivedBy: scan?.ReceivedBy ?? null,
+});
+
+/** SMSA has returned scans under several keys across API versions. */
+export const extractSmsaScans = (payload: SMSATrackingRecord | null | undefined): SMSATrackingScan[] => {
+  if (!payload) {
+    return [];
+  }
+
+  const record = payload as Record<string, any>;
+  const candidates = [
+    payload.Scans,
+    record.scans,
+    record.trackingHistory,
+    record.history,
+    record.TrackingHistory,
+    record.tracking,
+    record.TrackingLogs,
+  ];
+  for (const candidate of candidates) {
+    if (Array.isArray(candidate)) {
+      return candidate as SMSATrackingScan[];
+    }
+  }
+
+  if (Array.isArray(record.Waybills)) {
+    // Some responses have scans nested per waybill
+    const scans = record.Waybills.flatMap((waybill: any) => (Array.isArray(waybill?.Scans) ? waybill.Scans : []));
+    if (scans.length > 0) {
+      return scans as SMSATrackingScan[];
+    }
+  }
+
+  return [];
+};
+
+const resolveAwb = (record: SMSATrackingRecord): string | null => {
+  const candidates = [record.AWB, record.awb, (record as Record<string, unknown>).trackingNumber];
+  for (const candidate of candidates) {
+    if (typeof candidate === 'string' && candidate.trim()) {
+      return candidate.trim();
+    }
+  }
+  return null;
+};
+
+export const toSmsaTracking = (trackingNumber: string, raw: SMSATrackingRecord): CarrierTracking => {
+  const events = sortTrackingEvents(extractSmsaScans(raw).map(normalizeScan));
+  const delivered = Boolean(
+    raw.isDelivered ||
+      raw.IsDelivered ||
+      events.some(
+        (event) =>
+          event.code === 'DL' ||
+          // "Undelivered" and "not delivered" scans contain the word too.
+          (Boolean(event.description?.toLowerCase().includes('delivered')) && !classifySmsaScanIssue(event)),
+      ),
+  );
+  return { trackingNumber, delivered, events, raw };
+};
+
+export function createSmsaCarrier(transport: SmsaTransport = defaultSmsaTransport): CarrierAdapter {
+  return {
+    code: 'smsa',
+    nameAr: 'سمسا',
+
+    async createShipment(request) {
+      const result = await createSMSAB2CShipment(
+        {
+          ...parcelFields(request),
+          ConsigneeAddress: toSmsaAddress(request.consignee),
+          ShipperAddress: toSmsaAddress(request.shipper),
+        },
+        transport,
+      );
+      return toShipmentResult(result);
+    },
+
+    async createReturn(request) {
+      const result = await createSMSAReturnShipment(
+        {
+          ...parcelFields(request),
+          PickupAddress: toSmsaAddress(request.pickup),
+          ReturnToAddress: toSmsaAddress(request.returnTo),
+        },
+        transport,
+      );
+      return toShipmentResult(result);
+    },
+
+    async cancel(trackingNumber, options) {
+      const result =
+        options?.kind === 'return'
+          ? await cancelC2BShipment(trackingNumber, transport)
+          : await cancelB2CShipment(trackingNumber, transport);
+      return result.success
+        ? { success: true, message: result.message || 'تم إلغاء الشحنة بنجاح' }
+        : { success: false, error: result.error || 'فشل إلغاء الشحنة' };
+    },
+
+    async track(trackingNumbers, options) {
+      const trackings = new Map<string, CarrierTracking>();
+      for (const record of await trackBulkShipments(trackingNumbers, transport)) {
+        const awb = resolveAwb(record);
+        if (awb) {
+          trackings.set(awb, toSmsaTracking(awb, record));
+        }
+      }
+
+      // The bulk endpoint skips some shipments; query those one by one.
+      const single = options?.kind === 'return' ? trackC2BShipment : trackB2CShipment;
+      for (const trackingNumber of trackingNumbers) {
+        const normalized = trackingNumber.trim();
+        if (!normalized || trackings.has(normalized)) continue;
+        try {
+          const record = await single(normalized, transport);
+          if (record && typeof record === 'object') {
+            trackings.set(normalized, toSmsaTracking(normalized, record));
+          }
+        } catch (error) {
+          log.warn('Failed to fetch single SMSA tracking record', { awb: normalized, error });
+        }
+      }
+      return trackings;
+    },
+
+    async label(trackingNumber, options) {
+      const record =
+        options?.kind === 'return'
+          ? await trackC2BShipment(trackingNumber, transport)
+          : await trackB2CShipment(trackingNumber, transport);
+      return labelFrom(record);
+    },
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * The contract every courier integration implements. Shipment records store
+ * the adapter `code` next to the tracking number, so order shipping, returns
+ * and cancellation look the adapter up instead of calling a carrier directly.
+ */
+
+export type CarrierCode = 'smsa' | 'aramex';
+
+export const CARRIER_CODES: CarrierCode[] = ['smsa', 'aramex'];
+
+/** Outbound shipments and customer returns are separate products at most carriers. */
+export type CarrierShipmentKind = 'shipment' | 'return';
+
+export interface CarrierAddress {
+  name: string;
+  phone: string;
+  phone2?: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  country: string;
+  district?: string;
+  postalCode?: string;
+  /** Saudi national short address, e.g. RRRD2929. */
+  shortCode?: string;
+  /** "lat,lng" */
+  coordinates?: string;
+  email?: string;
+}
+
+export interface CarrierParcelDetails {
+  /** Our reference printed on the label; unique per shipment. */
+  reference: string;
+  declaredValue: number;
+  currency: string;
+  parcels: number;
+  weightKg: number;
+  contentDescription: string;
+  codAmount?: number | null;
+  shipDate?: Date;
+}
+
+export interface CarrierShipmentRequest extends CarrierParcelDetails {
+  consignee: CarrierAddress;
+  shipper: CarrierAddress;
+}
+
+export interface CarrierReturnRequest extends CarrierParcelDetails {
+  /** Where the courier collects the parcel (the customer). */
+  pickup: CarrierAddress;
+  /** Where it is delivered back to (the warehouse). */
+  returnTo: CarrierAddress;
+}
+
+export interface CarrierLabel {
+  format: 'pdf' | 'zpl';
+  base64: string;
+}
+
+export interface CarrierShipment {
+  trackingNumber: string;
+  /** The carrier's own shipment id when it differs from the tracking number (SMSA's SAWB). */
+  carrierReference: string | null;
+  label: CarrierLabel | null;
+  rawResponse: unknown;
+}
+
+export interface CarrierTrackingEvent {
+  code: string | null;
+  description: string | null;
+  city: string | null;
+  timestamp: string | null;
+  timezone: string | null;
+  receivedBy: string | null;
+}
+
+export interface CarrierTracking {
+  trackingNumber: string;
+  delivered: boolean;
+  /** Newest first. */
+  events: CarrierTrackingEvent[];
+  raw: unknown;
+}
+
+export type CarrierResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string; errorCode?: string; rawResponse?: unknown };
+
+export interface CarrierAdapter {
+  code: CarrierCode;
+  nameAr: string;
+  createShipment(request: CarrierShipmentRequest): Promise<CarrierResult<{ shipment: CarrierShipment }>>;
+  createReturn(request: CarrierReturnRequest): Promise<CarrierResult<{ shipment: CarrierShipment }>>;
+  cancel(
+    trackingNumber: string,
+    options?: { kind?: CarrierShipmentKind },
+  ): Promise<CarrierResult<{ message: string }>>;
+  /** Numbers the carrier has no record of are missing from the result. */
+  track(
+    trackingNumbers: string[],
+    options?: { kind?: CarrierShipmentKind },
+  ): Promise<Map<string, CarrierTracking>>;
+  label(trackingNumber: string, options?: { kind?: CarrierShipmentKind }): Promise<CarrierLabel | null>;
+}
+
+export const carrierLabelDataUrl = (label: CarrierLabel | null | undefined): string | null => {
+  if (!label?.base64) return null;
+  const mime = label.format === 'zpl' ? 'application/zpl' : 'application/pdf';
+  return `data:${mime};base64,${label.base64}`;
+};
+
+export const sortTrackingEvents = (events: CarrierTrackingEvent[]): CarrierTrackingEvent[] =>
+  [...events].sort((a, b) => {
+    const aTime = a.timestamp ? Date.parse(a.timestamp) : 0;
+    const bTime = b.timestamp ? Date.parse(b.timestamp) : 0;
+    return (Number.isFinite(bTime) ? bTime : 0) - (Number.isFinite(aTime) ? aTime : 0);
+  });
@@ -0,0 +1,267 @@
+import fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import type { PDFFont, PDFImage, PDFPage } from 'pdf-lib';
+import { ArabicShaper } from 'arabic-persian-reshaper';
+
+import { encodeCode128 } from '@/app/lib/barcode-code128';
+import { detectDirection, loadArabicFont } from '@/app/lib/local-shipping/label';
+import {
+  CASH_UP_DEPOSIT_METHOD_LABELS,
+  SAR_DENOMINATIONS,
+  fromHalalas,
+  type CashUpDepositMethod,
+} from '@/app/lib/cod-cash-up';
+import type { CashUpSessionWithCollections } from '@/app/lib/cod-cash-up-service';
+
+// A4 portrait: filed with the day's deposit slip.
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const CONTENT_LEFT = MARGIN;
+const CONTENT_RIGHT = PAGE_WIDTH - MARGIN;
+const CONTENT_WIDTH = CONTENT_RIGHT - CONTENT_LEFT;
+const ROW_HEIGHT = 18;
+
+const textColor = rgb(0.13, 0.15, 0.2);
+const subtleText = rgb(0.46, 0.48, 0.55);
+const accentColor = rgb(0.82, 0.19, 0.32);
+const positiveColor = rgb(0.09, 0.5, 0.27);
+const borderColor = rgb(0.88, 0.9, 0.94);
+const headerBg = rgb(1, 0.97, 0.98);
+
+type DocumentContext = {
+  pdfDoc: PDFDocument;
+  page: PDFPage;
+  arabicFont: PDFFont;
+  latinFont: PDFFont;
+};
+
+function drawText(
+  ctx: DocumentContext,
+  value: string,
+  x: number,
+  y: number,
+  size: number,
+  options: { color?: ReturnType<typeof rgb>; align?: 'left' | 'right' | 'center' } = {},
+) {
+  const direction = /[\u0600-\u06FF]/.test(value) ? 'rtl' : detectDirection(value);
+  const shaped = direction === 'rtl' ? ArabicShaper.convertArabic(value) : value;
+  const font = direction === 'rtl' ? ctx.arabicFont : ctx.latinFont;
+  const width = font.widthOfTextAtSize(shaped, size);
+  const align = options.align ?? (direction === 'rtl' ? 'right' : 'left');
+  const drawX = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+  ctx.page.drawText(shaped, { x: drawX, y, font, size, color: options.color ?? textColor });
+}
+
+function drawBarcode(ctx: DocumentContext, value: string, x: number, y: number, width: number, height: number) {
+  const { runs, modules } = encodeCode128(value);
+  const moduleWidth = width / modules;
+  let cursor = x;
+  let bar = true; // first run is a bar
+  for (const run of runs) {
+    const runWidth = run * moduleWidth;
+    if (bar) {
+      ctx.page.drawRectangle({ x: cursor, y, width: runWidth, height, color: rgb(0, 0, 0) });
+    }
+    cursor += runWidth;
+    bar = !bar;
+  }
+}
+
+function drawRule(ctx: DocumentContext, y: number) {
+  ctx.page.drawLine({
+    start: { x: CONTENT_LEFT, y },
+    end: { x: CONTENT_RIGHT, y },
+    color: borderColor,
+    thickness: 0.6,
+  });
+}
+
+function formatDateTime(date: Date | null): string {
+  if (!date) return '—';
+  return date.toLocaleString('en-GB', {
+    timeZone: 'Asia/Riyadh',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+}
+
+const formatSar = (value: number) => `${value.toFixed(2)} SAR`;
+
+async function embedSignature(pdfDoc: PDFDocument, dataUrl: string | null): Promise<PDFImage | null> {
+  if (!dataUrl?.startsWith('data:image/png;base64,')) return null;
+  try {
+    return await pdfDoc.embedPng(Buffer.from(dataUrl.slice('data:image/png;base64,'.length), 'base64'));
+  } catch {
+    return null;
+  }
+}
+
+/** Starts a new page once `y` would run into the bottom margin. */
+function ensureSpace(ctx: DocumentContext, y: number, needed: number): number {
+  if (y - needed >= MARGIN + 20) return y;
+  ctx.page = ctx.pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  return PAGE_HEIGHT - MARGIN;
+}
+
+/**
+ * Cash-up receipt: who handed over how much cash in which notes, the variance
+ * and how it was settled, every order the cash covers, and the messenger's
+ * signature next to the name of the staff member who received it.
+ */
+export async function generateCashUpReceiptPdf(session: CashUpSessionWithCollections): Promise<Buffer> {
+  const arabicFontData = await loadArabicFont();
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.registerFontkit(fontkit);
+  const [arabicFont, latinFont] = await Promise.all([
+    pdfDoc.embedFont(arabicFontData, { subset: true }),
+    pdfDoc.embedFont(StandardFonts.Helvetica),
+  ]);
+  const ctx: DocumentContext = { pdfDoc, page: pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]), arabicFont, latinFont };
+  const signature = await embedSignature(pdfDoc, session.agentSignatureDataUrl);
+
+  const top = PAGE_HEIGHT - MARGIN;
+  ctx.page.drawRectangle({
+    x: CONTENT_LEFT,
+    y: top - 90,
+    width: CONTENT_WIDTH,
+    height: 90,
+    color: headerBg,
+    borderColor,
+    borderWidth: 1,
+  });
+  drawText(ctx, 'COD Cash-up Receipt', CONTENT_LEFT + 12, top - 24, 16, { color: accentColor, align: 'left' });
+  drawText(ctx, 'إيصال تسليم النقدية', CONTENT_RIGHT - 12, top - 25, 16, { color: accentColor, align: 'right' });
+  drawBarcode(ctx, session.cashUpNumber, CONTENT_LEFT + 12, top - 70, 200, 30);
+  drawText(ctx, session.cashUpNumber, CONTENT_LEFT + 12, top - 82, 8.5, { align: 'left' });
+  if (session.status !== 'closed') {
+    drawText(ctx, 'مسودة - لم تُغلق الجلسة', CONTENT_RIGHT - 12, top - 50, 11, { color: accentColor, align: 'right' });
+  }
+
+  const depositMethod = session.depositMethod as CashUpDepositMethod | null;
+  const rows: [string, string][] = [
+    ['المندوب', `${session.deliveryAgent.name} (${session.deliveryAgent.username})`],
+    ['وقت الفتح', formatDateTime(session.createdAt)],
+    ['وقت الإغلاق', formatDateTime(session.closedAt)],
+    ['طريقة الإيداع', depositMethod ? CASH_UP_DEPOSIT_METHOD_LABELS[depositMethod] ?? depositMethod : '—'],
+    ['مرجع الإيداع', session.depositReference || '—'],
+    ['عدد الطلبات', String(session.collections.length)],
+  ];
+
+  let y = top - 116;
+  for (const [label, value] of rows) {
+    drawText(ctx, label, CONTENT_RIGHT - 4, y, 10, { color: subtleText, align: 'right' });
+    drawText(ctx, value, CONTENT_RIGHT - 120, y, 10.5, { align: 'right' });
+    drawRule(ctx, y - 7);
+    y -= 22;
+  }
+
+  // Denomination count
+  y -= 10;
+  drawText(ctx, 'عدّ النقدية', CONTENT_RIGHT - 4, y, 12, { color: accentColor, align: 'right' });
+  y -= ROW_HEIGHT + 2;
+  drawText(ctx, 'الفئة', CONTENT_RIGHT - 4, y, 9.5, { color: subtleText, align: 'right' });
+  drawText(ctx, 'العدد', CONTENT_RIGHT - 160, y, 9.5, { color: subtleText, align: 'right' });
+  drawText(ctx, 'المجموع', CONTENT_RIGHT - 300, y, 9.5, { color: subtleText, align: 'right' });
+  drawRule(ctx, y - 6);
+  y -= ROW_HEIGHT;
+  const counts = (session.denominationCounts ?? {}) as Record<string, number>;
+  const countedRows = SAR_DENOMINATIONS.filter((denomination) => (counts[denomination.key] ?? 0) > 0);
+  if (countedRows.length === 0) {
+    drawText(ctx, 'لم يتم تسجيل أي نقدية', CONTENT_RIGHT - 4, y, 10, { color: subtleText, align: 'right' });
+    y -= ROW_HEIGHT;
+  }
+  for (const denomination of countedRows) {
+    const count = counts[denomination.key];
+    drawText(ctx, denomination.label, CONTENT_RIGHT - 4, y, 10, { align: 'right' });
+    drawText(ctx, String(count), CONTENT_RIGHT - 160, y, 10, { align: 'right' });
+    drawText(ctx, formatSar(fromHalalas(denomination.halalas * count)), CONTENT_RIGHT - 300, y, 10, { align: 'right' });
+    y -= ROW_HEIGHT;
+  }
+
+  // Totals
+  const expected = Number(session.expectedAmount);
+  const counted = session.countedAmount === null ? null : Number(session.countedAmount);
+  const variance = session.varianceAmount === null ? null : Number(session.varianceAmount);
+  y -= 6;
+  drawRule(ctx, y + 10);
+  const totals: [string, string, ReturnType<typeof rgb>?][] = [
+    ['المبلغ المتوقع', formatSar(expected)],
+    ['المبلغ المعدود', counted === null ? '—' : formatSar(counted)],
+    [
+      variance === null || variance === 0 ? 'الفرق' : variance < 0 ? 'الفرق (عجز)' : 'الفرق (زيادة)',
+      variance === null ? '—' : formatSar(variance),
+      variance ? (variance < 0 ? accentColor : positiveColor) : undefined,
+    ],
+  ];
+  for (const [label, value, color] of totals) {
+    drawText(ctx, label, CONTENT_RIGHT - 4, y, 10.5, { color: subtleText, align: 'right' });
+    drawText(ctx, value, CONTENT_RIGHT - 160, y, 11, { color, align: 'right' });
+    y -= ROW_HEIGHT + 2;
+  }
+  if (variance) {
+    const settlement =
+      session.varianceResolution === 'wallet_adjustment'
+        ? 'تم تسجيل الفرق على محفظة المندوب'
+        : session.varianceResolution === 'resolved'
+          ? `تمت تسوية الفرق: ${session.varianceNote ?? ''}`
+          : 'الفرق لم يُسوَّ بعد';
+    drawText(ctx, settlement.slice(0, 90), CONTENT_RIGHT - 4, y, 10, { align: 'right' });
+    y -= ROW_HEIGHT + 2;
+  }
+
+  // Orders covered by the cash
+  y = ensureSpace(ctx, y - 10, ROW_HEIGHT * 3);
+  drawText(ctx, 'الطلبات المشمولة', CONTENT_RIGHT - 4, y, 12, { color: accentColor, align: 'right' });
+  y -= ROW_HEIGHT + 2;
+  for (const collection of session.collections) {
+    y = ensureSpace(ctx, y, ROW_HEIGHT);
+    const amount = Number(collection.collectedAmount ?? collection.collectionAmount);
+    drawText(ctx, collection.shipment.orderNumber, CONTENT_RIGHT - 4, y, 9.5, { align: 'right' });
+    drawText(ctx, collection.shipment.customerName.slice(0, 30), CONTENT_RIGHT - 100, y, 9.5, { align: 'right' });
+    drawText(ctx, collection.shipment.trackingNumber, CONTENT_LEFT + 110, y, 9, { color: subtleText, align: 'left' });
+    drawText(ctx, formatSar(amount), CONTENT_LEFT + 4, y, 9.5, { align: 'left' });
+    drawRule(ctx, y - 5);
+    y -= ROW_HEIGHT;
+  }
+
+  // Signatures
+  const boxHeight = 120;
+  y = ensureSpace(ctx, y - 16, boxHeight + 10);
+  const boxWidth = CONTENT_WIDTH / 2 - 8;
+  const agentBoxX = CONTENT_RIGHT - boxWidth;
+  ctx.page.drawRectangle({ x: agentBoxX, y: y - boxHeight, width: boxWidth, height: boxHeight, borderColor, borderWidth: 1 });
+  drawText(ctx, 'توقيع المندوب', CONTENT_RIGHT - 8, y - 16, 9.5, { color: subtleText, align: 'right' });
+  if (signature) {
+    const maxWidth = boxWidth - 16;
+    const maxHeight = boxHeight - 34;
+    const scale = Math.min(maxWidth / signature.width, maxHeight / signature.height, 1);
+    ctx.page.drawImage(signature, {
+      x: agentBoxX + (boxWidth - signature.width * scale) / 2,
+      y: y - boxHeight + 8,
+      width: signature.width * scale,
+      height: signature.height * scale,
+    });
+  } else {
+    drawText(ctx, 'لم يتم التوقيع', agentBoxX + boxWidth / 2, y - boxHeight / 2, 10, { color: accentColor, align: 'center' });
+  }
+
+  ctx.page.drawRectangle({ x: CONTENT_LEFT, y: y - boxHeight, width: boxWidth, height: boxHeight, borderColor, borderWidth: 1 });
+  drawText(ctx, 'استلم بواسطة', CONTENT_LEFT + boxWidth - 8, y - 16, 9.5, { color: subtleText, align: 'right' });
+  drawText(ctx, session.closedByName || '—', CONTENT_LEFT + boxWidth - 8, y - 44, 11, { align: 'right' });
+  drawText(ctx, formatDateTime(session.closedAt), CONTENT_LEFT + 8, y - boxHeight + 12, 9, {
+    color: subtleText,
+    align: 'left',
+  });
+
+  drawText(ctx, `Generated ${formatDateTime(new Date())}`, CONTENT_LEFT, MARGIN - 14, 8, {
+    color: subtleText,
+    align: 'left',
+  });
+
+  return Buffer.from(await pdfDoc.save());
+}
@@ -0,0 +1,381 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { recordManualWalletAdjustment } from '@/app/lib/delivery-agent-wallet';
+import {
+  CodCashUpError,
+  buildCashUpNumber,
+  expectedCashUpAmount,
+  parseDenominationCounts,
+  summarizeCashUp,
+  type CashUpCloseInput,
+  type DenominationCounts,
+} from '@/app/lib/cod-cash-up';
+
+export type CodCashUpActor = {
+  id: string | null;
+  name: string | null;
+  username: string | null;
+};
+
+const actorLabel = (actor: CodCashUpActor) => actor.username || actor.name || actor.id || null;
+
+const toNumber = (value: Prisma.Decimal | number | null | undefined) =>
+  value === null || value === undefined ? 0 : Number(value);
+
+const cashUpWithCollections = Prisma.validator<Prisma.CODCashUpSessionDefaultArgs>()({
+  include: {
+    deliveryAgent: { select: { id: true, name: true, username: true, phone: true } },
+    collections: {
+      orderBy: { collectedAt: 'asc' },
+      include: {
+        shipment: {
+          select: { id: true, orderNumber: true, trackingNumber: true, customerName: true, shippingCity: true },
+        },
+      },
+    },
+  },
+});
+
+export type CashUpSessionWithCollections = Prisma.CODCashUpSessionGetPayload<typeof cashUpWithCollections>;
+
+/**
+ * Collected COD that has not been handed over yet. The messenger is the one
+ * whose assignment delivered the shipment, so cash stays with whoever took it
+ * even if an earlier attempt belonged to someone else.
+ */
+const awaitingCashUpWhere = (deliveryAgentId?: string): Prisma.CODCollectionWhereInput => ({
+  status: 'collected',
+  cashUpSessionId: null,
+  shipment: {
+    assignments: {
+      some: { status: 'delivered', ...(deliveryAgentId ? { deliveryAgentId } : {}) },
+    },
+  },
+});
+
+const readCounts = (value: Prisma.JsonValue | null): DenominationCounts | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as DenominationCounts) : null;
+
+export function serializeCashUpSession(
+  session: CashUpSessionWithCollections,
+  options: { includeCollections?: boolean } = {},
+) {
+  const collections = session.collections.map((collection) => ({
+    id: collection.id,
+    status: collection.status,
+    collectionAmount: toNumber(collection.collectionAmount),
+    collectedAmount: collection.collectedAmount === null ? null : toNumber(collection.collectedAmount),
+    collectedAt: collection.collectedAt?.toISOString() ?? null,
+    shipment: collection.shipment,
+  }));
+  return {
+    id: session.id,
+    cashUpNumber: session.cashUpNumber,
+    status: session.status,
+    deliveryAgent: session.deliveryAgent,
+    expectedAmount: toNumber(session.expectedAmount),
+    countedAmount: session.countedAmount === null ? null : toNumber(session.countedAmount),
+    varianceAmount: session.varianceAmount === null ? null : toNumber(session.varianceAmount),
+    denominationCounts: readCounts(session.denominationCounts) ?? {},
+    depositMethod: session.depositMethod,
+    depositReference: session.depositReference,
+    varianceResolution: session.varianceResolution,
+    varianceNote: session.varianceNote,
+    walletTransactionId: session.walletTransactionId,
+    notes: session.notes,
+    hasSignature: Boolean(session.agentSignatureDataUrl),
+    openedByName: session.openedByName,
+    closedByName: session.closedByName,
+    closedAt: session.closedAt?.toISOString() ?? null,
+    createdAt: session.createdAt.toISOString(),
+    collectionCount: collections.length,
+    ...(options.includeCollections ? { collections } : {}),
+  };
+}
+
+export async function getCashUpSession(id: string): Promise<CashUpSessionWithCollections | null> {
+  return prisma.cODCashUpSession.findUnique({ where: { id }, ...cashUpWithCollections });
+}
+
+export async function listCashUpSessions(options: { status?: string | null; deliveryAgentId?: string | null; since: Date }) {
+  return prisma.cODCashUpSession.findMany({
+    where: {
+      ...(options.status ? { status: options.status } : {}),
+      ...(options.deliveryAgentId ? { deliveryAgentId: options.deliveryAgentId } : {}),
+      // Open sessions stay listed until someone closes or cancels them.
+      OR: [{ status: 'open' }, { createdAt: { gte: options.since } }],
+    },
+    orderBy: { createdAt: 'desc' },
+    ...cashUpWithCollections,
+  });
+}
+
+/** Messengers holding collected COD that no cash-up has gathered yet. */
+export async function listAgentsAwaitingCashUp() {
+  const collections = await prisma.cODCollection.findMany({
+    where: awaitingCashUpWhere(),
+    select: {
+      collectionAmount: true,
+      collectedAmount: true,
+      collectedAt: true,
+      shipment: {
+        select: {
+          assignments: {
+            where: { status: 'delivered' },
+            orderBy: { attemptNumber: 'desc' },
+            take: 1,
+            select: { deliveryAgent: { select: { id: true, name: true, username: true } } },
+          },
+        },
+      },
+    },
+  });
+
+  const byAgent = new Map<
+    string,
+    {
+      deliveryAgent: { id: string; name: string; username: string };
+      amounts: { collectedAmount: number | null; collectionAmount: number }[];
+      oldestCollectedAt: Date | null;
+    }
+  >();
+  for (const collection of collections) {
+    const agent = collection.shipment.assignments[0]?.deliveryAgent;
+    if (!agent) continue;
+    const entry = byAgent.get(agent.id) ?? { deliveryAgent: agent, amounts: [], oldestCollectedAt: null };
+    entry.amounts.push({
+      collectedAmount: collection.collectedAmount === null ? null : toNumber(collection.collectedAmount),
+      collectionAmount: toNumber(collection.collectionAmount),
+    });
+    if (collection.collectedAt && (!entry.oldestCollectedAt || collection.collectedAt < entry.oldestCollectedAt)) {
+      entry.oldestCollectedAt = collection.collectedAt;
+    }
+    byAgent.set(agent.id, entry);
+  }
+
+  return Array.from(byAgent.values())
+    .map((entry) => ({
+      deliveryAgent: entry.deliveryAgent,
+      collectionCount: entry.amounts.length,
+      expectedAmount: expectedCashUpAmount(entry.amounts),
+      oldestCollectedAt: entry.oldestCollectedAt?.toISOString() ?? null,
+    }))
+    .sort((a, b) => b.expectedAmount - a.expectedAmount);
+}
+
+/** Re-totals what the session expects from the collections still waiting on it. */
+async function refreshCashUpTotals(tx: Prisma.TransactionClient, sessionId: string) {
+  const [session, collections] = await Promise.all([
+    tx.cODCashUpSession.findUniqueOrThrow({ where: { id: sessionId }, select: { denominationCounts: true } }),
+    tx.cODCollection.findMany({
+      where: { cashUpSessionId: sessionId, status: 'collected' },
+      select: { collectionAmount: true, collectedAmount: true },
+    }),
+  ]);
+  const expectedAmount = expectedCashUpAmount(
+    collections.map((collection) => ({
+      collectedAmount: collection.collectedAmount === null ? null : toNumber(collection.collectedAmount),
+      collectionAmount: toNumber(collection.collectionAmount),
+    })),
+  );
+  const counts = readCounts(session.denominationCounts);
+  const summary = counts ? summarizeCashUp(expectedAmount, counts) : null;
+  await tx.cODCashUpSession.update({
+    where: { id: sessionId },
+    data: {
+      expectedAmount,
+      ...(summary ? { countedAmount: summary.countedAmount, varianceAmount: summary.varianceAmount } : {}),
+    },
+  });
+  return collections.length;
+}
+
+/**
+ * Opens the messenger's cash-up for the day, or tops up the one already open
+ * with anything they collected since, and gathers all collected-but-undeposited
+ * COD onto it.
+ */
+export async function openCashUpSession(deliveryAgentId: string, actor: CodCashUpActor) {
+  const agent = await prisma.orderUser.findUnique({
+    where: { id: deliveryAgentId },
+    select: { id: true, username: true },
+  });
+  if (!agent) {
+    throw new CodCashUpError('المندوب غير موجود', 404);
+  }
+
+  const sessionId = await prisma.$transaction(async (tx) => {
+    const pending = await tx.cODCollection.findMany({
+      where: awaitingCashUpWhere(deliveryAgentId),
+      select: { id: true },
+    });
+    let session = await tx.cODCashUpSession.findFirst({
+      where: { deliveryAgentId, status: 'open' },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true },
+    });
+    if (!session) {
+      if (pending.length === 0) {
+        throw new CodCashUpError('لا توجد مبالغ محصّلة بانتظار التسليم لهذا المندوب');
+      }
+      const now = new Date();
+      const startOfDay = new Date(now);
+      startOfDay.setHours(0, 0, 0, 0);
+      const openedToday = await tx.cODCashUpSession.count({
+        where: { deliveryAgentId, createdAt: { gte: startOfDay } },
+      });
+      session = await tx.cODCashUpSession.create({
+        data: {
+          cashUpNumber: buildCashUpNumber(agent.username, now, openedToday + 1),
+          deliveryAgentId,
+          openedById: actor.id,
+          openedByName: actor.name || actor.username,
+        },
+        select: { id: true },
+      });
+    }
+    if (pending.length > 0) {
+      // The null check keeps a concurrent open from claiming the same cash twice.
+      await tx.cODCollection.updateMany({
+        where: { id: { in: pending.map((collection) => collection.id) }, cashUpSessionId: null },
+        data: { cashUpSessionId: session.id },
+      });
+    }
+    await refreshCashUpTotals(tx, session.id);
+    return session.id;
+  });
+
+  return (await getCashUpSession(sessionId)) as CashUpSessionWithCollections;
+}
+
+async function requireOpenSession(id: string) {
+  const session = await prisma.cODCashUpSession.findUnique({ where: { id }, select: { status: true } });
+  if (!session) {
+    throw new CodCashUpError('جلسة التسليم غير موجودة', 404);
+  }
+  if (session.status !== 'open') {
+    throw new CodCashUpError('تم إغلاق جلسة التسليم مسبقاً', 409);
+  }
+}
+
+/** Saves a count in progress so the drawer can be recounted before closing. */
+export async function saveCashUpCount(id: string, input: { counts?: unknown; notes?: unknown }) {
+  await requireOpenSession(id);
+  const counts = parseDenominationCounts(input.counts);
+  await prisma.$transaction(async (tx) => {
+    await tx.cODCashUpSession.update({
+      where: { id },
+      data: {
+        denominationCounts: counts,
+        ...(typeof input.notes === 'string' ? { notes: input.notes.trim() || null } : {}),
+      },
+    });
+    await refreshCashUpTotals(tx, id);
+  });
+  return (await getCashUpSession(id)) as CashUpSessionWithCollections;
+}
+
+/** Gives the gathered collections back so another session can take them. */
+export async function cancelCashUpSession(id: string) {
+  await requireOpenSession(id);
+  await prisma.$transaction(async (tx) => {
+    const updated = await tx.cODCashUpSession.updateMany({
+      where: { id, status: 'open' },
+      data: { status: 'cancelled' },
+    });
+    if (updated.count === 0) {
+      throw new CodCashUpError('تم إغلاق جلسة التسليم مسبقاً', 409);
+    }
+    await tx.cODCollection.updateMany({
+      where: { cashUpSessionId: id, status: 'collected' },
+      data: { cashUpSessionId: null },
+    });
+  });
+  return (await getCashUpSession(id)) as CashUpSessionWithCollections;
+}
+
+/**
+ * Closes the cash-up: every gathered collection moves to `deposited` under
+ * the one deposit reference, and a variance not explained at the counter is
+ * posted to the messenger's wallet (a shortage as a debit). Everything
+ * commits together, so a failed wallet posting leaves the session open.
+ */
+export async function closeCashUpSession(id: string, input: CashUpCloseInput, actor: CodCashUpActor) {
+  await requireOpenSession(id);
+
+  await prisma.$transaction(async (tx) => {
+    const collectionCount = await refreshCashUpTotals(tx, id);
+    if (collectionCount === 0) {
+      throw new CodCashUpError('لا توجد مبالغ في جلسة التسليم');
+    }
+    const session = await tx.cODCashUpSession.findUniqueOrThrow({
+      where: { id },
+      select: { cashUpNumber: true, deliveryAgentId: true, expectedAmount: true },
+    });
+    const summary = summarizeCashUp(toNumber(session.expectedAmount), input.counts);
+    const hasVariance = summary.outcome !== 'balanced';
+    if (hasVariance && input.varianceResolution === 'resolved' && !input.varianceNote) {
+      throw new CodCashUpError('اكتب سبب تسوية الفرق أو اتركه ليُسجّل على محفظة المندوب');
+    }
+
+    const closedAt = new Date();
+    // The status condition keeps two devices from closing the same session.
+    const claimed = await tx.cODCashUpSession.updateMany({
+      where: { id, status: 'open' },
+      data: {
+        status: 'closed',
+        denominationCounts: input.counts,
+        countedAmount: summary.countedAmount,
+        varianceAmount: summary.varianceAmount,
+        depositMethod: input.depositMethod,
+        depositReference: input.depositReference,
+        varianceResolution: hasVariance ? input.varianceResolution : null,
+        varianceNote: hasVariance ? input.varianceNote : null,
+        agentSignatureDataUrl: input.signatureDataUrl,
+        notes: input.notes,
+        closedAt,
+        closedById: actor.id,
+        closedByName: actor.name || actor.username,
+      },
+    });
+    if (claimed.count === 0) {
+      throw new CodCashUpError('تم إغلاق جلسة التسليم مسبقاً', 409);
+    }
+
+    await tx.cODCollection.updateMany({
+      where: { cashUpSessionId: id, status: 'collected' },
+      data: {
+        status: 'deposited',
+        depositedAt: closedAt,
+        depositedBy: actorLabel(actor),
+        depositMethod: input.depositMethod,
+        depositReference: input.depositReference,
+        depositNotes: `تسليم نقدية ${session.cashUpNumber}`,
+      },
+    });
+
+    if (hasVariance && input.varianceResolution === 'wallet_adjustment') {
+      const transaction = await recordManualWalletAdjustment(
+        {
+          deliveryAgentId: session.deliveryAgentId,
+          amount: summary.varianceAmount,
+          notes:
+            summary.outcome === 'short'
+              ? `عجز في تسليم النقدية ${session.cashUpNumber}`
+              : `زيادة في تسليم النقدية ${session.cashUpNumber}`,
+          metadata: {
+            cashUpSessionId: id,
+            cashUpNumber: session.cashUpNumber,
+            depositReference: input.depositReference,
+          },
+          createdById: actor.id ?? undefined,
+          createdByName: actor.name ?? undefined,
+        },
+        tx,
+      );
+      await tx.cODCashUpSession.update({ where: { id }, data: { walletTransactionId: transaction.id } });
+    }
+  });
+
+  return (await getCashUpSession(id)) as CashUpSessionWithCollections;
+}
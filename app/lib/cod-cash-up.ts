@@ -0,0 +1,199 @@
+/**
+ * End-of-day COD cash-up: the denominations a messenger hands over, the
+ * variance against what their delivered shipments say they collected, and
+ * validation of the closing form. Free of Prisma so it can be tested
+ * directly; `cod-cash-up-service.ts` moves the collections.
+ */
+
+export type CashUpStatus = 'open' | 'closed' | 'cancelled';
+
+export type CashUpOutcome = 'balanced' | 'short' | 'over';
+
+/** How a non-zero variance was settled when the session closed. */
+export type CashUpVarianceResolution = 'wallet_adjustment' | 'resolved';
+
+export type CashUpDepositMethod = 'cash' | 'bank_transfer' | 'mobile_wallet';
+
+export type Denomination = {
+  key: string;
+  halalas: number;
+  label: string;
+  kind: 'note' | 'coin';
+};
+
+// Saudi riyal notes and coins in circulation, largest first.
+export const SAR_DENOMINATIONS: Denomination[] = [
+  { key: '500', halalas: 50_000, label: '500 ريال', kind: 'note' },
+  { key: '200', halalas: 20_000, label: '200 ريال', kind: 'note' },
+  { key: '100', halalas: 10_000, label: '100 ريال', kind: 'note' },
+  { key: '50', halalas: 5_000, label: '50 ريال', kind: 'note' },
+  { key: '20', halalas: 2_000, label: '20 ريال', kind: 'note' },
+  { key: '10', halalas: 1_000, label: '10 ريال', kind: 'note' },
+  { key: '5', halalas: 500, label: '5 ريال', kind: 'note' },
+  { key: '2', halalas: 200, label: '2 ريال', kind: 'coin' },
+  { key: '1', halalas: 100, label: '1 ريال', kind: 'coin' },
+  { key: '0.5', halalas: 50, label: '50 هللة', kind: 'coin' },
+  { key: '0.25', halalas: 25, label: '25 هللة', kind: 'coin' },
+  { key: '0.1', halalas: 10, label: '10 هللات', kind: 'coin' },
+  { key: '0.05', halalas: 5, label: '5 هللات', kind: 'coin' },
+];
+
+export const CASH_UP_DEPOSIT_METHOD_LABELS: Record<CashUpDepositMethod, string> = {
+  cash: 'نقدي',
+  bank_transfer: 'تحويل بنكي',
+  mobile_wallet: 'محفظة إلكترونية',
+};
+
+export type DenominationCounts = Record<string, number>;
+
+export type CashUpSummary = {
+  expectedAmount: number;
+  countedAmount: number;
+  varianceAmount: number;
+  outcome: CashUpOutcome;
+};
+
+export type CashUpCloseInput = {
+  counts: DenominationCounts;
+  depositMethod: CashUpDepositMethod;
+  depositReference: string;
+  varianceResolution: CashUpVarianceResolution;
+  varianceNote: string | null;
+  signatureDataUrl: string;
+  notes: string | null;
+};
+
+export class CodCashUpError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'CodCashUpError';
+    this.statusCode = statusCode;
+  }
+}
+
+const DENOMINATION_BY_KEY = new Map(SAR_DENOMINATIONS.map((denomination) => [denomination.key, denomination]));
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+export const toHalalas = (amount: number) => Math.round(amount * 100);
+
+export const fromHalalas = (halalas: number) => halalas / 100;
+
+/**
+ * CU-YYYYMMDD-<AGENT>-<NN>, counting sessions already opened that day for the
+ * same messenger. Only ASCII so it encodes as Code 128 on the receipt.
+ */
+export function buildCashUpNumber(agentUsername: string, openedAt: Date, sequence: number): string {
+  const day = `${openedAt.getFullYear()}${pad(openedAt.getMonth() + 1)}${pad(openedAt.getDate())}`;
+  const code = agentUsername.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 12) || 'AGENT';
+  return `CU-${day}-${code}-${pad(sequence)}`;
+}
+
+/**
+ * Accepts `{ "100": 3, "0.5": 2 }` from the counting form. Counts must be
+ * whole and non-negative; zero rows are dropped so the stored count only
+ * lists what was actually handed over.
+ */
+export function parseDenominationCounts(input: unknown): DenominationCounts {
+  if (input === undefined || input === null) {
+    return {};
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new CodCashUpError('عدد الفئات غير صالح');
+  }
+  const counts: DenominationCounts = {};
+  for (const [key, raw] of Object.entries(input as Record<string, unknown>)) {
+    const denomination = DENOMINATION_BY_KEY.get(key);
+    if (!denomination) {
+      throw new CodCashUpError(`فئة غير معروفة: ${key}`);
+    }
+    if (raw === null || raw === undefined || (typeof raw === 'string' && !raw.trim())) continue;
+    const count = typeof raw === 'string' ? Number(raw) : raw;
+    if (typeof count !== 'number' || !Number.isInteger(count) || count < 0) {
+      throw new CodCashUpError(`عدد فئة ${denomination.label} يجب أن يكون رقماً صحيحاً`);
+    }
+    if (count > 0) counts[key] = count;
+  }
+  return counts;
+}
+
+export function countedHalalas(counts: DenominationCounts): number {
+  return Object.entries(counts).reduce(
+    (total, [key, count]) => total + (DENOMINATION_BY_KEY.get(key)?.halalas ?? 0) * count,
+    0,
+  );
+}
+
+/** Expected vs counted cash. A positive variance means more cash than collected. */
+export function summarizeCashUp(expectedAmount: number, counts: DenominationCounts): CashUpSummary {
+  const expected = toHalalas(expectedAmount);
+  const counted = countedHalalas(counts);
+  const variance = counted - expected;
+  return {
+    expectedAmount: fromHalalas(expected),
+    countedAmount: fromHalalas(counted),
+    varianceAmount: fromHalalas(variance),
+    outcome: variance === 0 ? 'balanced' : variance < 0 ? 'short' : 'over',
+  };
+}
+
+/** Expected cash for a set of collections: what was collected, else what was due. */
+export function expectedCashUpAmount(
+  collections: { collectedAmount: number | null; collectionAmount: number }[],
+): number {
+  const halalas = collections.reduce(
+    (total, collection) => total + toHalalas(collection.collectedAmount ?? collection.collectionAmount),
+    0,
+  );
+  return fromHalalas(halalas);
+}
+
+const MAX_REFERENCE_LENGTH = 100;
+const MAX_NOTE_LENGTH = 1000;
+// A signature pad PNG at phone resolution is well under this; anything larger
+// is not a signature.
+const MAX_SIGNATURE_LENGTH = 400_000;
+
+const optionalText = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim().slice(0, MAX_NOTE_LENGTH) : null;
+
+const isDepositMethod = (value: unknown): value is CashUpDepositMethod =>
+  typeof value === 'string' && value in CASH_UP_DEPOSIT_METHOD_LABELS;
+
+/**
+ * Validates the closing form. The variance is only known to the service, so
+ * a `resolved` variance is checked for its explanation there.
+ */
+export function parseCashUpClose(body: any): CashUpCloseInput {
+  const counts = parseDenominationCounts(body?.counts);
+  const depositReference = typeof body?.depositReference === 'string' ? body.depositReference.trim() : '';
+  if (!depositReference) {
+    throw new CodCashUpError('رقم مرجع الإيداع مطلوب');
+  }
+  if (depositReference.length > MAX_REFERENCE_LENGTH) {
+    throw new CodCashUpError('رقم مرجع الإيداع طويل جداً');
+  }
+  const depositMethod = body?.depositMethod === undefined ? 'cash' : body.depositMethod;
+  if (!isDepositMethod(depositMethod)) {
+    throw new CodCashUpError('طريقة الإيداع غير صالحة');
+  }
+  const varianceResolution = body?.varianceResolution === 'resolved' ? 'resolved' : 'wallet_adjustment';
+  const signatureDataUrl = typeof body?.signatureDataUrl === 'string' ? body.signatureDataUrl : '';
+  if (!signatureDataUrl.startsWith('data:image/png;base64,')) {
+    throw new CodCashUpError('توقيع المندوب مطلوب');
+  }
+  if (signatureDataUrl.length > MAX_SIGNATURE_LENGTH) {
+    throw new CodCashUpError('صورة التوقيع كبيرة جداً');
+  }
+  return {
+    counts,
+    depositMethod,
+    depositReference,
+    varianceResolution,
+    varianceNote: optionalText(body?.varianceNote),
+    signatureDataUrl,
+    notes: optionalText(body?.notes),
+  };
+}
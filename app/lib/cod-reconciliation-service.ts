@@ -0,0 +1,186 @@
+import { Prisma } from '@prisma/client';
+import * as XLSX from 'xlsx';
+import { prisma } from '@/lib/prisma';
+import { isCodPaymentMethod } from '@/app/lib/order-routing-rules';
+import {
+  COD_CLAIM_COLUMNS,
+  buildCodClaimRows,
+  normalizeAwb,
+  reconcileCarrierCod,
+  remittedCodAmount,
+  type CarrierCodRemittance,
+  type CodReconciliationReport,
+  type ExpectedCarrierCod,
+} from '@/app/lib/cod-reconciliation';
+
+// Only SMSA sends settlement files with COD today; the engine itself is carrier-agnostic.
+const RECONCILED_CARRIER = 'smsa';
+
+const DAY_MS = 86_400_000;
+
+const toNumber = (value: Prisma.Decimal | number | null | undefined) =>
+  value === null || value === undefined ? 0 : Number(value);
+
+type SettlementRow = {
+  id: string;
+  awbNumber: string | null;
+  settlementDate: Date | null;
+  uploadId: string | null;
+  rawData: Prisma.JsonValue;
+};
+
+const settlementSelect = {
+  id: true,
+  awbNumber: true,
+  settlementDate: true,
+  uploadId: true,
+  rawData: true,
+} satisfies Prisma.OrderSettlementSelect;
+
+function toRemittances(rows: SettlementRow[]): CarrierCodRemittance[] {
+  const remittances: CarrierCodRemittance[] = [];
+  for (const row of rows) {
+    const amount = remittedCodAmount(row.rawData);
+    if (!row.awbNumber || amount === null) continue;
+    remittances.push({
+      id: row.id,
+      awbNumber: row.awbNumber,
+      amount,
+      settlementDate: row.settlementDate,
+      uploadId: row.uploadId,
+    });
+  }
+  return remittances;
+}
+
+/**
+ * COD owed for SMSA shipments delivered since `since`, plus any shipment the
+ * carrier remitted for regardless of when it was delivered. The delivered
+ * date comes from the first `delivered` transition of each shipment.
+ */
+async function loadExpectedCod(since: Date, remittedAwbs: string[]): Promise<ExpectedCarrierCod[]> {
+  const transitions = await prisma.shipmentStatusTransition.findMany({
+    where: {
+      carrier: RECONCILED_CARRIER,
+      toStatus: 'delivered',
+      sourceType: { in: ['salla', 'manual'] },
+      OR: [
+        { occurredAt: { gte: since } },
+        ...(remittedAwbs.length > 0 ? [{ trackingNumber: { in: remittedAwbs } }] : []),
+      ],
+    },
+    select: { sourceType: true, sourceId: true, occurredAt: true },
+    orderBy: { occurredAt: 'asc' },
+  });
+
+  const deliveredAt = new Map<string, Date>();
+  for (const transition of transitions) {
+    const key = `${transition.sourceType}:${transition.sourceId}`;
+    if (!deliveredAt.has(key)) deliveredAt.set(key, transition.occurredAt);
+  }
+  const idsOf = (sourceType: string) =>
+    transitions.filter((transition) => transition.sourceType === sourceType).map((transition) => transition.sourceId);
+
+  const [sallaShipments, manualShipments] = await Promise.all([
+    prisma.sallaShipment.findMany({
+      where: { id: { in: idsOf('salla') } },
+      select: { id: true, merchantId: true, orderId: true, orderNumber: true, trackingNumber: true },
+    }),
+    prisma.manualShipment.findMany({
+      where: { id: { in: idsOf('manual') }, deletedAt: null },
+      select: { id: true, orderNumber: true, trackingNumber: true, codAmount: true },
+    }),
+  ]);
+
+  const orders = sallaShipments.length
+    ? await prisma.sallaOrder.findMany({
+        where: { orderId: { in: sallaShipments.map((shipment) => shipment.orderId) } },
+        select: { merchantId: true, orderId: true, paymentMethod: true, totalAmount: true },
+      })
+    : [];
+  const orderByKey = new Map(orders.map((order) => [`${order.merchantId}:${order.orderId}`, order]));
+
+  const expected: ExpectedCarrierCod[] = [];
+  for (const shipment of sallaShipments) {
+    const order = orderByKey.get(`${shipment.merchantId}:${shipment.orderId}`);
+    const delivered = deliveredAt.get(`salla:${shipment.id}`);
+    if (!order || !delivered || !isCodPaymentMethod(order.paymentMethod)) continue;
+    const codAmount = toNumber(order.totalAmount);
+    if (codAmount <= 0 || !shipment.trackingNumber.trim()) continue;
+    expected.push({
+      awbNumber: shipment.trackingNumber,
+      sourceType: 'salla',
+      sourceId: shipment.id,
+      orderNumber: shipment.orderNumber,
+      codAmount,
+      deliveredAt: delivered,
+    });
+  }
+  for (const shipment of manualShipments) {
+    const delivered = deliveredAt.get(`manual:${shipment.id}`);
+    const codAmount = toNumber(shipment.codAmount);
+    if (!delivered || codAmount <= 0 || !shipment.trackingNumber?.trim()) continue;
+    expected.push({
+      awbNumber: shipment.trackingNumber,
+      sourceType: 'manual',
+      sourceId: shipment.id,
+      orderNumber: shipment.orderNumber,
+      codAmount,
+      deliveredAt: delivered,
+    });
+  }
+  return expected;
+}
+
+/**
+ * Reconciles carrier COD for shipments delivered in the last `days` days
+ * against every uploaded SMSA settlement row that carries a COD amount.
+ */
+export async function runCodReconciliation(options: {
+  days: number;
+  graceDays: number;
+  asOf?: Date;
+}): Promise<CodReconciliationReport> {
+  const asOf = options.asOf ?? new Date();
+  const since = new Date(asOf.getTime() - options.days * DAY_MS);
+
+  const recentRows = await prisma.orderSettlement.findMany({
+    where: {
+      provider: RECONCILED_CARRIER,
+      awbNumber: { not: null },
+      OR: [{ settlementDate: { gte: since } }, { createdAt: { gte: since } }],
+    },
+    select: settlementSelect,
+  });
+  const remittances = toRemittances(recentRows);
+
+  const expected = await loadExpectedCod(
+    since,
+    [...new Set(remittances.map((remittance) => remittance.awbNumber.trim()))],
+  );
+
+  // Shipments delivered in the window may have been remitted on rows dated
+  // before it (SMSA dates rows by AWB creation).
+  const loadedAwbs = new Set(remittances.map((remittance) => normalizeAwb(remittance.awbNumber)));
+  const unloadedAwbs = expected
+    .map((item) => item.awbNumber.trim())
+    .filter((awb) => !loadedAwbs.has(normalizeAwb(awb)));
+  if (unloadedAwbs.length > 0) {
+    const olderRows = await prisma.orderSettlement.findMany({
+      where: { provider: RECONCILED_CARRIER, awbNumber: { in: unloadedAwbs } },
+      select: settlementSelect,
+    });
+    remittances.push(...toRemittances(olderRows));
+  }
+
+  return reconcileCarrierCod(expected, remittances, { asOf, graceDays: options.graceDays });
+}
+
+/** Claims workbook for the carrier, with the over-remitted AWBs on a second sheet. */
+export function buildCodClaimsWorkbook(report: CodReconciliationReport): Buffer {
+  const { claims, credits } = buildCodClaimRows(report);
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(book, XLSX.utils.json_to_sheet(claims, { header: COD_CLAIM_COLUMNS }), 'COD Claims');
+  XLSX.utils.book_append_sheet(book, XLSX.utils.json_to_sheet(credits, { header: COD_CLAIM_COLUMNS }), 'Over Remitted');
+  return XLSX.write(book, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+}
@@ -0,0 +1,349 @@
+/**
+ * Carrier COD reconciliation: what each delivered COD shipment should have
+ * remitted against what the carrier's settlement files say it paid, matched
+ * by AWB. Free of Prisma so it can be tested directly;
+ * `cod-reconciliation-service.ts` loads the shipments and settlement rows.
+ */
+
+export type CodReconciliationStatus = 'matched' | 'short' | 'over' | 'missing' | 'duplicate' | 'pending';
+
+export type CodAgeingBucket = '0-7' | '8-14' | '15-30' | '31-60' | '60+';
+
+export type ExpectedCarrierCod = {
+  awbNumber: string;
+  sourceType: 'salla' | 'manual';
+  sourceId: string;
+  orderNumber: string | null;
+  codAmount: number;
+  deliveredAt: Date;
+};
+
+export type CarrierCodRemittance = {
+  id: string;
+  awbNumber: string;
+  amount: number;
+  settlementDate: Date | null;
+  uploadId: string | null;
+};
+
+export type CodReconciliationLine = {
+  awbNumber: string;
+  orderNumber: string | null;
+  sourceType: ExpectedCarrierCod['sourceType'] | null;
+  status: CodReconciliationStatus;
+  expectedAmount: number;
+  remittedAmount: number;
+  /** Remitted minus expected; negative means the carrier still owes us. */
+  varianceAmount: number;
+  remittanceCount: number;
+  remittanceIds: string[];
+  deliveredAt: Date | null;
+  lastRemittedAt: Date | null;
+  ageDays: number;
+  ageingBucket: CodAgeingBucket;
+};
+
+export type CodReconciliationSummary = {
+  statusCounts: Record<CodReconciliationStatus, number>;
+  expectedAmount: number;
+  remittedAmount: number;
+  /** Owed to us on short and missing AWBs. */
+  claimAmount: number;
+  /** Paid to us beyond what was collected, including duplicate remittances. */
+  overRemittedAmount: number;
+  /** Claimable lines by age, so old unremitted cash stands out. */
+  ageing: Record<CodAgeingBucket, { count: number; amount: number }>;
+};
+
+export type CodReconciliationReport = {
+  asOf: Date;
+  lines: CodReconciliationLine[];
+  summary: CodReconciliationSummary;
+};
+
+export type CodReconciliationOptions = {
+  asOf?: Date;
+  /** Days after delivery before a remittance that has not arrived counts as missing. */
+  graceDays?: number;
+};
+
+export class CodReconciliationError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'CodReconciliationError';
+    this.statusCode = statusCode;
+  }
+}
+
+export const COD_RECONCILIATION_STATUS_LABELS: Record<CodReconciliationStatus, string> = {
+  matched: 'مطابق',
+  short: 'تحويل ناقص',
+  over: 'تحويل زائد',
+  missing: 'لم يُحوّل',
+  duplicate: 'تحويل مكرر',
+  pending: 'ضمن مهلة التحويل',
+};
+
+export const COD_AGEING_BUCKETS: CodAgeingBucket[] = ['0-7', '8-14', '15-30', '31-60', '60+'];
+
+// SMSA remits weekly; a week covers the usual gap between delivery and the file.
+export const DEFAULT_REMITTANCE_GRACE_DAYS = 7;
+export const DEFAULT_RECONCILIATION_DAYS = 90;
+const MAX_RECONCILIATION_DAYS = 365;
+
+const DAY_MS = 86_400_000;
+
+const toHalalas = (amount: number) => Math.round(amount * 100);
+const fromHalalas = (halalas: number) => halalas / 100;
+
+/** AWBs come typed by hand on some files: compare without spaces or case. */
+export function normalizeAwb(value: string | null | undefined): string {
+  return (value ?? '').replace(/\s+/g, '').toUpperCase();
+}
+
+// The SMSA invoice summary lists charges per AWB; the COD handed back for the
+// AWB sits in its own column, named differently between file versions.
+const COD_COLUMNS = ['cod amount', 'cod amt', 'cod value', 'cod collected', 'cod'];
+
+/**
+ * COD the carrier remitted for one settlement row, read from the raw sheet
+ * row. `null` when the file has no COD column, so the row says nothing about
+ * COD and is left out of the reconciliation.
+ */
+export function remittedCodAmount(raw: unknown): number | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const columns = new Map(
+    Object.entries(raw as Record<string, unknown>).map(([key, value]) => [key.trim().toLowerCase(), value]),
+  );
+  for (const column of COD_COLUMNS) {
+    if (!columns.has(column)) continue;
+    const value = columns.get(column);
+    if (value === null || value === undefined || value === '') return 0;
+    const amount = typeof value === 'number' ? value : Number(String(value).replace(/,/g, ''));
+    return Number.isFinite(amount) ? amount : 0;
+  }
+  return null;
+}
+
+export function ageingBucket(ageDays: number): CodAgeingBucket {
+  if (ageDays <= 7) return '0-7';
+  if (ageDays <= 14) return '8-14';
+  if (ageDays <= 30) return '15-30';
+  if (ageDays <= 60) return '31-60';
+  return '60+';
+}
+
+const daysBetween = (from: Date, to: Date) => Math.max(0, Math.floor((to.getTime() - from.getTime()) / DAY_MS));
+
+function parseDaysParam(value: string | null, fallback: number, min: number, message: string): number {
+  if (value === null || value.trim() === '') return fallback;
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < min || days > MAX_RECONCILIATION_DAYS) {
+    throw new CodReconciliationError(message);
+  }
+  return days;
+}
+
+/** `?days=` is the delivery window to reconcile, `?graceDays=` the remittance delay. */
+export function parseReconciliationQuery(searchParams: URLSearchParams) {
+  return {
+    days: parseDaysParam(
+      searchParams.get('days'),
+      DEFAULT_RECONCILIATION_DAYS,
+      1,
+      `فترة المطابقة يجب أن تكون بين 1 و ${MAX_RECONCILIATION_DAYS} يوماً`,
+    ),
+    graceDays: parseDaysParam(
+      searchParams.get('graceDays'),
+      DEFAULT_REMITTANCE_GRACE_DAYS,
+      0,
+      'مهلة التحويل غير صالحة',
+    ),
+  };
+}
+
+function classify(
+  expected: ExpectedCarrierCod | undefined,
+  remittedHalalas: number,
+  remittanceCount: number,
+  ageDays: number,
+  graceDays: number,
+): CodReconciliationStatus {
+  if (remittanceCount > 1) return 'duplicate';
+  if (remittanceCount === 0) return ageDays > graceDays ? 'missing' : 'pending';
+  const variance = remittedHalalas - toHalalas(expected?.codAmount ?? 0);
+  if (variance === 0) return 'matched';
+  return variance < 0 ? 'short' : 'over';
+}
+
+/**
+ * Matches every expected COD AWB with the remittances for it. An AWB paid
+ * twice is a duplicate whatever the total; a remittance for an AWB we expected
+ * nothing on is over-remitted. Remittances of zero on AWBs without COD are
+ * ignored: the invoice lists prepaid shipments too.
+ */
+export function reconcileCarrierCod(
+  expected: ExpectedCarrierCod[],
+  remittances: CarrierCodRemittance[],
+  options: CodReconciliationOptions = {},
+): CodReconciliationReport {
+  const asOf = options.asOf ?? new Date();
+  const graceDays = options.graceDays ?? DEFAULT_REMITTANCE_GRACE_DAYS;
+
+  const expectedByAwb = new Map<string, ExpectedCarrierCod>();
+  for (const item of expected) {
+    const awb = normalizeAwb(item.awbNumber);
+    if (!awb || expectedByAwb.has(awb)) continue;
+    expectedByAwb.set(awb, item);
+  }
+
+  const remittancesByAwb = new Map<string, CarrierCodRemittance[]>();
+  for (const remittance of remittances) {
+    const awb = normalizeAwb(remittance.awbNumber);
+    if (!awb) continue;
+    const list = remittancesByAwb.get(awb) ?? [];
+    list.push(remittance);
+    remittancesByAwb.set(awb, list);
+  }
+
+  const lines: CodReconciliationLine[] = [];
+  for (const awb of new Set([...expectedByAwb.keys(), ...remittancesByAwb.keys()])) {
+    const item = expectedByAwb.get(awb);
+    const rows = remittancesByAwb.get(awb) ?? [];
+    // Extra charge lines for the same AWB carry no COD; they are not a second payment.
+    const withCod = rows.filter((remittance) => toHalalas(remittance.amount) !== 0);
+    const paid = withCod.length > 0 ? withCod : rows.slice(0, 1);
+    const remittedHalalas = paid.reduce((total, remittance) => total + toHalalas(remittance.amount), 0);
+    if (!item && remittedHalalas === 0) continue;
+
+    const settlementDates = paid
+      .map((remittance) => remittance.settlementDate)
+      .filter((date): date is Date => date !== null)
+      .sort((a, b) => a.getTime() - b.getTime());
+    const lastRemittedAt = settlementDates[settlementDates.length - 1] ?? null;
+    const agedFrom = item?.deliveredAt ?? settlementDates[0] ?? null;
+    const ageDays = agedFrom ? daysBetween(agedFrom, asOf) : 0;
+    const expectedHalalas = toHalalas(item?.codAmount ?? 0);
+
+    lines.push({
+      awbNumber: item?.awbNumber.trim() || rows[0].awbNumber.trim(),
+      orderNumber: item?.orderNumber ?? null,
+      sourceType: item?.sourceType ?? null,
+      status: classify(item, remittedHalalas, paid.length, ageDays, graceDays),
+      expectedAmount: fromHalalas(expectedHalalas),
+      remittedAmount: fromHalalas(remittedHalalas),
+      varianceAmount: fromHalalas(remittedHalalas - expectedHalalas),
+      remittanceCount: paid.length,
+      remittanceIds: paid.map((remittance) => remittance.id),
+      deliveredAt: item?.deliveredAt ?? null,
+      lastRemittedAt,
+      ageDays,
+      ageingBucket: ageingBucket(ageDays),
+    });
+  }
+
+  // Oldest open money first; matched and pending AWBs go to the end.
+  const rank = (line: CodReconciliationLine) => (line.status === 'matched' || line.status === 'pending' ? 1 : 0);
+  lines.sort((a, b) => rank(a) - rank(b) || b.ageDays - a.ageDays || a.awbNumber.localeCompare(b.awbNumber));
+
+  return { asOf, lines, summary: summarizeReconciliation(lines) };
+}
+
+export const isClaimLine = (line: CodReconciliationLine) => line.status === 'short' || line.status === 'missing';
+
+export function summarizeReconciliation(lines: CodReconciliationLine[]): CodReconciliationSummary {
+  const statusCounts: Record<CodReconciliationStatus, number> = {
+    matched: 0,
+    short: 0,
+    over: 0,
+    missing: 0,
+    duplicate: 0,
+    pending: 0,
+  };
+  const ageing = Object.fromEntries(
+    COD_AGEING_BUCKETS.map((bucket) => [bucket, { count: 0, amount: 0 }]),
+  ) as CodReconciliationSummary['ageing'];
+  let expected = 0;
+  let remitted = 0;
+  let claim = 0;
+  let over = 0;
+
+  for (const line of lines) {
+    statusCounts[line.status] += 1;
+    expected += toHalalas(line.expectedAmount);
+    remitted += toHalalas(line.remittedAmount);
+    const variance = toHalalas(line.varianceAmount);
+    if (isClaimLine(line)) {
+      claim -= variance;
+      const bucket = ageing[line.ageingBucket];
+      bucket.count += 1;
+      bucket.amount = fromHalalas(toHalalas(bucket.amount) - variance);
+    } else if (variance > 0) {
+      over += variance;
+    }
+  }
+
+  return {
+    statusCounts,
+    expectedAmount: fromHalalas(expected),
+    remittedAmount: fromHalalas(remitted),
+    claimAmount: fromHalalas(claim),
+    overRemittedAmount: fromHalalas(over),
+    ageing,
+  };
+}
+
+const formatDay = (date: Date | null) => (date ? date.toISOString().slice(0, 10) : '');
+
+// The claims file goes to the carrier, so its headings are in English.
+const ISSUE_LABELS: Record<CodReconciliationStatus, string> = {
+  matched: 'Matched',
+  short: 'Short remitted',
+  over: 'Over remitted',
+  missing: 'Not remitted',
+  duplicate: 'Duplicate remittance',
+  pending: 'Pending',
+};
+
+export const COD_CLAIM_COLUMNS = [
+  'AWB',
+  'Reference',
+  'Delivered Date',
+  'Expected COD',
+  'Remitted COD',
+  'Difference',
+  'Remittance Count',
+  'Last Remittance Date',
+  'Age (days)',
+  'Issue',
+];
+
+function claimSheetRow(line: CodReconciliationLine) {
+  return {
+    AWB: line.awbNumber,
+    Reference: line.orderNumber ?? '',
+    'Delivered Date': formatDay(line.deliveredAt),
+    'Expected COD': line.expectedAmount,
+    'Remitted COD': line.remittedAmount,
+    Difference: -line.varianceAmount,
+    'Remittance Count': line.remittanceCount,
+    'Last Remittance Date': formatDay(line.lastRemittedAt),
+    'Age (days)': line.ageDays,
+    Issue: ISSUE_LABELS[line.status],
+  };
+}
+
+/**
+ * Rows for the file sent to the carrier: the AWBs we claim on, and separately
+ * the AWBs they over-paid, so both sides can net the two.
+ */
+export function buildCodClaimRows(report: CodReconciliationReport) {
+  return {
+    claims: report.lines.filter(isClaimLine).map(claimSheetRow),
+    credits: report.lines
+      .filter((line) => line.status === 'over' || line.status === 'duplicate')
+      .map(claimSheetRow),
+  };
+}
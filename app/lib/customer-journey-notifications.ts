@@ -3,8 +3,15 @@ import { Prisma } from '@prisma/client';
 import { createSignedCustomerDocumentUrl } from '@/app/lib/customer-document-links';
 import { env } from '@/app/lib/env';
 import { log } from '@/app/lib/logger';
+import {
+  isFallbackMessageType,
+  undeliveredFallbackDueAt,
+  type SmsFallbackRule,
+} from '@/app/lib/message-channel-fallback';
+import { sendMsegatSms } from '@/app/lib/msegat';
 import { normalizePhoneWithDialCode } from '@/app/lib/phone';
 import { getSallaOrder } from '@/app/lib/salla-api';
+import { getSmsFallbackRule } from '@/app/lib/settings';
 import {
   sendWhatsAppButtonTemplate,
   sendWhatsAppRichTemplate,
@@ -19,7 +26,10 @@ export type CustomerJourneyStep =
   | 'shipped'
   | 'product_rating'
   | 'cancelled'
-  | 'refunded';
+  | 'refunded'
+  | 'partial_shipment'
+  | 'address_confirmation'
+  | 'delivery_reschedule';
 
 type MessageType = 'template' | 'richTemplate' | 'buttonTemplate';
 
@@ -33,6 +43,7 @@ export interface JourneyNotificationData {
   customerOrderLink?: string;
   refundAmount?: string;
   currency?: string;
+  backOrderItems?: string;
 }
 
 export interface EnqueueJourneyInput {
@@ -41,6 +52,8 @@ export interface EnqueueJourneyInput {
   order: AnyRecord;
   data?: AnyRecord;
   status?: string | null;
+  /** Separates repeat milestones on one order, e.g. the shipment of a back-order. */
+  dedupeDiscriminator?: string;
 }
 
 const TEMPLATE_BY_STEP: Record<
@@ -52,6 +65,9 @@ const TEMPLATE_BY_STEP: Record<
   product_rating: { id: env.ZOKO_TPL_ORDER_DELIVERED_RATING, type: 'buttonTemplate' },
   cancelled: { id: env.ZOKO_TPL_ORDER_CANCELLED, type: 'template' },
   refunded: { id: env.ZOKO_TPL_ORDER_REFUNDED, type: 'template' },
+  partial_shipment: { id: env.ZOKO_TPL_ORDER_PARTIAL_SHIPMENT, type: 'template' },
+  address_confirmation: { id: env.ZOKO_TPL_SHIPMENT_ADDRESS_CONFIRMATION, type: 'template' },
+  delivery_reschedule: { id: env.ZOKO_TPL_DELIVERY_RESCHEDULE, type: 'template' },
 };
 
 const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 15 * 60_000, 30 * 60_000, 60 * 60_000];
@@ -330,7 +346,8 @@ export async function enqueueCustomerJourneyEvent(input: EnqueueJourneyInput) {
       step === 'product_rating'
         ? new Date(Date.now() + delayHours * 60 * 60_000)
         : undefined,
-    dedupeDiscriminator: refundDiscriminator || ratingDiscriminator || undefined,
+    dedupeDiscriminator:
+      refundDiscriminator || ratingDiscriminator || input.dedupeDiscriminator || undefined,
   });
 
   if (step === 'product_rating') {
@@ -355,7 +372,7 @@ export async function enqueueCustomerJourneyEvent(input: EnqueueJourneyInput) {
       where: {
         merchantId,
         orderId,
-        step: { in: ['preparing', 'shipped', 'out_for_delivery', 'product_rating'] },
+        step: { in: ['preparing', 'shipped', 'out_for_delivery', 'product_rating', 'partial_shipment'] },
         status: { in: ['pending', 'waiting_for_data', 'retrying'] },
       },
       data: { status: 'cancelled', lastError: `Order ${step}` },
@@ -365,6 +382,111 @@ export async function enqueueCustomerJourneyEvent(input: EnqueueJourneyInput) {
   return { status: 'queued' as const, id: row.id, step };
 }
 
+/**
+ * Tells the customer that part of their order ships now and the listed items
+ * follow later. Queued once per back-order.
+ */
+export async function enqueuePartialShipmentNotification(input: {
+  merchantId: string;
+  orderId: string;
+  order: AnyRecord;
+  backOrderSequence: number;
+  backOrderItems: string[];
+}) {
+  if (!env.ZOKO_CUSTOMER_JOURNEY_ENABLED) return { status: 'disabled' as const };
+  const recipient = recipientPhone(input.order);
+  if (!recipient) {
+    log.warn('Could not enqueue partial shipment notification', {
+      orderId: input.orderId,
+      hasRecipient: false,
+    });
+    return { status: 'skipped' as const, reason: 'missing_identity' };
+  }
+
+  const row = await enqueueStep({
+    merchantId: input.merchantId,
+    orderId: input.orderId,
+    recipient,
+    step: 'partial_shipment',
+    data: {
+      ...buildJourneyNotificationData(input.order),
+      backOrderItems: input.backOrderItems.join('، '),
+    },
+    dedupeDiscriminator: `backorder-${input.backOrderSequence}`,
+  });
+  return { status: 'queued' as const, id: row.id, step: 'partial_shipment' as const };
+}
+
+/**
+ * Asks the customer to confirm their delivery address after the carrier
+ * reported an address problem. Queued once per shipment exception.
+ */
+export async function enqueueAddressConfirmationNotification(input: {
+  merchantId: string;
+  orderId: string;
+  order: AnyRecord;
+  trackingNumber: string;
+  exceptionId: string;
+}) {
+  if (!env.ZOKO_CUSTOMER_JOURNEY_ENABLED) return { status: 'disabled' as const };
+  const recipient = recipientPhone(input.order);
+  if (!recipient) {
+    log.warn('Could not enqueue address confirmation notification', {
+      orderId: input.orderId,
+      hasRecipient: false,
+    });
+    return { status: 'skipped' as const, reason: 'missing_identity' };
+  }
+
+  const row = await enqueueStep({
+    merchantId: input.merchantId,
+    orderId: input.orderId,
+    recipient,
+    step: 'address_confirmation',
+    data: {
+      ...buildJourneyNotificationData(input.order),
+      trackingNumber: input.trackingNumber,
+    },
+    dedupeDiscriminator: `exception-${input.exceptionId}`,
+  });
+  return { status: 'queued' as const, id: row.id, step: 'address_confirmation' as const };
+}
+
+/**
+ * Tells the customer a messenger could not deliver today and will come
+ * again. Queued once per reattempt assignment.
+ */
+export async function enqueueDeliveryRescheduleNotification(input: {
+  merchantId: string;
+  orderId: string;
+  order: AnyRecord;
+  trackingNumber: string;
+  assignmentId: string;
+}) {
+  if (!env.ZOKO_CUSTOMER_JOURNEY_ENABLED) return { status: 'disabled' as const };
+  const recipient = recipientPhone(input.order);
+  if (!recipient) {
+    log.warn('Could not enqueue delivery reschedule notification', {
+      orderId: input.orderId,
+      hasRecipient: false,
+    });
+    return { status: 'skipped' as const, reason: 'missing_identity' };
+  }
+
+  const row = await enqueueStep({
+    merchantId: input.merchantId,
+    orderId: input.orderId,
+    recipient,
+    step: 'delivery_reschedule',
+    data: {
+      ...buildJourneyNotificationData(input.order),
+      trackingNumber: input.trackingNumber,
+    },
+    dedupeDiscriminator: `reattempt-${input.assignmentId}`,
+  });
+  return { status: 'queued' as const, id: row.id, step: 'delivery_reschedule' as const };
+}
+
 function providerMessageId(response: unknown): string | null {
   if (!response || typeof response !== 'object') return null;
   const record = response as AnyRecord;
@@ -467,6 +589,12 @@ function argsForStep(input: {
   }
   if (step === 'product_rating') return [data.customerName, data.orderNumber, data.ratingLink || ''];
   if (step === 'cancelled') return [data.customerName, data.orderNumber];
+  if (step === 'partial_shipment') {
+    return [data.customerName, data.orderNumber, data.backOrderItems || ''];
+  }
+  if (step === 'address_confirmation' || step === 'delivery_reschedule') {
+    return [data.customerName, data.orderNumber, data.trackingNumber || ''];
+  }
   if (step === 'refunded') {
     return [data.customerName, data.orderNumber, data.refundAmount || '', data.currency || 'SAR'];
   }
@@ -484,9 +612,57 @@ function requiredDataMissing(step: string, data: JourneyNotificationData): strin
   }
   if (step === 'product_rating' && !data.ratingLink) missing.push('ratingLink');
   if (step === 'refunded' && !data.refundAmount) missing.push('refundAmount');
+  if (step === 'partial_shipment' && !data.backOrderItems) missing.push('backOrderItems');
+  if ((step === 'address_confirmation' || step === 'delivery_reschedule') && !data.trackingNumber) {
+    missing.push('trackingNumber');
+  }
   return missing;
 }
 
+/**
+ * Plain-text version of each template, sent by Msegat when the WhatsApp
+ * message falls back to SMS.
+ */
+export function buildJourneySmsText(input: {
+  step: string;
+  merchantId: string;
+  orderId: string;
+  data: JourneyNotificationData;
+}): string {
+  const { step, merchantId, orderId, data } = input;
+  const greeting = `مرحباً ${data.customerName}،`;
+  if (step === 'order_received') {
+    const invoiceUrl = createSignedCustomerDocumentUrl({ kind: 'invoice', merchantId, orderId });
+    return `${greeting} استلمنا طلبك رقم ${data.orderNumber}. فاتورتك: ${invoiceUrl}`;
+  }
+  if (step === 'shipped') {
+    return `${greeting} تم شحن طلبك رقم ${data.orderNumber} مع ${data.carrier}، رقم التتبع ${data.trackingNumber}: ${data.trackingLink}`;
+  }
+  if (step === 'product_rating') {
+    return `${greeting} نتمنى أن طلبك رقم ${data.orderNumber} نال إعجابك. قيّم تجربتك: ${data.ratingLink}`;
+  }
+  if (step === 'cancelled') return `${greeting} تم إلغاء طلبك رقم ${data.orderNumber}.`;
+  if (step === 'refunded') {
+    return `${greeting} تم استرداد ${data.refundAmount} ${data.currency || 'SAR'} لطلبك رقم ${data.orderNumber}.`;
+  }
+  if (step === 'partial_shipment') {
+    return `${greeting} شحنّا جزءاً من طلبك رقم ${data.orderNumber}، وستصلك لاحقاً: ${data.backOrderItems}`;
+  }
+  if (step === 'address_confirmation') {
+    return `${greeting} تعذر على شركة الشحن الوصول لعنوانك لطلب رقم ${data.orderNumber} (شحنة ${data.trackingNumber}). راسلنا على واتساب لتأكيد العنوان.`;
+  }
+  if (step === 'delivery_reschedule') {
+    return `${greeting} لم يتمكن المندوب من تسليم طلبك رقم ${data.orderNumber} (شحنة ${data.trackingNumber}) اليوم، وسيعاود التوصيل قريباً.`;
+  }
+  return `${greeting} تحديث بخصوص طلبك رقم ${data.orderNumber}.`;
+}
+
+const SMS_FALLBACK_OFF: SmsFallbackRule = { enabled: false, undeliveredMinutes: null };
+
+async function smsFallbackRuleForStep(step: string): Promise<SmsFallbackRule> {
+  return isFallbackMessageType(step) ? getSmsFallbackRule(step) : SMS_FALLBACK_OFF;
+}
+
 async function sendClaimedNotification(row: any) {
   try {
     if (
@@ -554,13 +730,16 @@ async function sendClaimedNotification(row: any) {
     }
 
     const messageId = providerMessageId(response);
+    const acceptedAt = new Date();
     await prisma.customerJourneyNotification.update({
       where: { id: row.id },
       data: {
         data: data as unknown as Prisma.InputJsonValue,
         status: 'accepted',
+        channel: 'whatsapp',
         providerMessageId: messageId,
-        acceptedAt: new Date(),
+        acceptedAt,
+        smsFallbackDueAt: undeliveredFallbackDueAt(await smsFallbackRuleForStep(row.step), acceptedAt),
         nextAttemptAt: null,
         lastError: null,
       },
@@ -578,6 +757,8 @@ async function sendClaimedNotification(row: any) {
         attemptCount,
         nextAttemptAt: terminal ? null : new Date(Date.now() + delay),
         failedAt: terminal ? new Date() : null,
+        // The fallback sweep checks the step's rule before sending anything.
+        smsFallbackDueAt: terminal ? new Date() : null,
         lastError: message,
       },
     });
@@ -629,7 +810,81 @@ export async function processDueCustomerJourneyNotifications(limit = 50) {
     if (claimed.count !== 1) continue;
     results.push(await sendClaimedNotification(candidate));
   }
-  return { processed: results.length, results, disabled: false };
+  const smsFallbacks = await processDueJourneySmsFallbacks(limit);
+  return { processed: results.length, results, smsFallbacks, disabled: false };
+}
+
+/**
+ * Resends by SMS the messages WhatsApp rejected or has not delivered in time.
+ * A row falls back at most once; the claim clears its due time so a parallel
+ * worker skips it.
+ */
+async function processDueJourneySmsFallbacks(limit: number) {
+  const now = new Date();
+  const candidates = await prisma.customerJourneyNotification.findMany({
+    where: {
+      smsFallbackDueAt: { lte: now },
+      smsFallbackAt: null,
+      status: { in: ['accepted', 'failed'] },
+    },
+    orderBy: { smsFallbackDueAt: 'asc' },
+    take: Math.max(1, Math.min(limit, 100)),
+  });
+  const rules = new Map<string, SmsFallbackRule>();
+  const results = [];
+  for (const candidate of candidates) {
+    const claimed = await prisma.customerJourneyNotification.updateMany({
+      where: { id: candidate.id, smsFallbackDueAt: { lte: now }, smsFallbackAt: null },
+      data: { smsFallbackDueAt: null },
+    });
+    if (claimed.count !== 1) continue;
+
+    if (!rules.has(candidate.step)) {
+      rules.set(candidate.step, await smsFallbackRuleForStep(candidate.step));
+    }
+    if (!rules.get(candidate.step)?.enabled) {
+      results.push({ id: candidate.id, status: 'sms_fallback_off' });
+      continue;
+    }
+    results.push(await sendJourneySmsFallback(candidate));
+  }
+  return { processed: results.length, results };
+}
+
+async function sendJourneySmsFallback(row: any) {
+  try {
+    const data = await enrichNotification(row);
+    const missing = requiredDataMissing(row.step, data);
+    if (missing.length > 0) {
+      throw new Error(`Missing required data: ${missing.join(', ')}`);
+    }
+    await sendMsegatSms({
+      to: row.recipient,
+      body: buildJourneySmsText({
+        step: row.step,
+        merchantId: row.merchantId,
+        orderId: row.orderId,
+        data,
+      }),
+    });
+    await prisma.customerJourneyNotification.update({
+      where: { id: row.id },
+      data: { status: 'sms_sent', channel: 'sms', smsFallbackAt: new Date() },
+    });
+    return { id: row.id, status: 'sms_sent' };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await prisma.customerJourneyNotification.update({
+      where: { id: row.id },
+      data: { lastError: `SMS fallback failed: ${message}` },
+    });
+    log.error('Customer journey SMS fallback failed', {
+      notificationId: row.id,
+      step: row.step,
+      error: message,
+    });
+    return { id: row.id, status: 'sms_failed' };
+  }
 }
 
 export async function reconcileCustomerJourneyDelivery(input: {
@@ -645,9 +900,11 @@ export async function reconcileCustomerJourneyDelivery(input: {
     data.status = 'read';
     data.readAt = occurredAt;
     data.deliveredAt = occurredAt;
+    data.smsFallbackDueAt = null;
   } else if (status === 'delivered') {
     data.status = 'delivered';
     data.deliveredAt = occurredAt;
+    data.smsFallbackDueAt = null;
   } else if (status === 'sent' || status === 'accepted') {
     data.status = 'accepted';
     data.acceptedAt = occurredAt;
@@ -655,11 +912,13 @@ export async function reconcileCustomerJourneyDelivery(input: {
     data.status = 'failed';
     data.failedAt = occurredAt;
     data.lastError = `Zoko delivery ${status}`;
+    data.smsFallbackDueAt = occurredAt;
   } else {
     return { count: 0 };
   }
+  // Once the SMS copy went out, late WhatsApp receipts no longer change the row.
   return prisma.customerJourneyNotification.updateMany({
-    where: { providerMessageId: input.providerMessageId },
+    where: { providerMessageId: input.providerMessageId, smsFallbackAt: null },
     data,
   });
 }
@@ -53,6 +53,27 @@ const EXPECTED_TEMPLATES = [
     expectedType: 'template',
     expectedVariables: 4,
   },
+  {
+    step: 'partial_shipment',
+    label: 'شحن جزئي وتأجيل منتجات',
+    templateId: env.ZOKO_TPL_ORDER_PARTIAL_SHIPMENT,
+    expectedType: 'template',
+    expectedVariables: 3,
+  },
+  {
+    step: 'address_confirmation',
+    label: 'تأكيد عنوان العميل لشحنة متعثرة',
+    templateId: env.ZOKO_TPL_SHIPMENT_ADDRESS_CONFIRMATION,
+    expectedType: 'template',
+    expectedVariables: 3,
+  },
+  {
+    step: 'delivery_reschedule',
+    label: 'إعادة جدولة التوصيل بعد محاولة فاشلة',
+    templateId: env.ZOKO_TPL_DELIVERY_RESCHEDULE,
+    expectedType: 'template',
+    expectedVariables: 3,
+  },
 ] as const satisfies ReadonlyArray<{
   step: string;
   label: string;
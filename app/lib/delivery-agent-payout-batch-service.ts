@@ -0,0 +1,207 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { recordDeliveryAgentWalletPayout } from '@/app/lib/delivery-agent-wallet';
+import {
+  PAYOUT_PAYMENT_METHOD_LABELS,
+  PayoutBatchError,
+  buildPayoutBatchNumber,
+  findPayoutShortfalls,
+  proposePayoutLines,
+  type PayoutBatchInput,
+  type PayoutBatchStatus,
+} from '@/app/lib/delivery-agent-payout-batch';
+
+export type PayoutBatchActor = {
+  id: string | null;
+  name: string | null;
+  username: string | null;
+};
+
+const actorName = (actor: PayoutBatchActor) => actor.name || actor.username;
+
+const toNumber = (value: Prisma.Decimal | number | null | undefined) =>
+  value === null || value === undefined ? 0 : Number(value);
+
+const batchWithLines = Prisma.validator<Prisma.DeliveryAgentPayoutBatchDefaultArgs>()({
+  include: {
+    lines: {
+      include: { deliveryAgent: { select: { id: true, name: true, username: true } } },
+      orderBy: { amount: 'desc' },
+    },
+  },
+});
+
+export type PayoutBatchWithLines = Prisma.DeliveryAgentPayoutBatchGetPayload<typeof batchWithLines>;
+
+export function serializePayoutBatch(batch: PayoutBatchWithLines) {
+  return {
+    id: batch.id,
+    batchNumber: batch.batchNumber,
+    status: batch.status as PayoutBatchStatus,
+    threshold: toNumber(batch.threshold),
+    totalAmount: toNumber(batch.totalAmount),
+    paymentMethod: batch.paymentMethod,
+    notes: batch.notes,
+    proposedByName: batch.proposedByName,
+    approvedAt: batch.approvedAt?.toISOString() ?? null,
+    approvedByName: batch.approvedByName,
+    cancelledAt: batch.cancelledAt?.toISOString() ?? null,
+    cancelledByName: batch.cancelledByName,
+    createdAt: batch.createdAt.toISOString(),
+    lines: batch.lines.map((line) => ({
+      deliveryAgentId: line.deliveryAgentId,
+      agentName: line.deliveryAgent.name,
+      agentUsername: line.deliveryAgent.username,
+      amount: toNumber(line.amount),
+      transactionId: line.transactionId,
+    })),
+  };
+}
+
+export async function listPayoutBatches(take = 20) {
+  return prisma.deliveryAgentPayoutBatch.findMany({
+    ...batchWithLines,
+    orderBy: { createdAt: 'desc' },
+    take,
+  });
+}
+
+async function getPayoutBatch(id: string) {
+  return prisma.deliveryAgentPayoutBatch.findUnique({ where: { id }, ...batchWithLines });
+}
+
+/** Wallet balances of the active messengers, as the wallets page lists them. */
+async function loadAgentBalances(db: Prisma.TransactionClient, agentIds?: string[]) {
+  const groups = await db.deliveryAgentWalletTransaction.groupBy({
+    by: ['deliveryAgentId'],
+    where: {
+      ...(agentIds ? { deliveryAgentId: { in: agentIds } } : {}),
+      deliveryAgent: { isActive: true, servicePermissions: { some: { serviceKey: 'my-deliveries' } } },
+    },
+    _sum: { amount: true },
+  });
+  return groups.map((group) => ({ deliveryAgentId: group.deliveryAgentId, balance: toNumber(group._sum.amount) }));
+}
+
+/**
+ * Proposes paying out every messenger whose balance reached the threshold.
+ * Only one batch may wait for approval at a time, so the same balance is
+ * never proposed twice.
+ */
+export async function createPayoutBatch(input: PayoutBatchInput, actor: PayoutBatchActor) {
+  const batchId = await prisma.$transaction(async (tx) => {
+    const pending = await tx.deliveryAgentPayoutBatch.findFirst({
+      where: { status: 'proposed' },
+      select: { batchNumber: true },
+    });
+    if (pending) {
+      throw new PayoutBatchError(`الدفعة ${pending.batchNumber} بانتظار الاعتماد، اعتمدها أو ألغها أولاً`, 409);
+    }
+
+    const lines = proposePayoutLines(await loadAgentBalances(tx), input.threshold);
+    if (lines.length === 0) {
+      throw new PayoutBatchError('لا يوجد مناديب بلغ رصيدهم الحد الأدنى للدفع');
+    }
+
+    const now = new Date();
+    const startOfDay = new Date(now);
+    startOfDay.setHours(0, 0, 0, 0);
+    const createdToday = await tx.deliveryAgentPayoutBatch.count({ where: { createdAt: { gte: startOfDay } } });
+
+    const batch = await tx.deliveryAgentPayoutBatch.create({
+      data: {
+        batchNumber: buildPayoutBatchNumber(now, createdToday + 1),
+        threshold: input.threshold,
+        totalAmount: lines.reduce((sum, line) => sum + Math.round(line.amount * 100), 0) / 100,
+        paymentMethod: input.paymentMethod,
+        notes: input.notes,
+        proposedById: actor.id,
+        proposedByName: actorName(actor),
+        lines: { create: lines.map((line) => ({ deliveryAgentId: line.deliveryAgentId, amount: line.amount })) },
+      },
+      select: { id: true },
+    });
+    return batch.id;
+  });
+
+  return (await getPayoutBatch(batchId)) as PayoutBatchWithLines;
+}
+
+/**
+ * Approves the batch and writes one `PAYOUT` per line under the batch. The
+ * status claim, the balance re-check and every payout commit together: if
+ * any agent no longer holds the proposed amount nothing is paid.
+ */
+export async function approvePayoutBatch(id: string, actor: PayoutBatchActor) {
+  await prisma.$transaction(async (tx) => {
+    const approvedAt = new Date();
+    // The status condition keeps two accountants from paying the same batch.
+    const claimed = await tx.deliveryAgentPayoutBatch.updateMany({
+      where: { id, status: 'proposed' },
+      data: { status: 'approved', approvedAt, approvedById: actor.id, approvedByName: actorName(actor) },
+    });
+    if (claimed.count === 0) {
+      const exists = await tx.deliveryAgentPayoutBatch.count({ where: { id } });
+      throw exists
+        ? new PayoutBatchError('تم اعتماد الدفعة أو إلغاؤها مسبقاً', 409)
+        : new PayoutBatchError('الدفعة غير موجودة', 404);
+    }
+
+    const batch = await tx.deliveryAgentPayoutBatch.findUniqueOrThrow({ where: { id }, ...batchWithLines });
+    const lines = batch.lines.map((line) => ({ deliveryAgentId: line.deliveryAgentId, amount: toNumber(line.amount) }));
+    const balances = await loadAgentBalances(
+      tx,
+      lines.map((line) => line.deliveryAgentId),
+    );
+    const shortfalls = findPayoutShortfalls(
+      lines,
+      new Map(balances.map((item) => [item.deliveryAgentId, item.balance])),
+    );
+    if (shortfalls.length > 0) {
+      const names = batch.lines
+        .filter((line) => shortfalls.some((shortfall) => shortfall.deliveryAgentId === line.deliveryAgentId))
+        .map((line) => line.deliveryAgent.name);
+      throw new PayoutBatchError(
+        `تغيّر رصيد ${names.join('، ')} منذ اقتراح الدفعة؛ ألغِ الدفعة واقترح دفعة جديدة`,
+        409,
+      );
+    }
+
+    const method = batch.paymentMethod ? PAYOUT_PAYMENT_METHOD_LABELS[batch.paymentMethod] : null;
+    for (const line of batch.lines) {
+      const transaction = await recordDeliveryAgentWalletPayout(
+        {
+          deliveryAgentId: line.deliveryAgentId,
+          amount: toNumber(line.amount),
+          paymentMethod: batch.paymentMethod ?? undefined,
+          notes: [`دفعة جماعية ${batch.batchNumber}`, method].filter(Boolean).join(' - '),
+          payoutBatchId: batch.id,
+          metadata: { batchNumber: batch.batchNumber },
+          createdById: actor.id ?? undefined,
+          createdByName: actorName(actor) ?? undefined,
+        },
+        tx,
+      );
+      await tx.deliveryAgentPayoutBatchLine.update({
+        where: { id: line.id },
+        data: { transactionId: transaction.id },
+      });
+    }
+  });
+
+  return (await getPayoutBatch(id)) as PayoutBatchWithLines;
+}
+
+export async function cancelPayoutBatch(id: string, actor: PayoutBatchActor) {
+  const cancelled = await prisma.deliveryAgentPayoutBatch.updateMany({
+    where: { id, status: 'proposed' },
+    data: { status: 'cancelled', cancelledAt: new Date(), cancelledByName: actorName(actor) },
+  });
+  if (cancelled.count === 0) {
+    const batch = await getPayoutBatch(id);
+    throw batch
+      ? new PayoutBatchError('تم اعتماد الدفعة أو إلغاؤها مسبقاً', 409)
+      : new PayoutBatchError('الدفعة غير موجودة', 404);
+  }
+  return (await getPayoutBatch(id)) as PayoutBatchWithLines;
+}
@@ -0,0 +1,90 @@
+/**
+ * Payout batches: one proposal to pay every messenger whose wallet balance
+ * reached a threshold, approved by an accountant before any `PAYOUT` entry is
+ * written. The proposal and approval checks live here so they can be tested
+ * without a database; `delivery-agent-payout-batch-service.ts` persists them.
+ */
+
+export class PayoutBatchError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'PayoutBatchError';
+    this.statusCode = statusCode;
+  }
+}
+
+export type PayoutBatchStatus = 'proposed' | 'approved' | 'cancelled';
+
+export const PAYOUT_BATCH_STATUS_LABELS: Record<PayoutBatchStatus, string> = {
+  proposed: 'بانتظار الاعتماد',
+  approved: 'معتمدة ومدفوعة',
+  cancelled: 'ملغاة',
+};
+
+export const PAYOUT_PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: 'نقداً',
+  bank_transfer: 'تحويل بنكي',
+  wallet: 'محفظة إلكترونية',
+};
+
+export const DEFAULT_PAYOUT_THRESHOLD = 100;
+
+const MAX_THRESHOLD = 100_000;
+
+export type PayoutBatchInput = {
+  threshold: number;
+  paymentMethod: string;
+  notes: string | null;
+};
+
+export function parsePayoutBatchInput(body: any): PayoutBatchInput {
+  const rawThreshold = body?.threshold;
+  const threshold =
+    rawThreshold === undefined || rawThreshold === null || rawThreshold === ''
+      ? DEFAULT_PAYOUT_THRESHOLD
+      : Number(rawThreshold);
+  if (!Number.isFinite(threshold) || threshold <= 0 || threshold > MAX_THRESHOLD) {
+    throw new PayoutBatchError('الحد الأدنى للرصيد يجب أن يكون رقماً أكبر من صفر');
+  }
+  const paymentMethod = typeof body?.paymentMethod === 'string' && body.paymentMethod ? body.paymentMethod : 'cash';
+  if (!(paymentMethod in PAYOUT_PAYMENT_METHOD_LABELS)) {
+    throw new PayoutBatchError('طريقة الدفع غير معروفة');
+  }
+  const notes = typeof body?.notes === 'string' && body.notes.trim() ? body.notes.trim() : null;
+  return { threshold: Math.round(threshold * 100) / 100, paymentMethod, notes };
+}
+
+export type AgentBalance = { deliveryAgentId: string; balance: number };
+
+export type ProposedPayoutLine = { deliveryAgentId: string; amount: number };
+
+/** Every agent owed at least `threshold`, paid their whole balance, largest first. */
+export function proposePayoutLines(balances: AgentBalance[], threshold: number): ProposedPayoutLine[] {
+  return balances
+    .map((item) => ({ deliveryAgentId: item.deliveryAgentId, amount: Math.round(item.balance * 100) / 100 }))
+    .filter((line) => line.amount > 0 && line.amount >= threshold)
+    .sort((a, b) => b.amount - a.amount || a.deliveryAgentId.localeCompare(b.deliveryAgentId));
+}
+
+/**
+ * Lines whose agent no longer holds the proposed amount, e.g. because a
+ * payout was recorded by hand after the batch was proposed. Approving them
+ * would push the wallet negative.
+ */
+export function findPayoutShortfalls(
+  lines: ProposedPayoutLine[],
+  currentBalances: Map<string, number>,
+): ProposedPayoutLine[] {
+  return lines.filter(
+    (line) => Math.round((currentBalances.get(line.deliveryAgentId) ?? 0) * 100) < Math.round(line.amount * 100),
+  );
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export function buildPayoutBatchNumber(createdAt: Date, sequence: number): string {
+  const day = `${createdAt.getFullYear()}${pad(createdAt.getMonth() + 1)}${pad(createdAt.getDate())}`;
+  return `PB-${day}-${pad(sequence)}`;
+}
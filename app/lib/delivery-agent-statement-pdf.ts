@@ -0,0 +1,192 @@
+import fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import type { PDFFont, PDFPage } from 'pdf-lib';
+import { ArabicShaper } from 'arabic-persian-reshaper';
+
+import { detectDirection, loadArabicFont } from '@/app/lib/local-shipping/label';
+import {
+  STATEMENT_CREDIT_TYPES,
+  WALLET_TRANSACTION_TYPE_LABELS,
+  describeStatementLine,
+  formatStatementDateTime,
+  formatStatementDay,
+  lastStatementDay,
+  type WalletStatement,
+} from '@/app/lib/delivery-agent-statement';
+
+// A4 portrait, like the cash-up receipt.
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const CONTENT_LEFT = MARGIN;
+const CONTENT_RIGHT = PAGE_WIDTH - MARGIN;
+const CONTENT_WIDTH = CONTENT_RIGHT - CONTENT_LEFT;
+const ROW_HEIGHT = 18;
+
+// Ledger columns, measured from the right edge.
+const COLUMN_DATE = CONTENT_RIGHT - 4;
+const COLUMN_DESCRIPTION = CONTENT_RIGHT - 100;
+const COLUMN_CREDIT = CONTENT_LEFT + 190;
+const COLUMN_DEBIT = CONTENT_LEFT + 120;
+const COLUMN_BALANCE = CONTENT_LEFT + 50;
+
+const textColor = rgb(0.13, 0.15, 0.2);
+const subtleText = rgb(0.46, 0.48, 0.55);
+const accentColor = rgb(0.82, 0.19, 0.32);
+const positiveColor = rgb(0.09, 0.5, 0.27);
+const borderColor = rgb(0.88, 0.9, 0.94);
+const headerBg = rgb(1, 0.97, 0.98);
+
+type DocumentContext = {
+  pdfDoc: PDFDocument;
+  page: PDFPage;
+  arabicFont: PDFFont;
+  latinFont: PDFFont;
+};
+
+function drawText(
+  ctx: DocumentContext,
+  value: string,
+  x: number,
+  y: number,
+  size: number,
+  options: { color?: ReturnType<typeof rgb>; align?: 'left' | 'right' | 'center' } = {},
+) {
+  const direction = /[\u0600-\u06FF]/.test(value) ? 'rtl' : detectDirection(value);
+  const shaped = direction === 'rtl' ? ArabicShaper.convertArabic(value) : value;
+  const font = direction === 'rtl' ? ctx.arabicFont : ctx.latinFont;
+  const width = font.widthOfTextAtSize(shaped, size);
+  const align = options.align ?? (direction === 'rtl' ? 'right' : 'left');
+  const drawX = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+  ctx.page.drawText(shaped, { x: drawX, y, font, size, color: options.color ?? textColor });
+}
+
+function drawRule(ctx: DocumentContext, y: number) {
+  ctx.page.drawLine({
+    start: { x: CONTENT_LEFT, y },
+    end: { x: CONTENT_RIGHT, y },
+    color: borderColor,
+    thickness: 0.6,
+  });
+}
+
+const formatSar = (value: number) => value.toFixed(2);
+
+const amountColor = (value: number) => (value < 0 ? accentColor : value > 0 ? positiveColor : undefined);
+
+function drawLedgerHeader(ctx: DocumentContext, y: number) {
+  drawText(ctx, 'التاريخ', COLUMN_DATE, y, 9.5, { color: subtleText, align: 'right' });
+  drawText(ctx, 'البيان', COLUMN_DESCRIPTION, y, 9.5, { color: subtleText, align: 'right' });
+  drawText(ctx, 'دائن', COLUMN_CREDIT, y, 9.5, { color: subtleText, align: 'right' });
+  drawText(ctx, 'مدين', COLUMN_DEBIT, y, 9.5, { color: subtleText, align: 'right' });
+  drawText(ctx, 'الرصيد', COLUMN_BALANCE, y, 9.5, { color: subtleText, align: 'right' });
+  drawRule(ctx, y - 6);
+}
+
+/** Starts a new page (repeating the ledger header) once `y` would run into the bottom margin. */
+function ensureLedgerSpace(ctx: DocumentContext, y: number): number {
+  if (y - ROW_HEIGHT >= MARGIN + 20) return y;
+  ctx.page = ctx.pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const top = PAGE_HEIGHT - MARGIN;
+  drawLedgerHeader(ctx, top);
+  return top - ROW_HEIGHT;
+}
+
+/**
+ * Wallet statement for one messenger: the period's opening balance, what was
+ * earned by type, what was paid out and the closing balance, followed by
+ * every ledger entry with its running balance.
+ */
+export async function generateWalletStatementPdf(statement: WalletStatement): Promise<Buffer> {
+  const arabicFontData = await loadArabicFont();
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.registerFontkit(fontkit);
+  const [arabicFont, latinFont] = await Promise.all([
+    pdfDoc.embedFont(arabicFontData, { subset: true }),
+    pdfDoc.embedFont(StandardFonts.Helvetica),
+  ]);
+  const ctx: DocumentContext = { pdfDoc, page: pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]), arabicFont, latinFont };
+
+  const top = PAGE_HEIGHT - MARGIN;
+  ctx.page.drawRectangle({
+    x: CONTENT_LEFT,
+    y: top - 70,
+    width: CONTENT_WIDTH,
+    height: 70,
+    color: headerBg,
+    borderColor,
+    borderWidth: 1,
+  });
+  drawText(ctx, 'Wallet Statement', CONTENT_LEFT + 12, top - 24, 16, { color: accentColor, align: 'left' });
+  drawText(ctx, 'كشف حساب محفظة المندوب', CONTENT_RIGHT - 12, top - 25, 16, { color: accentColor, align: 'right' });
+  drawText(
+    ctx,
+    `${formatStatementDay(statement.period.from)} - ${formatStatementDay(lastStatementDay(statement.period))}`,
+    CONTENT_LEFT + 12,
+    top - 52,
+    10,
+    { align: 'left' },
+  );
+  drawText(ctx, `${statement.agent.name} (${statement.agent.username})`, CONTENT_RIGHT - 12, top - 52, 11, {
+    align: 'right',
+  });
+
+  // Summary
+  const summary: [string, number][] = [
+    ['الرصيد الافتتاحي', statement.openingBalance],
+    ...STATEMENT_CREDIT_TYPES.map((type): [string, number] => [
+      `${WALLET_TRANSACTION_TYPE_LABELS[type]} (${statement.credits[type].count})`,
+      statement.credits[type].total,
+    ]),
+    [`تعديلات دائنة (${statement.adjustmentCredits.count})`, statement.adjustmentCredits.total],
+    [`الدفعات (${statement.payouts.count})`, -statement.payouts.total],
+    [`تعديلات مدينة (${statement.adjustmentDebits.count})`, -statement.adjustmentDebits.total],
+  ];
+  let y = top - 96;
+  for (const [label, value] of summary) {
+    drawText(ctx, label, CONTENT_RIGHT - 4, y, 10, { color: subtleText, align: 'right' });
+    drawText(ctx, `${formatSar(value)} SAR`, CONTENT_RIGHT - 220, y, 10.5, { align: 'right' });
+    drawRule(ctx, y - 7);
+    y -= 22;
+  }
+  drawText(ctx, 'الرصيد الختامي', CONTENT_RIGHT - 4, y, 11.5, { color: accentColor, align: 'right' });
+  drawText(ctx, `${formatSar(statement.closingBalance)} SAR`, CONTENT_RIGHT - 220, y, 12, {
+    color: amountColor(statement.closingBalance),
+    align: 'right',
+  });
+  y -= 34;
+
+  // Ledger
+  drawText(ctx, 'الحركات', CONTENT_RIGHT - 4, y, 12, { color: accentColor, align: 'right' });
+  y -= ROW_HEIGHT + 2;
+  drawLedgerHeader(ctx, y);
+  y -= ROW_HEIGHT;
+  drawText(ctx, 'الرصيد الافتتاحي', COLUMN_DESCRIPTION, y, 9.5, { align: 'right' });
+  drawText(ctx, formatSar(statement.openingBalance), COLUMN_BALANCE, y, 9.5, { align: 'right' });
+  drawRule(ctx, y - 5);
+  y -= ROW_HEIGHT;
+
+  if (statement.lines.length === 0) {
+    drawText(ctx, 'لا توجد حركات في هذه الفترة', CONTENT_RIGHT - 4, y, 10, { color: subtleText, align: 'right' });
+  }
+  for (const line of statement.lines) {
+    y = ensureLedgerSpace(ctx, y);
+    drawText(ctx, formatStatementDateTime(line.createdAt), COLUMN_DATE, y, 8.5, { align: 'right' });
+    drawText(ctx, describeStatementLine(line).slice(0, 48), COLUMN_DESCRIPTION, y, 9, { align: 'right' });
+    if (line.amount > 0) {
+      drawText(ctx, formatSar(line.amount), COLUMN_CREDIT, y, 9, { color: positiveColor, align: 'right' });
+    } else if (line.amount < 0) {
+      drawText(ctx, formatSar(-line.amount), COLUMN_DEBIT, y, 9, { color: accentColor, align: 'right' });
+    }
+    drawText(ctx, formatSar(line.balance), COLUMN_BALANCE, y, 9, { align: 'right' });
+    drawRule(ctx, y - 5);
+    y -= ROW_HEIGHT;
+  }
+
+  drawText(ctx, `Generated ${formatStatementDateTime(new Date())}`, CONTENT_LEFT, MARGIN - 14, 8, {
+    color: subtleText,
+    align: 'left',
+  });
+
+  return Buffer.from(await pdfDoc.save());
+}
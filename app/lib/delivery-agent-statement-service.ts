@@ -0,0 +1,71 @@
+import * as XLSX from 'xlsx';
+import { prisma } from '@/lib/prisma';
+import {
+  WalletStatementError,
+  buildStatementSheetRows,
+  buildWalletStatement,
+  type StatementPeriod,
+  type WalletStatement,
+} from '@/app/lib/delivery-agent-statement';
+
+const orderNumberOf = (metadata: unknown): string | null => {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) return null;
+  const value = (metadata as Record<string, unknown>).orderNumber;
+  return typeof value === 'string' && value ? value : null;
+};
+
+/** The agent's ledger over the period, with everything before it folded into the opening balance. */
+export async function loadWalletStatement(deliveryAgentId: string, period: StatementPeriod): Promise<WalletStatement> {
+  const [agent, opening, transactions] = await Promise.all([
+    prisma.orderUser.findUnique({
+      where: { id: deliveryAgentId },
+      select: { id: true, name: true, username: true },
+    }),
+    prisma.deliveryAgentWalletTransaction.aggregate({
+      where: { deliveryAgentId, createdAt: { lt: period.from } },
+      _sum: { amount: true },
+    }),
+    prisma.deliveryAgentWalletTransaction.findMany({
+      where: { deliveryAgentId, createdAt: { gte: period.from, lt: period.to } },
+      select: {
+        id: true,
+        type: true,
+        amount: true,
+        createdAt: true,
+        notes: true,
+        metadata: true,
+        payoutBatch: { select: { batchNumber: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  if (!agent) {
+    throw new WalletStatementError('المندوب غير موجود', 404);
+  }
+
+  return buildWalletStatement(
+    agent,
+    period,
+    Number(opening._sum.amount ?? 0),
+    transactions.map((transaction) => ({
+      id: transaction.id,
+      type: transaction.type,
+      amount: Number(transaction.amount),
+      createdAt: transaction.createdAt,
+      notes: transaction.notes,
+      orderNumber: orderNumberOf(transaction.metadata),
+      batchNumber: transaction.payoutBatch?.batchNumber ?? null,
+    })),
+  );
+}
+
+/** Single-sheet workbook, right-to-left so the Arabic columns read naturally. */
+export function buildWalletStatementWorkbook(statement: WalletStatement): Buffer {
+  const sheet = XLSX.utils.aoa_to_sheet(buildStatementSheetRows(statement));
+  sheet['!cols'] = [{ wch: 24 }, { wch: 36 }, { wch: 40 }, { wch: 12 }, { wch: 12 }, { wch: 14 }];
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(book, sheet, 'كشف الحساب');
+  book.Workbook = { Views: [{ RTL: true }] };
+  return XLSX.write(book, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+}
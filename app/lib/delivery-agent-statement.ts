@@ -0,0 +1,264 @@
+/**
+ * Delivery-agent wallet statements: opening balance, credits by type,
+ * payouts and closing balance over a period, with a running balance per
+ * ledger entry. Free of Prisma so the arithmetic can be tested directly;
+ * `delivery-agent-statement-service.ts` loads the ledger and writes the
+ * XLSX, `delivery-agent-statement-pdf.ts` renders the PDF.
+ */
+import type { DeliveryAgentWalletTransactionType } from '@prisma/client';
+
+export class WalletStatementError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'WalletStatementError';
+    this.statusCode = statusCode;
+  }
+}
+
+export const WALLET_TRANSACTION_TYPE_LABELS: Record<DeliveryAgentWalletTransactionType, string> = {
+  SHIPMENT_COMPLETED: 'شحنة مكتملة',
+  TASK_COMPLETED: 'مهمة مكتملة',
+  FAILED_ATTEMPT: 'محاولة تسليم',
+  PAYOUT: 'دفعة من الإدارة',
+  ADJUSTMENT: 'تعديل محفظة',
+};
+
+/** Ledger types that only ever add to the balance, in statement order. */
+export const STATEMENT_CREDIT_TYPES = ['SHIPMENT_COMPLETED', 'TASK_COMPLETED', 'FAILED_ATTEMPT'] as const;
+
+export type StatementCreditType = (typeof STATEMENT_CREDIT_TYPES)[number];
+
+export type StatementPeriod = {
+  from: Date;
+  /** Exclusive. */
+  to: Date;
+};
+
+export type StatementTransaction = {
+  id: string;
+  type: DeliveryAgentWalletTransactionType;
+  amount: number;
+  createdAt: Date;
+  notes: string | null;
+  orderNumber: string | null;
+  batchNumber: string | null;
+};
+
+export type StatementLine = StatementTransaction & { balance: number };
+
+type Tally = { count: number; total: number };
+
+export type WalletStatement = {
+  agent: { id: string; name: string; username: string };
+  period: StatementPeriod;
+  openingBalance: number;
+  credits: Record<StatementCreditType, Tally>;
+  /** Positive manual adjustments, e.g. a cash-up surplus. */
+  adjustmentCredits: Tally;
+  /** Negative manual adjustments, as a positive total. */
+  adjustmentDebits: Tally;
+  /** Payouts, as a positive total. */
+  payouts: Tally;
+  totalCredits: number;
+  totalDebits: number;
+  closingBalance: number;
+  lines: StatementLine[];
+};
+
+const toHalalas = (amount: number) => Math.round(amount * 100);
+const fromHalalas = (halalas: number) => halalas / 100;
+
+const emptyTally = () => ({ count: 0, total: 0 });
+
+function addTo(tally: Tally, halalas: number) {
+  tally.count += 1;
+  tally.total += halalas;
+}
+
+const tallyToAmount = (tally: Tally): Tally => ({ count: tally.count, total: fromHalalas(tally.total) });
+
+/**
+ * Builds the statement from the balance before `period.from` and the ledger
+ * entries inside the period. Entries are re-sorted oldest first so the
+ * running balance reads top to bottom.
+ */
+export function buildWalletStatement(
+  agent: WalletStatement['agent'],
+  period: StatementPeriod,
+  openingBalance: number,
+  transactions: StatementTransaction[],
+): WalletStatement {
+  const credits = {
+    SHIPMENT_COMPLETED: emptyTally(),
+    TASK_COMPLETED: emptyTally(),
+    FAILED_ATTEMPT: emptyTally(),
+  };
+  const adjustmentCredits = emptyTally();
+  const adjustmentDebits = emptyTally();
+  const payouts = emptyTally();
+
+  let running = toHalalas(openingBalance);
+  const lines: StatementLine[] = [];
+  const ordered = [...transactions].sort(
+    (a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id),
+  );
+  for (const transaction of ordered) {
+    const halalas = toHalalas(transaction.amount);
+    if (transaction.type === 'PAYOUT') {
+      addTo(payouts, -halalas);
+    } else if (transaction.type === 'ADJUSTMENT') {
+      if (halalas >= 0) addTo(adjustmentCredits, halalas);
+      else addTo(adjustmentDebits, -halalas);
+    } else {
+      addTo(credits[transaction.type], halalas);
+    }
+    running += halalas;
+    lines.push({ ...transaction, balance: fromHalalas(running) });
+  }
+
+  const totalCredits =
+    STATEMENT_CREDIT_TYPES.reduce((sum, type) => sum + credits[type].total, 0) + adjustmentCredits.total;
+  const totalDebits = payouts.total + adjustmentDebits.total;
+
+  return {
+    agent,
+    period,
+    openingBalance: fromHalalas(toHalalas(openingBalance)),
+    credits: {
+      SHIPMENT_COMPLETED: tallyToAmount(credits.SHIPMENT_COMPLETED),
+      TASK_COMPLETED: tallyToAmount(credits.TASK_COMPLETED),
+      FAILED_ATTEMPT: tallyToAmount(credits.FAILED_ATTEMPT),
+    },
+    adjustmentCredits: tallyToAmount(adjustmentCredits),
+    adjustmentDebits: tallyToAmount(adjustmentDebits),
+    payouts: tallyToAmount(payouts),
+    totalCredits: fromHalalas(totalCredits),
+    totalDebits: fromHalalas(totalDebits),
+    closingBalance: fromHalalas(running),
+    lines,
+  };
+}
+
+const MAX_PERIOD_DAYS = 366;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function dayOf(value: string, label: string): Date {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+  if (!date || date.getDate() !== Number(match![3])) {
+    throw new WalletStatementError(`${label} غير صالح`);
+  }
+  return date;
+}
+
+/**
+ * `?month=YYYY-MM`, or `?from=YYYY-MM-DD&to=YYYY-MM-DD` with both days
+ * included; the previous calendar month when neither is given.
+ */
+export function parseStatementPeriod(searchParams: URLSearchParams, now: Date): StatementPeriod {
+  const month = searchParams.get('month')?.trim();
+  const fromParam = searchParams.get('from')?.trim();
+  const toParam = searchParams.get('to')?.trim();
+
+  if (fromParam || toParam) {
+    if (!fromParam || !toParam) {
+      throw new WalletStatementError('حدد بداية ونهاية الفترة');
+    }
+    const from = dayOf(fromParam, 'تاريخ البداية');
+    const lastDay = dayOf(toParam, 'تاريخ النهاية');
+    const to = new Date(lastDay.getFullYear(), lastDay.getMonth(), lastDay.getDate() + 1);
+    if (to.getTime() <= from.getTime()) {
+      throw new WalletStatementError('تاريخ النهاية يجب أن يكون بعد تاريخ البداية');
+    }
+    if ((to.getTime() - from.getTime()) / 86_400_000 > MAX_PERIOD_DAYS) {
+      throw new WalletStatementError('لا يمكن أن تتجاوز الفترة سنة واحدة');
+    }
+    return { from, to };
+  }
+
+  if (month) {
+    const match = month.match(/^(\d{4})-(\d{2})$/);
+    const monthIndex = match ? Number(match[2]) - 1 : -1;
+    if (!match || monthIndex < 0 || monthIndex > 11) {
+      throw new WalletStatementError('الشهر غير صالح');
+    }
+    const year = Number(match[1]);
+    return { from: new Date(year, monthIndex, 1), to: new Date(year, monthIndex + 1, 1) };
+  }
+
+  return {
+    from: new Date(now.getFullYear(), now.getMonth() - 1, 1),
+    to: new Date(now.getFullYear(), now.getMonth(), 1),
+  };
+}
+
+/** `YYYY-MM-DD` of a local date, for file names and headings. */
+export const formatStatementDay = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/** The last day covered by the (exclusive) period end. */
+export const lastStatementDay = (period: StatementPeriod) =>
+  new Date(period.to.getFullYear(), period.to.getMonth(), period.to.getDate() - 1);
+
+export const formatStatementDateTime = (date: Date) =>
+  date.toLocaleString('en-GB', {
+    timeZone: 'Asia/Riyadh',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+
+/** Describes a ledger entry on one line: its type plus the order or batch it belongs to. */
+export function describeStatementLine(line: StatementTransaction): string {
+  const reference = line.orderNumber
+    ? `طلب ${line.orderNumber}`
+    : line.batchNumber
+      ? `دفعة ${line.batchNumber}`
+      : null;
+  return [WALLET_TRANSACTION_TYPE_LABELS[line.type], reference].filter(Boolean).join(' - ');
+}
+
+/**
+ * The statement as spreadsheet rows: a summary block, then one row per
+ * ledger entry with separate credit and debit columns.
+ */
+export function buildStatementSheetRows(statement: WalletStatement): (string | number)[][] {
+  const rows: (string | number)[][] = [
+    ['كشف حساب محفظة المندوب'],
+    ['المندوب', `${statement.agent.name} (${statement.agent.username})`],
+    ['الفترة', `${formatStatementDay(statement.period.from)} - ${formatStatementDay(lastStatementDay(statement.period))}`],
+    [],
+    ['الرصيد الافتتاحي', statement.openingBalance],
+  ];
+  for (const type of STATEMENT_CREDIT_TYPES) {
+    const tally = statement.credits[type];
+    rows.push([`${WALLET_TRANSACTION_TYPE_LABELS[type]} (${tally.count})`, tally.total]);
+  }
+  rows.push(
+    [`تعديلات دائنة (${statement.adjustmentCredits.count})`, statement.adjustmentCredits.total],
+    ['إجمالي المستحقات', statement.totalCredits],
+    [`الدفعات (${statement.payouts.count})`, -statement.payouts.total],
+    [`تعديلات مدينة (${statement.adjustmentDebits.count})`, -statement.adjustmentDebits.total],
+    ['الرصيد الختامي', statement.closingBalance],
+    [],
+    ['التاريخ', 'البيان', 'ملاحظات', 'دائن', 'مدين', 'الرصيد'],
+    ['', 'الرصيد الافتتاحي', '', '', '', statement.openingBalance],
+  );
+  for (const line of statement.lines) {
+    rows.push([
+      formatStatementDateTime(line.createdAt),
+      describeStatementLine(line),
+      line.notes ?? '',
+      line.amount > 0 ? line.amount : '',
+      line.amount < 0 ? -line.amount : '',
+      line.balance,
+    ]);
+  }
+  return rows;
+}
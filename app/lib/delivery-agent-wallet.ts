@@ -1,11 +1,17 @@
 import { randomUUID } from 'crypto';
 import { Prisma, DeliveryAgentWalletTransactionType } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import type { CommissionQuote } from '@/app/lib/delivery-commission';
+import {
+  quoteFailedAttemptCommission,
+  quoteShipmentCommission,
+  quoteTaskCommission,
+} from '@/app/lib/delivery-commission-service';
 
 const SHIPMENT_REFERENCE_TYPE = 'local_shipment';
 const TASK_REFERENCE_TYPE = 'delivery_agent_task';
+const FAILED_ATTEMPT_REFERENCE_TYPE = 'failed_delivery_attempt';
 const PAYOUT_REFERENCE_TYPE = 'payout';
-const DEFAULT_REWARD_AMOUNT = new Prisma.Decimal(30);
 
 type Metadata = Record<string, unknown>;
 
@@ -19,19 +25,30 @@ const sanitizeMetadata = (metadata?: Metadata | null) => {
 const isNotFoundError = (error: unknown) =>
   error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025';
 
+// Which commission rule priced a credit, so statements can explain the amount.
+const commissionMetadata = (quote: CommissionQuote) => ({
+  commissionRuleId: quote.ruleId ?? undefined,
+  commissionRuleName: quote.ruleName,
+  commissionLines: quote.lines,
+});
+
 export async function ensureShipmentWalletCredit(params: {
   shipmentId: string;
   deliveryAgentId: string;
   assignmentId?: string;
   orderNumber?: string | null;
   trackingNumber?: string | null;
+  /** Prices the credit with the commission rule in force at this time. */
+  deliveredAt?: Date;
   createdById?: string;
   createdByName?: string;
 }) {
+  const quote = await quoteShipmentCommission(params.shipmentId, params.deliveredAt ?? new Date());
   const metadata = sanitizeMetadata({
     assignmentId: params.assignmentId,
     orderNumber: params.orderNumber,
     trackingNumber: params.trackingNumber,
+    ...commissionMetadata(quote),
   });
   const description = params.orderNumber
     ? `تم تسليم الشحنة ${params.orderNumber}`
@@ -54,7 +71,7 @@ export async function ensureShipmentWalletCredit(params: {
     create: {
       deliveryAgentId: params.deliveryAgentId,
       type: DeliveryAgentWalletTransactionType.SHIPMENT_COMPLETED,
-      amount: DEFAULT_REWARD_AMOUNT,
+      amount: new Prisma.Decimal(quote.amount),
       referenceType: SHIPMENT_REFERENCE_TYPE,
       referenceId: params.shipmentId,
       metadata,
@@ -86,11 +103,16 @@ export async function ensureTaskWalletCredit(params: {
   taskId: string;
   deliveryAgentId: string;
   title?: string;
+  requestType?: string | null;
+  completedAt?: Date;
   createdById?: string;
   createdByName?: string;
 }) {
+  const quote = await quoteTaskCommission(params.requestType ?? null, params.completedAt ?? new Date());
   const metadata = sanitizeMetadata({
     title: params.title,
+    requestType: params.requestType,
+    ...commissionMetadata(quote),
   });
   const description = params.title ? `تم إنهاء المهمة: ${params.title}` : 'تم إنهاء مهمة للمندوب';
 
@@ -111,7 +133,7 @@ export async function ensureTaskWalletCredit(params: {
     create: {
       deliveryAgentId: params.deliveryAgentId,
       type: DeliveryAgentWalletTransactionType.TASK_COMPLETED,
-      amount: DEFAULT_REWARD_AMOUNT,
+      amount: new Prisma.Decimal(quote.amount),
       referenceType: TASK_REFERENCE_TYPE,
       referenceId: params.taskId,
       metadata,
@@ -139,30 +161,111 @@ export async function removeTaskWalletCredit(taskId: string) {
   }
 }
 
-export async function recordDeliveryAgentWalletPayout(params: {
+/**
+ * Partial pay for a delivery attempt that failed. Keyed by the assignment,
+ * since every attempt is its own assignment; nothing is written while the
+ * rule in force pays nothing for failed attempts.
+ */
+export async function ensureFailedAttemptWalletCredit(params: {
+  assignmentId: string;
   deliveryAgentId: string;
-  amount: number;
-  paymentMethod?: string;
-  notes?: string;
+  orderNumber?: string | null;
+  trackingNumber?: string | null;
+  failedAt?: Date;
   createdById?: string;
   createdByName?: string;
 }) {
+  const quote = await quoteFailedAttemptCommission(params.failedAt ?? new Date());
+  if (quote.amount <= 0) {
+    return null;
+  }
+  const metadata = sanitizeMetadata({
+    orderNumber: params.orderNumber,
+    trackingNumber: params.trackingNumber,
+    ...commissionMetadata(quote),
+  });
+  const description = params.orderNumber
+    ? `محاولة تسليم الشحنة ${params.orderNumber}`
+    : 'محاولة تسليم شحنة محلية';
+
+  return prisma.deliveryAgentWalletTransaction.upsert({
+    where: {
+      referenceType_referenceId: {
+        referenceType: FAILED_ATTEMPT_REFERENCE_TYPE,
+        referenceId: params.assignmentId,
+      },
+    },
+    update: {
+      deliveryAgentId: params.deliveryAgentId,
+      metadata,
+      notes: description,
+    },
+    create: {
+      deliveryAgentId: params.deliveryAgentId,
+      type: DeliveryAgentWalletTransactionType.FAILED_ATTEMPT,
+      amount: new Prisma.Decimal(quote.amount),
+      referenceType: FAILED_ATTEMPT_REFERENCE_TYPE,
+      referenceId: params.assignmentId,
+      metadata,
+      notes: description,
+      createdById: params.createdById,
+      createdByName: params.createdByName,
+    },
+  });
+}
+
+export async function removeFailedAttemptWalletCredit(assignmentId: string) {
+  try {
+    await prisma.deliveryAgentWalletTransaction.delete({
+      where: {
+        referenceType_referenceId: {
+          referenceType: FAILED_ATTEMPT_REFERENCE_TYPE,
+          referenceId: assignmentId,
+        },
+      },
+    });
+  } catch (error) {
+    if (!isNotFoundError(error)) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Payouts approved in a batch pass the batch's transaction client as `db`
+ * and its id, so every payout of the batch commits or fails together.
+ */
+export async function recordDeliveryAgentWalletPayout(
+  params: {
+    deliveryAgentId: string;
+    amount: number;
+    paymentMethod?: string;
+    notes?: string;
+    payoutBatchId?: string;
+    metadata?: Metadata;
+    createdById?: string;
+    createdByName?: string;
+  },
+  db: Prisma.TransactionClient = prisma
+) {
   const normalizedAmount = Math.abs(params.amount || 0);
   if (normalizedAmount === 0) {
     throw new Error('المبلغ يجب أن يكون أكبر من صفر');
   }
 
   const metadata = sanitizeMetadata({
+    ...params.metadata,
     paymentMethod: params.paymentMethod,
   });
 
-  return prisma.deliveryAgentWalletTransaction.create({
+  return db.deliveryAgentWalletTransaction.create({
     data: {
       deliveryAgentId: params.deliveryAgentId,
       type: DeliveryAgentWalletTransactionType.PAYOUT,
       amount: new Prisma.Decimal(-normalizedAmount),
       referenceType: PAYOUT_REFERENCE_TYPE,
       referenceId: randomUUID(),
+      payoutBatchId: params.payoutBatchId,
       metadata,
       notes: params.notes || 'دفع رصيد للمندوب',
       createdById: params.createdById,
@@ -171,24 +274,33 @@ export async function recordDeliveryAgentWalletPayout(params: {
   });
 }
 
-export async function recordManualWalletAdjustment(params: {
-  deliveryAgentId: string;
-  amount: number;
-  notes?: string;
-  createdById?: string;
-  createdByName?: string;
-}) {
+/**
+ * Pass a transaction client as `db` when the adjustment must commit together
+ * with the change that caused it (e.g. closing a COD cash-up).
+ */
+export async function recordManualWalletAdjustment(
+  params: {
+    deliveryAgentId: string;
+    amount: number;
+    notes?: string;
+    metadata?: Metadata;
+    createdById?: string;
+    createdByName?: string;
+  },
+  db: Prisma.TransactionClient = prisma
+) {
   if (!params.amount) {
     throw new Error('يجب تحديد مبلغ صالح للتسوية');
   }
 
-  return prisma.deliveryAgentWalletTransaction.create({
+  return db.deliveryAgentWalletTransaction.create({
     data: {
       deliveryAgentId: params.deliveryAgentId,
       type: DeliveryAgentWalletTransactionType.ADJUSTMENT,
       amount: new Prisma.Decimal(params.amount),
       referenceId: randomUUID(),
       referenceType: 'manual_adjustment',
+      metadata: sanitizeMetadata(params.metadata),
       notes: params.notes || 'تعديل يدوي للمحفظة',
       createdById: params.createdById,
       createdByName: params.createdByName,
@@ -0,0 +1,225 @@
+import { DeliveryCommissionRule, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { normalizeOrderItems } from '@/app/lib/local-shipping/serializer';
+import {
+  DEFAULT_COMMISSION_RULE,
+  DeliveryCommissionError,
+  backCalculateCommissions,
+  findOverlappingRule,
+  quoteCommission,
+  type CommissionAreaSurcharge,
+  type CommissionEvent,
+  type CommissionHistoryEvent,
+  type CommissionQuote,
+  type CommissionRuleInput,
+  type CommissionRuleLike,
+} from '@/app/lib/delivery-commission';
+
+export type CommissionRuleActor = {
+  id: string | null;
+  name: string | null;
+  username: string | null;
+};
+
+const toNumber = (value: Prisma.Decimal | number | null | undefined) =>
+  value === null || value === undefined ? 0 : Number(value);
+
+function taskTypeRatesOf(value: Prisma.JsonValue | null): Record<string, number> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, number] => typeof entry[1] === 'number'),
+  );
+}
+
+function areaSurchargesOf(value: Prisma.JsonValue | null): CommissionAreaSurcharge[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+    const { city, district, amount } = item as Record<string, unknown>;
+    if (typeof city !== 'string' || typeof amount !== 'number') return [];
+    return [{ city, district: typeof district === 'string' ? district : null, amount }];
+  });
+}
+
+export function toCommissionRuleLike(rule: DeliveryCommissionRule): CommissionRuleLike {
+  return {
+    id: rule.id,
+    name: rule.name,
+    effectiveFrom: rule.effectiveFrom,
+    effectiveTo: rule.effectiveTo,
+    baseShipmentRate: toNumber(rule.baseShipmentRate),
+    codHandlingBonus: toNumber(rule.codHandlingBonus),
+    failedAttemptRate: toNumber(rule.failedAttemptRate),
+    defaultTaskRate: toNumber(rule.defaultTaskRate),
+    taskTypeRates: taskTypeRatesOf(rule.taskTypeRates),
+    areaSurcharges: areaSurchargesOf(rule.areaSurcharges),
+  };
+}
+
+export function serializeCommissionRule(rule: DeliveryCommissionRule) {
+  return {
+    ...toCommissionRuleLike(rule),
+    effectiveFrom: rule.effectiveFrom.toISOString(),
+    effectiveTo: rule.effectiveTo?.toISOString() ?? null,
+    notes: rule.notes,
+    createdByName: rule.createdByName,
+    createdAt: rule.createdAt.toISOString(),
+    updatedAt: rule.updatedAt.toISOString(),
+  };
+}
+
+const toRuleData = (input: CommissionRuleInput) => ({
+  name: input.name,
+  effectiveFrom: input.effectiveFrom,
+  effectiveTo: input.effectiveTo,
+  baseShipmentRate: input.baseShipmentRate,
+  codHandlingBonus: input.codHandlingBonus,
+  failedAttemptRate: input.failedAttemptRate,
+  defaultTaskRate: input.defaultTaskRate,
+  taskTypeRates: input.taskTypeRates,
+  areaSurcharges: input.areaSurcharges,
+  notes: input.notes,
+});
+
+export async function listCommissionRules() {
+  return prisma.deliveryCommissionRule.findMany({ orderBy: { effectiveFrom: 'desc' } });
+}
+
+async function loadRuleLikes(): Promise<CommissionRuleLike[]> {
+  return (await listCommissionRules()).map(toCommissionRuleLike);
+}
+
+async function assertNoOverlap(input: CommissionRuleInput, excludeId?: string) {
+  const overlapping = findOverlappingRule(await loadRuleLikes(), input, excludeId);
+  if (overlapping) {
+    throw new DeliveryCommissionError(`فترة السريان تتداخل مع القاعدة "${overlapping.name}"`, 409);
+  }
+}
+
+export async function createCommissionRule(input: CommissionRuleInput, actor: CommissionRuleActor) {
+  await assertNoOverlap(input);
+  return prisma.deliveryCommissionRule.create({
+    data: {
+      ...toRuleData(input),
+      createdById: actor.id,
+      createdByName: actor.name || actor.username,
+    },
+  });
+}
+
+export async function updateCommissionRule(id: string, input: CommissionRuleInput) {
+  const existing = await prisma.deliveryCommissionRule.findUnique({ where: { id }, select: { id: true } });
+  if (!existing) {
+    throw new DeliveryCommissionError('قاعدة العمولة غير موجودة', 404);
+  }
+  await assertNoOverlap(input, id);
+  return prisma.deliveryCommissionRule.update({ where: { id }, data: toRuleData(input) });
+}
+
+export async function deleteCommissionRule(id: string) {
+  const result = await prisma.deliveryCommissionRule.deleteMany({ where: { id } });
+  if (result.count === 0) {
+    throw new DeliveryCommissionError('قاعدة العمولة غير موجودة', 404);
+  }
+}
+
+/** The rule in force at `at`, or the fixed pay agents had before rules existed. */
+export async function getCommissionRuleForDate(at: Date): Promise<CommissionRuleLike> {
+  const rule = await prisma.deliveryCommissionRule.findFirst({
+    where: {
+      effectiveFrom: { lte: at },
+      OR: [{ effectiveTo: null }, { effectiveTo: { gt: at } }],
+    },
+    orderBy: { effectiveFrom: 'desc' },
+  });
+  return rule ? toCommissionRuleLike(rule) : DEFAULT_COMMISSION_RULE;
+}
+
+type ShipmentLocation = {
+  shippingCity: string;
+  isCOD: boolean;
+  orderItems: Prisma.JsonValue;
+};
+
+const deliveryEvent = (shipment: ShipmentLocation): CommissionEvent => {
+  const meta = normalizeOrderItems(shipment.orderItems).meta;
+  return {
+    kind: 'delivery',
+    city: meta.shipToCity || shipment.shippingCity || null,
+    district: meta.shipToDistrict ?? null,
+    isCod: shipment.isCOD,
+  };
+};
+
+export async function quoteShipmentCommission(shipmentId: string, deliveredAt: Date): Promise<CommissionQuote> {
+  const [rule, shipment] = await Promise.all([
+    getCommissionRuleForDate(deliveredAt),
+    prisma.localShipment.findUnique({
+      where: { id: shipmentId },
+      select: { shippingCity: true, isCOD: true, orderItems: true },
+    }),
+  ]);
+  const event: CommissionEvent = shipment
+    ? deliveryEvent(shipment)
+    : { kind: 'delivery', city: null, district: null, isCod: false };
+  return quoteCommission(rule, event);
+}
+
+export async function quoteFailedAttemptCommission(failedAt: Date): Promise<CommissionQuote> {
+  return quoteCommission(await getCommissionRuleForDate(failedAt), { kind: 'failed_attempt' });
+}
+
+export async function quoteTaskCommission(taskType: string | null, completedAt: Date): Promise<CommissionQuote> {
+  return quoteCommission(await getCommissionRuleForDate(completedAt), { kind: 'task', taskType });
+}
+
+/** Deliveries, failed attempts and completed tasks in [from, to), with the agent who earned each. */
+async function loadCommissionHistory(from: Date, to: Date): Promise<CommissionHistoryEvent[]> {
+  const agent = { select: { id: true, name: true, username: true } };
+  const shipment = { select: { shippingCity: true, isCOD: true, orderItems: true } };
+  const [delivered, failed, tasks] = await Promise.all([
+    prisma.shipmentAssignment.findMany({
+      where: { status: 'delivered', deliveredAt: { gte: from, lt: to } },
+      select: { deliveredAt: true, deliveryAgent: agent, shipment },
+    }),
+    prisma.shipmentAssignment.findMany({
+      where: { status: 'failed', failedAt: { gte: from, lt: to } },
+      select: { failedAt: true, deliveryAgent: agent },
+    }),
+    prisma.deliveryAgentTask.findMany({
+      where: { status: 'completed', completedAt: { gte: from, lt: to } },
+      select: { completedAt: true, requestType: true, deliveryAgent: agent },
+    }),
+  ]);
+
+  const nameOf = (user: { name: string; username: string }) => user.name || user.username;
+  return [
+    ...delivered.map((assignment) => ({
+      agentId: assignment.deliveryAgent.id,
+      agentName: nameOf(assignment.deliveryAgent),
+      occurredAt: assignment.deliveredAt as Date,
+      event: deliveryEvent(assignment.shipment),
+    })),
+    ...failed.map((assignment) => ({
+      agentId: assignment.deliveryAgent.id,
+      agentName: nameOf(assignment.deliveryAgent),
+      occurredAt: assignment.failedAt as Date,
+      event: { kind: 'failed_attempt' } as const,
+    })),
+    ...tasks.map((task) => ({
+      agentId: task.deliveryAgent.id,
+      agentName: nameOf(task.deliveryAgent),
+      occurredAt: task.completedAt as Date,
+      event: { kind: 'task', taskType: task.requestType } as const,
+    })),
+  ];
+}
+
+/**
+ * How the events of [from, to) were paid under the rules in force at the
+ * time, against what the proposed rule would have paid for all of them.
+ */
+export async function runCommissionBackCalculation(range: { from: Date; to: Date }, proposed: CommissionRuleLike) {
+  const [events, rules] = await Promise.all([loadCommissionHistory(range.from, range.to), loadRuleLikes()]);
+  return backCalculateCommissions(events, rules, proposed);
+}
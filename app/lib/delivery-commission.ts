@@ -0,0 +1,429 @@
+/**
+ * Delivery-agent commission rules: what a delivered shipment, a failed
+ * attempt or a completed task pays into the agent's wallet, and from which
+ * date. Free of Prisma so quotes and the back-calculation can be tested
+ * directly; `delivery-commission-service.ts` loads rules and past events.
+ */
+import { foldPlaceName, resolveSaudiCity, resolveSaudiDistrict } from '@/lib/saudi-address';
+import { stringOf } from '@/app/lib/input-values';
+
+export type CommissionEventKind = 'delivery' | 'failed_attempt' | 'task';
+
+export type CommissionAreaSurcharge = {
+  city: string;
+  /** Empty for the whole city; a district surcharge beats its city's. */
+  district: string | null;
+  amount: number;
+};
+
+export type CommissionRates = {
+  baseShipmentRate: number;
+  codHandlingBonus: number;
+  failedAttemptRate: number;
+  defaultTaskRate: number;
+  taskTypeRates: Record<string, number>;
+  areaSurcharges: CommissionAreaSurcharge[];
+};
+
+export type CommissionRuleLike = CommissionRates & {
+  id: string | null;
+  name: string;
+  effectiveFrom: Date;
+  /** Exclusive; null while the rule is still in force. */
+  effectiveTo: Date | null;
+};
+
+export type CommissionEvent =
+  | { kind: 'delivery'; city: string | null; district: string | null; isCod: boolean }
+  | { kind: 'failed_attempt' }
+  | { kind: 'task'; taskType: string | null };
+
+export type CommissionLine = { label: string; amount: number };
+
+export type CommissionQuote = {
+  amount: number;
+  ruleId: string | null;
+  ruleName: string;
+  lines: CommissionLine[];
+};
+
+export class DeliveryCommissionError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'DeliveryCommissionError';
+    this.statusCode = statusCode;
+  }
+}
+
+export const COMMISSION_TASK_TYPE_LABELS: Record<string, string> = {
+  purchase: 'شراء عاجل',
+  pickup: 'استلام شحنة',
+  support: 'مساندة',
+  other: 'مهمة متنوعة',
+};
+
+export const COMMISSION_EVENT_LABELS: Record<CommissionEventKind, string> = {
+  delivery: 'شحنة مسلّمة',
+  failed_attempt: 'محاولة تسليم فاشلة',
+  task: 'مهمة مكتملة',
+};
+
+// What every delivery and task paid before rules existed; used when no rule
+// covers the date so agents are never credited nothing by accident.
+export const DEFAULT_COMMISSION_RULE: CommissionRuleLike = {
+  id: null,
+  name: 'الأجر الثابت',
+  effectiveFrom: new Date(0),
+  effectiveTo: null,
+  baseShipmentRate: 30,
+  codHandlingBonus: 0,
+  failedAttemptRate: 0,
+  defaultTaskRate: 30,
+  taskTypeRates: {},
+  areaSurcharges: [],
+};
+
+const toHalalas = (amount: number) => Math.round(amount * 100);
+const fromHalalas = (halalas: number) => halalas / 100;
+
+/** The rule whose range holds `at`; the latest start wins if ranges were ever edited to overlap. */
+export function findRuleForDate<T extends CommissionRuleLike>(rules: T[], at: Date): T | null {
+  let match: T | null = null;
+  for (const rule of rules) {
+    if (rule.effectiveFrom.getTime() > at.getTime()) continue;
+    if (rule.effectiveTo && rule.effectiveTo.getTime() <= at.getTime()) continue;
+    if (!match || rule.effectiveFrom.getTime() > match.effectiveFrom.getTime()) {
+      match = rule;
+    }
+  }
+  return match;
+}
+
+/** The first rule whose range overlaps the candidate's, ignoring `excludeId`. */
+export function findOverlappingRule<T extends CommissionRuleLike>(
+  rules: T[],
+  candidate: { effectiveFrom: Date; effectiveTo: Date | null },
+  excludeId?: string | null,
+): T | null {
+  const start = candidate.effectiveFrom.getTime();
+  const end = candidate.effectiveTo?.getTime() ?? Infinity;
+  return (
+    rules.find((rule) => {
+      if (excludeId && rule.id === excludeId) return false;
+      const ruleEnd = rule.effectiveTo?.getTime() ?? Infinity;
+      return rule.effectiveFrom.getTime() < end && start < ruleEnd;
+    }) ?? null
+  );
+}
+
+const cityKey = (value: string | null | undefined) => {
+  if (!value?.trim()) return '';
+  return resolveSaudiCity(value)?.key ?? foldPlaceName(value);
+};
+
+const districtKey = (city: string | null | undefined, value: string | null | undefined) => {
+  if (!value?.trim()) return '';
+  const district = resolveSaudiDistrict(resolveSaudiCity(city), value);
+  return foldPlaceName(district?.nameEn ?? value.replace(/^(حي|district)\s+/i, ''));
+};
+
+/** District surcharge for the stop if one is set, else the city's, else none. */
+export function matchAreaSurcharge(
+  surcharges: CommissionAreaSurcharge[],
+  city: string | null,
+  district: string | null,
+): CommissionAreaSurcharge | null {
+  const stopCity = cityKey(city);
+  if (!stopCity) return null;
+  const stopDistrict = districtKey(city, district);
+  let cityMatch: CommissionAreaSurcharge | null = null;
+  for (const surcharge of surcharges) {
+    if (cityKey(surcharge.city) !== stopCity) continue;
+    if (!surcharge.district) {
+      cityMatch ??= surcharge;
+    } else if (stopDistrict && districtKey(surcharge.city, surcharge.district) === stopDistrict) {
+      return surcharge;
+    }
+  }
+  return cityMatch;
+}
+
+function quoteFrom(rule: CommissionRuleLike, lines: CommissionLine[]): CommissionQuote {
+  const kept = lines.filter((line) => toHalalas(line.amount) !== 0);
+  return {
+    amount: fromHalalas(kept.reduce((total, line) => total + toHalalas(line.amount), 0)),
+    ruleId: rule.id,
+    ruleName: rule.name,
+    lines: kept,
+  };
+}
+
+/** What one event pays under `rule`, with the lines that make up the amount. */
+export function quoteCommission(rule: CommissionRuleLike, event: CommissionEvent): CommissionQuote {
+  switch (event.kind) {
+    case 'delivery': {
+      const lines: CommissionLine[] = [{ label: 'أجر التوصيل', amount: rule.baseShipmentRate }];
+      const surcharge = matchAreaSurcharge(rule.areaSurcharges, event.city, event.district);
+      if (surcharge) {
+        lines.push({
+          label: `بدل منطقة: ${[surcharge.city, surcharge.district].filter(Boolean).join(' - ')}`,
+          amount: surcharge.amount,
+        });
+      }
+      if (event.isCod) {
+        lines.push({ label: 'بدل تحصيل نقدي', amount: rule.codHandlingBonus });
+      }
+      return quoteFrom(rule, lines);
+    }
+    case 'failed_attempt':
+      return quoteFrom(rule, [{ label: 'أجر محاولة التسليم', amount: rule.failedAttemptRate }]);
+    case 'task': {
+      const taskType = event.taskType?.trim() || '';
+      const typed = rule.taskTypeRates[taskType];
+      const label = COMMISSION_TASK_TYPE_LABELS[taskType] ?? COMMISSION_TASK_TYPE_LABELS.other;
+      return quoteFrom(rule, [{ label: `أجر مهمة: ${label}`, amount: typed ?? rule.defaultTaskRate }]);
+    }
+  }
+}
+
+export type CommissionSample = {
+  city: string | null;
+  district: string | null;
+  isCod: boolean;
+  taskType: string | null;
+};
+
+export function parseCommissionSample(body: any): CommissionSample {
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+  return {
+    city: text(body?.city),
+    district: text(body?.district),
+    isCod: body?.isCod === true || body?.isCod === 'true',
+    taskType: text(body?.taskType),
+  };
+}
+
+/** Quotes a sample stop and task under one rule, for the rule preview. */
+export function previewCommissionQuotes(
+  rule: CommissionRuleLike,
+  sample: CommissionSample,
+): Record<CommissionEventKind, CommissionQuote> {
+  return {
+    delivery: quoteCommission(rule, {
+      kind: 'delivery',
+      city: sample.city,
+      district: sample.district,
+      isCod: sample.isCod,
+    }),
+    failed_attempt: quoteCommission(rule, { kind: 'failed_attempt' }),
+    task: quoteCommission(rule, { kind: 'task', taskType: sample.taskType }),
+  };
+}
+
+export type CommissionRuleInput = CommissionRates & {
+  name: string;
+  effectiveFrom: Date;
+  effectiveTo: Date | null;
+  notes: string | null;
+};
+
+const MAX_RATE = 10_000;
+
+function rateOf(value: unknown, label: string, fallback?: number): number {
+  if ((value === undefined || value === null || value === '') && fallback !== undefined) return fallback;
+  const amount = typeof value === 'string' ? Number(value) : value;
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0 || amount > MAX_RATE) {
+    throw new DeliveryCommissionError(`${label} يجب أن يكون مبلغاً صحيحاً`);
+  }
+  return fromHalalas(toHalalas(amount));
+}
+
+function dateOf(value: unknown, label: string): Date | null {
+  if (value === undefined || value === null || value === '') return null;
+  const date = new Date(value as string);
+  if (typeof value !== 'string' || Number.isNaN(date.getTime())) {
+    throw new DeliveryCommissionError(`${label} غير صالح`);
+  }
+  return date;
+}
+
+function parseAreaSurcharges(value: unknown): CommissionAreaSurcharge[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new DeliveryCommissionError('بدلات المناطق غير صالحة');
+  }
+  const seen = new Set<string>();
+  return value.map((item) => {
+    const city = stringOf(item?.city);
+    if (!city) {
+      throw new DeliveryCommissionError('المدينة مطلوبة لكل بدل منطقة');
+    }
+    const district = stringOf(item?.district);
+    const key = `${cityKey(city)}|${districtKey(city, district)}`;
+    if (seen.has(key)) {
+      throw new DeliveryCommissionError(`بدل المنطقة مكرر: ${[city, district].filter(Boolean).join(' - ')}`);
+    }
+    seen.add(key);
+    return { city, district, amount: rateOf(item?.amount, `بدل ${city}`) };
+  });
+}
+
+function parseTaskTypeRates(value: unknown): Record<string, number> {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new DeliveryCommissionError('أجور أنواع المهام غير صالحة');
+  }
+  const rates: Record<string, number> = {};
+  for (const [taskType, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (!(taskType in COMMISSION_TASK_TYPE_LABELS)) {
+      throw new DeliveryCommissionError(`نوع مهمة غير معروف: ${taskType}`);
+    }
+    if (raw === null || raw === undefined || raw === '') continue;
+    rates[taskType] = rateOf(raw, `أجر ${COMMISSION_TASK_TYPE_LABELS[taskType]}`);
+  }
+  return rates;
+}
+
+/** Validates the rule form; overlap with other rules is checked by the service. */
+export function parseCommissionRuleInput(body: any): CommissionRuleInput {
+  const name = stringOf(body?.name);
+  if (!name) {
+    throw new DeliveryCommissionError('اسم القاعدة مطلوب');
+  }
+  const effectiveFrom = dateOf(body?.effectiveFrom, 'تاريخ بداية السريان');
+  if (!effectiveFrom) {
+    throw new DeliveryCommissionError('تاريخ بداية السريان مطلوب');
+  }
+  const effectiveTo = dateOf(body?.effectiveTo, 'تاريخ نهاية السريان');
+  if (effectiveTo && effectiveTo.getTime() <= effectiveFrom.getTime()) {
+    throw new DeliveryCommissionError('تاريخ نهاية السريان يجب أن يكون بعد تاريخ البداية');
+  }
+  return {
+    name,
+    effectiveFrom,
+    effectiveTo,
+    baseShipmentRate: rateOf(body?.baseShipmentRate, 'أجر التوصيل'),
+    codHandlingBonus: rateOf(body?.codHandlingBonus, 'بدل التحصيل', 0),
+    failedAttemptRate: rateOf(body?.failedAttemptRate, 'أجر المحاولة الفاشلة', 0),
+    defaultTaskRate: rateOf(body?.defaultTaskRate, 'أجر المهمة'),
+    taskTypeRates: parseTaskTypeRates(body?.taskTypeRates),
+    areaSurcharges: parseAreaSurcharges(body?.areaSurcharges),
+    notes: stringOf(body?.notes),
+  };
+}
+
+/** A past event with who earned it and when, for the back-calculation. */
+export type CommissionHistoryEvent = {
+  agentId: string;
+  agentName: string;
+  occurredAt: Date;
+  event: CommissionEvent;
+};
+
+export type CommissionComparisonRow = {
+  agentId: string;
+  agentName: string;
+  counts: Record<CommissionEventKind, number>;
+  currentAmount: number;
+  proposedAmount: number;
+  difference: number;
+};
+
+export type CommissionComparison = {
+  rows: CommissionComparisonRow[];
+  totals: Omit<CommissionComparisonRow, 'agentId' | 'agentName'>;
+  byKind: Record<CommissionEventKind, { current: number; proposed: number }>;
+};
+
+const emptyCounts = (): Record<CommissionEventKind, number> => ({ delivery: 0, failed_attempt: 0, task: 0 });
+
+/**
+ * Re-prices past events: each under the rule that was in force when it
+ * happened, and all of them under the proposed rule, totalled per agent.
+ */
+export function backCalculateCommissions(
+  events: CommissionHistoryEvent[],
+  rules: CommissionRuleLike[],
+  proposed: CommissionRuleLike,
+): CommissionComparison {
+  const rows = new Map<string, { agentName: string; counts: Record<CommissionEventKind, number>; current: number; proposed: number }>();
+  const byKind: Record<CommissionEventKind, { current: number; proposed: number }> = {
+    delivery: { current: 0, proposed: 0 },
+    failed_attempt: { current: 0, proposed: 0 },
+    task: { current: 0, proposed: 0 },
+  };
+
+  for (const item of events) {
+    const rule = findRuleForDate(rules, item.occurredAt) ?? DEFAULT_COMMISSION_RULE;
+    const current = toHalalas(quoteCommission(rule, item.event).amount);
+    const next = toHalalas(quoteCommission(proposed, item.event).amount);
+    const row = rows.get(item.agentId) ?? { agentName: item.agentName, counts: emptyCounts(), current: 0, proposed: 0 };
+    row.counts[item.event.kind] += 1;
+    row.current += current;
+    row.proposed += next;
+    rows.set(item.agentId, row);
+    byKind[item.event.kind].current += current;
+    byKind[item.event.kind].proposed += next;
+  }
+
+  const result = [...rows.entries()]
+    .map(([agentId, row]) => ({
+      agentId,
+      agentName: row.agentName,
+      counts: row.counts,
+      currentAmount: fromHalalas(row.current),
+      proposedAmount: fromHalalas(row.proposed),
+      difference: fromHalalas(row.proposed - row.current),
+    }))
+    .sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference) || a.agentName.localeCompare(b.agentName));
+
+  const totals = result.reduce(
+    (sum, row) => {
+      for (const kind of Object.keys(row.counts) as CommissionEventKind[]) {
+        sum.counts[kind] += row.counts[kind];
+      }
+      sum.current += toHalalas(row.currentAmount);
+      sum.proposed += toHalalas(row.proposedAmount);
+      return sum;
+    },
+    { counts: emptyCounts(), current: 0, proposed: 0 },
+  );
+
+  return {
+    rows: result,
+    totals: {
+      counts: totals.counts,
+      currentAmount: fromHalalas(totals.current),
+      proposedAmount: fromHalalas(totals.proposed),
+      difference: fromHalalas(totals.proposed - totals.current),
+    },
+    byKind: Object.fromEntries(
+      Object.entries(byKind).map(([kind, amounts]) => [
+        kind,
+        { current: fromHalalas(amounts.current), proposed: fromHalalas(amounts.proposed) },
+      ]),
+    ) as CommissionComparison['byKind'],
+  };
+}
+
+/** The calendar month before `now`, as [start, end) in local time. */
+export function previousMonthRange(now: Date): { from: Date; to: Date } {
+  return {
+    from: new Date(now.getFullYear(), now.getMonth() - 1, 1),
+    to: new Date(now.getFullYear(), now.getMonth(), 1),
+  };
+}
+
+/** `YYYY-MM` to its [start, end) range; the previous month when empty. */
+export function parseMonthRange(value: unknown, now: Date): { from: Date; to: Date } {
+  if (value === undefined || value === null || value === '') return previousMonthRange(now);
+  const match = typeof value === 'string' ? value.match(/^(\d{4})-(\d{2})$/) : null;
+  const month = match ? Number(match[2]) : 0;
+  if (!match || month < 1 || month > 12) {
+    throw new DeliveryCommissionError('الشهر غير صالح');
+  }
+  const year = Number(match[1]);
+  return { from: new Date(year, month - 1, 1), to: new Date(year, month, 1) };
+}
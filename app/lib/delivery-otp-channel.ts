@@ -0,0 +1,173 @@
+import {
+  DELIVERY_OTP_EXPIRY_MINUTES,
+  buildDeliveryOtpSmsBody,
+  generateDeliveryOtp,
+  hashDeliveryOtp,
+} from '@/app/lib/delivery-otp';
+import { env } from '@/app/lib/env';
+import { log } from '@/app/lib/logger';
+import { undeliveredFallbackDueAt, type MessageChannel } from '@/app/lib/message-channel-fallback';
+import { sendMsegatSms } from '@/app/lib/msegat';
+import { getSmsFallbackRule } from '@/app/lib/settings';
+import { sendWhatsAppTemplate } from '@/app/lib/zoko';
+import { prisma } from '@/lib/prisma';
+
+export type DeliveryOtpDispatch = {
+  channel: MessageChannel;
+  messageId: string | null;
+  /** Set when the SMS copy must go out unless WhatsApp confirms delivery first. */
+  smsDueAt: Date | null;
+};
+
+function extractZokoMessageId(response: unknown): string | null {
+  if (!response || typeof response !== 'object') return null;
+  const record = response as Record<string, unknown>;
+  const id = record.id ?? record.messageId ?? record.message_id;
+  return typeof id === 'string' && id ? id : null;
+}
+
+/**
+ * Sends a delivery OTP over WhatsApp when the OTP template is configured,
+ * falling back to Msegat SMS per the `delivery_otp` rule. Without a template
+ * the code goes straight to SMS.
+ */
+export async function sendDeliveryOtp(input: {
+  to: string;
+  otp: string;
+  smsBody: string;
+}): Promise<DeliveryOtpDispatch> {
+  const templateId = env.ZOKO_TPL_DELIVERY_OTP;
+  if (!templateId) {
+    await sendMsegatSms({ to: input.to, body: input.smsBody });
+    return { channel: 'sms', messageId: null, smsDueAt: null };
+  }
+
+  const rule = await getSmsFallbackRule('delivery_otp');
+  try {
+    const response = await sendWhatsAppTemplate({ to: input.to, templateId, args: [input.otp] });
+    return {
+      channel: 'whatsapp',
+      messageId: extractZokoMessageId(response),
+      smsDueAt: undeliveredFallbackDueAt(rule, new Date()),
+    };
+  } catch (error) {
+    if (!rule.enabled) throw error;
+    log.warn('Delivery OTP WhatsApp send failed, sending SMS instead', {
+      error: error instanceof Error ? error.message : error,
+    });
+    await sendMsegatSms({ to: input.to, body: input.smsBody });
+    return { channel: 'sms', messageId: null, smsDueAt: null };
+  }
+}
+
+/**
+ * Applies a Zoko delivery receipt to the OTP it belongs to. Delivery cancels
+ * the pending SMS fallback; a failure makes it due immediately.
+ */
+export async function reconcileDeliveryOtpDelivery(input: {
+  providerMessageId: string;
+  deliveryStatus?: string | null;
+  occurredAt?: Date | null;
+}) {
+  const status = (input.deliveryStatus ?? '').trim().toLowerCase();
+  if (!input.providerMessageId || !status) return { count: 0 };
+  const where = {
+    deliveryOtpMessageId: input.providerMessageId,
+    deliveryOtpChannel: 'whatsapp',
+    deliveryOtpVerifiedAt: null,
+  };
+  if (status === 'delivered' || status === 'read') {
+    return prisma.shipmentAssignment.updateMany({ where, data: { deliveryOtpSmsDueAt: null } });
+  }
+  if (['failed', 'undelivered', 'rejected', 'expired'].includes(status)) {
+    return prisma.shipmentAssignment.updateMany({
+      where,
+      data: { deliveryOtpSmsDueAt: input.occurredAt ?? new Date() },
+    });
+  }
+  return { count: 0 };
+}
+
+/**
+ * Falls back to SMS for OTPs WhatsApp has not delivered in time. Only the
+ * hash of a code is stored, so the fallback issues a fresh code and rotates
+ * the hash; the WhatsApp code stops working once the SMS one is sent.
+ */
+export async function processDueDeliveryOtpSmsFallbacks(limit = 50) {
+  const now = new Date();
+  const due = await prisma.shipmentAssignment.findMany({
+    where: { deliveryOtpSmsDueAt: { lte: now }, deliveryOtpVerifiedAt: null },
+    select: {
+      id: true,
+      deliveryOtpCodeHash: true,
+      deliveryOtpRequestedAt: true,
+      deliveryOtpExpiresAt: true,
+      deliveryOtpAttemptCount: true,
+      deliveryOtpMessageId: true,
+      shipment: { select: { customerPhone: true, orderNumber: true, trackingNumber: true } },
+    },
+    orderBy: { deliveryOtpSmsDueAt: 'asc' },
+    take: Math.max(1, Math.min(limit, 100)),
+  });
+  if (due.length === 0) return { processed: 0, results: [] };
+
+  const rule = await getSmsFallbackRule('delivery_otp');
+  const results = [];
+  for (const assignment of due) {
+    const phone = assignment.shipment.customerPhone?.trim();
+    const expired = !assignment.deliveryOtpExpiresAt || assignment.deliveryOtpExpiresAt <= now;
+    const otp = generateDeliveryOtp();
+    const expiresAt = new Date(now.getTime() + DELIVERY_OTP_EXPIRY_MINUTES * 60 * 1000);
+    const sending = rule.enabled && Boolean(phone) && !expired;
+
+    // Matching on the message id skips an OTP that was reissued meanwhile.
+    const claimed = await prisma.shipmentAssignment.updateMany({
+      where: {
+        id: assignment.id,
+        deliveryOtpMessageId: assignment.deliveryOtpMessageId,
+        deliveryOtpSmsDueAt: { lte: now },
+        deliveryOtpVerifiedAt: null,
+      },
+      data: sending
+        ? {
+            deliveryOtpSmsDueAt: null,
+            deliveryOtpCodeHash: hashDeliveryOtp(otp),
+            deliveryOtpRequestedAt: now,
+            deliveryOtpExpiresAt: expiresAt,
+            deliveryOtpAttemptCount: 0,
+            deliveryOtpChannel: 'sms',
+            deliveryOtpMessageId: null,
+          }
+        : { deliveryOtpSmsDueAt: null },
+    });
+    if (claimed.count !== 1) continue;
+    if (!sending || !phone) {
+      results.push({ id: assignment.id, status: expired ? 'expired' : 'skipped' });
+      continue;
+    }
+
+    try {
+      await sendMsegatSms({ to: phone, body: buildDeliveryOtpSmsBody(assignment.shipment, otp) });
+      results.push({ id: assignment.id, status: 'sms_sent' });
+    } catch (error) {
+      // Put the WhatsApp code back so the customer can still use it.
+      await prisma.shipmentAssignment.update({
+        where: { id: assignment.id },
+        data: {
+          deliveryOtpCodeHash: assignment.deliveryOtpCodeHash,
+          deliveryOtpRequestedAt: assignment.deliveryOtpRequestedAt,
+          deliveryOtpExpiresAt: assignment.deliveryOtpExpiresAt,
+          deliveryOtpAttemptCount: assignment.deliveryOtpAttemptCount,
+          deliveryOtpChannel: 'whatsapp',
+          deliveryOtpMessageId: assignment.deliveryOtpMessageId,
+        },
+      });
+      log.error('Delivery OTP SMS fallback failed', {
+        assignmentId: assignment.id,
+        error: error instanceof Error ? error.message : error,
+      });
+      results.push({ id: assignment.id, status: 'sms_failed' });
+    }
+  }
+  return { processed: results.length, results };
+}
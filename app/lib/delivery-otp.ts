@@ -10,6 +10,18 @@ export function hashDeliveryOtp(code: string) {
   return crypto.createHash('sha256').update(code.trim()).digest('hex');
 }
 
+export function buildDeliveryOtpSmsBody(
+  shipment: { orderNumber?: string | null; trackingNumber?: string | null },
+  code: string
+) {
+  const orderLabel = shipment.orderNumber
+    ? `طلب ${shipment.orderNumber}`
+    : shipment.trackingNumber
+      ? `شحنة ${shipment.trackingNumber}`
+      : 'طلبك';
+  return `رمز تسليم ${orderLabel}: ${code}. شاركه مع مندوب مليحة.`;
+}
+
 export function maskPhoneNumber(msisdn: string) {
   const digits = msisdn.replace(/\D/g, '');
   if (digits.length <= 4) {
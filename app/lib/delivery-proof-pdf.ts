@@ -0,0 +1,196 @@
+import fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import type { PDFFont, PDFImage, PDFPage } from 'pdf-lib';
+import { ArabicShaper } from 'arabic-persian-reshaper';
+
+import { encodeCode128 } from '@/app/lib/barcode-code128';
+import { detectDirection, loadArabicFont } from '@/app/lib/local-shipping/label';
+import type { DeliveryProofAssignment } from '@/app/lib/delivery-proof-service';
+
+// A4 portrait: attached to customer disputes and chargeback replies.
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const CONTENT_LEFT = MARGIN;
+const CONTENT_RIGHT = PAGE_WIDTH - MARGIN;
+const CONTENT_WIDTH = CONTENT_RIGHT - CONTENT_LEFT;
+
+const textColor = rgb(0.13, 0.15, 0.2);
+const subtleText = rgb(0.46, 0.48, 0.55);
+const accentColor = rgb(0.82, 0.19, 0.32);
+const borderColor = rgb(0.88, 0.9, 0.94);
+const headerBg = rgb(1, 0.97, 0.98);
+
+type DocumentContext = {
+  page: PDFPage;
+  arabicFont: PDFFont;
+  latinFont: PDFFont;
+};
+
+export type DeliveryProofImageFile = {
+  contentType: string;
+  data: Uint8Array;
+};
+
+function drawText(
+  ctx: DocumentContext,
+  value: string,
+  x: number,
+  y: number,
+  size: number,
+  options: { color?: ReturnType<typeof rgb>; align?: 'left' | 'right' | 'center' } = {},
+) {
+  const direction = /[\u0600-\u06FF]/.test(value) ? 'rtl' : detectDirection(value);
+  const shaped = direction === 'rtl' ? ArabicShaper.convertArabic(value) : value;
+  const font = direction === 'rtl' ? ctx.arabicFont : ctx.latinFont;
+  const width = font.widthOfTextAtSize(shaped, size);
+  const align = options.align ?? (direction === 'rtl' ? 'right' : 'left');
+  const drawX = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+  ctx.page.drawText(shaped, { x: drawX, y, font, size, color: options.color ?? textColor });
+}
+
+function drawBarcode(ctx: DocumentContext, value: string, x: number, y: number, width: number, height: number) {
+  const { runs, modules } = encodeCode128(value);
+  const moduleWidth = width / modules;
+  let cursor = x;
+  let bar = true; // first run is a bar
+  for (const run of runs) {
+    const runWidth = run * moduleWidth;
+    if (bar) {
+      ctx.page.drawRectangle({ x: cursor, y, width: runWidth, height, color: rgb(0, 0, 0) });
+    }
+    cursor += runWidth;
+    bar = !bar;
+  }
+}
+
+function formatDateTime(date: Date | null): string {
+  if (!date) return '—';
+  return date.toLocaleString('en-GB', {
+    timeZone: 'Asia/Riyadh',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+}
+
+async function embedImage(pdfDoc: PDFDocument, file: DeliveryProofImageFile | null): Promise<PDFImage | null> {
+  if (!file) return null;
+  try {
+    return file.contentType === 'image/png' ? await pdfDoc.embedPng(file.data) : await pdfDoc.embedJpg(file.data);
+  } catch {
+    return null;
+  }
+}
+
+function drawImageBox(
+  ctx: DocumentContext,
+  image: PDFImage | null,
+  label: string,
+  x: number,
+  top: number,
+  width: number,
+  height: number,
+) {
+  ctx.page.drawRectangle({ x, y: top - height, width, height, borderColor, borderWidth: 1 });
+  drawText(ctx, label, x + width - 8, top - 16, 9.5, { color: subtleText, align: 'right' });
+  if (!image) {
+    drawText(ctx, 'لم يتم الالتقاط', x + width / 2, top - height / 2, 10, { color: accentColor, align: 'center' });
+    return;
+  }
+  const maxWidth = width - 16;
+  const maxHeight = height - 34;
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height, 1);
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+  ctx.page.drawImage(image, {
+    x: x + (width - drawWidth) / 2,
+    y: top - 26 - maxHeight + (maxHeight - drawHeight) / 2,
+    width: drawWidth,
+    height: drawHeight,
+  });
+}
+
+/**
+ * One-page proof of delivery: the shipment, who handed it over and when, the
+ * OTP confirmation and the captured photo and signature.
+ */
+export async function generateDeliveryProofPdf(
+  assignment: DeliveryProofAssignment,
+  files: { photo: DeliveryProofImageFile | null; signature: DeliveryProofImageFile | null },
+): Promise<Buffer> {
+  const arabicFontData = await loadArabicFont();
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.registerFontkit(fontkit);
+  const [arabicFont, latinFont] = await Promise.all([
+    pdfDoc.embedFont(arabicFontData, { subset: true }),
+    pdfDoc.embedFont(StandardFonts.Helvetica),
+  ]);
+  const ctx: DocumentContext = { page: pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]), arabicFont, latinFont };
+  const [photo, signature] = await Promise.all([embedImage(pdfDoc, files.photo), embedImage(pdfDoc, files.signature)]);
+  const { shipment } = assignment;
+
+  const top = PAGE_HEIGHT - MARGIN;
+  ctx.page.drawRectangle({
+    x: CONTENT_LEFT,
+    y: top - 90,
+    width: CONTENT_WIDTH,
+    height: 90,
+    color: headerBg,
+    borderColor,
+    borderWidth: 1,
+  });
+  drawText(ctx, 'Proof of Delivery', CONTENT_LEFT + 12, top - 24, 16, { color: accentColor, align: 'left' });
+  drawText(ctx, 'إثبات التسليم', CONTENT_RIGHT - 12, top - 25, 16, { color: accentColor, align: 'right' });
+  drawBarcode(ctx, shipment.trackingNumber, CONTENT_LEFT + 12, top - 70, 170, 30);
+  drawText(ctx, shipment.trackingNumber, CONTENT_LEFT + 12, top - 82, 8.5, { align: 'left' });
+  drawText(ctx, `طلب رقم ${shipment.orderNumber}`, CONTENT_RIGHT - 12, top - 50, 11, { align: 'right' });
+
+  const collected = shipment.codCollection?.collectedAmount ?? null;
+  const rows: [string, string][] = [
+    ['العميل', shipment.customerName],
+    ['الجوال', shipment.customerPhone],
+    ['العنوان', [shipment.shippingCity, shipment.shippingAddress].filter(Boolean).join('، ')],
+    ['المستلم', assignment.recipientName || '—'],
+    ['المندوب', `${assignment.deliveryAgent.name} (${assignment.deliveryAgent.username})`],
+    ['وقت التسليم', formatDateTime(assignment.deliveredAt)],
+    ['تأكيد رمز التحقق', assignment.deliveryOtpVerifiedAt ? formatDateTime(assignment.deliveryOtpVerifiedAt) : 'لم يتم'],
+    [
+      'الدفع',
+      shipment.isCOD
+        ? `الدفع عند الاستلام: ${collected !== null ? Number(collected).toFixed(2) : Number(shipment.orderTotal).toFixed(2)} SAR`
+        : 'مدفوع مسبقاً',
+    ],
+  ];
+
+  let y = top - 116;
+  for (const [label, value] of rows) {
+    drawText(ctx, label, CONTENT_RIGHT - 4, y, 10, { color: subtleText, align: 'right' });
+    const clipped = value.length > 70 ? `${value.slice(0, 69)}…` : value;
+    drawText(ctx, clipped, CONTENT_RIGHT - 120, y, 10.5, { align: 'right' });
+    ctx.page.drawLine({
+      start: { x: CONTENT_LEFT, y: y - 7 },
+      end: { x: CONTENT_RIGHT, y: y - 7 },
+      color: borderColor,
+      thickness: 0.6,
+    });
+    y -= 24;
+  }
+
+  const boxTop = y - 12;
+  const boxGap = 16;
+  const photoHeight = 300;
+  drawImageBox(ctx, photo, 'صورة التسليم', CONTENT_LEFT, boxTop, CONTENT_WIDTH, photoHeight);
+  const signatureTop = boxTop - photoHeight - boxGap;
+  drawImageBox(ctx, signature, 'توقيع المستلم', CONTENT_LEFT, signatureTop, CONTENT_WIDTH / 2, 130);
+
+  drawText(ctx, `Generated ${formatDateTime(new Date())}`, CONTENT_LEFT, MARGIN - 14, 8, {
+    color: subtleText,
+    align: 'left',
+  });
+
+  return Buffer.from(await pdfDoc.save());
+}
@@ -0,0 +1,156 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  DELIVERY_PROOF_LOCKED_STATUSES,
+  DeliveryProofError,
+  assertDeliveryProofWritable,
+  deliveryProofFileUrl,
+  parseProofImage,
+  type DeliveryProofKind,
+  type ParsedProofImage,
+} from '@/app/lib/delivery-proof';
+
+export type DeliveryProofActor = {
+  id: string | null;
+  name: string | null;
+};
+
+export type DeliveryProofInput = {
+  photo?: unknown;
+  signature?: unknown;
+  recipientName?: unknown;
+};
+
+const proofAssignment = Prisma.validator<Prisma.ShipmentAssignmentDefaultArgs>()({
+  include: {
+    shipment: {
+      select: {
+        id: true,
+        orderNumber: true,
+        trackingNumber: true,
+        customerName: true,
+        customerPhone: true,
+        shippingAddress: true,
+        shippingCity: true,
+        isCOD: true,
+        orderTotal: true,
+        codCollection: { select: { collectedAmount: true, collectionAmount: true, status: true } },
+      },
+    },
+    deliveryAgent: { select: { id: true, name: true, username: true, phone: true } },
+    proofFiles: {
+      select: { kind: true, contentType: true, fileSize: true, capturedByName: true, updatedAt: true },
+    },
+  },
+});
+
+export type DeliveryProofAssignment = Prisma.ShipmentAssignmentGetPayload<typeof proofAssignment>;
+
+export async function getDeliveryProofAssignment(assignmentId: string): Promise<DeliveryProofAssignment | null> {
+  return prisma.shipmentAssignment.findUnique({ where: { id: assignmentId }, ...proofAssignment });
+}
+
+/**
+ * Stores the photo and/or signature captured at the door and links them to
+ * the assignment. A re-capture replaces the earlier image of the same kind
+ * while the assignment is open; once it is delivered or failed the proof is
+ * final.
+ */
+export async function saveDeliveryProof(
+  assignmentId: string,
+  input: DeliveryProofInput,
+  actor: DeliveryProofActor,
+): Promise<DeliveryProofAssignment> {
+  const images: ParsedProofImage[] = [];
+  if (input.photo) images.push(parseProofImage('photo', input.photo));
+  if (input.signature) images.push(parseProofImage('signature', input.signature));
+  const recipientName =
+    typeof input.recipientName === 'string' && input.recipientName.trim() ? input.recipientName.trim() : undefined;
+  if (images.length === 0 && !recipientName) {
+    throw new DeliveryProofError('لا يوجد إثبات تسليم للحفظ');
+  }
+
+  const assignmentData: Prisma.ShipmentAssignmentUpdateManyMutationInput = {};
+  if (recipientName) assignmentData.recipientName = recipientName;
+  for (const image of images) {
+    if (image.kind === 'photo') {
+      assignmentData.deliveryProofUrl = deliveryProofFileUrl(assignmentId, 'photo');
+    } else {
+      assignmentData.recipientSignature = deliveryProofFileUrl(assignmentId, 'signature');
+    }
+  }
+
+  await prisma.$transaction(async (tx) => {
+    // Locks the row first, so a delivery confirmed meanwhile is seen here.
+    const open = await tx.shipmentAssignment.updateMany({
+      where: { id: assignmentId, status: { notIn: [...DELIVERY_PROOF_LOCKED_STATUSES] } },
+      data: assignmentData,
+    });
+    if (open.count === 0) {
+      const current = await tx.shipmentAssignment.findUnique({ where: { id: assignmentId }, select: { status: true } });
+      if (!current) throw new DeliveryProofError('التعيين غير موجود', 404);
+      assertDeliveryProofWritable(current.status);
+      throw new DeliveryProofError('تعذر حفظ إثبات التسليم', 409);
+    }
+
+    for (const image of images) {
+      const file = {
+        contentType: image.contentType,
+        fileSize: image.data.length,
+        fileData: new Uint8Array(image.data),
+        capturedById: actor.id,
+        capturedByName: actor.name,
+      };
+      await tx.deliveryProofFile.upsert({
+        where: { assignmentId_kind: { assignmentId, kind: image.kind } },
+        create: { assignmentId, kind: image.kind, ...file },
+        update: file,
+      });
+    }
+  });
+
+  return (await getDeliveryProofAssignment(assignmentId)) as DeliveryProofAssignment;
+}
+
+export async function getDeliveryProofFile(assignmentId: string, kind: DeliveryProofKind) {
+  return prisma.deliveryProofFile.findUnique({
+    where: { assignmentId_kind: { assignmentId, kind } },
+    select: { contentType: true, fileData: true, updatedAt: true },
+  });
+}
+
+/** Whether the agent captured a photo or a signature for the assignment. */
+export async function hasDeliveryProof(assignmentId: string): Promise<boolean> {
+  const count = await prisma.deliveryProofFile.count({ where: { assignmentId } });
+  return count > 0;
+}
+
+export function serializeDeliveryProof(assignment: DeliveryProofAssignment) {
+  const fileOf = (kind: DeliveryProofKind) => {
+    const file = assignment.proofFiles.find((item) => item.kind === kind);
+    return file
+      ? {
+          url: `${deliveryProofFileUrl(assignment.id, kind)}?v=${file.updatedAt.getTime()}`,
+          fileSize: file.fileSize,
+          capturedByName: file.capturedByName,
+          capturedAt: file.updatedAt.toISOString(),
+        }
+      : null;
+  };
+  return {
+    assignmentId: assignment.id,
+    status: assignment.status,
+    recipientName: assignment.recipientName,
+    deliveredAt: assignment.deliveredAt?.toISOString() ?? null,
+    deliveryOtpVerifiedAt: assignment.deliveryOtpVerifiedAt?.toISOString() ?? null,
+    photo: fileOf('photo'),
+    signature: fileOf('signature'),
+    shipment: {
+      orderNumber: assignment.shipment.orderNumber,
+      trackingNumber: assignment.shipment.trackingNumber,
+      customerName: assignment.shipment.customerName,
+      customerPhone: assignment.shipment.customerPhone,
+    },
+    deliveryAgent: assignment.deliveryAgent,
+  };
+}
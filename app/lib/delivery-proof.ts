@@ -0,0 +1,92 @@
+/**
+ * Proof-of-delivery images: which kinds exist, what the capture screen may
+ * upload and where each image is served from. Free of Prisma so the checks
+ * can be tested directly; `delivery-proof-service.ts` stores the files.
+ */
+
+export const DELIVERY_PROOF_KINDS = ['photo', 'signature'] as const;
+
+export type DeliveryProofKind = (typeof DELIVERY_PROOF_KINDS)[number];
+
+export const DELIVERY_PROOF_KIND_LABELS: Record<DeliveryProofKind, string> = {
+  photo: 'صورة التسليم',
+  signature: 'توقيع المستلم',
+};
+
+// The browser compresses before upload (photo ~1280px JPEG, signature PNG);
+// these limits only catch a capture that skipped compression.
+const MAX_BYTES: Record<DeliveryProofKind, number> = {
+  photo: 1_500_000,
+  signature: 300_000,
+};
+
+// Both formats embed directly in the POD PDF.
+const ALLOWED_TYPES: Record<DeliveryProofKind, string[]> = {
+  photo: ['image/jpeg', 'image/png'],
+  signature: ['image/png'],
+};
+
+export type ParsedProofImage = {
+  kind: DeliveryProofKind;
+  contentType: string;
+  data: Buffer;
+};
+
+export class DeliveryProofError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'DeliveryProofError';
+    this.statusCode = statusCode;
+  }
+}
+
+export const isDeliveryProofKind = (value: unknown): value is DeliveryProofKind =>
+  typeof value === 'string' && (DELIVERY_PROOF_KINDS as readonly string[]).includes(value);
+
+/**
+ * Once an assignment is closed its proof is the record of what happened at
+ * the door, so it can no longer be captured or replaced.
+ */
+export const DELIVERY_PROOF_LOCKED_STATUSES = ['delivered', 'failed', 'cancelled'] as const;
+
+/** Rejects a capture for an assignment that is already closed. */
+export function assertDeliveryProofWritable(status: string): void {
+  if ((DELIVERY_PROOF_LOCKED_STATUSES as readonly string[]).includes(status)) {
+    throw new DeliveryProofError(
+      status === 'cancelled' ? 'لا يمكن إرفاق إثبات لتعيين ملغي' : 'لا يمكن تعديل إثبات التسليم بعد إغلاق التعيين',
+      409,
+    );
+  }
+}
+
+/** Where the assignment's image is served; stored on the assignment columns. */
+export const deliveryProofFileUrl = (assignmentId: string, kind: DeliveryProofKind) =>
+  `/api/shipment-assignments/${assignmentId}/proof/${kind}`;
+
+const DATA_URL_PATTERN = /^data:([a-z]+\/[a-z0-9.+-]+);base64,([A-Za-z0-9+/=\s]+)$/i;
+
+/** Decodes an uploaded data URL, rejecting other formats and oversized images. */
+export function parseProofImage(kind: DeliveryProofKind, dataUrl: unknown): ParsedProofImage {
+  const label = DELIVERY_PROOF_KIND_LABELS[kind];
+  if (typeof dataUrl !== 'string') {
+    throw new DeliveryProofError(`${label} غير صالحة`);
+  }
+  const match = dataUrl.match(DATA_URL_PATTERN);
+  if (!match) {
+    throw new DeliveryProofError(`${label} غير صالحة`);
+  }
+  const contentType = match[1].toLowerCase();
+  if (!ALLOWED_TYPES[kind].includes(contentType)) {
+    throw new DeliveryProofError(`نوع ملف ${label} غير مدعوم`);
+  }
+  const data = Buffer.from(match[2].replace(/\s/g, ''), 'base64');
+  if (data.length === 0) {
+    throw new DeliveryProofError(`${label} فارغة`);
+  }
+  if (data.length > MAX_BYTES[kind]) {
+    throw new DeliveryProofError(`حجم ${label} أكبر من المسموح`, 413);
+  }
+  return { kind, contentType, data };
+}
@@ -0,0 +1,296 @@
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+import { enqueueDeliveryRescheduleNotification } from '@/app/lib/customer-journey-notifications';
+import { normalizeOrderItems } from '@/app/lib/local-shipping/serializer';
+import { markSallaOrderRestored, markSallaOrderRestoring } from '@/app/lib/local-shipping/salla-status';
+import { getSallaProductBySku, getSallaProductVariations, normalizeSkuValue } from '@/app/lib/salla-api';
+import { incrementSallaStock } from '@/app/lib/salla-stock';
+import { getLocalDeliveryMaxAttempts } from '@/app/lib/settings';
+import {
+  DeliveryReattemptError,
+  collectRestockLines,
+  createNextAttemptOnce,
+  decideDeliveryFailureOutcome,
+  describeDeliveryFailure,
+  describeReturnToOrigin,
+  type DeliveryFailureOutcome,
+  type DeliveryFailureReasonCode,
+  type RestockLine,
+} from '@/app/lib/delivery-reattempts';
+
+export type DeliveryReattemptActor = {
+  id: string | null;
+  name: string | null;
+};
+
+export type FailedDeliveryResult =
+  | { action: 'reattempt'; assignmentId: string; attemptNumber: number; notification: string }
+  | { action: 'return'; returnReason: string }
+  | { action: 'none' };
+
+const shipmentForFailure = {
+  id: true,
+  merchantId: true,
+  orderId: true,
+  orderNumber: true,
+  trackingNumber: true,
+  customerName: true,
+  customerPhone: true,
+  status: true,
+  codCollection: { select: { id: true, status: true } },
+} as const;
+
+async function notifyReschedule(
+  shipment: { merchantId: string; orderId: string; orderNumber: string; trackingNumber: string; customerName: string; customerPhone: string },
+  assignmentId: string,
+): Promise<string> {
+  const stored = await prisma.sallaOrder.findUnique({
+    where: { merchantId_orderId: { merchantId: shipment.merchantId, orderId: shipment.orderId } },
+    select: { rawOrder: true },
+  });
+  // Orders created before the Salla sync caught up still reach the customer.
+  const order = (stored?.rawOrder as Record<string, any> | null) ?? {
+    reference_id: shipment.orderNumber,
+    customer: { first_name: shipment.customerName, mobile: shipment.customerPhone },
+  };
+  try {
+    const queued = await enqueueDeliveryRescheduleNotification({
+      merchantId: shipment.merchantId,
+      orderId: shipment.orderId,
+      order,
+      trackingNumber: shipment.trackingNumber,
+      assignmentId,
+    });
+    return queued.status;
+  } catch (error) {
+    log.error('Failed to queue delivery reschedule notification', { assignmentId, error });
+    return 'failed';
+  }
+}
+
+/**
+ * Applies the reattempt policy to an assignment that was just marked failed:
+ * either a new assignment for the same agent with the customer told over
+ * WhatsApp, or the start of the return to the warehouse.
+ */
+export async function handleFailedDeliveryAttempt(
+  assignmentId: string,
+  reasonCode: DeliveryFailureReasonCode,
+  actor: DeliveryReattemptActor,
+): Promise<FailedDeliveryResult> {
+  const assignment = await prisma.shipmentAssignment.findUnique({
+    where: { id: assignmentId },
+    select: {
+      id: true,
+      status: true,
+      attemptNumber: true,
+      deliveryAgentId: true,
+      shipmentId: true,
+      shipment: { select: shipmentForFailure },
+    },
+  });
+  if (!assignment || assignment.status !== 'failed') {
+    return { action: 'none' };
+  }
+  // Re-failing an older attempt must not spawn a second reattempt.
+  const newerAttempt = await prisma.shipmentAssignment.findFirst({
+    where: { shipmentId: assignment.shipmentId, attemptNumber: { gt: assignment.attemptNumber } },
+    select: { id: true },
+  });
+  if (newerAttempt) {
+    return { action: 'none' };
+  }
+
+  const outcome = decideDeliveryFailureOutcome({
+    reasonCode,
+    attemptNumber: assignment.attemptNumber,
+    maxAttempts: await getLocalDeliveryMaxAttempts(),
+  });
+  const { shipment } = assignment;
+
+  if (outcome.action === 'reattempt') {
+    const next = await createNextAttemptOnce(() =>
+      prisma.$transaction(async (tx) => {
+        const created = await tx.shipmentAssignment.create({
+          data: {
+            shipmentId: shipment.id,
+            deliveryAgentId: assignment.deliveryAgentId,
+            attemptNumber: outcome.nextAttemptNumber,
+            assignedBy: actor.name || 'system',
+            notes: `محاولة توصيل رقم ${outcome.nextAttemptNumber} بعد: ${describeDeliveryFailure(reasonCode)}`,
+          },
+          select: { id: true },
+        });
+        await tx.localShipment.update({ where: { id: shipment.id }, data: { status: 'assigned' } });
+        return created;
+      }),
+    );
+    if (!next) {
+      log.info('Local delivery reattempt already scheduled', {
+        shipmentId: shipment.id,
+        failedAssignmentId: assignmentId,
+        attemptNumber: outcome.nextAttemptNumber,
+      });
+      return { action: 'none' };
+    }
+
+    const notification = await notifyReschedule(shipment, next.id);
+    log.info('Local delivery reattempt scheduled', {
+      shipmentId: shipment.id,
+      failedAssignmentId: assignmentId,
+      assignmentId: next.id,
+      attemptNumber: outcome.nextAttemptNumber,
+      notification,
+    });
+    return { action: 'reattempt', assignmentId: next.id, attemptNumber: outcome.nextAttemptNumber, notification };
+  }
+
+  const returnReason = describeReturnToOrigin(outcome, reasonCode, assignment.attemptNumber);
+  await startReturnToOrigin(shipment, returnReason, outcome);
+  return { action: 'return', returnReason };
+}
+
+async function startReturnToOrigin(
+  shipment: {
+    id: string;
+    merchantId: string;
+    orderId: string;
+    orderNumber: string;
+    trackingNumber: string;
+    codCollection: { id: string; status: string } | null;
+  },
+  returnReason: string,
+  outcome: Extract<DeliveryFailureOutcome, { action: 'return' }>,
+) {
+  await prisma.$transaction(async (tx) => {
+    await tx.localShipment.update({
+      where: { id: shipment.id },
+      data: { status: 'returning', returnStartedAt: new Date(), returnReason },
+    });
+    // Nothing will be collected on a parcel that is coming back.
+    if (shipment.codCollection?.status === 'pending') {
+      await tx.cODCollection.update({
+        where: { id: shipment.codCollection.id },
+        data: { status: 'failed', notes: returnReason },
+      });
+    }
+  });
+
+  await markSallaOrderRestoring({
+    merchantId: shipment.merchantId,
+    orderId: shipment.orderId,
+    shipmentId: shipment.id,
+    orderNumber: shipment.orderNumber,
+    trackingNumber: shipment.trackingNumber,
+    action: 'delivery-return-started',
+  });
+  log.info('Local shipment returning to warehouse', { shipmentId: shipment.id, cause: outcome.cause });
+}
+
+export type RestockResult = RestockLine & { ok: boolean; error?: string };
+
+async function restockLine(merchantId: string, line: RestockLine): Promise<RestockResult> {
+  try {
+    const product = await getSallaProductBySku(merchantId, line.sku);
+    if (!product) {
+      return { ...line, ok: false, error: 'المنتج غير موجود في سلة' };
+    }
+    const wanted = normalizeSkuValue(line.sku);
+    const variations = await getSallaProductVariations(merchantId, product.id);
+    const variant = variations.find((variation) => normalizeSkuValue(variation.sku) === wanted);
+    const result = variant
+      ? await incrementSallaStock('variant_id', variant.id, line.quantity, { merchantId })
+      : await incrementSallaStock('product_id', product.id, line.quantity, { merchantId });
+    return result.ok ? { ...line, ok: true } : { ...line, ok: false, error: result.error };
+  } catch (error) {
+    return { ...line, ok: false, error: error instanceof Error ? error.message : 'تعذر تحديث المخزون' };
+  }
+}
+
+/**
+ * The warehouse confirms the parcel is back on the shelf: its items go back
+ * into Salla stock and the order is marked restored. Lines that fail to
+ * restock are reported for a manual stock adjustment.
+ */
+export async function receiveReturnedShipment(shipmentId: string, actor: DeliveryReattemptActor) {
+  const shipment = await prisma.localShipment.findUnique({
+    where: { id: shipmentId },
+    select: {
+      id: true,
+      merchantId: true,
+      orderId: true,
+      orderNumber: true,
+      trackingNumber: true,
+      status: true,
+      orderItems: true,
+    },
+  });
+  if (!shipment) {
+    throw new DeliveryReattemptError('الشحنة غير موجودة', 404);
+  }
+
+  const claimed = await prisma.localShipment.updateMany({
+    where: { id: shipmentId, status: 'returning' },
+    data: { status: 'returned', returnedAt: new Date(), returnReceivedBy: actor.name },
+  });
+  if (claimed.count === 0) {
+    throw new DeliveryReattemptError('الشحنة ليست في طريق العودة للمستودع', 409);
+  }
+
+  const lines = collectRestockLines(normalizeOrderItems(shipment.orderItems).items);
+  const restocked: RestockResult[] = [];
+  for (const line of lines) {
+    restocked.push(await restockLine(shipment.merchantId, line));
+  }
+  const failedLines = restocked.filter((line) => !line.ok);
+  if (lines.length > 0 && failedLines.length === 0) {
+    await prisma.localShipment.update({ where: { id: shipmentId }, data: { restockedAt: new Date() } });
+  } else if (failedLines.length > 0) {
+    log.warn('Returned local shipment only partly restocked', { shipmentId, failedLines });
+  }
+
+  await markSallaOrderRestored({
+    merchantId: shipment.merchantId,
+    orderId: shipment.orderId,
+    shipmentId: shipment.id,
+    orderNumber: shipment.orderNumber,
+    trackingNumber: shipment.trackingNumber,
+    action: 'delivery-return-received',
+  });
+
+  log.info('Returned local shipment received', {
+    shipmentId,
+    receivedBy: actor.name,
+    restockedLines: restocked.length - failedLines.length,
+    failedLines: failedLines.length,
+  });
+  return { shipmentId, restocked };
+}
+
+/** Shipments on their way back, for the warehouse to check in. */
+export async function listReturningShipments() {
+  const shipments = await prisma.localShipment.findMany({
+    where: { status: 'returning' },
+    orderBy: { returnStartedAt: 'asc' },
+    select: {
+      id: true,
+      orderNumber: true,
+      trackingNumber: true,
+      customerName: true,
+      shippingCity: true,
+      returnStartedAt: true,
+      returnReason: true,
+      assignments: {
+        orderBy: { attemptNumber: 'desc' },
+        take: 1,
+        select: { attemptNumber: true, deliveryAgent: { select: { id: true, name: true, username: true } } },
+      },
+    },
+  });
+  return shipments.map(({ assignments, ...shipment }) => ({
+    ...shipment,
+    returnStartedAt: shipment.returnStartedAt?.toISOString() ?? null,
+    attempts: assignments[0]?.attemptNumber ?? 0,
+    deliveryAgent: assignments[0]?.deliveryAgent ?? null,
+  }));
+}
@@ -0,0 +1,132 @@
+/**
+ * Failed messenger deliveries: the reason codes an agent picks from, and
+ * whether a failure earns another attempt or sends the parcel back to the
+ * warehouse. Free of database access so the decision can be tested
+ * directly; `delivery-reattempt-service.ts` applies it.
+ */
+
+import { Prisma } from '@prisma/client';
+
+export const DELIVERY_FAILURE_REASONS = [
+  { code: 'customer_unreachable', label: 'تعذر التواصل مع العميل', reattempt: true },
+  { code: 'customer_not_available', label: 'العميل غير متواجد', reattempt: true },
+  { code: 'customer_rescheduled', label: 'طلب العميل موعداً آخر', reattempt: true },
+  { code: 'wrong_address', label: 'العنوان غير صحيح أو غير مكتمل', reattempt: true },
+  { code: 'cod_not_ready', label: 'مبلغ الدفع عند الاستلام غير جاهز', reattempt: true },
+  { code: 'area_inaccessible', label: 'تعذر الوصول إلى الموقع', reattempt: true },
+  // The customer will not take the parcel; trying again only costs a trip.
+  { code: 'customer_refused', label: 'رفض العميل استلام الشحنة', reattempt: false },
+  { code: 'damaged', label: 'الشحنة تالفة', reattempt: false },
+  { code: 'other', label: 'سبب آخر', reattempt: true },
+] as const;
+
+export type DeliveryFailureReasonCode = (typeof DELIVERY_FAILURE_REASONS)[number]['code'];
+
+export const DEFAULT_MAX_DELIVERY_ATTEMPTS = 3;
+
+export class DeliveryReattemptError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'DeliveryReattemptError';
+    this.statusCode = statusCode;
+  }
+}
+
+export const isDeliveryFailureReasonCode = (value: unknown): value is DeliveryFailureReasonCode =>
+  DELIVERY_FAILURE_REASONS.some((reason) => reason.code === value);
+
+const reasonFor = (code: DeliveryFailureReasonCode) =>
+  DELIVERY_FAILURE_REASONS.find((reason) => reason.code === code)!;
+
+/** The text stored in `failureReason`: the code's label plus the agent's note. */
+export function describeDeliveryFailure(code: DeliveryFailureReasonCode, note?: string | null): string {
+  const label = reasonFor(code).label;
+  const trimmed = note?.trim();
+  return trimmed && trimmed !== label ? `${label} - ${trimmed}` : label;
+}
+
+export type DeliveryFailureOutcome =
+  | { action: 'reattempt'; nextAttemptNumber: number; attemptsLeft: number }
+  | { action: 'return'; cause: 'max_attempts' | 'final_reason' };
+
+/**
+ * `maxAttempts` counts every trip including the first, so 1 means no
+ * reattempts. Values below 1 are treated as 1.
+ */
+export function decideDeliveryFailureOutcome(input: {
+  reasonCode: DeliveryFailureReasonCode;
+  attemptNumber: number;
+  maxAttempts: number;
+}): DeliveryFailureOutcome {
+  if (!reasonFor(input.reasonCode).reattempt) {
+    return { action: 'return', cause: 'final_reason' };
+  }
+  const maxAttempts = Math.max(1, Math.floor(input.maxAttempts) || 1);
+  if (input.attemptNumber >= maxAttempts) {
+    return { action: 'return', cause: 'max_attempts' };
+  }
+  return {
+    action: 'reattempt',
+    nextAttemptNumber: input.attemptNumber + 1,
+    attemptsLeft: maxAttempts - input.attemptNumber,
+  };
+}
+
+/**
+ * Runs the write that creates the next attempt. Two failure reports for the
+ * same assignment can both get past the newer-attempt check; the unique
+ * (shipmentId, attemptNumber) index lets only one create it, and the other
+ * gets `null` back instead of a unique-constraint error.
+ */
+export async function createNextAttemptOnce<T>(create: () => Promise<T>): Promise<T | null> {
+  try {
+    return await create();
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/** Why the shipment is heading back, as shown on the shipment and in tracking. */
+export function describeReturnToOrigin(
+  outcome: Extract<DeliveryFailureOutcome, { action: 'return' }>,
+  reasonCode: DeliveryFailureReasonCode,
+  attemptNumber: number,
+): string {
+  const label = reasonFor(reasonCode).label;
+  return outcome.cause === 'final_reason'
+    ? `إرجاع للمستودع: ${label}`
+    : `إرجاع للمستودع بعد ${attemptNumber} محاولات توصيل فاشلة (آخرها: ${label})`;
+}
+
+export type RestockLine = {
+  sku: string;
+  quantity: number;
+  name: string | null;
+};
+
+/**
+ * Collapses the Salla line items stored on the shipment into one restock line
+ * per SKU. Lines without a SKU cannot be matched in Salla and are skipped.
+ */
+export function collectRestockLines(items: unknown[]): RestockLine[] {
+  const lines = new Map<string, RestockLine>();
+  for (const item of items) {
+    if (!item || typeof item !== 'object') continue;
+    const record = item as { sku?: unknown; name?: unknown; quantity?: unknown; product?: { sku?: unknown } };
+    const sku = String(record.sku || record.product?.sku || '').trim();
+    const quantity = Math.round(Number(record.quantity));
+    if (!sku || !Number.isFinite(quantity) || quantity <= 0) continue;
+    const existing = lines.get(sku);
+    if (existing) {
+      existing.quantity += quantity;
+    } else {
+      lines.set(sku, { sku, quantity, name: typeof record.name === 'string' ? record.name : null });
+    }
+  }
+  return Array.from(lines.values());
+}
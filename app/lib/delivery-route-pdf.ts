@@ -0,0 +1,212 @@
+import fontkit from '@pdf-lib/fontkit';
+import type { LocalShipment } from '@prisma/client';
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import type { PDFFont, PDFPage } from 'pdf-lib';
+import { ArabicShaper } from 'arabic-persian-reshaper';
+
+import {
+  detectDirection,
+  generateLocalShipmentLabelPdf,
+  getMerchantLabelInfo,
+  loadArabicFont,
+  mmToPt,
+  wrapValue,
+} from '@/app/lib/local-shipping/label';
+import type { DeliveryRoute } from '@/app/lib/delivery-route-service';
+
+// Same 4x6 stock as the local labels so the stop list comes out of the label
+// printer on top of the labels it belongs to.
+const PAGE_WIDTH = mmToPt(101.6);
+const PAGE_HEIGHT = mmToPt(152.4);
+const MARGIN = 14;
+const CONTENT_LEFT = MARGIN;
+const CONTENT_RIGHT = PAGE_WIDTH - MARGIN;
+const CONTENT_WIDTH = CONTENT_RIGHT - CONTENT_LEFT;
+const FOOTER_TOP = 24;
+const ADDRESS_LINE_CHARS = 42;
+
+const textColor = rgb(0.13, 0.15, 0.2);
+const subtleText = rgb(0.46, 0.48, 0.55);
+const accentColor = rgb(0.82, 0.19, 0.32);
+const borderColor = rgb(0.88, 0.9, 0.94);
+const headerBg = rgb(1, 0.97, 0.98);
+
+type DocumentContext = {
+  pdfDoc: PDFDocument;
+  arabicFont: PDFFont;
+  latinFont: PDFFont;
+  page: PDFPage;
+  cursorY: number;
+  pageNumber: number;
+};
+
+const POSITION_NOTES: Record<string, string> = {
+  district: 'موقع تقريبي (الحي)',
+  city: 'موقع تقريبي (المدينة)',
+  none: 'بدون موقع',
+};
+
+function drawText(
+  ctx: DocumentContext,
+  value: string,
+  x: number,
+  y: number,
+  size: number,
+  options: { color?: ReturnType<typeof rgb>; align?: 'left' | 'right' | 'center' } = {},
+) {
+  const direction = /[\u0600-\u06FF]/.test(value) ? 'rtl' : detectDirection(value);
+  const shaped = direction === 'rtl' ? ArabicShaper.convertArabic(value) : value;
+  const font = direction === 'rtl' ? ctx.arabicFont : ctx.latinFont;
+  const width = font.widthOfTextAtSize(shaped, size);
+  const align = options.align ?? (direction === 'rtl' ? 'right' : 'left');
+  const drawX = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+  ctx.page.drawText(shaped, { x: drawX, y, font, size, color: options.color ?? textColor });
+}
+
+function formatMoney(value: number): string {
+  const rounded = Math.round(value * 100) / 100;
+  return Number.isInteger(rounded) ? String(rounded) : rounded.toFixed(2);
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-GB', { timeZone: 'Asia/Riyadh' });
+}
+
+function drawHeader(ctx: DocumentContext, route: DeliveryRoute, printedAt: Date) {
+  const top = PAGE_HEIGHT - MARGIN;
+  const height = ctx.pageNumber === 1 ? 58 : 24;
+  ctx.page.drawRectangle({
+    x: CONTENT_LEFT,
+    y: top - height,
+    width: CONTENT_WIDTH,
+    height,
+    color: headerBg,
+    borderColor,
+    borderWidth: 1,
+  });
+  drawText(ctx, 'مسار التوصيل', CONTENT_RIGHT - 6, top - 16, 11, { color: accentColor, align: 'right' });
+  drawText(ctx, formatDate(printedAt), CONTENT_LEFT + 6, top - 15, 8, { color: subtleText, align: 'left' });
+
+  if (ctx.pageNumber === 1) {
+    const codTotal = route.stops.reduce((sum, stop) => sum + (stop.isCOD ? stop.codAmount : 0), 0);
+    drawText(ctx, `المندوب: ${route.agent.name}`, CONTENT_RIGHT - 6, top - 32, 8.5, { align: 'right' });
+    drawText(ctx, `${route.stops.length} stops · ~${route.totalKm} km`, CONTENT_LEFT + 6, top - 32, 8, {
+      align: 'left',
+    });
+    drawText(ctx, `COD: ${formatMoney(codTotal)} SAR`, CONTENT_LEFT + 6, top - 46, 8, { align: 'left' });
+    if (route.roughlyPlacedCount > 0) {
+      drawText(ctx, `${route.roughlyPlacedCount} بموقع تقريبي`, CONTENT_RIGHT - 6, top - 47, 7.5, {
+        color: subtleText,
+        align: 'right',
+      });
+    }
+  }
+  ctx.cursorY = top - height - 8;
+}
+
+function drawFooter(ctx: DocumentContext) {
+  drawText(ctx, `${ctx.pageNumber}`, PAGE_WIDTH / 2, FOOTER_TOP - 12, 7, { color: subtleText, align: 'center' });
+}
+
+function newPage(ctx: DocumentContext, route: DeliveryRoute, printedAt: Date) {
+  drawFooter(ctx);
+  ctx.page = ctx.pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  ctx.pageNumber += 1;
+  drawHeader(ctx, route, printedAt);
+}
+
+/**
+ * The ordered stop list, optionally followed by each stop's label in the same
+ * order so the pile comes off the printer ready to load into the car.
+ */
+export async function generateDeliveryRoutePdf(
+  route: DeliveryRoute,
+  options: { labels?: LocalShipment[]; printedAt?: Date } = {},
+): Promise<Buffer> {
+  const printedAt = options.printedAt ?? new Date();
+  const arabicFontData = await loadArabicFont();
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.registerFontkit(fontkit);
+  const [arabicFont, latinFont] = await Promise.all([
+    pdfDoc.embedFont(arabicFontData, { subset: true }),
+    pdfDoc.embedFont(StandardFonts.Helvetica),
+  ]);
+  const ctx: DocumentContext = {
+    pdfDoc,
+    arabicFont,
+    latinFont,
+    page: pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]),
+    cursorY: PAGE_HEIGHT - MARGIN,
+    pageNumber: 1,
+  };
+
+  drawHeader(ctx, route, printedAt);
+
+  if (route.stops.length === 0) {
+    drawText(ctx, 'لا توجد شحنات نشطة', PAGE_WIDTH / 2, ctx.cursorY - 20, 10, {
+      color: subtleText,
+      align: 'center',
+    });
+  }
+
+  let previousCluster: string | null = null;
+  for (const stop of route.stops) {
+    const addressLines = wrapValue(stop.address, ADDRESS_LINE_CHARS).slice(0, 2);
+    const showCluster = stop.clusterKey !== previousCluster;
+    const blockHeight = (showCluster ? 14 : 0) + 30 + addressLines.length * 10;
+    if (ctx.cursorY - blockHeight < FOOTER_TOP) {
+      newPage(ctx, route, printedAt);
+    }
+
+    if (showCluster) {
+      drawText(ctx, stop.clusterLabel, CONTENT_RIGHT - 2, ctx.cursorY - 9, 8, { color: accentColor, align: 'right' });
+      ctx.cursorY -= 14;
+      previousCluster = stop.clusterKey;
+    }
+
+    const y = ctx.cursorY;
+    ctx.page.drawCircle({ x: CONTENT_LEFT + 9, y: y - 8, size: 8, borderColor: textColor, borderWidth: 1 });
+    drawText(ctx, String(stop.sequence), CONTENT_LEFT + 9, y - 11, 8, { align: 'center' });
+    drawText(ctx, stop.customerName, CONTENT_RIGHT - 2, y - 10, 9, { align: 'right' });
+    drawText(ctx, `#${stop.orderNumber}`, CONTENT_LEFT + 22, y - 11, 8, { align: 'left' });
+    const details = [
+      stop.isCOD ? `COD ${formatMoney(stop.codAmount)}` : 'Prepaid',
+      stop.legKm !== null ? `+${stop.legKm} km` : null,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+    drawText(ctx, details, CONTENT_LEFT + 22, y - 22, 7.5, { color: subtleText, align: 'left' });
+    drawText(ctx, stop.customerPhone, CONTENT_RIGHT - 2, y - 22, 7.5, { color: subtleText, align: 'right' });
+    let lineY = y - 33;
+    for (const line of addressLines) {
+      drawText(ctx, line, CONTENT_RIGHT - 2, lineY, 7.5, { align: 'right' });
+      lineY -= 10;
+    }
+    const positionNote = POSITION_NOTES[stop.positionSource];
+    if (positionNote) {
+      drawText(ctx, positionNote, CONTENT_LEFT + 22, y - 33, 6.5, { color: subtleText, align: 'left' });
+    }
+    ctx.cursorY = lineY - 2;
+    ctx.page.drawLine({
+      start: { x: CONTENT_LEFT, y: ctx.cursorY + 4 },
+      end: { x: CONTENT_RIGHT, y: ctx.cursorY + 4 },
+      color: borderColor,
+      thickness: 0.6,
+    });
+  }
+  drawFooter(ctx);
+
+  if (options.labels?.length) {
+    const merchant = getMerchantLabelInfo();
+    const byId = new Map(options.labels.map((shipment) => [shipment.id, shipment]));
+    for (const stop of route.stops) {
+      const shipment = byId.get(stop.shipmentId);
+      if (!shipment) continue;
+      const labelDoc = await PDFDocument.load(await generateLocalShipmentLabelPdf(shipment, merchant));
+      const pages = await pdfDoc.copyPages(labelDoc, labelDoc.getPageIndices());
+      pages.forEach((page) => pdfDoc.addPage(page));
+    }
+  }
+
+  return Buffer.from(await pdfDoc.save());
+}
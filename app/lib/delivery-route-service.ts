@@ -0,0 +1,193 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { resolveSaudiCity } from '@/lib/saudi-address';
+import { getMerchantLabelInfo } from '@/app/lib/local-shipping/label';
+import { normalizeOrderItems } from '@/app/lib/local-shipping/serializer';
+import {
+  DeliveryRouteError,
+  assertSameStops,
+  measureRoute,
+  mergeRouteOrder,
+  planRoute,
+  type PlannedRoute,
+} from '@/app/lib/delivery-routes';
+
+/** Stops still to be driven today; delivered and failed ones drop off the route. */
+export const ACTIVE_ROUTE_STATUSES = ['assigned', 'picked_up', 'in_transit'];
+
+const routeAssignmentSelect = Prisma.validator<Prisma.ShipmentAssignmentSelect>()({
+  id: true,
+  status: true,
+  assignedAt: true,
+  routeSequence: true,
+  routePlannedAt: true,
+  shipment: {
+    select: {
+      id: true,
+      orderNumber: true,
+      trackingNumber: true,
+      customerName: true,
+      customerPhone: true,
+      shippingAddress: true,
+      shippingCity: true,
+      shippingPostcode: true,
+      orderTotal: true,
+      isCOD: true,
+      orderItems: true,
+      codCollection: { select: { collectionAmount: true } },
+    },
+  },
+});
+
+type RouteAssignment = Prisma.ShipmentAssignmentGetPayload<{ select: typeof routeAssignmentSelect }>;
+
+export type DeliveryRouteStop = {
+  /** The assignment id; reordering works on assignments. */
+  id: string;
+  shipmentId: string;
+  status: string;
+  orderNumber: string;
+  trackingNumber: string;
+  customerName: string;
+  customerPhone: string;
+  address: string;
+  city: string | null;
+  district: string | null;
+  postcode: string | null;
+  latitude: string | number | null;
+  longitude: string | number | null;
+  mapsLink: string | null;
+  isCOD: boolean;
+  codAmount: number;
+};
+
+export type DeliveryRoute = PlannedRoute<DeliveryRouteStop> & {
+  agent: { id: string; name: string; username: string };
+  /** When the stored order was last optimized or rearranged; null if never. */
+  plannedAt: Date | null;
+};
+
+function toRouteStop(assignment: RouteAssignment): DeliveryRouteStop {
+  const { shipment } = assignment;
+  const meta = normalizeOrderItems(shipment.orderItems).meta;
+  const codAmount = shipment.codCollection
+    ? Number(shipment.codCollection.collectionAmount)
+    : shipment.isCOD
+      ? Number(shipment.orderTotal)
+      : 0;
+  return {
+    id: assignment.id,
+    shipmentId: shipment.id,
+    status: assignment.status,
+    orderNumber: shipment.orderNumber,
+    trackingNumber: shipment.trackingNumber,
+    customerName: meta.shipToName || shipment.customerName,
+    customerPhone: meta.shipToPhone || shipment.customerPhone,
+    address: meta.shipToArabicText || meta.shipToAddressLine || shipment.shippingAddress,
+    city: meta.shipToCity || shipment.shippingCity || null,
+    district: meta.shipToDistrict ?? null,
+    postcode: shipment.shippingPostcode || meta.shipToPostalCode || null,
+    latitude: meta.shipToLatitude ?? null,
+    longitude: meta.shipToLongitude ?? null,
+    mapsLink: meta.mapsLink ?? null,
+    isCOD: shipment.isCOD,
+    codAmount,
+  };
+}
+
+// Agents leave from the store's city.
+const routeOrigin = () => resolveSaudiCity(getMerchantLabelInfo().city)?.centroid ?? null;
+
+async function loadRouteAssignments(agentId: string) {
+  const agent = await prisma.orderUser.findUnique({
+    where: { id: agentId },
+    select: { id: true, name: true, username: true },
+  });
+  if (!agent) {
+    throw new DeliveryRouteError('المندوب غير موجود', 404);
+  }
+  const assignments = await prisma.shipmentAssignment.findMany({
+    where: { deliveryAgentId: agentId, status: { in: ACTIVE_ROUTE_STATUSES } },
+    select: routeAssignmentSelect,
+    orderBy: { assignedAt: 'asc' },
+  });
+  return { agent, assignments };
+}
+
+/** The agent's active stops in their stored order, new stops appended in the suggested order. */
+export async function getDeliveryRoute(agentId: string): Promise<DeliveryRoute> {
+  const { agent, assignments } = await loadRouteAssignments(agentId);
+  const origin = routeOrigin();
+  const suggested = planRoute(assignments.map(toRouteStop), origin);
+
+  const savedSequence = new Map<string, number>();
+  let plannedAt: Date | null = null;
+  for (const assignment of assignments) {
+    if (assignment.routeSequence !== null) {
+      savedSequence.set(assignment.id, assignment.routeSequence);
+    }
+    if (assignment.routePlannedAt && (!plannedAt || assignment.routePlannedAt > plannedAt)) {
+      plannedAt = assignment.routePlannedAt;
+    }
+  }
+
+  const route = measureRoute(mergeRouteOrder(suggested.stops, savedSequence), origin);
+  return { ...route, agent, plannedAt };
+}
+
+async function storeRouteOrder(assignmentIds: string[]) {
+  const now = new Date();
+  await prisma.$transaction(
+    assignmentIds.map((id, index) =>
+      prisma.shipmentAssignment.update({
+        where: { id },
+        data: { routeSequence: index + 1, routePlannedAt: now },
+      }),
+    ),
+  );
+}
+
+/** Throws away the stored order and keeps the nearest-neighbour suggestion. */
+export async function optimizeDeliveryRoute(agentId: string): Promise<DeliveryRoute> {
+  const { assignments } = await loadRouteAssignments(agentId);
+  const suggested = planRoute(assignments.map(toRouteStop), routeOrigin());
+  await storeRouteOrder(suggested.stops.map((stop) => stop.id));
+  return getDeliveryRoute(agentId);
+}
+
+/** Stores a hand-arranged order; it must list exactly the route's current stops. */
+export async function reorderDeliveryRoute(agentId: string, assignmentIds: string[]): Promise<DeliveryRoute> {
+  const { assignments } = await loadRouteAssignments(agentId);
+  assertSameStops(
+    assignments.map((assignment) => assignment.id),
+    assignmentIds,
+  );
+  await storeRouteOrder(assignmentIds);
+  return getDeliveryRoute(agentId);
+}
+
+export function serializeDeliveryRoute(route: DeliveryRoute) {
+  return {
+    agent: route.agent,
+    plannedAt: route.plannedAt?.toISOString() ?? null,
+    totalKm: route.totalKm,
+    roughlyPlacedCount: route.roughlyPlacedCount,
+    stops: route.stops.map((stop) => ({
+      id: stop.id,
+      sequence: stop.sequence,
+      shipmentId: stop.shipmentId,
+      status: stop.status,
+      orderNumber: stop.orderNumber,
+      trackingNumber: stop.trackingNumber,
+      customerName: stop.customerName,
+      customerPhone: stop.customerPhone,
+      address: stop.address,
+      clusterLabel: stop.clusterLabel,
+      positionSource: stop.positionSource,
+      legKm: stop.legKm,
+      mapsLink: stop.mapsLink,
+      isCOD: stop.isCOD,
+      codAmount: stop.codAmount,
+    })),
+  };
+}
@@ -0,0 +1,245 @@
+/**
+ * Day routes for messenger deliveries: where each stop is, which stops belong
+ * together, and a nearest-neighbour order over them. Free of Prisma so the
+ * ordering can be tested directly; `delivery-route-service.ts` loads the
+ * agent's assignments and stores the order.
+ */
+import { foldPlaceName, resolveSaudiCity, resolveSaudiDistrict, type GeoPoint } from '@/lib/saudi-address';
+
+export type RoutePositionSource = 'coordinates' | 'district' | 'city' | 'none';
+
+export type RouteStopInput = {
+  id: string;
+  city?: string | null;
+  district?: string | null;
+  postcode?: string | null;
+  latitude?: string | number | null;
+  longitude?: string | number | null;
+};
+
+export type LocatedRouteStop<T extends RouteStopInput = RouteStopInput> = T & {
+  position: GeoPoint | null;
+  positionSource: RoutePositionSource;
+  /** Stops sharing a key are delivered back to back. */
+  clusterKey: string;
+  clusterLabel: string;
+};
+
+export type RouteLeg<T extends RouteStopInput = RouteStopInput> = LocatedRouteStop<T> & {
+  sequence: number;
+  /** Straight-line distance from the previous located stop (or the origin). */
+  legKm: number | null;
+};
+
+export type PlannedRoute<T extends RouteStopInput = RouteStopInput> = {
+  stops: RouteLeg<T>[];
+  totalKm: number;
+  /** Stops placed only by their city (or not at all); worth a look before leaving. */
+  roughlyPlacedCount: number;
+};
+
+export class DeliveryRouteError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'DeliveryRouteError';
+    this.statusCode = statusCode;
+  }
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+const toCoordinate = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim()) {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+// Saudi Arabia with some slack; anything outside is a typo or a 0,0 default.
+const isPlausiblePosition = ({ lat, lng }: GeoPoint) => lat >= 15 && lat <= 33 && lng >= 34 && lng <= 56;
+
+/**
+ * Places a stop on the map from its stored coordinates, falling back to the
+ * district centroid and then the city centroid, and works out its cluster:
+ * city, then district, then postcode.
+ */
+export function locateRouteStop<T extends RouteStopInput>(stop: T): LocatedRouteStop<T> {
+  const city = resolveSaudiCity(stop.city);
+  const district = resolveSaudiDistrict(city, stop.district);
+
+  const lat = toCoordinate(stop.latitude);
+  const lng = toCoordinate(stop.longitude);
+  const stored = lat !== null && lng !== null ? { lat, lng } : null;
+
+  let position: GeoPoint | null = null;
+  let positionSource: RoutePositionSource = 'none';
+  if (stored && isPlausiblePosition(stored)) {
+    position = stored;
+    positionSource = 'coordinates';
+  } else if (district) {
+    position = district.centroid;
+    positionSource = 'district';
+  } else if (city) {
+    position = city.centroid;
+    positionSource = 'city';
+  }
+
+  const cityKey = city?.key ?? (stop.city ? foldPlaceName(stop.city) : '');
+  const districtText = stop.district?.trim() || '';
+  const postcode = stop.postcode?.trim() || '';
+  const areaKey = district
+    ? `d:${foldPlaceName(district.nameEn)}`
+    : districtText
+      ? `d:${foldPlaceName(districtText)}`
+      : postcode
+        ? `p:${postcode}`
+        : '';
+
+  const cityLabel = city?.nameAr ?? stop.city?.trim() ?? '';
+  const areaLabel = district?.nameAr ?? (districtText || postcode);
+
+  return {
+    ...stop,
+    position,
+    positionSource,
+    clusterKey: `${cityKey || '?'}|${areaKey}`,
+    clusterLabel: [cityLabel, areaLabel].filter(Boolean).join(' - ') || 'بدون عنوان',
+  };
+}
+
+const centroidOf = (points: GeoPoint[]): GeoPoint => ({
+  lat: points.reduce((sum, point) => sum + point.lat, 0) / points.length,
+  lng: points.reduce((sum, point) => sum + point.lng, 0) / points.length,
+});
+
+/** Repeatedly takes the closest remaining item; ties keep input order. */
+function nearestNeighbourOrder<T>(items: T[], start: GeoPoint | null, positionOf: (item: T) => GeoPoint): T[] {
+  const remaining = [...items];
+  const ordered: T[] = [];
+  let current = start;
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    if (current) {
+      let bestDistance = Infinity;
+      remaining.forEach((item, index) => {
+        const distance = haversineKm(current as GeoPoint, positionOf(item));
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          bestIndex = index;
+        }
+      });
+    }
+    const [next] = remaining.splice(bestIndex, 1);
+    ordered.push(next);
+    current = positionOf(next);
+  }
+  return ordered;
+}
+
+/** Numbers the stops in the given order and measures each leg from the origin. */
+export function measureRoute<T extends RouteStopInput>(
+  stops: LocatedRouteStop<T>[],
+  origin: GeoPoint | null = null,
+): PlannedRoute<T> {
+  let previous = origin;
+  let totalKm = 0;
+  const legs = stops.map((stop, index) => {
+    let legKm: number | null = null;
+    if (stop.position) {
+      if (previous) {
+        legKm = Math.round(haversineKm(previous, stop.position) * 10) / 10;
+        totalKm += legKm;
+      }
+      previous = stop.position;
+    }
+    return { ...stop, sequence: index + 1, legKm };
+  });
+  return {
+    stops: legs,
+    totalKm: Math.round(totalKm * 10) / 10,
+    roughlyPlacedCount: legs.filter((stop) => stop.positionSource === 'city' || stop.positionSource === 'none').length,
+  };
+}
+
+/**
+ * Clusters the stops, visits the clusters nearest-neighbour from the origin
+ * (the warehouse) and the stops inside each cluster nearest-neighbour from
+ * wherever the previous cluster ended. Stops that cannot be placed go last,
+ * grouped by cluster, so the agent can sort them out by phone.
+ */
+export function planRoute<T extends RouteStopInput>(stops: T[], origin: GeoPoint | null = null): PlannedRoute<T> {
+  const located = stops.map((stop) => locateRouteStop(stop));
+
+  const clusters = new Map<string, LocatedRouteStop<T>[]>();
+  for (const stop of located) {
+    const members = clusters.get(stop.clusterKey) ?? [];
+    members.push(stop);
+    clusters.set(stop.clusterKey, members);
+  }
+
+  const placed: { members: LocatedRouteStop<T>[]; centroid: GeoPoint }[] = [];
+  const unplaced: LocatedRouteStop<T>[] = [];
+  for (const members of clusters.values()) {
+    const positions = members.flatMap((stop) => (stop.position ? [stop.position] : []));
+    if (positions.length === 0) {
+      unplaced.push(...members);
+      continue;
+    }
+    unplaced.push(...members.filter((stop) => !stop.position));
+    placed.push({ members: members.filter((stop) => stop.position), centroid: centroidOf(positions) });
+  }
+
+  const ordered: LocatedRouteStop<T>[] = [];
+  let current = origin;
+  for (const cluster of nearestNeighbourOrder(placed, origin, (item) => item.centroid)) {
+    const members = nearestNeighbourOrder(cluster.members, current, (stop) => stop.position as GeoPoint);
+    ordered.push(...members);
+    current = members[members.length - 1].position;
+  }
+  unplaced.sort((a, b) => a.clusterKey.localeCompare(b.clusterKey));
+  ordered.push(...unplaced);
+
+  return measureRoute(ordered, origin);
+}
+
+/**
+ * The stored order for today's stops: stops the agent (or a planner) already
+ * sequenced keep their order, and stops assigned since are appended in the
+ * suggested order.
+ */
+export function mergeRouteOrder<T extends { id: string }>(
+  suggested: T[],
+  savedSequence: Map<string, number>,
+): T[] {
+  const sequenced = suggested
+    .filter((stop) => savedSequence.has(stop.id))
+    .sort((a, b) => (savedSequence.get(a.id) as number) - (savedSequence.get(b.id) as number));
+  const fresh = suggested.filter((stop) => !savedSequence.has(stop.id));
+  return [...sequenced, ...fresh];
+}
+
+/** Checks a manual reorder covers exactly the route's current stops. */
+export function assertSameStops(currentIds: string[], requestedIds: string[]): void {
+  const current = new Set(currentIds);
+  const requested = new Set(requestedIds);
+  if (requested.size !== requestedIds.length) {
+    throw new DeliveryRouteError('الترتيب يحتوي على شحنة مكررة');
+  }
+  if (requested.size !== current.size || requestedIds.some((id) => !current.has(id))) {
+    throw new DeliveryRouteError('تغيرت شحنات المسار، يرجى تحديث الصفحة ثم إعادة الترتيب', 409);
+  }
+}
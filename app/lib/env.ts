@@ -30,6 +30,21 @@ export const env = {
     process.env.ZOKO_TPL_ORDER_CANCELLED || "order_cancelled_ar_v1",
   ZOKO_TPL_ORDER_REFUNDED:
     process.env.ZOKO_TPL_ORDER_REFUNDED || "order_refund_processed_ar_v1",
+  // Split shipment template. Positional args: 1 customer name, 2 order number,
+  // 3 back-ordered item names.
+  ZOKO_TPL_ORDER_PARTIAL_SHIPMENT:
+    process.env.ZOKO_TPL_ORDER_PARTIAL_SHIPMENT || "order_partial_shipment_ar_v1",
+  // Address confirmation for SMSA address-problem scans. Positional args:
+  // 1 customer name, 2 order number, 3 tracking number.
+  ZOKO_TPL_SHIPMENT_ADDRESS_CONFIRMATION:
+    process.env.ZOKO_TPL_SHIPMENT_ADDRESS_CONFIRMATION || "shipment_address_confirmation_ar_v1",
+  // Messenger reattempt after a failed local delivery. Positional args:
+  // 1 customer name, 2 order number, 3 tracking number.
+  ZOKO_TPL_DELIVERY_RESCHEDULE:
+    process.env.ZOKO_TPL_DELIVERY_RESCHEDULE || "delivery_reschedule_ar_v1",
+  // Delivery OTP over WhatsApp. Positional args: 1 code. Empty keeps OTPs
+  // on Msegat SMS only.
+  ZOKO_TPL_DELIVERY_OTP: process.env.ZOKO_TPL_DELIVERY_OTP || "",
   CUSTOMER_RATING_DELAY_HOURS:
     Number(process.env.CUSTOMER_RATING_DELAY_HOURS || "24"),
   CUSTOMER_DOCUMENT_SIGNING_SECRET:
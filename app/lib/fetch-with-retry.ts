@@ -6,6 +6,8 @@ interface RetryOptions {
   maxDelay?: number;
   shouldRetry?: (response: Response) => boolean;
   timeoutMs?: number;
+  /** Fetch to retry; defaults to the global one. Carrier transports pass their own. */
+  fetchImpl?: typeof fetch;
 }
 
 /**
@@ -27,6 +29,7 @@ export async function fetchWithRetry(
     maxDelay = 10000,
     shouldRetry = (response) => response.status >= 500,
     timeoutMs,
+    fetchImpl = fetch,
   } = retryOptions;
 
   let lastError: Error | null = null;
@@ -39,7 +42,7 @@ export async function fetchWithRetry(
 
     try {
       ({ controller, timeoutError, cleanup } = createTimeoutController(options, timeoutMs));
-      const response = await fetch(
+      const response = await fetchImpl(
         url,
         controller
           ? {
@@ -0,0 +1,23 @@
+/**
+ * Readers for loosely typed admin form and JSON payloads, shared by the rule
+ * and rate-card parsers so every form trims and splits values the same way.
+ */
+
+/** Trimmed text, or null when empty. Finite numbers are read as text. */
+export const stringOf = (value: unknown): string | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  if (typeof value !== 'string') return null;
+  return value.trim() || null;
+};
+
+/** De-duplicated trimmed values from an array or a comma-separated string. */
+export const cleanList = (value: unknown): string[] => {
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return Array.from(
+    new Set(raw.map((entry) => stringOf(entry)).filter((entry): entry is string => Boolean(entry))),
+  );
+};
+
+/** true / false from a checkbox or select; anything else means "any". */
+export const optionalBoolean = (value: unknown): boolean | null =>
+  value === true || value === 'true' ? true : value === false || value === 'false' ? false : null;
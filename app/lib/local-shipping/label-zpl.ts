@@ -0,0 +1,202 @@
+import type { LocalShipment } from '@prisma/client';
+
+import {
+  zplBox,
+  zplCode128,
+  zplCode128Width,
+  zplLabel,
+  zplQrCode,
+  zplQrSize,
+  zplText,
+} from '@/app/lib/zpl';
+import {
+  formatAmount,
+  getMerchantLabelInfo,
+  mapShipmentToLabelArgs,
+  wrapValue,
+  type MerchantLabelInfo,
+} from './label';
+import { normalizeOrderItems } from './serializer';
+
+// Same 4x6in stock as the PDF label, at 203dpi.
+const LABEL_WIDTH = 812;
+const LABEL_HEIGHT = 1218;
+const MARGIN = 24;
+const CONTENT_WIDTH = LABEL_WIDTH - MARGIN * 2;
+const BARCODE_MAX_WIDTH = CONTENT_WIDTH - 40;
+const BARCODE_MAX_MODULE_DOTS = 4;
+// Two dots per module is the finest a phone camera reliably resolves.
+const BARCODE_MIN_MODULE_DOTS = 2;
+const QR_MAX_SIZE = 220;
+
+const clip = (value: string, maxChars: number) =>
+  value.length > maxChars ? `${value.slice(0, maxChars - 3)}...` : value;
+
+/**
+ * Native ZPL version of `generateLocalShipmentLabelPdf`: the same fields,
+ * with a Code 128 order barcode and a QR of the customer's map pin (or the
+ * tracking number when the order has no location) for the messenger.
+ */
+export function generateLocalShipmentLabelZpl(
+  shipment: LocalShipment,
+  merchant: MerchantLabelInfo = getMerchantLabelInfo(),
+): string {
+  const { meta } = normalizeOrderItems(shipment.orderItems);
+  const args = mapShipmentToLabelArgs(shipment, meta);
+  const senderName = merchant.nameEn || merchant.name || 'Local Merchant';
+  const senderPhone = merchant.phone || '0500000000';
+  const senderAddress = merchant.address || merchant.city || 'Riyadh - Saudi Arabia';
+  const footerLabel =
+    process.env.NEXT_PUBLIC_MERCHANT_LABEL_FOOTER ||
+    `${merchant.nameEn || merchant.name || 'Local Store'} Local Delivery`;
+  const half = Math.floor(CONTENT_WIDTH / 2) - 16;
+  const fields: string[] = [];
+
+  // Header
+  fields.push(zplBox(MARGIN, 20, CONTENT_WIDTH, 120));
+  fields.push(zplText(`Order #${args.orderNo}`, { x: MARGIN + 16, y: 40, width: half, height: 30 }));
+  fields.push(zplText(senderPhone, { x: MARGIN + 16, y: 84, width: half, height: 22 }));
+  fields.push(zplText(clip(senderName, 28), { x: LABEL_WIDTH / 2, y: 40, width: half, height: 30, align: 'R' }));
+  fields.push(
+    zplText('Local Delivery Service', { x: LABEL_WIDTH / 2, y: 84, width: half, height: 22, align: 'R' }),
+  );
+
+  // Tracking bar
+  fields.push(zplBox(MARGIN, 152, CONTENT_WIDTH, 64, 64));
+  fields.push(zplText('TRACKING', { x: MARGIN + 16, y: 158, width: half, height: 18, reverse: true }));
+  fields.push(zplText(args.trackingCode, { x: MARGIN + 16, y: 180, width: half + 120, height: 30, reverse: true }));
+  fields.push(
+    zplText('Local Shipment', { x: LABEL_WIDTH / 2, y: 172, width: half, height: 22, align: 'R', reverse: true }),
+  );
+
+  // Order barcode
+  const orderModules = zplCode128Width(args.orderNo, 1);
+  const moduleDots = Math.max(
+    BARCODE_MIN_MODULE_DOTS,
+    Math.min(BARCODE_MAX_MODULE_DOTS, Math.floor(BARCODE_MAX_WIDTH / orderModules)),
+  );
+  const barcodeWidth = orderModules * moduleDots;
+  fields.push(
+    zplCode128(args.orderNo, {
+      x: Math.round((LABEL_WIDTH - barcodeWidth) / 2),
+      y: 236,
+      height: 110,
+      moduleDots,
+    }),
+  );
+  fields.push(zplText(args.orderNo, { x: MARGIN, y: 354, width: CONTENT_WIDTH, height: 30, align: 'C' }));
+
+  // Recipient, with the location QR on the left
+  const recipientTop = 400;
+  fields.push(zplBox(MARGIN, recipientTop, CONTENT_WIDTH, 300));
+  const qrValue = meta.mapsLink || args.trackingCode;
+  const qrModuleDots = Math.max(3, Math.floor(QR_MAX_SIZE / zplQrSize(qrValue, 1)));
+  const qrSize = zplQrSize(qrValue, qrModuleDots);
+  fields.push(zplQrCode(qrValue, { x: MARGIN + 16, y: recipientTop + 16, moduleDots: qrModuleDots }));
+  fields.push(
+    zplText(meta.mapsLink ? 'Location' : 'Tracking', {
+      x: MARGIN + 16,
+      y: recipientTop + 24 + qrSize,
+      width: qrSize,
+      height: 20,
+      align: 'C',
+    }),
+  );
+  const recipientX = MARGIN + QR_MAX_SIZE + 40;
+  const recipientWidth = LABEL_WIDTH - MARGIN - 16 - recipientX;
+  const addressLines = args.addressLines.flatMap((line) => wrapValue(line, 30));
+  fields.push(zplText('Recipient', { x: recipientX, y: recipientTop + 14, width: recipientWidth, height: 24, align: 'R' }));
+  fields.push(
+    zplText(clip(args.recipientName, 30), { x: recipientX, y: recipientTop + 48, width: recipientWidth, height: 32, align: 'R' }),
+  );
+  fields.push(
+    zplText(args.recipientPhone || '-', { x: recipientX, y: recipientTop + 90, width: recipientWidth, height: 28, align: 'R' }),
+  );
+  fields.push(
+    zplText(args.city || '—', { x: recipientX, y: recipientTop + 128, width: recipientWidth, height: 28, align: 'R' }),
+  );
+  fields.push(
+    zplText(addressLines.slice(0, 4).join(' ') || '—', {
+      x: recipientX,
+      y: recipientTop + 166,
+      width: recipientWidth,
+      height: 26,
+      align: 'R',
+      lines: 4,
+    }),
+  );
+
+  // Sender
+  const senderTop = 716;
+  fields.push(zplBox(MARGIN, senderTop, CONTENT_WIDTH, 140));
+  fields.push(zplText('Sender', { x: MARGIN + 16, y: senderTop + 12, width: CONTENT_WIDTH - 32, height: 24, align: 'R' }));
+  fields.push(
+    zplText(`${clip(senderName, 30)} | ${senderPhone}`, {
+      x: MARGIN + 16,
+      y: senderTop + 46,
+      width: CONTENT_WIDTH - 32,
+      height: 26,
+      align: 'R',
+    }),
+  );
+  fields.push(
+    zplText(senderAddress, { x: MARGIN + 16, y: senderTop + 82, width: CONTENT_WIDTH - 32, height: 24, align: 'R', lines: 2 }),
+  );
+
+  // Payment
+  const paymentTop = 872;
+  fields.push(zplBox(MARGIN, paymentTop, CONTENT_WIDTH, 172));
+  fields.push(
+    zplText('Payment Details', { x: MARGIN + 16, y: paymentTop + 12, width: CONTENT_WIDTH - 32, height: 24, align: 'R' }),
+  );
+  fields.push(
+    zplText(`Order Total: ${formatAmount(args.orderTotalHalalas)} SAR`, {
+      x: MARGIN + 16,
+      y: paymentTop + 46,
+      width: CONTENT_WIDTH - 32,
+      height: 26,
+    }),
+  );
+  fields.push(
+    zplText(args.paymentMethodLabel, { x: MARGIN + 16, y: paymentTop + 80, width: CONTENT_WIDTH - 32, height: 26 }),
+  );
+  if (args.codAmountHalalas > 0) {
+    fields.push(zplBox(MARGIN + 16, paymentTop + 114, CONTENT_WIDTH - 32, 48, 48));
+    fields.push(
+      zplText(`COD ${formatAmount(args.codAmountHalalas)} SAR`, {
+        x: MARGIN + 16,
+        y: paymentTop + 122,
+        width: CONTENT_WIDTH - 32,
+        height: 36,
+        align: 'C',
+        reverse: true,
+      }),
+    );
+  } else {
+    fields.push(
+      zplText('Cash on Delivery: -', { x: MARGIN + 16, y: paymentTop + 122, width: CONTENT_WIDTH - 32, height: 26 }),
+    );
+  }
+
+  // Customer note
+  const note = args.customerNote?.trim();
+  if (note) {
+    const noteTop = 1060;
+    fields.push(zplBox(MARGIN, noteTop, CONTENT_WIDTH, 104));
+    fields.push(
+      zplText('Customer Notes', { x: MARGIN + 16, y: noteTop + 10, width: CONTENT_WIDTH - 32, height: 22, align: 'R' }),
+    );
+    fields.push(
+      zplText(note, { x: MARGIN + 16, y: noteTop + 40, width: CONTENT_WIDTH - 32, height: 24, align: 'R', lines: 2 }),
+    );
+  }
+
+  // Footer
+  fields.push(zplBox(MARGIN, 1176, CONTENT_WIDTH, 2, 2));
+  fields.push(zplText(clip(footerLabel, 34), { x: MARGIN, y: 1186, width: half, height: 20 }));
+  fields.push(
+    zplText('Thank you for shopping with us', { x: LABEL_WIDTH / 2, y: 1186, width: half, height: 20, align: 'R' }),
+  );
+
+  return zplLabel(fields, { widthDots: LABEL_WIDTH, heightDots: LABEL_HEIGHT });
+}
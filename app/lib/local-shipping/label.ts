@@ -10,7 +10,7 @@ import { ArabicShaper } from 'arabic-persian-reshaper';
 import type { LocalShipmentMeta } from './serializer';
 import { normalizeOrderItems } from './serializer';
 
-type LocalLabelArgs = {
+export type LocalLabelArgs = {
   orderNo: string;
   trackingCode: string;
   recipientName: string;
@@ -428,7 +428,7 @@ type SectionColumn = {
   fields: SectionField[];
 };
 
-function mapShipmentToLabelArgs(shipment: LocalShipment, meta: LocalShipmentMeta): LocalLabelArgs {
+export function mapShipmentToLabelArgs(shipment: LocalShipment, meta: LocalShipmentMeta): LocalLabelArgs {
   const orderTotal = numberFromUnknown(shipment.orderTotal);
   const collectionAmount = shipment.isCOD
     ? numberFromUnknown(meta.collectionAmount) || orderTotal
@@ -521,7 +521,7 @@ function toHalalas(value: number): number {
   return Math.max(0, Math.round(value * 100));
 }
 
-function detectDirection(value?: string | null): TextDirection {
+export function detectDirection(value?: string | null): TextDirection {
   if (!value) {
     return 'rtl';
   }
@@ -569,7 +569,7 @@ function formatRecipientAddressLines(linesSource: string[], maxChars: number): s
   return result.length > 0 ? result : ['—'];
 }
 
-function wrapValue(value: string, maxChars: number): string[] {
+export function wrapValue(value: string, maxChars: number): string[] {
   const cleaned = cleanValue(value);
   if (!cleaned) {
     return [];
@@ -597,15 +597,15 @@ function wrapValue(value: string, maxChars: number): string[] {
   return lines;
 }
 
-function formatAmount(halalas: number): string {
+export function formatAmount(halalas: number): string {
   return (halalas / 100).toFixed(2);
 }
 
-function mmToPt(value: number): number {
+export function mmToPt(value: number): number {
   return (value * 72) / 25.4;
 }
 
-async function loadArabicFont(): Promise<Uint8Array> {
+export async function loadArabicFont(): Promise<Uint8Array> {
   if (!cachedFontData) {
     cachedFontData = (async () => {
       for (const candidate of FONT_CANDIDATE_PATHS) {
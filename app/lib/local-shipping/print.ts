@@ -3,11 +3,15 @@ import { prisma } from '@/lib/prisma';
 import {
   PRINTNODE_DEFAULT_DPI,
   PRINTNODE_LABEL_PAPER_NAME,
+  PRINTNODE_LABEL_PRINTER_ID,
   getLabelPrinterSizing,
   sendPrintJob,
+  sendZplPrintJob,
 } from '@/app/lib/printnode';
 import { log } from '@/app/lib/logger';
+import { getPrinterLabelFormat } from '@/app/lib/printer-profiles';
 import { generateLocalShipmentLabelPdf, getMerchantLabelInfo } from './label';
+import { generateLocalShipmentLabelZpl } from './label-zpl';
 import {
   buildOrderItemsPayload,
   getLocalShipmentLabelUrl,
@@ -165,21 +169,34 @@ export async function printLocalShipmentLabel({
   };
 
   try {
-    const pdfBuffer = await generateLocalShipmentLabelPdf(printableShipment, getMerchantLabelInfo());
-    const printerSizing = getLabelPrinterSizing(printerId);
-
-    const printJobResult = await sendPrintJob({
-      title: `Local Shipment ${shipment.trackingNumber}`,
-      contentType: 'pdf_base64',
-      content: pdfBuffer.toString('base64'),
-      printerId,
-      copies,
-      fitToPage: printerSizing.fitToPage ?? true,
-      paperName: printerSizing.paperSizeMm ? undefined : printerSizing.paperName || PRINTNODE_LABEL_PAPER_NAME,
-      paperSizeMm: printerSizing.paperSizeMm ?? { width: 100, height: 150 },
-      printOptions: printerSizing.printOptions,
-      dpi: PRINTNODE_DEFAULT_DPI,
-    });
+    const title = `Local Shipment ${shipment.trackingNumber}`;
+    const labelFormat = await getPrinterLabelFormat(printerId ?? PRINTNODE_LABEL_PRINTER_ID);
+    let printJobResult: Awaited<ReturnType<typeof sendPrintJob>>;
+
+    if (labelFormat === 'zpl') {
+      printJobResult = await sendZplPrintJob({
+        title,
+        zpl: generateLocalShipmentLabelZpl(printableShipment, getMerchantLabelInfo()),
+        printerId,
+        copies,
+      });
+    } else {
+      const pdfBuffer = await generateLocalShipmentLabelPdf(printableShipment, getMerchantLabelInfo());
+      const printerSizing = getLabelPrinterSizing(printerId);
+
+      printJobResult = await sendPrintJob({
+        title,
+        contentType: 'pdf_base64',
+        content: pdfBuffer.toString('base64'),
+        printerId,
+        copies,
+        fitToPage: printerSizing.fitToPage ?? true,
+        paperName: printerSizing.paperSizeMm ? undefined : printerSizing.paperName || PRINTNODE_LABEL_PAPER_NAME,
+        paperSizeMm: printerSizing.paperSizeMm ?? { width: 100, height: 150 },
+        printOptions: printerSizing.printOptions,
+        dpi: PRINTNODE_DEFAULT_DPI,
+      });
+    }
 
     if (!printJobResult.success) {
       log.error('PrintNode error while sending local shipment label', {
@@ -221,6 +238,7 @@ export async function printLocalShipmentLabel({
       shipmentId: shipment.id,
       orderNumber: shipment.orderNumber,
       jobId: printJobResult.jobId,
+      labelFormat,
       source,
     });
 
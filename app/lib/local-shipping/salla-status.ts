@@ -75,3 +75,11 @@ export function markSallaOrderDelivered(options: MarkOrderStatusOptions) {
 export function markSallaOrderDelivering(options: MarkOrderStatusOptions) {
   return markSallaOrderStatusWithSlug('delivering', options);
 }
+
+export function markSallaOrderRestoring(options: MarkOrderStatusOptions) {
+  return markSallaOrderStatusWithSlug('restoring', options);
+}
+
+export function markSallaOrderRestored(options: MarkOrderStatusOptions) {
+  return markSallaOrderStatusWithSlug('restored', options);
+}
@@ -1,5 +1,11 @@
-import type { ShipmentAddress } from '@/app/lib/smsa-api';
+import type { CarrierAddress } from '@/app/lib/carriers/types';
 import type { SallaOrder } from '@/app/lib/salla-api';
+import {
+  extractShortAddress,
+  normalizeSaudiPostcode,
+  parseShortAddress,
+  resolveSaudiCity,
+} from '@/lib/saudi-address';
 
 const ensureAddressLine = (value: unknown, fallbackLabel: string): string => {
   const fallback = `${fallbackLabel} address`.trim();
@@ -26,7 +32,7 @@ const formatCoordinates = (address: Record<string, any>): string | undefined =>
   return undefined;
 };
 
-export const buildConsigneeAddressFromOrder = (order: SallaOrder): ShipmentAddress => {
+export const buildConsigneeAddressFromOrder = (order: SallaOrder): CarrierAddress => {
   const shippingAddress = (order as any).shipping_address ?? {};
   const pickupAddress = order.shipping?.pickup_address ?? {};
 
@@ -41,39 +47,45 @@ export const buildConsigneeAddressFromOrder = (order: SallaOrder): ShipmentAddre
     order.customer?.city ??
     'Riyadh';
 
+  const line1 = ensureAddressLine(
+    addressSource.address ??
+      addressSource.street_address ??
+      addressSource.address_line1 ??
+      addressSource.address_line_1 ??
+      addressSource.street ??
+      addressSource.description,
+    rawCity,
+  );
+  const rawShortCode = addressSource.shortcode ?? addressSource.short_code ?? addressSource.short_address;
+  const rawPostalCode = addressSource.postal_code ?? addressSource.zip_code;
+
   return {
-    ContactName: `${order.customer?.first_name || ''} ${order.customer?.last_name || ''}`.trim() ||
+    name: `${order.customer?.first_name || ''} ${order.customer?.last_name || ''}`.trim() ||
       order.customer?.name ||
       order.customer?.full_name ||
       'Salla Customer',
-    ContactPhoneNumber: String(
+    phone: String(
       addressSource.phone ??
         addressSource.mobile ??
         (order.customer?.mobile || '0000000000'),
     ).trim(),
-    ContactPhoneNumber2: addressSource.alternate_phone ?? addressSource.phone2 ?? undefined,
-    AddressLine1: ensureAddressLine(
-      addressSource.address ??
-        addressSource.street_address ??
-        addressSource.address_line1 ??
-        addressSource.address_line_1 ??
-        addressSource.street ??
-        addressSource.description,
-      rawCity,
-    ),
-    AddressLine2:
+    phone2: addressSource.alternate_phone ?? addressSource.phone2 ?? undefined,
+    line1,
+    line2:
       addressSource.address_line2 ??
       addressSource.district ??
       addressSource.neighborhood ??
       addressSource.area ??
       undefined,
-    City: rawCity || 'Riyadh',
-    Country: addressSource.country ?? addressSource.country_code ?? 'SA',
-    District: addressSource.district ?? addressSource.area ?? undefined,
-    PostalCode: addressSource.postal_code ?? addressSource.zip_code ?? undefined,
-    ShortCode: addressSource.shortcode ?? addressSource.short_code ?? undefined,
-    Coordinates: formatCoordinates(addressSource),
-  } as ShipmentAddress;
+    // One spelling per city for the carrier, whichever language the customer typed.
+    city: resolveSaudiCity(rawCity)?.nameEn ?? (rawCity || 'Riyadh'),
+    country: addressSource.country ?? addressSource.country_code ?? 'SA',
+    district: addressSource.district ?? addressSource.area ?? undefined,
+    postalCode: normalizeSaudiPostcode(rawPostalCode) ?? rawPostalCode ?? undefined,
+    shortCode: parseShortAddress(rawShortCode) ?? extractShortAddress(line1) ?? rawShortCode ?? undefined,
+    coordinates: formatCoordinates(addressSource),
+    email: order.customer?.email ? String(order.customer.email) : undefined,
+  } as CarrierAddress;
 };
 
 const resolveEnv = (key: string, fallback?: string): string | undefined => {
@@ -85,42 +97,42 @@ const resolveEnv = (key: string, fallback?: string): string | undefined => {
 };
 
 export const buildMerchantShipperAddress = (
-  overrides?: Partial<ShipmentAddress> | null,
-): ShipmentAddress => {
+  overrides?: Partial<CarrierAddress> | null,
+): CarrierAddress => {
   const contactName =
-    overrides?.ContactName ||
+    overrides?.name ||
     resolveEnv('SMSA_MERCHANT_NAME') ||
     resolveEnv('NEXT_PUBLIC_MERCHANT_NAME') ||
     'Warehouse';
   const contactPhone =
-    overrides?.ContactPhoneNumber ||
+    overrides?.phone ||
     resolveEnv('SMSA_MERCHANT_PHONE') ||
     resolveEnv('NEXT_PUBLIC_MERCHANT_PHONE') ||
     '0500000000';
   const city =
-    overrides?.City ||
+    overrides?.city ||
     resolveEnv('SMSA_MERCHANT_CITY') ||
     resolveEnv('NEXT_PUBLIC_MERCHANT_CITY') ||
     'Riyadh';
   const addressLine1 =
-    overrides?.AddressLine1 ||
+    overrides?.line1 ||
     resolveEnv('SMSA_MERCHANT_ADDRESS') ||
     resolveEnv('NEXT_PUBLIC_MERCHANT_ADDRESS') ||
     `${city} warehouse`;
 
   return {
-    ContactName: contactName,
-    ContactPhoneNumber: contactPhone,
-    AddressLine1: ensureAddressLine(addressLine1, city),
-    AddressLine2: overrides?.AddressLine2 || city,
-    City: city,
-    Country:
-      overrides?.Country ||
+    name: contactName,
+    phone: contactPhone,
+    line1: ensureAddressLine(addressLine1, city),
+    line2: overrides?.line2 || city,
+    city,
+    country:
+      overrides?.country ||
       resolveEnv('SMSA_MERCHANT_COUNTRY') ||
       'SA',
-    District: overrides?.District || resolveEnv('SMSA_MERCHANT_DISTRICT'),
-    PostalCode: overrides?.PostalCode || resolveEnv('SMSA_MERCHANT_POSTAL_CODE'),
-    Coordinates: overrides?.Coordinates || resolveEnv('SMSA_MERCHANT_COORDINATES'),
-    ShortCode: overrides?.ShortCode || resolveEnv('SMSA_MERCHANT_SHORT_CODE'),
+    district: overrides?.district || resolveEnv('SMSA_MERCHANT_DISTRICT'),
+    postalCode: overrides?.postalCode || resolveEnv('SMSA_MERCHANT_POSTAL_CODE'),
+    coordinates: overrides?.coordinates || resolveEnv('SMSA_MERCHANT_COORDINATES'),
+    shortCode: overrides?.shortCode || resolveEnv('SMSA_MERCHANT_SHORT_CODE'),
   };
 };
@@ -1,7 +1,8 @@
-import { Prisma, type ManualSmsaShipment } from '@prisma/client';
-import type { ManualSmsaShipmentRecord, ManualSmsaShipmentItem } from './types';
+import { Prisma, type ManualShipment } from '@prisma/client';
+import { resolveCarrierCode } from '@/app/lib/carriers';
+import type { ManualShipmentRecord, ManualShipmentItem } from './types';
 
-const isManualShipmentItem = (candidate: unknown): candidate is ManualSmsaShipmentItem => {
+const isManualShipmentItem = (candidate: unknown): candidate is ManualShipmentItem => {
   if (!candidate || typeof candidate !== 'object') {
     return false;
   }
@@ -15,8 +16,8 @@ const isManualShipmentItem = (candidate: unknown): candidate is ManualSmsaShipme
   return true;
 };
 
-const collectManualShipmentItems = (items: unknown[]): ManualSmsaShipmentItem[] => {
-  const normalized: ManualSmsaShipmentItem[] = [];
+const collectManualShipmentItems = (items: unknown[]): ManualShipmentItem[] => {
+  const normalized: ManualShipmentItem[] = [];
   for (const item of items) {
     if (isManualShipmentItem(item)) {
       normalized.push(item);
@@ -44,7 +45,7 @@ const decimalToNumber = (
 
 export const parseManualShipmentItems = (
   value: Prisma.JsonValue | null,
-): ManualSmsaShipmentItem[] => {
+): ManualShipmentItem[] => {
   if (!value || typeof value !== 'object') {
     return [];
   }
@@ -60,9 +61,9 @@ export const parseManualShipmentItems = (
   return [];
 };
 
-export const serializeManualSmsaShipment = (
-  shipment: ManualSmsaShipment,
-): ManualSmsaShipmentRecord => {
+export const serializeManualShipment = (
+  shipment: ManualShipment,
+): ManualShipmentRecord => {
   return {
     id: shipment.id,
     merchantId: shipment.merchantId,
@@ -76,9 +77,10 @@ export const serializeManualSmsaShipment = (
     weightUnit: shipment.weightUnit,
     contentDescription: shipment.contentDescription || null,
     codAmount: decimalToNumber(shipment.codAmount),
-    smsaAwbNumber: shipment.smsaAwbNumber,
-    smsaTrackingNumber: shipment.smsaTrackingNumber,
-    smsaLabelDataUrl: shipment.smsaLabelDataUrl,
+    carrier: resolveCarrierCode(shipment.carrier),
+    carrierReference: shipment.carrierReference,
+    trackingNumber: shipment.trackingNumber,
+    labelDataUrl: shipment.labelDataUrl,
     customerName: shipment.customerName,
     customerPhone: shipment.customerPhone,
     customerEmail: shipment.customerEmail,
@@ -1,4 +1,6 @@
-export interface ManualSmsaShipmentItemInput {
+import type { CarrierCode } from '@/app/lib/carriers/types';
+
+export interface ManualShipmentItemInput {
   id?: string | number | null;
   productId?: string | number | null;
   variantId?: string | number | null;
@@ -11,14 +13,15 @@ export interface ManualSmsaShipmentItemInput {
   notes?: string | null;
 }
 
-export interface ManualSmsaShipmentItem extends ManualSmsaShipmentItemInput {
+export interface ManualShipmentItem extends ManualShipmentItemInput {
   total?: number | string | null;
 }
 
-export interface ManualSmsaShipmentPayload {
+export interface ManualShipmentPayload {
   merchantId?: string | null;
+  carrier?: string | null;
   orderNumber: string;
-  items: ManualSmsaShipmentItemInput[];
+  items: ManualShipmentItemInput[];
   declaredValue?: number | string | null;
   parcels?: number | string | null;
   weight?: number | string | null;
@@ -27,7 +30,7 @@ export interface ManualSmsaShipmentPayload {
   contentDescription?: string | null;
 }
 
-export interface ManualSmsaShipmentRecord {
+export interface ManualShipmentRecord {
   id: string;
   merchantId: string;
   orderId: string | null;
@@ -40,9 +43,10 @@ export interface ManualSmsaShipmentRecord {
   weightUnit: string | null;
   contentDescription: string | null;
   codAmount: number | null;
-  smsaAwbNumber?: string | null;
-  smsaTrackingNumber?: string | null;
-  smsaLabelDataUrl?: string | null;
+  carrier: CarrierCode;
+  carrierReference?: string | null;
+  trackingNumber?: string | null;
+  labelDataUrl?: string | null;
   customerName: string;
   customerPhone: string;
   customerEmail: string | null;
@@ -53,7 +57,7 @@ export interface ManualSmsaShipmentRecord {
   district?: string | null;
   postalCode?: string | null;
   shortCode?: string | null;
-  shipmentItems: ManualSmsaShipmentItem[];
+  shipmentItems: ManualShipmentItem[];
   createdAt: string;
   updatedAt: string;
   cancelledAt?: string | null;
@@ -0,0 +1,99 @@
+/**
+ * SMS fallback policy for customer messages that go out over Zoko WhatsApp.
+ * Each message type has its own rule in settings: never fall back, fall back
+ * only when WhatsApp rejects the message, or also when WhatsApp has not
+ * confirmed delivery within a number of minutes.
+ */
+
+export type MessageChannel = 'whatsapp' | 'sms';
+
+export const MESSAGE_CHANNEL_LABELS: Record<MessageChannel, string> = {
+  whatsapp: 'واتساب',
+  sms: 'SMS',
+};
+
+export const FALLBACK_MESSAGE_TYPES = [
+  'delivery_otp',
+  'order_received',
+  'shipped',
+  'product_rating',
+  'cancelled',
+  'refunded',
+  'partial_shipment',
+  'address_confirmation',
+  'delivery_reschedule',
+] as const;
+
+export type FallbackMessageType = (typeof FALLBACK_MESSAGE_TYPES)[number];
+
+export const FALLBACK_MESSAGE_TYPE_LABELS: Record<FallbackMessageType, string> = {
+  delivery_otp: 'رمز التسليم للمندوب',
+  order_received: 'استلام الطلب والفاتورة',
+  shipped: 'الشحن والتتبع',
+  product_rating: 'التسليم والتقييم',
+  cancelled: 'إلغاء الطلب',
+  refunded: 'الاسترداد',
+  partial_shipment: 'الشحن الجزئي',
+  address_confirmation: 'تأكيد العنوان',
+  delivery_reschedule: 'إعادة جدولة التوصيل',
+};
+
+// A messenger waits at the door for the OTP, so it falls back fastest.
+// Rating requests are optional and never worth an SMS by default.
+export const DEFAULT_SMS_FALLBACK_SETTINGS: Record<FallbackMessageType, string> = {
+  delivery_otp: '2',
+  order_received: 'failed',
+  shipped: 'failed',
+  product_rating: 'off',
+  cancelled: 'failed',
+  refunded: 'failed',
+  partial_shipment: 'failed',
+  address_confirmation: '60',
+  delivery_reschedule: '30',
+};
+
+export type SmsFallbackSettingKey = `sms_fallback_${FallbackMessageType}`;
+
+export function smsFallbackSettingKey(type: FallbackMessageType): SmsFallbackSettingKey {
+  return `sms_fallback_${type}`;
+}
+
+export function isFallbackMessageType(value: string): value is FallbackMessageType {
+  return (FALLBACK_MESSAGE_TYPES as readonly string[]).includes(value);
+}
+
+export type SmsFallbackRule = {
+  enabled: boolean;
+  /** Also fall back when WhatsApp has not confirmed delivery after this long. */
+  undeliveredMinutes: number | null;
+};
+
+const MAX_UNDELIVERED_MINUTES = 7 * 24 * 60;
+
+/**
+ * Setting values: `off`, `failed` (fall back on rejection only), or a number
+ * of minutes (fall back on rejection or when still undelivered by then).
+ * Anything unreadable means off, so a typo never sends unexpected SMS.
+ */
+export function parseSmsFallbackRule(value: string | null | undefined): SmsFallbackRule {
+  const normalized = (value ?? '').trim().toLowerCase();
+  if (normalized === 'failed') return { enabled: true, undeliveredMinutes: null };
+  if (/^\d+$/.test(normalized)) {
+    const minutes = Number.parseInt(normalized, 10);
+    if (minutes > 0) {
+      return { enabled: true, undeliveredMinutes: Math.min(minutes, MAX_UNDELIVERED_MINUTES) };
+    }
+  }
+  return { enabled: false, undeliveredMinutes: null };
+}
+
+export function formatSmsFallbackRule(rule: SmsFallbackRule): string {
+  if (!rule.enabled) return 'off';
+  return rule.undeliveredMinutes ? String(rule.undeliveredMinutes) : 'failed';
+}
+
+/** When an accepted WhatsApp message should be resent by SMS if still undelivered. */
+export function undeliveredFallbackDueAt(rule: SmsFallbackRule, acceptedAt: Date): Date | null {
+  if (!rule.enabled || !rule.undeliveredMinutes) return null;
+  return new Date(acceptedAt.getTime() + rule.undeliveredMinutes * 60_000);
+}
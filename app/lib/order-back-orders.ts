@@ -0,0 +1,371 @@
+import { Prisma, type OrderBackOrder } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+import { extractPrepLineItems, normalizePrepSku } from '@/app/lib/order-prep-items';
+import { checkPrepScanVerification } from '@/app/lib/order-prep-scan-verification';
+import {
+  BACK_ORDER_ASSIGNMENT_STATUS,
+  releaseBackOrderAssignment,
+  updateAssignmentStatus,
+  type SerializedOrderPrepAssignment,
+} from '@/app/lib/order-prep-service';
+import {
+  OrderSplitError,
+  buildBackOrderOrderData,
+  parseSplitLines,
+  planOrderSplit,
+  type SplitLine,
+} from '@/app/lib/order-prep-split';
+import { assertPrepLeaseWritable } from '@/app/lib/order-prep-status-guard';
+import { createSallaOrderHistoryEntry } from '@/app/lib/salla-order-status';
+import { enqueuePartialShipmentNotification } from '@/app/lib/customer-journey-notifications';
+
+const MERCHANT_ID = process.env.NEXT_PUBLIC_MERCHANT_ID || '1696031053';
+const ACTIVE_ASSIGNMENT_STATUSES = new Set(['assigned', 'preparing', 'waiting']);
+const OPEN_BACK_ORDER_STATUSES = ['waiting_stock', 'preparing', 'ready'];
+const SHORT_ITEM_STATUSES = new Set(['unavailable', 'comingSoon']);
+
+export type SerializedOrderBackOrder = Omit<
+  OrderBackOrder,
+  'lines' | 'releasedAt' | 'readyAt' | 'shippedAt' | 'cancelledAt' | 'createdAt' | 'updatedAt'
+> & {
+  lines: SplitLine[];
+  releasedAt: string | null;
+  readyAt: string | null;
+  shippedAt: string | null;
+  cancelledAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  assignmentId: string | null;
+  assignmentStatus: string | null;
+  assignmentUserName: string | null;
+};
+
+type BackOrderWithAssignment = Prisma.OrderBackOrderGetPayload<{ include: { assignment: true } }>;
+
+const iso = (value: Date | null) => (value ? value.toISOString() : null);
+
+export function serializeBackOrder(record: BackOrderWithAssignment): SerializedOrderBackOrder {
+  const { assignment, ...rest } = record;
+  return {
+    ...rest,
+    lines: parseSplitLines(record.lines),
+    releasedAt: iso(record.releasedAt),
+    readyAt: iso(record.readyAt),
+    shippedAt: iso(record.shippedAt),
+    cancelledAt: iso(record.cancelledAt),
+    createdAt: record.createdAt.toISOString(),
+    updatedAt: record.updatedAt.toISOString(),
+    assignmentId: assignment?.id ?? null,
+    assignmentStatus: assignment?.status ?? null,
+    assignmentUserName: assignment?.userName ?? null,
+  };
+}
+
+export type OrderSplitResult = {
+  assignment: SerializedOrderPrepAssignment;
+  backOrder: SerializedOrderBackOrder;
+  sallaStatusSynced: boolean;
+};
+
+/**
+ * Splits the preparer's order: the ready lines complete now and go on to
+ * shipping, the short lines become a back-order with its own parked prep
+ * assignment. The restock watcher (or an admin) releases it once stock is back.
+ */
+export async function splitOrderPrepAssignment(options: {
+  assignmentId: string;
+  user: { id: string; name: string };
+  itemStatuses: Array<{ index?: number | null; status?: string | null }>;
+  leaseHolder?: string | null;
+}): Promise<OrderSplitResult> {
+  const { assignmentId, user, itemStatuses, leaseHolder } = options;
+
+  const assignment = await prisma.orderPrepAssignment.findUnique({ where: { id: assignmentId } });
+  if (!assignment || assignment.userId !== user.id) {
+    throw new OrderSplitError('لم يتم العثور على الطلب أو لا تملك إذن تحديثه', 404);
+  }
+  if (!ACTIVE_ASSIGNMENT_STATUSES.has(assignment.status)) {
+    throw new OrderSplitError('لا يمكن تقسيم طلب غير نشط', 409);
+  }
+  if (assignment.backOrderId) {
+    throw new OrderSplitError('هذا الطلب شحنة مؤجلة بالفعل ولا يمكن تقسيمه مرة أخرى', 409);
+  }
+  assertPrepLeaseWritable(assignment, leaseHolder);
+
+  const lines = extractPrepLineItems(assignment.orderData);
+  const statusByIndex = new Map(
+    itemStatuses
+      .filter((entry) => typeof entry?.index === 'number' && entry.status)
+      .map((entry) => [entry.index as number, entry.status as string]),
+  );
+  if (lines.some((line) => !statusByIndex.has(line.index))) {
+    throw new OrderSplitError('يرجى تحديد حالة كل منتج قبل تقسيم الطلب');
+  }
+  const plan = planOrderSplit(
+    lines,
+    lines.filter((line) => SHORT_ITEM_STATUSES.has(statusByIndex.get(line.index)!)).map((line) => line.index),
+  );
+
+  // Fail before creating anything when the shipped lines are not fully scanned.
+  const backOrderLineIndexes = plan.backOrder.map((line) => line.lineIndex);
+  const verification = await checkPrepScanVerification(assignment, {
+    heldLineIndexes: backOrderLineIndexes,
+  });
+  if (!verification.passed) {
+    throw new OrderSplitError(
+      `لم يتم مسح جميع القطع المتوفرة بعد (المتبقي ${verification.progress?.remainingUnits ?? 0}).`,
+      409,
+    );
+  }
+
+  const previous = await prisma.orderBackOrder.aggregate({
+    where: { merchantId: assignment.merchantId, orderId: assignment.orderId },
+    _max: { sequence: true },
+  });
+  const sequence = (previous._max.sequence ?? 0) + 1;
+
+  const backOrder = await prisma.$transaction(async (tx) => {
+    const created = await tx.orderBackOrder.create({
+      data: {
+        merchantId: assignment.merchantId,
+        orderId: assignment.orderId,
+        orderNumber: assignment.orderNumber,
+        sequence,
+        lines: plan.backOrder as unknown as Prisma.InputJsonValue,
+        createdById: user.id,
+        createdByName: user.name,
+      },
+    });
+
+    await tx.orderPrepAssignment.create({
+      data: {
+        merchantId: assignment.merchantId,
+        userId: user.id,
+        userName: user.name,
+        orderId: assignment.orderId,
+        orderNumber: assignment.orderNumber,
+        orderReference: assignment.orderReference,
+        status: BACK_ORDER_ASSIGNMENT_STATUS,
+        splitSequence: sequence,
+        backOrderId: created.id,
+        orderData: buildBackOrderOrderData(assignment.orderData, {
+          id: created.id,
+          sequence,
+          lineIndexes: backOrderLineIndexes,
+        }) as Prisma.InputJsonValue,
+      },
+    });
+
+    // Every held line gets a shortage record so the restock watcher tracks it,
+    // including lines the preparer only marked as coming soon.
+    for (const line of plan.backOrder) {
+      const normalizedSku = normalizePrepSku(line.sku);
+      if (!normalizedSku) continue;
+      await tx.orderPrepUnavailableItem.upsert({
+        where: {
+          merchantId_orderId_normalizedSku: {
+            merchantId: assignment.merchantId,
+            orderId: assignment.orderId,
+            normalizedSku,
+          },
+        },
+        update: { resolvedAt: null, resolvedById: null, resolvedByName: null },
+        create: {
+          merchantId: assignment.merchantId,
+          orderId: assignment.orderId,
+          orderNumber: assignment.orderNumber,
+          sku: line.sku || normalizedSku,
+          normalizedSku,
+          itemName: line.name,
+          reportedById: user.id,
+          reportedByName: user.name,
+        },
+      });
+    }
+
+    const orderData = (assignment.orderData ?? {}) as Record<string, unknown>;
+    await tx.orderPrepAssignment.update({
+      where: { id: assignment.id },
+      data: {
+        orderData: {
+          ...orderData,
+          prepSplit: {
+            splitAt: new Date().toISOString(),
+            backOrderIds: [
+              ...(((orderData.prepSplit as { backOrderIds?: string[] } | undefined)?.backOrderIds) ?? []),
+              created.id,
+            ],
+            heldLineIndexes: backOrderLineIndexes,
+          },
+        } as Prisma.InputJsonValue,
+      },
+    });
+
+    return tx.orderBackOrder.findUniqueOrThrow({ where: { id: created.id }, include: { assignment: true } });
+  });
+
+  // Salla refused the status change or another device got there first: undo
+  // the split so the preparer can retry.
+  const undoSplit = () =>
+    prisma.$transaction([
+      prisma.orderPrepAssignment.deleteMany({ where: { backOrderId: backOrder.id } }),
+      prisma.orderBackOrder.delete({ where: { id: backOrder.id } }),
+      prisma.orderPrepAssignment.update({
+        where: { id: assignment.id },
+        data: { orderData: assignment.orderData as Prisma.InputJsonValue },
+      }),
+    ]);
+
+  let completion: Awaited<ReturnType<typeof updateAssignmentStatus>>;
+  try {
+    completion = await updateAssignmentStatus({
+      assignmentId: assignment.id,
+      userId: user.id,
+      targetStatus: 'completed',
+      itemStatuses,
+      leaseHolder,
+      heldLineIndexes: backOrderLineIndexes,
+    });
+  } catch (error) {
+    await undoSplit();
+    throw error;
+  }
+  if (!completion || completion.blocked) {
+    await undoSplit();
+    throw new OrderSplitError(
+      completion?.verificationError || completion?.sallaError || 'تعذر تحديث حالة الطلب في سلة',
+      502,
+    );
+  }
+
+  const heldNames = plan.backOrder.map((line) => line.name || line.sku || `#${line.lineIndex + 1}`);
+  const history = await createSallaOrderHistoryEntry(
+    assignment.merchantId,
+    assignment.orderId,
+    `تم شحن الطلب جزئياً بواسطة ${user.name}. المنتجات المؤجلة (شحنة ${sequence}): ${heldNames.join('، ')}`,
+  );
+  if (!history.success) {
+    log.warn('Failed to record order split in Salla order history', {
+      orderId: assignment.orderId,
+      error: history.error,
+    });
+  }
+
+  try {
+    await enqueuePartialShipmentNotification({
+      merchantId: assignment.merchantId,
+      orderId: assignment.orderId,
+      order: (assignment.orderData ?? {}) as Record<string, any>,
+      backOrderSequence: sequence,
+      backOrderItems: heldNames,
+    });
+  } catch (error) {
+    log.error('Failed to queue partial shipment notification', {
+      orderId: assignment.orderId,
+      backOrderId: backOrder.id,
+      error: error instanceof Error ? error.message : 'UNKNOWN_ERROR',
+    });
+  }
+
+  log.info('Split order prep assignment into a back-order', {
+    assignmentId: assignment.id,
+    orderId: assignment.orderId,
+    backOrderId: backOrder.id,
+    sequence,
+    heldLines: backOrderLineIndexes,
+  });
+
+  return {
+    assignment: completion.assignment,
+    backOrder: serializeBackOrder(backOrder),
+    sallaStatusSynced: completion.sallaStatusSynced,
+  };
+}
+
+export async function listBackOrders(options: { orderId?: string | null; includeClosed?: boolean } = {}) {
+  const records = await prisma.orderBackOrder.findMany({
+    where: {
+      merchantId: MERCHANT_ID,
+      ...(options.orderId ? { orderId: options.orderId } : {}),
+      ...(options.includeClosed ? {} : { status: { in: OPEN_BACK_ORDER_STATUSES } }),
+    },
+    include: { assignment: true },
+    orderBy: [{ createdAt: 'asc' }],
+  });
+  return records.map(serializeBackOrder);
+}
+
+/** Admin override: start a back-order now, e.g. when stock arrived outside Salla. */
+export async function releaseBackOrder(options: {
+  backOrderId: string;
+  userId?: string | null;
+  actorName: string;
+}): Promise<SerializedOrderPrepAssignment> {
+  const backOrder = await prisma.orderBackOrder.findUnique({
+    where: { id: options.backOrderId },
+    include: { assignment: true },
+  });
+  if (!backOrder || backOrder.merchantId !== MERCHANT_ID) {
+    throw new OrderSplitError('الشحنة المؤجلة غير موجودة', 404);
+  }
+  if (!backOrder.assignment || backOrder.assignment.status !== BACK_ORDER_ASSIGNMENT_STATUS) {
+    throw new OrderSplitError('تم بدء تجهيز هذه الشحنة بالفعل', 409);
+  }
+
+  const user = await prisma.orderUser.findUnique({
+    where: { id: options.userId || backOrder.assignment.userId },
+    select: { id: true, name: true, isActive: true },
+  });
+  if (!user?.isActive) {
+    throw new OrderSplitError('المستخدم المحدد غير موجود أو غير نشط');
+  }
+
+  const released = await releaseBackOrderAssignment({
+    assignmentId: backOrder.assignment.id,
+    user,
+    actorName: options.actorName,
+  });
+  if (!released) {
+    throw new OrderSplitError('تم بدء تجهيز هذه الشحنة بالفعل', 409);
+  }
+  return released;
+}
+
+/** Drops a back-order the customer no longer wants (refunded or cancelled lines). */
+export async function cancelBackOrder(options: { backOrderId: string; actorName: string }) {
+  const backOrder = await prisma.orderBackOrder.findUnique({
+    where: { id: options.backOrderId },
+    include: { assignment: true },
+  });
+  if (!backOrder || backOrder.merchantId !== MERCHANT_ID) {
+    throw new OrderSplitError('الشحنة المؤجلة غير موجودة', 404);
+  }
+  if (backOrder.status === 'shipped' || backOrder.status === 'cancelled') {
+    throw new OrderSplitError('لا يمكن إلغاء شحنة مؤجلة تم إغلاقها', 409);
+  }
+
+  const now = new Date();
+  const [updated] = await prisma.$transaction([
+    prisma.orderBackOrder.update({
+      where: { id: backOrder.id },
+      data: { status: 'cancelled', cancelledAt: now },
+      include: { assignment: true },
+    }),
+    ...(backOrder.assignment
+      ? [
+          prisma.orderPrepAssignment.update({
+            where: { id: backOrder.assignment.id },
+            data: { status: 'cancelled', cancelledAt: now },
+          }),
+        ]
+      : []),
+  ]);
+
+  log.info('Cancelled order back-order', {
+    backOrderId: backOrder.id,
+    orderId: backOrder.orderId,
+    actorName: options.actorName,
+  });
+  return serializeBackOrder(updated);
+}
@@ -0,0 +1,532 @@
+import fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import type { PDFFont, PDFImage, PDFPage } from 'pdf-lib';
+import { ArabicShaper } from 'arabic-persian-reshaper';
+
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+import {
+  PRINTNODE_DEFAULT_DPI,
+  PRINTNODE_LABEL_PAPER_NAME,
+  PRINTNODE_LABEL_PRINTER_ID,
+  getLabelPrinterSizing,
+  sendPrintJob,
+} from '@/app/lib/printnode';
+import { encodeQr } from '@/app/lib/qr';
+import { fetchImage } from '@/app/lib/salla-invoice-pdf';
+import {
+  detectDirection,
+  getMerchantLabelInfo,
+  loadArabicFont,
+  mmToPt,
+  wrapValue,
+  type MerchantLabelInfo,
+} from '@/app/lib/local-shipping/label';
+import {
+  buildPackingSlipDocument,
+  buildPickListDocument,
+  type OrderPrepDocumentType,
+  type PackingSlipDocument,
+  type PickListDocument,
+} from '@/app/lib/order-prep-documents';
+
+// Same 4x6 stock and palette as the local shipping label, so both documents
+// go through the preparer's label printer without a paper change.
+const PAGE_WIDTH = mmToPt(101.6);
+const PAGE_HEIGHT = mmToPt(152.4);
+const PAGE_PADDING = 18;
+const CONTENT_LEFT = PAGE_PADDING;
+const CONTENT_RIGHT = PAGE_WIDTH - PAGE_PADDING;
+const CONTENT_WIDTH = CONTENT_RIGHT - CONTENT_LEFT;
+const FOOTER_TOP = 44;
+const SUMMARY_LABEL_OFFSET = 90;
+
+const textColor = rgb(0.13, 0.15, 0.2);
+const subtleText = rgb(0.46, 0.48, 0.55);
+const accentColor = rgb(0.82, 0.19, 0.32);
+const borderColor = rgb(0.88, 0.9, 0.94);
+const headerBg = rgb(1, 0.97, 0.98);
+const sectionBg = rgb(0.98, 0.99, 1);
+const noteBg = rgb(1, 0.98, 0.94);
+
+type TextDirection = 'rtl' | 'ltr';
+
+type DocumentContext = {
+  pdfDoc: PDFDocument;
+  arabicFont: PDFFont;
+  latinFont: PDFFont;
+  page: PDFPage;
+  cursorY: number;
+  pageNumber: number;
+};
+
+async function createDocument(): Promise<DocumentContext> {
+  const arabicFontData = await loadArabicFont();
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.registerFontkit(fontkit);
+  const [arabicFont, latinFont] = await Promise.all([
+    pdfDoc.embedFont(arabicFontData, { subset: true }),
+    pdfDoc.embedFont(StandardFonts.Helvetica),
+  ]);
+  return {
+    pdfDoc,
+    arabicFont,
+    latinFont,
+    page: pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]),
+    cursorY: PAGE_HEIGHT - PAGE_PADDING / 2,
+    pageNumber: 1,
+  };
+}
+
+function drawDirectionalValue(
+  ctx: DocumentContext,
+  value: string,
+  x: number,
+  y: number,
+  fontSize: number,
+  color = textColor,
+  align: 'left' | 'right' = 'right',
+  direction?: TextDirection,
+) {
+  let resolvedDirection = direction ?? detectDirection(value);
+  if (resolvedDirection === 'ltr' && /[\u0600-\u06FF]/.test(value)) {
+    resolvedDirection = 'rtl';
+  }
+  const shaped = resolvedDirection === 'rtl' ? ArabicShaper.convertArabic(value) : value;
+  const font = resolvedDirection === 'rtl' ? ctx.arabicFont : ctx.latinFont;
+  const width = font.widthOfTextAtSize(shaped, fontSize);
+  ctx.page.drawText(shaped, {
+    x: align === 'right' ? x - width : x,
+    y,
+    font,
+    size: fontSize,
+    color,
+  });
+}
+
+/** English title on the left, Arabic on the right, order number underneath. */
+function drawHeader(
+  ctx: DocumentContext,
+  titles: { en: string; ar: string },
+  orderNumber: string,
+  subtitle: string | null,
+) {
+  const headerHeight = ctx.pageNumber === 1 ? 56 : 34;
+  const headerTop = PAGE_HEIGHT - PAGE_PADDING / 2;
+  const headerBottom = headerTop - headerHeight;
+  ctx.page.drawRectangle({
+    x: PAGE_PADDING / 2,
+    y: headerBottom,
+    width: PAGE_WIDTH - PAGE_PADDING,
+    height: headerHeight,
+    color: headerBg,
+    borderColor,
+    borderWidth: 1,
+  });
+
+  drawDirectionalValue(ctx, titles.en, CONTENT_LEFT, headerTop - 20, 12, accentColor, 'left', 'ltr');
+  drawDirectionalValue(ctx, titles.ar, CONTENT_RIGHT, headerTop - 21, 12, accentColor, 'right', 'rtl');
+  const orderLabel = ctx.pageNumber === 1 ? `Order #${orderNumber}` : `Order #${orderNumber} (${ctx.pageNumber})`;
+  drawDirectionalValue(ctx, orderLabel, CONTENT_LEFT, headerTop - 32, 9, textColor, 'left', 'ltr');
+  if (ctx.pageNumber === 1 && subtitle) {
+    drawDirectionalValue(ctx, subtitle, CONTENT_RIGHT, headerTop - 46, 8.5, subtleText, 'right');
+  }
+  ctx.cursorY = headerBottom - 12;
+}
+
+function drawFooter(ctx: DocumentContext, label: string) {
+  const footerY = 30;
+  ctx.page.drawLine({
+    start: { x: PAGE_PADDING, y: footerY + 10 },
+    end: { x: PAGE_WIDTH - PAGE_PADDING, y: footerY + 10 },
+    color: borderColor,
+    thickness: 0.8,
+  });
+  drawDirectionalValue(ctx, label, PAGE_PADDING, footerY - 4, 8, subtleText, 'left', 'ltr');
+  drawDirectionalValue(ctx, `${ctx.pageNumber}`, PAGE_WIDTH - PAGE_PADDING, footerY - 4, 8, subtleText, 'right', 'ltr');
+}
+
+/** Starts a new page when `height` no longer fits above the footer. */
+function ensureSpace(
+  ctx: DocumentContext,
+  height: number,
+  redraw: { titles: { en: string; ar: string }; orderNumber: string; footer: string },
+) {
+  if (ctx.cursorY - height >= FOOTER_TOP) return;
+  drawFooter(ctx, redraw.footer);
+  ctx.page = ctx.pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  ctx.pageNumber += 1;
+  drawHeader(ctx, redraw.titles, redraw.orderNumber, null);
+}
+
+function drawCheckbox(ctx: DocumentContext, x: number, y: number, size: number) {
+  ctx.page.drawRectangle({ x, y, width: size, height: size, borderColor: textColor, borderWidth: 0.9 });
+}
+
+function drawQrCode(ctx: DocumentContext, value: string, x: number, y: number, size: number) {
+  const matrix = encodeQr(value, 'MEDIUM');
+  // Four-module quiet zone on every side, as the QR spec requires.
+  const moduleSize = size / (matrix.length + 8);
+  ctx.page.drawRectangle({ x, y, width: size, height: size, color: rgb(1, 1, 1) });
+  matrix.forEach((row, rowIndex) => {
+    row.forEach((dark, columnIndex) => {
+      if (!dark) return;
+      ctx.page.drawRectangle({
+        x: x + (columnIndex + 4) * moduleSize,
+        y: y + size - (rowIndex + 5) * moduleSize,
+        width: moduleSize,
+        height: moduleSize,
+        color: rgb(0, 0, 0),
+      });
+    });
+  });
+}
+
+async function loadImages(pdfDoc: PDFDocument, urls: Array<string | null>) {
+  const unique = Array.from(new Set(urls.filter((url): url is string => Boolean(url))));
+  const entries = await Promise.all(
+    unique.map(async (url) => [url, await fetchImage(pdfDoc, url)] as const),
+  );
+  return new Map<string, PDFImage | null>(entries);
+}
+
+function formatMoney(value: number, currency: string): string {
+  const rounded = Math.round(value * 100) / 100;
+  return `${Number.isInteger(rounded) ? rounded : rounded.toFixed(2)} ${currency}`;
+}
+
+export async function generatePickListPdf(document: PickListDocument): Promise<Buffer> {
+  const ctx = await createDocument();
+  const titles = { en: 'Pick List', ar: 'قائمة الالتقاط' };
+  const footer = `${document.totalUnits} units`;
+  const redraw = { titles, orderNumber: document.orderNumber, footer };
+  const subtitleParts = [
+    document.preparerName ? `المجهز: ${document.preparerName}` : null,
+    document.toteNumber ? `سلة ${document.toteNumber}` : null,
+    document.backOrderSequence ? `شحنة مؤجلة ${document.backOrderSequence}` : null,
+    `${document.totalUnits} قطعة`,
+  ].filter(Boolean);
+  drawHeader(ctx, titles, document.orderNumber, subtitleParts.join(' · '));
+
+  const images = await loadImages(
+    ctx.pdfDoc,
+    document.locations.flatMap((location) => location.items.map((item) => item.image)),
+  );
+  const imageSize = 30;
+  const checkboxSize = 11;
+
+  for (const location of document.locations) {
+    ensureSpace(ctx, 20 + imageSize + 8, redraw);
+    const barHeight = 16;
+    ctx.page.drawRectangle({
+      x: CONTENT_LEFT,
+      y: ctx.cursorY - barHeight,
+      width: CONTENT_WIDTH,
+      height: barHeight,
+      color: sectionBg,
+      borderColor,
+      borderWidth: 1,
+    });
+    drawDirectionalValue(
+      ctx,
+      location.location ? `Bin ${location.location}` : 'No bin',
+      CONTENT_LEFT + 6,
+      ctx.cursorY - 11.5,
+      9,
+      accentColor,
+      'left',
+      'ltr',
+    );
+    drawDirectionalValue(
+      ctx,
+      location.location ? 'الموقع' : 'بدون موقع مسجل',
+      CONTENT_RIGHT - 6,
+      ctx.cursorY - 12,
+      8.5,
+      subtleText,
+      'right',
+      'rtl',
+    );
+    ctx.cursorY -= barHeight + 6;
+
+    for (const item of location.items) {
+      const nameLines = wrapValue(item.name || item.sku || '—', 30).slice(0, 2);
+      const rowHeight = Math.max(imageSize, 12 + nameLines.length * 11 + (item.locationNotes ? 10 : 0));
+      ensureSpace(ctx, rowHeight + 8, redraw);
+      const rowTop = ctx.cursorY;
+      const rowBottom = rowTop - rowHeight;
+
+      drawCheckbox(ctx, CONTENT_LEFT, rowTop - checkboxSize - 2, checkboxSize);
+      drawDirectionalValue(
+        ctx,
+        `x${item.totalQuantity}`,
+        CONTENT_LEFT + checkboxSize + 6,
+        rowTop - checkboxSize,
+        12,
+        textColor,
+        'left',
+        'ltr',
+      );
+
+      const image = item.image ? images.get(item.image) : null;
+      let textRight = CONTENT_RIGHT;
+      if (image) {
+        const scaled = image.scaleToFit(imageSize, imageSize);
+        ctx.page.drawImage(image, {
+          x: CONTENT_RIGHT - scaled.width,
+          y: rowTop - scaled.height,
+          width: scaled.width,
+          height: scaled.height,
+        });
+        textRight = CONTENT_RIGHT - imageSize - 6;
+      }
+
+      let lineY = rowTop - 10;
+      nameLines.forEach((line) => {
+        drawDirectionalValue(ctx, line, textRight, lineY, 9, textColor, 'right');
+        lineY -= 11;
+      });
+      if (item.sku) {
+        drawDirectionalValue(ctx, item.sku, textRight, lineY, 8, subtleText, 'right', 'ltr');
+        lineY -= 10;
+      }
+      if (item.locationNotes) {
+        drawDirectionalValue(ctx, item.locationNotes, textRight, lineY, 7.5, subtleText, 'right');
+      }
+
+      ctx.page.drawLine({
+        start: { x: CONTENT_LEFT, y: rowBottom - 4 },
+        end: { x: CONTENT_RIGHT, y: rowBottom - 4 },
+        color: borderColor,
+        thickness: 0.6,
+      });
+      ctx.cursorY = rowBottom - 10;
+    }
+    ctx.cursorY -= 4;
+  }
+
+  drawFooter(ctx, footer);
+  return Buffer.from(await ctx.pdfDoc.save());
+}
+
+export async function generatePackingSlipPdf(
+  document: PackingSlipDocument,
+  merchant: MerchantLabelInfo = getMerchantLabelInfo(),
+): Promise<Buffer> {
+  const ctx = await createDocument();
+  const titles = { en: 'Packing Slip', ar: 'قسيمة التعبئة' };
+  const footer = merchant.nameEn || merchant.name || 'Thank you for shopping with us';
+  const redraw = { titles, orderNumber: document.orderNumber, footer };
+  drawHeader(
+    ctx,
+    titles,
+    document.orderNumber,
+    document.backOrderSequence ? `شحنة مكملة رقم ${document.backOrderSequence}` : merchant.name,
+  );
+
+  // Recipient block with the QR code on the left.
+  const qrSize = 62;
+  const blockHeight = qrSize + 12;
+  const blockBottom = ctx.cursorY - blockHeight;
+  ctx.page.drawRectangle({
+    x: CONTENT_LEFT,
+    y: blockBottom,
+    width: CONTENT_WIDTH,
+    height: blockHeight,
+    color: sectionBg,
+    borderColor,
+    borderWidth: 1,
+  });
+  drawQrCode(ctx, document.qrValue, CONTENT_LEFT + 6, blockBottom + 6, qrSize);
+  let infoY = ctx.cursorY - 16;
+  drawDirectionalValue(ctx, 'المستلم', CONTENT_RIGHT - 8, infoY, 8, subtleText, 'right', 'rtl');
+  drawDirectionalValue(ctx, 'Ship to', CONTENT_LEFT + qrSize + 14, infoY, 8, subtleText, 'left', 'ltr');
+  infoY -= 13;
+  drawDirectionalValue(ctx, document.recipientName, CONTENT_RIGHT - 8, infoY, 10.5, textColor, 'right');
+  if (document.city) {
+    infoY -= 13;
+    drawDirectionalValue(ctx, document.city, CONTENT_RIGHT - 8, infoY, 9, textColor, 'right');
+  }
+  if (document.orderDate) {
+    infoY -= 13;
+    drawDirectionalValue(ctx, document.orderDate.slice(0, 10), CONTENT_RIGHT - 8, infoY, 8.5, subtleText, 'right', 'ltr');
+  }
+  ctx.cursorY = blockBottom - 10;
+
+  if (document.isGift) {
+    const giftHeight = 22;
+    ctx.page.drawRectangle({
+      x: CONTENT_LEFT,
+      y: ctx.cursorY - giftHeight,
+      width: CONTENT_WIDTH,
+      height: giftHeight,
+      color: noteBg,
+      borderColor,
+      borderWidth: 1,
+    });
+    drawDirectionalValue(ctx, 'A gift for you', CONTENT_LEFT + 8, ctx.cursorY - 14.5, 9.5, accentColor, 'left', 'ltr');
+    drawDirectionalValue(ctx, 'هدية مقدمة لك', CONTENT_RIGHT - 8, ctx.cursorY - 15, 9.5, accentColor, 'right', 'rtl');
+    ctx.cursorY -= giftHeight + 10;
+  }
+
+  // Items: name and options on the right, quantity and (unless a gift) price on the left.
+  drawDirectionalValue(ctx, 'Qty', CONTENT_LEFT, ctx.cursorY - 8, 8, subtleText, 'left', 'ltr');
+  if (!document.isGift) {
+    drawDirectionalValue(ctx, 'Total', CONTENT_LEFT + 30, ctx.cursorY - 8, 8, subtleText, 'left', 'ltr');
+  }
+  drawDirectionalValue(ctx, 'Item', CONTENT_LEFT + SUMMARY_LABEL_OFFSET, ctx.cursorY - 8, 8, subtleText, 'left', 'ltr');
+  drawDirectionalValue(ctx, 'المنتج', CONTENT_RIGHT, ctx.cursorY - 8, 8, subtleText, 'right', 'rtl');
+  ctx.cursorY -= 14;
+  const currency = document.totals?.currency || 'SAR';
+
+  for (const line of document.lines) {
+    const nameLines = wrapValue(line.name, 34).slice(0, 2);
+    const optionLines = line.options.slice(0, 3);
+    const rowHeight = nameLines.length * 11 + optionLines.length * 9 + (line.sku ? 9 : 0) + 4;
+    ensureSpace(ctx, rowHeight + 6, redraw);
+    const rowTop = ctx.cursorY;
+
+    drawDirectionalValue(ctx, `${line.quantity}`, CONTENT_LEFT + 4, rowTop - 9, 10, textColor, 'left', 'ltr');
+    if (line.lineTotal !== null) {
+      drawDirectionalValue(ctx, formatMoney(line.lineTotal, currency), CONTENT_LEFT + 30, rowTop - 9, 8.5, textColor, 'left', 'ltr');
+    }
+    let lineY = rowTop - 9;
+    nameLines.forEach((nameLine) => {
+      drawDirectionalValue(ctx, nameLine, CONTENT_RIGHT, lineY, 9, textColor, 'right');
+      lineY -= 11;
+    });
+    optionLines.forEach((option) => {
+      drawDirectionalValue(ctx, option, CONTENT_RIGHT, lineY + 2, 7.5, subtleText, 'right');
+      lineY -= 9;
+    });
+    if (line.sku) {
+      drawDirectionalValue(ctx, line.sku, CONTENT_RIGHT, lineY + 2, 7, subtleText, 'right', 'ltr');
+      lineY -= 9;
+    }
+    ctx.cursorY = rowTop - rowHeight;
+    ctx.page.drawLine({
+      start: { x: CONTENT_LEFT, y: ctx.cursorY },
+      end: { x: CONTENT_RIGHT, y: ctx.cursorY },
+      color: borderColor,
+      thickness: 0.6,
+    });
+    ctx.cursorY -= 6;
+  }
+
+  const summaryRows: Array<[string, string, string]> = [['Items', 'القطع', `${document.totalUnits}`]];
+  if (document.totals) {
+    summaryRows.push(['Subtotal', 'المجموع', formatMoney(document.totals.subtotal, currency)]);
+    if (document.totals.shipping > 0) {
+      summaryRows.push(['Shipping', 'الشحن', formatMoney(document.totals.shipping, currency)]);
+    }
+    if (document.totals.discount > 0) {
+      summaryRows.push(['Discount', 'الخصم', `-${formatMoney(document.totals.discount, currency)}`]);
+    }
+    summaryRows.push(['Total', 'الإجمالي', formatMoney(document.totals.total, currency)]);
+  }
+  ensureSpace(ctx, summaryRows.length * 13 + 8, redraw);
+  summaryRows.forEach(([labelEn, labelAr, value]) => {
+    ctx.cursorY -= 12;
+    drawDirectionalValue(ctx, value, CONTENT_LEFT, ctx.cursorY, 9, textColor, 'left', 'ltr');
+    drawDirectionalValue(ctx, labelEn, CONTENT_LEFT + SUMMARY_LABEL_OFFSET, ctx.cursorY, 8.5, subtleText, 'left', 'ltr');
+    drawDirectionalValue(ctx, labelAr, CONTENT_RIGHT, ctx.cursorY, 8.5, subtleText, 'right', 'rtl');
+  });
+
+  drawFooter(ctx, footer);
+  return Buffer.from(await ctx.pdfDoc.save());
+}
+
+export class OrderPrepDocumentError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'OrderPrepDocumentError';
+    this.statusCode = statusCode;
+  }
+}
+
+/** Loads a prep assignment and renders the requested document for it. */
+export async function renderOrderPrepDocument(options: {
+  assignmentId: string;
+  type: OrderPrepDocumentType;
+}): Promise<{ pdf: Buffer; orderNumber: string; assignmentUserId: string }> {
+  const assignment = await prisma.orderPrepAssignment.findUnique({
+    where: { id: options.assignmentId },
+  });
+  if (!assignment) {
+    throw new OrderPrepDocumentError('لم يتم العثور على الطلب', 404);
+  }
+  const orderNumber = assignment.orderNumber || assignment.orderId;
+
+  if (options.type === 'pick-list') {
+    return {
+      pdf: await generatePickListPdf(buildPickListDocument(assignment)),
+      orderNumber,
+      assignmentUserId: assignment.userId,
+    };
+  }
+
+  const giftFlag = await prisma.orderGiftFlag.findUnique({
+    where: { merchantId_orderId: { merchantId: assignment.merchantId, orderId: assignment.orderId } },
+    select: { id: true },
+  });
+  return {
+    pdf: await generatePackingSlipPdf(
+      buildPackingSlipDocument({
+        orderId: assignment.orderId,
+        orderNumber: assignment.orderNumber,
+        orderData: assignment.orderData,
+        isGift: Boolean(giftFlag),
+      }),
+    ),
+    orderNumber,
+    assignmentUserId: assignment.userId,
+  };
+}
+
+/**
+ * Sends a prep document to the preparer's linked PrintNode printer, falling
+ * back to the shared label printer when they have none.
+ */
+export async function printOrderPrepDocument(options: {
+  assignmentId: string;
+  type: OrderPrepDocumentType;
+  printerId?: number;
+  copies?: number;
+}): Promise<{ success: boolean; jobId?: number; printerId: number; error?: string }> {
+  const { pdf, orderNumber, assignmentUserId } = await renderOrderPrepDocument(options);
+
+  let printerId = options.printerId;
+  if (!printerId) {
+    const link = await prisma.orderUserPrinterLink.findUnique({
+      where: { userId: assignmentUserId },
+      select: { printerId: true },
+    });
+    printerId = link?.printerId ?? PRINTNODE_LABEL_PRINTER_ID;
+  }
+
+  const printerSizing = getLabelPrinterSizing(printerId);
+  const result = await sendPrintJob({
+    title: `${options.type === 'pick-list' ? 'Pick List' : 'Packing Slip'} ${orderNumber}`,
+    contentType: 'pdf_base64',
+    content: pdf.toString('base64'),
+    printerId,
+    copies: options.copies ?? 1,
+    fitToPage: printerSizing.fitToPage ?? true,
+    paperName: printerSizing.paperSizeMm ? undefined : printerSizing.paperName || PRINTNODE_LABEL_PAPER_NAME,
+    paperSizeMm: printerSizing.paperSizeMm ?? { width: 100, height: 150 },
+    printOptions: printerSizing.printOptions,
+    dpi: PRINTNODE_DEFAULT_DPI,
+  });
+
+  if (!result.success) {
+    log.error('PrintNode error while sending prep document', {
+      assignmentId: options.assignmentId,
+      type: options.type,
+      printerId,
+      error: result.error,
+    });
+  }
+  return { ...result, printerId };
+}
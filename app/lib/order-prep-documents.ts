@@ -0,0 +1,185 @@
+import { extractPrepLineItems } from './order-prep-items';
+import { buildWavePickList, type WavePickListLocation } from './order-prep-pick-list';
+
+/**
+ * Page models for the documents printed at the prep station. Kept free of
+ * Prisma and pdf-lib so the gift and layout rules can be tested directly;
+ * `order-prep-documents-pdf.ts` renders them.
+ */
+
+export type OrderPrepDocumentType = 'pick-list' | 'packing-slip';
+
+export const ORDER_PREP_DOCUMENT_TYPES: OrderPrepDocumentType[] = ['pick-list', 'packing-slip'];
+
+export type PickListDocument = {
+  orderNumber: string;
+  preparerName: string | null;
+  toteNumber: number | null;
+  backOrderSequence: number | null;
+  totalUnits: number;
+  locations: WavePickListLocation[];
+};
+
+export type PackingSlipLine = {
+  sku: string | null;
+  name: string;
+  options: string[];
+  quantity: number;
+  /** Null on gift orders: the recipient must not see what was paid. */
+  lineTotal: number | null;
+};
+
+export type PackingSlipTotals = {
+  subtotal: number;
+  shipping: number;
+  discount: number;
+  total: number;
+  currency: string;
+};
+
+export type PackingSlipDocument = {
+  orderNumber: string;
+  orderDate: string | null;
+  recipientName: string;
+  city: string | null;
+  isGift: boolean;
+  backOrderSequence: number | null;
+  lines: PackingSlipLine[];
+  totalUnits: number;
+  totals: PackingSlipTotals | null;
+  /** Encoded in the slip's QR code: the customer's order page, or the order number. */
+  qrValue: string;
+};
+
+type AnyRecord = Record<string, any>;
+
+function asRecord(value: unknown): AnyRecord {
+  return value && typeof value === 'object' ? (value as AnyRecord) : {};
+}
+
+function text(value: unknown): string | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed || null;
+}
+
+function amountOf(value: unknown): number {
+  if (value == null) return 0;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : 0;
+  if (typeof value === 'string') {
+    const parsed = Number(value.replace(/,/g, '').trim());
+    return Number.isFinite(parsed) ? parsed : 0;
+  }
+  if (typeof value === 'object') {
+    const record = value as AnyRecord;
+    if ('amount' in record) return amountOf(record.amount);
+    if ('value' in record) return amountOf(record.value);
+  }
+  return 0;
+}
+
+function backOrderSequenceOf(orderData: AnyRecord): number | null {
+  const sequence = orderData.prepBackOrder?.sequence;
+  return typeof sequence === 'number' ? sequence : null;
+}
+
+function optionLabels(item: AnyRecord): string[] {
+  const options = Array.isArray(item.options) ? item.options : [];
+  return options.flatMap((option: AnyRecord): string[] => {
+    const name = text(option?.name);
+    const raw = option?.value;
+    const value = Array.isArray(raw)
+      ? raw.map((entry) => text(entry?.name) || text(entry)).filter(Boolean).join('، ')
+      : text(raw) || text(raw?.name) || text(raw?.value);
+    return name && value ? [`${name}: ${value}`] : [];
+  });
+}
+
+export function buildPickListDocument(assignment: {
+  id: string;
+  orderId: string;
+  orderNumber: string | null;
+  userName: string | null;
+  toteNumber: number | null;
+  status: string;
+  orderData: unknown;
+}): PickListDocument {
+  const pickList = buildWavePickList([assignment]);
+  return {
+    orderNumber: assignment.orderNumber || assignment.orderId,
+    preparerName: assignment.userName,
+    toteNumber: assignment.toteNumber,
+    backOrderSequence: backOrderSequenceOf(asRecord(assignment.orderData)),
+    totalUnits: pickList.totalUnits,
+    locations: pickList.locations,
+  };
+}
+
+export function buildPackingSlipDocument(input: {
+  orderId: string;
+  orderNumber: string | null;
+  orderData: unknown;
+  isGift: boolean;
+}): PackingSlipDocument {
+  const order = asRecord(input.orderData);
+  const items = Array.isArray(order.items) ? order.items : [];
+  const { isGift } = input;
+  const orderNumber = input.orderNumber || text(order.reference_id) || input.orderId;
+
+  // After a split the original order ships without its held-back lines.
+  const heldBack = new Set<number>(
+    Array.isArray(order.prepSplit?.heldLineIndexes) ? order.prepSplit.heldLineIndexes : [],
+  );
+  const lines = extractPrepLineItems(order)
+    .filter((line) => !heldBack.has(line.index))
+    .map((line): PackingSlipLine => {
+      const item = asRecord(items[line.index]);
+      return {
+        sku: line.sku,
+        name: line.name || line.sku || '—',
+        options: optionLabels(item),
+        quantity: line.quantity,
+        lineTotal: isGift ? null : amountOf(item.amounts?.total),
+      };
+    });
+
+  const amounts = asRecord(order.amounts);
+  const currency =
+    text(amounts.total?.currency) || text(asRecord(items[0]).amounts?.total?.currency) || 'SAR';
+  const customer = asRecord(order.customer);
+  const shipTo = asRecord(order.ship_to ?? order.shipping?.address ?? order.shipping?.receiver);
+  const recipientName =
+    text(shipTo.name) ||
+    text(customer.full_name) ||
+    text(customer.name) ||
+    [text(customer.first_name), text(customer.last_name)].filter(Boolean).join(' ') ||
+    'عميل';
+
+  // A split shipment only carries some of the lines, so order-level totals
+  // would not match what is in the box.
+  const partial = backOrderSequenceOf(order) !== null || heldBack.size > 0;
+  const totals: PackingSlipTotals | null =
+    isGift || partial
+      ? null
+      : {
+          subtotal: amountOf(amounts.sub_total ?? amounts.subtotal),
+          shipping: amountOf(amounts.shipping_cost ?? amounts.shipping),
+          discount: amountOf(amounts.total_discount ?? amounts.discount),
+          total: amountOf(amounts.total),
+          currency,
+        };
+
+  return {
+    orderNumber,
+    orderDate: text(order.date?.date) || text(order.date?.created) || text(order.created_at),
+    recipientName,
+    city: text(shipTo.city) || text(customer.city),
+    isGift,
+    backOrderSequence: backOrderSequenceOf(order),
+    lines,
+    totalUnits: lines.reduce((sum, line) => sum + line.quantity, 0),
+    totals,
+    qrValue: text(order.urls?.customer) || orderNumber,
+  };
+}
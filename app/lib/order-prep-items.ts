@@ -0,0 +1,91 @@
+/**
+ * Server-side view of the line items stored on `OrderPrepAssignment.orderData`.
+ * Mirrors what the order-prep screen renders so pick lists, wave picking and
+ * scan checks all agree on SKU, quantity and bin location for each line.
+ */
+export type PrepLineItem = {
+  index: number;
+  itemId: string | null;
+  productId: string | null;
+  sku: string | null;
+  normalizedSku: string | null;
+  name: string | null;
+  quantity: number;
+  image: string | null;
+  location: string | null;
+  locationNotes: string | null;
+  /** Every code a scanner may read for this line: SKUs plus Salla barcode/GTIN/MPN values. */
+  scanCodes: string[];
+};
+
+function cleanString(value: unknown): string | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  if (typeof value !== 'string') return null;
+  const cleaned = value.trim();
+  return cleaned || null;
+}
+
+function toQuantity(value: unknown): number {
+  const numeric = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(numeric) || numeric <= 0) return 1;
+  return Math.max(1, Math.floor(numeric));
+}
+
+export function normalizePrepSku(value: unknown): string | null {
+  const sku = cleanString(value);
+  return sku ? sku.toUpperCase() : null;
+}
+
+function collectScanCodes(item: any, sku: string | null): string[] {
+  const codes = new Set<string>();
+  const sources = [item, item.product, item.variant];
+  const fields = ['sku', 'barcode', 'gtin', 'mpn'];
+  const add = (value: unknown) => {
+    const normalized = normalizePrepSku(value);
+    if (normalized) codes.add(normalized);
+  };
+
+  add(sku);
+  for (const source of sources) {
+    if (!source || typeof source !== 'object') continue;
+    fields.forEach((field) => add(source[field]));
+  }
+  return Array.from(codes);
+}
+
+export function extractPrepLineItems(orderData: unknown): PrepLineItem[] {
+  if (!orderData || typeof orderData !== 'object') return [];
+  const items = (orderData as Record<string, any>).items;
+  if (!Array.isArray(items)) return [];
+
+  return items.flatMap((item: any, index): PrepLineItem[] => {
+    if (!item || typeof item !== 'object') return [];
+    const sku =
+      cleanString(item.normalizedSku) ||
+      cleanString(item.sku) ||
+      cleanString(item.product?.sku) ||
+      cleanString(item.variant?.sku);
+    return [{
+      index,
+      itemId: cleanString(item.id),
+      productId:
+        cleanString(item.normalizedProductId) ||
+        cleanString(item.product_id) ||
+        cleanString(item.product?.id),
+      sku,
+      normalizedSku: normalizePrepSku(sku),
+      name: cleanString(item.name) || cleanString(item.product?.name),
+      quantity: toQuantity(item.quantity),
+      image:
+        cleanString(item.images?.[0]?.url) ||
+        cleanString(item.images?.[0]?.src) ||
+        cleanString(item.product?.thumbnail) ||
+        cleanString(item.product?.image),
+      location: cleanString(item.inventoryLocation) || cleanString(item.inventory_location),
+      locationNotes: cleanString(item.inventoryNotes) || cleanString(item.inventory_notes),
+      scanCodes: collectScanCodes(item, sku),
+    }];
+  });
+}
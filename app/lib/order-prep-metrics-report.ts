@@ -0,0 +1,163 @@
+import { prisma } from '@/lib/prisma';
+import { extractPrepLineItems } from '@/app/lib/order-prep-items';
+import { isSlaEscalationReason } from '@/app/lib/order-prep-sla';
+import {
+  buildPrepMetricsReport,
+  metricsPeriodKey,
+  type MetricsGranularity,
+  type PrepCompletionRecord,
+  type PrepMetricsReport,
+  type PrepOrderEvent,
+} from '@/app/lib/order-prep-metrics';
+
+const MERCHANT_ID = process.env.NEXT_PUBLIC_MERCHANT_ID || '1696031053';
+
+const itemCountOf = (orderData: unknown) =>
+  extractPrepLineItems(orderData).reduce((sum, line) => sum + line.quantity, 0);
+
+const minutesBetween = (from: Date, to: Date) => Math.max(0, (to.getTime() - from.getTime()) / 60_000);
+
+/**
+ * Completions come from both prep flows: OrderHistory (order assignments) and
+ * completed prep assignments. An order finished by the same preparer on the
+ * same day in both is counted once, from the prep assignment.
+ */
+async function loadCompletions(start: Date, endExclusive: Date): Promise<PrepCompletionRecord[]> {
+  const [prepAssignments, history] = await Promise.all([
+    prisma.orderPrepAssignment.findMany({
+      where: { merchantId: MERCHANT_ID, completedAt: { gte: start, lt: endExclusive } },
+      select: {
+        userId: true,
+        userName: true,
+        orderId: true,
+        assignedAt: true,
+        startedAt: true,
+        completedAt: true,
+        orderData: true,
+      },
+    }),
+    prisma.orderHistory.findMany({
+      where: { merchantId: MERCHANT_ID, status: 'completed', finishedAt: { gte: start, lt: endExclusive } },
+      select: {
+        userId: true,
+        userName: true,
+        orderId: true,
+        assignedAt: true,
+        startedAt: true,
+        finishedAt: true,
+        durationMinutes: true,
+        orderData: true,
+      },
+    }),
+  ]);
+
+  const completions = new Map<string, PrepCompletionRecord>();
+  const keyOf = (record: PrepCompletionRecord) =>
+    `${record.userId}:${record.orderId}:${metricsPeriodKey(record.finishedAt, 'day')}`;
+
+  for (const entry of history) {
+    const startedAt = entry.startedAt ?? entry.assignedAt;
+    const record: PrepCompletionRecord = {
+      userId: entry.userId,
+      userName: entry.userName,
+      orderId: entry.orderId,
+      startedAt,
+      finishedAt: entry.finishedAt,
+      durationMinutes: entry.durationMinutes ?? minutesBetween(startedAt, entry.finishedAt),
+      itemCount: itemCountOf(entry.orderData),
+    };
+    completions.set(keyOf(record), record);
+  }
+  for (const assignment of prepAssignments) {
+    if (!assignment.completedAt) continue;
+    const startedAt = assignment.startedAt ?? assignment.assignedAt;
+    const record: PrepCompletionRecord = {
+      userId: assignment.userId,
+      userName: assignment.userName,
+      orderId: assignment.orderId,
+      startedAt,
+      finishedAt: assignment.completedAt,
+      durationMinutes: minutesBetween(startedAt, assignment.completedAt),
+      itemCount: itemCountOf(assignment.orderData),
+    };
+    completions.set(keyOf(record), record);
+  }
+  return Array.from(completions.values());
+}
+
+/**
+ * SLA escalations carry no preparer; they count against whoever holds (or
+ * last held) the order's prep assignment.
+ */
+async function loadEscalations(start: Date, endExclusive: Date): Promise<PrepOrderEvent[]> {
+  const escalations = await prisma.orderPrepEscalation.findMany({
+    where: { merchantId: MERCHANT_ID, createdAt: { gte: start, lt: endExclusive } },
+    select: { orderId: true, reason: true, createdById: true, createdAt: true },
+  });
+  const slaOrderIds = Array.from(
+    new Set(escalations.filter((entry) => isSlaEscalationReason(entry.reason)).map((entry) => entry.orderId)),
+  );
+  const holders = slaOrderIds.length
+    ? await prisma.orderPrepAssignment.findMany({
+        where: { merchantId: MERCHANT_ID, orderId: { in: slaOrderIds }, splitSequence: 0 },
+        select: { orderId: true, userId: true },
+      })
+    : [];
+  const holderByOrder = new Map(holders.map((holder) => [holder.orderId, holder.userId]));
+
+  return escalations.map((entry) => ({
+    userId: isSlaEscalationReason(entry.reason)
+      ? holderByOrder.get(entry.orderId) ?? null
+      : entry.createdById,
+    orderId: entry.orderId,
+    at: entry.createdAt,
+  }));
+}
+
+export async function getPrepMetricsReport(options: {
+  start: Date;
+  endExclusive: Date;
+  granularity: MetricsGranularity;
+  userId?: string | null;
+}): Promise<PrepMetricsReport> {
+  const { start, endExclusive, granularity, userId } = options;
+
+  const [completions, shortages, reopens, escalations] = await Promise.all([
+    loadCompletions(start, endExclusive),
+    prisma.orderPrepUnavailableItem.findMany({
+      where: { merchantId: MERCHANT_ID, createdAt: { gte: start, lt: endExclusive } },
+      select: { orderId: true, reportedById: true, createdAt: true },
+    }),
+    prisma.orderReopenLog.findMany({
+      where: { merchantId: MERCHANT_ID, createdAt: { gte: start, lt: endExclusive } },
+      select: { orderId: true, previousUserId: true, createdAt: true },
+    }),
+    loadEscalations(start, endExclusive),
+  ]);
+
+  const userIds = new Set<string>();
+  completions.forEach((completion) => userIds.add(completion.userId));
+  shortages.forEach((entry) => entry.reportedById && userIds.add(entry.reportedById));
+  reopens.forEach((entry) => entry.previousUserId && userIds.add(entry.previousUserId));
+  escalations.forEach((entry) => entry.userId && userIds.add(entry.userId));
+  const users = await prisma.orderUser.findMany({
+    where: { id: { in: Array.from(userIds) } },
+    select: { id: true, name: true },
+  });
+
+  const report = buildPrepMetricsReport({
+    granularity,
+    start,
+    endExclusive,
+    completions,
+    shortages: shortages.map((entry) => ({ userId: entry.reportedById, orderId: entry.orderId, at: entry.createdAt })),
+    reopens: reopens.map((entry) => ({ userId: entry.previousUserId, orderId: entry.orderId, at: entry.createdAt })),
+    escalations,
+    userNames: new Map(users.map((user) => [user.id, user.name])),
+  });
+
+  // Team figures stay team-wide so one preparer can be read against them.
+  return userId
+    ? { ...report, preparers: report.preparers.filter((preparer) => preparer.userId === userId) }
+    : report;
+}
@@ -0,0 +1,353 @@
+/**
+ * Preparer throughput and accuracy figures. Pure so the bucketing and rate
+ * rules can be tested directly; `order-prep-metrics-report.ts` loads the rows
+ * from OrderHistory, prep assignments, shortage reports, reopens and
+ * escalations.
+ */
+
+export type MetricsGranularity = 'day' | 'week' | 'month';
+
+export const METRICS_GRANULARITIES: MetricsGranularity[] = ['day', 'week', 'month'];
+
+export type ItemCountBand = '1' | '2' | '3-4' | '5+';
+
+export const ITEM_COUNT_BANDS: ItemCountBand[] = ['1', '2', '3-4', '5+'];
+
+/** One finished prep: an OrderHistory entry or a completed prep assignment. */
+export type PrepCompletionRecord = {
+  userId: string;
+  userName: string;
+  orderId: string;
+  startedAt: Date;
+  finishedAt: Date;
+  durationMinutes: number;
+  itemCount: number;
+};
+
+/**
+ * A shortage report, reopen or escalation. `userId` is the preparer it counts
+ * against; when null (SLA escalations) it goes to whoever completed the order.
+ */
+export type PrepOrderEvent = {
+  userId: string | null;
+  orderId: string;
+  at: Date;
+};
+
+export type PreparerFigures = {
+  completed: number;
+  /** Distinct orders the preparer completed, reported short or escalated. */
+  handled: number;
+  activeHours: number;
+  ordersPerHour: number | null;
+  medianPrepMinutes: number | null;
+  medianPrepMinutesByItems: Record<ItemCountBand, number | null>;
+  shortageOrders: number;
+  shortageRate: number | null;
+  reopens: number;
+  reopenRate: number | null;
+  escalatedOrders: number;
+  escalationRate: number | null;
+};
+
+export type PreparerPeriodFigures = PreparerFigures & { period: string };
+
+export type PreparerMetrics = {
+  userId: string;
+  userName: string;
+  totals: PreparerFigures;
+  periods: PreparerPeriodFigures[];
+};
+
+export type MetricPercentiles = { p25: number; p50: number; p75: number; p90: number };
+
+export const PERCENTILE_METRICS = [
+  'ordersPerHour',
+  'medianPrepMinutes',
+  'shortageRate',
+  'reopenRate',
+  'escalationRate',
+] as const;
+
+export type PercentileMetric = (typeof PERCENTILE_METRICS)[number];
+
+export type PrepMetricsReport = {
+  granularity: MetricsGranularity;
+  periods: string[];
+  preparers: PreparerMetrics[];
+  team: {
+    totals: PreparerFigures;
+    /** Spread of the preparers' totals for the whole range; null with no preparer data. */
+    percentiles: Record<PercentileMetric, MetricPercentiles | null>;
+    trend: PreparerPeriodFigures[];
+  };
+};
+
+const RIYADH_OFFSET_MS = 3 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Below this an hourly rate is noise (one quick order would read as 20/h).
+const MIN_ACTIVE_HOURS = 0.25;
+
+function riyadhDay(date: Date): string {
+  return new Date(date.getTime() + RIYADH_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/** Bucket key in Riyadh time: `YYYY-MM-DD`, the Sunday starting the week, or `YYYY-MM`. */
+export function metricsPeriodKey(date: Date, granularity: MetricsGranularity): string {
+  const day = riyadhDay(date);
+  if (granularity === 'month') return day.slice(0, 7);
+  if (granularity === 'day') return day;
+  const local = new Date(`${day}T00:00:00Z`);
+  return new Date(local.getTime() - local.getUTCDay() * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Every bucket key touched by [start, endExclusive), oldest first. */
+export function listMetricsPeriods(start: Date, endExclusive: Date, granularity: MetricsGranularity): string[] {
+  const periods: string[] = [];
+  for (let cursor = start.getTime(); cursor < endExclusive.getTime(); cursor += DAY_MS) {
+    const key = metricsPeriodKey(new Date(cursor), granularity);
+    if (periods[periods.length - 1] !== key) periods.push(key);
+  }
+  return periods;
+}
+
+export function itemCountBand(itemCount: number): ItemCountBand {
+  if (itemCount <= 1) return '1';
+  if (itemCount === 2) return '2';
+  if (itemCount <= 4) return '3-4';
+  return '5+';
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/** Linear-interpolated percentile (0-100) of the values. */
+export function percentile(values: number[], rank: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = ((sorted.length - 1) * rank) / 100;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+const ratio = (count: number, total: number) => (total > 0 ? count / total : null);
+
+/**
+ * Hours on the floor: per Riyadh day, from the first start to the last finish.
+ * Spans rather than summed durations, so orders prepared side by side in a
+ * wave are not counted twice.
+ */
+function activeHoursOf(completions: PrepCompletionRecord[]): number {
+  const spans = new Map<string, { from: number; to: number }>();
+  for (const completion of completions) {
+    const day = riyadhDay(completion.finishedAt);
+    const from = Math.min(completion.startedAt.getTime(), completion.finishedAt.getTime());
+    const span = spans.get(day);
+    if (!span) {
+      spans.set(day, { from, to: completion.finishedAt.getTime() });
+    } else {
+      span.from = Math.min(span.from, from);
+      span.to = Math.max(span.to, completion.finishedAt.getTime());
+    }
+  }
+  let total = 0;
+  spans.forEach((span) => {
+    total += (span.to - span.from) / 3_600_000;
+  });
+  return total;
+}
+
+function computeFigures(
+  completions: PrepCompletionRecord[],
+  shortages: PrepOrderEvent[],
+  reopens: PrepOrderEvent[],
+  escalations: PrepOrderEvent[],
+): PreparerFigures {
+  const shortageOrders = new Set(shortages.map((event) => event.orderId));
+  const escalatedOrders = new Set(escalations.map((event) => event.orderId));
+  const handled = new Set([
+    ...completions.map((completion) => completion.orderId),
+    ...shortageOrders,
+    ...escalatedOrders,
+  ]);
+
+  const activeHours = activeHoursOf(completions);
+  const byBand = Object.fromEntries(
+    ITEM_COUNT_BANDS.map((band) => [
+      band,
+      median(
+        completions
+          .filter((completion) => itemCountBand(completion.itemCount) === band)
+          .map((completion) => completion.durationMinutes),
+      ),
+    ]),
+  ) as Record<ItemCountBand, number | null>;
+
+  return {
+    completed: completions.length,
+    handled: handled.size,
+    activeHours,
+    ordersPerHour: activeHours >= MIN_ACTIVE_HOURS ? completions.length / activeHours : null,
+    medianPrepMinutes: median(completions.map((completion) => completion.durationMinutes)),
+    medianPrepMinutesByItems: byBand,
+    shortageOrders: shortageOrders.size,
+    shortageRate: ratio(shortageOrders.size, handled.size),
+    reopens: reopens.length,
+    reopenRate: ratio(reopens.length, completions.length),
+    escalatedOrders: escalatedOrders.size,
+    escalationRate: ratio(escalatedOrders.size, handled.size),
+  };
+}
+
+type PreparerRows = {
+  userName: string;
+  completions: PrepCompletionRecord[];
+  shortages: PrepOrderEvent[];
+  reopens: PrepOrderEvent[];
+  escalations: PrepOrderEvent[];
+};
+
+export function buildPrepMetricsReport(input: {
+  granularity: MetricsGranularity;
+  start: Date;
+  endExclusive: Date;
+  completions: PrepCompletionRecord[];
+  shortages: PrepOrderEvent[];
+  reopens: PrepOrderEvent[];
+  escalations: PrepOrderEvent[];
+  /** Names for preparers that only appear in events. */
+  userNames?: Map<string, string>;
+}): PrepMetricsReport {
+  const { granularity, start, endExclusive } = input;
+  const inRange = <T extends { at?: Date; finishedAt?: Date }>(row: T) => {
+    const at = (row.finishedAt ?? row.at)!.getTime();
+    return at >= start.getTime() && at < endExclusive.getTime();
+  };
+  const completions = input.completions.filter(inRange);
+
+  // Unattributed events go to the last preparer who completed the order.
+  const lastCompletedBy = new Map<string, PrepCompletionRecord>();
+  for (const completion of input.completions) {
+    const previous = lastCompletedBy.get(completion.orderId);
+    if (!previous || previous.finishedAt < completion.finishedAt) {
+      lastCompletedBy.set(completion.orderId, completion);
+    }
+  }
+  const attribute = (events: PrepOrderEvent[]) =>
+    events
+      .filter(inRange)
+      .map((event) => ({ ...event, userId: event.userId ?? lastCompletedBy.get(event.orderId)?.userId ?? null }))
+      .filter((event): event is PrepOrderEvent & { userId: string } => Boolean(event.userId));
+
+  const rows = new Map<string, PreparerRows>();
+  const rowsFor = (userId: string) => {
+    let entry = rows.get(userId);
+    if (!entry) {
+      entry = {
+        userName: input.userNames?.get(userId) ?? userId,
+        completions: [],
+        shortages: [],
+        reopens: [],
+        escalations: [],
+      };
+      rows.set(userId, entry);
+    }
+    return entry;
+  };
+
+  for (const completion of completions) {
+    const entry = rowsFor(completion.userId);
+    entry.userName = input.userNames?.get(completion.userId) ?? completion.userName;
+    entry.completions.push(completion);
+  }
+  attribute(input.shortages).forEach((event) => rowsFor(event.userId).shortages.push(event));
+  attribute(input.reopens).forEach((event) => rowsFor(event.userId).reopens.push(event));
+  attribute(input.escalations).forEach((event) => rowsFor(event.userId).escalations.push(event));
+
+  const periods = listMetricsPeriods(start, endExclusive, granularity);
+  const byPeriod = (period: string, data: PreparerRows): PreparerPeriodFigures => {
+    const matches = (at: Date) => metricsPeriodKey(at, granularity) === period;
+    return {
+      period,
+      ...computeFigures(
+        data.completions.filter((completion) => matches(completion.finishedAt)),
+        data.shortages.filter((event) => matches(event.at)),
+        data.reopens.filter((event) => matches(event.at)),
+        data.escalations.filter((event) => matches(event.at)),
+      ),
+    };
+  };
+
+  const preparers: PreparerMetrics[] = Array.from(rows.entries())
+    .map(([userId, data]) => ({
+      userId,
+      userName: data.userName,
+      totals: computeFigures(data.completions, data.shortages, data.reopens, data.escalations),
+      periods: periods.map((period) => byPeriod(period, data)),
+    }))
+    .sort((a, b) => b.totals.completed - a.totals.completed || a.userName.localeCompare(b.userName, 'ar'));
+
+  const everyone: PreparerRows = {
+    userName: '',
+    completions,
+    shortages: Array.from(rows.values()).flatMap((data) => data.shortages),
+    reopens: Array.from(rows.values()).flatMap((data) => data.reopens),
+    escalations: Array.from(rows.values()).flatMap((data) => data.escalations),
+  };
+
+  const percentiles = Object.fromEntries(
+    PERCENTILE_METRICS.map((metric) => {
+      const values = preparers
+        .map((preparer) => preparer.totals[metric])
+        .filter((value): value is number => value !== null);
+      return [
+        metric,
+        values.length > 0
+          ? {
+              p25: percentile(values, 25)!,
+              p50: percentile(values, 50)!,
+              p75: percentile(values, 75)!,
+              p90: percentile(values, 90)!,
+            }
+          : null,
+      ];
+    }),
+  ) as Record<PercentileMetric, MetricPercentiles | null>;
+
+  return {
+    granularity,
+    periods,
+    preparers,
+    team: {
+      // Team hours are per preparer, so the team's rate is not a single span.
+      totals: {
+        ...computeFigures(everyone.completions, everyone.shortages, everyone.reopens, everyone.escalations),
+        ...teamThroughput(preparers.map((preparer) => preparer.totals)),
+      },
+      percentiles,
+      trend: periods.map((period) => {
+        const figures = byPeriod(period, everyone);
+        return {
+          ...figures,
+          ...teamThroughput(
+            preparers.map((preparer) => preparer.periods.find((entry) => entry.period === period)!),
+          ),
+        };
+      }),
+    },
+  };
+}
+
+function teamThroughput(figures: PreparerFigures[]): Pick<PreparerFigures, 'activeHours' | 'ordersPerHour'> {
+  const activeHours = figures.reduce((sum, entry) => sum + entry.activeHours, 0);
+  const completed = figures.reduce((sum, entry) => sum + entry.completed, 0);
+  return {
+    activeHours,
+    ordersPerHour: activeHours >= MIN_ACTIVE_HOURS ? completed / activeHours : null,
+  };
+}
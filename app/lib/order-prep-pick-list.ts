@@ -0,0 +1,113 @@
+import { extractPrepLineItems } from './order-prep-items';
+
+const ACTIVE_ASSIGNMENT_STATUSES = ['assigned', 'preparing', 'waiting'];
+
+export type WaveAssignmentLike = {
+  id: string;
+  orderId: string;
+  orderNumber: string | null;
+  toteNumber: number | null;
+  status: string;
+  orderData: unknown;
+};
+
+export type WaveToteAllocation = {
+  assignmentId: string;
+  orderId: string;
+  orderNumber: string | null;
+  toteNumber: number | null;
+  quantity: number;
+  done: boolean;
+};
+
+export type WavePickListItem = {
+  key: string;
+  sku: string | null;
+  name: string | null;
+  image: string | null;
+  locationNotes: string | null;
+  totalQuantity: number;
+  totes: WaveToteAllocation[];
+};
+
+export type WavePickListLocation = {
+  location: string | null;
+  items: WavePickListItem[];
+};
+
+export type WavePickList = {
+  orderCount: number;
+  totalUnits: number;
+  locations: WavePickListLocation[];
+};
+
+/**
+ * Folds the line items of every order in a wave into one walk through the
+ * warehouse: grouped by bin location, then by SKU, with the per-tote split the
+ * preparer needs when sorting the picked units back into orders.
+ */
+export function buildWavePickList(assignments: WaveAssignmentLike[]): WavePickList {
+  const byLocation = new Map<string, Map<string, WavePickListItem>>();
+  let totalUnits = 0;
+
+  for (const assignment of assignments) {
+    const done = !ACTIVE_ASSIGNMENT_STATUSES.includes(assignment.status);
+    for (const item of extractPrepLineItems(assignment.orderData)) {
+      const locationKey = item.location ?? '';
+      const itemKey = item.normalizedSku || `name:${item.name || item.index}`;
+      if (!byLocation.has(locationKey)) {
+        byLocation.set(locationKey, new Map());
+      }
+      const items = byLocation.get(locationKey)!;
+      let entry = items.get(itemKey);
+      if (!entry) {
+        entry = {
+          key: `${locationKey}|${itemKey}`,
+          sku: item.sku,
+          name: item.name,
+          image: item.image,
+          locationNotes: item.locationNotes,
+          totalQuantity: 0,
+          totes: [],
+        };
+        items.set(itemKey, entry);
+      }
+
+      entry.totalQuantity += item.quantity;
+      totalUnits += item.quantity;
+
+      const existingTote = entry.totes.find((tote) => tote.assignmentId === assignment.id);
+      if (existingTote) {
+        existingTote.quantity += item.quantity;
+      } else {
+        entry.totes.push({
+          assignmentId: assignment.id,
+          orderId: assignment.orderId,
+          orderNumber: assignment.orderNumber,
+          toteNumber: assignment.toteNumber,
+          quantity: item.quantity,
+          done,
+        });
+      }
+    }
+  }
+
+  const locations = Array.from(byLocation.entries())
+    .sort(([a], [b]) => {
+      // Lines without a known bin go last so the walk starts with mapped shelves.
+      if (!a) return b ? 1 : 0;
+      if (!b) return -1;
+      return a.localeCompare(b, 'en', { numeric: true, sensitivity: 'base' });
+    })
+    .map(([location, items]) => ({
+      location: location || null,
+      items: Array.from(items.values())
+        .map((item) => ({
+          ...item,
+          totes: item.totes.sort((a, b) => (a.toteNumber ?? 0) - (b.toteNumber ?? 0)),
+        }))
+        .sort((a, b) => (a.sku || a.name || '').localeCompare(b.sku || b.name || '')),
+    }));
+
+  return { orderCount: assignments.length, totalUnits, locations };
+}
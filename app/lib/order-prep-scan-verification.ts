@@ -0,0 +1,150 @@
+import type { OrderPrepAssignment } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+import { isOrderPrepScanVerificationEnabled } from '@/app/lib/settings';
+import { extractPrepLineItems } from '@/app/lib/order-prep-items';
+import {
+  buildPrepScanProgress,
+  recordedExemptLineIndexes,
+  resolvePrepScan,
+  type PrepScanProgress,
+  type PrepScanResolution,
+} from '@/app/lib/order-prep-scan';
+
+const ACTIVE_ASSIGNMENT_STATUSES = new Set(['assigned', 'preparing', 'waiting']);
+const RECENT_EVENTS_LIMIT = 20;
+
+export type PrepScanEventSummary = {
+  id: string;
+  scannedCode: string;
+  result: string;
+  lineIndex: number | null;
+  sku: string | null;
+  createdAt: string;
+};
+
+export type PrepScanState = {
+  enabled: boolean;
+  progress: PrepScanProgress;
+  recentEvents: PrepScanEventSummary[];
+};
+
+async function loadProgress(
+  assignment: OrderPrepAssignment,
+  heldLineIndexes: number[] = [],
+): Promise<PrepScanProgress> {
+  const [accepted, unavailable] = await Promise.all([
+    prisma.orderPrepScanEvent.findMany({
+      where: { assignmentId: assignment.id, result: 'accepted' },
+      select: { lineIndex: true },
+    }),
+    prisma.orderPrepUnavailableItem.findMany({
+      where: { merchantId: assignment.merchantId, orderId: assignment.orderId, resolvedAt: null },
+      select: { normalizedSku: true },
+    }),
+  ]);
+  const items = extractPrepLineItems(assignment.orderData);
+  return buildPrepScanProgress(
+    items,
+    accepted
+      .map((event) => event.lineIndex)
+      .filter((index): index is number => typeof index === 'number'),
+    recordedExemptLineIndexes(
+      items,
+      unavailable.map((record) => record.normalizedSku),
+      heldLineIndexes,
+    ),
+  );
+}
+
+export async function getPrepScanState(assignment: OrderPrepAssignment): Promise<PrepScanState> {
+  const [enabled, progress, recent] = await Promise.all([
+    isOrderPrepScanVerificationEnabled(),
+    loadProgress(assignment),
+    prisma.orderPrepScanEvent.findMany({
+      where: { assignmentId: assignment.id },
+      orderBy: { createdAt: 'desc' },
+      take: RECENT_EVENTS_LIMIT,
+    }),
+  ]);
+
+  return {
+    enabled,
+    progress,
+    recentEvents: recent.map((event) => ({
+      id: event.id,
+      scannedCode: event.scannedCode,
+      result: event.result,
+      lineIndex: event.lineIndex,
+      sku: event.sku,
+      createdAt: event.createdAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Records one scan against the preparer's own active assignment. Every scan is
+ * stored, including rejected ones, so mispicks can be audited per preparer.
+ */
+export async function recordPrepScan(options: {
+  assignmentId: string;
+  userId: string;
+  code: string;
+}): Promise<{ resolution: PrepScanResolution; progress: PrepScanProgress } | null> {
+  const assignment = await prisma.orderPrepAssignment.findUnique({
+    where: { id: options.assignmentId },
+  });
+
+  if (!assignment || assignment.userId !== options.userId || !ACTIVE_ASSIGNMENT_STATUSES.has(assignment.status)) {
+    return null;
+  }
+
+  const items = extractPrepLineItems(assignment.orderData);
+  const progress = await loadProgress(assignment);
+  const resolution = resolvePrepScan(items, progress, options.code);
+  const matchedLine = items.find((item) => item.index === resolution.lineIndex);
+
+  await prisma.orderPrepScanEvent.create({
+    data: {
+      merchantId: assignment.merchantId,
+      assignmentId: assignment.id,
+      orderId: assignment.orderId,
+      orderNumber: assignment.orderNumber,
+      userId: assignment.userId,
+      userName: assignment.userName,
+      scannedCode: resolution.normalizedCode || options.code.trim().slice(0, 120),
+      result: resolution.result,
+      lineIndex: resolution.lineIndex,
+      sku: matchedLine?.sku ?? null,
+    },
+  });
+
+  if (resolution.result !== 'accepted') {
+    log.warn('Rejected order prep scan', {
+      assignmentId: assignment.id,
+      orderId: assignment.orderId,
+      code: resolution.normalizedCode,
+      result: resolution.result,
+    });
+    return { resolution, progress };
+  }
+
+  return { resolution, progress: await loadProgress(assignment) };
+}
+
+/**
+ * Completion gate used by `updateAssignmentStatus` and the order split. Passes
+ * straight through when scan-to-verify mode is off. `heldLineIndexes` are the
+ * lines a split is moving to a back order, so they are not shipped now.
+ */
+export async function checkPrepScanVerification(
+  assignment: OrderPrepAssignment,
+  options: { heldLineIndexes?: number[] } = {},
+): Promise<{ passed: boolean; progress: PrepScanProgress | null }> {
+  if (!(await isOrderPrepScanVerificationEnabled())) {
+    return { passed: true, progress: null };
+  }
+
+  const progress = await loadProgress(assignment, options.heldLineIndexes);
+  return { passed: progress.complete, progress };
+}
@@ -0,0 +1,106 @@
+import { normalizePrepSku, type PrepLineItem } from './order-prep-items';
+
+export type PrepScanResult = 'accepted' | 'wrong_item' | 'extra';
+
+export type PrepScanLineProgress = {
+  index: number;
+  sku: string | null;
+  name: string | null;
+  required: number;
+  scanned: number;
+  remaining: number;
+  exempt: boolean;
+};
+
+export type PrepScanProgress = {
+  lines: PrepScanLineProgress[];
+  complete: boolean;
+  remainingUnits: number;
+};
+
+export type PrepScanResolution = {
+  result: PrepScanResult;
+  lineIndex: number | null;
+  normalizedCode: string;
+};
+
+/**
+ * Counts accepted scans down against each line's quantity. Exempt lines (see
+ * `recordedExemptLineIndexes`) are not in the box, so there is nothing to scan
+ * for them.
+ */
+export function buildPrepScanProgress(
+  items: PrepLineItem[],
+  acceptedLineIndexes: number[],
+  exemptLineIndexes: number[] = [],
+): PrepScanProgress {
+  const scannedByLine = new Map<number, number>();
+  acceptedLineIndexes.forEach((index) => {
+    scannedByLine.set(index, (scannedByLine.get(index) ?? 0) + 1);
+  });
+  const exempt = new Set(exemptLineIndexes);
+
+  const lines = items.map((item) => {
+    const scanned = Math.min(item.quantity, scannedByLine.get(item.index) ?? 0);
+    const isExempt = exempt.has(item.index);
+    return {
+      index: item.index,
+      sku: item.sku,
+      name: item.name,
+      required: item.quantity,
+      scanned,
+      remaining: isExempt ? 0 : item.quantity - scanned,
+      exempt: isExempt,
+    };
+  });
+
+  const remainingUnits = lines.reduce((sum, line) => sum + line.remaining, 0);
+  return { lines, complete: remainingUnits === 0, remainingUnits };
+}
+
+/**
+ * Lines exempt from scanning, taken only from state the server recorded: SKUs
+ * with an open shortage record for the order and lines moved to a back order.
+ * Item statuses sent with a status change are never trusted here, otherwise a
+ * preparer could skip scanning by marking every line unavailable.
+ */
+export function recordedExemptLineIndexes(
+  items: PrepLineItem[],
+  unavailableSkus: Array<string | null>,
+  heldLineIndexes: number[] = [],
+): number[] {
+  const skus = new Set(unavailableSkus.map((sku) => normalizePrepSku(sku)).filter(Boolean));
+  const held = new Set(heldLineIndexes);
+  return items
+    .filter((item) => held.has(item.index) || (item.normalizedSku !== null && skus.has(item.normalizedSku)))
+    .map((item) => item.index);
+}
+
+/**
+ * Matches one scanned code to a line that still needs units. A code that
+ * belongs to the order but whose lines are all counted is an extra; a code that
+ * matches no line is a wrong item.
+ */
+export function resolvePrepScan(
+  items: PrepLineItem[],
+  progress: PrepScanProgress,
+  rawCode: string,
+): PrepScanResolution {
+  const normalizedCode = normalizePrepSku(rawCode) ?? '';
+  const matching = items.filter((item) => normalizedCode && item.scanCodes.includes(normalizedCode));
+
+  if (matching.length === 0) {
+    return { result: 'wrong_item', lineIndex: null, normalizedCode };
+  }
+
+  const open = matching.find((item) => {
+    const line = progress.lines.find((entry) => entry.index === item.index);
+    return line ? line.remaining > 0 : false;
+  });
+
+  if (!open) {
+    return { result: 'extra', lineIndex: matching[0].index, normalizedCode };
+  }
+
+  return { result: 'accepted', lineIndex: open.index, normalizedCode };
+}
@@ -5,24 +5,55 @@ import { getSallaAccessToken } from '@/app/lib/salla-oauth';
 import { fetchSallaWithRetry } from '@/app/lib/fetch-with-retry';
 import { getSallaOrderStatuses, getNewOrderStatusFilters } from '@/app/lib/salla-statuses';
 import { STATUS_IDS, STATUS_SLUGS } from '@/SALLA_ORDER_STATUSES';
-import { updateSallaOrderStatus } from '@/app/lib/salla-order-status';
+import { createSallaOrderHistoryEntry, updateSallaOrderStatus } from '@/app/lib/salla-order-status';
 import {
+  ORDER_PREP_LEASE_TTL_MS,
+  OrderPrepLeaseConflictError,
+  assertPrepLeaseClaimable,
+  assertPrepLeaseWritable,
   extractSallaStatus,
   isOrderStatusEligible,
   isOrderStatusAssignable,
 } from '@/app/lib/order-prep-status-guard';
 import { updateSallaOrder, type SallaShipToUpdate } from '@/app/lib/salla-api';
+import { checkPrepScanVerification } from '@/app/lib/order-prep-scan-verification';
+import type { PrepScanProgress } from '@/app/lib/order-prep-scan';
+import { SLA_ESCALATION_REASON_PREFIX, sortByPrepPriority } from '@/app/lib/order-prep-sla';
+import { describeBinPicks, planBinPicks } from '@/app/lib/product-bins';
+import {
+  countActiveAssignmentsByRule,
+  extractOrderRoutingFacts,
+  loadActiveRoutingRules,
+  loadRoutingFlags,
+} from '@/app/lib/order-routing';
+import {
+  checkRoutingClaim,
+  routeOrder,
+  type OrderRoutingDecision,
+  type OrderRoutingFacts,
+  type RoutingClaimCheck,
+} from '@/app/lib/order-routing-rules';
 
 const MERCHANT_ID = process.env.NEXT_PUBLIC_MERCHANT_ID || '1696031053';
 const SALLA_API_BASE = 'https://api.salla.dev/admin/v2';
 const FETCH_LIMIT = 40;
 
 const ACTIVE_ASSIGNMENT_STATUSES = new Set(['assigned', 'preparing', 'waiting']);
+// Back-order assignments wait here, outside every preparer's queue, until released.
+export const BACK_ORDER_ASSIGNMENT_STATUS = 'back_order';
 const DEFAULT_STATUS_FILTERS = ['under_review', '449146439', '566146469'];
 
 export type SerializedOrderPrepAssignment = Omit<
   OrderPrepAssignment,
-  'orderData' | 'assignedAt' | 'startedAt' | 'waitingAt' | 'completedAt' | 'cancelledAt' | 'lastStatusUpdateAt'
+  | 'orderData'
+  | 'assignedAt'
+  | 'startedAt'
+  | 'waitingAt'
+  | 'completedAt'
+  | 'cancelledAt'
+  | 'lastStatusUpdateAt'
+  | 'leaseExpiresAt'
+  | 'leaseHeartbeatAt'
 > & {
   orderData: Prisma.JsonValue;
   assignedAt: string;
@@ -31,6 +62,8 @@ export type SerializedOrderPrepAssignment = Omit<
   completedAt: string | null;
   cancelledAt: string | null;
   lastStatusUpdateAt: string;
+  leaseExpiresAt: string | null;
+  leaseHeartbeatAt: string | null;
 };
 
 export function serializeAssignment(record: OrderPrepAssignment): SerializedOrderPrepAssignment {
@@ -50,6 +83,14 @@ export function serializeAssignment(record: OrderPrepAssignment): SerializedOrde
     completedAt: record.completedAt ? record.completedAt.toISOString() : null,
     cancelledAt: record.cancelledAt ? record.cancelledAt.toISOString() : null,
     lastStatusUpdateAt: record.lastStatusUpdateAt.toISOString(),
+    waveId: record.waveId,
+    toteNumber: record.toteNumber,
+    routingRuleId: record.routingRuleId,
+    splitSequence: record.splitSequence,
+    backOrderId: record.backOrderId,
+    leaseHolder: record.leaseHolder,
+    leaseExpiresAt: record.leaseExpiresAt ? record.leaseExpiresAt.toISOString() : null,
+    leaseHeartbeatAt: record.leaseHeartbeatAt ? record.leaseHeartbeatAt.toISOString() : null,
   };
 }
 
@@ -71,21 +112,39 @@ export async function assignOldestOrderToUser(user: {
   id: string;
   name?: string | null;
 }): Promise<SerializedOrderPrepAssignment | null> {
+  const [assignment] = await assignOldestOrdersToUser(user, { limit: 1 });
+  return assignment ?? null;
+}
+
+/**
+ * Claims up to `limit` of the oldest assignable Salla orders for one user from a
+ * single candidate fetch. Wave picking passes a `waveId`; each claimed order then
+ * gets the next tote number in claim order. Orders reserved by a routing rule for
+ * other preparers are skipped, and orders routed to this user are taken first by
+ * rule weight.
+ */
+export async function assignOldestOrdersToUser(
+  user: { id: string; name?: string | null },
+  options: { limit: number; waveId?: string | null; firstToteNumber?: number },
+): Promise<SerializedOrderPrepAssignment[]> {
+  const claimed: SerializedOrderPrepAssignment[] = [];
+  const limit = Math.max(1, Math.floor(options.limit));
+
   if (!user?.id) {
-    return null;
+    return claimed;
   }
 
   const accessToken = await getSallaAccessToken(MERCHANT_ID);
   if (!accessToken) {
     log.error('Cannot assign order - missing Salla token');
-    return null;
+    return claimed;
   }
 
   const filters = await resolveStatusFilters();
   const candidateOrders = await fetchCandidateOrders(accessToken, filters);
 
   if (candidateOrders.length === 0) {
-    return null;
+    return claimed;
   }
 
   const orderIds = candidateOrders
@@ -93,10 +152,18 @@ export async function assignOldestOrderToUser(user: {
     .filter((id): id is string => Boolean(id));
 
   if (orderIds.length === 0) {
-    return null;
+    return claimed;
   }
 
-  const [existingAssignments, existingShipments, escalatedOrders] = await Promise.all([
+  const [
+    existingAssignments,
+    existingShipments,
+    escalatedOrders,
+    priorityOrders,
+    routingRules,
+    routingFlags,
+    activeByRule,
+  ] = await Promise.all([
     prisma.orderPrepAssignment.findMany({
       where: { merchantId: MERCHANT_ID, orderId: { in: orderIds } },
       select: { orderId: true },
@@ -110,16 +177,56 @@ export async function assignOldestOrderToUser(user: {
         merchantId: MERCHANT_ID,
         orderId: { in: orderIds },
         resolvedAt: null,
+        // SLA escalations are alerts for managers, not holds on the order.
+        NOT: { reason: { startsWith: SLA_ESCALATION_REASON_PREFIX } },
       },
       select: { orderId: true },
     }),
+    prisma.highPriorityOrder.findMany({
+      where: { merchantId: MERCHANT_ID, orderId: { in: orderIds } },
+      select: { orderId: true, createdAt: true },
+    }),
+    loadActiveRoutingRules(MERCHANT_ID),
+    loadRoutingFlags(MERCHANT_ID, orderIds),
+    countActiveAssignmentsByRule(user.id),
   ]);
 
   const assignedIds = new Set(existingAssignments.map((record) => record.orderId));
   const shippedIds = new Set(existingShipments.map((record) => record.orderId));
   const escalatedIds = new Set(escalatedOrders.map((record) => record.orderId));
+  const priorityFlaggedAt = new Map(
+    priorityOrders.map((record) => [record.orderId, record.createdAt.getTime()]),
+  );
+  const routingFactsFor = (orderId: string, order: unknown): OrderRoutingFacts =>
+    extractOrderRoutingFacts(orderId, order, {
+      isGift: routingFlags.giftIds.has(orderId),
+      isHighPriority: routingFlags.priorityIds.has(orderId),
+      warehouses: routingFlags.warehouses,
+    });
+  const queue = sortByPrepPriority(candidateOrders, extractOrderId, getOrderTimestamp, priorityFlaggedAt);
+
+  if (routingRules.length > 0) {
+    // The list payload is enough to rank by weight; the claim itself is checked
+    // again against the full order detail below.
+    const routingWeight = new Map<unknown, number>();
+    for (const order of queue) {
+      const orderId = extractOrderId(order);
+      const rule = orderId ? routeOrder(routingRules, routingFactsFor(orderId, order)).rule : null;
+      routingWeight.set(order, rule?.targetUserIds.includes(user.id) ? rule.weight : 0);
+    }
+    const isPriority = (order: unknown) => priorityFlaggedAt.has(extractOrderId(order) ?? '');
+    queue.sort(
+      (a, b) =>
+        Number(isPriority(b)) - Number(isPriority(a)) ||
+        (routingWeight.get(b) ?? 0) - (routingWeight.get(a) ?? 0),
+    );
+  }
+
+  for (const order of queue) {
+    if (claimed.length >= limit) {
+      break;
+    }
 
-  for (const order of candidateOrders) {
     const orderId = extractOrderId(order);
     if (!orderId || assignedIds.has(orderId) || escalatedIds.has(orderId)) {
       continue;
@@ -156,6 +263,19 @@ export async function assignOldestOrderToUser(user: {
       continue;
     }
 
+    const routing = routeOrder(routingRules, routingFactsFor(orderId, detail));
+    const routingRuleId = routing.rule?.id ?? null;
+    const claim = checkRoutingClaim(routing, user.id, routingRuleId ? activeByRule.get(routingRuleId) ?? 0 : 0);
+    if (!claim.allowed) {
+      log.info('Skipping order reserved by routing rule', {
+        orderId,
+        userId: user.id,
+        ruleId: routingRuleId,
+        reason: claim.reason,
+      });
+      continue;
+    }
+
     try {
       const assignment = await prisma.orderPrepAssignment.create({
         data: {
@@ -166,6 +286,9 @@ export async function assignOldestOrderToUser(user: {
           orderNumber: extractOrderNumber(detail),
           orderReference: extractOrderReference(detail),
           orderData: detail as Prisma.InputJsonValue,
+          waveId: options.waveId ?? null,
+          toteNumber: options.waveId ? (options.firstToteNumber ?? 1) + claimed.length : null,
+          routingRuleId,
         },
       });
 
@@ -173,11 +296,17 @@ export async function assignOldestOrderToUser(user: {
         userId: user.id,
         orderId,
         orderNumber: assignment.orderNumber,
+        waveId: assignment.waveId,
+        routingRuleId,
       });
 
       const finalAssignment = await applyPostalPatchIfNeeded(assignment);
 
-      return serializeAssignment(finalAssignment);
+      claimed.push(serializeAssignment(finalAssignment));
+      assignedIds.add(orderId);
+      if (routingRuleId) {
+        activeByRule.set(routingRuleId, (activeByRule.get(routingRuleId) ?? 0) + 1);
+      }
     } catch (error) {
       const isUniqueViolation =
         error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
@@ -189,7 +318,268 @@ export async function assignOldestOrderToUser(user: {
     }
   }
 
-  return null;
+  return claimed;
+}
+
+// Salla statuses the prep screen moves an order to when items are missing
+// (see the salla-status route). A restocked order may leave these again.
+const SHORTAGE_HOLD_STATUS_IDS = new Set([
+  String(STATUS_IDS.UNDER_REVIEW_X4),
+  String(STATUS_IDS.UNDER_REVIEW),
+]);
+
+function isShortageHoldStatus(status: any, subStatus: any): boolean {
+  return [status, subStatus].some((record) =>
+    [record?.id, record?.status_id, record?.statusId].some(
+      (candidate) => candidate !== undefined && candidate !== null && SHORTAGE_HOLD_STATUS_IDS.has(String(candidate)),
+    ),
+  );
+}
+
+export type ReturnToPreparerResult =
+  | { status: 'returned' | 'active'; assignment: SerializedOrderPrepAssignment }
+  | { status: 'skipped'; reason: string };
+
+/**
+ * Hands an order whose shortages were restocked back to a preparer. The order
+ * is skipped when it already left prep in Salla (cancelled, shipped...) or was
+ * completed here; an order someone still holds is left with them.
+ */
+export async function returnOrderToPreparer(options: {
+  orderId: string;
+  user: { id: string; name?: string | null };
+  restockedSkus: string[];
+  actorName: string;
+  merchantId?: string;
+}): Promise<ReturnToPreparerResult> {
+  const { orderId, user, restockedSkus, actorName } = options;
+  const merchantId = options.merchantId ?? MERCHANT_ID;
+
+  const existing = await prisma.orderPrepAssignment.findMany({
+    where: { merchantId, orderId },
+    orderBy: { splitSequence: 'desc' },
+  });
+  const active = existing.find((record) => ACTIVE_ASSIGNMENT_STATUSES.has(record.status));
+  if (active) {
+    return { status: 'active', assignment: serializeAssignment(active) };
+  }
+  // A split order waits on its parked back-order, not on a fresh claim.
+  const parked = existing.find((record) => record.status === BACK_ORDER_ASSIGNMENT_STATUS);
+  if (parked) {
+    const released = await releaseBackOrderAssignment({
+      assignmentId: parked.id,
+      user,
+      actorName,
+      restockedSkus,
+    });
+    return released
+      ? { status: 'returned', assignment: released }
+      : { status: 'skipped', reason: 'back_order_released_concurrently' };
+  }
+  if (existing.length > 0) {
+    return { status: 'skipped', reason: `assignment_${existing[0].status}` };
+  }
+
+  const accessToken = await getSallaAccessToken(merchantId);
+  if (!accessToken) {
+    return { status: 'skipped', reason: 'missing_salla_token' };
+  }
+  const detail = await fetchOrderDetailWithItems(orderId, accessToken);
+  if (!detail) {
+    return { status: 'skipped', reason: 'order_not_found' };
+  }
+
+  const { status, subStatus } = extractSallaStatus(detail);
+  if (!isOrderStatusEligible(status, subStatus) && !isShortageHoldStatus(status, subStatus)) {
+    return { status: 'skipped', reason: 'order_status_not_returnable' };
+  }
+
+  const now = new Date();
+  let assignment: OrderPrepAssignment;
+  try {
+    assignment = await prisma.orderPrepAssignment.create({
+      data: {
+        merchantId,
+        userId: user.id,
+        userName: user.name || 'المستخدم',
+        orderId,
+        orderNumber: extractOrderNumber(detail),
+        orderReference: extractOrderReference(detail),
+        orderData: {
+          ...detail,
+          prepRestock: { returnedAt: now.toISOString(), skus: restockedSkus },
+        } as Prisma.InputJsonValue,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { status: 'skipped', reason: 'assigned_concurrently' };
+    }
+    throw error;
+  }
+
+  await prisma.orderPrepEscalation.updateMany({
+    where: { merchantId, orderId, reason: 'missing_items', resolvedAt: null },
+    data: { resolvedAt: now, resolvedByName: actorName },
+  });
+
+  const history = await createSallaOrderHistoryEntry(
+    MERCHANT_ID,
+    orderId,
+    `توفرت النواقص (${restockedSkus.join('، ')}) وأعيد الطلب للتجهيز لدى ${assignment.userName}.`,
+  );
+  if (!history.success) {
+    log.warn('Failed to record restock note in Salla order history', { orderId, error: history.error });
+  }
+
+  log.info('Returned restocked order to preparer', { orderId, userId: user.id, assignmentId: assignment.id });
+  return { status: 'returned', assignment: serializeAssignment(assignment) };
+}
+
+/**
+ * Moves a parked back-order assignment onto a preparer's queue. The status
+ * check doubles as compare-and-set so the restock watcher and an admin can't
+ * both release the same back-order.
+ */
+export async function releaseBackOrderAssignment(options: {
+  assignmentId: string;
+  user: { id: string; name?: string | null };
+  actorName: string;
+  restockedSkus?: string[];
+}): Promise<SerializedOrderPrepAssignment | null> {
+  const { assignmentId, user, actorName, restockedSkus } = options;
+  const parked = await prisma.orderPrepAssignment.findUnique({ where: { id: assignmentId } });
+  if (!parked || parked.status !== BACK_ORDER_ASSIGNMENT_STATUS) {
+    return null;
+  }
+
+  const now = new Date();
+  const orderData = (toRecord(parked.orderData) ?? {}) as Record<string, unknown>;
+  const released = await prisma.orderPrepAssignment.updateMany({
+    where: { id: assignmentId, status: BACK_ORDER_ASSIGNMENT_STATUS },
+    data: {
+      status: 'assigned',
+      userId: user.id,
+      userName: user.name || 'المستخدم',
+      assignedAt: now,
+      orderData: (restockedSkus?.length
+        ? { ...orderData, prepRestock: { returnedAt: now.toISOString(), skus: restockedSkus } }
+        : orderData) as Prisma.InputJsonValue,
+    },
+  });
+  if (released.count === 0) {
+    return null;
+  }
+
+  if (parked.backOrderId) {
+    await prisma.orderBackOrder.update({
+      where: { id: parked.backOrderId },
+      data: { status: 'preparing', releasedAt: now },
+    });
+  }
+  await prisma.orderPrepEscalation.updateMany({
+    where: { merchantId: parked.merchantId, orderId: parked.orderId, reason: 'missing_items', resolvedAt: null },
+    data: { resolvedAt: now, resolvedByName: actorName },
+  });
+
+  const history = await createSallaOrderHistoryEntry(
+    parked.merchantId,
+    parked.orderId,
+    `بدأ تجهيز الشحنة المؤجلة رقم ${parked.splitSequence} لدى ${user.name || 'المستخدم'} (${actorName}).`,
+  );
+  if (!history.success) {
+    log.warn('Failed to record back-order release in Salla order history', {
+      orderId: parked.orderId,
+      error: history.error,
+    });
+  }
+
+  const updated = await prisma.orderPrepAssignment.findUnique({ where: { id: assignmentId } });
+  return updated ? serializeAssignment(updated) : null;
+}
+
+export type OrderRoutingExplanation = {
+  orderId: string;
+  orderNumber: string | null;
+  facts: OrderRoutingFacts;
+  decision: OrderRoutingDecision;
+  targets: Array<{ id: string; name: string; activeUnderRule: number; claim: RoutingClaimCheck }>;
+  user: { id: string; name: string; claim: RoutingClaimCheck } | null;
+};
+
+/**
+ * Dry run of the routing rules for one Salla order. Nothing is assigned; the
+ * result lists every rule evaluated and, for each targeted preparer (or the
+ * optional `userId`), whether they could claim the order right now.
+ */
+export async function explainOrderRouting(
+  orderId: string,
+  options: { userId?: string | null } = {},
+): Promise<OrderRoutingExplanation | null> {
+  const accessToken = await getSallaAccessToken(MERCHANT_ID);
+  if (!accessToken) {
+    log.error('Cannot explain order routing - missing Salla token');
+    return null;
+  }
+
+  const detail = await fetchOrderDetailWithItems(orderId, accessToken);
+  if (!detail || !extractOrderId(detail)) {
+    return null;
+  }
+
+  const [rules, flags] = await Promise.all([
+    loadActiveRoutingRules(MERCHANT_ID),
+    loadRoutingFlags(MERCHANT_ID, [orderId]),
+  ]);
+  const facts = extractOrderRoutingFacts(orderId, detail, {
+    isGift: flags.giftIds.has(orderId),
+    isHighPriority: flags.priorityIds.has(orderId),
+    warehouses: flags.warehouses,
+  });
+  const decision = routeOrder(rules, facts);
+  const ruleId = decision.rule?.id ?? null;
+
+  const userIds = Array.from(
+    new Set([...(decision.rule?.targetUserIds ?? []), ...(options.userId ? [options.userId] : [])]),
+  );
+  const [users, activeCounts] = await Promise.all([
+    prisma.orderUser.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, name: true },
+    }),
+    ruleId
+      ? prisma.orderPrepAssignment.groupBy({
+          by: ['userId'],
+          where: {
+            userId: { in: userIds },
+            routingRuleId: ruleId,
+            status: { in: Array.from(ACTIVE_ASSIGNMENT_STATUSES) },
+          },
+          _count: { _all: true },
+        })
+      : Promise.resolve([]),
+  ]);
+  const activeByUser = new Map(activeCounts.map((group) => [group.userId, group._count._all]));
+  const describeUser = (id: string) => {
+    const activeUnderRule = activeByUser.get(id) ?? 0;
+    return {
+      id,
+      name: users.find((record) => record.id === id)?.name || id,
+      activeUnderRule,
+      claim: checkRoutingClaim(decision, id, activeUnderRule),
+    };
+  };
+
+  const requested = options.userId ? describeUser(options.userId) : null;
+
+  return {
+    orderId,
+    orderNumber: extractOrderNumber(detail),
+    facts,
+    decision,
+    targets: (decision.rule?.targetUserIds ?? []).map(describeUser),
+    user: requested ? { id: requested.id, name: requested.name, claim: requested.claim } : null,
+  };
 }
 
 type ItemStatusPayload = {
@@ -206,13 +596,18 @@ export async function updateAssignmentStatus(options: {
   targetStatus: 'preparing' | 'waiting' | 'completed';
   skipSallaSync?: boolean;
   itemStatuses?: ItemStatusPayload[];
+  leaseHolder?: string | null;
+  /** Lines the order split just moved to a back-order; they ship later. */
+  heldLineIndexes?: number[];
 }): Promise<{
   assignment: SerializedOrderPrepAssignment;
   sallaStatusSynced: boolean;
   sallaError?: string;
   blocked?: boolean;
+  verificationError?: string;
+  scanProgress?: PrepScanProgress | null;
 } | null> {
-  const { assignmentId, userId, targetStatus, skipSallaSync, itemStatuses } = options;
+  const { assignmentId, userId, targetStatus, skipSallaSync, itemStatuses, leaseHolder, heldLineIndexes } = options;
 
   const assignment = await prisma.orderPrepAssignment.findUnique({
     where: { id: assignmentId },
@@ -222,6 +617,22 @@ export async function updateAssignmentStatus(options: {
     return null;
   }
 
+  // Refuse early, before Salla is touched, when another device holds the order.
+  assertPrepLeaseWritable(assignment, leaseHolder);
+
+  if (targetStatus === 'completed') {
+    const verification = await checkPrepScanVerification(assignment, { heldLineIndexes });
+    if (!verification.passed) {
+      return {
+        assignment: serializeAssignment(assignment),
+        sallaStatusSynced: false,
+        blocked: true,
+        verificationError: `لم يتم مسح جميع القطع بعد (المتبقي ${verification.progress?.remainingUnits ?? 0}). يرجى مسح كل منتج قبل إنهاء الطلب.`,
+        scanProgress: verification.progress,
+      };
+    }
+  }
+
   let currentOrderData: Prisma.JsonValue = assignment.orderData;
   if (targetStatus === 'completed') {
     const patchedOrderData = await ensureInternationalPostalCode(assignment);
@@ -232,7 +643,7 @@ export async function updateAssignmentStatus(options: {
   }
 
   const now = new Date();
-  const data: Prisma.OrderPrepAssignmentUpdateInput = {
+  const data: Prisma.OrderPrepAssignmentUpdateManyMutationInput = {
     status: targetStatus,
   };
 
@@ -245,7 +656,35 @@ export async function updateAssignmentStatus(options: {
     data.completedAt = now;
   }
 
-  const nextSallaStatusId = mapStatusToSalla(targetStatus);
+  if (targetStatus === 'completed') {
+    data.leaseHolder = null;
+    data.leaseExpiresAt = null;
+    data.orderData = updateStoredOrderStatus(currentOrderData, targetStatus, itemStatuses);
+  } else if (leaseHolder) {
+    data.leaseHolder = leaseHolder;
+    data.leaseExpiresAt = new Date(now.getTime() + ORDER_PREP_LEASE_TTL_MS);
+    data.leaseHeartbeatAt = now;
+  }
+
+  // Compare-and-set on the status read above and on the lease: a write from
+  // another device in the meantime makes this one stale. It runs before Salla
+  // is told anything so a stale device cannot move the order there.
+  const written = await prisma.orderPrepAssignment.updateMany({
+    where: { id: assignmentId, userId, status: assignment.status, ...prepLeaseWritableWhere(leaseHolder, now) },
+    data,
+  });
+  if (written.count === 0) {
+    log.warn('Rejected stale order prep status write', { assignmentId, targetStatus, leaseHolder });
+    throw new OrderPrepLeaseConflictError(
+      'تم تحديث هذا الطلب من جهاز آخر. حدّث الصفحة للاطلاع على حالته الحالية.',
+      { reclaimable: false, leaseExpiresAt: null },
+    );
+  }
+
+  // The order itself already moved on in Salla when its first shipment went
+  // out, so back-order progress is tracked here only.
+  const isBackOrder = Boolean(assignment.backOrderId);
+  const nextSallaStatusId = isBackOrder ? null : mapStatusToSalla(targetStatus);
   let sallaStatusSynced = false;
   let sallaError: string | undefined;
 
@@ -263,6 +702,17 @@ export async function updateAssignmentStatus(options: {
       });
 
       if (targetStatus === 'completed') {
+        // Salla still has the order open, so put the assignment back as it was.
+        await prisma.orderPrepAssignment.updateMany({
+          where: { id: assignmentId, userId, status: 'completed', completedAt: now },
+          data: {
+            status: assignment.status,
+            completedAt: assignment.completedAt,
+            leaseHolder: assignment.leaseHolder,
+            leaseExpiresAt: assignment.leaseExpiresAt,
+            orderData: currentOrderData as Prisma.InputJsonValue,
+          },
+        });
         return {
           assignment: serializeAssignment(assignment),
           sallaStatusSynced: false,
@@ -270,17 +720,22 @@ export async function updateAssignmentStatus(options: {
           blocked: true,
         };
       }
-    } else if (result.success) {
-      data.orderData = updateStoredOrderStatus(currentOrderData, targetStatus, itemStatuses);
+    } else if (result.success && targetStatus !== 'completed') {
+      await prisma.orderPrepAssignment.update({
+        where: { id: assignmentId },
+        data: { orderData: updateStoredOrderStatus(currentOrderData, targetStatus, itemStatuses) },
+      });
     }
-  } else if (targetStatus === 'completed') {
-    data.orderData = updateStoredOrderStatus(currentOrderData, targetStatus, itemStatuses);
   }
 
-  const updated = await prisma.orderPrepAssignment.update({
-    where: { id: assignmentId },
-    data,
-  });
+  const updated = await prisma.orderPrepAssignment.findUniqueOrThrow({ where: { id: assignmentId } });
+
+  if (targetStatus === 'completed' && assignment.backOrderId) {
+    await prisma.orderBackOrder.update({
+      where: { id: assignment.backOrderId },
+      data: { status: 'ready', readyAt: now },
+    });
+  }
 
   if (targetStatus === 'completed') {
     await prisma.orderPrepEscalation.updateMany({
@@ -304,6 +759,92 @@ export async function updateAssignmentStatus(options: {
   };
 }
 
+/** Rows whose lease is free, lapsed, or held by `holder` (the database side of the lease guard). */
+function prepLeaseWritableWhere(holder: string | null | undefined, now: Date): Prisma.OrderPrepAssignmentWhereInput {
+  return {
+    OR: [
+      ...(holder ? [{ leaseHolder: holder }] : []),
+      { leaseHolder: null },
+      { leaseExpiresAt: null },
+      { leaseExpiresAt: { lte: now } },
+    ],
+  };
+}
+
+/**
+ * Renews the calling device's lease on an active assignment, taking it when
+ * free. A lapsed lease from another device is only taken with `reclaim`.
+ * Heartbeats keep `lastStatusUpdateAt` as is so they don't read as progress.
+ */
+export async function heartbeatPrepLease(options: {
+  assignmentId: string;
+  userId: string;
+  holder: string;
+  reclaim?: boolean;
+}): Promise<SerializedOrderPrepAssignment | null> {
+  const { assignmentId, userId, holder, reclaim } = options;
+  const assignment = await prisma.orderPrepAssignment.findUnique({ where: { id: assignmentId } });
+  if (!assignment || assignment.userId !== userId || !ACTIVE_ASSIGNMENT_STATUSES.has(assignment.status)) {
+    return null;
+  }
+
+  const now = new Date();
+  assertPrepLeaseClaimable(assignment, holder, { reclaim }, now);
+
+  const renewed = await prisma.orderPrepAssignment.updateMany({
+    where: { id: assignmentId, userId, ...prepLeaseWritableWhere(holder, now) },
+    data: {
+      leaseHolder: holder,
+      leaseExpiresAt: new Date(now.getTime() + ORDER_PREP_LEASE_TTL_MS),
+      leaseHeartbeatAt: now,
+      lastStatusUpdateAt: assignment.lastStatusUpdateAt,
+    },
+  });
+  if (renewed.count === 0) {
+    throw new OrderPrepLeaseConflictError('استلم جهاز آخر هذا الطلب للتو.', {
+      reclaimable: false,
+      leaseExpiresAt: null,
+    });
+  }
+
+  if (assignment.leaseHolder && assignment.leaseHolder !== holder) {
+    log.info('Reclaimed expired order prep lease', {
+      assignmentId,
+      userId,
+      previousHolder: assignment.leaseHolder,
+      previousExpiresAt: assignment.leaseExpiresAt?.toISOString() ?? null,
+    });
+  }
+
+  const updated = await prisma.orderPrepAssignment.findUnique({ where: { id: assignmentId } });
+  return updated ? serializeAssignment(updated) : null;
+}
+
+/** Drops the device's lease (tab closed or order left) so another device can pick it up at once. */
+export async function releasePrepLease(options: {
+  assignmentId: string;
+  userId: string;
+  holder: string;
+}): Promise<boolean> {
+  const { assignmentId, userId, holder } = options;
+  const assignment = await prisma.orderPrepAssignment.findUnique({
+    where: { id: assignmentId },
+    select: { lastStatusUpdateAt: true },
+  });
+  if (!assignment) {
+    return false;
+  }
+  const released = await prisma.orderPrepAssignment.updateMany({
+    where: { id: assignmentId, userId, leaseHolder: holder },
+    data: {
+      leaseHolder: null,
+      leaseExpiresAt: null,
+      lastStatusUpdateAt: assignment.lastStatusUpdateAt,
+    },
+  });
+  return released.count > 0;
+}
+
 function updateStoredOrderStatus(
   orderData: Prisma.JsonValue,
   targetStatus: string,
@@ -968,6 +1509,9 @@ export async function attachProductLocations(detail: any) {
       productId: true,
       location: true,
       notes: true,
+      bins: {
+        select: { code: true, quantity: true, isPrimary: true },
+      },
     },
   });
 
@@ -1009,8 +1553,13 @@ export async function attachProductLocations(detail: any) {
     }
 
     if (match) {
-      item.inventoryLocation = match.location;
-      item.inventoryNotes = match.notes || null;
+      // Send the picker to the bin that holds the units, not just the
+      // SKU's usual pick face.
+      const picks = planBinPicks(match.bins, Number(item.quantity) || 1);
+      item.inventoryLocation = picks[0]?.code || match.location;
+      item.inventoryBins = picks;
+      item.inventoryNotes =
+        [describeBinPicks(picks), match.notes].filter(Boolean).join(' — ') || null;
     }
   });
 
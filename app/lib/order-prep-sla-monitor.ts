@@ -0,0 +1,219 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+import { getOrderPrepSlaThresholds } from '@/app/lib/settings';
+import { syncWaveCompletion } from '@/app/lib/order-prep-waves';
+import {
+  SLA_ESCALATION_REASON_PREFIX,
+  SLA_ESCALATION_REASONS,
+  evaluatePrepAssignmentSla,
+  type SlaBreach,
+} from '@/app/lib/order-prep-sla';
+
+const ACTIVE_ASSIGNMENT_STATUSES = ['assigned', 'preparing', 'waiting'];
+const MONITOR_ACTOR_NAME = 'مراقبة مهلة التجهيز';
+
+const breachLabels: Record<string, string> = {
+  [SLA_ESCALATION_REASONS.notStarted]: 'لم يبدأ تجهيز الطلب ضمن المهلة',
+  [SLA_ESCALATION_REASONS.prepOverdue]: 'تجاوز تجهيز الطلب المهلة المحددة',
+  [SLA_ESCALATION_REASONS.waitingOverdue]: 'بقي الطلب قيد الانتظار أكثر من المهلة',
+  [SLA_ESCALATION_REASONS.priorityWaiting]: 'طلب عالي الأولوية لم يتم تعيينه بعد',
+};
+
+export type OrderPrepSlaCheckResult = {
+  dryRun: boolean;
+  activeAssignments: number;
+  escalated: number;
+  released: number;
+  priorityEscalated: number;
+};
+
+function describeBreach(breach: SlaBreach, userName?: string | null): string {
+  const label = breachLabels[breach.reason] || breach.reason;
+  const owner = userName ? ` (المسؤول: ${userName})` : '';
+  return `${label}: ${breach.elapsedMinutes} دقيقة من أصل ${breach.thresholdMinutes} دقيقة${owner}`;
+}
+
+/**
+ * Scheduled SLA pass over order prep. Opens one `sla_*` escalation per order and
+ * reason, releases assignments nobody started, and flags high-priority orders
+ * that are still waiting for a preparer.
+ */
+export async function runOrderPrepSlaCheck(
+  options: { dryRun?: boolean; now?: Date } = {},
+): Promise<OrderPrepSlaCheckResult> {
+  const dryRun = Boolean(options.dryRun);
+  const now = options.now ?? new Date();
+  const thresholds = await getOrderPrepSlaThresholds();
+
+  const [assignments, openEscalations] = await Promise.all([
+    prisma.orderPrepAssignment.findMany({
+      where: { status: { in: ACTIVE_ASSIGNMENT_STATUSES } },
+      select: {
+        id: true,
+        merchantId: true,
+        orderId: true,
+        orderNumber: true,
+        orderData: true,
+        userId: true,
+        userName: true,
+        status: true,
+        assignedAt: true,
+        startedAt: true,
+        waitingAt: true,
+        waveId: true,
+      },
+    }),
+    prisma.orderPrepEscalation.findMany({
+      where: { resolvedAt: null, reason: { startsWith: SLA_ESCALATION_REASON_PREFIX } },
+      select: { merchantId: true, orderId: true, reason: true },
+    }),
+  ]);
+
+  const openKeys = new Set(
+    openEscalations.map((escalation) => `${escalation.merchantId}:${escalation.orderId}:${escalation.reason}`),
+  );
+  const openEscalation = async (
+    target: { merchantId: string; orderId: string; orderNumber: string | null },
+    reason: string,
+    notes: string,
+  ) => {
+    const key = `${target.merchantId}:${target.orderId}:${reason}`;
+    if (openKeys.has(key)) {
+      return false;
+    }
+    openKeys.add(key);
+    if (!dryRun) {
+      await prisma.orderPrepEscalation.create({
+        data: {
+          merchantId: target.merchantId,
+          orderId: target.orderId,
+          orderNumber: target.orderNumber,
+          reason,
+          notes,
+          createdByName: MONITOR_ACTOR_NAME,
+        },
+      });
+    }
+    return true;
+  };
+
+  let escalated = 0;
+  let released = 0;
+  const touchedWaves = new Set<string>();
+
+  for (const assignment of assignments) {
+    const { breach, release } = evaluatePrepAssignmentSla(assignment, thresholds, now);
+
+    if (breach && (await openEscalation(assignment, breach.reason, describeBreach(breach, assignment.userName)))) {
+      escalated += 1;
+    }
+
+    if (!release) {
+      continue;
+    }
+
+    if (!dryRun) {
+      // The row has to go so the order can be claimed again (one assignment
+      // per order), so the release is kept in the order history first.
+      const removed = await prisma.$transaction(async (tx) => {
+        // Guard on status so an assignment started since we loaded it is left alone.
+        const deleted = await tx.orderPrepAssignment.deleteMany({
+          where: { id: assignment.id, status: 'assigned' },
+        });
+        if (deleted.count === 0) {
+          return false;
+        }
+        await tx.orderHistory.create({
+          data: {
+            userId: assignment.userId,
+            userName: assignment.userName,
+            merchantId: assignment.merchantId,
+            orderId: assignment.orderId,
+            orderNumber: assignment.orderNumber ?? assignment.orderId,
+            orderData: assignment.orderData as Prisma.InputJsonValue,
+            status: 'released',
+            assignedAt: assignment.assignedAt,
+            startedAt: assignment.startedAt,
+            finishedAt: now,
+            notes: `${MONITOR_ACTOR_NAME}: أعيد الطلب لقائمة التوزيع بعد ${thresholds.releaseUnstartedMinutes} دقيقة دون بدء التجهيز`,
+          },
+        });
+        return true;
+      });
+      if (!removed) {
+        continue;
+      }
+      if (assignment.waveId) {
+        touchedWaves.add(assignment.waveId);
+      }
+    }
+
+    released += 1;
+    await openEscalation(
+      assignment,
+      SLA_ESCALATION_REASONS.released,
+      `تمت إعادة الطلب لقائمة التوزيع بعد ${thresholds.releaseUnstartedMinutes} دقيقة دون بدء التجهيز (كان مع ${assignment.userName})`,
+    );
+    log.info('Released abandoned order prep assignment', {
+      assignmentId: assignment.id,
+      orderId: assignment.orderId,
+      userName: assignment.userName,
+      dryRun,
+    });
+  }
+
+  for (const waveId of touchedWaves) {
+    await syncWaveCompletion(waveId);
+  }
+
+  let priorityEscalated = 0;
+  if (thresholds.priorityUnassignedMinutes > 0) {
+    const cutoff = new Date(now.getTime() - thresholds.priorityUnassignedMinutes * 60000);
+    const agingPriority = await prisma.highPriorityOrder.findMany({
+      where: { createdAt: { lt: cutoff } },
+      select: { merchantId: true, orderId: true, orderNumber: true, createdAt: true },
+    });
+
+    if (agingPriority.length > 0) {
+      const orderIds = agingPriority.map((order) => order.orderId);
+      const [prepRecords, shipments] = await Promise.all([
+        prisma.orderPrepAssignment.findMany({
+          where: { orderId: { in: orderIds } },
+          select: { merchantId: true, orderId: true },
+        }),
+        prisma.sallaShipment.findMany({
+          where: { orderId: { in: orderIds } },
+          select: { merchantId: true, orderId: true },
+        }),
+      ]);
+      const handled = new Set(
+        [...prepRecords, ...shipments].map((record) => `${record.merchantId}:${record.orderId}`),
+      );
+
+      for (const order of agingPriority) {
+        if (handled.has(`${order.merchantId}:${order.orderId}`)) {
+          continue;
+        }
+        const breach: SlaBreach = {
+          reason: SLA_ESCALATION_REASONS.priorityWaiting,
+          elapsedMinutes: Math.floor((now.getTime() - order.createdAt.getTime()) / 60000),
+          thresholdMinutes: thresholds.priorityUnassignedMinutes,
+        };
+        if (await openEscalation(order, breach.reason, describeBreach(breach))) {
+          priorityEscalated += 1;
+        }
+      }
+    }
+  }
+
+  const result = {
+    dryRun,
+    activeAssignments: assignments.length,
+    escalated,
+    released,
+    priorityEscalated,
+  };
+  log.info('Order prep SLA check finished', result);
+  return result;
+}
@@ -0,0 +1,126 @@
+/**
+ * SLA rules for order-prep assignments. Thresholds are minutes; 0 disables a
+ * rule. Escalations opened by the SLA monitor all carry the `sla_` reason
+ * prefix so they stay informational and never hold an order out of the pool.
+ */
+export const SLA_ESCALATION_REASON_PREFIX = 'sla_';
+
+export const SLA_ESCALATION_REASONS = {
+  notStarted: 'sla_not_started',
+  prepOverdue: 'sla_prep_overdue',
+  waitingOverdue: 'sla_waiting_overdue',
+  released: 'sla_released',
+  priorityWaiting: 'sla_priority_waiting',
+} as const;
+
+export type SlaEscalationReason = (typeof SLA_ESCALATION_REASONS)[keyof typeof SLA_ESCALATION_REASONS];
+
+export type OrderPrepSlaThresholds = {
+  assignedToStartedMinutes: number;
+  startedToCompletedMinutes: number;
+  waitingMinutes: number;
+  releaseUnstartedMinutes: number;
+  priorityUnassignedMinutes: number;
+};
+
+export type SlaAssignmentLike = {
+  status: string;
+  assignedAt: Date;
+  startedAt: Date | null;
+  waitingAt: Date | null;
+};
+
+export type SlaBreach = {
+  reason: SlaEscalationReason;
+  elapsedMinutes: number;
+  thresholdMinutes: number;
+};
+
+export function isSlaEscalationReason(reason: string | null | undefined): boolean {
+  return typeof reason === 'string' && reason.startsWith(SLA_ESCALATION_REASON_PREFIX);
+}
+
+function minutesBetween(from: Date, to: Date): number {
+  return Math.max(0, Math.floor((to.getTime() - from.getTime()) / 60000));
+}
+
+function breachIfOver(
+  reason: SlaEscalationReason,
+  from: Date | null,
+  thresholdMinutes: number,
+  now: Date,
+): SlaBreach | null {
+  if (!from || thresholdMinutes <= 0) return null;
+  const elapsedMinutes = minutesBetween(from, now);
+  return elapsedMinutes > thresholdMinutes ? { reason, elapsedMinutes, thresholdMinutes } : null;
+}
+
+/**
+ * Evaluates one active assignment. Only assignments that were never started are
+ * released automatically: a started order may already be half packed on a desk.
+ */
+export function evaluatePrepAssignmentSla(
+  assignment: SlaAssignmentLike,
+  thresholds: OrderPrepSlaThresholds,
+  now: Date = new Date(),
+): { breach: SlaBreach | null; release: boolean } {
+  switch (assignment.status) {
+    case 'assigned': {
+      const release =
+        thresholds.releaseUnstartedMinutes > 0 &&
+        minutesBetween(assignment.assignedAt, now) > thresholds.releaseUnstartedMinutes;
+      return {
+        breach: breachIfOver(
+          SLA_ESCALATION_REASONS.notStarted,
+          assignment.assignedAt,
+          thresholds.assignedToStartedMinutes,
+          now,
+        ),
+        release,
+      };
+    }
+    case 'preparing':
+      return {
+        breach: breachIfOver(
+          SLA_ESCALATION_REASONS.prepOverdue,
+          assignment.startedAt ?? assignment.assignedAt,
+          thresholds.startedToCompletedMinutes,
+          now,
+        ),
+        release: false,
+      };
+    case 'waiting':
+      return {
+        breach: breachIfOver(
+          SLA_ESCALATION_REASONS.waitingOverdue,
+          assignment.waitingAt,
+          thresholds.waitingMinutes,
+          now,
+        ),
+        release: false,
+      };
+    default:
+      return { breach: null, release: false };
+  }
+}
+
+/**
+ * Queue order for assignment: high-priority orders first, longest-flagged
+ * first, then everything else oldest first. `priorityFlaggedAt` maps order IDs
+ * to when they were flagged as high priority.
+ */
+export function sortByPrepPriority<T>(
+  orders: T[],
+  getOrderId: (order: T) => string | null,
+  getTimestamp: (order: T) => number,
+  priorityFlaggedAt: Map<string, number>,
+): T[] {
+  return [...orders].sort((a, b) => {
+    const aFlagged = priorityFlaggedAt.get(getOrderId(a) ?? '');
+    const bFlagged = priorityFlaggedAt.get(getOrderId(b) ?? '');
+    if (aFlagged !== undefined && bFlagged !== undefined) return aFlagged - bFlagged;
+    if (aFlagged !== undefined) return -1;
+    if (bFlagged !== undefined) return 1;
+    return getTimestamp(a) - getTimestamp(b);
+  });
+}
@@ -0,0 +1,160 @@
+import type { PrepLineItem } from '@/app/lib/order-prep-items';
+
+/**
+ * Partial fulfilment of an order: which lines ship now, which lines wait as a
+ * back-order, and which part of the order the next shipment label belongs to.
+ * Line indexes always refer to the original Salla `items` array so shipments,
+ * back-orders and prep assignments can be matched up later.
+ */
+
+export type SplitLine = {
+  lineIndex: number;
+  sku: string | null;
+  name: string | null;
+  quantity: number;
+};
+
+export type OrderSplitPlan = {
+  shipNow: SplitLine[];
+  backOrder: SplitLine[];
+};
+
+export type BackOrderLike = {
+  id: string;
+  sequence: number;
+  status: string;
+  lines: SplitLine[];
+};
+
+export type ShippedLineLike = {
+  lineIndex: number;
+  backOrderId: string | null;
+};
+
+export type PendingShipmentPart = {
+  backOrderId: string | null;
+  sequence: number;
+  lines: SplitLine[];
+};
+
+/** Keys the prep screen stores on `orderData` next to the Salla payload. */
+const PREP_METADATA_KEYS = ['prepRestock', 'prepSplit', 'prepBackOrder', 'prepItemStatuses'];
+
+export class OrderSplitError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'OrderSplitError';
+    this.statusCode = statusCode;
+  }
+}
+
+export function toSplitLine(line: PrepLineItem): SplitLine {
+  return { lineIndex: line.index, sku: line.sku, name: line.name, quantity: line.quantity };
+}
+
+export function planOrderSplit(lines: PrepLineItem[], shortLineIndexes: number[]): OrderSplitPlan {
+  const short = new Set(shortLineIndexes);
+  if (short.size === 0) {
+    throw new OrderSplitError('لا توجد منتجات ناقصة لتأجيلها');
+  }
+  const known = new Set(lines.map((line) => line.index));
+  if (Array.from(short).some((index) => !known.has(index))) {
+    throw new OrderSplitError('أحد المنتجات المحددة غير موجود في الطلب');
+  }
+
+  const shipNow = lines.filter((line) => !short.has(line.index)).map(toSplitLine);
+  if (shipNow.length === 0) {
+    throw new OrderSplitError('جميع منتجات الطلب ناقصة، لا يمكن شحن جزء منه');
+  }
+  return {
+    shipNow,
+    backOrder: lines.filter((line) => short.has(line.index)).map(toSplitLine),
+  };
+}
+
+export function parseSplitLines(value: unknown): SplitLine[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry: any): SplitLine[] =>
+    entry && typeof entry.lineIndex === 'number'
+      ? [{
+          lineIndex: entry.lineIndex,
+          sku: typeof entry.sku === 'string' ? entry.sku : null,
+          name: typeof entry.name === 'string' ? entry.name : null,
+          quantity: typeof entry.quantity === 'number' && entry.quantity > 0 ? entry.quantity : 1,
+        }]
+      : [],
+  );
+}
+
+/**
+ * Narrows an order payload to the back-ordered lines so the pick list, scan
+ * checks and shipping screen only ever see what this part contains.
+ */
+export function buildBackOrderOrderData(
+  orderData: unknown,
+  backOrder: { id: string; sequence: number; lineIndexes: number[] },
+): Record<string, unknown> {
+  const root = orderData && typeof orderData === 'object' ? (orderData as Record<string, unknown>) : {};
+  const items = Array.isArray(root.items) ? root.items : [];
+  const keep = new Set(backOrder.lineIndexes);
+  const rest = Object.fromEntries(
+    Object.entries(root).filter(([key]) => !PREP_METADATA_KEYS.includes(key)),
+  );
+  return {
+    ...rest,
+    items: items.filter((_, index) => keep.has(index)),
+    prepBackOrder: {
+      backOrderId: backOrder.id,
+      sequence: backOrder.sequence,
+      lineIndexes: backOrder.lineIndexes,
+    },
+  };
+}
+
+/**
+ * Applies a fresh Salla payload to a stored assignment without losing what
+ * the prep screen recorded on it, and without widening a back-order back to
+ * the whole order.
+ */
+export function rebuildPrepOrderData(previous: unknown, fresh: Record<string, unknown>): Record<string, unknown> {
+  const stored = previous && typeof previous === 'object' ? (previous as Record<string, unknown>) : {};
+  const metadata = Object.fromEntries(
+    PREP_METADATA_KEYS.filter((key) => stored[key] !== undefined).map((key) => [key, stored[key]]),
+  );
+  const backOrder = stored.prepBackOrder as { lineIndexes?: unknown } | undefined;
+  if (backOrder && Array.isArray(backOrder.lineIndexes) && Array.isArray(fresh.items)) {
+    const keep = new Set(backOrder.lineIndexes);
+    return { ...fresh, ...metadata, items: fresh.items.filter((_, index) => keep.has(index)) };
+  }
+  return { ...fresh, ...metadata };
+}
+
+/**
+ * Decides which lines the next shipment of an order carries: the lines that
+ * were not held back, until they have shipped, then each ready back-order in
+ * sequence. Returns null when nothing is waiting to ship.
+ */
+export function selectPendingShipmentPart(input: {
+  lines: SplitLine[];
+  backOrders: BackOrderLike[];
+  shipped: ShippedLineLike[];
+}): PendingShipmentPart | null {
+  const openBackOrders = input.backOrders
+    .filter((backOrder) => backOrder.status !== 'cancelled')
+    .sort((a, b) => a.sequence - b.sequence);
+  const heldBack = new Set(openBackOrders.flatMap((backOrder) => backOrder.lines.map((line) => line.lineIndex)));
+
+  const primaryShipped = input.shipped.some((line) => line.backOrderId === null);
+  if (!primaryShipped) {
+    const lines = input.lines.filter((line) => !heldBack.has(line.lineIndex));
+    return lines.length > 0 ? { backOrderId: null, sequence: 0, lines } : null;
+  }
+
+  const shippedBackOrders = new Set(input.shipped.map((line) => line.backOrderId).filter(Boolean));
+  const next = openBackOrders.find(
+    (backOrder) => backOrder.status === 'ready' && !shippedBackOrders.has(backOrder.id),
+  );
+  return next ? { backOrderId: next.id, sequence: next.sequence, lines: next.lines } : null;
+}
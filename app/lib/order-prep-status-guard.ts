@@ -197,3 +197,89 @@ export function isOrderStatusAssignable(status: any, subStatus?: any): boolean {
   }
   return false;
 }
+
+/**
+ * Prep leases: the device working an assignment renews its lease with a
+ * heartbeat, and status writes are accepted only from the lease holder. A lease
+ * that stopped beating (closed tab, dead phone) expires and can be reclaimed.
+ */
+export const ORDER_PREP_LEASE_TTL_MS = 90_000;
+export const ORDER_PREP_LEASE_HEARTBEAT_MS = 30_000;
+
+export type PrepLeaseLike = {
+  leaseHolder: string | null;
+  leaseExpiresAt: Date | null;
+};
+
+export type PrepLeaseState = 'free' | 'held' | 'expired' | 'foreign';
+
+export class OrderPrepLeaseConflictError extends Error {
+  statusCode = 409;
+  reclaimable: boolean;
+  leaseExpiresAt: Date | null;
+
+  constructor(message: string, options: { reclaimable: boolean; leaseExpiresAt: Date | null }) {
+    super(message);
+    this.name = 'OrderPrepLeaseConflictError';
+    this.reclaimable = options.reclaimable;
+    this.leaseExpiresAt = options.leaseExpiresAt;
+  }
+}
+
+/**
+ * `held` is the caller's own live lease, `foreign` another device's live lease,
+ * `expired` a lapsed lease from any device and `free` no lease at all.
+ */
+export function getPrepLeaseState(
+  lease: PrepLeaseLike,
+  holder: string | null | undefined,
+  now: Date = new Date(),
+): PrepLeaseState {
+  if (!lease.leaseHolder) {
+    return 'free';
+  }
+  if (!lease.leaseExpiresAt || lease.leaseExpiresAt.getTime() <= now.getTime()) {
+    return 'expired';
+  }
+  return holder && lease.leaseHolder === holder ? 'held' : 'foreign';
+}
+
+/**
+ * Rejects a write from a device that does not hold the lease. Writes against
+ * a free or lapsed lease pass; the caller's compare-and-set takes it over.
+ */
+export function assertPrepLeaseWritable(
+  lease: PrepLeaseLike,
+  holder: string | null | undefined,
+  now: Date = new Date(),
+): void {
+  if (getPrepLeaseState(lease, holder, now) === 'foreign') {
+    throw new OrderPrepLeaseConflictError(
+      'هذا الطلب مفتوح على جهاز آخر. أغلق الطلب هناك أو انتظر انتهاء جلسته ثم استلمه من هذا الجهاز.',
+      { reclaimable: false, leaseExpiresAt: lease.leaseExpiresAt },
+    );
+  }
+}
+
+/**
+ * Heartbeats renew the caller's own lease and take a free one. Taking over a
+ * lapsed lease from another device needs an explicit reclaim so the preparer
+ * sees that the order moved.
+ */
+export function assertPrepLeaseClaimable(
+  lease: PrepLeaseLike,
+  holder: string,
+  options: { reclaim?: boolean } = {},
+  now: Date = new Date(),
+): void {
+  const state = getPrepLeaseState(lease, holder, now);
+  if (state === 'foreign') {
+    assertPrepLeaseWritable(lease, holder, now);
+  }
+  if (state === 'expired' && lease.leaseHolder !== holder && !options.reclaim) {
+    throw new OrderPrepLeaseConflictError(
+      'انتهت جلسة الجهاز الآخر على هذا الطلب. يمكنك استلامه على هذا الجهاز.',
+      { reclaimable: true, leaseExpiresAt: lease.leaseExpiresAt },
+    );
+  }
+}
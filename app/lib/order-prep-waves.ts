@@ -0,0 +1,239 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+import {
+  assignOldestOrdersToUser,
+  serializeAssignment,
+  type SerializedOrderPrepAssignment,
+} from '@/app/lib/order-prep-service';
+import { buildWavePickList, type WavePickList } from '@/app/lib/order-prep-pick-list';
+
+const MERCHANT_ID = process.env.NEXT_PUBLIC_MERCHANT_ID || '1696031053';
+
+export const DEFAULT_WAVE_SIZE = 6;
+export const MAX_WAVE_SIZE = 12;
+
+const ACTIVE_WAVE_STATUSES = ['picking', 'sorting'];
+const ACTIVE_ASSIGNMENT_STATUSES = ['assigned', 'preparing', 'waiting'];
+
+export class OrderPrepWaveError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'OrderPrepWaveError';
+    this.statusCode = statusCode;
+  }
+}
+
+const waveInclude = {
+  assignments: { orderBy: [{ toteNumber: 'asc' }, { assignedAt: 'asc' }] },
+} satisfies Prisma.OrderPrepWaveInclude;
+
+type WaveWithAssignments = Prisma.OrderPrepWaveGetPayload<{ include: typeof waveInclude }>;
+
+export type SerializedOrderPrepWave = {
+  id: string;
+  userId: string;
+  userName: string;
+  status: string;
+  orderCount: number;
+  createdAt: string;
+  pickedAt: string | null;
+  completedAt: string | null;
+  assignments: SerializedOrderPrepAssignment[];
+  pickList: WavePickList;
+};
+
+function serializeWave(wave: WaveWithAssignments): SerializedOrderPrepWave {
+  return {
+    id: wave.id,
+    userId: wave.userId,
+    userName: wave.userName,
+    status: wave.status,
+    orderCount: wave.orderCount,
+    createdAt: wave.createdAt.toISOString(),
+    pickedAt: wave.pickedAt ? wave.pickedAt.toISOString() : null,
+    completedAt: wave.completedAt ? wave.completedAt.toISOString() : null,
+    assignments: wave.assignments.map(serializeAssignment),
+    pickList: buildWavePickList(wave.assignments),
+  };
+}
+
+export async function getActiveWaveForUser(userId: string): Promise<SerializedOrderPrepWave | null> {
+  const wave = await prisma.orderPrepWave.findFirst({
+    where: { userId, status: { in: ACTIVE_WAVE_STATUSES } },
+    orderBy: { createdAt: 'desc' },
+    include: waveInclude,
+  });
+
+  if (!wave) {
+    return null;
+  }
+
+  const synced = await syncWaveCompletion(wave.id);
+  return synced && synced.status !== 'completed' ? serializeWave(synced) : null;
+}
+
+export async function getWaveForUser(waveId: string, userId: string): Promise<SerializedOrderPrepWave | null> {
+  const wave = await prisma.orderPrepWave.findUnique({
+    where: { id: waveId },
+    include: waveInclude,
+  });
+  if (!wave || wave.userId !== userId) {
+    return null;
+  }
+  return serializeWave(wave);
+}
+
+/**
+ * Claims a wave of the oldest assignable orders for one preparer. Orders the
+ * preparer already holds outside a wave (the order-prep screen auto-assigns one
+ * on load) join the wave first and take the lowest tote numbers.
+ */
+export async function claimWaveForUser(
+  user: { id: string; name?: string | null },
+  requestedSize?: number | null,
+): Promise<SerializedOrderPrepWave> {
+  const size = Math.min(
+    MAX_WAVE_SIZE,
+    Math.max(2, Math.floor(Number(requestedSize) || DEFAULT_WAVE_SIZE)),
+  );
+
+  const existingWave = await prisma.orderPrepWave.findFirst({
+    where: { userId: user.id, status: { in: ACTIVE_WAVE_STATUSES } },
+    select: { id: true },
+  });
+  if (existingWave) {
+    const synced = await syncWaveCompletion(existingWave.id);
+    if (synced && synced.status !== 'completed') {
+      throw new OrderPrepWaveError('لديك دفعة تجميع مفتوحة، يرجى إنهاؤها أولاً', 409);
+    }
+  }
+
+  const heldAssignments = await prisma.orderPrepAssignment.findMany({
+    where: { userId: user.id, waveId: null, status: { in: ACTIVE_ASSIGNMENT_STATUSES } },
+    orderBy: { assignedAt: 'asc' },
+    select: { id: true },
+  });
+
+  // Serializable so two claims from the same preparer cannot both see no open
+  // wave and each open one; the losing claim fails with P2034.
+  let wave: { id: string };
+  try {
+    wave = await prisma.$transaction(
+      async (tx) => {
+        const openWaves = await tx.orderPrepWave.count({
+          where: { userId: user.id, status: { in: ACTIVE_WAVE_STATUSES } },
+        });
+        if (openWaves > 0) {
+          throw new OrderPrepWaveError('لديك دفعة تجميع مفتوحة، يرجى إنهاؤها أولاً', 409);
+        }
+        return tx.orderPrepWave.create({
+          data: {
+            merchantId: MERCHANT_ID,
+            userId: user.id,
+            userName: user.name || 'المستخدم',
+          },
+          select: { id: true },
+        });
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+    );
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+      throw new OrderPrepWaveError('لديك دفعة تجميع مفتوحة، يرجى إنهاؤها أولاً', 409);
+    }
+    throw error;
+  }
+
+  await Promise.all(
+    heldAssignments.map((assignment, index) =>
+      prisma.orderPrepAssignment.update({
+        where: { id: assignment.id },
+        data: { waveId: wave.id, toteNumber: index + 1 },
+      }),
+    ),
+  );
+
+  const remaining = size - heldAssignments.length;
+  const claimed =
+    remaining > 0
+      ? await assignOldestOrdersToUser(user, {
+          limit: remaining,
+          waveId: wave.id,
+          firstToteNumber: heldAssignments.length + 1,
+        })
+      : [];
+  const orderCount = heldAssignments.length + claimed.length;
+
+  if (orderCount === 0) {
+    await prisma.orderPrepWave.delete({ where: { id: wave.id } });
+    throw new OrderPrepWaveError('لا توجد طلبات جديدة متاحة حالياً', 404);
+  }
+
+  const updated = await prisma.orderPrepWave.update({
+    where: { id: wave.id },
+    data: { orderCount },
+    include: waveInclude,
+  });
+
+  log.info('Claimed order prep wave', {
+    waveId: wave.id,
+    userId: user.id,
+    requestedSize: size,
+    adopted: heldAssignments.length,
+    claimed: claimed.length,
+  });
+
+  return serializeWave(updated);
+}
+
+/**
+ * Marks the combined pick as finished so the preparer moves on to sorting the
+ * units into totes. Orders inside the wave keep their own statuses.
+ */
+export async function markWavePicked(waveId: string, userId: string): Promise<SerializedOrderPrepWave | null> {
+  const wave = await prisma.orderPrepWave.findUnique({ where: { id: waveId } });
+  if (!wave || wave.userId !== userId) {
+    return null;
+  }
+  if (wave.status !== 'picking') {
+    throw new OrderPrepWaveError('تم إنهاء التجميع لهذه الدفعة مسبقاً', 409);
+  }
+
+  const updated = await prisma.orderPrepWave.update({
+    where: { id: waveId },
+    data: { status: 'sorting', pickedAt: new Date() },
+    include: waveInclude,
+  });
+  return serializeWave(updated);
+}
+
+/**
+ * Closes a wave once none of its orders is still active. Orders leave a wave
+ * by completing, or by being removed when their Salla status changes.
+ */
+export async function syncWaveCompletion(waveId: string): Promise<WaveWithAssignments | null> {
+  const wave = await prisma.orderPrepWave.findUnique({
+    where: { id: waveId },
+    include: waveInclude,
+  });
+  if (!wave || !ACTIVE_WAVE_STATUSES.includes(wave.status)) {
+    return wave;
+  }
+
+  const stillActive = wave.assignments.some((assignment) =>
+    ACTIVE_ASSIGNMENT_STATUSES.includes(assignment.status),
+  );
+  if (stillActive) {
+    return wave;
+  }
+
+  log.info('Order prep wave completed', { waveId, userId: wave.userId });
+  return prisma.orderPrepWave.update({
+    where: { id: waveId },
+    data: { status: 'completed', completedAt: new Date() },
+    include: waveInclude,
+  });
+}
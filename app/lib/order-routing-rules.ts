@@ -0,0 +1,281 @@
+/**
+ * Rule matching for order prep routing. Kept free of Prisma so the dry-run
+ * explanation and the live assignment path share exactly the same logic.
+ */
+export type OrderRoutingFacts = {
+  orderId: string;
+  country: string;
+  isInternational: boolean;
+  paymentMethod: string | null;
+  isCod: boolean;
+  shippingCompany: string | null;
+  isGift: boolean;
+  isHighPriority: boolean;
+  /** `Warehouse.code` of the Salla branch the order ships from. */
+  warehouses: string[];
+  /** Salla category names and SKU prefixes of the order lines. */
+  skuCategories: string[];
+};
+
+export type RoutingWarehouseLike = {
+  code: string | null;
+  name: string;
+};
+
+export type OrderRoutingRuleLike = {
+  id: string;
+  name: string;
+  position: number;
+  isActive: boolean;
+  destination: string | null;
+  countries: string[];
+  paymentType: string | null;
+  paymentMethods: string[];
+  shippingCompanies: string[];
+  isGift: boolean | null;
+  isHighPriority: boolean | null;
+  warehouseCodes: string[];
+  skuCategories: string[];
+  targetUserIds: string[];
+  teamName: string | null;
+  weight: number;
+  capacity: number | null;
+};
+
+export type RoutingCondition =
+  | 'destination'
+  | 'country'
+  | 'paymentType'
+  | 'paymentMethod'
+  | 'shippingCompany'
+  | 'gift'
+  | 'highPriority'
+  | 'warehouse'
+  | 'skuCategory';
+
+export type RoutingConditionCheck = {
+  condition: RoutingCondition;
+  expected: string;
+  actual: string;
+  passed: boolean;
+};
+
+export type RoutingRuleEvaluation = {
+  ruleId: string;
+  ruleName: string;
+  position: number;
+  matched: boolean;
+  skippedReason: string | null;
+  checks: RoutingConditionCheck[];
+};
+
+export type OrderRoutingDecision = {
+  rule: Pick<
+    OrderRoutingRuleLike,
+    'id' | 'name' | 'teamName' | 'targetUserIds' | 'weight' | 'capacity'
+  > | null;
+  evaluations: RoutingRuleEvaluation[];
+  explanation: string;
+};
+
+export type RoutingClaimCheck = {
+  allowed: boolean;
+  reason: string;
+};
+
+const COD_PAYMENT_METHODS = new Set(['cod', 'cash_on_delivery', 'cashondelivery', 'الدفع عند الاستلام']);
+
+export function normalizeRoutingValue(value: unknown): string {
+  if (typeof value !== 'string' && typeof value !== 'number') return '';
+  return String(value).trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function isCodPaymentMethod(method: string | null | undefined): boolean {
+  return COD_PAYMENT_METHODS.has(normalizeRoutingValue(method));
+}
+
+/** SKU prefix used as a category fallback, e.g. "AB-52-L" → "ab". */
+export function skuCategoryPrefix(sku: string | null | undefined): string | null {
+  const normalized = normalizeRoutingValue(sku);
+  if (!normalized) return null;
+  const [prefix] = normalized.split('-');
+  return prefix && prefix !== normalized ? prefix : null;
+}
+
+/**
+ * Maps the Salla branch references on an order (branch id or name) to the
+ * codes of the warehouses they name. Rules are written against
+ * `Warehouse.code`, so a branch that matches no active warehouse by code or
+ * name drops out instead of being compared raw.
+ */
+export function resolveBranchWarehouseCodes(
+  branchRefs: string[],
+  warehouses: RoutingWarehouseLike[],
+): string[] {
+  const refs = new Set(branchRefs.map(normalizeRoutingValue).filter(Boolean));
+  const codes = warehouses
+    .filter(
+      (warehouse) =>
+        warehouse.code &&
+        (refs.has(normalizeRoutingValue(warehouse.code)) || refs.has(normalizeRoutingValue(warehouse.name))),
+    )
+    .map((warehouse) => warehouse.code as string);
+  return Array.from(new Set(codes));
+}
+
+const describeList = (values: string[]) => (values.length > 0 ? values.join('، ') : '—');
+const describeFlag = (value: boolean) => (value ? 'نعم' : 'لا');
+
+function anyOverlap(expected: string[], actual: string[]): boolean {
+  const wanted = new Set(expected.map(normalizeRoutingValue).filter(Boolean));
+  return actual.some((value) => wanted.has(normalizeRoutingValue(value)));
+}
+
+export function evaluateRoutingRule(
+  rule: OrderRoutingRuleLike,
+  facts: OrderRoutingFacts,
+): RoutingRuleEvaluation {
+  const checks: RoutingConditionCheck[] = [];
+  const add = (condition: RoutingCondition, expected: string, actual: string, passed: boolean) =>
+    checks.push({ condition, expected, actual, passed });
+
+  if (rule.destination === 'domestic' || rule.destination === 'international') {
+    const actual = facts.isInternational ? 'international' : 'domestic';
+    add('destination', rule.destination, actual, actual === rule.destination);
+  }
+  if (rule.countries.length > 0) {
+    add('country', describeList(rule.countries), facts.country || '—', anyOverlap(rule.countries, [facts.country]));
+  }
+  if (rule.paymentType === 'cod' || rule.paymentType === 'prepaid') {
+    const actual = facts.isCod ? 'cod' : 'prepaid';
+    add('paymentType', rule.paymentType, actual, actual === rule.paymentType);
+  }
+  if (rule.paymentMethods.length > 0) {
+    add(
+      'paymentMethod',
+      describeList(rule.paymentMethods),
+      facts.paymentMethod || '—',
+      anyOverlap(rule.paymentMethods, facts.paymentMethod ? [facts.paymentMethod] : []),
+    );
+  }
+  if (rule.shippingCompanies.length > 0) {
+    add(
+      'shippingCompany',
+      describeList(rule.shippingCompanies),
+      facts.shippingCompany || '—',
+      anyOverlap(rule.shippingCompanies, facts.shippingCompany ? [facts.shippingCompany] : []),
+    );
+  }
+  if (typeof rule.isGift === 'boolean') {
+    add('gift', describeFlag(rule.isGift), describeFlag(facts.isGift), rule.isGift === facts.isGift);
+  }
+  if (typeof rule.isHighPriority === 'boolean') {
+    add(
+      'highPriority',
+      describeFlag(rule.isHighPriority),
+      describeFlag(facts.isHighPriority),
+      rule.isHighPriority === facts.isHighPriority,
+    );
+  }
+  if (rule.warehouseCodes.length > 0) {
+    add(
+      'warehouse',
+      describeList(rule.warehouseCodes),
+      describeList(facts.warehouses),
+      anyOverlap(rule.warehouseCodes, facts.warehouses),
+    );
+  }
+  if (rule.skuCategories.length > 0) {
+    add(
+      'skuCategory',
+      describeList(rule.skuCategories),
+      describeList(facts.skuCategories),
+      anyOverlap(rule.skuCategories, facts.skuCategories),
+    );
+  }
+
+  return {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    position: rule.position,
+    matched: checks.every((check) => check.passed),
+    skippedReason: null,
+    checks,
+  };
+}
+
+export function sortRoutingRules<T extends Pick<OrderRoutingRuleLike, 'position' | 'id'>>(rules: T[]): T[] {
+  return [...rules].sort((a, b) => a.position - b.position || a.id.localeCompare(b.id));
+}
+
+/**
+ * Walks the rules in position order and stops at the first active rule that
+ * matches. Every rule looked at is returned so the dry run can show why earlier
+ * rules did not apply.
+ */
+export function routeOrder(rules: OrderRoutingRuleLike[], facts: OrderRoutingFacts): OrderRoutingDecision {
+  const evaluations: RoutingRuleEvaluation[] = [];
+
+  for (const rule of sortRoutingRules(rules)) {
+    if (!rule.isActive || rule.targetUserIds.length === 0) {
+      evaluations.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        position: rule.position,
+        matched: false,
+        skippedReason: rule.isActive ? 'القاعدة بدون مستخدمين مستهدفين' : 'القاعدة غير مفعلة',
+        checks: [],
+      });
+      continue;
+    }
+
+    const evaluation = evaluateRoutingRule(rule, facts);
+    evaluations.push(evaluation);
+    if (evaluation.matched) {
+      const target = rule.teamName ? `فريق ${rule.teamName}` : `${rule.targetUserIds.length} مستخدم`;
+      return {
+        rule: {
+          id: rule.id,
+          name: rule.name,
+          teamName: rule.teamName,
+          targetUserIds: rule.targetUserIds,
+          weight: rule.weight,
+          capacity: rule.capacity,
+        },
+        evaluations,
+        explanation: `طابق الطلب القاعدة "${rule.name}" (الترتيب ${rule.position}) ويُوجَّه إلى ${target}`,
+      };
+    }
+  }
+
+  return {
+    rule: null,
+    evaluations,
+    explanation: 'لم يطابق الطلب أي قاعدة، لذلك يمكن لأي مجهز استلامه',
+  };
+}
+
+/**
+ * Whether one preparer may claim a routed order. `activeUnderRule` is how many
+ * active prep orders the user already holds that were routed by the same rule.
+ */
+export function checkRoutingClaim(
+  decision: Pick<OrderRoutingDecision, 'rule'>,
+  userId: string,
+  activeUnderRule: number,
+): RoutingClaimCheck {
+  const rule = decision.rule;
+  if (!rule) {
+    return { allowed: true, reason: 'الطلب غير مقيد بقاعدة توجيه' };
+  }
+  if (!rule.targetUserIds.includes(userId)) {
+    return { allowed: false, reason: `الطلب محجوز لمستخدمي القاعدة "${rule.name}"` };
+  }
+  if (typeof rule.capacity === 'number' && rule.capacity > 0 && activeUnderRule >= rule.capacity) {
+    return {
+      allowed: false,
+      reason: `بلغ المستخدم الحد الأقصى (${rule.capacity}) لطلبات القاعدة "${rule.name}"`,
+    };
+  }
+  return { allowed: true, reason: `المستخدم ضمن مستهدفي القاعدة "${rule.name}"` };
+}
@@ -0,0 +1,213 @@
+import type { OrderRoutingRule, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { detectInternationalOrder } from '@/app/lib/order-destination';
+import { getShippingCompanyName } from '@/app/lib/shipping-company';
+import { extractPaymentMethod } from '@/app/lib/salla-orders';
+import { extractPrepLineItems } from '@/app/lib/order-prep-items';
+import { cleanList, optionalBoolean, stringOf } from '@/app/lib/input-values';
+import {
+  isCodPaymentMethod,
+  normalizeRoutingValue,
+  resolveBranchWarehouseCodes,
+  skuCategoryPrefix,
+  type OrderRoutingFacts,
+  type RoutingWarehouseLike,
+} from '@/app/lib/order-routing-rules';
+
+const ACTIVE_ASSIGNMENT_STATUSES = ['assigned', 'preparing', 'waiting'];
+const DESTINATIONS = new Set(['domestic', 'international']);
+const PAYMENT_TYPES = new Set(['cod', 'prepaid']);
+
+export class OrderRoutingRuleError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'OrderRoutingRuleError';
+    this.statusCode = statusCode;
+  }
+}
+
+export type OrderRoutingRuleInput = Omit<
+  Prisma.OrderRoutingRuleUncheckedCreateInput,
+  'id' | 'merchantId' | 'createdAt' | 'updatedAt' | 'createdById' | 'createdByName'
+>;
+
+export type SerializedOrderRoutingRule = Omit<OrderRoutingRule, 'createdAt' | 'updatedAt'> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+export function serializeRoutingRule(rule: OrderRoutingRule): SerializedOrderRoutingRule {
+  return {
+    ...rule,
+    createdAt: rule.createdAt.toISOString(),
+    updatedAt: rule.updatedAt.toISOString(),
+  };
+}
+
+export async function loadActiveRoutingRules(merchantId: string): Promise<OrderRoutingRule[]> {
+  return prisma.orderRoutingRule.findMany({
+    where: { merchantId, isActive: true },
+    orderBy: [{ position: 'asc' }, { id: 'asc' }],
+  });
+}
+
+/** Active prep orders per routing rule for one preparer, used for rule capacity. */
+export async function countActiveAssignmentsByRule(userId: string): Promise<Map<string, number>> {
+  const groups = await prisma.orderPrepAssignment.groupBy({
+    by: ['routingRuleId'],
+    where: {
+      userId,
+      status: { in: ACTIVE_ASSIGNMENT_STATUSES },
+      routingRuleId: { not: null },
+    },
+    _count: { _all: true },
+  });
+
+  return new Map(
+    groups
+      .filter((group) => group.routingRuleId)
+      .map((group) => [group.routingRuleId as string, group._count._all]),
+  );
+}
+
+/**
+ * Gift and high-priority flags are admin-set tables, not part of the Salla
+ * payload; the warehouses translate Salla branches into warehouse codes.
+ */
+export async function loadRoutingFlags(merchantId: string, orderIds: string[]) {
+  if (orderIds.length === 0) {
+    return { giftIds: new Set<string>(), priorityIds: new Set<string>(), warehouses: [] };
+  }
+  const [gifts, priorities, warehouses] = await Promise.all([
+    prisma.orderGiftFlag.findMany({
+      where: { merchantId, orderId: { in: orderIds } },
+      select: { orderId: true },
+    }),
+    prisma.highPriorityOrder.findMany({
+      where: { merchantId, orderId: { in: orderIds } },
+      select: { orderId: true },
+    }),
+    prisma.warehouse.findMany({
+      where: { isActive: true, code: { not: null } },
+      select: { code: true, name: true },
+    }),
+  ]);
+  return {
+    giftIds: new Set(gifts.map((record) => record.orderId)),
+    priorityIds: new Set(priorities.map((record) => record.orderId)),
+    warehouses,
+  };
+}
+
+function collectItemCategories(item: any): string[] {
+  const sources = [item?.categories, item?.product?.categories];
+  const names = sources.flatMap((source) =>
+    Array.isArray(source) ? source.map((category: any) => stringOf(category?.name) ?? stringOf(category)) : [],
+  );
+  names.push(stringOf(item?.category?.name) ?? stringOf(item?.category));
+  names.push(stringOf(item?.product?.category?.name) ?? stringOf(item?.product?.category));
+  return names.filter((name): name is string => Boolean(name));
+}
+
+export function extractOrderRoutingFacts(
+  orderId: string,
+  orderData: unknown,
+  flags: { isGift: boolean; isHighPriority: boolean; warehouses: RoutingWarehouseLike[] },
+): OrderRoutingFacts {
+  const root = (orderData && typeof orderData === 'object' ? orderData : {}) as Record<string, any>;
+  const { isInternational, country } = detectInternationalOrder(orderData);
+  const paymentMethod = extractPaymentMethod(root);
+  const shipping = root.shipping ?? root.order?.shipping ?? {};
+  const rawItems: any[] = Array.isArray(root.items) ? root.items : [];
+
+  const categories = new Set<string>();
+  for (const line of extractPrepLineItems(orderData)) {
+    const prefix = skuCategoryPrefix(line.sku);
+    if (prefix) categories.add(prefix);
+    collectItemCategories(rawItems[line.index]).forEach((name) => categories.add(normalizeRoutingValue(name)));
+  }
+
+  const branchRefs = [
+    stringOf(shipping.branch_id),
+    stringOf(shipping.branch?.id),
+    stringOf(shipping.branch?.name),
+    stringOf(root.branch?.id),
+    stringOf(root.branch?.name),
+  ].filter((value): value is string => Boolean(value));
+
+  return {
+    orderId,
+    country,
+    isInternational,
+    paymentMethod,
+    isCod: isCodPaymentMethod(paymentMethod),
+    shippingCompany: getShippingCompanyName(orderData),
+    isGift: flags.isGift,
+    isHighPriority: flags.isHighPriority,
+    warehouses: resolveBranchWarehouseCodes(branchRefs, flags.warehouses),
+    skuCategories: Array.from(categories),
+  };
+}
+
+const optionalInt = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? Math.floor(numeric) : null;
+};
+
+/**
+ * Validates an admin rule payload. Unknown condition values are rejected rather
+ * than ignored so a typo never silently widens a rule.
+ */
+export async function parseRoutingRuleInput(body: any): Promise<OrderRoutingRuleInput> {
+  const name = stringOf(body?.name);
+  if (!name) {
+    throw new OrderRoutingRuleError('اسم القاعدة مطلوب');
+  }
+
+  const destination = stringOf(body?.destination);
+  if (destination && !DESTINATIONS.has(destination)) {
+    throw new OrderRoutingRuleError('قيمة الوجهة غير صحيحة');
+  }
+  const paymentType = stringOf(body?.paymentType);
+  if (paymentType && !PAYMENT_TYPES.has(paymentType)) {
+    throw new OrderRoutingRuleError('نوع الدفع غير صحيح');
+  }
+
+  const targetUserIds = cleanList(body?.targetUserIds);
+  if (targetUserIds.length === 0) {
+    throw new OrderRoutingRuleError('يجب اختيار مستخدم أو فريق للقاعدة');
+  }
+  const knownUsers = await prisma.orderUser.count({ where: { id: { in: targetUserIds } } });
+  if (knownUsers !== targetUserIds.length) {
+    throw new OrderRoutingRuleError('بعض المستخدمين المحددين غير موجودين');
+  }
+
+  const weight = optionalInt(body?.weight) ?? 1;
+  const capacity = optionalInt(body?.capacity);
+  if (weight < 0 || (capacity !== null && capacity < 0)) {
+    throw new OrderRoutingRuleError('الوزن والسعة يجب أن تكون أرقاماً موجبة');
+  }
+
+  return {
+    name,
+    position: optionalInt(body?.position) ?? 0,
+    isActive: optionalBoolean(body?.isActive) ?? true,
+    destination,
+    countries: cleanList(body?.countries),
+    paymentType,
+    paymentMethods: cleanList(body?.paymentMethods),
+    shippingCompanies: cleanList(body?.shippingCompanies),
+    isGift: optionalBoolean(body?.isGift),
+    isHighPriority: optionalBoolean(body?.isHighPriority),
+    warehouseCodes: cleanList(body?.warehouseCodes),
+    skuCategories: cleanList(body?.skuCategories),
+    targetUserIds,
+    teamName: targetUserIds.length > 1 ? stringOf(body?.teamName) : null,
+    weight,
+    capacity: capacity && capacity > 0 ? capacity : null,
+    notes: stringOf(body?.notes),
+  };
+}
@@ -0,0 +1,204 @@
+import type { OrderShipmentLine } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+import { extractPrepLineItems } from '@/app/lib/order-prep-items';
+import {
+  parseSplitLines,
+  selectPendingShipmentPart,
+  toSplitLine,
+  type PendingShipmentPart,
+  type SplitLine,
+} from '@/app/lib/order-prep-split';
+
+export type ShipmentCarrier = 'smsa' | 'local';
+
+export type OrderShipmentSplitSummary = {
+  isSplit: boolean;
+  pendingPart: PendingShipmentPart | null;
+  backOrders: Array<{ id: string; sequence: number; status: string; lines: SplitLine[] }>;
+  shipments: Array<{ trackingNumber: string | null; carrier: string; backOrderId: string | null; lines: SplitLine[] }>;
+};
+
+/**
+ * Full line list of an order. Callers pass the Salla payload they already
+ * hold; when it has no items the original prep assignment's copy is used.
+ */
+async function loadOrderLines(merchantId: string, orderId: string, orderData?: unknown): Promise<SplitLine[]> {
+  const fromPayload = extractPrepLineItems(orderData);
+  if (fromPayload.length > 0) {
+    return fromPayload.map(toSplitLine);
+  }
+  const original = await prisma.orderPrepAssignment.findUnique({
+    where: { merchantId_orderId_splitSequence: { merchantId, orderId, splitSequence: 0 } },
+    select: { orderData: true },
+  });
+  return extractPrepLineItems(original?.orderData).map(toSplitLine);
+}
+
+async function loadSplitState(merchantId: string, orderId: string, orderData?: unknown) {
+  const [lines, backOrders, shipped] = await Promise.all([
+    loadOrderLines(merchantId, orderId, orderData),
+    prisma.orderBackOrder.findMany({
+      where: { merchantId, orderId },
+      orderBy: { sequence: 'asc' },
+    }),
+    prisma.orderShipmentLine.findMany({
+      where: { merchantId, orderId },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+  const parsedBackOrders = backOrders.map((backOrder) => ({
+    id: backOrder.id,
+    sequence: backOrder.sequence,
+    status: backOrder.status,
+    lines: parseSplitLines(backOrder.lines),
+  }));
+  return {
+    lines,
+    backOrders: parsedBackOrders,
+    shipped,
+    pendingPart: selectPendingShipmentPart({ lines, backOrders: parsedBackOrders, shipped }),
+  };
+}
+
+/** What the shipping screen needs to know before printing a label for a split order. */
+export async function getOrderShipmentSplitSummary(
+  merchantId: string,
+  orderId: string,
+  orderData?: unknown,
+): Promise<OrderShipmentSplitSummary> {
+  const state = await loadSplitState(merchantId, orderId, orderData);
+  const shipments = new Map<string, OrderShipmentSplitSummary['shipments'][number]>();
+  for (const line of state.shipped) {
+    const key = `${line.carrier}:${line.trackingNumber ?? 'pending'}:${line.backOrderId ?? 'primary'}`;
+    const entry = shipments.get(key) ?? {
+      trackingNumber: line.trackingNumber,
+      carrier: line.carrier,
+      backOrderId: line.backOrderId,
+      lines: [],
+    };
+    entry.lines.push({ lineIndex: line.lineIndex, sku: line.sku, name: line.itemName, quantity: line.quantity });
+    shipments.set(key, entry);
+  }
+  return {
+    isSplit: state.backOrders.some((backOrder) => backOrder.status !== 'cancelled'),
+    pendingPart: state.pendingPart,
+    backOrders: state.backOrders,
+    shipments: Array.from(shipments.values()),
+  };
+}
+
+/**
+ * Links a newly created shipment to the order lines it carries. Idempotent per
+ * tracking number; an SMSA label created before Salla's webhook is stored
+ * without a tracking number and completed when the webhook arrives.
+ */
+export async function recordShipmentLines(input: {
+  merchantId: string;
+  orderId: string;
+  orderNumber?: string | null;
+  orderData?: unknown;
+  carrier: ShipmentCarrier;
+  trackingNumber?: string | null;
+  sallaShipmentId?: string | null;
+  localShipmentId?: string | null;
+}): Promise<{ part: PendingShipmentPart | null; lines: OrderShipmentLine[] }> {
+  const { merchantId, orderId, carrier } = input;
+  const trackingNumber = input.trackingNumber?.trim() || null;
+
+  const alreadyLinked = await prisma.orderShipmentLine.findMany({
+    where: {
+      merchantId,
+      orderId,
+      OR: [
+        ...(trackingNumber ? [{ trackingNumber }] : []),
+        ...(input.localShipmentId ? [{ localShipmentId: input.localShipmentId }] : []),
+      ],
+    },
+  });
+  if ((trackingNumber || input.localShipmentId) && alreadyLinked.length > 0) {
+    return { part: null, lines: alreadyLinked };
+  }
+
+  if (carrier === 'smsa' && trackingNumber) {
+    const awaitingTracking = await prisma.orderShipmentLine.findMany({
+      where: { merchantId, orderId, carrier, trackingNumber: null },
+    });
+    if (awaitingTracking.length > 0) {
+      await prisma.orderShipmentLine.updateMany({
+        where: { id: { in: awaitingTracking.map((line) => line.id) } },
+        data: { trackingNumber, sallaShipmentId: input.sallaShipmentId ?? undefined },
+      });
+      const backOrderId = awaitingTracking[0].backOrderId;
+      const backOrder = backOrderId
+        ? await prisma.orderBackOrder.findUnique({ where: { id: backOrderId }, select: { sequence: true } })
+        : null;
+      return {
+        part: {
+          backOrderId,
+          sequence: backOrder?.sequence ?? 0,
+          lines: awaitingTracking.map((line) => ({
+            lineIndex: line.lineIndex,
+            sku: line.sku,
+            name: line.itemName,
+            quantity: line.quantity,
+          })),
+        },
+        lines: awaitingTracking.map((line) => ({ ...line, trackingNumber })),
+      };
+    }
+  } else if (carrier === 'smsa') {
+    // A second label request for the same SMSA shipment before its webhook.
+    const pending = await prisma.orderShipmentLine.count({
+      where: { merchantId, orderId, carrier, trackingNumber: null },
+    });
+    if (pending > 0) {
+      return { part: null, lines: [] };
+    }
+  }
+
+  const { pendingPart } = await loadSplitState(merchantId, orderId, input.orderData);
+  if (!pendingPart) {
+    log.info('No unshipped order lines left to link to shipment', { orderId, carrier, trackingNumber });
+    return { part: null, lines: [] };
+  }
+
+  const lines = await prisma.$transaction(async (tx) => {
+    const created = await Promise.all(
+      pendingPart.lines.map((line) =>
+        tx.orderShipmentLine.create({
+          data: {
+            merchantId,
+            orderId,
+            orderNumber: input.orderNumber ?? null,
+            lineIndex: line.lineIndex,
+            sku: line.sku,
+            itemName: line.name,
+            quantity: line.quantity,
+            carrier,
+            trackingNumber,
+            sallaShipmentId: input.sallaShipmentId ?? null,
+            localShipmentId: input.localShipmentId ?? null,
+            backOrderId: pendingPart.backOrderId,
+          },
+        }),
+      ),
+    );
+    if (pendingPart.backOrderId) {
+      await tx.orderBackOrder.update({
+        where: { id: pendingPart.backOrderId },
+        data: { status: 'shipped', shippedAt: new Date() },
+      });
+    }
+    return created;
+  });
+
+  log.info('Linked shipment to order lines', {
+    orderId,
+    carrier,
+    trackingNumber,
+    backOrderId: pendingPart.backOrderId,
+    lines: pendingPart.lines.map((line) => line.lineIndex),
+  });
+  return { part: pendingPart, lines };
+}
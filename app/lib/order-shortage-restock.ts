@@ -0,0 +1,211 @@
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+import { resolveSallaMerchantId } from '@/app/api/salla/products/merchant';
+import { getSallaProductBySku, getSallaProductVariations, normalizeSkuValue } from '@/app/lib/salla-api';
+import { createPurchaseRequest, incrementPurchaseRequestQuantity } from '@/app/lib/salla-purchase-requests';
+import { getOrderShortagePurchaseRequestHours } from '@/app/lib/settings';
+import { returnOrderToPreparer } from '@/app/lib/order-prep-service';
+import { sendWhatsAppText } from '@/app/lib/zoko';
+import { normalizeKSA } from '@/app/lib/phone';
+import type {
+  ShortageRecord,
+  ShortageWatcherDeps,
+  SkuAvailability,
+} from '@/app/lib/order-shortage-watcher';
+
+const WATCHER_ACTOR_NAME = 'مراقبة النواقص';
+
+async function loadSkuAvailabilityFromSalla(merchantId: string, sku: string): Promise<SkuAvailability> {
+  const product = await getSallaProductBySku(merchantId, sku);
+  const empty: SkuAvailability = {
+    sku,
+    found: false,
+    productId: null,
+    productName: null,
+    quantity: null,
+    variantId: null,
+    variantName: null,
+  };
+  if (!product) {
+    return empty;
+  }
+
+  const wanted = normalizeSkuValue(sku);
+  const base = { ...empty, found: true, productId: product.id, productName: product.name };
+
+  // A shortage is usually one size of a variable product, so the variant with
+  // the reported SKU decides; the product's own stock only counts for simple products.
+  const variations = await getSallaProductVariations(merchantId, product.id);
+  const variant = variations.find((variation) => normalizeSkuValue(variation.sku) === wanted);
+  if (variant) {
+    return {
+      ...base,
+      quantity: variant.availableQuantity ?? null,
+      variantId: variant.id != null ? String(variant.id) : null,
+      variantName: variant.name || null,
+    };
+  }
+
+  if (normalizeSkuValue(product.sku) === wanted || variations.length === 0) {
+    return { ...base, quantity: product.availableQuantity ?? null };
+  }
+
+  log.warn('Reported shortage SKU not found among product variants', { sku, productId: product.id });
+  return { ...base, found: false };
+}
+
+async function requestPurchaseForShortage(
+  merchantId: string,
+  availability: SkuAvailability,
+  records: ShortageRecord[],
+): Promise<string | null> {
+  if (!availability.productId) {
+    return null;
+  }
+
+  const orderNumbers = records.map((record) => record.orderNumber || record.orderId).join('، ');
+  const existing = await prisma.sallaPurchaseRequest.findFirst({
+    where: {
+      productId: availability.productId,
+      variantId: availability.variantId,
+      status: { in: ['requested', 'on_the_way'] },
+    },
+    select: { id: true },
+  });
+
+  const request = existing
+    ? await incrementPurchaseRequestQuantity(existing.id, records.length)
+    : await createPurchaseRequest({
+        merchantId,
+        productId: availability.productId,
+        productName: availability.productName || records[0].itemName || availability.sku,
+        productSku: availability.variantId ? null : availability.sku,
+        variantId: availability.variantId,
+        variantName: availability.variantName,
+        variantSku: availability.variantId ? availability.sku : null,
+        quantity: records.length,
+        notes: `نواقص تجهيز لم تتوفر للطلبات: ${orderNumbers}`,
+        requestedBy: WATCHER_ACTOR_NAME,
+      });
+
+  await prisma.orderPrepUnavailableItem.updateMany({
+    where: { id: { in: records.map((record) => record.id) } },
+    data: { purchaseRequestId: request.id },
+  });
+
+  log.info('Raised purchase request for order prep shortage', {
+    sku: availability.sku,
+    purchaseRequestId: request.id,
+    reused: Boolean(existing),
+    quantity: records.length,
+  });
+  return request.id;
+}
+
+/** The most recent reporter is the preparer the order goes back to. */
+async function returnRestockedOrder(merchantId: string, orderId: string, records: ShortageRecord[]) {
+  const reporterId = [...records]
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .map((record) => record.reportedById)
+    .find(Boolean);
+  if (!reporterId) {
+    return { status: 'skipped' as const, reason: 'missing_reporter' };
+  }
+
+  const user = await prisma.orderUser.findUnique({
+    where: { id: reporterId },
+    select: { id: true, name: true, isActive: true },
+  });
+  if (!user?.isActive) {
+    return { status: 'skipped' as const, reason: 'reporter_inactive' };
+  }
+
+  const result = await returnOrderToPreparer({
+    orderId,
+    user,
+    restockedSkus: records.map((record) => record.sku),
+    actorName: WATCHER_ACTOR_NAME,
+    merchantId,
+  });
+  if (result.status === 'skipped') {
+    return result;
+  }
+  return {
+    status: result.status,
+    userId: result.assignment.userId,
+    userName: result.assignment.userName,
+    assignmentId: result.assignment.id,
+  };
+}
+
+async function notifyPreparerOfRestock(userId: string, records: ShortageRecord[]): Promise<void> {
+  const user = await prisma.orderUser.findUnique({
+    where: { id: userId },
+    select: { name: true, phone: true },
+  });
+  const phone = normalizeKSA(user?.phone);
+  if (!phone) {
+    log.info('Skipping restock notification because preparer has no phone', { userId });
+    return;
+  }
+
+  const orderLabel = records[0].orderNumber || records[0].orderId;
+  const skus = records.map((record) => record.itemName || record.sku).join('، ');
+  try {
+    await sendWhatsAppText(
+      phone,
+      `مرحباً ${user?.name || ''}، توفرت النواقص (${skus}) للطلب #${orderLabel} وتمت إعادته إلى قائمة التجهيز الخاصة بك.`,
+    );
+  } catch (error) {
+    log.warn('Failed to send restock notification to preparer', {
+      userId,
+      orderId: records[0].orderId,
+      error: error instanceof Error ? error.message : 'UNKNOWN_ERROR',
+    });
+  }
+}
+
+export async function createDefaultShortageWatcherDeps(): Promise<ShortageWatcherDeps> {
+  const { merchantId, error } = await resolveSallaMerchantId();
+  if (!merchantId) {
+    throw new Error(error || 'تعذر تحديد المتجر المرتبط بسلة');
+  }
+
+  return {
+    listOpen: () =>
+      prisma.orderPrepUnavailableItem.findMany({
+        where: { merchantId, resolvedAt: null },
+        orderBy: { createdAt: 'asc' },
+        select: {
+          id: true,
+          orderId: true,
+          orderNumber: true,
+          sku: true,
+          normalizedSku: true,
+          itemName: true,
+          reportedById: true,
+          reportedByName: true,
+          createdAt: true,
+          purchaseRequestId: true,
+        },
+      }),
+    loadSkuAvailability: (sku) => loadSkuAvailabilityFromSalla(merchantId, sku),
+    markChecked: async (ids) => {
+      await prisma.orderPrepUnavailableItem.updateMany({
+        where: { id: { in: ids } },
+        data: { lastCheckedAt: new Date() },
+      });
+    },
+    resolve: async (ids) => {
+      const now = new Date();
+      await prisma.orderPrepUnavailableItem.updateMany({
+        where: { id: { in: ids }, resolvedAt: null },
+        data: { backInStockAt: now, resolvedAt: now, resolvedByName: WATCHER_ACTOR_NAME },
+      });
+    },
+    returnOrder: (orderId, records) => returnRestockedOrder(merchantId, orderId, records),
+    notifyPreparer: (outcome, records) => notifyPreparerOfRestock(outcome.userId, records),
+    requestPurchase: (availability, records) => requestPurchaseForShortage(merchantId, availability, records),
+    purchaseRequestHours: getOrderShortagePurchaseRequestHours,
+  };
+}
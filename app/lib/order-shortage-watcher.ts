@@ -0,0 +1,249 @@
+import type { OrderPrepUnavailableItem } from '@prisma/client';
+import { log } from '@/app/lib/logger';
+
+/**
+ * Closes the loop on order-prep shortages: polls Salla for every SKU a preparer
+ * reported missing, resolves the shortage once the SKU has stock again, and hands
+ * the order back to the preparer who reported it when nothing else is missing.
+ * The last shortages of an order are only resolved once the order is actually
+ * back with a preparer, so a skipped or failed hand-back is retried next run.
+ *
+ * Same rules as the availability watcher: a failed stock lookup leaves the
+ * shortage untouched for the next run, and every side effect goes through
+ * injected deps so the flow can be exercised without Salla or the database.
+ */
+
+export type ShortageRecord = Pick<
+  OrderPrepUnavailableItem,
+  | 'id'
+  | 'orderId'
+  | 'orderNumber'
+  | 'sku'
+  | 'normalizedSku'
+  | 'itemName'
+  | 'reportedById'
+  | 'reportedByName'
+  | 'createdAt'
+  | 'purchaseRequestId'
+>;
+
+export type SkuAvailability = {
+  sku: string;
+  found: boolean;
+  productId: number | null;
+  productName: string | null;
+  /** Stock of the exact SKU: the matching variant, or the product when the SKU is the product's. */
+  quantity: number | null;
+  variantId: string | null;
+  variantName: string | null;
+};
+
+export type ShortageReturnOutcome =
+  | { status: 'returned'; userId: string; userName: string; assignmentId: string }
+  | { status: 'active'; userId: string; userName: string; assignmentId: string }
+  | { status: 'skipped'; reason: string };
+
+export type ShortageWatcherDeps = {
+  listOpen: () => Promise<ShortageRecord[]>;
+  loadSkuAvailability: (sku: string) => Promise<SkuAvailability>;
+  markChecked: (ids: string[]) => Promise<void>;
+  resolve: (ids: string[]) => Promise<void>;
+  returnOrder: (orderId: string, records: ShortageRecord[]) => Promise<ShortageReturnOutcome>;
+  notifyPreparer: (
+    outcome: Extract<ShortageReturnOutcome, { userId: string }>,
+    records: ShortageRecord[],
+  ) => Promise<void>;
+  requestPurchase: (availability: SkuAvailability, records: ShortageRecord[]) => Promise<string | null>;
+  purchaseRequestHours: () => Promise<number>;
+};
+
+export type ShortageSkuSummary = {
+  sku: string;
+  found: boolean;
+  quantity: number | null;
+  openShortages: number;
+  resolved: number;
+  purchaseRequested: number;
+  error?: string;
+};
+
+export type ShortageWatcherRunResult = {
+  dryRun: boolean;
+  openShortages: number;
+  skusChecked: number;
+  resolved: number;
+  ordersReturned: number;
+  ordersAlreadyActive: number;
+  ordersSkipped: number;
+  purchaseRequests: number;
+  skus: ShortageSkuSummary[];
+};
+
+export function isSkuBackInStock(availability: SkuAvailability): boolean {
+  return availability.found && typeof availability.quantity === 'number' && availability.quantity > 0;
+}
+
+function groupBy<T>(records: T[], key: (record: T) => string): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+  for (const record of records) {
+    const value = key(record);
+    const existing = grouped.get(value);
+    if (existing) {
+      existing.push(record);
+    } else {
+      grouped.set(value, [record]);
+    }
+  }
+  return grouped;
+}
+
+export async function runOrderShortageCheck(options: {
+  deps: ShortageWatcherDeps;
+  dryRun?: boolean;
+  now?: Date;
+}): Promise<ShortageWatcherRunResult> {
+  const { deps } = options;
+  const dryRun = options.dryRun === true;
+  const now = options.now ?? new Date();
+
+  const open = await deps.listOpen();
+  const purchaseRequestHours = await deps.purchaseRequestHours();
+  const purchaseCutoff =
+    purchaseRequestHours > 0 ? now.getTime() - purchaseRequestHours * 60 * 60 * 1000 : null;
+
+  const result: ShortageWatcherRunResult = {
+    dryRun,
+    openShortages: open.length,
+    skusChecked: 0,
+    resolved: 0,
+    ordersReturned: 0,
+    ordersAlreadyActive: 0,
+    ordersSkipped: 0,
+    purchaseRequests: 0,
+    skus: [],
+  };
+
+  const restockedIds = new Set<string>();
+
+  for (const [sku, records] of groupBy(open, (record) => record.normalizedSku)) {
+    const summary: ShortageSkuSummary = {
+      sku,
+      found: false,
+      quantity: null,
+      openShortages: records.length,
+      resolved: 0,
+      purchaseRequested: 0,
+    };
+
+    let availability: SkuAvailability;
+    try {
+      availability = await deps.loadSkuAvailability(records[0].sku || sku);
+      result.skusChecked += 1;
+    } catch (error) {
+      summary.error = error instanceof Error ? error.message : 'UNKNOWN_ERROR';
+      log.error('Shortage stock check failed for SKU', { sku, error: summary.error });
+      result.skus.push(summary);
+      continue;
+    }
+
+    summary.found = availability.found;
+    summary.quantity = availability.quantity;
+    if (!dryRun) {
+      await deps.markChecked(records.map((record) => record.id));
+    }
+
+    if (isSkuBackInStock(availability)) {
+      records.forEach((record) => restockedIds.add(record.id));
+      result.skus.push(summary);
+      continue;
+    }
+
+    const overdue =
+      purchaseCutoff === null || !availability.found
+        ? []
+        : records.filter((record) => !record.purchaseRequestId && record.createdAt.getTime() <= purchaseCutoff);
+    if (overdue.length > 0) {
+      summary.purchaseRequested = overdue.length;
+      if (!dryRun) {
+        const requestId = await deps.requestPurchase(availability, overdue);
+        if (requestId) {
+          result.purchaseRequests += 1;
+        }
+      } else {
+        result.purchaseRequests += 1;
+      }
+    }
+    result.skus.push(summary);
+  }
+
+  const resolvedIds = new Set<string>();
+  const resolveRecords = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    if (!dryRun) {
+      await deps.resolve(ids);
+    }
+    ids.forEach((id) => resolvedIds.add(id));
+  };
+
+  // An order goes back to the preparer only once every shortage on it is back.
+  // Restocked lines of orders still missing something are resolved right away;
+  // the order is handed back when its last shortage comes in.
+  const orders = Array.from(groupBy(open, (record) => record.orderId));
+  await resolveRecords(
+    orders.flatMap(([, records]) => {
+      const restocked = records.filter((record) => restockedIds.has(record.id));
+      return restocked.length === records.length ? [] : restocked.map((record) => record.id);
+    }),
+  );
+
+  for (const [orderId, records] of orders) {
+    if (!records.every((record) => restockedIds.has(record.id))) {
+      continue;
+    }
+
+    if (dryRun) {
+      result.ordersReturned += 1;
+      await resolveRecords(records.map((record) => record.id));
+      continue;
+    }
+
+    try {
+      const outcome = await deps.returnOrder(orderId, records);
+      if (outcome.status === 'skipped') {
+        result.ordersSkipped += 1;
+        log.warn('Restocked order was not returned to a preparer', { orderId, reason: outcome.reason });
+        continue;
+      }
+      if (outcome.status === 'returned') {
+        result.ordersReturned += 1;
+      } else {
+        result.ordersAlreadyActive += 1;
+      }
+      await resolveRecords(records.map((record) => record.id));
+      await deps.notifyPreparer(outcome, records);
+    } catch (error) {
+      result.ordersSkipped += 1;
+      log.error('Failed to return restocked order to preparer', {
+        orderId,
+        error: error instanceof Error ? error.message : 'UNKNOWN_ERROR',
+      });
+    }
+  }
+
+  result.resolved = resolvedIds.size;
+  for (const summary of result.skus) {
+    summary.resolved = open.filter(
+      (record) => record.normalizedSku === summary.sku && resolvedIds.has(record.id),
+    ).length;
+  }
+
+  log.info('Order shortage restock check finished', {
+    dryRun,
+    openShortages: result.openShortages,
+    resolved: result.resolved,
+    ordersReturned: result.ordersReturned,
+    purchaseRequests: result.purchaseRequests,
+  });
+
+  return result;
+}
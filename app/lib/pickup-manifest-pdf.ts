@@ -0,0 +1,301 @@
+import fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import type { PDFFont, PDFImage, PDFPage } from 'pdf-lib';
+import { ArabicShaper } from 'arabic-persian-reshaper';
+
+import { encodeCode128 } from '@/app/lib/barcode-code128';
+import { detectDirection, loadArabicFont } from '@/app/lib/local-shipping/label';
+import { summarizeManifestItems } from '@/app/lib/pickup-manifests';
+import { SHIPMENT_COMPANIES } from '@/lib/shipment-detector';
+import type { PickupManifestWithItems } from '@/app/lib/pickup-manifest-service';
+
+// A4 portrait: the courier keeps one copy and the warehouse files the other,
+// so this goes to the office printer rather than the label printer.
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 36;
+const CONTENT_LEFT = MARGIN;
+const CONTENT_RIGHT = PAGE_WIDTH - MARGIN;
+const CONTENT_WIDTH = CONTENT_RIGHT - CONTENT_LEFT;
+const ROW_HEIGHT = 18;
+const FOOTER_TOP = 56;
+const SIGNATURE_BLOCK_HEIGHT = 130;
+
+const textColor = rgb(0.13, 0.15, 0.2);
+const subtleText = rgb(0.46, 0.48, 0.55);
+const accentColor = rgb(0.82, 0.19, 0.32);
+const borderColor = rgb(0.88, 0.9, 0.94);
+const headerBg = rgb(1, 0.97, 0.98);
+const stripeBg = rgb(0.98, 0.99, 1);
+
+type DocumentContext = {
+  pdfDoc: PDFDocument;
+  arabicFont: PDFFont;
+  latinFont: PDFFont;
+  page: PDFPage;
+  cursorY: number;
+  pageNumber: number;
+};
+
+// Column anchors, left to right. Numbers and AWBs are LTR; the table reads in
+// the courier's order (AWB first) like the SMSA and Aramex manifests.
+const COLUMNS = {
+  index: CONTENT_LEFT + 6,
+  awb: CONTENT_LEFT + 34,
+  order: CONTENT_LEFT + 210,
+  pieces: CONTENT_LEFT + 330,
+  cod: CONTENT_RIGHT - 6,
+};
+
+function drawText(
+  ctx: DocumentContext,
+  value: string,
+  x: number,
+  y: number,
+  size: number,
+  options: { color?: ReturnType<typeof rgb>; align?: 'left' | 'right' | 'center' } = {},
+) {
+  const direction = /[\u0600-\u06FF]/.test(value) ? 'rtl' : detectDirection(value);
+  const shaped = direction === 'rtl' ? ArabicShaper.convertArabic(value) : value;
+  const font = direction === 'rtl' ? ctx.arabicFont : ctx.latinFont;
+  const width = font.widthOfTextAtSize(shaped, size);
+  const align = options.align ?? (direction === 'rtl' ? 'right' : 'left');
+  const drawX = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+  ctx.page.drawText(shaped, { x: drawX, y, font, size, color: options.color ?? textColor });
+}
+
+function drawBarcode(ctx: DocumentContext, value: string, x: number, y: number, width: number, height: number) {
+  const { runs, modules } = encodeCode128(value);
+  const moduleWidth = width / modules;
+  let cursor = x;
+  let bar = true; // first run is a bar
+  for (const run of runs) {
+    const runWidth = run * moduleWidth;
+    if (bar) {
+      ctx.page.drawRectangle({ x: cursor, y, width: runWidth, height, color: rgb(0, 0, 0) });
+    }
+    cursor += runWidth;
+    bar = !bar;
+  }
+}
+
+function formatDateTime(date: Date): string {
+  return date.toLocaleString('en-GB', {
+    timeZone: 'Asia/Riyadh',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+}
+
+function formatMoney(value: number): string {
+  const rounded = Math.round(value * 100) / 100;
+  return Number.isInteger(rounded) ? String(rounded) : rounded.toFixed(2);
+}
+
+function drawHeader(ctx: DocumentContext, manifest: PickupManifestWithItems) {
+  const top = PAGE_HEIGHT - MARGIN;
+  const height = ctx.pageNumber === 1 ? 96 : 40;
+  ctx.page.drawRectangle({
+    x: CONTENT_LEFT,
+    y: top - height,
+    width: CONTENT_WIDTH,
+    height,
+    color: headerBg,
+    borderColor,
+    borderWidth: 1,
+  });
+  drawText(ctx, 'Pickup Manifest', CONTENT_LEFT + 10, top - 22, 15, { color: accentColor, align: 'left' });
+  drawText(ctx, 'بيان تسليم الشحنات', CONTENT_RIGHT - 10, top - 23, 15, { color: accentColor, align: 'right' });
+
+  if (ctx.pageNumber === 1) {
+    const company = SHIPMENT_COMPANIES[manifest.company];
+    drawText(ctx, manifest.manifestNumber, CONTENT_LEFT + 10, top - 42, 10, { align: 'left' });
+    drawText(ctx, `Carrier: ${company?.nameEn || manifest.company}`, CONTENT_LEFT + 10, top - 58, 9, {
+      color: subtleText,
+      align: 'left',
+    });
+    drawText(ctx, `Opened: ${formatDateTime(manifest.createdAt)}`, CONTENT_LEFT + 10, top - 72, 9, {
+      color: subtleText,
+      align: 'left',
+    });
+    drawText(ctx, `المستودع: ${manifest.warehouse.name}`, CONTENT_RIGHT - 10, top - 44, 9.5, { align: 'right' });
+    if (company?.nameAr) {
+      drawText(ctx, `شركة الشحن: ${company.nameAr}`, CONTENT_RIGHT - 10, top - 60, 9.5, { align: 'right' });
+    }
+    drawBarcode(ctx, manifest.manifestNumber, PAGE_WIDTH / 2 - 80, top - 78, 160, 34);
+    drawText(ctx, manifest.manifestNumber, PAGE_WIDTH / 2, top - 90, 8, { align: 'center' });
+  } else {
+    drawText(ctx, `${manifest.manifestNumber} (${ctx.pageNumber})`, PAGE_WIDTH / 2, top - 22, 9, {
+      align: 'center',
+    });
+  }
+  ctx.cursorY = top - height - 16;
+}
+
+function drawTableHeader(ctx: DocumentContext) {
+  const y = ctx.cursorY;
+  ctx.page.drawRectangle({ x: CONTENT_LEFT, y: y - ROW_HEIGHT + 5, width: CONTENT_WIDTH, height: ROW_HEIGHT, color: headerBg });
+  drawText(ctx, '#', COLUMNS.index, y - 8, 8.5, { color: subtleText, align: 'left' });
+  drawText(ctx, 'AWB', COLUMNS.awb, y - 8, 8.5, { color: subtleText, align: 'left' });
+  drawText(ctx, 'Order', COLUMNS.order, y - 8, 8.5, { color: subtleText, align: 'left' });
+  drawText(ctx, 'Pieces', COLUMNS.pieces, y - 8, 8.5, { color: subtleText, align: 'left' });
+  drawText(ctx, 'COD (SAR)', COLUMNS.cod, y - 8, 8.5, { color: subtleText, align: 'right' });
+  ctx.cursorY -= ROW_HEIGHT + 2;
+}
+
+function drawFooter(ctx: DocumentContext, manifest: PickupManifestWithItems) {
+  ctx.page.drawLine({
+    start: { x: CONTENT_LEFT, y: FOOTER_TOP - 16 },
+    end: { x: CONTENT_RIGHT, y: FOOTER_TOP - 16 },
+    color: borderColor,
+    thickness: 0.8,
+  });
+  drawText(ctx, manifest.manifestNumber, CONTENT_LEFT, FOOTER_TOP - 30, 8, { color: subtleText, align: 'left' });
+  drawText(ctx, `${ctx.pageNumber}`, CONTENT_RIGHT, FOOTER_TOP - 30, 8, { color: subtleText, align: 'right' });
+}
+
+function newPage(ctx: DocumentContext, manifest: PickupManifestWithItems) {
+  drawFooter(ctx, manifest);
+  ctx.page = ctx.pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  ctx.pageNumber += 1;
+  drawHeader(ctx, manifest);
+}
+
+async function embedSignature(pdfDoc: PDFDocument, dataUrl: string | null): Promise<PDFImage | null> {
+  if (!dataUrl?.startsWith('data:image/png;base64,')) return null;
+  try {
+    return await pdfDoc.embedPng(Buffer.from(dataUrl.slice('data:image/png;base64,'.length), 'base64'));
+  } catch {
+    return null;
+  }
+}
+
+function drawSignatureBlock(ctx: DocumentContext, manifest: PickupManifestWithItems, signature: PDFImage | null) {
+  const top = ctx.cursorY;
+  const boxWidth = (CONTENT_WIDTH - 16) / 2;
+
+  // Courier side on the left, warehouse side on the right.
+  const courierX = CONTENT_LEFT;
+  const warehouseX = CONTENT_LEFT + boxWidth + 16;
+  for (const x of [courierX, warehouseX]) {
+    ctx.page.drawRectangle({
+      x,
+      y: top - SIGNATURE_BLOCK_HEIGHT,
+      width: boxWidth,
+      height: SIGNATURE_BLOCK_HEIGHT,
+      borderColor,
+      borderWidth: 1,
+    });
+  }
+
+  drawText(ctx, 'Courier driver', courierX + 8, top - 16, 9, { color: subtleText, align: 'left' });
+  drawText(ctx, 'مندوب شركة الشحن', courierX + boxWidth - 8, top - 16, 9, { color: subtleText, align: 'right' });
+  drawText(ctx, manifest.driverName || '____________________', courierX + 8, top - 32, 10, { align: 'left' });
+  if (manifest.driverPhone) {
+    drawText(ctx, manifest.driverPhone, courierX + 8, top - 46, 9, { color: subtleText, align: 'left' });
+  }
+  if (signature) {
+    const maxWidth = boxWidth - 16;
+    const maxHeight = 60;
+    const scale = Math.min(maxWidth / signature.width, maxHeight / signature.height);
+    ctx.page.drawImage(signature, {
+      x: courierX + 8,
+      y: top - SIGNATURE_BLOCK_HEIGHT + 14,
+      width: signature.width * scale,
+      height: signature.height * scale,
+    });
+  }
+
+  drawText(ctx, 'Warehouse', warehouseX + 8, top - 16, 9, { color: subtleText, align: 'left' });
+  drawText(ctx, 'المستودع', warehouseX + boxWidth - 8, top - 16, 9, { color: subtleText, align: 'right' });
+  drawText(ctx, manifest.signedByName || manifest.openedByName || '—', warehouseX + 8, top - 32, 10, { align: 'left' });
+  drawText(
+    ctx,
+    manifest.signedAt ? `Signed: ${formatDateTime(manifest.signedAt)}` : 'Not signed yet',
+    warehouseX + 8,
+    top - 46,
+    9,
+    { color: manifest.signedAt ? subtleText : accentColor, align: 'left' },
+  );
+  ctx.cursorY = top - SIGNATURE_BLOCK_HEIGHT - 12;
+}
+
+export async function generatePickupManifestPdf(manifest: PickupManifestWithItems): Promise<Buffer> {
+  const arabicFontData = await loadArabicFont();
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.registerFontkit(fontkit);
+  const [arabicFont, latinFont] = await Promise.all([
+    pdfDoc.embedFont(arabicFontData, { subset: true }),
+    pdfDoc.embedFont(StandardFonts.Helvetica),
+  ]);
+  const ctx: DocumentContext = {
+    pdfDoc,
+    arabicFont,
+    latinFont,
+    page: pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]),
+    cursorY: PAGE_HEIGHT - MARGIN,
+    pageNumber: 1,
+  };
+  const signature = await embedSignature(pdfDoc, manifest.signatureDataUrl);
+
+  drawHeader(ctx, manifest);
+  drawTableHeader(ctx);
+
+  manifest.items.forEach((item, index) => {
+    if (ctx.cursorY - ROW_HEIGHT < FOOTER_TOP) {
+      newPage(ctx, manifest);
+      drawTableHeader(ctx);
+    }
+    const y = ctx.cursorY;
+    if (index % 2 === 1) {
+      ctx.page.drawRectangle({ x: CONTENT_LEFT, y: y - ROW_HEIGHT + 5, width: CONTENT_WIDTH, height: ROW_HEIGHT, color: stripeBg });
+    }
+    const codAmount = Number(item.codAmount);
+    drawText(ctx, String(index + 1), COLUMNS.index, y - 8, 9, { color: subtleText, align: 'left' });
+    drawText(ctx, item.trackingNumber, COLUMNS.awb, y - 8, 9.5, { align: 'left' });
+    drawText(ctx, item.orderNumber || '—', COLUMNS.order, y - 8, 9, { align: 'left' });
+    drawText(ctx, String(item.pieces), COLUMNS.pieces, y - 8, 9, { align: 'left' });
+    drawText(ctx, codAmount > 0 ? formatMoney(codAmount) : '—', COLUMNS.cod, y - 8, 9, { align: 'right' });
+    ctx.cursorY -= ROW_HEIGHT;
+  });
+
+  const totals = summarizeManifestItems(
+    manifest.items.map((item) => ({
+      trackingNumber: item.trackingNumber,
+      pieces: item.pieces,
+      codAmount: Number(item.codAmount),
+    })),
+  );
+
+  if (ctx.cursorY - 40 - SIGNATURE_BLOCK_HEIGHT < FOOTER_TOP) {
+    newPage(ctx, manifest);
+  }
+  ctx.cursorY -= 6;
+  ctx.page.drawLine({
+    start: { x: CONTENT_LEFT, y: ctx.cursorY },
+    end: { x: CONTENT_RIGHT, y: ctx.cursorY },
+    color: textColor,
+    thickness: 0.8,
+  });
+  ctx.cursorY -= 16;
+  drawText(ctx, `Shipments: ${totals.shipmentCount}`, CONTENT_LEFT + 6, ctx.cursorY, 10, { align: 'left' });
+  drawText(ctx, `Pieces: ${totals.pieceCount}`, COLUMNS.order, ctx.cursorY, 10, { align: 'left' });
+  drawText(
+    ctx,
+    `COD total: ${formatMoney(totals.codTotal)} SAR (${totals.codShipmentCount})`,
+    COLUMNS.cod,
+    ctx.cursorY,
+    10,
+    { align: 'right' },
+  );
+  ctx.cursorY -= 24;
+
+  drawSignatureBlock(ctx, manifest, signature);
+  drawFooter(ctx, manifest);
+
+  return Buffer.from(await pdfDoc.save());
+}
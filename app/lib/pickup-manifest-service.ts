@@ -0,0 +1,313 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { detectShipmentCompany } from '@/lib/shipment-detector';
+import { isCodPaymentMethod } from '@/app/lib/order-routing-rules';
+import {
+  PickupManifestError,
+  buildManifestNumber,
+  findUnmanifestedShipments,
+  riyadhDayStart,
+  summarizeManifestItems,
+  type LabelledShipment,
+} from '@/app/lib/pickup-manifests';
+
+export type PickupManifestActor = {
+  id: string | null;
+  name: string | null;
+  username: string | null;
+};
+
+const actorLabel = (actor: PickupManifestActor) => actor.username || actor.name || actor.id || null;
+
+// Concurrent handovers can pick the same manifest number or add the same AWB;
+// the loser retries against what the winner committed.
+const MANIFEST_ADD_ATTEMPTS = 4;
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+const manifestWithItems = Prisma.validator<Prisma.PickupManifestDefaultArgs>()({
+  include: {
+    items: { orderBy: { addedAt: 'asc' } },
+    warehouse: { select: { id: true, name: true, code: true } },
+  },
+});
+
+export type PickupManifestWithItems = Prisma.PickupManifestGetPayload<typeof manifestWithItems>;
+
+const toNumber = (value: Prisma.Decimal | number | null | undefined) =>
+  value === null || value === undefined ? 0 : Number(value);
+
+export function serializePickupManifest(manifest: PickupManifestWithItems, options: { includeItems?: boolean } = {}) {
+  const items = manifest.items.map((item) => ({
+    id: item.id,
+    shipmentId: item.shipmentId,
+    trackingNumber: item.trackingNumber,
+    orderNumber: item.orderNumber,
+    pieces: item.pieces,
+    codAmount: toNumber(item.codAmount),
+    addedBy: item.addedBy,
+    addedAt: item.addedAt.toISOString(),
+  }));
+  return {
+    id: manifest.id,
+    manifestNumber: manifest.manifestNumber,
+    warehouse: manifest.warehouse,
+    company: manifest.company,
+    status: manifest.status,
+    driverName: manifest.driverName,
+    driverPhone: manifest.driverPhone,
+    signedAt: manifest.signedAt?.toISOString() ?? null,
+    signedByName: manifest.signedByName,
+    openedByName: manifest.openedByName,
+    createdAt: manifest.createdAt.toISOString(),
+    totals: summarizeManifestItems(items),
+    ...(options.includeItems ? { items } : {}),
+  };
+}
+
+/**
+ * Pieces, COD and order number for a handed-over AWB. Manual shipments carry
+ * their own values; Salla shipments take COD from the synced order. Anything
+ * unknown counts as one prepaid piece rather than blocking the handover.
+ */
+async function resolveManifestItemDetails(trackingNumber: string) {
+  const manual = await prisma.manualShipment.findUnique({
+    where: { trackingNumber },
+    select: { orderNumber: true, parcels: true, codAmount: true },
+  });
+  if (manual) {
+    return {
+      orderNumber: manual.orderNumber,
+      pieces: Math.max(1, manual.parcels),
+      codAmount: toNumber(manual.codAmount),
+    };
+  }
+
+  const sallaShipment = await prisma.sallaShipment.findFirst({
+    where: { trackingNumber },
+    select: { merchantId: true, orderId: true, orderNumber: true },
+    orderBy: { createdAt: 'desc' },
+  });
+  if (!sallaShipment) {
+    return { orderNumber: null, pieces: 1, codAmount: 0 };
+  }
+  const order = await prisma.sallaOrder.findUnique({
+    where: { merchantId_orderId: { merchantId: sallaShipment.merchantId, orderId: sallaShipment.orderId } },
+    select: { paymentMethod: true, totalAmount: true },
+  });
+  return {
+    orderNumber: sallaShipment.orderNumber,
+    pieces: 1,
+    codAmount: order && isCodPaymentMethod(order.paymentMethod) ? toNumber(order.totalAmount) : 0,
+  };
+}
+
+async function openManifest(
+  tx: Prisma.TransactionClient,
+  warehouseId: string,
+  company: string,
+  actor: PickupManifestActor,
+) {
+  const now = new Date();
+  // Numbers are unique per carrier and Riyadh day, across warehouses.
+  const openedToday = await tx.pickupManifest.count({
+    where: { company, createdAt: { gte: riyadhDayStart(now) } },
+  });
+  return tx.pickupManifest.create({
+    data: {
+      manifestNumber: buildManifestNumber(company, now, openedToday + 1),
+      warehouseId,
+      company,
+      openedById: actor.id,
+      openedByName: actor.name || actor.username,
+    },
+    select: { id: true, manifestNumber: true, status: true },
+  });
+}
+
+async function findShipmentManifest(shipmentId: string) {
+  const existing = await prisma.pickupManifestItem.findUnique({
+    where: { shipmentId },
+    select: { manifest: { select: { id: true, manifestNumber: true, status: true } } },
+  });
+  return existing?.manifest ?? null;
+}
+
+/**
+ * Puts a handed-over shipment on the open manifest for its warehouse and
+ * carrier, opening one if the previous manifest was already signed. Calling
+ * it again for the same shipment returns the manifest it is already on.
+ */
+export async function addShipmentToManifest(
+  shipment: { id: string; trackingNumber: string; company: string; warehouseId: string | null },
+  actor: PickupManifestActor,
+) {
+  const warehouseId = shipment.warehouseId;
+  if (!warehouseId) {
+    throw new PickupManifestError('الشحنة غير مرتبطة بمستودع');
+  }
+
+  const existing = await findShipmentManifest(shipment.id);
+  if (existing) {
+    return existing;
+  }
+
+  const details = await resolveManifestItemDetails(shipment.trackingNumber);
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const current = await tx.pickupManifest.findFirst({
+          where: { warehouseId, company: shipment.company, status: 'open' },
+          orderBy: { createdAt: 'desc' },
+          select: { id: true, manifestNumber: true, status: true },
+        });
+        // Re-checking the status through an update locks the manifest until the
+        // item is in, so a signature from another device either lands first
+        // (and a new manifest is opened) or waits and includes this shipment.
+        const stillOpen =
+          current &&
+          (
+            await tx.pickupManifest.updateMany({
+              where: { id: current.id, status: 'open' },
+              data: { updatedAt: new Date() },
+            })
+          ).count === 1;
+        const manifest = stillOpen ? current : await openManifest(tx, warehouseId, shipment.company, actor);
+
+        await tx.pickupManifestItem.create({
+          data: {
+            manifestId: manifest.id,
+            shipmentId: shipment.id,
+            trackingNumber: shipment.trackingNumber,
+            orderNumber: details.orderNumber,
+            pieces: details.pieces,
+            codAmount: details.codAmount,
+            addedBy: actorLabel(actor),
+          },
+        });
+        return manifest;
+      });
+    } catch (error) {
+      if (!isUniqueViolation(error)) throw error;
+      const placed = await findShipmentManifest(shipment.id);
+      if (placed) return placed;
+      if (attempt >= MANIFEST_ADD_ATTEMPTS) {
+        throw new PickupManifestError('تعذر فتح بيان تسليم جديد، يرجى إعادة المسح', 409);
+      }
+    }
+  }
+}
+
+export async function listPickupManifests(options: { warehouseIds: string[] | null; since: Date }) {
+  return prisma.pickupManifest.findMany({
+    where: {
+      ...(options.warehouseIds ? { warehouseId: { in: options.warehouseIds } } : {}),
+      OR: [{ status: 'open' }, { createdAt: { gte: options.since } }],
+    },
+    orderBy: [{ status: 'asc' }, { createdAt: 'desc' }],
+    ...manifestWithItems,
+  });
+}
+
+export async function getPickupManifest(id: string) {
+  return prisma.pickupManifest.findUnique({ where: { id }, ...manifestWithItems });
+}
+
+export async function signPickupManifest(
+  id: string,
+  signature: { driverName: string; driverPhone: string | null; signatureDataUrl: string },
+  actor: PickupManifestActor,
+) {
+  const manifest = await prisma.pickupManifest.findUnique({
+    where: { id },
+    select: { status: true, _count: { select: { items: true } } },
+  });
+  if (!manifest) {
+    throw new PickupManifestError('لم يتم العثور على البيان', 404);
+  }
+  if (manifest.status !== 'open') {
+    throw new PickupManifestError('تم توقيع هذا البيان مسبقاً', 409);
+  }
+  if (manifest._count.items === 0) {
+    throw new PickupManifestError('لا توجد شحنات في هذا البيان');
+  }
+
+  // The status condition keeps two devices from signing the same manifest.
+  const updated = await prisma.pickupManifest.updateMany({
+    where: { id, status: 'open' },
+    data: {
+      status: 'signed',
+      ...signature,
+      signedAt: new Date(),
+      signedById: actor.id,
+      signedByName: actor.name || actor.username,
+    },
+  });
+  if (updated.count === 0) {
+    throw new PickupManifestError('تم توقيع هذا البيان مسبقاً', 409);
+  }
+  return getPickupManifest(id);
+}
+
+/**
+ * Labelled Salla and manual shipments from the last `days` days that a signed
+ * manifest should have included but did not.
+ */
+export async function listUnmanifestedShipments(days: number) {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const [sallaShipments, manualShipments, signedManifests] = await Promise.all([
+    prisma.sallaShipment.findMany({
+      where: { labelPrinted: true, createdAt: { gte: since } },
+      select: { trackingNumber: true, orderNumber: true, labelPrintedAt: true, createdAt: true },
+    }),
+    prisma.manualShipment.findMany({
+      where: {
+        trackingNumber: { not: null },
+        createdAt: { gte: since },
+        deletedAt: null,
+        status: { not: 'cancelled' },
+      },
+      select: { trackingNumber: true, orderNumber: true, carrier: true, createdAt: true },
+    }),
+    prisma.pickupManifest.findMany({
+      where: { status: 'signed', signedAt: { gte: since } },
+      select: { manifestNumber: true, company: true, signedAt: true },
+    }),
+  ]);
+
+  const labelled: LabelledShipment[] = [
+    ...sallaShipments
+      .filter((shipment) => shipment.trackingNumber)
+      .map((shipment) => ({
+        trackingNumber: shipment.trackingNumber,
+        company: detectShipmentCompany(shipment.trackingNumber).id,
+        orderNumber: shipment.orderNumber,
+        source: 'salla' as const,
+        labelledAt: shipment.labelPrintedAt ?? shipment.createdAt,
+      })),
+    ...manualShipments.map((shipment) => ({
+      trackingNumber: shipment.trackingNumber as string,
+      company: shipment.carrier,
+      orderNumber: shipment.orderNumber,
+      source: 'manual' as const,
+      labelledAt: shipment.createdAt,
+    })),
+  ];
+
+  const manifested = await prisma.pickupManifestItem.findMany({
+    where: { trackingNumber: { in: labelled.map((shipment) => shipment.trackingNumber) } },
+    select: { trackingNumber: true },
+  });
+
+  return findUnmanifestedShipments({
+    labelled,
+    manifestedTrackingNumbers: new Set(manifested.map((item) => item.trackingNumber)),
+    signedManifests: signedManifests.map((manifest) => ({
+      manifestNumber: manifest.manifestNumber,
+      company: manifest.company,
+      signedAt: manifest.signedAt as Date,
+    })),
+  });
+}
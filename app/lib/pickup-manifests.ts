@@ -0,0 +1,152 @@
+/**
+ * Courier pickup manifests: numbering, totals and the check that flags
+ * labelled shipments the courier never signed for. Free of Prisma so the
+ * rules can be tested directly; `pickup-manifest-service.ts` persists them.
+ */
+
+export type PickupManifestStatus = 'open' | 'signed';
+
+export type ManifestItemLike = {
+  trackingNumber: string;
+  pieces: number;
+  codAmount: number;
+};
+
+export type ManifestTotals = {
+  shipmentCount: number;
+  pieceCount: number;
+  codTotal: number;
+  codShipmentCount: number;
+};
+
+export type LabelledShipment = {
+  trackingNumber: string;
+  company: string;
+  orderNumber: string | null;
+  source: 'salla' | 'manual';
+  labelledAt: Date;
+};
+
+export type UnmanifestedShipment = LabelledShipment & {
+  /** The signed manifest the shipment should have been on. */
+  expectedManifestNumber: string;
+  expectedSignedAt: Date;
+};
+
+export type SignedManifestLike = {
+  manifestNumber: string;
+  company: string;
+  signedAt: Date;
+};
+
+export class PickupManifestError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'PickupManifestError';
+    this.statusCode = statusCode;
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const RIYADH_OFFSET_MS = 3 * 60 * 60 * 1000;
+
+/** Midnight in Riyadh (UTC+3, no DST) of the day `date` falls on. */
+export function riyadhDayStart(date: Date): Date {
+  const local = new Date(date.getTime() + RIYADH_OFFSET_MS);
+  local.setUTCHours(0, 0, 0, 0);
+  return new Date(local.getTime() - RIYADH_OFFSET_MS);
+}
+
+/**
+ * MF-YYYYMMDD-<COMPANY>-<NN>, dated in Riyadh time and counting manifests
+ * already opened that day for the same carrier. Only ASCII so it encodes as
+ * Code 128.
+ */
+export function buildManifestNumber(company: string, openedAt: Date, sequence: number): string {
+  const local = new Date(openedAt.getTime() + RIYADH_OFFSET_MS);
+  const day = `${local.getUTCFullYear()}${pad(local.getUTCMonth() + 1)}${pad(local.getUTCDate())}`;
+  const code = company.toUpperCase().replace(/[^A-Z0-9]/g, '') || 'X';
+  return `MF-${day}-${code}-${pad(sequence)}`;
+}
+
+export function summarizeManifestItems(items: ManifestItemLike[]): ManifestTotals {
+  return items.reduce<ManifestTotals>(
+    (totals, item) => ({
+      shipmentCount: totals.shipmentCount + 1,
+      pieceCount: totals.pieceCount + Math.max(1, item.pieces),
+      codTotal: round2(totals.codTotal + Math.max(0, item.codAmount)),
+      codShipmentCount: totals.codShipmentCount + (item.codAmount > 0 ? 1 : 0),
+    }),
+    { shipmentCount: 0, pieceCount: 0, codTotal: 0, codShipmentCount: 0 },
+  );
+}
+
+const MAX_DRIVER_NAME_LENGTH = 120;
+// A signature pad PNG at phone resolution is well under this; anything larger
+// is not a signature.
+const MAX_SIGNATURE_LENGTH = 400_000;
+
+export function parseManifestSignature(body: any): {
+  driverName: string;
+  driverPhone: string | null;
+  signatureDataUrl: string;
+} {
+  const driverName = typeof body?.driverName === 'string' ? body.driverName.trim() : '';
+  if (!driverName) {
+    throw new PickupManifestError('اسم مندوب شركة الشحن مطلوب');
+  }
+  if (driverName.length > MAX_DRIVER_NAME_LENGTH) {
+    throw new PickupManifestError('اسم المندوب طويل جداً');
+  }
+  const driverPhone = typeof body?.driverPhone === 'string' && body.driverPhone.trim() ? body.driverPhone.trim() : null;
+  const signatureDataUrl = typeof body?.signatureDataUrl === 'string' ? body.signatureDataUrl : '';
+  if (!signatureDataUrl.startsWith('data:image/png;base64,')) {
+    throw new PickupManifestError('توقيع المندوب مطلوب');
+  }
+  if (signatureDataUrl.length > MAX_SIGNATURE_LENGTH) {
+    throw new PickupManifestError('صورة التوقيع كبيرة جداً');
+  }
+  return { driverName, driverPhone, signatureDataUrl };
+}
+
+/**
+ * A labelled shipment is flagged once a manifest for its carrier was signed
+ * after the label existed but the shipment was not on any manifest: the
+ * courier came and left without it, or took it without signing for it.
+ * Labels newer than the last signature are still waiting for a pickup.
+ */
+export function findUnmanifestedShipments(input: {
+  labelled: LabelledShipment[];
+  manifestedTrackingNumbers: Set<string>;
+  signedManifests: SignedManifestLike[];
+}): UnmanifestedShipment[] {
+  const byCompany = new Map<string, SignedManifestLike[]>();
+  for (const manifest of input.signedManifests) {
+    const list = byCompany.get(manifest.company) ?? [];
+    list.push(manifest);
+    byCompany.set(manifest.company, list);
+  }
+  for (const list of byCompany.values()) {
+    list.sort((a, b) => a.signedAt.getTime() - b.signedAt.getTime());
+  }
+
+  const flagged: UnmanifestedShipment[] = [];
+  for (const shipment of input.labelled) {
+    if (input.manifestedTrackingNumbers.has(shipment.trackingNumber)) continue;
+    const firstPickupAfterLabel = byCompany
+      .get(shipment.company)
+      ?.find((manifest) => manifest.signedAt.getTime() > shipment.labelledAt.getTime());
+    if (!firstPickupAfterLabel) continue;
+    flagged.push({
+      ...shipment,
+      expectedManifestNumber: firstPickupAfterLabel.manifestNumber,
+      expectedSignedAt: firstPickupAfterLabel.signedAt,
+    });
+  }
+  return flagged.sort((a, b) => a.labelledAt.getTime() - b.labelledAt.getTime());
+}
@@ -0,0 +1,24 @@
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+
+export type PrinterLabelFormat = 'pdf' | 'zpl';
+
+export const isPrinterLabelFormat = (value: unknown): value is PrinterLabelFormat =>
+  value === 'pdf' || value === 'zpl';
+
+/**
+ * The label format configured for a PrintNode printer in its PrinterProfile.
+ * Printers without a profile, or a failed lookup, keep printing PDFs.
+ */
+export async function getPrinterLabelFormat(printerId: number): Promise<PrinterLabelFormat> {
+  try {
+    const profile = await prisma.printerProfile.findUnique({
+      where: { printerId },
+      select: { labelFormat: true },
+    });
+    return isPrinterLabelFormat(profile?.labelFormat) ? profile.labelFormat : 'pdf';
+  } catch (error) {
+    log.warn('Failed to load printer label format, falling back to PDF', { printerId, error });
+    return 'pdf';
+  }
+}
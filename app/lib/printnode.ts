@@ -142,6 +142,25 @@ export async function sendPrintJob(options: PrintJobOptions): Promise<{ success:
   }
 }
 
+/**
+ * Send a ZPL label as a raw job. The printer renders it natively, so paper,
+ * DPI and fit-to-page options do not apply.
+ */
+export function sendZplPrintJob(options: {
+  title?: string;
+  zpl: string;
+  printerId?: number;
+  copies?: number;
+}): Promise<{ success: boolean; jobId?: number; error?: string }> {
+  return sendPrintJob({
+    title: options.title,
+    contentType: 'raw_base64',
+    content: Buffer.from(options.zpl, 'utf8').toString('base64'),
+    printerId: options.printerId,
+    copies: options.copies,
+  });
+}
+
 /**
  * Fetch printers (devices) from PrintNode
  */
@@ -0,0 +1,282 @@
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  ProductBinError,
+  assertBinMovable,
+  binCodeForLocation,
+  formatBinCode,
+  parseBinCode,
+  type BinAddress,
+} from '@/app/lib/product-bins';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export type ProductBinActor = {
+  id: string | null;
+  name: string | null;
+  username: string | null;
+};
+
+const actorLabel = (actor: ProductBinActor) => actor.username || actor.name || actor.id || 'unknown-user';
+
+const actorColumns = (actor: ProductBinActor) => ({
+  createdById: actor.id,
+  createdByName: actor.name,
+  createdByUsername: actor.username,
+});
+
+export async function listProductBins(sku: string) {
+  return prisma.productBin.findMany({
+    where: { sku },
+    orderBy: [{ isPrimary: 'desc' }, { code: 'asc' }],
+  });
+}
+
+export async function listProductBinMoves(options: { sku?: string | null; take: number }) {
+  return prisma.productBinMoveLog.findMany({
+    where: options.sku ? { sku: options.sku } : undefined,
+    orderBy: { createdAt: 'desc' },
+    take: options.take,
+  });
+}
+
+/**
+ * Makes `binId` the SKU's only primary bin and mirrors its code into the
+ * legacy location column. A location that already reads as this bin (e.g.
+ * "a 3 2") is left as typed.
+ */
+async function promotePrimaryBin(client: DbClient, sku: string, binId: string, code: string, actor: ProductBinActor) {
+  await client.productBin.updateMany({
+    where: { sku, isPrimary: true, id: { not: binId } },
+    data: { isPrimary: false },
+  });
+  await client.productBin.update({ where: { id: binId }, data: { isPrimary: true } });
+  const current = await client.sallaProductLocation.findUnique({
+    where: { sku },
+    select: { location: true },
+  });
+  if (current && binCodeForLocation(current.location) === code) return;
+  await client.sallaProductLocation.update({
+    where: { sku },
+    data: { location: code, updatedBy: actorLabel(actor) },
+  });
+}
+
+async function requireProductLocation(client: DbClient, sku: string) {
+  const productLocation = await client.sallaProductLocation.findUnique({
+    where: { sku },
+    select: { sku: true, productName: true },
+  });
+  if (!productLocation) {
+    throw new ProductBinError('سجّل موقع المنتج أولاً قبل إضافة مواقع إضافية', 404);
+  }
+  return productLocation;
+}
+
+/**
+ * Creates or updates the bin at `address`. A quantity that differs from what
+ * was recorded is logged as a count; the first bin of a SKU is always primary.
+ */
+export async function saveProductBin(input: {
+  sku: string;
+  address: BinAddress;
+  quantity?: number;
+  isPrimary?: boolean;
+  notes?: string | null;
+  actor: ProductBinActor;
+}) {
+  const { sku, address, actor } = input;
+  const code = formatBinCode(address);
+
+  return prisma.$transaction(async (tx) => {
+    const productLocation = await requireProductLocation(tx, sku);
+    const existing = await tx.productBin.findUnique({ where: { sku_code: { sku, code } } });
+    const hasPrimary = await tx.productBin.count({ where: { sku, isPrimary: true } });
+
+    const saved = existing
+      ? await tx.productBin.update({
+          where: { id: existing.id },
+          data: {
+            ...(input.quantity !== undefined ? { quantity: input.quantity } : {}),
+            ...(input.notes !== undefined ? { notes: input.notes } : {}),
+            updatedBy: actorLabel(actor),
+          },
+        })
+      : await tx.productBin.create({
+          data: {
+            sku,
+            ...address,
+            code,
+            quantity: input.quantity ?? 0,
+            notes: input.notes ?? null,
+            createdBy: actorLabel(actor),
+            updatedBy: actorLabel(actor),
+          },
+        });
+
+    const previous = existing?.quantity ?? 0;
+    if (input.quantity !== undefined && input.quantity !== previous) {
+      await tx.productBinMoveLog.create({
+        data: {
+          operationId: randomUUID(),
+          mode: 'count',
+          sku,
+          productName: productLocation.productName,
+          toBinCode: code,
+          toPrevious: previous,
+          toResulting: input.quantity,
+          quantity: input.quantity - previous,
+          ...actorColumns(actor),
+        },
+      });
+    }
+
+    if ((input.isPrimary && !saved.isPrimary) || hasPrimary === 0) {
+      await promotePrimaryBin(tx, sku, saved.id, code, actor);
+      return { ...saved, isPrimary: true };
+    }
+    return saved;
+  });
+}
+
+/**
+ * Moves stock between two bins of the same SKU. The destination is either an
+ * existing bin or a new address, which is created on the way. The source is
+ * decremented with its quantity in the where clause so two moves racing for
+ * the same units cannot drive it negative.
+ */
+export async function moveProductBinStock(input: {
+  sku: string;
+  fromBinId: string;
+  to: { binId: string } | { address: BinAddress };
+  quantity: number;
+  reason?: string | null;
+  actor: ProductBinActor;
+}) {
+  const { sku, quantity, actor } = input;
+
+  return prisma.$transaction(async (tx) => {
+    const productLocation = await requireProductLocation(tx, sku);
+    const from = await tx.productBin.findFirst({ where: { id: input.fromBinId, sku } });
+    if (!from) {
+      throw new ProductBinError('الموقع المصدر غير موجود لهذا المنتج', 404);
+    }
+
+    let to =
+      'binId' in input.to
+        ? await tx.productBin.findFirst({ where: { id: input.to.binId, sku } })
+        : await tx.productBin.findUnique({
+            where: { sku_code: { sku, code: formatBinCode(input.to.address) } },
+          });
+    if (!to && 'binId' in input.to) {
+      throw new ProductBinError('الموقع الهدف غير موجود لهذا المنتج', 404);
+    }
+    const toCode = to?.code ?? formatBinCode((input.to as { address: BinAddress }).address);
+    assertBinMovable(from, { id: to?.id, code: toCode }, quantity);
+
+    const taken = await tx.productBin.updateMany({
+      where: { id: from.id, quantity: { gte: quantity } },
+      data: { quantity: { decrement: quantity }, updatedBy: actorLabel(actor) },
+    });
+    if (taken.count === 0) {
+      throw new ProductBinError(`تغيرت الكمية في ${from.code}، حدّث الصفحة وأعد المحاولة`, 409);
+    }
+
+    if (to) {
+      to = await tx.productBin.update({
+        where: { id: to.id },
+        data: { quantity: { increment: quantity }, updatedBy: actorLabel(actor) },
+      });
+    } else {
+      to = await tx.productBin.create({
+        data: {
+          sku,
+          ...(input.to as { address: BinAddress }).address,
+          code: toCode,
+          quantity,
+          createdBy: actorLabel(actor),
+          updatedBy: actorLabel(actor),
+        },
+      });
+    }
+
+    const fromResulting = from.quantity - quantity;
+    const log = await tx.productBinMoveLog.create({
+      data: {
+        operationId: randomUUID(),
+        mode: 'move',
+        sku,
+        productName: productLocation.productName,
+        fromBinCode: from.code,
+        fromPrevious: from.quantity,
+        fromResulting,
+        toBinCode: to.code,
+        toPrevious: to.quantity - quantity,
+        toResulting: to.quantity,
+        quantity,
+        reason: input.reason || null,
+        ...actorColumns(actor),
+      },
+    });
+
+    return { from: { ...from, quantity: fromResulting }, to, log };
+  });
+}
+
+/**
+ * Removes an empty bin. When it was the primary, the fullest remaining bin
+ * takes over so the SKU keeps a pick face.
+ */
+export async function deleteProductBin(input: { sku: string; binId: string; actor: ProductBinActor }) {
+  const { sku, binId, actor } = input;
+
+  return prisma.$transaction(async (tx) => {
+    const bin = await tx.productBin.findFirst({ where: { id: binId, sku } });
+    if (!bin) {
+      throw new ProductBinError('لم يتم العثور على الموقع المطلوب', 404);
+    }
+    if (bin.quantity > 0) {
+      throw new ProductBinError(`انقل الكمية المتبقية (${bin.quantity}) من ${bin.code} قبل حذفه`, 409);
+    }
+
+    await tx.productBin.delete({ where: { id: bin.id } });
+
+    if (bin.isPrimary) {
+      const successor = await tx.productBin.findFirst({
+        where: { sku },
+        orderBy: [{ quantity: 'desc' }, { code: 'asc' }],
+      });
+      if (successor) {
+        await promotePrimaryBin(tx, sku, successor.id, successor.code, actor);
+      }
+    }
+  });
+}
+
+/**
+ * Keeps the bins in step with the single-location form: the location saved
+ * there becomes (or stays) the SKU's primary bin.
+ */
+export async function syncPrimaryBinFromLocation(sku: string, location: string, actor: ProductBinActor) {
+  const address = parseBinCode(location);
+  if (!address) return;
+  const code = formatBinCode(address);
+
+  await prisma.$transaction(async (tx) => {
+    const bin = await tx.productBin.upsert({
+      where: { sku_code: { sku, code } },
+      create: {
+        sku,
+        ...address,
+        code,
+        createdBy: actorLabel(actor),
+        updatedBy: actorLabel(actor),
+      },
+      update: {},
+    });
+    if (!bin.isPrimary) {
+      await promotePrimaryBin(tx, sku, bin.id, code, actor);
+    }
+  });
+}
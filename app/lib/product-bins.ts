@@ -0,0 +1,156 @@
+/**
+ * Structured warehouse bins (zone/aisle/shelf/bin) and the rules for picking
+ * from and moving between them. Free of Prisma so the pick and move rules can
+ * be tested directly; `product-bin-service.ts` persists them.
+ */
+
+export type BinAddress = {
+  zone: string;
+  aisle: string | null;
+  shelf: string | null;
+  bin: string | null;
+};
+
+export type ProductBinLike = {
+  code: string;
+  quantity: number;
+  isPrimary: boolean;
+};
+
+export type BinPickAllocation = {
+  code: string;
+  quantity: number;
+};
+
+export type ProductBinMoveMode = 'move' | 'count';
+
+export class ProductBinError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'ProductBinError';
+    this.statusCode = statusCode;
+  }
+}
+
+function segment(value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const cleaned = String(value).trim().toUpperCase().replace(/[\s-]+/g, '');
+  return cleaned || null;
+}
+
+export function normalizeBinAddress(input: {
+  zone?: unknown;
+  aisle?: unknown;
+  shelf?: unknown;
+  bin?: unknown;
+}): BinAddress | null {
+  const zone = segment(input.zone);
+  if (!zone) return null;
+  return {
+    zone,
+    aisle: segment(input.aisle),
+    shelf: segment(input.shelf),
+    bin: segment(input.bin),
+  };
+}
+
+/** The scannable label used on shelves and in `SallaProductLocation.location`, e.g. `A-03-2-B`. */
+export function formatBinCode(address: BinAddress): string {
+  return [address.zone, address.aisle, address.shelf, address.bin].filter(Boolean).join('-');
+}
+
+/**
+ * Reads a legacy free-text location into an address. Codes with more than four
+ * parts keep the tail in the bin segment so nothing typed on a label is lost.
+ */
+export function parseBinCode(code: unknown): BinAddress | null {
+  if (typeof code !== 'string') return null;
+  const parts = code.trim().toUpperCase().split(/[\s-]+/).filter(Boolean);
+  if (parts.length === 0) return null;
+  const [zone, aisle, shelf, ...rest] = parts;
+  return {
+    zone,
+    aisle: aisle ?? null,
+    shelf: shelf ?? null,
+    bin: rest.length > 0 ? rest.join('') : null,
+  };
+}
+
+/** The bin code a legacy location points at, spelled the way bins store it. */
+export function binCodeForLocation(location: unknown): string | null {
+  const address = parseBinCode(location);
+  return address ? formatBinCode(address) : null;
+}
+
+/**
+ * Plans where a picker takes `quantity` units from. A bin that can fill the
+ * whole line wins (primary first, then the emptiest one so overflow bins are
+ * drained); otherwise the line is split across stocked bins, primary first and
+ * then the fullest. With no stock recorded anywhere the picker is sent to the
+ * primary bin, which is where replenishment lands.
+ */
+export function planBinPicks(bins: ProductBinLike[], quantity: number): BinPickAllocation[] {
+  const needed = Math.max(1, Math.floor(quantity) || 1);
+  const stocked = bins.filter((bin) => bin.quantity > 0);
+
+  if (stocked.length === 0) {
+    const fallback = bins.find((bin) => bin.isPrimary) ?? bins[0];
+    return fallback ? [{ code: fallback.code, quantity: needed }] : [];
+  }
+
+  const sufficient = stocked
+    .filter((bin) => bin.quantity >= needed)
+    .sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary) || a.quantity - b.quantity);
+  if (sufficient.length > 0) {
+    return [{ code: sufficient[0].code, quantity: needed }];
+  }
+
+  const ordered = [...stocked].sort(
+    (a, b) => Number(b.isPrimary) - Number(a.isPrimary) || b.quantity - a.quantity,
+  );
+  const allocations: BinPickAllocation[] = [];
+  let remaining = needed;
+  for (const bin of ordered) {
+    if (remaining <= 0) break;
+    const take = Math.min(bin.quantity, remaining);
+    allocations.push({ code: bin.code, quantity: take });
+    remaining -= take;
+  }
+  // Short overall: the rest is still expected at the first bin, where the
+  // preparer reports the shortage.
+  if (remaining > 0) {
+    allocations[0] = { ...allocations[0], quantity: allocations[0].quantity + remaining };
+  }
+  return allocations;
+}
+
+export function describeBinPicks(allocations: BinPickAllocation[]): string | null {
+  if (allocations.length < 2) return null;
+  return `اسحب من ${allocations.map((entry) => `${entry.code} ×${entry.quantity}`).join('، ')}`;
+}
+
+export function parseMoveQuantity(value: unknown): number {
+  const numeric = typeof value === 'number' ? value : Number(value);
+  if (!Number.isInteger(numeric) || numeric <= 0) {
+    throw new ProductBinError('الكمية المنقولة يجب أن تكون رقماً صحيحاً أكبر من صفر');
+  }
+  return numeric;
+}
+
+export function assertBinMovable(
+  from: { id: string; code: string; quantity: number },
+  to: { id?: string | null; code: string },
+  quantity: number,
+) {
+  if ((to.id && to.id === from.id) || to.code === from.code) {
+    throw new ProductBinError('لا يمكن النقل إلى نفس الموقع');
+  }
+  if (from.quantity < quantity) {
+    throw new ProductBinError(
+      `الكمية في ${from.code} (${from.quantity}) أقل من الكمية المطلوب نقلها (${quantity})`,
+      409,
+    );
+  }
+}
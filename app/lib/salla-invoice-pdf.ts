@@ -428,7 +428,7 @@ async function loadLogo(): Promise<Uint8Array | null> {
   return cachedLogo;
 }
 
-async function fetchImage(pdf: PDFDocument, url: string): Promise<PDFImage | null> {
+export async function fetchImage(pdf: PDFDocument, url: string): Promise<PDFImage | null> {
   if (!url || !/^https?:\/\//.test(url)) return null;
   try {
     const res = await fetch(url);
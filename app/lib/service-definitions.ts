@@ -74,6 +74,17 @@ const serviceDefinitionsData = [
     grantsRoles: [],
     assignable: true,
   },
+  {
+    key: 'shipping-rates',
+    title: 'أسعار الشحن واختيار الشركة',
+    description: 'بطاقات أسعار شركات الشحن وقواعد اختيار الشركة تلقائياً لكل طلب',
+    icon: '🚚',
+    href: '/admin/shipping-rates',
+    color: 'from-sky-500 to-blue-600',
+    defaultRoles: ['admin'],
+    grantsRoles: [],
+    assignable: false,
+  },
   {
     key: 'zoko-notifications',
     title: 'مراقبة إشعارات واتساب',
@@ -105,6 +116,16 @@ const serviceDefinitionsData = [
     defaultRoles: ['admin', 'warehouse'],
     grantsRoles: ['warehouse'],
   },
+  {
+    key: 'shipment-exceptions',
+    title: 'الشحنات المتعثرة',
+    description: 'شحنات سمسا المتوقفة أو المرتجعة أو ذات مشاكل العنوان مع مسؤول وملاحظات حل',
+    icon: '🚨',
+    href: '/shipment-exceptions',
+    color: 'from-orange-500 to-red-500',
+    defaultRoles: ['admin', 'warehouse', 'orders'],
+    grantsRoles: [],
+  },
   {
     key: 'warehouse-locations',
     title: 'مواقع التخزين',
@@ -165,6 +186,16 @@ const serviceDefinitionsData = [
     defaultRoles: ['admin', 'warehouse', 'accountant'],
     grantsRoles: ['warehouse'],
   },
+  {
+    key: 'delivery-commissions',
+    title: 'عمولات المناديب',
+    description: 'قواعد أجور التوصيل والمهام حسب تاريخ السريان مع معاينة وحساب أثر التغيير',
+    icon: '🧮',
+    href: '/delivery-commissions',
+    color: 'from-teal-500 to-emerald-600',
+    defaultRoles: ['admin', 'accountant'],
+    grantsRoles: [],
+  },
   {
     key: 'affiliate-management',
     title: 'تقارير المسوقين',
@@ -6,13 +6,37 @@
 
 import { prisma } from '@/lib/prisma';
 import { log as logger } from './logger';
+import type { OrderPrepSlaThresholds } from './order-prep-sla';
+import type { ShipmentExceptionThresholds } from './shipment-exceptions';
+import {
+  DEFAULT_SMS_FALLBACK_SETTINGS,
+  FALLBACK_MESSAGE_TYPES,
+  parseSmsFallbackRule,
+  smsFallbackSettingKey,
+  type FallbackMessageType,
+  type SmsFallbackRule,
+  type SmsFallbackSettingKey,
+} from './message-channel-fallback';
 
 export type SettingKey =
   | 'erp_auto_sync_enabled'
   | 'erp_auto_sync_on_status'
   | 'erp_sync_delay_seconds'
   | 'zoko_webhook_processing_enabled'
-  | 'availability_auto_notify_enabled';
+  | 'availability_auto_notify_enabled'
+  | 'order_prep_scan_verification_enabled'
+  | 'order_prep_sla_assigned_minutes'
+  | 'order_prep_sla_preparing_minutes'
+  | 'order_prep_sla_waiting_minutes'
+  | 'order_prep_sla_release_minutes'
+  | 'order_prep_sla_priority_minutes'
+  | 'order_shortage_purchase_request_hours'
+  | 'carrier_selection_strategy'
+  | 'shipment_exception_no_scan_days'
+  | 'shipment_exception_failed_attempts'
+  | 'shipment_exception_address_whatsapp_enabled'
+  | 'local_delivery_max_attempts'
+  | SmsFallbackSettingKey;
 
 interface SettingDefinition {
   key: SettingKey;
@@ -47,6 +71,74 @@ const SETTING_DEFINITIONS: SettingDefinition[] = [
     description:
       'Automatically send the Zoko WhatsApp back-in-stock template when a requested product returns to stock',
   },
+  {
+    key: 'order_prep_scan_verification_enabled',
+    defaultValue: 'false',
+    description: 'Require every order-prep line to be barcode-scanned before the order can be completed',
+  },
+  {
+    key: 'order_prep_sla_assigned_minutes',
+    defaultValue: '30',
+    description: 'Minutes an order-prep assignment may stay assigned before it must be started (0 disables)',
+  },
+  {
+    key: 'order_prep_sla_preparing_minutes',
+    defaultValue: '120',
+    description: 'Minutes allowed from starting an order-prep assignment to completing it (0 disables)',
+  },
+  {
+    key: 'order_prep_sla_waiting_minutes',
+    defaultValue: '1440',
+    description: 'Minutes an order-prep assignment may stay in the waiting state (0 disables)',
+  },
+  {
+    key: 'order_prep_sla_release_minutes',
+    defaultValue: '60',
+    description: 'Release never-started order-prep assignments back to the pool after this many minutes (0 disables)',
+  },
+  {
+    key: 'order_prep_sla_priority_minutes',
+    defaultValue: '15',
+    description: 'Escalate high-priority orders still unassigned after this many minutes (0 disables)',
+  },
+  {
+    key: 'order_shortage_purchase_request_hours',
+    defaultValue: '48',
+    description:
+      'Raise a purchase request for an order-prep shortage still out of stock after this many hours (0 disables)',
+  },
+  {
+    key: 'carrier_selection_strategy',
+    defaultValue: 'cheapest',
+    description: 'How order shipping preselects a carrier among those the selection rules allow: cheapest or fastest',
+  },
+  {
+    key: 'shipment_exception_no_scan_days',
+    defaultValue: '3',
+    description: 'Days without an SMSA scan before an undelivered shipment is raised as stuck (0 disables)',
+  },
+  {
+    key: 'shipment_exception_failed_attempts',
+    defaultValue: '2',
+    description: 'Failed SMSA delivery attempts before a shipment is raised as an exception (0 disables)',
+  },
+  {
+    key: 'shipment_exception_address_whatsapp_enabled',
+    defaultValue: 'false',
+    description:
+      'Automatically send the customer a WhatsApp address confirmation when SMSA reports an address problem',
+  },
+  {
+    key: 'local_delivery_max_attempts',
+    defaultValue: '3',
+    description:
+      'Messenger delivery attempts, including the first, before a failed local shipment returns to the warehouse',
+  },
+  ...FALLBACK_MESSAGE_TYPES.map((type) => ({
+    key: smsFallbackSettingKey(type),
+    defaultValue: DEFAULT_SMS_FALLBACK_SETTINGS[type],
+    description: `SMS fallback for ${type} WhatsApp messages: off, failed (only when WhatsApp rejects it), or minutes to wait for delivery`,
+  })),
 ];
 
 /**
@@ -224,3 +316,74 @@ export async function isZokoWebhookProcessingEnabled(): Promise<boolean> {
 export async function isAvailabilityAutoNotifyEnabled(): Promise<boolean> {
   return await getSettingBoolean('availability_auto_notify_enabled');
 }
+
+/**
+ * Scan-to-verify mode for order prep. When on, completing an assignment is
+ * refused until every ready line has been scanned its full quantity.
+ */
+export async function isOrderPrepScanVerificationEnabled(): Promise<boolean> {
+  return await getSettingBoolean('order_prep_scan_verification_enabled');
+}
+
+/**
+ * SLA thresholds (minutes) enforced by the order-prep SLA monitor.
+ */
+export async function getOrderPrepSlaThresholds(): Promise<OrderPrepSlaThresholds> {
+  const [assigned, preparing, waiting, release, priority] = await Promise.all([
+    getSettingNumber('order_prep_sla_assigned_minutes'),
+    getSettingNumber('order_prep_sla_preparing_minutes'),
+    getSettingNumber('order_prep_sla_waiting_minutes'),
+    getSettingNumber('order_prep_sla_release_minutes'),
+    getSettingNumber('order_prep_sla_priority_minutes'),
+  ]);
+
+  return {
+    assignedToStartedMinutes: assigned,
+    startedToCompletedMinutes: preparing,
+    waitingMinutes: waiting,
+    releaseUnstartedMinutes: release,
+    priorityUnassignedMinutes: priority,
+  };
+}
+
+/**
+ * Hours an order-prep shortage may stay out of stock before the restock
+ * watcher raises a purchase request for it. 0 turns purchase requests off.
+ */
+export async function getOrderShortagePurchaseRequestHours(): Promise<number> {
+  return await getSettingNumber('order_shortage_purchase_request_hours');
+}
+
+/**
+ * Thresholds used by the scheduled SMSA shipment exception scan.
+ */
+export async function getShipmentExceptionThresholds(): Promise<ShipmentExceptionThresholds> {
+  const [noScanDays, failedAttempts] = await Promise.all([
+    getSettingNumber('shipment_exception_no_scan_days'),
+    getSettingNumber('shipment_exception_failed_attempts'),
+  ]);
+  return { noScanDays, failedAttempts };
+}
+
+/**
+ * Whether an SMSA address-problem scan automatically asks the customer to
+ * confirm their address over WhatsApp. The inbox can always send it by hand.
+ */
+export async function isShipmentAddressWhatsAppEnabled(): Promise<boolean> {
+  return await getSettingBoolean('shipment_exception_address_whatsapp_enabled');
+}
+
+/**
+ * Total messenger delivery attempts for a local shipment. A failure before
+ * the last one creates a new assignment; the last one starts the return.
+ */
+export async function getLocalDeliveryMaxAttempts(): Promise<number> {
+  return Math.max(1, await getSettingNumber('local_delivery_max_attempts'));
+}
+
+/**
+ * When a WhatsApp message of this type is resent by SMS through Msegat.
+ */
+export async function getSmsFallbackRule(type: FallbackMessageType): Promise<SmsFallbackRule> {
+  return parseSmsFallbackRule(await getSetting(smsFallbackSettingKey(type)));
+}
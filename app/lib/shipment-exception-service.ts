@@ -0,0 +1,334 @@
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+import { enqueueAddressConfirmationNotification } from '@/app/lib/customer-journey-notifications';
+import { extractSmsaReturnOrderReference } from '@/app/lib/returns/smsa-return-reference';
+import { getShipmentExceptionThresholds, isShipmentAddressWhatsAppEnabled } from '@/app/lib/settings';
+import {
+  ShipmentExceptionError,
+  detectShipmentExceptions,
+  shouldReopenException,
+  type ShipmentExceptionStatus,
+  type ShipmentExceptionType,
+} from '@/app/lib/shipment-exceptions';
+
+export type ShipmentExceptionActor = {
+  id: string | null;
+  name: string | null;
+  username: string | null;
+};
+
+export type ShipmentExceptionScanResult = {
+  dryRun: boolean;
+  scanned: number;
+  raised: number;
+  reopened: number;
+  autoResolved: number;
+  addressRequests: number;
+};
+
+// Shipments whose last webhook update is older than this are left alone; SMSA
+// stops sending scans for them and they would sit in the inbox forever.
+const LOOKBACK_DAYS = 45;
+const DELIVERED_NOTE = 'أُغلقت تلقائياً: سمسا سجلت تسليم الشحنة';
+const CLEARED_NOTE = 'أُغلقت تلقائياً: لم تعد الشحنة تطابق شرط الاستثناء';
+
+const actorName = (actor: ShipmentExceptionActor) => actor.name || actor.username || actor.id || null;
+
+/**
+ * Scheduled pass over SMSA webhook shipments. Raises one exception per
+ * shipment and type, keeps open ones current, reopens resolved ones when a
+ * newer scan repeats the problem, and closes those that no longer apply.
+ */
+export async function runShipmentExceptionScan(
+  options: { dryRun?: boolean; now?: Date } = {},
+): Promise<ShipmentExceptionScanResult> {
+  const dryRun = Boolean(options.dryRun);
+  const now = options.now ?? new Date();
+  const [thresholds, autoAddressWhatsApp] = await Promise.all([
+    getShipmentExceptionThresholds(),
+    isShipmentAddressWhatsAppEnabled(),
+  ]);
+  const since = new Date(now.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  const shipments = await prisma.smsaWebhookShipment.findMany({
+    where: {
+      updatedAt: { gte: since },
+      OR: [{ isDelivered: null }, { isDelivered: false }],
+    },
+    select: {
+      id: true,
+      awb: true,
+      reference: true,
+      isDelivered: true,
+      createdAt: true,
+      scans: { select: { scanType: true, scanDescription: true, scanDateTime: true, city: true } },
+      exceptions: { select: { id: true, type: true, status: true, evidenceAt: true } },
+    },
+  });
+
+  const result: ShipmentExceptionScanResult = {
+    dryRun,
+    scanned: 0,
+    raised: 0,
+    reopened: 0,
+    autoResolved: 0,
+    addressRequests: 0,
+  };
+  const addressExceptionIds: string[] = [];
+
+  for (const shipment of shipments) {
+    // Customer return pickups are tracked by the returns desk.
+    if (extractSmsaReturnOrderReference(shipment.reference)) continue;
+    result.scanned += 1;
+
+    const detected = detectShipmentExceptions(shipment, thresholds, now);
+    const detectedTypes = new Set(detected.map((entry) => entry.type));
+    const existingByType = new Map(shipment.exceptions.map((entry) => [entry.type, entry]));
+
+    for (const entry of detected) {
+      const existing = existingByType.get(entry.type);
+      if (!existing) {
+        result.raised += 1;
+        if (dryRun) continue;
+        const created = await prisma.shipmentException.create({
+          data: {
+            shipmentId: shipment.id,
+            awb: shipment.awb,
+            reference: shipment.reference,
+            type: entry.type,
+            detail: entry.detail,
+            evidenceAt: entry.evidenceAt,
+            lastDetectedAt: now,
+          },
+        });
+        if (entry.type === 'address_issue') addressExceptionIds.push(created.id);
+        continue;
+      }
+
+      const reopen = shouldReopenException(existing, entry);
+      if (existing.status !== 'open' && !reopen) continue;
+      if (reopen) result.reopened += 1;
+      if (dryRun) continue;
+      await prisma.shipmentException.update({
+        where: { id: existing.id },
+        data: {
+          detail: entry.detail,
+          evidenceAt: entry.evidenceAt,
+          lastDetectedAt: now,
+          ...(reopen
+            ? {
+                status: 'open',
+                resolvedAt: null,
+                resolvedById: null,
+                resolvedByName: null,
+                resolutionNote: null,
+                autoResolved: false,
+              }
+            : {}),
+        },
+      });
+    }
+
+    const cleared = shipment.exceptions.filter(
+      (entry) => entry.status === 'open' && !detectedTypes.has(entry.type as ShipmentExceptionType),
+    );
+    if (cleared.length > 0) {
+      result.autoResolved += cleared.length;
+      if (!dryRun) {
+        await prisma.shipmentException.updateMany({
+          where: { id: { in: cleared.map((entry) => entry.id) }, status: 'open' },
+          data: { status: 'resolved', resolvedAt: now, autoResolved: true, resolutionNote: CLEARED_NOTE },
+        });
+      }
+    }
+  }
+
+  const deliveredWhere = { status: 'open', shipment: { isDelivered: true } };
+  if (dryRun) {
+    result.autoResolved += await prisma.shipmentException.count({ where: deliveredWhere });
+  } else {
+    const delivered = await prisma.shipmentException.updateMany({
+      where: deliveredWhere,
+      data: { status: 'resolved', resolvedAt: now, autoResolved: true, resolutionNote: DELIVERED_NOTE },
+    });
+    result.autoResolved += delivered.count;
+  }
+
+  if (autoAddressWhatsApp) {
+    for (const exceptionId of addressExceptionIds) {
+      try {
+        await requestAddressConfirmation(exceptionId, null);
+        result.addressRequests += 1;
+      } catch (error) {
+        log.warn('Automatic address confirmation was not queued', {
+          exceptionId,
+          error: error instanceof Error ? error.message : 'UNKNOWN_ERROR',
+        });
+      }
+    }
+  }
+
+  return result;
+}
+
+export async function listShipmentExceptions(filters: {
+  status?: ShipmentExceptionStatus | 'all';
+  type?: ShipmentExceptionType | null;
+  ownerId?: string | null;
+  search?: string | null;
+}) {
+  const search = filters.search?.trim();
+  const [exceptions, openCounts] = await Promise.all([
+    prisma.shipmentException.findMany({
+      where: {
+        ...(filters.status && filters.status !== 'all' ? { status: filters.status } : {}),
+        ...(filters.type ? { type: filters.type } : {}),
+        ...(filters.ownerId ? { ownerId: filters.ownerId } : {}),
+        ...(search
+          ? {
+              OR: [
+                { awb: { contains: search, mode: 'insensitive' as const } },
+                { reference: { contains: search, mode: 'insensitive' as const } },
+              ],
+            }
+          : {}),
+      },
+      orderBy: [{ status: 'asc' }, { evidenceAt: 'asc' }],
+      take: 300,
+      include: {
+        shipment: { select: { recipientName: true, destinationCity: true, codAmount: true, lastScanDateTime: true } },
+      },
+    }),
+    prisma.shipmentException.groupBy({
+      by: ['type'],
+      where: { status: 'open' },
+      _count: { _all: true },
+    }),
+  ]);
+
+  return {
+    exceptions,
+    openCounts: Object.fromEntries(openCounts.map((row) => [row.type, row._count._all])) as Partial<
+      Record<ShipmentExceptionType, number>
+    >,
+  };
+}
+
+async function findShipmentException(id: string) {
+  const exception = await prisma.shipmentException.findUnique({ where: { id } });
+  if (!exception) {
+    throw new ShipmentExceptionError('لم يتم العثور على الاستثناء', 404);
+  }
+  return exception;
+}
+
+export async function assignShipmentExceptionOwner(id: string, ownerId: string | null) {
+  const exception = await findShipmentException(id);
+  if (exception.status !== 'open') {
+    throw new ShipmentExceptionError('لا يمكن تغيير مسؤول استثناء مغلق', 409);
+  }
+
+  let ownerName: string | null = null;
+  if (ownerId) {
+    const owner = await prisma.orderUser.findFirst({
+      where: { id: ownerId, isActive: true },
+      select: { name: true },
+    });
+    if (!owner) {
+      throw new ShipmentExceptionError('المستخدم المحدد غير موجود أو غير نشط');
+    }
+    ownerName = owner.name;
+  }
+
+  return prisma.shipmentException.update({
+    where: { id },
+    data: { ownerId, ownerName, assignedAt: ownerId ? new Date() : null },
+  });
+}
+
+export async function resolveShipmentException(id: string, note: string, actor: ShipmentExceptionActor) {
+  const resolutionNote = note.trim();
+  if (!resolutionNote) {
+    throw new ShipmentExceptionError('يرجى كتابة ملاحظة الحل قبل إغلاق الاستثناء');
+  }
+  const exception = await findShipmentException(id);
+  if (exception.status !== 'open') {
+    throw new ShipmentExceptionError('تم إغلاق هذا الاستثناء مسبقاً', 409);
+  }
+
+  return prisma.shipmentException.update({
+    where: { id },
+    data: {
+      status: 'resolved',
+      resolutionNote,
+      resolvedAt: new Date(),
+      resolvedById: actor.id,
+      resolvedByName: actorName(actor),
+      autoResolved: false,
+    },
+  });
+}
+
+/**
+ * Queues the WhatsApp address confirmation for the Salla order behind the
+ * exception's SMSA reference. `actor` is null when the scan sends it.
+ */
+export async function requestAddressConfirmation(id: string, actor: ShipmentExceptionActor | null) {
+  const exception = await findShipmentException(id);
+  if (exception.status !== 'open') {
+    throw new ShipmentExceptionError('لا يمكن مراسلة العميل على استثناء مغلق', 409);
+  }
+  // One message per exception; the journey queue would drop a repeat anyway.
+  if (exception.customerContactedAt) {
+    throw new ShipmentExceptionError('تم طلب تأكيد العنوان من العميل مسبقاً', 409);
+  }
+  const reference = exception.reference?.trim().replace(/^#/, '');
+  const order = reference
+    ? await prisma.sallaOrder.findFirst({
+        where: { OR: [{ referenceId: reference }, { orderNumber: reference }, { orderId: reference }] },
+        orderBy: { updatedAt: 'desc' },
+        select: { merchantId: true, orderId: true, rawOrder: true },
+      })
+    : null;
+  if (!order) {
+    throw new ShipmentExceptionError('لم يتم العثور على طلب سلة مرتبط بهذه الشحنة', 404);
+  }
+
+  const queued = await enqueueAddressConfirmationNotification({
+    merchantId: order.merchantId,
+    orderId: order.orderId,
+    order: (order.rawOrder ?? {}) as Record<string, any>,
+    trackingNumber: exception.awb,
+    exceptionId: exception.id,
+  });
+  if (queued.status === 'disabled') {
+    throw new ShipmentExceptionError('رسائل واتساب للعملاء غير مفعلة', 409);
+  }
+  if (queued.status === 'skipped') {
+    throw new ShipmentExceptionError('لا يوجد رقم جوال صالح للعميل في الطلب', 422);
+  }
+
+  log.info('Queued shipment address confirmation', {
+    exceptionId: exception.id,
+    awb: exception.awb,
+    orderId: order.orderId,
+    requestedBy: actor ? actorName(actor) : 'exception-scan',
+  });
+
+  return prisma.shipmentException.update({
+    where: { id },
+    data: { customerContactedAt: new Date(), customerContactStatus: 'queued' },
+  });
+}
+
+/** Active users who can be given ownership of an exception. */
+export async function listShipmentExceptionOwners() {
+  return prisma.orderUser.findMany({
+    where: {
+      isActive: true,
+      servicePermissions: { some: { serviceKey: 'shipment-exceptions' } },
+    },
+    select: { id: true, name: true, username: true },
+    orderBy: { name: 'asc' },
+  });
+}
@@ -0,0 +1,151 @@
+/**
+ * Stuck-shipment rules over SMSA webhook scans. Pure so the classification can
+ * be tested directly; `shipment-exception-service.ts` runs it on a schedule and
+ * keeps the exceptions inbox in sync.
+ */
+import { classifySmsaScanIssue, type SmsaScanIssue } from '@/lib/smsa-status';
+
+export const SHIPMENT_EXCEPTION_TYPES = [
+  'no_scan',
+  'failed_attempts',
+  'returned_to_shipper',
+  'address_issue',
+] as const;
+
+export type ShipmentExceptionType = (typeof SHIPMENT_EXCEPTION_TYPES)[number];
+
+export type ShipmentExceptionStatus = 'open' | 'resolved';
+
+export const SHIPMENT_EXCEPTION_LABELS: Record<ShipmentExceptionType, string> = {
+  no_scan: 'لا توجد حركة على الشحنة',
+  failed_attempts: 'محاولات تسليم فاشلة متكررة',
+  returned_to_shipper: 'مرتجعة للمرسل',
+  address_issue: 'مشكلة في عنوان العميل',
+};
+
+export type ShipmentExceptionThresholds = {
+  /** Days without any scan before a shipment counts as stuck. 0 disables. */
+  noScanDays: number;
+  /** Failed delivery attempts before the shipment is flagged. 0 disables. */
+  failedAttempts: number;
+};
+
+export type ScanLike = {
+  scanType: string | null;
+  scanDescription: string | null;
+  scanDateTime: string | null;
+  city?: string | null;
+};
+
+export type TrackedShipmentLike = {
+  awb: string;
+  isDelivered: boolean | null;
+  createdAt: Date;
+  scans: ScanLike[];
+};
+
+export type DetectedShipmentException = {
+  type: ShipmentExceptionType;
+  /** Time of the scan (or silence) that triggered the exception. */
+  evidenceAt: Date;
+  detail: string;
+};
+
+export class ShipmentExceptionError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'ShipmentExceptionError';
+    this.statusCode = statusCode;
+  }
+}
+
+export function isShipmentExceptionType(value: unknown): value is ShipmentExceptionType {
+  return typeof value === 'string' && (SHIPMENT_EXCEPTION_TYPES as readonly string[]).includes(value);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function scanTime(scan: ScanLike): Date | null {
+  if (!scan.scanDateTime) return null;
+  const timestamp = Date.parse(scan.scanDateTime);
+  return Number.isNaN(timestamp) ? null : new Date(timestamp);
+}
+
+function describeScan(scan: ScanLike): string {
+  return [scan.scanType, scan.scanDescription, scan.city].filter(Boolean).join(' · ');
+}
+
+/**
+ * Exceptions a shipment currently qualifies for. Delivered shipments have
+ * none, and a shipment on its way back is not also reported as stuck or
+ * failing, since the return explains both.
+ */
+export function detectShipmentExceptions(
+  shipment: TrackedShipmentLike,
+  thresholds: ShipmentExceptionThresholds,
+  now: Date = new Date(),
+): DetectedShipmentException[] {
+  if (shipment.isDelivered) return [];
+
+  const scans = shipment.scans
+    .map((scan) => ({
+      scan,
+      at: scanTime(scan),
+      issue: classifySmsaScanIssue({ code: scan.scanType, description: scan.scanDescription }),
+    }))
+    .filter((entry): entry is typeof entry & { at: Date } => entry.at !== null)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  const exceptions: DetectedShipmentException[] = [];
+  const latestOf = (issue: SmsaScanIssue) => [...scans].reverse().find((entry) => entry.issue === issue);
+
+  const returned = latestOf('returned');
+  if (returned) {
+    return [{ type: 'returned_to_shipper', evidenceAt: returned.at, detail: describeScan(returned.scan) }];
+  }
+
+  const address = latestOf('address_issue');
+  if (address) {
+    exceptions.push({ type: 'address_issue', evidenceAt: address.at, detail: describeScan(address.scan) });
+  }
+
+  const attempts = scans.filter((entry) => entry.issue === 'failed_attempt' || entry.issue === 'address_issue');
+  if (thresholds.failedAttempts > 0 && attempts.length >= thresholds.failedAttempts) {
+    const last = attempts[attempts.length - 1];
+    exceptions.push({
+      type: 'failed_attempts',
+      evidenceAt: last.at,
+      detail: `${attempts.length} محاولات تسليم فاشلة، آخرها: ${describeScan(last.scan)}`,
+    });
+  }
+
+  if (thresholds.noScanDays > 0) {
+    const lastActivity = scans.length > 0 ? scans[scans.length - 1].at : shipment.createdAt;
+    const silentDays = Math.floor((now.getTime() - lastActivity.getTime()) / DAY_MS);
+    if (silentDays >= thresholds.noScanDays) {
+      exceptions.push({
+        type: 'no_scan',
+        evidenceAt: lastActivity,
+        detail:
+          scans.length > 0
+            ? `لا توجد حركة منذ ${silentDays} يوم، آخر حركة: ${describeScan(scans[scans.length - 1].scan)}`
+            : `لم تُسجل أي حركة منذ ${silentDays} يوم`,
+      });
+    }
+  }
+
+  return exceptions;
+}
+
+/**
+ * A resolved exception comes back only when a newer scan triggers it again;
+ * re-detecting the same evidence on the next run must not undo a resolution.
+ */
+export function shouldReopenException(
+  existing: { status: string; evidenceAt: Date },
+  detected: { evidenceAt: Date },
+): boolean {
+  return existing.status === 'resolved' && detected.evidenceAt.getTime() > existing.evidenceAt.getTime();
+}
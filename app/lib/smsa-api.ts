@@ -110,7 +110,7 @@ const SMSA_API_BASE_URL = enforceBaseForEnv(resolveBaseUrl());
 const SMSA_API_KEY = resolveApiKey();
 const SMSA_SERVICE_CODE = readEnv('SMSA_SERVICE_CODE') ?? 'EDCR';
 const SMSA_RETAIL_ID = readEnv('SMSA_RETAIL_ID');
-const SMSA_WAYBILL_TYPE = (readEnv('SMSA_WAYBILL_TYPE') as 'PDF' | 'ZPL') ?? 'PDF';
+export const SMSA_WAYBILL_TYPE = (readEnv('SMSA_WAYBILL_TYPE') as 'PDF' | 'ZPL') ?? 'PDF';
 
 export interface ShipmentAddress {
   ContactName: string;
@@ -156,20 +156,37 @@ export interface SMSAShipmentResponse {
   rawResponse?: any;
 }
 
-const buildSmsaUrl = (path: string): string => {
+/**
+ * Where SMSA requests go. Defaults to the configured account; carrier adapter
+ * tests pass a local fake of the SMSA API instead.
+ */
+export interface SmsaTransport {
+  baseUrl: string;
+  apiKey: string;
+  fetch: typeof fetch;
+}
+
+export const defaultSmsaTransport: SmsaTransport = {
+  baseUrl: SMSA_API_BASE_URL,
+  apiKey: SMSA_API_KEY,
+  fetch: (input, init) => fetch(input, init),
+};
+
+const buildSmsaUrl = (path: string, baseUrl: string): string => {
   const normalizedPath = path.startsWith('/') ? path : `/${path}`;
   // Ensure the path starts with /api/ (all SMSA endpoints use /api prefix)
   const apiPath = normalizedPath.startsWith('/api/') ? normalizedPath : `/api${normalizedPath}`;
-  return `${SMSA_API_BASE_URL}${apiPath}`;
+  return `${baseUrl}${apiPath}`;
 };
 
 /**
  * Creates a return shipment via SMSA API (C2B)
  */
 export async function createSMSAReturnShipment(
-  shipmentData: SMSAReturnRequest
+  shipmentData: SMSAReturnRequest,
+  transport: SmsaTransport = defaultSmsaTransport
 ): Promise<SMSAShipmentResponse> {
-  if (!SMSA_API_KEY) {
+  if (!transport.apiKey) {
     log.error('SMSA credentials not configured', {
       hasKey: !!process.env.SMSA_API_KEY,
       hasProdKey: !!process.env.SMSA_PRODUCTION_API_KEY,
@@ -198,24 +215,24 @@ export async function createSMSAReturnShipment(
       payload.SMSARetailID = SMSA_RETAIL_ID;
     }
 
-    const url = buildSmsaUrl('/c2b/new');
+    const url = buildSmsaUrl('/c2b/new', transport.baseUrl);
 
     log.info('Creating SMSA return shipment', {
       reference1: shipmentData.OrderNumber,
       env: resolvedEnvLabel,
-      baseUrl: SMSA_API_BASE_URL,
+      baseUrl: transport.baseUrl,
       url,
-      hasApiKey: !!SMSA_API_KEY,
-      apiKeyLength: SMSA_API_KEY?.length || 0,
+      hasApiKey: !!transport.apiKey,
+      apiKeyLength: transport.apiKey.length,
       payloadKeys: Object.keys(payload),
     });
 
-    const response = await fetch(url, {
+    const response = await transport.fetch(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         Accept: 'application/json',
-        apikey: SMSA_API_KEY,
+        apikey: transport.apiKey,
       },
       body: JSON.stringify(payload),
     });
@@ -227,7 +244,7 @@ export async function createSMSAReturnShipment(
         statusText: response.statusText,
         error: errorText,
         env: resolvedEnvLabel,
-        baseUrl: SMSA_API_BASE_URL,
+        baseUrl: transport.baseUrl,
       });
 
       // Provide more specific error messages
@@ -290,18 +307,21 @@ export async function createSMSAReturnShipment(
 /**
  * Tracks a C2B (return) shipment by AWB number
  */
-export async function trackC2BShipment(awbNumber: string): Promise<any> {
-  if (!SMSA_API_KEY) {
+export async function trackC2BShipment(
+  awbNumber: string,
+  transport: SmsaTransport = defaultSmsaTransport
+): Promise<any> {
+  if (!transport.apiKey) {
     log.error('SMSA credentials not configured');
     return null;
   }
 
   try {
-    const response = await fetch(buildSmsaUrl(`/c2b/query/${encodeURIComponent(awbNumber)}`), {
+    const response = await transport.fetch(buildSmsaUrl(`/c2b/query/${encodeURIComponent(awbNumber)}`, transport.baseUrl), {
       method: 'GET',
       headers: {
         Accept: 'application/json',
-        apikey: SMSA_API_KEY,
+        apikey: transport.apiKey,
       },
     });
 
@@ -320,12 +340,15 @@ export async function trackC2BShipment(awbNumber: string): Promise<any> {
 /**
  * Cancels a C2B (return) shipment by AWB number
  */
-export async function cancelC2BShipment(awbNumber: string): Promise<{
+export async function cancelC2BShipment(
+  awbNumber: string,
+  transport: SmsaTransport = defaultSmsaTransport
+): Promise<{
   success: boolean;
   message?: string;
   error?: string;
 }> {
-  if (!SMSA_API_KEY) {
+  if (!transport.apiKey) {
     log.error('SMSA credentials not configured');
     return {
       success: false,
@@ -336,11 +359,11 @@ export async function cancelC2BShipment(awbNumber: string): Promise<{
   try {
     log.info('Cancelling SMSA C2B shipment', { awbNumber });
 
-    const response = await fetch(buildSmsaUrl(`/c2b/cancel/${encodeURIComponent(awbNumber)}`), {
+    const response = await transport.fetch(buildSmsaUrl(`/c2b/cancel/${encodeURIComponent(awbNumber)}`, transport.baseUrl), {
       method: 'POST',
       headers: {
         Accept: 'application/json',
-        ApiKey: SMSA_API_KEY,
+        ApiKey: transport.apiKey,
       },
     });
 
@@ -381,12 +404,15 @@ export async function cancelC2BShipment(awbNumber: string): Promise<{
 /**
  * Cancels a B2C shipment by AWB number
  */
-export async function cancelB2CShipment(awbNumber: string): Promise<{
+export async function cancelB2CShipment(
+  awbNumber: string,
+  transport: SmsaTransport = defaultSmsaTransport
+): Promise<{
   success: boolean;
   message?: string;
   error?: string;
 }> {
-  if (!SMSA_API_KEY) {
+  if (!transport.apiKey) {
     log.error('SMSA credentials not configured for B2C cancellation');
     return {
       success: false,
@@ -397,11 +423,11 @@ export async function cancelB2CShipment(awbNumber: string): Promise<{
   try {
     log.info('Cancelling SMSA B2C shipment', { awbNumber });
 
-    const response = await fetch(buildSmsaUrl(`/b2c/cancel/${encodeURIComponent(awbNumber)}`), {
+    const response = await transport.fetch(buildSmsaUrl(`/b2c/cancel/${encodeURIComponent(awbNumber)}`, transport.baseUrl), {
       method: 'POST',
       headers: {
         Accept: 'application/json',
-        ApiKey: SMSA_API_KEY,
+        ApiKey: transport.apiKey,
       },
     });
 
@@ -463,9 +489,10 @@ export interface SMSAB2CRequest {
  * Creates a B2C (business to customer) shipment via SMSA API
  */
 export async function createSMSAB2CShipment(
-  shipmentData: SMSAB2CRequest
+  shipmentData: SMSAB2CRequest,
+  transport: SmsaTransport = defaultSmsaTransport
 ): Promise<SMSAShipmentResponse> {
-  if (!SMSA_API_KEY) {
+  if (!transport.apiKey) {
     log.error('SMSA credentials not configured', {
       hasKey: !!process.env.SMSA_API_KEY,
       hasProdKey: !!process.env.SMSA_PRODUCTION_API_KEY,
@@ -494,22 +521,22 @@ export async function createSMSAB2CShipment(
       payload.SMSARetailID = SMSA_RETAIL_ID;
     }
 
-    const url = buildSmsaUrl('/b2c/new');
+    const url = buildSmsaUrl('/b2c/new', transport.baseUrl);
 
     log.info('Creating SMSA B2C shipment', {
       reference: shipmentData.OrderNumber,
       env: resolvedEnvLabel,
-      baseUrl: SMSA_API_BASE_URL,
+      baseUrl: transport.baseUrl,
       url,
-      hasApiKey: !!SMSA_API_KEY,
+      hasApiKey: !!transport.apiKey,
     });
 
-    const response = await fetch(url, {
+    const response = await transport.fetch(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         Accept: 'application/json',
-        apikey: SMSA_API_KEY,
+        apikey: transport.apiKey,
       },
       body: JSON.stringify(payload),
     });
@@ -582,18 +609,21 @@ export async function createSMSAB2CShipment(
 /**
  * Tracks a B2C shipment by AWB number
  */
-export async function trackB2CShipment(awbNumber: string): Promise<any> {
-  if (!SMSA_API_KEY) {
+export async function trackB2CShipment(
+  awbNumber: string,
+  transport: SmsaTransport = defaultSmsaTransport
+): Promise<any> {
+  if (!transport.apiKey) {
     log.error('SMSA credentials not configured');
     return null;
   }
 
   try {
-    const response = await fetch(buildSmsaUrl(`/shipment/b2c/query/${encodeURIComponent(awbNumber)}`), {
+    const response = await transport.fetch(buildSmsaUrl(`/shipment/b2c/query/${encodeURIComponent(awbNumber)}`, transport.baseUrl), {
       method: 'GET',
       headers: {
         Accept: 'application/json',
-        apikey: SMSA_API_KEY,
+        apikey: transport.apiKey,
       },
     });
 
@@ -634,8 +664,11 @@ export interface SMSATrackingRecord {
 
 const SMSA_TRACK_BULK_CHUNK_SIZE = 20;
 
-export async function trackBulkShipments(awbNumbers: string[]): Promise<SMSATrackingRecord[]> {
-  if (!SMSA_API_KEY) {
+export async function trackBulkShipments(
+  awbNumbers: string[],
+  transport: SmsaTransport = defaultSmsaTransport
+): Promise<SMSATrackingRecord[]> {
+  if (!transport.apiKey) {
     log.error('SMSA credentials not configured');
     return [];
   }
@@ -658,12 +691,12 @@ export async function trackBulkShipments(awbNumbers: string[]): Promise<SMSATrac
     const chunk = normalized.slice(i, i + SMSA_TRACK_BULK_CHUNK_SIZE);
 
     try {
-      const response = await fetch(buildSmsaUrl('/track/bulk'), {
+      const response = await transport.fetch(buildSmsaUrl('/track/bulk', transport.baseUrl), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           Accept: 'application/json',
-          apikey: SMSA_API_KEY,
+          apikey: transport.apiKey,
         },
         body: JSON.stringify(chunk),
       });
@@ -0,0 +1,320 @@
+/**
+ * Normalized tracking history. Carrier scans and local delivery updates are
+ * reduced to one status vocabulary so other modules can react to a shipment
+ * moving on without knowing carrier codes. Pure; `tracking-refresh-service.ts`
+ * stores the history and the transitions on a schedule.
+ */
+import { classifySmsaScanIssue } from '@/lib/smsa-status';
+import type { CarrierCode, CarrierTrackingEvent } from '@/app/lib/carriers/types';
+
+export const TRACKING_SOURCES = ['salla', 'manual', 'local', 'return'] as const;
+
+export type TrackingSource = (typeof TRACKING_SOURCES)[number];
+
+export const TRACKING_STATUSES = [
+  'created',
+  'picked_up',
+  'in_transit',
+  'out_for_delivery',
+  'failed_attempt',
+  'delivered',
+  'returned',
+  'cancelled',
+] as const;
+
+export type TrackingStatus = (typeof TRACKING_STATUSES)[number];
+
+export const TRACKING_STATUS_LABELS: Record<TrackingStatus, string> = {
+  created: 'بانتظار الاستلام',
+  picked_up: 'تم الاستلام من المستودع',
+  in_transit: 'قيد النقل',
+  out_for_delivery: 'خارج للتسليم',
+  failed_attempt: 'محاولة تسليم فاشلة',
+  delivered: 'تم التسليم',
+  returned: 'مرتجع للمرسل',
+  cancelled: 'ملغي',
+};
+
+/** Shipments in these statuses are no longer refreshed. */
+export const TERMINAL_TRACKING_STATUSES: readonly TrackingStatus[] = ['delivered', 'returned', 'cancelled'];
+
+export const isTerminalTrackingStatus = (status: string | null | undefined): boolean =>
+  Boolean(status) && (TERMINAL_TRACKING_STATUSES as readonly string[]).includes(status as string);
+
+export const isTrackingStatus = (value: unknown): value is TrackingStatus =>
+  typeof value === 'string' && (TRACKING_STATUSES as readonly string[]).includes(value);
+
+// Checked in order after delivery problems, so "picked up" wins over the
+// generic "pickup" of an awaiting-collection scan. Codes are SMSA's; Aramex
+// is matched on its descriptions.
+const PROGRESS_STATUSES: { status: TrackingStatus; codes: string[]; keywords: string[] }[] = [
+  { status: 'delivered', codes: ['DL'], keywords: ['delivered', 'تم التسليم'] },
+  { status: 'cancelled', codes: ['CX', 'CCL'], keywords: ['cancel'] },
+  { status: 'out_for_delivery', codes: ['OD', 'WC', 'CC'], keywords: ['out for delivery', 'with courier'] },
+  { status: 'picked_up', codes: ['PU'], keywords: ['picked up', 'collected', 'shipment received'] },
+  {
+    status: 'in_transit',
+    codes: ['IT', 'IN', 'AR', 'MA', 'TR', 'DP', 'DE'],
+    keywords: ['in transit', 'transit', 'arrived', 'departed', 'معالجة'],
+  },
+  {
+    status: 'created',
+    codes: ['PP', 'PA'],
+    keywords: ['awaiting', 'pickup', 'record created', 'shipment created', 'information received'],
+  },
+];
+
+// Local shipments have no scans; each assignment status change is recorded
+// as one, with the status itself as the code.
+const LOCAL_STATUSES: Record<string, TrackingStatus> = {
+  pending: 'created',
+  assigned: 'created',
+  picked_up: 'picked_up',
+  in_transit: 'in_transit',
+  failed: 'failed_attempt',
+  delivered: 'delivered',
+  collected: 'delivered',
+  cancelled: 'cancelled',
+};
+
+/** Local shipments are tracked too, from their delivery assignment. */
+export type TrackingCarrier = CarrierCode | 'local';
+
+/**
+ * Normalized status of one scan, or null for scans that say nothing about
+ * progress (customs notes, comments).
+ */
+export function normalizeTrackingEvent(
+  event: Pick<CarrierTrackingEvent, 'code' | 'description'>,
+  carrier: TrackingCarrier,
+): TrackingStatus | null {
+  if (carrier === 'local') {
+    return LOCAL_STATUSES[event.code?.trim().toLowerCase() ?? ''] ?? null;
+  }
+
+  // "Not delivered" must not read as delivered.
+  const issue = classifySmsaScanIssue(event);
+  if (issue === 'returned') return 'returned';
+  if (issue) return 'failed_attempt';
+
+  const code = event.code?.trim().toUpperCase();
+  const description = event.description?.trim().toLowerCase() || '';
+  const match = PROGRESS_STATUSES.find(
+    (candidate) =>
+      (code && candidate.codes.includes(code)) ||
+      (description && candidate.keywords.some((keyword) => description.includes(keyword))),
+  );
+  return match?.status ?? null;
+}
+
+/** Identity of a scan; the carrier returns the full history on every call. */
+export function trackingEventFingerprint(event: CarrierTrackingEvent): string {
+  return [event.timestamp, event.code, event.description, event.city]
+    .map((value) => (value ?? '').trim().toLowerCase())
+    .join('|');
+}
+
+function eventTime(event: CarrierTrackingEvent): Date | null {
+  if (!event.timestamp) return null;
+  const timestamp = Date.parse(event.timestamp);
+  return Number.isNaN(timestamp) ? null : new Date(timestamp);
+}
+
+export type NewTrackingScan = {
+  fingerprint: string;
+  event: CarrierTrackingEvent;
+  status: TrackingStatus | null;
+  occurredAt: Date | null;
+};
+
+export type PlannedStatusTransition = {
+  fromStatus: TrackingStatus | null;
+  toStatus: TrackingStatus;
+  occurredAt: Date;
+  /** Scan that caused the transition; null when only the carrier's delivered flag did. */
+  fingerprint: string | null;
+};
+
+export type TrackingUpdatePlan = {
+  /** Scans not stored yet, oldest first. */
+  scans: NewTrackingScan[];
+  transitions: PlannedStatusTransition[];
+  status: TrackingStatus | null;
+};
+
+/**
+ * Works out what a fresh tracking response adds to a shipment's stored
+ * history: the scans not seen before, and one transition each time the
+ * normalized status changes along them.
+ */
+export function planTrackingUpdate(input: {
+  carrier: TrackingCarrier;
+  previousStatus: TrackingStatus | null;
+  knownFingerprints: ReadonlySet<string>;
+  /** In any order. */
+  events: CarrierTrackingEvent[];
+  /** The carrier's own delivered flag, for responses without a delivery scan. */
+  delivered?: boolean;
+  now?: Date;
+}): TrackingUpdatePlan {
+  const now = input.now ?? new Date();
+  const seen = new Set(input.knownFingerprints);
+  const scans: NewTrackingScan[] = [];
+
+  for (const event of input.events) {
+    const fingerprint = trackingEventFingerprint(event);
+    if (seen.has(fingerprint)) continue;
+    seen.add(fingerprint);
+    scans.push({
+      fingerprint,
+      event,
+      status: normalizeTrackingEvent(event, input.carrier),
+      occurredAt: eventTime(event),
+    });
+  }
+  // Undated scans go last, in the order the carrier sent them.
+  const sortKey = (scan: NewTrackingScan) => scan.occurredAt?.getTime() ?? Number.MAX_SAFE_INTEGER;
+  scans.sort((a, b) => sortKey(a) - sortKey(b));
+
+  const transitions: PlannedStatusTransition[] = [];
+  let status = input.previousStatus;
+  for (const scan of scans) {
+    if (!scan.status || scan.status === status) continue;
+    transitions.push({
+      fromStatus: status,
+      toStatus: scan.status,
+      occurredAt: scan.occurredAt ?? now,
+      fingerprint: scan.fingerprint,
+    });
+    status = scan.status;
+  }
+
+  // A parcel back with the shipper is reported delivered by some carriers.
+  if (input.delivered && status !== 'delivered' && status !== 'returned') {
+    const latest = scans[scans.length - 1];
+    transitions.push({
+      fromStatus: status,
+      toStatus: 'delivered',
+      occurredAt: latest?.occurredAt ?? now,
+      fingerprint: null,
+    });
+    status = 'delivered';
+  }
+
+  return { scans, transitions, status };
+}
+
+export type LocalAssignmentLike = {
+  status: string;
+  assignedAt: Date;
+  pickedUpAt: Date | null;
+  deliveredAt: Date | null;
+  failedAt: Date | null;
+  cancelledAt: Date | null;
+  failureReason: string | null;
+  cancellationReason: string | null;
+};
+
+/**
+ * The current delivery state of a local shipment as a scan. Its fingerprint
+ * changes only when the assignment moves on, so repeated refreshes add
+ * nothing.
+ */
+export function localTrackingEvent(shipment: {
+  status: string;
+  shippingCity: string;
+  createdAt: Date;
+  returnStartedAt?: Date | null;
+  returnReason?: string | null;
+  assignment: LocalAssignmentLike | null;
+}): CarrierTrackingEvent {
+  const assignment = shipment.assignment;
+  if (shipment.status === 'returning' && shipment.returnStartedAt) {
+    return {
+      code: shipment.status,
+      description: shipment.returnReason ?? null,
+      city: shipment.shippingCity,
+      timestamp: shipment.returnStartedAt.toISOString(),
+      timezone: null,
+      receivedBy: null,
+    };
+  }
+  if (!assignment) {
+    return {
+      code: shipment.status,
+      description: null,
+      city: shipment.shippingCity,
+      timestamp: shipment.createdAt.toISOString(),
+      timezone: null,
+      receivedBy: null,
+    };
+  }
+
+  const at =
+    {
+      picked_up: assignment.pickedUpAt,
+      delivered: assignment.deliveredAt,
+      collected: assignment.deliveredAt,
+      failed: assignment.failedAt,
+      cancelled: assignment.cancelledAt,
+    }[assignment.status] ?? assignment.assignedAt;
+
+  return {
+    code: assignment.status,
+    description: assignment.failureReason || assignment.cancellationReason || null,
+    city: shipment.shippingCity,
+    timestamp: (at ?? assignment.assignedAt).toISOString(),
+    timezone: null,
+    receivedBy: null,
+  };
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
+
+/** Stable position of a tracked record in the refresh order, used as the resume cursor. */
+export function trackingRefreshKey(record: {
+  carrier: string;
+  kind: string;
+  sourceType: string;
+  sourceId: string;
+}): string {
+  return `${record.carrier}:${record.kind}:${record.sourceType}:${record.sourceId}`;
+}
+
+/**
+ * Orders records by refresh key, starting after `resumeAfter` and wrapping
+ * around, and cuts them into batches of one carrier and kind. A run that
+ * stops on its time budget saves the key of its last batch, so the next run
+ * picks up the shipments this one never reached.
+ */
+export function planTrackingRefreshBatches<
+  T extends { carrier: string; kind: string; sourceType: string; sourceId: string },
+>(records: T[], size: number, resumeAfter: string | null = null): T[][] {
+  const sorted = [...records].sort((a, b) =>
+    trackingRefreshKey(a) < trackingRefreshKey(b) ? -1 : trackingRefreshKey(a) > trackingRefreshKey(b) ? 1 : 0,
+  );
+  const start = resumeAfter ? sorted.findIndex((record) => trackingRefreshKey(record) > resumeAfter) : 0;
+  const ordered = start > 0 ? [...sorted.slice(start), ...sorted.slice(0, start)] : sorted;
+
+  const batches: T[][] = [];
+  for (const record of ordered) {
+    const current = batches[batches.length - 1];
+    if (
+      current &&
+      current.length < size &&
+      current[0].carrier === record.carrier &&
+      current[0].kind === record.kind
+    ) {
+      current.push(record);
+    } else {
+      batches.push([record]);
+    }
+  }
+  return batches;
+}
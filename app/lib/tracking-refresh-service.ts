@@ -0,0 +1,444 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { log } from '@/app/lib/logger';
+import { detectShipmentCompany } from '@/lib/shipment-detector';
+import {
+  CARRIER_CODES,
+  getTrackingCarrierAdapter,
+  isCarrierCode,
+  type CarrierCode,
+  type CarrierShipmentKind,
+  type CarrierTracking,
+  type CarrierTrackingEvent,
+} from '@/app/lib/carriers';
+import {
+  isTerminalTrackingStatus,
+  isTrackingStatus,
+  localTrackingEvent,
+  planTrackingRefreshBatches,
+  planTrackingUpdate,
+  trackingRefreshKey,
+  type PlannedStatusTransition,
+  type TrackingCarrier,
+  type TrackingSource,
+  type TrackingStatus,
+  type TrackingUpdatePlan,
+} from '@/app/lib/tracking-history';
+import type { SmsaLiveStatus } from '@/types/smsa';
+
+export type TrackingRefreshResult = {
+  dryRun: boolean;
+  tracked: number;
+  refreshed: number;
+  newScans: number;
+  transitions: number;
+  failedBatches: number;
+  /** False when the time budget ran out; the next run resumes where this one stopped. */
+  complete: boolean;
+};
+
+type TrackedRecord = {
+  sourceType: TrackingSource;
+  sourceId: string;
+  carrier: TrackingCarrier;
+  kind: CarrierShipmentKind;
+  trackingNumber: string;
+  /** Local shipments carry their own event instead of a carrier response. */
+  localEvent?: CarrierTrackingEvent;
+  previousStatus: TrackingStatus | null;
+};
+
+// Shipments older than this have either arrived or been written off; the
+// carriers also stop returning scans for them.
+const LOOKBACK_DAYS = 30;
+// SMSA's bulk endpoint takes 20 numbers per request.
+const BATCH_SIZE = 20;
+const BATCH_PAUSE_MS = 1000;
+// Stop starting batches well inside the route's 300 s maxDuration.
+const TIME_BUDGET_MS = 240 * 1000;
+const STATE_ID = 'default';
+
+const sourceKey = (sourceType: string, sourceId: string) => `${sourceType}:${sourceId}`;
+
+/**
+ * Carrier for a stored courier name or code. Unknown couriers (DHL, a Salla
+ * courier we have no adapter for) are not tracked; an empty hint falls back
+ * to the tracking-number format, then SMSA.
+ */
+function trackableCarrier(hint: string | null | undefined, trackingNumber: string): CarrierCode | null {
+  const normalized = hint?.trim().toLowerCase() ?? '';
+  const named = CARRIER_CODES.find((code) => normalized.includes(code));
+  if (named) return named;
+  const detected = detectShipmentCompany(trackingNumber).id;
+  if (isCarrierCode(detected)) return detected;
+  return normalized ? null : 'smsa';
+}
+
+async function collectTrackedRecords(since: Date): Promise<Omit<TrackedRecord, 'previousStatus'>[]> {
+  const [sallaShipments, manualShipments, localShipments, returnRequests] = await Promise.all([
+    prisma.sallaShipment.findMany({
+      where: { createdAt: { gte: since } },
+      select: { id: true, trackingNumber: true, courierCode: true, status: true },
+    }),
+    prisma.manualShipment.findMany({
+      where: { createdAt: { gte: since }, deletedAt: null, cancelledAt: null, trackingNumber: { not: null } },
+      select: { id: true, trackingNumber: true, carrier: true, status: true },
+    }),
+    prisma.localShipment.findMany({
+      where: { createdAt: { gte: since }, status: { notIn: ['delivered', 'cancelled', 'returned'] } },
+      select: {
+        id: true,
+        trackingNumber: true,
+        status: true,
+        shippingCity: true,
+        createdAt: true,
+        returnStartedAt: true,
+        returnReason: true,
+        assignments: {
+          orderBy: { attemptNumber: 'desc' },
+          take: 1,
+          select: {
+            status: true,
+            assignedAt: true,
+            pickedUpAt: true,
+            deliveredAt: true,
+            failedAt: true,
+            cancelledAt: true,
+            failureReason: true,
+            cancellationReason: true,
+          },
+        },
+      },
+    }),
+    prisma.returnRequest.findMany({
+      where: {
+        createdAt: { gte: since },
+        smsaTrackingNumber: { not: null },
+        status: { notIn: ['rejected', 'delivered', 'completed', 'cancelled'] },
+      },
+      select: { id: true, smsaTrackingNumber: true },
+    }),
+  ]);
+
+  const records: Omit<TrackedRecord, 'previousStatus'>[] = [];
+
+  for (const shipment of sallaShipments) {
+    const trackingNumber = shipment.trackingNumber.trim();
+    const carrier = trackingNumber ? trackableCarrier(shipment.courierCode, trackingNumber) : null;
+    if (!carrier || isTerminalTrackingStatus(shipment.status.toLowerCase())) continue;
+    records.push({ sourceType: 'salla', sourceId: shipment.id, carrier, kind: 'shipment', trackingNumber });
+  }
+
+  for (const shipment of manualShipments) {
+    const trackingNumber = shipment.trackingNumber?.trim();
+    const carrier = trackingNumber ? trackableCarrier(shipment.carrier, trackingNumber) : null;
+    if (!trackingNumber || !carrier || isTerminalTrackingStatus(shipment.status)) continue;
+    records.push({ sourceType: 'manual', sourceId: shipment.id, carrier, kind: 'shipment', trackingNumber });
+  }
+
+  for (const shipment of localShipments) {
+    records.push({
+      sourceType: 'local',
+      sourceId: shipment.id,
+      carrier: 'local',
+      kind: 'shipment',
+      trackingNumber: shipment.trackingNumber,
+      localEvent: localTrackingEvent({ ...shipment, assignment: shipment.assignments[0] ?? null }),
+    });
+  }
+
+  for (const request of returnRequests) {
+    const trackingNumber = request.smsaTrackingNumber?.trim();
+    if (!trackingNumber) continue;
+    records.push({
+      sourceType: 'return',
+      sourceId: request.id,
+      carrier: trackableCarrier(null, trackingNumber) ?? 'smsa',
+      kind: 'return',
+      trackingNumber,
+    });
+  }
+
+  return records;
+}
+
+async function loadPreviousStatuses(records: { sourceId: string }[]) {
+  const latest = records.length
+    ? await prisma.shipmentStatusTransition.findMany({
+        where: { sourceId: { in: records.map((record) => record.sourceId) } },
+        orderBy: [{ occurredAt: 'desc' }, { createdAt: 'desc' }],
+        distinct: ['sourceType', 'sourceId'],
+        select: { sourceType: true, sourceId: true, toStatus: true },
+      })
+    : [];
+  return new Map(
+    latest.map((row) => [sourceKey(row.sourceType, row.sourceId), isTrackingStatus(row.toStatus) ? row.toStatus : null]),
+  );
+}
+
+async function loadKnownFingerprints(records: TrackedRecord[]) {
+  const rows = await prisma.shipmentTrackingScan.findMany({
+    where: { sourceId: { in: records.map((record) => record.sourceId) } },
+    select: { sourceType: true, sourceId: true, fingerprint: true },
+  });
+  const known = new Map<string, Set<string>>();
+  for (const row of rows) {
+    const key = sourceKey(row.sourceType, row.sourceId);
+    const fingerprints = known.get(key) ?? new Set<string>();
+    fingerprints.add(row.fingerprint);
+    known.set(key, fingerprints);
+  }
+  return known;
+}
+
+const toLiveStatus = (tracking: CarrierTracking): SmsaLiveStatus | null => {
+  const latest = tracking.events[0];
+  if (!latest) return null;
+  return {
+    awb: tracking.trackingNumber,
+    code: latest.code,
+    description: latest.description,
+    city: latest.city,
+    timestamp: latest.timestamp,
+    timezone: latest.timezone,
+    receivedBy: latest.receivedBy,
+    delivered: tracking.delivered,
+    source: 'api',
+  };
+};
+
+/**
+ * Appends the plan's scans and transitions. Returns the stored transitions,
+ * or none when an overlapping run already stored these scans (and with them
+ * the transitions).
+ */
+async function storeTrackingUpdate(record: TrackedRecord, plan: TrackingUpdatePlan) {
+  return prisma.$transaction(async (tx) => {
+    if (plan.scans.length > 0) {
+      const inserted = await tx.shipmentTrackingScan.createMany({
+        data: plan.scans.map((scan) => ({
+          sourceType: record.sourceType,
+          sourceId: record.sourceId,
+          carrier: record.carrier,
+          trackingNumber: record.trackingNumber,
+          fingerprint: scan.fingerprint,
+          code: scan.event.code,
+          description: scan.event.description,
+          city: scan.event.city,
+          timezone: scan.event.timezone,
+          receivedBy: scan.event.receivedBy,
+          status: scan.status,
+          occurredAt: scan.occurredAt,
+        })),
+        skipDuplicates: true,
+      });
+      if (inserted.count < plan.scans.length) {
+        return [];
+      }
+    }
+
+    const stored: (PlannedStatusTransition & { id: string })[] = [];
+    for (const transition of plan.transitions) {
+      const row = await tx.shipmentStatusTransition.create({
+        data: {
+          sourceType: record.sourceType,
+          sourceId: record.sourceId,
+          carrier: record.carrier,
+          trackingNumber: record.trackingNumber,
+          fromStatus: transition.fromStatus,
+          toStatus: transition.toStatus,
+          occurredAt: transition.occurredAt,
+          scanFingerprint: transition.fingerprint,
+        },
+        select: { id: true },
+      });
+      stored.push({ ...transition, id: row.id });
+    }
+    return stored;
+  });
+}
+
+async function persistLiveStatus(records: TrackedRecord[], tracking: CarrierTracking) {
+  const liveStatus = toLiveStatus(tracking);
+  if (!liveStatus) return;
+  const data = {
+    smsaLiveStatus: liveStatus as Prisma.InputJsonValue,
+    smsaLiveStatusUpdatedAt: new Date(),
+  };
+  const returnIds = records.filter((record) => record.sourceType === 'return').map((record) => record.sourceId);
+
+  await prisma.$transaction([
+    prisma.shipment.updateMany({
+      where: { trackingNumber: { equals: tracking.trackingNumber, mode: 'insensitive' } },
+      data,
+    }),
+    ...(returnIds.length ? [prisma.returnRequest.updateMany({ where: { id: { in: returnIds } }, data })] : []),
+  ]);
+}
+
+async function trackBatch(carrier: CarrierCode, kind: CarrierShipmentKind, trackingNumbers: string[]) {
+  return getTrackingCarrierAdapter(carrier).track(trackingNumbers, { kind });
+}
+
+/**
+ * Scheduled tracking refresh. Every non-terminal Salla, manual, local and
+ * return shipment from the last 30 days is tracked in carrier-sized batches;
+ * new scans are appended to its history and each normalized status change is
+ * stored as a transition. A run stops starting batches once its time budget is
+ * spent and records where it stopped, so the next run carries on from there.
+ */
+export async function runTrackingRefresh(
+  options: { dryRun?: boolean; now?: Date; deadline?: Date } = {},
+): Promise<TrackingRefreshResult> {
+  const dryRun = Boolean(options.dryRun);
+  const now = options.now ?? new Date();
+  const deadline = options.deadline ?? new Date(Date.now() + TIME_BUDGET_MS);
+  const since = new Date(now.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  const collected = await collectTrackedRecords(since);
+  const previousStatuses = await loadPreviousStatuses(collected);
+  const records: TrackedRecord[] = collected
+    .map((record) => ({
+      ...record,
+      previousStatus: previousStatuses.get(sourceKey(record.sourceType, record.sourceId)) ?? null,
+    }))
+    .filter((record) => !isTerminalTrackingStatus(record.previousStatus));
+
+  const result: TrackingRefreshResult = {
+    dryRun,
+    tracked: records.length,
+    refreshed: 0,
+    newScans: 0,
+    transitions: 0,
+    failedBatches: 0,
+    complete: true,
+  };
+
+  const state = await prisma.trackingRefreshState.findUnique({ where: { id: STATE_ID } });
+  const batches = planTrackingRefreshBatches(records, BATCH_SIZE, state?.resumeAfter ?? null);
+  let lastKey: string | null = null;
+
+  let calledCarrier = false;
+  for (const batch of batches) {
+    if (Date.now() >= deadline.getTime()) {
+      result.complete = false;
+      break;
+    }
+    const { carrier, kind } = batch[0];
+    lastKey = trackingRefreshKey(batch[batch.length - 1]);
+    let trackings = new Map<string, CarrierTracking>();
+    if (carrier !== 'local') {
+      // Spread carrier requests out; fetchWithRetry handles the 429s that
+      // still come back.
+      if (calledCarrier) await new Promise((resolve) => setTimeout(resolve, BATCH_PAUSE_MS));
+      calledCarrier = true;
+      try {
+        trackings = await trackBatch(carrier, kind, [...new Set(batch.map((record) => record.trackingNumber))]);
+      } catch (error) {
+        result.failedBatches += 1;
+        log.error('Tracking refresh batch failed', {
+          carrier,
+          kind,
+          size: batch.length,
+          error: error instanceof Error ? error.message : 'UNKNOWN_ERROR',
+        });
+        continue;
+      }
+    }
+
+    const known = await loadKnownFingerprints(batch);
+    const liveStatusRecords = new Map<string, TrackedRecord[]>();
+
+    for (const record of batch) {
+      const tracking = record.localEvent
+        ? null
+        : (trackings.get(record.trackingNumber) ?? trackings.get(record.trackingNumber.toUpperCase()));
+      if (!record.localEvent && !tracking) continue;
+      result.refreshed += 1;
+
+      const plan = planTrackingUpdate({
+        carrier: record.carrier,
+        previousStatus: record.previousStatus,
+        knownFingerprints: known.get(sourceKey(record.sourceType, record.sourceId)) ?? new Set(),
+        events: record.localEvent ? [record.localEvent] : (tracking?.events ?? []),
+        delivered: tracking?.delivered,
+        now,
+      });
+      if (plan.scans.length === 0 && plan.transitions.length === 0) continue;
+
+      result.newScans += plan.scans.length;
+      result.transitions += plan.transitions.length;
+      if (dryRun) continue;
+
+      try {
+        await storeTrackingUpdate(record, plan);
+      } catch (error) {
+        log.error('Failed to store tracking history', {
+          sourceType: record.sourceType,
+          sourceId: record.sourceId,
+          trackingNumber: record.trackingNumber,
+          error: error instanceof Error ? error.message : 'UNKNOWN_ERROR',
+        });
+        continue;
+      }
+
+      if (tracking && record.carrier === 'smsa' && plan.scans.length > 0) {
+        liveStatusRecords.set(tracking.trackingNumber, [
+          ...(liveStatusRecords.get(tracking.trackingNumber) ?? []),
+          record,
+        ]);
+      }
+    }
+
+    for (const [trackingNumber, related] of liveStatusRecords) {
+      const tracking = trackings.get(trackingNumber);
+      if (!tracking) continue;
+      try {
+        await persistLiveStatus(related, tracking);
+      } catch (error) {
+        log.error('Failed to persist refreshed SMSA live status', { trackingNumber, error });
+      }
+    }
+  }
+
+  if (!dryRun && (result.complete || lastKey)) {
+    const resumeAfter = result.complete ? null : lastKey;
+    await prisma.trackingRefreshState.upsert({
+      where: { id: STATE_ID },
+      create: { id: STATE_ID, resumeAfter },
+      update: { resumeAfter },
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Stored status transitions, oldest first. This is how other modules follow
+ * shipment status changes: keep the `nextCursor` of each page and pass it back
+ * as `after` to receive only transitions stored since. `since` bounds the
+ * first read when there is no cursor yet.
+ */
+export async function listShipmentStatusTransitions(filters: {
+  since?: Date;
+  after?: string | null;
+  toStatus?: TrackingStatus | TrackingStatus[];
+  sourceType?: TrackingSource;
+  take?: number;
+}) {
+  const toStatus = filters.toStatus;
+  const transitions = await prisma.shipmentStatusTransition.findMany({
+    where: {
+      ...(filters.since ? { createdAt: { gt: filters.since } } : {}),
+      ...(toStatus ? { toStatus: Array.isArray(toStatus) ? { in: toStatus } : toStatus } : {}),
+      ...(filters.sourceType ? { sourceType: filters.sourceType } : {}),
+    },
+    ...(filters.after ? { cursor: { id: filters.after }, skip: 1 } : {}),
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    take: Math.min(Math.max(filters.take ?? 500, 1), 2000),
+  });
+  return {
+    transitions,
+    nextCursor: transitions.length > 0 ? transitions[transitions.length - 1].id : (filters.after ?? null),
+  };
+}
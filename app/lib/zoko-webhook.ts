@@ -2,6 +2,7 @@ import { prisma } from "@/lib/prisma";
 import { log } from "@/app/lib/logger";
 import { buildAvailabilityDeliveryUpdate } from "@/app/lib/availability-delivery";
 import { reconcileCustomerJourneyDelivery } from "@/app/lib/customer-journey-notifications";
+import { reconcileDeliveryOtpDelivery } from "@/app/lib/delivery-otp-channel";
 
 type AnyRecord = Record<string, any>;
 
@@ -263,6 +264,11 @@ async function persistDelivery(event: NormalizedZokoDeliveryEvent) {
     deliveryStatus: event.deliveryStatus,
     occurredAt: timestamp,
   });
+  await reconcileDeliveryOtpDelivery({
+    providerMessageId: event.messageId,
+    deliveryStatus: event.deliveryStatus,
+    occurredAt: timestamp,
+  });
 
   const deliveryUpdate = buildAvailabilityDeliveryUpdate(
     event.deliveryStatus,
@@ -353,6 +359,11 @@ async function persistMessage(event: NormalizedZokoMessageEvent) {
     deliveryStatus: event.deliveryStatus,
     occurredAt: timestamp,
   });
+  await reconcileDeliveryOtpDelivery({
+    providerMessageId: event.messageId,
+    deliveryStatus: event.deliveryStatus,
+    occurredAt: timestamp,
+  });
 }
 
 async function persistAssignment(event: NormalizedZokoAssignmentEvent) {
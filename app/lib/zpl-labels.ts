@@ -0,0 +1,43 @@
+import { mmToDots, zplCode128, zplCode128Width, zplLabel, zplText } from '@/app/lib/zpl';
+
+// The 40x22mm stock on the order-number / SKU printer.
+const SMALL_LABEL = { widthDots: mmToDots(40), heightDots: mmToDots(22) };
+// Leave ~6mm of quiet zone each side even if the printer nudges the label.
+const BARCODE_MAX_WIDTH = mmToDots(28);
+const BARCODE_MIN_MODULE_DOTS = 2;
+
+function centredCode128(value: string, y: number, height: number): string {
+  const modules = zplCode128Width(value, 1);
+  const moduleDots = Math.max(BARCODE_MIN_MODULE_DOTS, Math.floor(BARCODE_MAX_WIDTH / modules));
+  const x = Math.max(0, Math.round((SMALL_LABEL.widthDots - modules * moduleDots) / 2));
+  return zplCode128(value, { x, y, height, moduleDots });
+}
+
+/**
+ * Order-number ticket stuck on the prepared bag: the spaced order number, its
+ * Code 128 barcode and the print date. Inputs are already ASCII-sanitized.
+ */
+export function renderOrderNumberTicketZpl(orderNumber: string, dateLabel: string): string {
+  const width = SMALL_LABEL.widthDots;
+  return zplLabel(
+    [
+      zplText(orderNumber.split('').join(' '), { x: 0, y: 4, width, height: 30, align: 'C' }),
+      centredCode128(orderNumber, 42, mmToDots(11)),
+      zplText(dateLabel, { x: 0, y: SMALL_LABEL.heightDots - 26, width, height: 20, align: 'C' }),
+    ],
+    SMALL_LABEL,
+  );
+}
+
+/** Shelf/product SKU label: the SKU, its barcode and a short product name. */
+export function renderSkuLabelZpl(sku: string, name?: string): string {
+  const width = SMALL_LABEL.widthDots;
+  const fields = [
+    zplText(sku, { x: 0, y: 4, width, height: sku.length > 12 ? 24 : 32, align: 'C' }),
+    centredCode128(sku, 42, mmToDots(9)),
+  ];
+  if (name) {
+    fields.push(zplText(name.slice(0, 30), { x: 0, y: SMALL_LABEL.heightDots - 26, width, height: 18, align: 'C' }));
+  }
+  return zplLabel(fields, SMALL_LABEL);
+}
@@ -0,0 +1,154 @@
+// ---------------------------------------------------------------------------
+// Minimal ZPL II builder for our 203dpi Zebra-compatible thermal printers.
+//
+// Labels are sent to PrintNode as raw jobs, so the printer draws them at its
+// native resolution instead of rasterizing a PDF. Barcodes and QR codes are
+// drawn as graphic fields from the same module data the PDF labels use
+// (`barcode-code128.ts`, `qr.ts`), snapped to whole dots so every bar edge
+// lands on the print grid.
+// ---------------------------------------------------------------------------
+
+import { encodeCode128 } from '@/app/lib/barcode-code128';
+import { encodeQr } from '@/app/lib/qr';
+
+/** 203dpi print head: 8 dots per millimetre. */
+export const ZPL_DOTS_PER_MM = 8;
+
+// Built-in ZPL fonts have no Arabic glyphs, so any non-ASCII text is drawn with
+// a Unicode TrueType font stored on the printer, shaped by the printer's
+// advanced text layout (^PA).
+const ZPL_UNICODE_FONT = process.env.ZPL_UNICODE_FONT || 'E:ANMDJ.TTF';
+
+export type ZplAlign = 'L' | 'C' | 'R';
+
+export const mmToDots = (valueMm: number) => Math.round(valueMm * ZPL_DOTS_PER_MM);
+
+const fieldOrigin = (x: number, y: number) => `^FO${Math.round(x)},${Math.round(y)}`;
+
+/**
+ * Field data is sent with ^FH so the ZPL control characters (and the hex
+ * indicator itself) can be escaped as `_XX` instead of ending the field.
+ */
+export function escapeZplFieldData(value: string): string {
+  return value
+    .replace(/[\r\n]+/g, ' ')
+    .replace(/_/g, '_5F')
+    .replace(/\^/g, '_5E')
+    .replace(/~/g, '_7E');
+}
+
+/**
+ * Encodes a bitmap (`true` = black dot) as an ASCII-hex ^GF graphic field.
+ * Rows identical to the one above collapse to ":" (ZPL's repeat-row code),
+ * which keeps barcodes, whose rows are all the same, down to a single row.
+ */
+export function zplGraphicField(rows: boolean[][]): string {
+  const width = rows[0]?.length ?? 0;
+  const bytesPerRow = Math.ceil(width / 8);
+  const totalBytes = bytesPerRow * rows.length;
+  let previous = '';
+  let data = '';
+  for (const row of rows) {
+    let hex = '';
+    for (let byteIndex = 0; byteIndex < bytesPerRow; byteIndex += 1) {
+      let byte = 0;
+      for (let bit = 0; bit < 8; bit += 1) {
+        if (row[byteIndex * 8 + bit]) byte |= 0x80 >> bit;
+      }
+      hex += byte.toString(16).toUpperCase().padStart(2, '0');
+    }
+    data += hex === previous ? ':' : hex;
+    previous = hex;
+  }
+  return `^GFA,${totalBytes},${totalBytes},${bytesPerRow},${data}`;
+}
+
+/** Width in dots of a Code 128 symbol drawn at `moduleDots` per module. */
+export function zplCode128Width(value: string, moduleDots: number): number {
+  return encodeCode128(value).modules * moduleDots;
+}
+
+export function zplCode128(
+  value: string,
+  options: { x: number; y: number; height: number; moduleDots: number },
+): string {
+  const { runs } = encodeCode128(value);
+  const row: boolean[] = [];
+  let bar = true; // first run is a bar
+  for (const run of runs) {
+    for (let i = 0; i < run * options.moduleDots; i += 1) row.push(bar);
+    bar = !bar;
+  }
+  const rows = Array.from({ length: options.height }, () => row);
+  return `${fieldOrigin(options.x, options.y)}${zplGraphicField(rows)}^FS`;
+}
+
+/** Side length in dots of the QR symbol for `value`, without a quiet zone. */
+export function zplQrSize(value: string, moduleDots: number): number {
+  return encodeQr(value).length * moduleDots;
+}
+
+export function zplQrCode(value: string, options: { x: number; y: number; moduleDots: number }): string {
+  const matrix = encodeQr(value);
+  const rows: boolean[][] = [];
+  for (const moduleRow of matrix) {
+    const row: boolean[] = [];
+    for (const dark of moduleRow) {
+      for (let i = 0; i < options.moduleDots; i += 1) row.push(dark);
+    }
+    for (let i = 0; i < options.moduleDots; i += 1) rows.push(row);
+  }
+  return `${fieldOrigin(options.x, options.y)}${zplGraphicField(rows)}^FS`;
+}
+
+/**
+ * A text field laid out in a ^FB block so it can be right-aligned for Arabic
+ * and wrapped to `lines`. `reverse` prints white on a black box drawn beneath.
+ */
+export function zplText(
+  value: string,
+  options: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    align?: ZplAlign;
+    lines?: number;
+    reverse?: boolean;
+  },
+): string {
+  const ascii = /^[\x20-\x7E]*$/.test(value);
+  const font = ascii
+    ? `^A0N,${options.height},${options.height}`
+    : `^A@N,${options.height},${options.height},${ZPL_UNICODE_FONT}`;
+  const lines = options.lines ?? 1;
+  return [
+    fieldOrigin(options.x, options.y),
+    font,
+    `^FB${Math.round(options.width)},${lines},0,${options.align ?? 'L'},0`,
+    options.reverse ? '^FR' : '',
+    `^FH^FD${escapeZplFieldData(value)}^FS`,
+  ].join('');
+}
+
+/** A rectangle outline; a thickness of half the height or more fills it. */
+export function zplBox(x: number, y: number, width: number, height: number, thickness = 2): string {
+  return `${fieldOrigin(x, y)}^GB${Math.round(width)},${Math.round(height)},${thickness},B,0^FS`;
+}
+
+/**
+ * Wraps the fields in a complete label: UTF-8 field data (^CI28), Arabic
+ * shaping and bidi (^PA), and the label size in dots.
+ */
+export function zplLabel(fields: string[], size: { widthDots: number; heightDots: number }): string {
+  return [
+    '^XA',
+    '^CI28',
+    '^PA0,1,1,0',
+    `^PW${size.widthDots}`,
+    `^LL${size.heightDots}`,
+    '^LH0,0',
+    ...fields,
+    '^XZ',
+  ].join('\n');
+}
@@ -18,11 +18,19 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
+import { NativeSelect, NativeSelectOption } from '@/components/ui/native-select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/components/ui/use-toast';
 import { MapPin, MessageCircle } from 'lucide-react';
+import { DeliveryRouteCard } from '@/components/local-shipping/DeliveryRouteCard';
+import {
+  DeliveryProofCapture,
+  EMPTY_DELIVERY_PROOF,
+  type DeliveryProofDraft,
+} from '@/components/local-shipping/DeliveryProofCapture';
+import { DELIVERY_FAILURE_REASONS } from '@/app/lib/delivery-reattempts';
 
 const ADMIN_DELIVERABLE_STATUSES = ['assigned', 'picked_up', 'in_transit'];
 const ASSIGNMENTS_PAGE_LIMIT = 200;
@@ -88,6 +96,7 @@ interface Assignment {
   pickedUpAt?: string;
   deliveredAt?: string;
   notes?: string;
+  attemptNumber?: number;
   shipment: LocalShipment & { codCollection?: CODCollection };
   shipmentDirection?: 'incoming' | 'outgoing';
   exchangeRequest?: ExchangeRequestInfo | null;
@@ -121,6 +130,7 @@ interface DeliveryAgentTask {
 type WalletTransactionType =
   | 'SHIPMENT_COMPLETED'
   | 'TASK_COMPLETED'
+  | 'FAILED_ATTEMPT'
   | 'PAYOUT'
   | 'ADJUSTMENT';
 
@@ -479,8 +489,10 @@ export default function MyDeliveriesPage() {
   const [newStatus, setNewStatus] = useState('');
   const [deliveryNotes, setDeliveryNotes] = useState('');
   const [failureReason, setFailureReason] = useState('');
+  const [failureReasonCode, setFailureReasonCode] = useState('');
   const [statusModalError, setStatusModalError] = useState('');
   const [deliveryOtpCode, setDeliveryOtpCode] = useState('');
+  const [deliveryProof, setDeliveryProof] = useState<DeliveryProofDraft>(EMPTY_DELIVERY_PROOF);
   const [otpSending, setOtpSending] = useState(false);
   const [otpMaskedPhone, setOtpMaskedPhone] = useState<string | null>(null);
   const [agentTasks, setAgentTasks] = useState<DeliveryAgentTask[]>([]);
@@ -751,9 +763,11 @@ export default function MyDeliveriesPage() {
     setNewStatus('');
     setDeliveryNotes('');
     setFailureReason('');
+    setFailureReasonCode('');
     setStatusModalError('');
     setDeliveryOtpCode('');
     setOtpMaskedPhone(null);
+    setDeliveryProof(EMPTY_DELIVERY_PROOF);
   };
 
   const openStatusModal = (assignment: Assignment, status: string) => {
@@ -761,9 +775,11 @@ export default function MyDeliveriesPage() {
     setNewStatus(status);
     setDeliveryNotes('');
     setFailureReason('');
+    setFailureReasonCode('');
     setStatusModalError('');
     setDeliveryOtpCode('');
     setOtpMaskedPhone(null);
+    setDeliveryProof(EMPTY_DELIVERY_PROOF);
   };
 
   const handleSendOtp = async () => {
@@ -784,7 +800,7 @@ export default function MyDeliveriesPage() {
 
       toast({
         title: 'تم إرسال رمز التحقق',
-        description: `تم إرسال الرمز إلى ${
+        description: `تم إرسال الرمز${data?.channel === 'whatsapp' ? ' عبر واتساب' : ' برسالة SMS'} إلى ${
           data?.maskedPhone ||
           maskPhoneForDisplay(selectedAssignment.shipment.customerPhone) ||
           'رقم العميل'
@@ -960,12 +976,22 @@ export default function MyDeliveriesPage() {
       return;
     }
 
-    if (newStatus === 'failed' && !failureReason.trim()) {
-      setStatusModalError('يرجى إدخال سبب الفشل');
+    if (newStatus === 'failed' && !failureReasonCode) {
+      setStatusModalError('يرجى اختيار سبب الفشل');
+      return;
+    }
+
+    if (newStatus === 'failed' && failureReasonCode === 'other' && !failureReason.trim()) {
+      setStatusModalError('يرجى توضيح سبب الفشل');
       return;
     }
 
     const requiresOtp = newStatus === 'delivered' && !isAdminUser;
+    if (requiresOtp && !deliveryProof.photo && !deliveryProof.signature) {
+      setStatusModalError('يرجى تصوير الشحنة أو أخذ توقيع المستلم');
+      return;
+    }
+
     if (requiresOtp && !deliveryOtpCode.trim()) {
       setStatusModalError('يرجى إدخال رمز التحقق المرسل للعميل');
       return;
@@ -974,6 +1000,22 @@ export default function MyDeliveriesPage() {
     try {
       setUpdating(true);
 
+      if (requiresOtp) {
+        const proofResponse = await fetch(`/api/shipment-assignments/${selectedAssignment.id}/proof`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            photo: deliveryProof.photo || undefined,
+            signature: deliveryProof.signature || undefined,
+            recipientName: deliveryProof.recipientName.trim() || undefined,
+          }),
+        });
+        const proofData = await parseJsonResponse(proofResponse);
+        if (!proofResponse.ok) {
+          throw new Error(proofData?.error || 'فشل في حفظ إثبات التسليم');
+        }
+      }
+
       const response = await fetch(`/api/shipment-assignments/${selectedAssignment.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
@@ -981,6 +1023,7 @@ export default function MyDeliveriesPage() {
           status: newStatus,
           notes: deliveryNotes || undefined,
           failureReason: newStatus === 'failed' ? failureReason : undefined,
+          failureReasonCode: newStatus === 'failed' ? failureReasonCode : undefined,
           deliveryOtpCode: requiresOtp ? deliveryOtpCode.trim() : undefined,
         }),
       });
@@ -991,6 +1034,18 @@ export default function MyDeliveriesPage() {
         throw new Error(data?.error || 'فشل في تحديث الحالة');
       }
 
+      if (data?.failureOutcome?.action === 'reattempt') {
+        toast({
+          title: 'تمت جدولة محاولة توصيل جديدة',
+          description: `المحاولة رقم ${data.failureOutcome.attemptNumber} أضيفت إلى شحناتك وتم إبلاغ العميل.`,
+        });
+      } else if (data?.failureOutcome?.action === 'return') {
+        toast({
+          title: 'إرجاع الشحنة للمستودع',
+          description: data.failureOutcome.returnReason,
+        });
+      }
+
       resetStatusModalState();
 
       await fetchAssignments();
@@ -1018,6 +1073,7 @@ export default function MyDeliveriesPage() {
     const labelMap: Record<WalletTransactionType, string> = {
       SHIPMENT_COMPLETED: 'شحنة مكتملة',
       TASK_COMPLETED: 'مهمة مكتملة',
+      FAILED_ATTEMPT: 'محاولة تسليم',
       PAYOUT: 'دفعة من الإدارة',
       ADJUSTMENT: 'تعديل محفظة',
     };
@@ -1272,9 +1328,14 @@ export default function MyDeliveriesPage() {
                         {walletInfo ? formatCurrency(walletInfo.balance) : walletLoading ? '...' : formatCurrency(0)}
                       </p>
                     </div>
-                    <Button variant="outline" size="sm" onClick={fetchWalletInfo} disabled={walletLoading}>
-                      تحديث المحفظة
-                    </Button>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" asChild>
+                        <a href="/api/delivery-agent-wallets/me/statement?format=pdf">كشف الشهر الماضي</a>
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={fetchWalletInfo} disabled={walletLoading}>
+                        تحديث المحفظة
+                      </Button>
+                    </div>
                   </div>
                   <div className="grid grid-cols-1 gap-4 mt-6 text-sm text-gray-600 md:grid-cols-2">
                     <div className="rounded-lg border bg-white p-3">
@@ -1625,6 +1686,10 @@ export default function MyDeliveriesPage() {
             </Card>
           )}
 
+          {assignmentsTab === 'active' && !isAdminUser && activeAssignments.length > 0 && (
+            <DeliveryRouteCard refreshKey={activeAssignments.length} />
+          )}
+
           {assignmentsTab === 'active' ? (
             <Card className="p-6">
               <h3 className="text-lg font-semibold mb-4">الشحنات النشطة</h3>
@@ -1663,6 +1728,11 @@ export default function MyDeliveriesPage() {
                               <span className="font-semibold">#{assignment.shipment.orderNumber}</span>
                               {getStatusBadge(assignment.status)}
                               {getShipmentTypeBadge(assignment.shipmentDirection)}
+                            {(assignment.attemptNumber ?? 1) > 1 && (
+                              <Badge variant="outline" className="bg-orange-100 text-orange-800">
+                                محاولة {assignment.attemptNumber}
+                              </Badge>
+                            )}
                             {assignment.exchangeRequest && (
                               <Badge variant="outline" className="bg-amber-100 text-amber-800">
                                 طلب استبدال
@@ -1978,7 +2048,7 @@ export default function MyDeliveriesPage() {
 
         <Dialog open={Boolean(selectedAssignment)} onOpenChange={(open) => !open && resetStatusModalState()}>
           {selectedAssignment && (
-            <DialogContent>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>تحديث حالة الشحنة</DialogTitle>
                 <DialogDescription>
@@ -2009,12 +2079,35 @@ export default function MyDeliveriesPage() {
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     سبب الفشل *
                   </label>
+                  <NativeSelect
+                    className="w-full"
+                    value={failureReasonCode}
+                    onChange={(e) => setFailureReasonCode(e.target.value)}
+                    required
+                  >
+                    <NativeSelectOption value="">اختر السبب</NativeSelectOption>
+                    {DELIVERY_FAILURE_REASONS.map((reason) => (
+                      <NativeSelectOption key={reason.code} value={reason.code}>
+                        {reason.label}
+                      </NativeSelectOption>
+                    ))}
+                  </NativeSelect>
                   <Textarea
+                    className="mt-2"
                     value={failureReason}
                     onChange={(e) => setFailureReason(e.target.value)}
-                    placeholder="اذكر سبب فشل التوصيل"
-                    rows={3}
-                    required
+                    placeholder={failureReasonCode === 'other' ? 'اذكر سبب فشل التوصيل' : 'تفاصيل إضافية (اختياري)'}
+                    rows={2}
+                  />
+                </div>
+              )}
+
+              {requiresOtpInput && (
+                <div className="mb-4">
+                  <DeliveryProofCapture
+                    value={deliveryProof}
+                    onChange={(patch) => setDeliveryProof((prev) => ({ ...prev, ...patch }))}
+                    disabled={updating}
                   />
                 </div>
               )}
@@ -2082,8 +2175,10 @@ export default function MyDeliveriesPage() {
                   onClick={handleUpdateStatus}
                   disabled={
                     updating ||
-                    (newStatus === 'failed' && !failureReason.trim()) ||
-                    (requiresOtpInput && !deliveryOtpCode.trim())
+                    (newStatus === 'failed' &&
+                      (!failureReasonCode || (failureReasonCode === 'other' && !failureReason.trim()))) ||
+                    (requiresOtpInput &&
+                      (!deliveryOtpCode.trim() || (!deliveryProof.photo && !deliveryProof.signature)))
                   }
                 >
                   {updating ? 'جاري التحديث...' : 'تأكيد'}
@@ -89,6 +89,7 @@ export default function OrderHistoryPage() {
       case 'cancelled':
         return <XCircle className="h-5 w-5 text-red-500" />;
       case 'removed':
+      case 'released':
         return <AlertCircle className="h-5 w-5 text-orange-500" />;
       default:
         return <Package className="h-5 w-5 text-gray-500" />;
@@ -103,6 +104,8 @@ export default function OrderHistoryPage() {
         return 'ملغي';
       case 'removed':
         return 'محذوف';
+      case 'released':
+        return 'أعيد للتوزيع';
       default:
         return status;
     }
@@ -1,14 +1,32 @@
 'use client';
 
 import Image from 'next/image';
+import Link from 'next/link';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { cn } from '@/lib/utils';
-import { AlertTriangle, CheckCircle, Loader2, Package, Printer, RefreshCcw, Undo2 } from 'lucide-react';
+import {
+  AlertTriangle,
+  CheckCircle,
+  FileText,
+  Layers,
+  Loader2,
+  Package,
+  Printer,
+  RefreshCcw,
+  Undo2,
+} from 'lucide-react';
 import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
 import { useToast } from '@/components/ui/use-toast';
 import { getShippingAddressSummary, getShippingCompanyName } from '@/app/lib/shipping-company';
+import {
+  ORDER_PREP_DOCUMENT_TYPES,
+  type OrderPrepDocumentType,
+} from '@/app/lib/order-prep-documents';
+import { ORDER_PREP_LEASE_HEARTBEAT_MS } from '@/app/lib/order-prep-status-guard';
+import { describeBinPicks, planBinPicks, type ProductBinLike } from '@/app/lib/product-bins';
+import ScanVerificationPanel from './ScanVerificationPanel';
 
 type AssignmentStatus = 'assigned' | 'preparing' | 'waiting' | 'completed';
 
@@ -26,6 +44,10 @@ interface Assignment {
   waitingAt: string | null;
   completedAt: string | null;
   lastStatusUpdateAt: string;
+  waveId?: string | null;
+  toteNumber?: number | null;
+  splitSequence?: number;
+  backOrderId?: string | null;
   orderData: any;
 }
 
@@ -52,6 +74,7 @@ interface ProductLocation {
   notes?: string | null;
   updatedBy?: string | null;
   updatedAt: string;
+  bins?: ProductBinLike[];
 }
 
 interface UnavailableItemRecord {
@@ -72,7 +95,7 @@ type SallaStatusTarget =
   | 'under_review_reservation'
   | 'under_review_inner'
   | 'under_review_x4';
-type ConfirmDialogType = 'complete';
+type ConfirmDialogType = 'complete' | 'split';
 type ItemProgressState = 'ready' | 'comingSoon' | 'unavailable';
 const itemProgressLabels: Record<ItemProgressState, string> = {
   ready: 'تم التجهيز',
@@ -95,10 +118,39 @@ interface CompletionSummary {
   allUnavailable: boolean;
   singleUnavailable: boolean;
   missingRecordsValid: boolean;
+  canSplit: boolean;
   note: string;
   itemStatuses: ItemStatusPayload[];
 }
 
+interface LeaseConflict {
+  assignmentId: string;
+  message: string;
+  reclaimable: boolean;
+  leaseExpiresAt: string | null;
+}
+
+const PREP_LEASE_STORAGE_KEY = 'orderPrepLeaseId';
+
+// One lease per browser tab: sessionStorage survives a reload but not a new tab.
+const getPrepLeaseId = (): string => {
+  const existing = window.sessionStorage.getItem(PREP_LEASE_STORAGE_KEY);
+  if (existing) {
+    return existing;
+  }
+  const created =
+    typeof crypto !== 'undefined' && crypto.randomUUID
+      ? crypto.randomUUID()
+      : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  window.sessionStorage.setItem(PREP_LEASE_STORAGE_KEY, created);
+  return created;
+};
+
+const documentLabels: Record<OrderPrepDocumentType, string> = {
+  'pick-list': 'قائمة الالتقاط',
+  'packing-slip': 'قسيمة التعبئة',
+};
+
 const assignmentStatusMeta: Record<
   AssignmentStatus,
   { label: string; className: string }
@@ -212,7 +264,10 @@ export default function OrderPrepClient() {
   const [lastUpdated, setLastUpdated] = useState<string | null>(null);
   const [pendingAction, setPendingAction] = useState<string | null>(null);
   const [printingOrderId, setPrintingOrderId] = useState<string | null>(null);
+  const [printingDocument, setPrintingDocument] = useState<string | null>(null);
   const [sallaStatusAction, setSallaStatusAction] = useState<string | null>(null);
+  const [leaseConflict, setLeaseConflict] = useState<LeaseConflict | null>(null);
+  const [reclaimingLease, setReclaimingLease] = useState(false);
   const autoStartedAssignments = useRef<Set<string>>(new Set());
   const refreshedAssignments = useRef<Set<string>>(new Set());
   const [confirmDialog, setConfirmDialog] = useState<{
@@ -323,9 +378,13 @@ export default function OrderPrepClient() {
             status,
             skipSallaSync: Boolean(options?.skipSallaSync),
             itemStatuses: options?.itemStatuses ?? undefined,
+            leaseId: getPrepLeaseId(),
           }),
         });
         const data = await response.json();
+        if (response.status === 409 && data.leaseConflict) {
+          setLeaseConflict({ assignmentId, message: data.error, ...data.leaseConflict });
+        }
         if (!response.ok) {
           throw new Error(data.error || 'فشل تحديث حالة الطلب');
         }
@@ -406,6 +465,37 @@ export default function OrderPrepClient() {
     [toast],
   );
 
+  const handlePrintDocument = useCallback(
+    async (assignment: Assignment, type: OrderPrepDocumentType) => {
+      const label = documentLabels[type];
+      setPrintingDocument(`${assignment.id}_${type}`);
+
+      try {
+        const response = await fetch(`/api/order-prep/orders/${assignment.id}/documents`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ type }),
+        });
+        const data = await response.json();
+
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || `فشل إرسال ${label} للطابعة`);
+        }
+
+        toast({ description: `تم إرسال ${label} للطابعة` });
+      } catch (err) {
+        console.error('Print order prep document error:', err);
+        toast({
+          variant: 'destructive',
+          description: err instanceof Error ? err.message : `تعذر إرسال ${label} للطابعة`,
+        });
+      } finally {
+        setPrintingDocument(null);
+      }
+    },
+    [toast],
+  );
+
   const refreshAssignmentItems = useCallback(async (assignmentId: string) => {
     try {
       const response = await fetch(`/api/order-prep/orders/${assignmentId}/refresh-items`, {
@@ -439,10 +529,14 @@ export default function OrderPrepClient() {
             body: JSON.stringify({
               target,
               note: trimmedNote ? trimmedNote : undefined,
+              leaseId: getPrepLeaseId(),
             }),
           },
         );
         const data = await response.json();
+        if (response.status === 409 && data.leaseConflict) {
+          setLeaseConflict({ assignmentId: assignment.id, message: data.error, ...data.leaseConflict });
+        }
 
         if (!response.ok || !data.success) {
           throw new Error(data.error || 'تعذر تحديث حالة الطلب في سلة');
@@ -464,6 +558,47 @@ export default function OrderPrepClient() {
     [loadAssignments, toast],
   );
 
+  const sendLeaseRequest = useCallback(
+    async (assignmentId: string, action: 'heartbeat' | 'reclaim') => {
+      const response = await fetch(`/api/order-prep/orders/${assignmentId}/lease`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ leaseId: getPrepLeaseId(), action }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (response.status === 409 && data.leaseConflict) {
+        setLeaseConflict({ assignmentId, message: data.error, ...data.leaseConflict });
+        return false;
+      }
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر تحديث جلسة الطلب');
+      }
+      setLeaseConflict(null);
+      return true;
+    },
+    [],
+  );
+
+  const handleReclaimLease = useCallback(
+    async (assignmentId: string) => {
+      setReclaimingLease(true);
+      try {
+        if (await sendLeaseRequest(assignmentId, 'reclaim')) {
+          toast({ description: 'تم استلام الطلب على هذا الجهاز' });
+          await loadAssignments({ silent: true });
+        }
+      } catch (err) {
+        toast({
+          variant: 'destructive',
+          description: err instanceof Error ? err.message : 'تعذر استلام الطلب',
+        });
+      } finally {
+        setReclaimingLease(false);
+      }
+    },
+    [loadAssignments, sendLeaseRequest, toast],
+  );
+
   const closeConfirmDialog = useCallback(() => {
     setConfirmDialog(null);
   }, []);
@@ -475,7 +610,36 @@ export default function OrderPrepClient() {
   const assignmentsCount = assignments.length;
   const activeAssignment = assignments[0] ?? null;
   const isBusy =
-    loading || assigning || Boolean(pendingAction || sallaStatusAction || printingOrderId);
+    loading || assigning || Boolean(pendingAction || sallaStatusAction || printingOrderId || printingDocument);
+  const activeAssignmentId = activeAssignment?.id ?? null;
+  const activeLeaseConflict =
+    leaseConflict && leaseConflict.assignmentId === activeAssignmentId ? leaseConflict : null;
+
+  useEffect(() => {
+    // Keep this tab's lease alive while the order is open; a closed tab stops
+    // beating and the lease lapses, or is dropped at once via the beacon.
+    if (!activeAssignmentId) {
+      return;
+    }
+    const beat = () => {
+      sendLeaseRequest(activeAssignmentId, 'heartbeat').catch((err) => {
+        console.warn('Order prep lease heartbeat failed', err);
+      });
+    };
+    const release = () => {
+      navigator.sendBeacon?.(
+        `/api/order-prep/orders/${activeAssignmentId}/lease`,
+        JSON.stringify({ leaseId: getPrepLeaseId(), action: 'release' }),
+      );
+    };
+    beat();
+    const timer = window.setInterval(beat, ORDER_PREP_LEASE_HEARTBEAT_MS);
+    window.addEventListener('pagehide', release);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('pagehide', release);
+    };
+  }, [activeAssignmentId, sendLeaseRequest]);
 
   useEffect(() => {
     // Automatically refresh line items once per assignment to keep quantities current
@@ -552,16 +716,67 @@ export default function OrderPrepClient() {
     [assignNextOrder, handleUpdateSallaStatus, toast, updateStatus],
   );
 
+  const handleSplitFlow = useCallback(
+    async (assignment: Assignment, completion: CompletionSummary): Promise<boolean> => {
+      if (completion.hasUnavailable && !completion.missingRecordsValid) {
+        toast({
+          variant: 'destructive',
+          description: 'يرجى تسجيل النواقص لكل منتج تم وضعه كغير متوفر قبل تقسيم الطلب.',
+        });
+        return false;
+      }
+
+      setPendingAction(`${assignment.id}_split`);
+      try {
+        const response = await fetch(`/api/order-prep/orders/${assignment.id}/split`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ itemStatuses: completion.itemStatuses, leaseId: getPrepLeaseId() }),
+        });
+        const data = await response.json();
+        if (response.status === 409 && data.leaseConflict) {
+          setLeaseConflict({ assignmentId: assignment.id, message: data.error, ...data.leaseConflict });
+        }
+        if (!response.ok) {
+          throw new Error(data.error || 'تعذر تقسيم الطلب');
+        }
+
+        setAssignments((prev) => prev.filter((item) => item.id !== assignment.id));
+        toast({
+          description: `📦 تم إنهاء المتوفر وتأجيل ${data.backOrder?.lines?.length ?? 0} منتج لشحنة لاحقة`,
+        });
+      } catch (err) {
+        toast({
+          variant: 'destructive',
+          description: err instanceof Error ? err.message : 'تعذر تقسيم الطلب',
+        });
+        return false;
+      } finally {
+        setPendingAction(null);
+      }
+
+      const nextAssignment = await assignNextOrder({ silent: true });
+      if (!nextAssignment) {
+        toast({ description: 'لا توجد طلبات جديدة متاحة حالياً.' });
+      }
+      return true;
+    },
+    [assignNextOrder, toast],
+  );
+
   const runConfirmedAction = useCallback(() => {
     if (!confirmDialog) return;
-    const { assignment, completion } = confirmDialog;
+    const { type, assignment, completion } = confirmDialog;
     void (async () => {
-      const success = await handleCompleteFlow(assignment, completion);
+      const success =
+        type === 'split'
+          ? await handleSplitFlow(assignment, completion)
+          : await handleCompleteFlow(assignment, completion);
       if (success) {
         closeConfirmDialog();
       }
     })();
-  }, [confirmDialog, closeConfirmDialog, handleCompleteFlow]);
+  }, [confirmDialog, closeConfirmDialog, handleCompleteFlow, handleSplitFlow]);
 
   const confirmConfig: Record<
     ConfirmDialogType,
@@ -572,6 +787,11 @@ export default function OrderPrepClient() {
       confirmLabel: 'إنهاء الطلب',
       variant: 'danger',
     },
+    split: {
+      message:
+        'سيتم إنهاء المنتجات الجاهزة وشحنها الآن، وتأجيل المنتجات الناقصة في شحنة مستقلة تعود إليك عند توفرها. هل تريد المتابعة؟',
+      confirmLabel: 'شحن المتوفر وتأجيل الناقص',
+    },
   };
   const notePreview =
     confirmDialog?.completion?.note && confirmDialog.completion.note.trim() ? (
@@ -616,6 +836,12 @@ export default function OrderPrepClient() {
             )}
             طلب طلب جديد
           </Button>
+          <Button variant="outline" asChild className="w-full sm:w-auto">
+            <Link href="/order-prep/wave">
+              <Layers className="h-4 w-4 ml-2" />
+              تجميع دفعة طلبات
+            </Link>
+          </Button>
         </div>
       </div>
 
@@ -651,21 +877,71 @@ export default function OrderPrepClient() {
           </p>
         </Card>
       ) : (
-        <AssignmentCard
-          key={activeAssignment.id}
-          assignment={activeAssignment}
-          pendingAction={pendingAction}
-          onPrintOrderNumber={handlePrintOrderNumber}
-          printingOrderId={printingOrderId}
-          isSallaUpdating={Boolean(sallaStatusAction)}
-          onConfirmComplete={({ assignment, summary }) => {
-            setConfirmDialog({
-              type: 'complete',
-              assignment,
-              completion: summary,
-            });
-          }}
-        />
+        <>
+          {activeLeaseConflict && (
+            <div
+              className={cn(
+                'flex flex-col gap-3 rounded-lg border px-4 py-3 text-sm sm:flex-row sm:items-center sm:justify-between',
+                activeLeaseConflict.reclaimable
+                  ? 'border-sky-200 bg-sky-50 text-sky-900'
+                  : 'border-amber-200 bg-amber-50 text-amber-900',
+              )}
+            >
+              <div className="flex items-start gap-2">
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                <div>
+                  <p className="font-semibold">{activeLeaseConflict.message}</p>
+                  {!activeLeaseConflict.reclaimable && activeLeaseConflict.leaseExpiresAt && (
+                    <p className="mt-1 text-xs">
+                      تنتهي جلسة الجهاز الآخر عند{' '}
+                      {new Date(activeLeaseConflict.leaseExpiresAt).toLocaleTimeString('ar-SA')} ما لم يستمر
+                      العمل عليه.
+                    </p>
+                  )}
+                </div>
+              </div>
+              {activeLeaseConflict.reclaimable && (
+                <Button
+                  size="sm"
+                  onClick={() => handleReclaimLease(activeLeaseConflict.assignmentId)}
+                  disabled={reclaimingLease}
+                >
+                  {reclaimingLease ? (
+                    <Loader2 className="h-4 w-4 ml-2 animate-spin" />
+                  ) : (
+                    <RefreshCcw className="h-4 w-4 ml-2" />
+                  )}
+                  استلام الطلب على هذا الجهاز
+                </Button>
+              )}
+            </div>
+          )}
+          <AssignmentCard
+            key={activeAssignment.id}
+            assignment={activeAssignment}
+            pendingAction={pendingAction}
+            onPrintOrderNumber={handlePrintOrderNumber}
+            printingOrderId={printingOrderId}
+            onPrintDocument={handlePrintDocument}
+            printingDocument={printingDocument}
+            isSallaUpdating={Boolean(sallaStatusAction)}
+            isLeaseBlocked={Boolean(activeLeaseConflict)}
+            onConfirmComplete={({ assignment, summary }) => {
+              setConfirmDialog({
+                type: 'complete',
+                assignment,
+                completion: summary,
+              });
+            }}
+            onConfirmSplit={({ assignment, summary }) => {
+              setConfirmDialog({
+                type: 'split',
+                assignment,
+                completion: summary,
+              });
+            }}
+          />
+        </>
       )}
       <ConfirmationDialog
         open={Boolean(confirmDialog)}
@@ -693,15 +969,23 @@ function AssignmentCard({
   pendingAction,
   onPrintOrderNumber,
   printingOrderId,
+  onPrintDocument,
+  printingDocument,
   isSallaUpdating,
+  isLeaseBlocked,
   onConfirmComplete,
+  onConfirmSplit,
 }: {
   assignment: Assignment;
   pendingAction: string | null;
   onPrintOrderNumber: (assignment: Assignment) => void;
   printingOrderId: string | null;
+  onPrintDocument: (assignment: Assignment, type: OrderPrepDocumentType) => void;
+  printingDocument: string | null;
   isSallaUpdating: boolean;
+  isLeaseBlocked: boolean;
   onConfirmComplete: (request: CompletionRequest) => void;
+  onConfirmSplit: (request: CompletionRequest) => void;
 }) {
   const items = useMemo(() => getLineItems(assignment.orderData), [assignment.orderData]);
   const orderStatus = getOrderStatus(assignment.orderData);
@@ -1184,12 +1468,19 @@ function AssignmentCard({
       allUnavailable,
       singleUnavailable: items.length === 1 && progressValues[0] === 'unavailable',
       missingRecordsValid,
+      canSplit:
+        !assignment.backOrderId &&
+        items.length > 0 &&
+        progressValues.every(Boolean) &&
+        progressValues.includes('ready') &&
+        (hasComingSoon || hasUnavailable),
       note: autoNote,
       itemStatuses,
     }),
     [
       allReady,
       allUnavailable,
+      assignment.backOrderId,
       autoNote,
       hasComingSoon,
       hasUnavailable,
@@ -1242,6 +1533,21 @@ function AssignmentCard({
           <span className={cn('rounded-full px-3 py-1 text-xs font-semibold', statusMeta.className)}>
             {statusMeta.label}
           </span>
+          {assignment.waveId && (
+            <span className="rounded-full border border-amber-200 bg-amber-50 px-3 py-1 text-xs font-semibold text-amber-800">
+              سلة {assignment.toteNumber ?? '—'}
+            </span>
+          )}
+          {assignment.orderData?.prepRestock && (
+            <span className="rounded-full border border-emerald-200 bg-emerald-50 px-3 py-1 text-xs font-semibold text-emerald-800">
+              عاد بعد توفر النواقص
+            </span>
+          )}
+          {assignment.orderData?.prepBackOrder && (
+            <span className="rounded-full border border-sky-200 bg-sky-50 px-3 py-1 text-xs font-semibold text-sky-800">
+              شحنة مؤجلة {assignment.orderData.prepBackOrder.sequence ?? ''}
+            </span>
+          )}
           {orderStatus && (
             <span
               className={cn(
@@ -1256,6 +1562,7 @@ function AssignmentCard({
       </div>
 
       <div className="px-6 py-5 space-y-5 bg-white">
+        <ScanVerificationPanel assignmentId={assignment.id} />
         {orderTags.length > 0 && (
           <div className="p-4 bg-gradient-to-r from-blue-50 to-indigo-50 border-2 border-blue-300 rounded-lg">
             <div className="flex items-center gap-2 mb-2">
@@ -1492,13 +1799,45 @@ function AssignmentCard({
               )}
               طباعة رقم الطلب
             </Button>
+            {ORDER_PREP_DOCUMENT_TYPES.map((type) => (
+              <div key={type} className="flex w-full gap-2 sm:w-auto">
+                <Button
+                  variant="outline"
+                  onClick={() => onPrintDocument(assignment, type)}
+                  disabled={printingDocument !== null || actionsLocked || isSallaUpdating}
+                  className="flex-1 sm:flex-none"
+                >
+                  {printingDocument === `${assignment.id}_${type}` ? (
+                    <Loader2 className="h-4 w-4 ml-2 animate-spin" />
+                  ) : (
+                    <Printer className="h-4 w-4 ml-2" />
+                  )}
+                  طباعة {documentLabels[type]}
+                </Button>
+                <Button
+                  variant="outline"
+                  asChild
+                  className="px-3"
+                  title={`معاينة ${documentLabels[type]}`}
+                >
+                  <a
+                    href={`/api/order-prep/orders/${assignment.id}/documents?type=${type}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    <FileText className="h-4 w-4" />
+                  </a>
+                </Button>
+              </div>
+            ))}
             <Button
               onClick={() => onConfirmComplete({ assignment, summary: completionSummary })}
               disabled={
                 completedDisabled ||
                 pendingAction === actionKey('completed') ||
                 actionsLocked ||
-                isSallaUpdating
+                isSallaUpdating ||
+                isLeaseBlocked
               }
               className="w-full sm:w-auto"
             >
@@ -1509,6 +1848,26 @@ function AssignmentCard({
               )}
               إنهاء الطلب
             </Button>
+            {completionSummary.canSplit && (
+              <Button
+                variant="outline"
+                onClick={() => onConfirmSplit({ assignment, summary: completionSummary })}
+                disabled={
+                  pendingAction === `${assignment.id}_split` ||
+                  actionsLocked ||
+                  isSallaUpdating ||
+                  isLeaseBlocked
+                }
+                className="w-full sm:w-auto"
+              >
+                {pendingAction === `${assignment.id}_split` ? (
+                  <Loader2 className="h-4 w-4 ml-2 animate-spin" />
+                ) : (
+                  <Layers className="h-4 w-4 ml-2" />
+                )}
+                شحن المتوفر وتأجيل الناقص
+              </Button>
+            )}
           </div>
           {actionsLocked && (
             <p className="text-xs font-semibold text-amber-600">
@@ -1712,8 +2071,15 @@ function ProductMeta({
   const locationUpdatedAt = locationInfo?.updatedAt
     ? new Date(locationInfo.updatedAt).toLocaleString('ar-SA')
     : null;
-  const locationNotes = locationInfo?.notes || item.locationNotes;
-  const locationLabel = hasLocation ? (locationInfo?.location || fallbackLocation) : 'غير مسجل';
+  // Live bin stock wins over the bin chosen when the order was assigned.
+  const binPicks = locationInfo?.bins?.length ? planBinPicks(locationInfo.bins, item.quantity || 1) : [];
+  const locationNotes =
+    (binPicks.length > 0
+      ? [describeBinPicks(binPicks), locationInfo?.notes].filter(Boolean).join(' — ')
+      : locationInfo?.notes || item.locationNotes) || null;
+  const locationLabel = hasLocation
+    ? binPicks[0]?.code || locationInfo?.location || fallbackLocation
+    : 'غير مسجل';
 
   return (
     <div className="space-y-2">
@@ -0,0 +1,165 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { CheckCircle, Loader2, ScanLine, XCircle } from 'lucide-react';
+
+interface ScanLineProgress {
+  index: number;
+  sku: string | null;
+  name: string | null;
+  required: number;
+  scanned: number;
+  remaining: number;
+  exempt: boolean;
+}
+
+interface ScanProgress {
+  lines: ScanLineProgress[];
+  complete: boolean;
+  remainingUnits: number;
+}
+
+interface ScanFeedback {
+  tone: 'success' | 'error';
+  message: string;
+}
+
+export default function ScanVerificationPanel({ assignmentId }: { assignmentId: string }) {
+  const [enabled, setEnabled] = useState(false);
+  const [progress, setProgress] = useState<ScanProgress | null>(null);
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const loadState = async () => {
+      try {
+        const response = await fetch(`/api/order-prep/orders/${assignmentId}/scans`, {
+          cache: 'no-store',
+          signal: controller.signal,
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'تعذر تحميل حالة التحقق');
+        }
+        setEnabled(Boolean(data.enabled));
+        setProgress(data.progress ?? null);
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.warn('Failed to load scan verification state', err);
+        }
+      }
+    };
+    void loadState();
+    return () => controller.abort();
+  }, [assignmentId]);
+
+  const submitScan = useCallback(
+    async (event: React.FormEvent) => {
+      event.preventDefault();
+      const value = code.trim();
+      if (!value) return;
+
+      setSubmitting(true);
+      try {
+        const response = await fetch(`/api/order-prep/orders/${assignmentId}/scans`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ code: value }),
+        });
+        const data = await response.json();
+        if (data.progress) {
+          setProgress(data.progress);
+        }
+        setFeedback({
+          tone: response.ok ? 'success' : 'error',
+          message: data.message || data.error || 'تعذر تسجيل المسح',
+        });
+      } catch (err) {
+        setFeedback({
+          tone: 'error',
+          message: err instanceof Error ? err.message : 'تعذر تسجيل المسح',
+        });
+      } finally {
+        setSubmitting(false);
+        setCode('');
+        inputRef.current?.focus();
+      }
+    },
+    [assignmentId, code],
+  );
+
+  if (!enabled || !progress) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-indigo-200 bg-indigo-50/60 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 font-semibold text-indigo-900">
+          <ScanLine className="h-5 w-5" />
+          التحقق بالمسح
+        </div>
+        <span
+          className={cn(
+            'rounded-full px-3 py-1 text-xs font-semibold',
+            progress.complete ? 'bg-green-100 text-green-700' : 'bg-white text-indigo-700',
+          )}
+        >
+          {progress.complete ? 'تم التحقق من جميع القطع' : `المتبقي ${progress.remainingUnits}`}
+        </span>
+      </div>
+
+      <form onSubmit={submitScan} className="flex gap-2">
+        <Input
+          ref={inputRef}
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+          placeholder="امسح باركود المنتج"
+          autoFocus
+          dir="ltr"
+          className="bg-white font-mono"
+        />
+        <Button type="submit" disabled={submitting || !code.trim()}>
+          {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'تحقق'}
+        </Button>
+      </form>
+
+      {feedback && (
+        <div
+          className={cn(
+            'flex items-center gap-2 rounded-md px-3 py-2 text-sm font-medium',
+            feedback.tone === 'success' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800',
+          )}
+        >
+          {feedback.tone === 'success' ? <CheckCircle className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+          {feedback.message}
+        </div>
+      )}
+
+      <ul className="space-y-1 text-sm">
+        {progress.lines.map((line) => (
+          <li key={line.index} className="flex items-center justify-between gap-2">
+            <span className="truncate text-gray-800">
+              {line.name || 'منتج'}{' '}
+              {line.sku && <span className="font-mono text-xs text-gray-500">({line.sku})</span>}
+            </span>
+            <span
+              className={cn(
+                'shrink-0 font-mono text-xs',
+                line.exempt ? 'text-gray-400' : line.remaining === 0 ? 'text-green-700' : 'text-indigo-800',
+              )}
+            >
+              {line.exempt ? 'غير مطلوب' : `${line.scanned} / ${line.required}`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
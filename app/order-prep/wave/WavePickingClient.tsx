@@ -0,0 +1,352 @@
+'use client';
+
+import Image from 'next/image';
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { CheckCircle, Layers, Loader2, MapPin, Package, RefreshCcw } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+
+type WaveStatus = 'picking' | 'sorting' | 'completed' | 'cancelled';
+
+interface ToteAllocation {
+  assignmentId: string;
+  orderId: string;
+  orderNumber: string | null;
+  toteNumber: number | null;
+  quantity: number;
+  done: boolean;
+}
+
+interface PickListItem {
+  key: string;
+  sku: string | null;
+  name: string | null;
+  image: string | null;
+  locationNotes: string | null;
+  totalQuantity: number;
+  totes: ToteAllocation[];
+}
+
+interface PickListLocation {
+  location: string | null;
+  items: PickListItem[];
+}
+
+interface WaveAssignment {
+  id: string;
+  orderId: string;
+  orderNumber?: string | null;
+  toteNumber?: number | null;
+  status: string;
+}
+
+interface Wave {
+  id: string;
+  status: WaveStatus;
+  orderCount: number;
+  createdAt: string;
+  pickedAt: string | null;
+  assignments: WaveAssignment[];
+  pickList: {
+    orderCount: number;
+    totalUnits: number;
+    locations: PickListLocation[];
+  };
+}
+
+const WAVE_SIZES = [4, 6, 8, 10, 12];
+
+const waveStatusLabels: Record<WaveStatus, string> = {
+  picking: 'جاري التجميع',
+  sorting: 'جاري الفرز في السلال',
+  completed: 'مكتملة',
+  cancelled: 'ملغاة',
+};
+
+export default function WavePickingClient() {
+  const [wave, setWave] = useState<Wave | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [claiming, setClaiming] = useState(false);
+  const [markingPicked, setMarkingPicked] = useState(false);
+  const [waveSize, setWaveSize] = useState(6);
+  const [pickedKeys, setPickedKeys] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+
+  const loadWave = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/order-prep/waves', { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر تحميل دفعة التجميع');
+      }
+      setWave(data.wave ?? null);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        description: err instanceof Error ? err.message : 'حدث خطأ غير متوقع',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadWave();
+  }, [loadWave]);
+
+  useEffect(() => {
+    setPickedKeys(new Set());
+  }, [wave?.id]);
+
+  const claimWave = useCallback(async () => {
+    setClaiming(true);
+    try {
+      const response = await fetch('/api/order-prep/waves', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ size: waveSize }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر إنشاء دفعة تجميع جديدة');
+      }
+      setWave(data.wave);
+      toast({ description: `✅ تم تعيين ${data.wave.orderCount} طلبات في دفعة واحدة` });
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        description: err instanceof Error ? err.message : 'تعذر إنشاء دفعة تجميع جديدة',
+      });
+    } finally {
+      setClaiming(false);
+    }
+  }, [toast, waveSize]);
+
+  const markPicked = useCallback(async () => {
+    if (!wave) return;
+    setMarkingPicked(true);
+    try {
+      const response = await fetch(`/api/order-prep/waves/${wave.id}/picked`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر تحديث دفعة التجميع');
+      }
+      setWave(data.wave);
+      toast({ description: '📦 انتقل الآن إلى فرز القطع في سلال الطلبات' });
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        description: err instanceof Error ? err.message : 'تعذر تحديث دفعة التجميع',
+      });
+    } finally {
+      setMarkingPicked(false);
+    }
+  }, [toast, wave]);
+
+  const togglePicked = useCallback((key: string) => {
+    setPickedKeys((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  }, []);
+
+  const totalLines = useMemo(
+    () => wave?.pickList.locations.reduce((sum, location) => sum + location.items.length, 0) ?? 0,
+    [wave],
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="h-10 w-10 animate-spin text-purple-500" />
+      </div>
+    );
+  }
+
+  if (!wave) {
+    return (
+      <Card className="space-y-6 p-10 text-center">
+        <Layers className="mx-auto h-10 w-10 text-gray-400" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">لا توجد دفعة تجميع مفتوحة</h3>
+          <p className="mt-2 text-sm text-gray-500">
+            اختر عدد الطلبات ليتم تعيين أقدم الطلبات الجديدة لك وتجميع منتجاتها في جولة واحدة حسب المواقع.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          {WAVE_SIZES.map((size) => (
+            <Button
+              key={size}
+              variant={size === waveSize ? 'default' : 'outline'}
+              onClick={() => setWaveSize(size)}
+            >
+              {size} طلبات
+            </Button>
+          ))}
+        </div>
+        <div className="flex flex-col items-center justify-center gap-3 sm:flex-row">
+          <Button onClick={claimWave} disabled={claiming}>
+            {claiming ? (
+              <Loader2 className="h-4 w-4 ml-2 animate-spin" />
+            ) : (
+              <Package className="h-4 w-4 ml-2" />
+            )}
+            بدء دفعة تجميع
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/order-prep">العودة لتجهيز الطلبات</Link>
+          </Button>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <p className="text-sm text-gray-500">دفعة تجميع</p>
+          <h1 className="text-2xl font-bold text-gray-900">{waveStatusLabels[wave.status]}</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {wave.status === 'picking'
+              ? 'اجمع الكميات الإجمالية من كل موقع، ثم انتقل لفرزها في سلال الطلبات'
+              : 'وزّع القطع على السلال المرقمة ثم أنهِ كل طلب من صفحة تجهيز الطلبات'}
+          </p>
+        </div>
+        <div className="flex w-full flex-col gap-3 sm:w-auto sm:flex-row">
+          <Button variant="outline" onClick={loadWave} className="w-full sm:w-auto">
+            <RefreshCcw className="h-4 w-4 ml-2" />
+            تحديث
+          </Button>
+          {wave.status === 'picking' ? (
+            <Button onClick={markPicked} disabled={markingPicked} className="w-full sm:w-auto">
+              {markingPicked ? (
+                <Loader2 className="h-4 w-4 ml-2 animate-spin" />
+              ) : (
+                <CheckCircle className="h-4 w-4 ml-2" />
+              )}
+              انتهيت من التجميع
+            </Button>
+          ) : (
+            <Button asChild className="w-full sm:w-auto">
+              <Link href="/order-prep">إنهاء الطلبات</Link>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Card className="p-4">
+          <div className="text-sm text-gray-500">الطلبات في الدفعة</div>
+          <div className="text-3xl font-bold text-gray-900">{wave.orderCount}</div>
+        </Card>
+        <Card className="p-4">
+          <div className="text-sm text-gray-500">إجمالي القطع</div>
+          <div className="text-3xl font-bold text-gray-900">{wave.pickList.totalUnits}</div>
+        </Card>
+        <Card className="p-4">
+          <div className="text-sm text-gray-500">تم تجميعه</div>
+          <div className="text-3xl font-bold text-gray-900">
+            {pickedKeys.size} / {totalLines}
+          </div>
+        </Card>
+      </div>
+
+      <Card className="p-4">
+        <div className="mb-3 text-sm font-semibold text-gray-700">السلال</div>
+        <div className="flex flex-wrap gap-2">
+          {wave.assignments.map((assignment) => (
+            <span
+              key={assignment.id}
+              className={cn(
+                'rounded-full border px-3 py-1 text-xs font-medium',
+                assignment.status === 'completed'
+                  ? 'border-green-200 bg-green-50 text-green-700'
+                  : 'border-gray-200 bg-gray-50 text-gray-700',
+              )}
+            >
+              سلة {assignment.toteNumber ?? '—'} · #{assignment.orderNumber || assignment.orderId}
+            </span>
+          ))}
+        </div>
+      </Card>
+
+      <div className="space-y-4">
+        {wave.pickList.locations.map((location) => (
+          <Card key={location.location ?? 'unmapped'} className="overflow-hidden">
+            <div className="flex items-center gap-2 border-b bg-gray-50 px-4 py-3 text-sm font-semibold text-gray-800">
+              <MapPin className="h-4 w-4 text-purple-500" />
+              {location.location || 'بدون موقع محدد'}
+            </div>
+            <div className="divide-y">
+              {location.items.map((item) => {
+                const picked = pickedKeys.has(item.key);
+                return (
+                  <button
+                    key={item.key}
+                    type="button"
+                    onClick={() => togglePicked(item.key)}
+                    className={cn(
+                      'flex w-full items-start gap-4 px-4 py-3 text-right transition',
+                      picked ? 'bg-green-50' : 'hover:bg-gray-50',
+                    )}
+                  >
+                    {item.image ? (
+                      <Image
+                        src={item.image}
+                        alt={item.name || item.sku || 'منتج'}
+                        width={256}
+                        height={256}
+                        unoptimized
+                        className="h-16 w-16 rounded-md border border-gray-100 object-cover"
+                      />
+                    ) : (
+                      <div className="flex h-16 w-16 items-center justify-center rounded-md border border-dashed border-gray-200">
+                        <Package className="h-6 w-6 text-gray-300" />
+                      </div>
+                    )}
+                    <div className="flex-1 space-y-1">
+                      <div className="font-semibold text-gray-900">{item.name || 'منتج بدون اسم'}</div>
+                      {item.sku && <div className="font-mono text-xs text-gray-500">{item.sku}</div>}
+                      {item.locationNotes && (
+                        <div className="text-xs text-gray-500">{item.locationNotes}</div>
+                      )}
+                      <div className="flex flex-wrap gap-1 pt-1">
+                        {item.totes.map((tote) => (
+                          <span
+                            key={tote.assignmentId}
+                            className={cn(
+                              'rounded border px-2 py-0.5 text-xs',
+                              tote.done
+                                ? 'border-green-200 bg-green-50 text-green-700 line-through'
+                                : 'border-amber-200 bg-amber-50 text-amber-800',
+                            )}
+                          >
+                            سلة {tote.toteNumber ?? '—'} × {tote.quantity}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex flex-col items-center gap-1">
+                      <span className="text-2xl font-bold text-gray-900">{item.totalQuantity}</span>
+                      {picked && <CheckCircle className="h-5 w-5 text-green-600" />}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          </Card>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,16 @@
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+export const fetchCache = 'force-no-store';
+
+import { AppPageShell } from '@/components/dashboard/app-page-shell';
+import WavePickingClient from './WavePickingClient';
+
+export default function OrderPrepWavePage() {
+  return (
+    <AppPageShell title="التجميع الدفعي" subtitle="تجميع عدة طلبات في جولة واحدة ثم فرزها في سلال الطلبات">
+      <div className="mx-auto w-full max-w-7xl">
+        <WavePickingClient />
+      </div>
+    </AppPageShell>
+  );
+}
@@ -16,7 +16,10 @@ import { getShippingAddressSummary, getShippingCompanyName } from '@/app/lib/shi
 import { detectMessengerShipments, buildShipToArabicLabel } from '@/app/lib/local-shipping/messenger';
 import { getItemColor, getItemSize } from '@/lib/returns/item-attributes';
 import { detectInternationalOrder } from '@/app/lib/order-destination';
+import { assessSaudiAddress, saudiAddressFromOrder } from '@/lib/saudi-address';
 import { OrderBarcodeScanner } from '@/components/order-shipping/OrderBarcodeScanner';
+import { CarrierRecommendationCard } from '@/components/order-shipping/CarrierRecommendationCard';
+import type { ShippingOptionCode } from '@/app/lib/carrier-rates';
 
 interface OrderUser {
   id: string;
@@ -73,6 +76,19 @@ interface ProductLocation {
   updatedAt: string;
 }
 
+interface OrderShipmentPartLine {
+  lineIndex: number;
+  sku: string | null;
+  name: string | null;
+  quantity: number;
+}
+
+interface OrderShipmentParts {
+  isSplit: boolean;
+  pendingPart: { backOrderId: string | null; sequence: number; lines: OrderShipmentPartLine[] } | null;
+  backOrders: Array<{ id: string; sequence: number; status: string; lines: OrderShipmentPartLine[] }>;
+}
+
 interface DeliveryAgentOption {
   id: string;
   name: string;
@@ -617,6 +633,7 @@ export default function OrderShippingPage() {
     assignmentStatus?: string | null;
   } | null>(null);
   const [shipmentError, setShipmentError] = useState<string | null>(null);
+  const [shipmentParts, setShipmentParts] = useState<OrderShipmentParts | null>(null);
   const [deliveryAgents, setDeliveryAgents] = useState<DeliveryAgentOption[]>([]);
   const [deliveryAgentsError, setDeliveryAgentsError] = useState<string | null>(null);
   const [creatingLocalShipment, setCreatingLocalShipment] = useState(false);
@@ -624,6 +641,7 @@ export default function OrderShippingPage() {
   const [agentSelectionOptions, setAgentSelectionOptions] = useState<DeliveryAgentOption[]>([]);
   const [selectedAgentId, setSelectedAgentId] = useState<string | null>(null);
   const [loadingAgentSelection, setLoadingAgentSelection] = useState(false);
+  const [selectedCarrier, setSelectedCarrier] = useState<ShippingOptionCode | null>(null);
 
   const applyShipmentFromAssignment = useCallback(
     (assignment: OrderAssignment | null, options: { resetWhenMissing?: boolean } = {}) => {
@@ -774,6 +792,14 @@ export default function OrderShippingPage() {
 
   const isInternationalOrder = internationalOrderInfo.isInternational;
 
+  const addressAssessment = useMemo(() => {
+    if (!currentOrder?.orderData || isInternationalOrder) {
+      return null;
+    }
+    return assessSaudiAddress(saudiAddressFromOrder(currentOrder.orderData));
+  }, [currentOrder, isInternationalOrder]);
+  const addressLikelyToFail = Boolean(addressAssessment?.likelyToFail);
+
   const customerSummary = useMemo(() => {
     return getOrderCustomerSummary(currentOrder?.orderData || {}, shippingAddressSummary);
   }, [currentOrder, shippingAddressSummary]);
@@ -955,6 +981,10 @@ const getPrepStatusForItem = useCallback(
   );
 
   const canCreateLocalShipment = Boolean(currentOrder && !isInternationalOrder && resolvedMerchantId && currentOrder.orderNumber);
+  const shouldShowCarrierRecommendation = Boolean(currentOrder && !isInternationalOrder && !shouldShowShipmentCard);
+  const manualAramexHref = currentOrder
+    ? `/order-shipping/manual-smsa?orderNumber=${encodeURIComponent(currentOrder.orderNumber)}&carrier=aramex`
+    : null;
   const canReturnOrderToReview = Boolean(
     currentOrder && (!currentOrder.source || currentOrder.source === 'assignment')
   );
@@ -997,6 +1027,43 @@ const getPrepStatusForItem = useCallback(
     }
   }, [currentOrder, shipmentInfo]);
 
+  const currentOrderId = currentOrder?.orderId ?? null;
+
+  useEffect(() => {
+    setSelectedCarrier(null);
+  }, [currentOrderId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setShipmentParts(null);
+    if (!currentOrderId) {
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    const fetchShipmentParts = async () => {
+      try {
+        const response = await fetch(
+          `/api/orders/shipment-parts?orderId=${encodeURIComponent(currentOrderId)}`,
+          { cache: 'no-store' },
+        );
+        const data = await parseJsonResponse(response, 'GET /api/orders/shipment-parts');
+        if (!cancelled && response.ok && data.success) {
+          setShipmentParts(data as OrderShipmentParts);
+        }
+      } catch (error) {
+        console.error('Failed to load order shipment parts', error);
+      }
+    };
+
+    fetchShipmentParts();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentOrderId]);
+
   useEffect(() => {
     let cancelled = false;
 
@@ -1210,6 +1277,34 @@ const handleRefreshItems = async () => {
     }
   };
 
+  // Failures here only lose the audit trail of the carrier choice, so they must
+  // not interrupt the shipment flow that already succeeded.
+  const recordCarrierChoice = useCallback(
+    async (carrier: ShippingOptionCode) => {
+      if (!currentOrder) return;
+      try {
+        const response = await fetch('/api/shipments/carrier-selections', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            orderId: currentOrder.orderId,
+            orderNumber: currentOrder.orderNumber,
+            merchantId: resolvedMerchantId || null,
+            orderData: currentOrder.orderData,
+            carrier,
+          }),
+        });
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          console.error('Failed to record carrier selection', data?.error || response.status);
+        }
+      } catch (error) {
+        console.error('Failed to record carrier selection', error);
+      }
+    },
+    [currentOrder, resolvedMerchantId],
+  );
+
   const handleCreateShipment = async () => {
     if (!currentOrder) return;
     if (isInternationalOrder) {
@@ -1252,6 +1347,7 @@ const handleRefreshItems = async () => {
           assignmentStatus: null,
         });
         setShipmentError(null);
+        void recordCarrierChoice('smsa');
 
         const message = labelPrinted
           ? `✅ تم إنشاء الشحنة وطباعة البوليصة بنجاح!\n\nرقم التتبع: ${data.data.trackingNumber}\nشركة الشحن: ${data.data.courierName}`
@@ -1504,6 +1600,9 @@ const handleRefreshItems = async () => {
             ? ''
             : '\n\n⚠️ تعذر تحديث حالة الطلب في سلة تلقائياً.';
         alert(`${baseMessage}${autoPrintMessage}${sallaStatusMessage}`);
+        if (!createData.reused) {
+          void recordCarrierChoice('messenger');
+        }
         await reloadCurrentOrder();
         return true;
       } catch (error) {
@@ -1516,7 +1615,7 @@ const handleRefreshItems = async () => {
         setCreatingLocalShipment(false);
       }
     },
-    [currentOrder, resolvedMerchantId, user, reloadCurrentOrder],
+    [currentOrder, resolvedMerchantId, user, reloadCurrentOrder, recordCarrierChoice],
   );
 
   const handleConfirmAgentSelection = useCallback(async () => {
@@ -1865,6 +1964,35 @@ const handleRefreshItems = async () => {
                 </Card>
               )}
 
+              {shipmentParts?.isSplit && (
+                <Alert className="mb-4 border-sky-200 bg-sky-50 text-sky-950">
+                  <AlertTitle>طلب مشحون على أجزاء</AlertTitle>
+                  <AlertDescription className="space-y-1">
+                    {shipmentParts.pendingPart ? (
+                      <p>
+                        {shipmentParts.pendingPart.backOrderId
+                          ? `البوليصة التالية للشحنة المؤجلة ${shipmentParts.pendingPart.sequence} وتشمل: `
+                          : 'البوليصة التالية للمنتجات المتوفرة فقط وتشمل: '}
+                        {shipmentParts.pendingPart.lines
+                          .map((line) => `${line.name || line.sku || `منتج ${line.lineIndex + 1}`} × ${line.quantity}`)
+                          .join('، ')}
+                      </p>
+                    ) : (
+                      <p>لا توجد منتجات جاهزة للشحن حالياً في هذا الطلب.</p>
+                    )}
+                    {shipmentParts.backOrders
+                      .filter((backOrder) => backOrder.status === 'waiting_stock' || backOrder.status === 'preparing')
+                      .map((backOrder) => (
+                        <p key={backOrder.id} className="text-xs">
+                          الشحنة المؤجلة {backOrder.sequence}{' '}
+                          {backOrder.status === 'preparing' ? 'قيد التجهيز' : 'بانتظار توفر المخزون'}:{' '}
+                          {backOrder.lines.map((line) => line.name || line.sku).join('، ')}
+                        </p>
+                      ))}
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {isInternationalOrder && (
                 <Alert className="mb-4 border-blue-200 bg-blue-50 text-blue-950">
                   <AlertTitle>طلب دولي</AlertTitle>
@@ -2185,6 +2313,18 @@ const handleRefreshItems = async () => {
                 </Card>
               )}
 
+              {shouldShowCarrierRecommendation && currentOrder && (
+                <CarrierRecommendationCard
+                  key={currentOrder.orderId}
+                  orderId={currentOrder.orderId}
+                  merchantId={resolvedMerchantId || null}
+                  orderData={currentOrder.orderData}
+                  selectedCarrier={selectedCarrier}
+                  onSelect={setSelectedCarrier}
+                  onRecommendation={setSelectedCarrier}
+                />
+              )}
+
               {shipmentError && (
                 <Alert className="mt-4" variant="destructive">
                     <svg className="w-6 h-6 text-red-600 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
@@ -2195,6 +2335,24 @@ const handleRefreshItems = async () => {
                 </Alert>
               )}
 
+              {addressAssessment && addressLikelyToFail && !shipmentInfo && (
+                <Alert className="mt-4 border-amber-300 bg-amber-50 text-amber-900">
+                  <AlertTitle>
+                    عنوان العميل قد يؤدي إلى فشل التوصيل ({addressAssessment.score}/100)
+                  </AlertTitle>
+                  <AlertDescription className="text-amber-900">
+                    <ul className="list-disc space-y-1 pr-5">
+                      {addressAssessment.issues
+                        .filter((issue) => issue.severity !== 'info')
+                        .map((issue) => (
+                          <li key={issue.code}>{issue.message}</li>
+                        ))}
+                    </ul>
+                    <p className="mt-2">يُنصح بتأكيد العنوان مع العميل قبل إنشاء بوليصة سمسا.</p>
+                  </AlertDescription>
+                </Alert>
+              )}
+
               <div className="mt-8 md:mt-10 md:sticky md:bottom-0 md:z-40 md:-mx-6 md:px-6">
                 <div className="rounded-2xl border border-gray-200 bg-white/95 p-4 shadow-lg backdrop-blur supports-[backdrop-filter]:bg-white/80 md:rounded-none md:border-x-0 md:border-b-0 md:border-t md:shadow-[0_-12px_30px_rgba(15,23,42,0.12)] md:bg-white/95 md:p-5">
                   <div className="flex flex-col sm:flex-row gap-3">
@@ -2264,19 +2422,32 @@ const handleRefreshItems = async () => {
                           </a>
                         )}
                       </div>
+                    ) : selectedCarrier === 'aramex' && manualAramexHref ? (
+                      <Button
+                        type="button"
+                        onClick={() => window.open(manualAramexHref, '_blank', 'noopener,noreferrer')}
+                        className={`${ACTION_BUTTON_BASE} bg-red-600 hover:bg-red-700 ring-2 ring-emerald-400 ring-offset-2`}
+                      >
+                        إنشاء شحنة أرامكس
+                      </Button>
                     ) : (
                       <Button
                         type="button"
                         onClick={() =>
                           openConfirmationDialog({
                             title: 'تأكيد إنشاء الشحنة',
-                            message: 'سيتم إنشاء شحنة جديدة للطلب الحالي. تأكد من صحة المنتجات والوزن قبل المتابعة.',
-                            confirmLabel: 'نعم، أنشئ الشحنة',
+                            message: addressLikelyToFail
+                              ? 'عنوان العميل ناقص وقد تعود الشحنة دون تسليم (راجع التنبيه أعلاه). هل تريد إنشاء بوليصة سمسا على هذا العنوان؟'
+                              : 'سيتم إنشاء شحنة جديدة للطلب الحالي. تأكد من صحة المنتجات والوزن قبل المتابعة.',
+                            confirmLabel: addressLikelyToFail ? 'نعم، أنشئ الشحنة رغم ذلك' : 'نعم، أنشئ الشحنة',
+                            confirmVariant: addressLikelyToFail ? 'danger' : undefined,
                             onConfirm: handleCreateShipment,
                           })
                         }
                         disabled={creatingShipment || !!shipmentInfo}
-                        className={`${ACTION_BUTTON_BASE} bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed`}
+                        className={`${ACTION_BUTTON_BASE} bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed ${
+                          selectedCarrier === 'smsa' ? 'ring-2 ring-emerald-400 ring-offset-2' : ''
+                        }`}
                       >
                         {creatingShipment ? 'جاري إنشاء الشحنة...' : shipmentInfo ? '✓ تم إنشاء الشحنة' : 'انشاء شحنة'}
                       </Button>
@@ -2293,7 +2464,9 @@ const handleRefreshItems = async () => {
                           loadingAgentSelection ||
                           agentSelectionDialogOpen
                         }
-                        className={`${ACTION_BUTTON_BASE} bg-amber-500 hover:bg-amber-600 text-white disabled:bg-gray-400 disabled:cursor-not-allowed`}
+                        className={`${ACTION_BUTTON_BASE} bg-amber-500 hover:bg-amber-600 text-white disabled:bg-gray-400 disabled:cursor-not-allowed ${
+                          selectedCarrier === 'messenger' ? 'ring-2 ring-emerald-400 ring-offset-2' : ''
+                        }`}
                       >
                         {creatingLocalShipment
                           ? 'جاري إنشاء الشحنة المحلية...'
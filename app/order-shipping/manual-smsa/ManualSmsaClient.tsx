@@ -46,14 +46,21 @@ import {
 } from '@/components/ui/table';
 import type { SallaOrder } from '@/app/lib/salla-api';
 import type {
-  ManualSmsaShipmentItemInput,
-  ManualSmsaShipmentRecord,
-} from '@/app/lib/manual-smsa/types';
+  ManualShipmentItemInput,
+  ManualShipmentRecord,
+} from '@/app/lib/manual-shipments/types';
+import { CARRIER_CODES, type CarrierCode } from '@/app/lib/carriers/types';
+import { assessSaudiAddress, saudiAddressFromOrder } from '@/lib/saudi-address';
 
 const DEFAULT_MERCHANT_ID = process.env.NEXT_PUBLIC_MERCHANT_ID || '';
 const DEFAULT_ITEM_WEIGHT = 0.5;
 
-type DraftShipmentItem = ManualSmsaShipmentItemInput & {
+const CARRIER_LABELS: Record<CarrierCode, string> = {
+  smsa: 'سمسا',
+  aramex: 'أرامكس',
+};
+
+type DraftShipmentItem = ManualShipmentItemInput & {
   clientKey: string;
 };
 
@@ -188,7 +195,7 @@ const ManualSmsaClient = () => {
   const [merchantId, setMerchantId] = useState(DEFAULT_MERCHANT_ID);
   const [orderNumberInput, setOrderNumberInput] = useState('');
   const [order, setOrder] = useState<SallaOrder | null>(null);
-  const [shipments, setShipments] = useState<ManualSmsaShipmentRecord[]>([]);
+  const [shipments, setShipments] = useState<ManualShipmentRecord[]>([]);
   const [draftItems, setDraftItems] = useState<DraftShipmentItem[]>([]);
   const [feedback, setFeedback] = useState<Feedback | null>(null);
   const [loadingOrder, setLoadingOrder] = useState(false);
@@ -197,18 +204,21 @@ const ManualSmsaClient = () => {
   const [skuLookupError, setSkuLookupError] = useState<string | null>(null);
   const [skuLookupLoading, setSkuLookupLoading] = useState(false);
   const [formValues, setFormValues] = useState({
+    carrier: 'smsa' as CarrierCode,
     parcels: '',
     declaredValue: '',
     weight: '',
     codAmount: '',
     contentDescription: '',
   });
-  const [itemEditorShipment, setItemEditorShipment] = useState<ManualSmsaShipmentRecord | null>(null);
+  const [itemEditorShipment, setItemEditorShipment] = useState<ManualShipmentRecord | null>(null);
   const [itemEditorQuantities, setItemEditorQuantities] = useState<Record<number, number>>({});
   const [itemEditorSku, setItemEditorSku] = useState('');
   const [itemEditorSkuQty, setItemEditorSkuQty] = useState('1');
   const [itemEditorError, setItemEditorError] = useState<string | null>(null);
   const [savingItems, setSavingItems] = useState(false);
+  const [prefillHandled, setPrefillHandled] = useState(false);
+  const [recordCarrierSelection, setRecordCarrierSelection] = useState(false);
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -217,6 +227,10 @@ const ManualSmsaClient = () => {
   }, [status, router]);
 
   const addressSummary = useMemo(() => buildAddressSummary(order), [order]);
+  const addressAssessment = useMemo(
+    () => (order ? assessSaudiAddress(saudiAddressFromOrder(order)) : null),
+    [order],
+  );
 
   const totals = useMemo(() => {
     let quantity = 0;
@@ -243,7 +257,7 @@ const ManualSmsaClient = () => {
 
   const selectedItems = useMemo(() => draftItems.filter((item) => Number(item.quantity) > 0), [draftItems]);
 
-  const stripDraftItems = useCallback((): ManualSmsaShipmentItemInput[] => {
+  const stripDraftItems = useCallback((): ManualShipmentItemInput[] => {
     return draftItems.map((item) => {
       const { clientKey, ...rest } = item;
       void clientKey;
@@ -304,19 +318,9 @@ const ManualSmsaClient = () => {
     [],
   );
 
-  const handleSearch = useCallback(
-    async (event: React.FormEvent) => {
-      event.preventDefault();
-      if (!orderNumberInput.trim()) {
-        setFeedback({ type: 'error', message: 'يرجى إدخال رقم الطلب من سلة' });
-        setOrder(null);
-        setShipments([]);
-        return;
-      }
-
-      const params = new URLSearchParams({
-        orderNumber: orderNumberInput.trim(),
-      });
+  const loadOrder = useCallback(
+    async (orderNumber: string) => {
+      const params = new URLSearchParams({ orderNumber });
       if (merchantId.trim()) {
         params.set('merchantId', merchantId.trim());
       }
@@ -338,8 +342,8 @@ const ManualSmsaClient = () => {
         const items = buildDraftItemsFromOrder(loadedOrder);
         setDraftItems(items);
         updateFormWithSuggestions(loadedOrder, items);
-        setFeedback({ type: 'success', message: `تم تحميل الطلب ${orderNumberInput.trim()}` });
-        await fetchShipments(orderNumberInput.trim(), merchantId);
+        setFeedback({ type: 'success', message: `تم تحميل الطلب ${orderNumber}` });
+        await fetchShipments(orderNumber, merchantId);
       } catch (error) {
         console.error('Order lookup failed', error);
         setOrder(null);
@@ -353,9 +357,41 @@ const ManualSmsaClient = () => {
         setLoadingOrder(false);
       }
     },
-    [fetchShipments, merchantId, orderNumberInput, updateFormWithSuggestions],
+    [fetchShipments, merchantId, updateFormWithSuggestions],
+  );
+
+  const handleSearch = useCallback(
+    async (event: React.FormEvent) => {
+      event.preventDefault();
+      if (!orderNumberInput.trim()) {
+        setFeedback({ type: 'error', message: 'يرجى إدخال رقم الطلب من سلة' });
+        setOrder(null);
+        setShipments([]);
+        return;
+      }
+      await loadOrder(orderNumberInput.trim());
+    },
+    [loadOrder, orderNumberInput],
   );
 
+  // Order-shipping links here with ?orderNumber=&carrier= when the recommended
+  // carrier can only be booked from this page.
+  useEffect(() => {
+    if (status !== 'authenticated' || prefillHandled) return;
+    setPrefillHandled(true);
+    const params = new URLSearchParams(window.location.search);
+    const carrierParam = params.get('carrier');
+    if (carrierParam && (CARRIER_CODES as string[]).includes(carrierParam)) {
+      setFormValues((prev) => ({ ...prev, carrier: carrierParam as CarrierCode }));
+      setRecordCarrierSelection(true);
+    }
+    const orderNumberParam = params.get('orderNumber')?.trim();
+    if (orderNumberParam) {
+      setOrderNumberInput(orderNumberParam);
+      void loadOrder(orderNumberParam);
+    }
+  }, [status, prefillHandled, loadOrder]);
+
   const handleItemChange = useCallback(
     (clientKey: string, field: keyof DraftShipmentItem, value: string) => {
       setDraftItems((prev) =>
@@ -388,7 +424,7 @@ const ManualSmsaClient = () => {
   }, []);
 
   const handleOpenItemEditor = useCallback(
-    (shipment: ManualSmsaShipmentRecord) => {
+    (shipment: ManualShipmentRecord) => {
       const defaultQuantities: Record<number, number> = {};
       if (Array.isArray(order?.items)) {
         order.items.forEach((orderItem) => {
@@ -583,6 +619,7 @@ const ManualSmsaClient = () => {
       const payload = {
         merchantId: merchantId || undefined,
         orderNumber: orderNumberInput.trim(),
+        carrier: formValues.carrier,
         items: stripDraftItems(),
         parcels: formValues.parcels || undefined,
         declaredValue: formValues.declaredValue || undefined,
@@ -603,8 +640,22 @@ const ManualSmsaClient = () => {
 
       setFeedback({
         type: 'success',
-        message: `تم إنشاء شحنة جديدة برقم ${data.shipment?.smsaTrackingNumber || ''}`,
+        message: `تم إنشاء شحنة جديدة برقم ${data.shipment?.trackingNumber || ''}`,
       });
+      if (recordCarrierSelection) {
+        setRecordCarrierSelection(false);
+        fetch('/api/shipments/carrier-selections', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            orderId: String(order.id),
+            orderNumber: orderNumberInput.trim(),
+            merchantId: merchantId || null,
+            orderData: order,
+            carrier: formValues.carrier,
+          }),
+        }).catch((error) => console.error('Failed to record carrier selection', error));
+      }
       await fetchShipments(orderNumberInput.trim(), merchantId);
     } catch (error) {
       setFeedback({
@@ -616,6 +667,7 @@ const ManualSmsaClient = () => {
     }
   }, [
     fetchShipments,
+    formValues.carrier,
     formValues.codAmount,
     formValues.contentDescription,
     formValues.declaredValue,
@@ -624,15 +676,16 @@ const ManualSmsaClient = () => {
     merchantId,
     order,
     orderNumberInput,
+    recordCarrierSelection,
     selectedItems,
     stripDraftItems,
   ]);
 
   const handleCancelShipment = useCallback(
-    async (shipment: ManualSmsaShipmentRecord) => {
+    async (shipment: ManualShipmentRecord) => {
       if (!shipment || shipment.cancelledAt) return;
       const confirmCancel = window.confirm(
-        `سيتم طلب إلغاء الشحنة ${shipment.smsaTrackingNumber || shipment.id} من سمسا. هل أنت متأكد؟`,
+        `سيتم طلب إلغاء الشحنة ${shipment.trackingNumber || shipment.id} من ${CARRIER_LABELS[shipment.carrier]}. هل أنت متأكد؟`,
       );
       if (!confirmCancel) return;
 
@@ -663,7 +716,7 @@ const ManualSmsaClient = () => {
     [],
   );
 
-  const handleDeleteShipment = useCallback(async (shipment: ManualSmsaShipmentRecord) => {
+  const handleDeleteShipment = useCallback(async (shipment: ManualShipmentRecord) => {
     if (!shipment.cancelledAt) {
       setFeedback({ type: 'error', message: 'يجب إلغاء الشحنة قبل حذفها' });
       return;
@@ -691,7 +744,7 @@ const ManualSmsaClient = () => {
 
   return (
     <AppPageShell
-      title="إنشاء شحنات SMSA إضافية"
+      title="إنشاء شحنات إضافية"
       subtitle="إنشاء أكثر من شحنة لنفس طلب سلة مع الاحتفاظ بنفس عنوان العميل."
       contentClassName="flex flex-1 flex-col gap-6 p-4 md:p-6"
     >
@@ -789,6 +842,20 @@ const ManualSmsaClient = () => {
                   <span className="font-semibold whitespace-pre-line leading-relaxed">
                     {addressSummary.join('\n')}
                   </span>
+                  {addressAssessment?.likelyToFail && (
+                    <div className="mt-2 rounded-md border border-amber-300 bg-amber-50 p-2 text-xs text-amber-900">
+                      <p className="font-semibold">
+                        العنوان قد يؤدي إلى فشل التوصيل ({addressAssessment.score}/100)
+                      </p>
+                      <ul className="mt-1 list-disc space-y-0.5 pr-4">
+                        {addressAssessment.issues
+                          .filter((issue) => issue.severity !== 'info')
+                          .map((issue) => (
+                            <li key={issue.code}>{issue.message}</li>
+                          ))}
+                      </ul>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -802,6 +869,22 @@ const ManualSmsaClient = () => {
                 <CardDescription>راجع الأوزان والقيم قبل الإرسال</CardDescription>
               </CardHeader>
               <CardContent className="space-y-3">
+                <Field className="gap-2">
+                  <FieldLabel>شركة الشحن</FieldLabel>
+                  <select
+                    value={formValues.carrier}
+                    onChange={(e) =>
+                      setFormValues((prev) => ({ ...prev, carrier: e.target.value as CarrierCode }))
+                    }
+                    className="h-9 w-full rounded-md border bg-background px-3 text-sm"
+                  >
+                    {(Object.keys(CARRIER_LABELS) as CarrierCode[]).map((code) => (
+                      <option key={code} value={code}>
+                        {CARRIER_LABELS[code]}
+                      </option>
+                    ))}
+                  </select>
+                </Field>
                 <div className="grid grid-cols-2 gap-3">
                   <Field className="gap-2">
                     <FieldLabel>عدد القطع</FieldLabel>
@@ -876,7 +959,7 @@ const ManualSmsaClient = () => {
                   ) : (
                     <>
                       <Truck className="mr-2 h-4 w-4" />
-                      إنشاء شحنة SMSA
+                      إنشاء شحنة {CARRIER_LABELS[formValues.carrier]}
                     </>
                   )}
                 </Button>
@@ -1014,7 +1097,7 @@ const ManualSmsaClient = () => {
               {shipments.length === 0 && (
                 <EmptyState
                   title="لا توجد شحنات يدوية"
-                  description="أنشئ شحنة SMSA إضافية من إعدادات الشحنة أعلاه."
+                  description="أنشئ شحنة إضافية من إعدادات الشحنة أعلاه."
                 />
               )}
               {shipments.map((shipment) => (
@@ -1026,7 +1109,7 @@ const ManualSmsaClient = () => {
                     <div>
                       <div className="text-sm text-muted-foreground">رقم التتبع</div>
                       <div className="font-semibold text-lg">
-                        {shipment.smsaTrackingNumber || '—'}
+                        {shipment.trackingNumber || '—'}
                       </div>
                     </div>
                     <div className="flex flex-wrap gap-2 text-sm">
@@ -1045,6 +1128,7 @@ const ManualSmsaClient = () => {
                             ? 'تم الإلغاء'
                             : 'نشطة'}
                       </Badge>
+                      <Badge variant="outline">{CARRIER_LABELS[shipment.carrier]}</Badge>
                       <Badge variant="outline">{formatDateTime(shipment.createdAt)}</Badge>
                     </div>
                   </div>
@@ -1054,9 +1138,9 @@ const ManualSmsaClient = () => {
                     {shipment.codAmount && (
                       <p>تحصيل عند الاستلام: {formatCurrency(shipment.codAmount, shipment.currency)}</p>
                     )}
-                    {shipment.smsaLabelDataUrl && (
+                    {shipment.labelDataUrl && (
                       <a
-                        href={shipment.smsaLabelDataUrl}
+                        href={shipment.labelDataUrl}
                         target="_blank"
                         rel="noreferrer"
                         className="mt-1 inline-flex items-center gap-1 text-primary hover:underline"
@@ -1125,7 +1209,7 @@ const ManualSmsaClient = () => {
               <DialogHeader>
                 <DialogTitle>
                   إضافة منتجات للشحنة{' '}
-                  {itemEditorShipment.smsaTrackingNumber || itemEditorShipment.id}
+                  {itemEditorShipment.trackingNumber || itemEditorShipment.id}
                 </DialogTitle>
                 <DialogDescription>
                   اختر منتجات من الطلب أو أدخل SKU لإبلاغ المستودع بما سيتم شحنه.
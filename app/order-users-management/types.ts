@@ -45,6 +45,7 @@ export interface PrinterProfileConfig {
   label: string;
   location?: string | null;
   paperName?: string | null;
+  labelFormat?: 'pdf' | 'zpl';
   notes?: string | null;
   createdAt: string;
   updatedAt: string;
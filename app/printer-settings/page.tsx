@@ -9,11 +9,13 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Field, FieldGroup, FieldLabel } from '@/components/ui/field';
 import { Input } from '@/components/ui/input';
+import { NativeSelect, NativeSelectOption } from '@/components/ui/native-select';
 import {
   AlertTriangle,
   CheckCircle2,
   Copy,
   Loader2,
+  Pencil,
   Printer,
   RefreshCcw,
   Trash2,
@@ -25,6 +27,7 @@ interface PrinterProfile {
   label: string;
   location?: string | null;
   paperName?: string | null;
+  labelFormat: 'pdf' | 'zpl';
   notes?: string | null;
   createdAt: string;
   updatedAt: string;
@@ -53,6 +56,7 @@ type PrinterFormState = {
   label: string;
   location: string;
   paperName: string;
+  labelFormat: 'pdf' | 'zpl';
   notes: string;
 };
 
@@ -61,6 +65,7 @@ const initialFormState: PrinterFormState = {
   label: '',
   location: '',
   paperName: '',
+  labelFormat: 'pdf',
   notes: '',
 };
 
@@ -134,6 +139,17 @@ export default function PrinterSettingsPage() {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
+  const handleEdit = (profile: PrinterProfile) => {
+    setFormData({
+      printerId: String(profile.printerId),
+      label: profile.label,
+      location: profile.location || '',
+      paperName: profile.paperName || '',
+      labelFormat: profile.labelFormat === 'zpl' ? 'zpl' : 'pdf',
+      notes: profile.notes || '',
+    });
+  };
+
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
     if (!formData.printerId.trim() || !formData.label.trim()) {
@@ -289,6 +305,17 @@ export default function PrinterSettingsPage() {
                   />
                 </Field>
               </div>
+              <Field>
+                <FieldLabel>صيغة الملصقات</FieldLabel>
+                <NativeSelect
+                  className="w-full"
+                  value={formData.labelFormat}
+                  onChange={(e) => handleFormChange('labelFormat', e.target.value)}
+                >
+                  <NativeSelectOption value="pdf">PDF (تحويل إلى صورة عند الطباعة)</NativeSelectOption>
+                  <NativeSelectOption value="zpl">ZPL (طابعات حرارية Zebra بدقة 203dpi)</NativeSelectOption>
+                </NativeSelect>
+              </Field>
               <Field>
                 <FieldLabel>ملاحظات</FieldLabel>
                 <Input
@@ -338,9 +365,16 @@ export default function PrinterSettingsPage() {
                           <p className="text-xs">معرف: {profile.printerId}</p>
                           {profile.location && <p className="text-xs">الموقع: {profile.location}</p>}
                           {profile.paperName && <p className="text-xs">الورق: {profile.paperName}</p>}
+                          <p className="text-xs">
+                            صيغة الملصقات: <Badge variant="outline">{profile.labelFormat === 'zpl' ? 'ZPL' : 'PDF'}</Badge>
+                          </p>
                           {profile.notes && <p className="text-xs">ملاحظات: {profile.notes}</p>}
                         </div>
                         <div className="flex flex-col gap-2">
+                          <Button type="button" variant="outline" onClick={() => handleEdit(profile)}>
+                            <Pencil className="h-4 w-4" />
+                            تعديل
+                          </Button>
                           <Button
                             type="button"
                             variant="outline"
@@ -417,6 +451,7 @@ export default function PrinterSettingsPage() {
                           label: prev.label || printer.name,
                           location: prev.location || printer.computer?.name || printer.computer?.hostname || '',
                           paperName: prev.paperName || printer.default?.paperName || printer.default?.paper || '',
+                          labelFormat: prev.labelFormat,
                           notes: prev.notes,
                         }))
                       }
@@ -3,7 +3,7 @@ import Image from 'next/image';
 import Link from 'next/link';
 import { prisma } from '@/lib/prisma';
 import { getSallaOrder, type SallaOrder } from '@/app/lib/salla-api';
-import { trackC2BShipment } from '@/app/lib/smsa-api';
+import { getCarrierAdapter } from '@/app/lib/carriers';
 import {
   STATUS_LABELS,
   STATUS_COLORS,
@@ -88,8 +88,8 @@ async function getReturnRequestWithOrder(id: string) {
 
   if (!smsaLabelBase64 && returnRequest.smsaAwbNumber) {
     try {
-      const latestLabel = await trackC2BShipment(returnRequest.smsaAwbNumber);
-      smsaLabelBase64 = extractSmsaLabelBase64(latestLabel);
+      const latestLabel = await getCarrierAdapter('smsa').label(returnRequest.smsaAwbNumber, { kind: 'return' });
+      smsaLabelBase64 = latestLabel?.base64 ?? null;
     } catch (error) {
       console.error('Failed to fetch SMSA return label', {
         returnRequestId: returnRequest.id,
@@ -7,11 +7,90 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Field, FieldDescription, FieldGroup, FieldLabel } from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { NativeSelect, NativeSelectOption } from '@/components/ui/native-select';
 import { Switch } from '@/components/ui/switch';
+import {
+  DEFAULT_SMS_FALLBACK_SETTINGS,
+  FALLBACK_MESSAGE_TYPES,
+  FALLBACK_MESSAGE_TYPE_LABELS,
+  formatSmsFallbackRule,
+  parseSmsFallbackRule,
+  smsFallbackSettingKey,
+} from '@/app/lib/message-channel-fallback';
+
+const SLA_SETTINGS = [
+  {
+    key: 'order_prep_sla_assigned_minutes',
+    label: 'مهلة بدء التجهيز بعد التعيين',
+    description: 'تصعيد الطلب إذا لم يبدأ تجهيزه خلال هذه المدة',
+    defaultValue: '30',
+  },
+  {
+    key: 'order_prep_sla_preparing_minutes',
+    label: 'مهلة إنهاء التجهيز',
+    description: 'تصعيد الطلب إذا بقي قيد التجهيز أكثر من هذه المدة',
+    defaultValue: '120',
+  },
+  {
+    key: 'order_prep_sla_waiting_minutes',
+    label: 'مهلة الانتظار',
+    description: 'تصعيد الطلب إذا بقي بحالة انتظار أكثر من هذه المدة',
+    defaultValue: '1440',
+  },
+  {
+    key: 'order_prep_sla_release_minutes',
+    label: 'إعادة الطلب غير المبدوء للتوزيع',
+    description: 'سحب الطلب من المجهز وإعادته للقائمة إذا لم يبدأه خلال هذه المدة',
+    defaultValue: '60',
+  },
+  {
+    key: 'order_prep_sla_priority_minutes',
+    label: 'مهلة تعيين الطلبات عالية الأولوية',
+    description: 'تصعيد الطلب عالي الأولوية إذا لم يُعيَّن لأي مجهز خلال هذه المدة',
+    defaultValue: '15',
+  },
+  {
+    key: 'order_shortage_purchase_request_hours',
+    label: 'طلب شراء للنواقص غير المتوفرة (بالساعات)',
+    description: 'إنشاء طلب شراء تلقائي للمنتج إذا بقي ناقصاً بعد هذه المدة، 0 لإيقاف الطلب التلقائي',
+    defaultValue: '48',
+  },
+] as const;
+
+const SHIPMENT_EXCEPTION_SETTINGS = [
+  {
+    key: 'shipment_exception_no_scan_days',
+    label: 'أيام بدون حركة قبل اعتبار الشحنة متعثرة',
+    description: 'رفع الشحنة لقائمة الشحنات المتعثرة إذا لم تسجل سمسا أي حركة خلال هذه المدة',
+    defaultValue: '3',
+  },
+  {
+    key: 'shipment_exception_failed_attempts',
+    label: 'عدد محاولات التسليم الفاشلة',
+    description: 'رفع الشحنة عند بلوغ هذا العدد من محاولات التسليم غير الناجحة',
+    defaultValue: '2',
+  },
+] as const;
+
+const smsFallbackMode = (value: string) =>
+  value === 'off' || value === 'failed' ? value : 'undelivered';
 
 export default function SettingsPage() {
   const [allowMultipleRequests, setAllowMultipleRequests] = useState(false);
   const [zokoWebhookProcessingEnabled, setZokoWebhookProcessingEnabled] = useState(true);
+  const [scanVerificationEnabled, setScanVerificationEnabled] = useState(false);
+  const [slaMinutes, setSlaMinutes] = useState<Record<string, string>>(() =>
+    Object.fromEntries(SLA_SETTINGS.map((setting) => [setting.key, setting.defaultValue])),
+  );
+  const [exceptionThresholds, setExceptionThresholds] = useState<Record<string, string>>(() =>
+    Object.fromEntries(SHIPMENT_EXCEPTION_SETTINGS.map((setting) => [setting.key, setting.defaultValue])),
+  );
+  const [addressWhatsAppEnabled, setAddressWhatsAppEnabled] = useState(false);
+  const [maxDeliveryAttempts, setMaxDeliveryAttempts] = useState('3');
+  const [smsFallback, setSmsFallback] = useState<Record<string, string>>(() => ({
+    ...DEFAULT_SMS_FALLBACK_SETTINGS,
+  }));
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
@@ -27,9 +106,12 @@ export default function SettingsPage() {
     setError('');
 
     try {
-      const [multipleResponse, zokoResponse] = await Promise.all([
+      const [multipleResponse, zokoResponse, scanResponse, addressResponse, attemptsResponse] = await Promise.all([
         fetch('/api/settings?key=allow_multiple_return_requests'),
         fetch('/api/settings?key=zoko_webhook_processing_enabled'),
+        fetch('/api/settings?key=order_prep_scan_verification_enabled'),
+        fetch('/api/settings?key=shipment_exception_address_whatsapp_enabled'),
+        fetch('/api/settings?key=local_delivery_max_attempts'),
       ]);
 
       if (multipleResponse.ok) {
@@ -45,6 +127,57 @@ export default function SettingsPage() {
           setZokoWebhookProcessingEnabled(zokoData.setting.value !== 'false');
         }
       }
+
+      if (scanResponse.ok) {
+        const scanData = await scanResponse.json();
+        if (scanData.setting) {
+          setScanVerificationEnabled(scanData.setting.value === 'true');
+        }
+      }
+
+      if (addressResponse.ok) {
+        const addressData = await addressResponse.json();
+        if (addressData.setting) {
+          setAddressWhatsAppEnabled(addressData.setting.value === 'true');
+        }
+      }
+
+      if (attemptsResponse.ok) {
+        const attemptsData = await attemptsResponse.json();
+        if (attemptsData.setting) {
+          setMaxDeliveryAttempts(attemptsData.setting.value);
+        }
+      }
+
+      const slaEntries = await Promise.all(
+        SLA_SETTINGS.map(async (setting) => {
+          const response = await fetch(`/api/settings?key=${setting.key}`);
+          if (!response.ok) return [setting.key, setting.defaultValue] as const;
+          const data = await response.json();
+          return [setting.key, data.setting?.value ?? setting.defaultValue] as const;
+        }),
+      );
+      setSlaMinutes(Object.fromEntries(slaEntries));
+
+      const exceptionEntries = await Promise.all(
+        SHIPMENT_EXCEPTION_SETTINGS.map(async (setting) => {
+          const response = await fetch(`/api/settings?key=${setting.key}`);
+          if (!response.ok) return [setting.key, setting.defaultValue] as const;
+          const data = await response.json();
+          return [setting.key, data.setting?.value ?? setting.defaultValue] as const;
+        }),
+      );
+      setExceptionThresholds(Object.fromEntries(exceptionEntries));
+
+      const fallbackEntries = await Promise.all(
+        FALLBACK_MESSAGE_TYPES.map(async (type) => {
+          const response = await fetch(`/api/settings?key=${smsFallbackSettingKey(type)}`);
+          if (!response.ok) return [type, DEFAULT_SMS_FALLBACK_SETTINGS[type]] as const;
+          const data = await response.json();
+          return [type, data.setting?.value ?? DEFAULT_SMS_FALLBACK_SETTINGS[type]] as const;
+        }),
+      );
+      setSmsFallback(Object.fromEntries(fallbackEntries));
     } catch (err) {
       console.error('Failed to load settings:', err);
     } finally {
@@ -72,6 +205,42 @@ export default function SettingsPage() {
           description: 'معالجة رسائل وأحداث Zoko الواردة من الويب هوك',
           errorMessage: 'فشل حفظ إعدادات Zoko',
         },
+        {
+          key: 'order_prep_scan_verification_enabled',
+          value: scanVerificationEnabled.toString(),
+          description: 'إلزام مسح باركود كل منتج قبل إنهاء تجهيز الطلب',
+          errorMessage: 'فشل حفظ إعدادات تجهيز الطلبات',
+        },
+        ...SLA_SETTINGS.map((setting) => ({
+          key: setting.key,
+          value: String(Math.max(0, Number.parseInt(slaMinutes[setting.key], 10) || 0)),
+          description: setting.description,
+          errorMessage: 'فشل حفظ مهل تجهيز الطلبات',
+        })),
+        {
+          key: 'shipment_exception_address_whatsapp_enabled',
+          value: addressWhatsAppEnabled.toString(),
+          description: 'إرسال طلب تأكيد العنوان للعميل عبر واتساب تلقائياً عند مشكلة عنوان في سمسا',
+          errorMessage: 'فشل حفظ إعدادات الشحنات المتعثرة',
+        },
+        ...SHIPMENT_EXCEPTION_SETTINGS.map((setting) => ({
+          key: setting.key,
+          value: String(Math.max(0, Number.parseInt(exceptionThresholds[setting.key], 10) || 0)),
+          description: setting.description,
+          errorMessage: 'فشل حفظ إعدادات الشحنات المتعثرة',
+        })),
+        {
+          key: 'local_delivery_max_attempts',
+          value: String(Math.max(1, Number.parseInt(maxDeliveryAttempts, 10) || 1)),
+          description: 'عدد محاولات التوصيل بالمندوب قبل إرجاع الشحنة للمستودع',
+          errorMessage: 'فشل حفظ إعدادات التوصيل بالمندوب',
+        },
+        ...FALLBACK_MESSAGE_TYPES.map((type) => ({
+          key: smsFallbackSettingKey(type),
+          value: formatSmsFallbackRule(parseSmsFallbackRule(smsFallback[type])),
+          description: `بديل SMS لرسالة ${FALLBACK_MESSAGE_TYPE_LABELS[type]}`,
+          errorMessage: 'فشل حفظ إعدادات بديل SMS',
+        })),
       ];
 
       for (const setting of requests) {
@@ -169,6 +338,190 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Order Prep Settings */}
+        <Card className="rounded-lg">
+          <CardHeader>
+            <CardTitle>إعدادات تجهيز الطلبات</CardTitle>
+            <CardDescription>
+              تحكم بطريقة التحقق من المنتجات أثناء التجهيز ومهل التصعيد بالدقائق (0 لتعطيل المهلة).
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <FieldGroup>
+              <Field orientation="horizontal" className="justify-between rounded-lg border p-4">
+                <div>
+                  <FieldLabel htmlFor="scanVerification">التحقق بالمسح قبل إنهاء الطلب</FieldLabel>
+                  <FieldDescription>
+                    عند التفعيل، يجب مسح باركود كل قطعة في الطلب ولن يُسمح بإنهائه قبل اكتمال المسح
+                  </FieldDescription>
+                </div>
+                <Switch
+                  id="scanVerification"
+                  checked={scanVerificationEnabled}
+                  onCheckedChange={setScanVerificationEnabled}
+                  disabled={loading || saving}
+                />
+              </Field>
+              {SLA_SETTINGS.map((setting) => (
+                <Field key={setting.key} orientation="horizontal" className="justify-between rounded-lg border p-4">
+                  <div>
+                    <FieldLabel htmlFor={setting.key}>{setting.label}</FieldLabel>
+                    <FieldDescription>{setting.description}</FieldDescription>
+                  </div>
+                  <Input
+                    id={setting.key}
+                    type="number"
+                    min={0}
+                    dir="ltr"
+                    className="w-28"
+                    value={slaMinutes[setting.key] ?? ''}
+                    onChange={(event) =>
+                      setSlaMinutes((prev) => ({ ...prev, [setting.key]: event.target.value }))
+                    }
+                    disabled={loading || saving}
+                  />
+                </Field>
+              ))}
+            </FieldGroup>
+          </CardContent>
+        </Card>
+
+        {/* Shipment Exception Settings */}
+        <Card className="rounded-lg">
+          <CardHeader>
+            <CardTitle>إعدادات الشحنات المتعثرة</CardTitle>
+            <CardDescription>
+              متى يرفع الفحص الدوري لحركات سمسا الشحنة إلى قائمة الشحنات المتعثرة (0 لتعطيل الشرط).
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <FieldGroup>
+              {SHIPMENT_EXCEPTION_SETTINGS.map((setting) => (
+                <Field key={setting.key} orientation="horizontal" className="justify-between rounded-lg border p-4">
+                  <div>
+                    <FieldLabel htmlFor={setting.key}>{setting.label}</FieldLabel>
+                    <FieldDescription>{setting.description}</FieldDescription>
+                  </div>
+                  <Input
+                    id={setting.key}
+                    type="number"
+                    min={0}
+                    dir="ltr"
+                    className="w-28"
+                    value={exceptionThresholds[setting.key] ?? ''}
+                    onChange={(event) =>
+                      setExceptionThresholds((prev) => ({ ...prev, [setting.key]: event.target.value }))
+                    }
+                    disabled={loading || saving}
+                  />
+                </Field>
+              ))}
+              <Field orientation="horizontal" className="justify-between rounded-lg border p-4">
+                <div>
+                  <FieldLabel htmlFor="addressWhatsApp">طلب تأكيد العنوان تلقائياً</FieldLabel>
+                  <FieldDescription>
+                    عند التفعيل، تُرسل للعميل رسالة واتساب لتأكيد عنوانه فور تسجيل سمسا مشكلة في العنوان
+                  </FieldDescription>
+                </div>
+                <Switch
+                  id="addressWhatsApp"
+                  checked={addressWhatsAppEnabled}
+                  onCheckedChange={setAddressWhatsAppEnabled}
+                  disabled={loading || saving}
+                />
+              </Field>
+            </FieldGroup>
+          </CardContent>
+        </Card>
+
+        {/* Local Delivery Settings */}
+        <Card className="rounded-lg">
+          <CardHeader>
+            <CardTitle>إعدادات التوصيل بالمندوب</CardTitle>
+            <CardDescription>
+              عند فشل التوصيل تُنشأ محاولة جديدة للمندوب ويُبلغ العميل عبر واتساب حتى استنفاد المحاولات.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <FieldGroup>
+              <Field orientation="horizontal" className="justify-between rounded-lg border p-4">
+                <div>
+                  <FieldLabel htmlFor="local_delivery_max_attempts">عدد محاولات التوصيل</FieldLabel>
+                  <FieldDescription>
+                    يشمل المحاولة الأولى؛ بعد آخر محاولة فاشلة تعود الشحنة للمستودع ويُعاد المخزون
+                  </FieldDescription>
+                </div>
+                <Input
+                  id="local_delivery_max_attempts"
+                  type="number"
+                  min={1}
+                  dir="ltr"
+                  className="w-28"
+                  value={maxDeliveryAttempts}
+                  onChange={(event) => setMaxDeliveryAttempts(event.target.value)}
+                  disabled={loading || saving}
+                />
+              </Field>
+            </FieldGroup>
+          </CardContent>
+        </Card>
+
+        {/* SMS Fallback Settings */}
+        <Card className="rounded-lg">
+          <CardHeader>
+            <CardTitle>بديل SMS لرسائل واتساب</CardTitle>
+            <CardDescription>
+              إعادة إرسال نفس المحتوى برسالة SMS عبر مسجات إذا رفض واتساب الرسالة أو لم يؤكد تسليمها خلال المدة المحددة.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <FieldGroup>
+              {FALLBACK_MESSAGE_TYPES.map((type) => {
+                const value = smsFallback[type] ?? DEFAULT_SMS_FALLBACK_SETTINGS[type];
+                const mode = smsFallbackMode(value);
+                return (
+                  <Field key={type} orientation="horizontal" className="justify-between rounded-lg border p-4">
+                    <FieldLabel htmlFor={`sms-fallback-${type}`}>{FALLBACK_MESSAGE_TYPE_LABELS[type]}</FieldLabel>
+                    <div className="flex items-center gap-2">
+                      <NativeSelect
+                        id={`sms-fallback-${type}`}
+                        value={mode}
+                        onChange={(event) => {
+                          const nextMode = event.target.value;
+                          setSmsFallback((prev) => ({
+                            ...prev,
+                            [type]: nextMode === 'undelivered' ? '15' : nextMode,
+                          }));
+                        }}
+                        disabled={loading || saving}
+                      >
+                        <NativeSelectOption value="off">بدون بديل</NativeSelectOption>
+                        <NativeSelectOption value="failed">عند فشل واتساب</NativeSelectOption>
+                        <NativeSelectOption value="undelivered">عند الفشل أو عدم التسليم خلال</NativeSelectOption>
+                      </NativeSelect>
+                      {mode === 'undelivered' && (
+                        <Input
+                          aria-label={`دقائق انتظار تسليم ${FALLBACK_MESSAGE_TYPE_LABELS[type]}`}
+                          type="number"
+                          min={1}
+                          dir="ltr"
+                          className="w-20"
+                          value={value}
+                          onChange={(event) =>
+                            setSmsFallback((prev) => ({ ...prev, [type]: event.target.value }))
+                          }
+                          disabled={loading || saving}
+                        />
+                      )}
+                      {mode === 'undelivered' && <span className="text-sm text-muted-foreground">دقيقة</span>}
+                    </div>
+                  </Field>
+                );
+              })}
+            </FieldGroup>
+          </CardContent>
+        </Card>
+
         {error && (
           <Alert variant="destructive">
             <AlertDescription>{error}</AlertDescription>
@@ -0,0 +1,314 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { FileDown, Loader2, RefreshCw } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { EmptyState } from '@/components/dashboard/states';
+import { Field, FieldLabel } from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { NativeSelect, NativeSelectOption } from '@/components/ui/native-select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  COD_AGEING_BUCKETS,
+  COD_RECONCILIATION_STATUS_LABELS,
+  DEFAULT_RECONCILIATION_DAYS,
+  DEFAULT_REMITTANCE_GRACE_DAYS,
+  type CodAgeingBucket,
+  type CodReconciliationStatus,
+} from '@/app/lib/cod-reconciliation';
+
+interface ReconciliationLine {
+  awbNumber: string;
+  orderNumber: string | null;
+  status: CodReconciliationStatus;
+  expectedAmount: number;
+  remittedAmount: number;
+  varianceAmount: number;
+  remittanceCount: number;
+  deliveredAt: string | null;
+  lastRemittedAt: string | null;
+  ageDays: number;
+}
+
+interface ReconciliationReport {
+  asOf: string;
+  lines: ReconciliationLine[];
+  summary: {
+    statusCounts: Record<CodReconciliationStatus, number>;
+    expectedAmount: number;
+    remittedAmount: number;
+    claimAmount: number;
+    overRemittedAmount: number;
+    ageing: Record<CodAgeingBucket, { count: number; amount: number }>;
+  };
+}
+
+type StatusFilter = 'issues' | 'all' | CodReconciliationStatus;
+
+const STATUS_VARIANTS: Record<CodReconciliationStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  matched: 'default',
+  short: 'destructive',
+  missing: 'destructive',
+  over: 'secondary',
+  duplicate: 'secondary',
+  pending: 'outline',
+};
+
+const ISSUE_STATUSES: CodReconciliationStatus[] = ['short', 'missing', 'over', 'duplicate'];
+
+const formatAmount = (value: number) =>
+  new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+
+const formatDate = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleDateString('ar-SA-u-ca-gregory-nu-latn', { year: 'numeric', month: 'short', day: 'numeric' })
+    : '-';
+
+/**
+ * SMSA COD reconciliation on the settlements page: expected COD per delivered
+ * AWB against the uploaded settlement files, with the claims export for the
+ * carrier. Reloads whenever `refreshKey` changes (after an upload).
+ */
+export default function CodReconciliationPanel({ refreshKey }: { refreshKey: number }) {
+  const [days, setDays] = useState(String(DEFAULT_RECONCILIATION_DAYS));
+  const [graceDays, setGraceDays] = useState(String(DEFAULT_REMITTANCE_GRACE_DAYS));
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('issues');
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const query = useMemo(() => new URLSearchParams({ days, graceDays }).toString(), [days, graceDays]);
+  // The window in the inputs only applies when "مطابقة" is pressed.
+  const [appliedQuery, setAppliedQuery] = useState(query);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await fetch(`/api/settlements/cod-reconciliation?${appliedQuery}`);
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(payload.error || 'تعذر مطابقة مبالغ التحصيل');
+      }
+      setReport(payload);
+    } catch (loadError: any) {
+      setError(loadError.message || 'تعذر مطابقة مبالغ التحصيل');
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedQuery]);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const handleReconcile = () => {
+    if (query === appliedQuery) {
+      load();
+    } else {
+      setAppliedQuery(query);
+    }
+  };
+
+  const lines = useMemo(() => {
+    if (!report) return [];
+    if (statusFilter === 'all') return report.lines;
+    if (statusFilter === 'issues') return report.lines.filter((line) => ISSUE_STATUSES.includes(line.status));
+    return report.lines.filter((line) => line.status === statusFilter);
+  }, [report, statusFilter]);
+
+  const summary = report?.summary;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>مطابقة تحصيل سمسا</CardTitle>
+        <CardDescription>
+          يقارن مبلغ الدفع عند الاستلام لكل شحنة سمسا مسلّمة بما حوّلته سمسا في ملفات التسوية المرفوعة، حسب رقم
+          الشحنة (AWB).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col gap-4 md:flex-row md:items-end">
+          <Field className="md:w-40">
+            <FieldLabel htmlFor="cod-reconciliation-days">الشحنات المسلّمة خلال (يوم)</FieldLabel>
+            <Input
+              id="cod-reconciliation-days"
+              type="number"
+              min={1}
+              max={365}
+              value={days}
+              onChange={(event) => setDays(event.target.value)}
+            />
+          </Field>
+          <Field className="md:w-40">
+            <FieldLabel htmlFor="cod-reconciliation-grace">مهلة التحويل (يوم)</FieldLabel>
+            <Input
+              id="cod-reconciliation-grace"
+              type="number"
+              min={0}
+              max={365}
+              value={graceDays}
+              onChange={(event) => setGraceDays(event.target.value)}
+            />
+          </Field>
+          <Field className="md:w-48">
+            <FieldLabel htmlFor="cod-reconciliation-status">عرض</FieldLabel>
+            <NativeSelect
+              id="cod-reconciliation-status"
+              value={statusFilter}
+              onChange={(event) => setStatusFilter(event.target.value as StatusFilter)}
+            >
+              <NativeSelectOption value="issues">الفروقات فقط</NativeSelectOption>
+              <NativeSelectOption value="all">كل الشحنات</NativeSelectOption>
+              {(Object.keys(COD_RECONCILIATION_STATUS_LABELS) as CodReconciliationStatus[]).map((status) => (
+                <NativeSelectOption key={status} value={status}>
+                  {COD_RECONCILIATION_STATUS_LABELS[status]}
+                </NativeSelectOption>
+              ))}
+            </NativeSelect>
+          </Field>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleReconcile} disabled={loading}>
+              {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+              مطابقة
+            </Button>
+            {summary && summary.statusCounts.short + summary.statusCounts.missing > 0 && (
+              <Button asChild>
+                <a href={`/api/settlements/cod-reconciliation/export?${appliedQuery}`}>
+                  <FileDown className="h-4 w-4" />
+                  تصدير المطالبات
+                </a>
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {summary && (
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="rounded-lg border p-4">
+              <p className="text-sm text-gray-500">المتوقع تحصيله</p>
+              <p className="text-2xl font-bold text-gray-900">{formatAmount(summary.expectedAmount)}</p>
+            </div>
+            <div className="rounded-lg border p-4">
+              <p className="text-sm text-gray-500">المحوّل من سمسا</p>
+              <p className="text-2xl font-bold text-emerald-600">{formatAmount(summary.remittedAmount)}</p>
+            </div>
+            <div className="rounded-lg border p-4">
+              <p className="text-sm text-gray-500">
+                مطالبات ({summary.statusCounts.short + summary.statusCounts.missing})
+              </p>
+              <p className="text-2xl font-bold text-rose-600">{formatAmount(summary.claimAmount)}</p>
+            </div>
+            <div className="rounded-lg border p-4">
+              <p className="text-sm text-gray-500">
+                محوّل بالزيادة ({summary.statusCounts.over + summary.statusCounts.duplicate})
+              </p>
+              <p className="text-2xl font-bold text-amber-600">{formatAmount(summary.overRemittedAmount)}</p>
+            </div>
+          </div>
+        )}
+
+        {summary && (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>عمر المطالبة (يوم)</TableHead>
+                  {COD_AGEING_BUCKETS.map((bucket) => (
+                    <TableHead key={bucket}>{bucket}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow>
+                  <TableCell className="font-medium">عدد الشحنات / المبلغ</TableCell>
+                  {COD_AGEING_BUCKETS.map((bucket) => (
+                    <TableCell key={bucket}>
+                      {summary.ageing[bucket].count} / {formatAmount(summary.ageing[bucket].amount)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {report && (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>رقم الشحنة</TableHead>
+                  <TableHead>رقم الطلب</TableHead>
+                  <TableHead>تاريخ التسليم</TableHead>
+                  <TableHead>المتوقع</TableHead>
+                  <TableHead>المحوّل</TableHead>
+                  <TableHead>الفرق</TableHead>
+                  <TableHead>العمر</TableHead>
+                  <TableHead>الحالة</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8}>
+                      <EmptyState title="لا توجد شحنات" description="لا توجد فروقات في الفترة المحددة." />
+                    </TableCell>
+                  </TableRow>
+                )}
+                {lines.map((line) => (
+                  <TableRow key={line.awbNumber}>
+                    <TableCell className="font-mono">{line.awbNumber}</TableCell>
+                    <TableCell>{line.orderNumber || '-'}</TableCell>
+                    <TableCell>{formatDate(line.deliveredAt)}</TableCell>
+                    <TableCell>{formatAmount(line.expectedAmount)}</TableCell>
+                    <TableCell>
+                      {formatAmount(line.remittedAmount)}
+                      {line.remittanceCount > 1 && (
+                        <span className="text-xs text-gray-500"> ({line.remittanceCount} مرات)</span>
+                      )}
+                    </TableCell>
+                    <TableCell
+                      className={
+                        line.varianceAmount < 0
+                          ? 'text-rose-600'
+                          : line.varianceAmount > 0
+                            ? 'text-amber-600'
+                            : undefined
+                      }
+                    >
+                      {formatAmount(line.varianceAmount)}
+                    </TableCell>
+                    <TableCell>{line.ageDays}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[line.status]}>
+                        {COD_RECONCILIATION_STATUS_LABELS[line.status]}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -19,6 +19,7 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import CodReconciliationPanel from './CodReconciliationPanel';
 
 type ProviderOption = {
   value: 'salla' | 'smsa' | 'tabby' | 'tamara';
@@ -112,6 +113,7 @@ export default function SettlementsPage() {
   const [uploads, setUploads] = useState<SettlementUpload[]>([]);
   const [recentSettlements, setRecentSettlements] = useState<RecentSettlement[]>([]);
   const [unmatchedSamples, setUnmatchedSamples] = useState<UnmatchedSample[]>([]);
+  const [reconciliationKey, setReconciliationKey] = useState(0);
   const [selectedFiles, setSelectedFiles] = useState<FileList | null>(null);
   const [uploading, setUploading] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
@@ -194,6 +196,7 @@ export default function SettlementsPage() {
       setUploadSummaries(payload.uploads || []);
       setSelectedFiles(null);
       (event.target as HTMLFormElement).reset();
+      setReconciliationKey((key) => key + 1);
       await fetchData();
     } catch (error: any) {
       console.error('Upload failed', error);
@@ -220,6 +223,7 @@ export default function SettlementsPage() {
       }
 
       alert('تم حذف الملف وجميع السجلات المرتبطة به');
+      setReconciliationKey((key) => key + 1);
       await fetchData();
     } catch (error: any) {
       console.error('Failed to delete upload', error);
@@ -545,6 +549,10 @@ export default function SettlementsPage() {
           </Card>
         </section>
 
+        <section>
+          <CodReconciliationPanel refreshKey={reconciliationKey} />
+        </section>
+
         <section>
           <Card>
             <CardHeader>
@@ -22,6 +22,9 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { useToast } from '@/components/ui/use-toast';
+import { DeliveryRouteCard } from '@/components/local-shipping/DeliveryRouteCard';
+import { DeliveryProofDialog } from '@/components/local-shipping/DeliveryProofDialog';
+import { ReturningShipmentsCard } from '@/components/local-shipping/ReturningShipmentsCard';
 
 const ASSIGNMENTS_PAGE_LIMIT = 200;
 
@@ -57,6 +60,8 @@ interface Assignment {
   id: string;
   status: string;
   assignedAt: string;
+  deliveryProofUrl: string | null;
+  recipientSignature: string | null;
   shipment: LocalShipment;
   deliveryAgent: DeliveryAgent;
 }
@@ -80,6 +85,8 @@ export default function ShipmentAssignmentsPage() {
   const [transferTargetAgentId, setTransferTargetAgentId] = useState('');
   const [selectedTransferAssignments, setSelectedTransferAssignments] = useState<string[]>([]);
   const [transferLoading, setTransferLoading] = useState(false);
+  const [routeAgentId, setRouteAgentId] = useState('');
+  const [proofAssignmentId, setProofAssignmentId] = useState<string | null>(null);
   const primaryRole = (session?.user as any)?.role as string | undefined;
   const userRoles: string[] = (session?.user as any)?.roles || (primaryRole ? [primaryRole] : []);
   const isAdmin = primaryRole === 'admin';
@@ -699,6 +706,15 @@ export default function ShipmentAssignmentsPage() {
                               إلغاء
                             </Button>
                           )}
+                          {(assignment.deliveryProofUrl || assignment.recipientSignature) && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setProofAssignmentId(assignment.id)}
+                            >
+                              إثبات التسليم
+                            </Button>
+                          )}
                         </TableCell>
                       </TableRow>
                     );
@@ -722,7 +738,37 @@ export default function ShipmentAssignmentsPage() {
 	          </div>
 	          </CardContent>
 	        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>مسار المندوب</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Field className="md:max-w-sm">
+              <FieldLabel>المندوب</FieldLabel>
+              <NativeSelect value={routeAgentId} onChange={(e) => setRouteAgentId(e.target.value)}>
+                <NativeSelectOption value="">اختر مندوب</NativeSelectOption>
+                {deliveryAgents.map((agent) => (
+                  <NativeSelectOption key={agent.id} value={agent.id}>
+                    {agent.name}
+                  </NativeSelectOption>
+                ))}
+              </NativeSelect>
+            </Field>
+            {routeAgentId && <DeliveryRouteCard agentId={routeAgentId} refreshKey={assignments.length} />}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>شحنات عائدة للمستودع</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ReturningShipmentsCard refreshKey={assignments.length} />
+          </CardContent>
+        </Card>
       </div>
+      <DeliveryProofDialog assignmentId={proofAssignmentId} onClose={() => setProofAssignmentId(null)} />
     </AppPageShell>
   );
 }
@@ -0,0 +1,381 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { Loader2, MessageCircle, RefreshCcw, Search } from 'lucide-react';
+import { EmptyState, LoadingState } from '@/components/dashboard/states';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { NativeSelect, NativeSelectOption } from '@/components/ui/native-select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  SHIPMENT_EXCEPTION_LABELS,
+  SHIPMENT_EXCEPTION_TYPES,
+  type ShipmentExceptionType,
+} from '@/app/lib/shipment-exceptions';
+
+interface ShipmentExceptionRecord {
+  id: string;
+  awb: string;
+  reference: string | null;
+  type: ShipmentExceptionType;
+  status: 'open' | 'resolved';
+  detail: string | null;
+  evidenceAt: string;
+  ownerId: string | null;
+  ownerName: string | null;
+  resolutionNote: string | null;
+  resolvedAt: string | null;
+  resolvedByName: string | null;
+  autoResolved: boolean;
+  customerContactedAt: string | null;
+  createdAt: string;
+  shipment: {
+    recipientName: string | null;
+    destinationCity: string | null;
+    codAmount: number | null;
+  };
+}
+
+interface OwnerOption {
+  id: string;
+  name: string;
+  username: string;
+}
+
+type StatusFilter = 'open' | 'resolved' | 'all';
+
+const STATUS_TABS: [StatusFilter, string][] = [
+  ['open', 'مفتوحة'],
+  ['resolved', 'مغلقة'],
+  ['all', 'الكل'],
+];
+
+// Asking for the address only makes sense while SMSA is still trying to deliver.
+const ADDRESS_REQUEST_TYPES: ShipmentExceptionType[] = ['address_issue', 'failed_attempts', 'no_scan'];
+
+const TYPE_BADGE_CLASSES: Record<ShipmentExceptionType, string> = {
+  no_scan: 'bg-slate-100 text-slate-700',
+  failed_attempts: 'bg-amber-100 text-amber-800',
+  returned_to_shipper: 'bg-rose-100 text-rose-700',
+  address_issue: 'bg-orange-100 text-orange-800',
+};
+
+const formatDateTime = (value: string | null) => {
+  if (!value) return '—';
+  return new Date(value).toLocaleString('ar-SA', { hour12: false });
+};
+
+const daysSince = (value: string) => Math.max(0, Math.floor((Date.now() - new Date(value).getTime()) / 86_400_000));
+
+export default function ShipmentExceptionsClient() {
+  const { data: session, status } = useSession();
+  const { toast } = useToast();
+  const [exceptions, setExceptions] = useState<ShipmentExceptionRecord[]>([]);
+  const [owners, setOwners] = useState<OwnerOption[]>([]);
+  const [openCounts, setOpenCounts] = useState<Partial<Record<ShipmentExceptionType, number>>>({});
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('open');
+  const [typeFilter, setTypeFilter] = useState<ShipmentExceptionType | ''>('');
+  const [mineOnly, setMineOnly] = useState(false);
+  const [search, setSearch] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const currentUserId = (session?.user as any)?.id as string | undefined;
+
+  const loadExceptions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ status: statusFilter });
+      if (typeFilter) params.set('type', typeFilter);
+      if (mineOnly) params.set('owner', 'me');
+      if (appliedSearch) params.set('q', appliedSearch);
+      const response = await fetch(`/api/shipment-exceptions?${params.toString()}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'تعذر تحميل الشحنات المتعثرة');
+      }
+      setExceptions(Array.isArray(data.exceptions) ? data.exceptions : []);
+      setOwners(Array.isArray(data.owners) ? data.owners : []);
+      setOpenCounts(data.openCounts || {});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'تعذر تحميل الشحنات المتعثرة');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, typeFilter, mineOnly, appliedSearch]);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      void loadExceptions();
+    }
+  }, [loadExceptions, status]);
+
+  const runScan = async () => {
+    setScanning(true);
+    try {
+      const response = await fetch('/api/shipment-exceptions/check', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'تعذر فحص الشحنات');
+      }
+      toast({
+        title: 'تم فحص الشحنات',
+        description: `${data.scanned} شحنة · ${data.raised} جديدة · ${data.reopened} أعيد فتحها · ${data.autoResolved} أُغلقت تلقائياً`,
+      });
+      await loadExceptions();
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'فشل الفحص',
+        description: err instanceof Error ? err.message : 'تعذر فحص الشحنات',
+      });
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const updateException = async (id: string, request: () => Promise<Response>, successTitle: string) => {
+    setBusyId(id);
+    try {
+      const response = await request();
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'تعذر تحديث الاستثناء');
+      }
+      toast({ title: successTitle });
+      await loadExceptions();
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'تعذر تنفيذ الإجراء',
+        description: err instanceof Error ? err.message : 'تعذر تحديث الاستثناء',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const assignOwner = (id: string, ownerId: string) =>
+    updateException(
+      id,
+      () =>
+        fetch(`/api/shipment-exceptions/${id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action: 'assign', ownerId: ownerId || null }),
+        }),
+      ownerId ? 'تم تعيين المسؤول' : 'تمت إزالة المسؤول',
+    );
+
+  const resolve = (id: string) =>
+    updateException(
+      id,
+      () =>
+        fetch(`/api/shipment-exceptions/${id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action: 'resolve', note: notes[id] || '' }),
+        }),
+      'تم إغلاق الاستثناء',
+    );
+
+  const requestAddress = (id: string) =>
+    updateException(
+      id,
+      () => fetch(`/api/shipment-exceptions/${id}/address-confirmation`, { method: 'POST' }),
+      'تمت جدولة رسالة تأكيد العنوان',
+    );
+
+  const canTakeOwnership = Boolean(currentUserId && owners.some((owner) => owner.id === currentUserId));
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="space-y-4 py-5">
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setTypeFilter('')}
+              className={`rounded-full border px-3 py-1 text-sm ${typeFilter === '' ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-200'}`}
+            >
+              كل الأنواع
+            </button>
+            {SHIPMENT_EXCEPTION_TYPES.map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setTypeFilter(type)}
+                className={`rounded-full border px-3 py-1 text-sm ${typeFilter === type ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-200'}`}
+              >
+                {SHIPMENT_EXCEPTION_LABELS[type]} ({openCounts[type] ?? 0})
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-col gap-3 md:flex-row md:items-center">
+            <div className="flex gap-1 rounded-lg bg-slate-100 p-1">
+              {STATUS_TABS.map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setStatusFilter(value)}
+                  className={`rounded-md px-3 py-1 text-sm ${statusFilter === value ? 'bg-white shadow' : 'text-slate-600'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input type="checkbox" checked={mineOnly} onChange={(event) => setMineOnly(event.target.checked)} />
+              المسندة إلي فقط
+            </label>
+            <form
+              className="flex flex-1 gap-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+                setAppliedSearch(search.trim());
+              }}
+            >
+              <Input
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+                placeholder="رقم الشحنة أو رقم الطلب"
+                dir="ltr"
+              />
+              <Button type="submit" variant="outline" disabled={loading}>
+                <Search className="h-4 w-4" />
+              </Button>
+            </form>
+            <Button type="button" onClick={runScan} disabled={scanning}>
+              {scanning ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCcw className="h-4 w-4" />}
+              فحص الآن
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {loading && exceptions.length === 0 ? (
+        <LoadingState />
+      ) : exceptions.length === 0 ? (
+        <EmptyState title="لا توجد شحنات متعثرة" description="تظهر هنا الشحنات التي يكتشفها الفحص الدوري لحركات سمسا." />
+      ) : (
+        <div className="space-y-3">
+          {exceptions.map((exception) => {
+            const busy = busyId === exception.id;
+            const isOpen = exception.status === 'open';
+            return (
+              <Card key={exception.id}>
+                <CardContent className="space-y-3 py-4">
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-mono text-base font-semibold">{exception.awb}</span>
+                        <Badge className={TYPE_BADGE_CLASSES[exception.type]}>
+                          {SHIPMENT_EXCEPTION_LABELS[exception.type]}
+                        </Badge>
+                        {!isOpen && <Badge variant="outline">مغلقة</Badge>}
+                      </div>
+                      <p className="text-sm text-slate-600">
+                        {exception.reference ? `طلب ${exception.reference} · ` : ''}
+                        {exception.shipment.recipientName || 'عميل غير معروف'}
+                        {exception.shipment.destinationCity ? ` · ${exception.shipment.destinationCity}` : ''}
+                        {exception.shipment.codAmount ? ` · تحصيل ${exception.shipment.codAmount} ر.س` : ''}
+                      </p>
+                      {exception.detail && <p className="text-sm text-slate-800">{exception.detail}</p>}
+                      <p className="text-xs text-slate-500">
+                        منذ {daysSince(exception.evidenceAt)} يوم ({formatDateTime(exception.evidenceAt)})
+                        {exception.customerContactedAt
+                          ? ` · طُلب تأكيد العنوان ${formatDateTime(exception.customerContactedAt)}`
+                          : ''}
+                      </p>
+                    </div>
+                    {isOpen && (
+                      <div className="flex items-center gap-2">
+                        <NativeSelect
+                          size="sm"
+                          value={exception.ownerId || ''}
+                          onChange={(event) => assignOwner(exception.id, event.target.value)}
+                          disabled={busy}
+                        >
+                          <NativeSelectOption value="">بدون مسؤول</NativeSelectOption>
+                          {exception.ownerId && !owners.some((owner) => owner.id === exception.ownerId) && (
+                            <NativeSelectOption value={exception.ownerId}>{exception.ownerName}</NativeSelectOption>
+                          )}
+                          {owners.map((owner) => (
+                            <NativeSelectOption key={owner.id} value={owner.id}>
+                              {owner.name}
+                            </NativeSelectOption>
+                          ))}
+                        </NativeSelect>
+                        {canTakeOwnership && exception.ownerId !== currentUserId && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={busy}
+                            onClick={() => assignOwner(exception.id, currentUserId as string)}
+                          >
+                            استلام
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  {isOpen ? (
+                    <div className="flex flex-col gap-2 md:flex-row md:items-end">
+                      <Textarea
+                        value={notes[exception.id] || ''}
+                        onChange={(event) => setNotes((prev) => ({ ...prev, [exception.id]: event.target.value }))}
+                        placeholder="ملاحظة الحل: ما الذي تم مع العميل أو سمسا؟"
+                        rows={2}
+                        className="flex-1"
+                      />
+                      <div className="flex gap-2">
+                        {ADDRESS_REQUEST_TYPES.includes(exception.type) && (
+                          <Button
+                            type="button"
+                            variant="outline"
+                            disabled={busy || Boolean(exception.customerContactedAt)}
+                            onClick={() => requestAddress(exception.id)}
+                          >
+                            <MessageCircle className="h-4 w-4" />
+                            {exception.customerContactedAt ? 'تم طلب تأكيد العنوان' : 'طلب تأكيد العنوان'}
+                          </Button>
+                        )}
+                        <Button
+                          type="button"
+                          disabled={busy || !(notes[exception.id] || '').trim()}
+                          onClick={() => resolve(exception.id)}
+                        >
+                          إغلاق
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="rounded-lg bg-slate-50 p-3 text-sm text-slate-700">
+                      {exception.resolutionNote || '—'}
+                      <span className="block text-xs text-slate-500">
+                        {exception.autoResolved ? 'إغلاق تلقائي' : exception.resolvedByName || '—'} ·{' '}
+                        {formatDateTime(exception.resolvedAt)}
+                      </span>
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
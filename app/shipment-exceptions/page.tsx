@@ -0,0 +1,18 @@
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+import { AppPageShell } from '@/components/dashboard/app-page-shell';
+import ShipmentExceptionsClient from './ShipmentExceptionsClient';
+
+export default function ShipmentExceptionsPage() {
+  return (
+    <AppPageShell
+      title="الشحنات المتعثرة"
+      subtitle="شحنات سمسا المتوقفة أو المرتجعة أو التي فشل تسليمها، مع المسؤول عن متابعتها"
+    >
+      <div className="mx-auto w-full max-w-6xl">
+        <ShipmentExceptionsClient />
+      </div>
+    </AppPageShell>
+  );
+}
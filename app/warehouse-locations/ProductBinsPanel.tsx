@@ -0,0 +1,453 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowLeftRight, Loader2, Plus, Star, Trash2 } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Field, FieldLabel } from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { NativeSelect, NativeSelectOption } from '@/components/ui/native-select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+export type ProductBin = {
+  id: string;
+  sku: string;
+  zone: string;
+  aisle?: string | null;
+  shelf?: string | null;
+  bin?: string | null;
+  code: string;
+  quantity: number;
+  isPrimary: boolean;
+  notes?: string | null;
+  updatedBy?: string | null;
+  updatedAt: string;
+};
+
+type ProductBinMove = {
+  id: string;
+  mode: 'move' | 'count';
+  fromBinCode?: string | null;
+  toBinCode?: string | null;
+  quantity: number;
+  toResulting?: number | null;
+  reason?: string | null;
+  createdByName?: string | null;
+  createdAt: string;
+};
+
+type AddressForm = { zone: string; aisle: string; shelf: string; bin: string };
+
+const emptyAddress: AddressForm = { zone: '', aisle: '', shelf: '', bin: '' };
+const NEW_BIN = '__new__';
+
+const addressFields: Array<{ key: keyof AddressForm; label: string; placeholder: string }> = [
+  { key: 'zone', label: 'المنطقة', placeholder: 'A' },
+  { key: 'aisle', label: 'الممر', placeholder: '03' },
+  { key: 'shelf', label: 'الرف', placeholder: '2' },
+  { key: 'bin', label: 'الخانة', placeholder: 'B' },
+];
+
+async function readJson(response: Response, fallback: string) {
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error || fallback);
+  }
+  return data;
+}
+
+function AddressInputs({
+  value,
+  onChange,
+}: {
+  value: AddressForm;
+  onChange: (next: AddressForm) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+      {addressFields.map((field) => (
+        <Field key={field.key} className="gap-1">
+          <FieldLabel>{field.label}</FieldLabel>
+          <Input
+            value={value[field.key]}
+            onChange={(event) => onChange({ ...value, [field.key]: event.target.value.toUpperCase() })}
+            placeholder={field.placeholder}
+          />
+        </Field>
+      ))}
+    </div>
+  );
+}
+
+export default function ProductBinsPanel({
+  sku,
+  onChanged,
+}: {
+  sku: string;
+  onChanged: () => void;
+}) {
+  const [bins, setBins] = useState<ProductBin[]>([]);
+  const [moves, setMoves] = useState<ProductBinMove[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [binForm, setBinForm] = useState({ ...emptyAddress, quantity: '', isPrimary: false });
+  const [moveForm, setMoveForm] = useState({
+    fromBinId: '',
+    toBinId: NEW_BIN,
+    to: emptyAddress,
+    quantity: '',
+    reason: '',
+  });
+
+  const loadBins = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ sku });
+      const [binsData, movesData] = await Promise.all([
+        fetch(`/api/product-locations/bins?${params.toString()}`).then((response) =>
+          readJson(response, 'تعذر تحميل مواقع المنتج')
+        ),
+        fetch(`/api/product-locations/bins/moves?${params.toString()}&limit=20`).then((response) =>
+          readJson(response, 'تعذر تحميل سجل النقل')
+        ),
+      ]);
+      setBins(Array.isArray(binsData?.bins) ? binsData.bins : []);
+      setMoves(Array.isArray(movesData?.moves) ? movesData.moves : []);
+    } catch (err) {
+      setStatus({ type: 'error', text: err instanceof Error ? err.message : 'تعذر تحميل مواقع المنتج' });
+    } finally {
+      setLoading(false);
+    }
+  }, [sku]);
+
+  useEffect(() => {
+    setStatus(null);
+    setBinForm({ ...emptyAddress, quantity: '', isPrimary: false });
+    setMoveForm({ fromBinId: '', toBinId: NEW_BIN, to: emptyAddress, quantity: '', reason: '' });
+    loadBins();
+  }, [loadBins]);
+
+  const runAction = async (action: () => Promise<string>) => {
+    setSaving(true);
+    setStatus(null);
+    try {
+      const message = await action();
+      setStatus({ type: 'success', text: message });
+      await loadBins();
+      onChanged();
+    } catch (err) {
+      setStatus({ type: 'error', text: err instanceof Error ? err.message : 'تعذر تنفيذ العملية' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveBin = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!binForm.zone.trim()) {
+      setStatus({ type: 'error', text: 'المنطقة مطلوبة لتحديد الموقع' });
+      return;
+    }
+    runAction(async () => {
+      const response = await fetch('/api/product-locations/bins', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sku,
+          zone: binForm.zone,
+          aisle: binForm.aisle,
+          shelf: binForm.shelf,
+          bin: binForm.bin,
+          quantity: binForm.quantity === '' ? undefined : Number(binForm.quantity),
+          isPrimary: binForm.isPrimary,
+        }),
+      });
+      const data = await readJson(response, 'تعذر حفظ الموقع');
+      setBinForm({ ...emptyAddress, quantity: '', isPrimary: false });
+      return `تم حفظ الموقع ${data?.bin?.code ?? ''}`;
+    });
+  };
+
+  const handleEditBin = (bin: ProductBin) => {
+    setBinForm({
+      zone: bin.zone,
+      aisle: bin.aisle || '',
+      shelf: bin.shelf || '',
+      bin: bin.bin || '',
+      quantity: String(bin.quantity),
+      isPrimary: bin.isPrimary,
+    });
+  };
+
+  const handleMakePrimary = (bin: ProductBin) =>
+    runAction(async () => {
+      const response = await fetch('/api/product-locations/bins', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sku,
+          zone: bin.zone,
+          aisle: bin.aisle,
+          shelf: bin.shelf,
+          bin: bin.bin,
+          isPrimary: true,
+        }),
+      });
+      await readJson(response, 'تعذر تعيين الموقع الأساسي');
+      return `أصبح ${bin.code} موقع السحب الأساسي`;
+    });
+
+  const handleDeleteBin = (bin: ProductBin) => {
+    if (!window.confirm(`حذف الموقع ${bin.code}؟`)) return;
+    runAction(async () => {
+      const response = await fetch('/api/product-locations/bins', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sku, binId: bin.id }),
+      });
+      await readJson(response, 'تعذر حذف الموقع');
+      return `تم حذف الموقع ${bin.code}`;
+    });
+  };
+
+  const handleMove = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!moveForm.fromBinId) {
+      setStatus({ type: 'error', text: 'اختر الموقع المصدر' });
+      return;
+    }
+    runAction(async () => {
+      const response = await fetch('/api/product-locations/bins/moves', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sku,
+          fromBinId: moveForm.fromBinId,
+          toBinId: moveForm.toBinId === NEW_BIN ? undefined : moveForm.toBinId,
+          to: moveForm.toBinId === NEW_BIN ? moveForm.to : undefined,
+          quantity: Number(moveForm.quantity),
+          reason: moveForm.reason,
+        }),
+      });
+      const data = await readJson(response, 'تعذر نقل المخزون');
+      setMoveForm({ fromBinId: '', toBinId: NEW_BIN, to: emptyAddress, quantity: '', reason: '' });
+      return `تم نقل ${data?.log?.quantity ?? ''} من ${data?.log?.fromBinCode ?? ''} إلى ${data?.log?.toBinCode ?? ''}`;
+    });
+  };
+
+  const totalQuantity = bins.reduce((sum, bin) => sum + bin.quantity, 0);
+
+  return (
+    <Card>
+      <div className="flex flex-wrap items-center justify-between gap-3 border-b px-6 py-4">
+        <div>
+          <h2 className="text-xl font-semibold">مواقع SKU {sku}</h2>
+          <p className="text-sm text-muted-foreground">
+            الكمية في كل موقع، وموقع السحب الأساسي الذي يظهر لفريق التحضير.
+          </p>
+        </div>
+        <Badge variant="secondary">الإجمالي: {totalQuantity}</Badge>
+      </div>
+      <div className="space-y-6 p-6">
+        {status && (
+          <Alert variant={status.type === 'error' ? 'destructive' : 'default'}>
+            <AlertDescription>{status.text}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-right">الموقع</TableHead>
+                <TableHead className="text-right">الكمية</TableHead>
+                <TableHead className="text-right">إجراءات</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && bins.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center text-sm text-muted-foreground">
+                    <Loader2 className="mx-auto h-4 w-4 animate-spin" />
+                  </TableCell>
+                </TableRow>
+              ) : bins.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center text-sm text-muted-foreground">
+                    لا توجد مواقع مسجلة لهذا المنتج
+                  </TableCell>
+                </TableRow>
+              ) : (
+                bins.map((bin) => (
+                  <TableRow key={bin.id}>
+                    <TableCell>
+                      <button
+                        type="button"
+                        className="flex items-center gap-2 font-mono text-sm"
+                        onClick={() => handleEditBin(bin)}
+                      >
+                        {bin.code}
+                        {bin.isPrimary && <Badge>أساسي</Badge>}
+                      </button>
+                    </TableCell>
+                    <TableCell className="font-semibold">{bin.quantity}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-2">
+                        {!bin.isPrimary && (
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            disabled={saving}
+                            onClick={() => handleMakePrimary(bin)}
+                          >
+                            <Star className="h-3.5 w-3.5" />
+                            أساسي
+                          </Button>
+                        )}
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          disabled={saving || bin.quantity > 0}
+                          onClick={() => handleDeleteBin(bin)}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <form onSubmit={handleSaveBin} className="space-y-3 rounded-lg border p-4">
+          <p className="font-semibold">إضافة موقع أو تحديث كميته</p>
+          <AddressInputs
+            value={binForm}
+            onChange={(next) => setBinForm((prev) => ({ ...prev, ...next }))}
+          />
+          <div className="flex flex-wrap items-end gap-4">
+            <Field className="w-32 gap-1">
+              <FieldLabel>الكمية المعدودة</FieldLabel>
+              <Input
+                type="number"
+                min={0}
+                value={binForm.quantity}
+                onChange={(event) => setBinForm((prev) => ({ ...prev, quantity: event.target.value }))}
+              />
+            </Field>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={binForm.isPrimary}
+                onCheckedChange={(checked) => setBinForm((prev) => ({ ...prev, isPrimary: checked === true }))}
+              />
+              موقع السحب الأساسي
+            </label>
+            <Button type="submit" disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              حفظ الموقع
+            </Button>
+          </div>
+        </form>
+
+        {bins.length > 0 && (
+          <form onSubmit={handleMove} className="space-y-3 rounded-lg border p-4">
+            <p className="font-semibold">نقل كمية بين المواقع</p>
+            <div className="grid gap-3 sm:grid-cols-3">
+              <Field className="gap-1">
+                <FieldLabel>من</FieldLabel>
+                <NativeSelect
+                  value={moveForm.fromBinId}
+                  onChange={(event) => setMoveForm((prev) => ({ ...prev, fromBinId: event.target.value }))}
+                  className="w-full"
+                >
+                  <NativeSelectOption value="">اختر الموقع</NativeSelectOption>
+                  {bins
+                    .filter((bin) => bin.quantity > 0)
+                    .map((bin) => (
+                      <NativeSelectOption key={bin.id} value={bin.id}>
+                        {bin.code} ({bin.quantity})
+                      </NativeSelectOption>
+                    ))}
+                </NativeSelect>
+              </Field>
+              <Field className="gap-1">
+                <FieldLabel>إلى</FieldLabel>
+                <NativeSelect
+                  value={moveForm.toBinId}
+                  onChange={(event) => setMoveForm((prev) => ({ ...prev, toBinId: event.target.value }))}
+                  className="w-full"
+                >
+                  <NativeSelectOption value={NEW_BIN}>موقع جديد</NativeSelectOption>
+                  {bins
+                    .filter((bin) => bin.id !== moveForm.fromBinId)
+                    .map((bin) => (
+                      <NativeSelectOption key={bin.id} value={bin.id}>
+                        {bin.code} ({bin.quantity})
+                      </NativeSelectOption>
+                    ))}
+                </NativeSelect>
+              </Field>
+              <Field className="gap-1">
+                <FieldLabel>الكمية</FieldLabel>
+                <Input
+                  type="number"
+                  min={1}
+                  value={moveForm.quantity}
+                  onChange={(event) => setMoveForm((prev) => ({ ...prev, quantity: event.target.value }))}
+                />
+              </Field>
+            </div>
+            {moveForm.toBinId === NEW_BIN && (
+              <AddressInputs
+                value={moveForm.to}
+                onChange={(next) => setMoveForm((prev) => ({ ...prev, to: next }))}
+              />
+            )}
+            <Field className="gap-1">
+              <FieldLabel>السبب</FieldLabel>
+              <Input
+                value={moveForm.reason}
+                onChange={(event) => setMoveForm((prev) => ({ ...prev, reason: event.target.value }))}
+                placeholder="مثال: تعبئة موقع السحب (اختياري)"
+              />
+            </Field>
+            <Button type="submit" disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <ArrowLeftRight className="h-4 w-4" />}
+              نقل
+            </Button>
+          </form>
+        )}
+
+        {moves.length > 0 && (
+          <div className="space-y-2">
+            <p className="font-semibold">آخر الحركات</p>
+            <ul className="space-y-1 text-sm text-muted-foreground">
+              {moves.map((move) => (
+                <li key={move.id} className="flex flex-wrap gap-2">
+                  <span className="font-mono text-foreground">
+                    {move.mode === 'move'
+                      ? `${move.fromBinCode} ← ${move.toBinCode} ×${move.quantity}`
+                      : `جرد ${move.toBinCode}: ${move.toResulting}`}
+                  </span>
+                  {move.reason && <span>{move.reason}</span>}
+                  <span>
+                    {move.createdByName ? `${move.createdByName} • ` : ''}
+                    {new Date(move.createdAt).toLocaleString('ar-SA')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -22,6 +22,7 @@ import { Input } from '@/components/ui/input';
 import { NativeSelect, NativeSelectOption } from '@/components/ui/native-select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Textarea } from '@/components/ui/textarea';
+import ProductBinsPanel, { type ProductBin } from './ProductBinsPanel';
 
 type ProductLocation = {
   id: string;
@@ -33,6 +34,7 @@ type ProductLocation = {
   updatedAt: string;
   createdAt: string;
   updatedBy?: string | null;
+  bins?: ProductBin[];
 };
 
 async function parseJsonResponse(response: Response, fallbackMessage: string) {
@@ -341,6 +343,7 @@ export default function WarehouseLocationsPage() {
               <ul className="mt-4 list-disc space-y-2 pr-5 text-sm text-muted-foreground">
                 <li>يمكن تحديث نفس SKU أكثر من مرة وسيتم حفظ آخر محرر.</li>
                 <li>يجب أن تكون مواقع التخزين بالأحرف الإنجليزية لسهولة مسحها.</li>
+                <li>يمكن تخزين نفس SKU في أكثر من موقع بكمية لكل موقع؛ يوجَّه المحضّر إلى الموقع الذي يحتوي المخزون.</li>
                 <li>الحذف متاح للمسؤول فقط، ويجب استخدامه بحذر.</li>
               </ul>
             </div>
@@ -612,6 +615,12 @@ export default function WarehouseLocationsPage() {
                                 <MapPin className="h-3.5 w-3.5" />
                                 {record.location}
                               </Badge>
+                              {record.bins && record.bins.length > 1 && (
+                                <Badge variant="secondary" className="mr-1">
+                                  +{record.bins.length - 1} مواقع •{' '}
+                                  {record.bins.reduce((sum, bin) => sum + bin.quantity, 0)} قطعة
+                                </Badge>
+                              )}
                               {record.notes && (
                                 <p className="mt-1 max-w-[220px] truncate text-xs text-muted-foreground">
                                   {record.notes}
@@ -634,6 +643,10 @@ export default function WarehouseLocationsPage() {
             </div>
           </Card>
         </section>
+
+        {selectedLocation && (
+          <ProductBinsPanel sku={selectedLocation.sku} onChanged={fetchProductLocations} />
+        )}
       </div>
     </AppPageShell>
   );
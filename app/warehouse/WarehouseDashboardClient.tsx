@@ -17,6 +17,7 @@ import AppNavbar from '@/components/AppNavbar';
 import { ChevronRight, ChevronLeft, Loader2, RefreshCcw, Search, X, Scan, CheckCircle2 } from 'lucide-react';
 import { ShipmentDetailsDialog } from '@/components/warehouse/shipment-details-dialog';
 import { HandoverScanner } from '@/components/warehouse/handover-scanner';
+import { PickupManifests } from '@/components/warehouse/pickup-manifests';
 import { SHIPMENT_COMPANIES } from '@/lib/shipment-detector';
 
 interface Stats {
@@ -130,6 +131,7 @@ export default function WarehouseDashboardClient({
   const formattedDate = useMemo(() => format(selectedDate, 'yyyy-MM-dd'), [selectedDate]);
   const selectedWarehouseId = selectedWarehouse?.id || '';
   const showHandoverOnly = isMobile;
+  const [manifestRefreshKey, setManifestRefreshKey] = useState(0);
   const activeScannerTab = showHandoverOnly ? 'handover' : scannerTab;
   const scannerDisabledMessage = useMemo(() => {
     if (availableWarehouses.length === 0) {
@@ -401,6 +403,11 @@ export default function WarehouseDashboardClient({
     return () => clearInterval(interval);
   }, [fetchData]);
 
+  const handleHandoverSuccess = useCallback(async () => {
+    setManifestRefreshKey((key) => key + 1);
+    await fetchData();
+  }, [fetchData]);
+
   useEffect(() => {
     shipmentsPageRef.current = shipmentsPage;
   }, [shipmentsPage]);
@@ -783,7 +790,7 @@ export default function WarehouseDashboardClient({
                 warehouseName={selectedWarehouse?.name}
                 disabled={!selectedWarehouse}
                 disabledMessage={scannerDisabledMessage}
-                onSuccess={fetchData}
+                onSuccess={handleHandoverSuccess}
                 handoverCount={showHandoverOnly ? filteredStats.handoverConfirmed : stats.handoverConfirmed}
                 companyFilter={showHandoverOnly ? companyFilter : undefined}
                 availableCompanies={showHandoverOnly ? availableCompanies : undefined}
@@ -792,6 +799,9 @@ export default function WarehouseDashboardClient({
                 }
               />
             )}
+            {activeScannerTab === 'handover' && (
+              <PickupManifests warehouseId={selectedWarehouse?.id} refreshKey={manifestRefreshKey} />
+            )}
           </div>
           {!showHandoverOnly && (
             <Card className="rounded-2xl">
@@ -16,6 +16,7 @@ import {
 import { authOptions } from '@/app/lib/auth';
 import { env } from '@/app/lib/env';
 import { getCustomerJourneyTemplateHealth } from '@/app/lib/customer-journey-template-health';
+import { MESSAGE_CHANNEL_LABELS, type MessageChannel } from '@/app/lib/message-channel-fallback';
 import { AutoRefresh } from '@/components/AutoRefresh';
 import { AppPageShell } from '@/components/dashboard/app-page-shell';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -43,6 +44,7 @@ const STATUS_FILTERS = [
   ['accepted', 'مقبولة'],
   ['delivered', 'تم التسليم'],
   ['read', 'تمت القراءة'],
+  ['sms_sent', 'أُرسلت SMS'],
   ['failed', 'فشلت'],
   ['retrying', 'إعادة محاولة'],
   ['waiting_for_data', 'بانتظار بيانات'],
@@ -58,6 +60,7 @@ const STATUS_META: Record<string, { label: string; className: string }> = {
   accepted: { label: 'مقبولة من Zoko', className: 'border-indigo-200 bg-indigo-50 text-indigo-700' },
   delivered: { label: 'تم التسليم', className: 'border-emerald-200 bg-emerald-50 text-emerald-700' },
   read: { label: 'تمت القراءة', className: 'border-green-200 bg-green-50 text-green-800' },
+  sms_sent: { label: 'أُرسلت SMS', className: 'border-teal-200 bg-teal-50 text-teal-700' },
   failed: { label: 'فشلت', className: 'border-rose-200 bg-rose-50 text-rose-700' },
   cancelled: { label: 'ملغاة', className: 'border-slate-200 bg-slate-50 text-slate-600' },
   superseded: { label: 'تجاوزتها مرحلة أحدث', className: 'border-slate-200 bg-slate-50 text-slate-600' },
@@ -135,7 +138,7 @@ function journeyMilestoneStatus(
   if (!row) return 'missing';
   if (messageProblem(row)) return 'problem';
   if (row.status === 'read') return 'read';
-  if (row.status === 'delivered') return 'delivered';
+  if (row.status === 'delivered' || row.status === 'sms_sent') return 'delivered';
   if (row.status === 'accepted' || row.status === 'processing') return 'active';
   if (row.status === 'cancelled' || row.status === 'superseded') return 'skipped';
   return 'pending';
@@ -143,7 +146,14 @@ function journeyMilestoneStatus(
 
 function journeyTimestamp(row: JourneyRow | undefined): string | null {
   if (!row) return null;
-  return (row.readAt || row.deliveredAt || row.acceptedAt || row.scheduledFor || row.createdAt).toISOString();
+  return (
+    row.readAt ||
+    row.deliveredAt ||
+    row.smsFallbackAt ||
+    row.acceptedAt ||
+    row.scheduledFor ||
+    row.createdAt
+  ).toISOString();
 }
 
 function buildJourneyLines(
@@ -568,6 +578,11 @@ export default async function ZokoNotificationsPage({ searchParams }: { searchPa
                       </TableCell>
                       <TableCell>
                         <Badge variant="outline" className={meta.className}>{meta.label}</Badge>
+                        {row.channel && (
+                          <p className="mt-2 text-xs text-muted-foreground">
+                            القناة: {MESSAGE_CHANNEL_LABELS[row.channel as MessageChannel] || row.channel}
+                          </p>
+                        )}
                         {row.attemptCount > 0 && <p className="mt-2 text-xs">المحاولات: {row.attemptCount + 1}</p>}
                       </TableCell>
                       <TableCell className="min-w-48 text-xs">
@@ -575,6 +590,7 @@ export default async function ZokoNotificationsPage({ searchParams }: { searchPa
                         <p className="mt-1">مجدولة: {formatDate(row.scheduledFor)}</p>
                         {row.deliveredAt && <p className="mt-1 text-emerald-700">سُلّمت: {formatDate(row.deliveredAt)}</p>}
                         {row.readAt && <p className="mt-1 text-green-700">قُرئت: {formatDate(row.readAt)}</p>}
+                        {row.smsFallbackAt && <p className="mt-1 text-teal-700">SMS: {formatDate(row.smsFallbackAt)}</p>}
                       </TableCell>
                       <TableCell className="max-w-80">
                         {problem ? (
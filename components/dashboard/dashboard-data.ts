@@ -21,11 +21,13 @@ import {
   Navigation,
   Package,
   PackageSearch,
+  Percent,
   ReceiptText,
   ScanSearch,
   Search,
   Settings,
   ShoppingBag,
+  Siren,
   Target,
   Truck,
   Undo2,
@@ -121,6 +123,7 @@ const serviceCategoryMap: Partial<Record<ServiceKey, DashboardCategoryId>> = {
   'order-reports': 'orders',
   warehouse: 'warehouse',
   'local-shipping': 'warehouse',
+  'shipment-exceptions': 'warehouse',
   'warehouse-locations': 'warehouse',
   'search-update-stock': 'warehouse',
   'barcode-labels': 'warehouse',
@@ -131,6 +134,7 @@ const serviceCategoryMap: Partial<Record<ServiceKey, DashboardCategoryId>> = {
   'returns-analytics': 'returns',
   'cod-tracker': 'finance',
   'delivery-agent-wallets': 'finance',
+  'delivery-commissions': 'finance',
   'affiliate-management': 'finance',
   invoices: 'finance',
   'invoice-refunds': 'finance',
@@ -158,6 +162,7 @@ const serviceCategoryMap: Partial<Record<ServiceKey, DashboardCategoryId>> = {
   'printer-settings': 'admin',
   'smsa-webhook': 'admin',
   'zoko-notifications': 'admin',
+  'shipping-rates': 'admin',
 };
 
 const serviceIconMap: Partial<Record<ServiceKey, LucideIcon>> = {
@@ -168,12 +173,14 @@ const serviceIconMap: Partial<Record<ServiceKey, LucideIcon>> = {
   'admin-order-prep': BarChart3,
   warehouse: Package,
   'local-shipping': Truck,
+  'shipment-exceptions': Siren,
   'warehouse-locations': Navigation,
   'search-update-stock': Calculator,
   'barcode-labels': ScanSearch,
   'shipment-assignments': MapPin,
   'delivery-agent-tasks': ClipboardCheck,
   'delivery-agent-wallets': WalletCards,
+  'delivery-commissions': Percent,
   'affiliate-management': Handshake,
   'order-invoice-search': Search,
   'salla-product-search': PackageSearch,
@@ -197,6 +204,7 @@ const serviceIconMap: Partial<Record<ServiceKey, LucideIcon>> = {
   settlements: Calculator,
   'smsa-webhook': Webhook,
   'zoko-notifications': MessageCircle,
+  'shipping-rates': Truck,
   invoices: ReceiptText,
   'invoice-refunds': Undo2,
   'invoices-and-refund-invoices': ReceiptText,
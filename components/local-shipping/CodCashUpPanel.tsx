@@ -0,0 +1,538 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Banknote, FileDown } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Field, FieldLabel } from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { NativeSelect, NativeSelectOption } from '@/components/ui/native-select';
+import { SignaturePad } from '@/components/ui/signature-pad';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  CASH_UP_DEPOSIT_METHOD_LABELS,
+  SAR_DENOMINATIONS,
+  summarizeCashUp,
+  type CashUpDepositMethod,
+  type CashUpVarianceResolution,
+} from '@/app/lib/cod-cash-up';
+
+interface CashUpAgent {
+  id: string;
+  name: string;
+  username: string;
+}
+
+interface AwaitingAgent {
+  deliveryAgent: CashUpAgent;
+  collectionCount: number;
+  expectedAmount: number;
+  oldestCollectedAt: string | null;
+}
+
+interface CashUpCollection {
+  id: string;
+  status: string;
+  collectionAmount: number;
+  collectedAmount: number | null;
+  shipment: { orderNumber: string; trackingNumber: string; customerName: string };
+}
+
+interface CashUpSession {
+  id: string;
+  cashUpNumber: string;
+  status: 'open' | 'closed' | 'cancelled';
+  deliveryAgent: CashUpAgent;
+  expectedAmount: number;
+  countedAmount: number | null;
+  varianceAmount: number | null;
+  denominationCounts: Record<string, number>;
+  depositReference: string | null;
+  varianceResolution: CashUpVarianceResolution | null;
+  notes: string | null;
+  closedByName: string | null;
+  closedAt: string | null;
+  createdAt: string;
+  collectionCount: number;
+  collections?: CashUpCollection[];
+}
+
+interface CodCashUpPanelProps {
+  /** Bump to reload after collections change elsewhere on the page. */
+  refreshKey?: number;
+  /** Called after a session closes so the page can reload its collections. */
+  onClosed?: () => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('ar-SA', { style: 'currency', currency: 'SAR' }).format(value);
+
+const formatDateTime = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleString('en-GB', {
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+      })
+    : '—';
+
+const STATUS_BADGES: Record<CashUpSession['status'], { label: string; variant: 'default' | 'secondary' | 'outline' }> = {
+  open: { label: 'مفتوحة', variant: 'secondary' },
+  closed: { label: 'مغلقة', variant: 'default' },
+  cancelled: { label: 'ملغاة', variant: 'outline' },
+};
+
+const receiptUrl = (id: string) => `/api/cod-cash-ups/${id}/receipt`;
+
+/**
+ * End-of-day cash-up: messengers still holding collected COD, and the
+ * counting sessions that hand it over under one deposit reference.
+ */
+export function CodCashUpPanel({ refreshKey = 0, onClosed }: CodCashUpPanelProps) {
+  const { toast } = useToast();
+  const [awaitingAgents, setAwaitingAgents] = useState<AwaitingAgent[]>([]);
+  const [sessions, setSessions] = useState<CashUpSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [openingAgentId, setOpeningAgentId] = useState<string | null>(null);
+  const [activeSession, setActiveSession] = useState<CashUpSession | null>(null);
+
+  const loadCashUps = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch('/api/cod-cash-ups');
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر تحميل جلسات تسليم النقدية');
+      }
+      setAwaitingAgents(data.awaitingAgents || []);
+      setSessions(data.sessions || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'تعذر تحميل جلسات تسليم النقدية');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCashUps();
+  }, [loadCashUps, refreshKey]);
+
+  const openSession = async (deliveryAgentId: string) => {
+    setOpeningAgentId(deliveryAgentId);
+    try {
+      const response = await fetch('/api/cod-cash-ups', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ deliveryAgentId }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر فتح جلسة التسليم');
+      }
+      setActiveSession(data.session);
+      loadCashUps();
+    } catch (err) {
+      toast({
+        title: 'تعذر فتح جلسة التسليم',
+        description: err instanceof Error ? err.message : 'حدث خطأ غير متوقع',
+        variant: 'destructive',
+      });
+    } finally {
+      setOpeningAgentId(null);
+    }
+  };
+
+  const continueSession = async (id: string) => {
+    try {
+      const response = await fetch(`/api/cod-cash-ups/${id}`);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر تحميل جلسة التسليم');
+      }
+      setActiveSession(data.session);
+    } catch (err) {
+      toast({
+        title: 'تعذر تحميل جلسة التسليم',
+        description: err instanceof Error ? err.message : 'حدث خطأ غير متوقع',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (loading && sessions.length === 0 && awaitingAgents.length === 0) {
+    return <p className="text-sm text-gray-500">جاري التحميل...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-3">
+        <h3 className="font-semibold">مناديب لديهم مبالغ محصّلة</h3>
+        {awaitingAgents.length === 0 ? (
+          <p className="text-sm text-gray-500">لا توجد مبالغ محصّلة بانتظار التسليم.</p>
+        ) : (
+          awaitingAgents.map((entry) => (
+            <div
+              key={entry.deliveryAgent.id}
+              className="flex flex-col gap-3 rounded-lg border p-4 md:flex-row md:items-center md:justify-between"
+            >
+              <div className="space-y-1 text-sm">
+                <div className="font-semibold">
+                  {entry.deliveryAgent.name}{' '}
+                  <span className="text-xs text-gray-500">({entry.deliveryAgent.username})</span>
+                </div>
+                <div>
+                  {entry.collectionCount} طلب • {formatCurrency(entry.expectedAmount)}
+                </div>
+                <div className="text-xs text-gray-500">أقدم تحصيل: {formatDateTime(entry.oldestCollectedAt)}</div>
+              </div>
+              <Button
+                onClick={() => openSession(entry.deliveryAgent.id)}
+                disabled={openingAgentId === entry.deliveryAgent.id}
+              >
+                <Banknote className="h-4 w-4" />
+                {openingAgentId === entry.deliveryAgent.id ? 'جاري الفتح...' : 'بدء تسليم النقدية'}
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="font-semibold">جلسات التسليم</h3>
+        {sessions.length === 0 ? (
+          <p className="text-sm text-gray-500">لا توجد جلسات تسليم خلال الأيام الماضية.</p>
+        ) : (
+          sessions.map((session) => {
+            const badge = STATUS_BADGES[session.status];
+            return (
+              <div
+                key={session.id}
+                className="flex flex-col gap-3 rounded-lg border p-4 md:flex-row md:items-center md:justify-between"
+              >
+                <div className="space-y-1 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-mono font-semibold">{session.cashUpNumber}</span>
+                    <Badge variant={badge.variant}>{badge.label}</Badge>
+                  </div>
+                  <div>
+                    {session.deliveryAgent.name} • {session.collectionCount} طلب • المتوقع{' '}
+                    {formatCurrency(session.expectedAmount)}
+                  </div>
+                  {session.countedAmount !== null && (
+                    <div>
+                      المعدود {formatCurrency(session.countedAmount)}
+                      {session.varianceAmount ? (
+                        <span className={session.varianceAmount < 0 ? 'text-red-700' : 'text-emerald-700'}>
+                          {' '}
+                          • الفرق {formatCurrency(session.varianceAmount)}
+                        </span>
+                      ) : null}
+                    </div>
+                  )}
+                  {session.depositReference && (
+                    <div className="text-xs text-gray-500">مرجع الإيداع: {session.depositReference}</div>
+                  )}
+                  <div className="text-xs text-gray-500">
+                    {session.closedAt
+                      ? `أُغلقت ${formatDateTime(session.closedAt)} بواسطة ${session.closedByName || '—'}`
+                      : `فُتحت ${formatDateTime(session.createdAt)}`}
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {session.status === 'open' && (
+                    <Button variant="outline" onClick={() => continueSession(session.id)}>
+                      متابعة العد
+                    </Button>
+                  )}
+                  {session.status === 'closed' && (
+                    <Button asChild variant="outline">
+                      <a href={receiptUrl(session.id)}>
+                        <FileDown className="h-4 w-4" />
+                        الإيصال
+                      </a>
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <CashUpDialog
+        key={activeSession?.id ?? 'none'}
+        session={activeSession}
+        onClose={() => setActiveSession(null)}
+        onChanged={(updated) => {
+          if (updated.status !== 'open') {
+            setActiveSession(null);
+            if (updated.status === 'closed') onClosed?.();
+          } else {
+            setActiveSession(updated);
+          }
+          loadCashUps();
+        }}
+      />
+    </div>
+  );
+}
+
+interface CashUpDialogProps {
+  session: CashUpSession | null;
+  onClose: () => void;
+  onChanged: (session: CashUpSession) => void;
+}
+
+function CashUpDialog({ session, onClose, onChanged }: CashUpDialogProps) {
+  const { toast } = useToast();
+  // The panel remounts this per session via `key`, so the saved count seeds the form once.
+  const [counts, setCounts] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      Object.entries(session?.denominationCounts ?? {}).map(([key, count]) => [key, String(count)]),
+    ),
+  );
+  const [depositMethod, setDepositMethod] = useState<CashUpDepositMethod>('cash');
+  const [depositReference, setDepositReference] = useState('');
+  const [varianceResolution, setVarianceResolution] = useState<CashUpVarianceResolution>('wallet_adjustment');
+  const [varianceNote, setVarianceNote] = useState('');
+  const [notes, setNotes] = useState(session?.notes || '');
+  const [signature, setSignature] = useState<string | null>(null);
+  const [busy, setBusy] = useState<'save' | 'close' | 'cancel' | null>(null);
+
+  const numericCounts = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(counts)
+          .map(([key, value]) => [key, Number.parseInt(value, 10)] as const)
+          .filter(([, value]) => Number.isInteger(value) && value > 0),
+      ),
+    [counts],
+  );
+  const summary = session ? summarizeCashUp(session.expectedAmount, numericCounts) : null;
+
+  const request = async (method: 'PATCH' | 'DELETE' | 'POST', url: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || 'حدث خطأ غير متوقع');
+    }
+    return data.session as CashUpSession;
+  };
+
+  const run = async (action: 'save' | 'close' | 'cancel') => {
+    if (!session) return;
+    setBusy(action);
+    try {
+      if (action === 'save') {
+        onChanged(await request('PATCH', `/api/cod-cash-ups/${session.id}`, { counts: numericCounts, notes }));
+        toast({ title: 'تم حفظ العد' });
+      } else if (action === 'cancel') {
+        onChanged(await request('DELETE', `/api/cod-cash-ups/${session.id}`));
+        toast({ title: 'تم إلغاء جلسة التسليم' });
+      } else {
+        const closed = await request('POST', `/api/cod-cash-ups/${session.id}/close`, {
+          counts: numericCounts,
+          depositMethod,
+          depositReference,
+          varianceResolution,
+          varianceNote,
+          notes,
+          signatureDataUrl: signature,
+        });
+        onChanged(closed);
+        toast({
+          title: `تم إغلاق ${closed.cashUpNumber}`,
+          description:
+            closed.varianceAmount && closed.varianceResolution === 'wallet_adjustment'
+              ? `سُجّل فرق ${formatCurrency(closed.varianceAmount)} على محفظة المندوب.`
+              : 'تم نقل المبالغ إلى حالة الإيداع.',
+        });
+        window.open(receiptUrl(closed.id), '_blank');
+      }
+    } catch (err) {
+      toast({
+        title: 'تعذر تنفيذ العملية',
+        description: err instanceof Error ? err.message : 'حدث خطأ غير متوقع',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const hasVariance = Boolean(summary && summary.outcome !== 'balanced');
+  const canClose =
+    Boolean(depositReference.trim()) &&
+    Boolean(signature) &&
+    (!hasVariance || varianceResolution === 'wallet_adjustment' || Boolean(varianceNote.trim()));
+
+  return (
+    <Dialog open={Boolean(session)} onOpenChange={(open) => !open && !busy && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        {session && summary && (
+          <>
+            <DialogHeader>
+              <DialogTitle>تسليم النقدية {session.cashUpNumber}</DialogTitle>
+              <DialogDescription>
+                {session.deliveryAgent.name} • {session.collectionCount} طلب بقيمة{' '}
+                {formatCurrency(session.expectedAmount)}
+              </DialogDescription>
+            </DialogHeader>
+
+            {session.collections && session.collections.length > 0 && (
+              <div className="max-h-40 space-y-1 overflow-y-auto rounded-lg border bg-muted/30 p-3 text-sm">
+                {session.collections.map((collection) => (
+                  <div key={collection.id} className="flex justify-between gap-2">
+                    <span>
+                      #{collection.shipment.orderNumber} • {collection.shipment.customerName}
+                    </span>
+                    <span className="font-semibold">
+                      {formatCurrency(collection.collectedAmount ?? collection.collectionAmount)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+              {SAR_DENOMINATIONS.map((denomination) => (
+                <Field key={denomination.key} className="gap-1">
+                  <FieldLabel>{denomination.label}</FieldLabel>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={1}
+                    inputMode="numeric"
+                    value={counts[denomination.key] ?? ''}
+                    onChange={(e) => setCounts((prev) => ({ ...prev, [denomination.key]: e.target.value }))}
+                    placeholder="0"
+                  />
+                </Field>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-3 rounded-lg border p-3 text-center text-sm">
+              <div>
+                <div className="text-muted-foreground">المتوقع</div>
+                <div className="font-semibold">{formatCurrency(summary.expectedAmount)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">المعدود</div>
+                <div className="font-semibold">{formatCurrency(summary.countedAmount)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">
+                  {summary.outcome === 'short' ? 'عجز' : summary.outcome === 'over' ? 'زيادة' : 'الفرق'}
+                </div>
+                <div
+                  className={
+                    summary.outcome === 'short'
+                      ? 'font-semibold text-red-700'
+                      : summary.outcome === 'over'
+                        ? 'font-semibold text-emerald-700'
+                        : 'font-semibold'
+                  }
+                >
+                  {formatCurrency(summary.varianceAmount)}
+                </div>
+              </div>
+            </div>
+
+            {hasVariance && (
+              <div className="space-y-3">
+                <Field className="gap-2">
+                  <FieldLabel>معالجة الفرق</FieldLabel>
+                  <NativeSelect
+                    className="w-full"
+                    value={varianceResolution}
+                    onChange={(e) => setVarianceResolution(e.target.value as CashUpVarianceResolution)}
+                  >
+                    <NativeSelectOption value="wallet_adjustment">تسجيل الفرق على محفظة المندوب</NativeSelectOption>
+                    <NativeSelectOption value="resolved">تمت تسوية الفرق (مع ذكر السبب)</NativeSelectOption>
+                  </NativeSelect>
+                </Field>
+                {varianceResolution === 'resolved' && (
+                  <Field className="gap-2">
+                    <FieldLabel>سبب الفرق *</FieldLabel>
+                    <Textarea value={varianceNote} onChange={(e) => setVarianceNote(e.target.value)} rows={2} />
+                  </Field>
+                )}
+              </div>
+            )}
+
+            <div className="grid gap-3 md:grid-cols-2">
+              <Field className="gap-2">
+                <FieldLabel>طريقة الإيداع</FieldLabel>
+                <NativeSelect
+                  className="w-full"
+                  value={depositMethod}
+                  onChange={(e) => setDepositMethod(e.target.value as CashUpDepositMethod)}
+                >
+                  {Object.entries(CASH_UP_DEPOSIT_METHOD_LABELS).map(([value, label]) => (
+                    <NativeSelectOption key={value} value={value}>
+                      {label}
+                    </NativeSelectOption>
+                  ))}
+                </NativeSelect>
+              </Field>
+              <Field className="gap-2">
+                <FieldLabel>مرجع الإيداع *</FieldLabel>
+                <Input
+                  value={depositReference}
+                  onChange={(e) => setDepositReference(e.target.value)}
+                  placeholder="رقم إيصال الإيداع أو العملية"
+                />
+              </Field>
+            </div>
+
+            <Field className="gap-2">
+              <FieldLabel>ملاحظات</FieldLabel>
+              <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+            </Field>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">توقيع المندوب *</p>
+              <SignaturePad onChange={setSignature} disabled={Boolean(busy)} />
+            </div>
+
+            <DialogFooter className="gap-2">
+              <Button onClick={() => run('close')} disabled={Boolean(busy) || !canClose}>
+                {busy === 'close' ? 'جاري الإغلاق...' : 'إغلاق الجلسة وإصدار الإيصال'}
+              </Button>
+              <Button variant="outline" onClick={() => run('save')} disabled={Boolean(busy)}>
+                {busy === 'save' ? 'جاري الحفظ...' : 'حفظ العد'}
+              </Button>
+              <Button variant="ghost" onClick={() => run('cancel')} disabled={Boolean(busy)}>
+                {busy === 'cancel' ? 'جاري الإلغاء...' : 'إلغاء الجلسة'}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
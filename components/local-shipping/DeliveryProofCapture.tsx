@@ -0,0 +1,140 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Camera, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { SignaturePad } from '@/components/ui/signature-pad';
+
+export interface DeliveryProofDraft {
+  photo: string | null;
+  signature: string | null;
+  recipientName: string;
+}
+
+export const EMPTY_DELIVERY_PROOF: DeliveryProofDraft = { photo: null, signature: null, recipientName: '' };
+
+interface DeliveryProofCaptureProps {
+  value: DeliveryProofDraft;
+  /** Receives only the changed fields; merge them into the draft. */
+  onChange: (patch: Partial<DeliveryProofDraft>) => void;
+  disabled?: boolean;
+}
+
+// Phone cameras produce 3-12 MB images; this keeps uploads around 150-300 KB.
+const PHOTO_MAX_EDGE = 1280;
+const PHOTO_QUALITY = 0.7;
+
+function loadImage(file: File): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('تعذر قراءة الصورة'));
+    };
+    image.src = url;
+  });
+}
+
+async function compressPhoto(file: File): Promise<string> {
+  const image = await loadImage(file);
+  const scale = Math.min(1, PHOTO_MAX_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('تعذر معالجة الصورة');
+  }
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', PHOTO_QUALITY);
+}
+
+/**
+ * Photo of the handed-over parcel plus the recipient's finger-drawn signature,
+ * captured in the delivery dialog before the OTP is confirmed.
+ */
+export function DeliveryProofCapture({ value, onChange, disabled = false }: DeliveryProofCaptureProps) {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [processing, setProcessing] = useState(false);
+  const [photoError, setPhotoError] = useState('');
+
+  const handlePhoto = async (file: File | undefined) => {
+    if (!file) return;
+    setProcessing(true);
+    setPhotoError('');
+    try {
+      onChange({ photo: await compressPhoto(file) });
+    } catch (err) {
+      setPhotoError(err instanceof Error ? err.message : 'تعذر معالجة الصورة');
+    } finally {
+      setProcessing(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <label className="text-sm font-medium text-gray-700">إثبات التسليم (صورة أو توقيع) *</label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled || processing}
+        >
+          <Camera className="h-4 w-4" />
+          {processing ? 'جاري المعالجة...' : value.photo ? 'إعادة التصوير' : 'تصوير الشحنة'}
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          className="hidden"
+          onChange={(e) => handlePhoto(e.target.files?.[0])}
+        />
+      </div>
+      {photoError && <p className="text-xs text-red-600">{photoError}</p>}
+      {value.photo && (
+        <div className="relative">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={value.photo} alt="صورة التسليم" className="max-h-48 w-full rounded-md object-contain bg-gray-50" />
+          <Button
+            type="button"
+            variant="secondary"
+            size="icon"
+            aria-label="حذف الصورة"
+            className="absolute top-2 left-2 h-7 w-7"
+            onClick={() => onChange({ photo: null })}
+            disabled={disabled}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+      <div>
+        <p className="mb-1 text-xs text-gray-600">توقيع المستلم</p>
+        <SignaturePad
+          height={150}
+          disabled={disabled}
+          onChange={(signature) => onChange({ signature })}
+        />
+      </div>
+      <Input
+        value={value.recipientName}
+        onChange={(e) => onChange({ recipientName: e.target.value })}
+        placeholder="اسم المستلم (اختياري)"
+        disabled={disabled}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Download } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ProofFile {
+  url: string;
+  fileSize: number;
+  capturedByName: string | null;
+  capturedAt: string;
+}
+
+interface DeliveryProof {
+  assignmentId: string;
+  status: string;
+  recipientName: string | null;
+  deliveredAt: string | null;
+  deliveryOtpVerifiedAt: string | null;
+  photo: ProofFile | null;
+  signature: ProofFile | null;
+  shipment: { orderNumber: string; trackingNumber: string; customerName: string; customerPhone: string };
+  deliveryAgent: { id: string; name: string; username: string };
+}
+
+interface DeliveryProofDialogProps {
+  /** The assignment to show; null keeps the dialog closed. */
+  assignmentId: string | null;
+  onClose: () => void;
+}
+
+const formatDateTime = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleString('en-GB', {
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+      })
+    : '—';
+
+/** POD viewer for dispatchers answering a "never received it" dispute. */
+export function DeliveryProofDialog({ assignmentId, onClose }: DeliveryProofDialogProps) {
+  const [proof, setProof] = useState<DeliveryProof | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!assignmentId) {
+      setProof(null);
+      setError('');
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+    fetch(`/api/shipment-assignments/${assignmentId}/proof`)
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok || !data.proof) {
+          throw new Error(data.error || 'تعذر تحميل إثبات التسليم');
+        }
+        if (!cancelled) setProof(data.proof);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'تعذر تحميل إثبات التسليم');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [assignmentId]);
+
+  const hasFiles = Boolean(proof?.photo || proof?.signature);
+
+  return (
+    <Dialog open={Boolean(assignmentId)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>إثبات التسليم</DialogTitle>
+          <DialogDescription>
+            {proof ? `طلب ${proof.shipment.orderNumber} • ${proof.shipment.trackingNumber}` : 'جاري التحميل...'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading && !proof && <p className="text-sm text-gray-500">جاري تحميل الإثبات...</p>}
+
+        {proof && (
+          <div className="space-y-4">
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+              <dt className="text-gray-500">العميل</dt>
+              <dd>{proof.shipment.customerName}</dd>
+              <dt className="text-gray-500">المستلم</dt>
+              <dd>{proof.recipientName || '—'}</dd>
+              <dt className="text-gray-500">المندوب</dt>
+              <dd>{proof.deliveryAgent.name}</dd>
+              <dt className="text-gray-500">وقت التسليم</dt>
+              <dd>{formatDateTime(proof.deliveredAt)}</dd>
+              <dt className="text-gray-500">رمز التحقق</dt>
+              <dd>
+                {proof.deliveryOtpVerifiedAt ? (
+                  <Badge variant="default">تم التأكيد {formatDateTime(proof.deliveryOtpVerifiedAt)}</Badge>
+                ) : (
+                  <Badge variant="outline">لم يتم</Badge>
+                )}
+              </dd>
+            </dl>
+
+            {!hasFiles && <p className="text-sm text-amber-700">لم يلتقط المندوب صورة أو توقيعاً لهذه الشحنة.</p>}
+
+            {proof.photo && (
+              <figure className="space-y-1">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={proof.photo.url}
+                  alt="صورة التسليم"
+                  className="max-h-80 w-full rounded-md border object-contain bg-gray-50"
+                />
+                <figcaption className="text-xs text-gray-500">
+                  صورة التسليم • {formatDateTime(proof.photo.capturedAt)}
+                </figcaption>
+              </figure>
+            )}
+
+            {proof.signature && (
+              <figure className="space-y-1">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={proof.signature.url}
+                  alt="توقيع المستلم"
+                  className="max-h-40 rounded-md border bg-white"
+                />
+                <figcaption className="text-xs text-gray-500">
+                  توقيع المستلم • {formatDateTime(proof.signature.capturedAt)}
+                </figcaption>
+              </figure>
+            )}
+
+            {hasFiles && (
+              <Button asChild>
+                <a href={`/api/shipment-assignments/${proof.assignmentId}/proof/pdf`}>
+                  <Download className="h-4 w-4" />
+                  تحميل ملف الإثبات (PDF)
+                </a>
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,246 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, MapPin, Printer } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { useToast } from '@/components/ui/use-toast';
+
+interface RouteStop {
+  id: string;
+  sequence: number;
+  orderNumber: string;
+  trackingNumber: string;
+  customerName: string;
+  customerPhone: string;
+  address: string;
+  clusterLabel: string;
+  positionSource: 'coordinates' | 'district' | 'city' | 'none';
+  legKm: number | null;
+  mapsLink: string | null;
+  isCOD: boolean;
+  codAmount: number;
+}
+
+interface DeliveryRoute {
+  agent: { id: string; name: string; username: string };
+  plannedAt: string | null;
+  totalKm: number;
+  roughlyPlacedCount: number;
+  stops: RouteStop[];
+}
+
+interface DeliveryRouteCardProps {
+  /** Omit for the signed-in delivery agent's own route. */
+  agentId?: string | null;
+  /** Bump to reload after assignments change elsewhere on the page. */
+  refreshKey?: number;
+}
+
+const POSITION_LABELS: Record<RouteStop['positionSource'], string | null> = {
+  coordinates: null,
+  district: 'موقع تقريبي (الحي)',
+  city: 'موقع تقريبي (المدينة)',
+  none: 'بدون موقع',
+};
+
+export function DeliveryRouteCard({ agentId, refreshKey = 0 }: DeliveryRouteCardProps) {
+  const { toast } = useToast();
+  const [route, setRoute] = useState<DeliveryRoute | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const agentQuery = agentId ? `agentId=${encodeURIComponent(agentId)}` : '';
+
+  const loadRoute = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/shipment-assignments/route-plan?${agentQuery}`);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok || !data.route) {
+        throw new Error(data.error || 'تعذر تحميل مسار التوصيل');
+      }
+      setRoute(data.route);
+    } catch (err) {
+      setRoute(null);
+      setError(err instanceof Error ? err.message : 'تعذر تحميل مسار التوصيل');
+    } finally {
+      setLoading(false);
+    }
+  }, [agentQuery]);
+
+  useEffect(() => {
+    loadRoute();
+  }, [loadRoute, refreshKey]);
+
+  const saveRoute = async (method: 'POST' | 'PUT', assignmentIds?: string[]) => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/shipment-assignments/route-plan', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ agentId: agentId || undefined, assignmentIds }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok || !data.route) {
+        throw new Error(data.error || 'تعذر حفظ ترتيب المسار');
+      }
+      setRoute(data.route);
+      if (method === 'POST') {
+        toast({ title: 'تم ترتيب المسار', description: `المسافة التقريبية ${data.route.totalKm} كم` });
+      }
+    } catch (err) {
+      toast({
+        title: 'خطأ',
+        description: err instanceof Error ? err.message : 'تعذر حفظ ترتيب المسار',
+        variant: 'destructive',
+      });
+      loadRoute();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const moveStop = (index: number, offset: -1 | 1) => {
+    if (!route) return;
+    const target = index + offset;
+    if (target < 0 || target >= route.stops.length) return;
+    const ids = route.stops.map((stop) => stop.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    saveRoute('PUT', ids);
+  };
+
+  const pdfUrl = (withLabels: boolean) =>
+    `/api/shipment-assignments/route-plan/pdf?${[agentQuery, withLabels ? 'labels=1' : ''].filter(Boolean).join('&')}`;
+
+  const codTotal = route?.stops.reduce((sum, stop) => sum + (stop.isCOD ? stop.codAmount : 0), 0) ?? 0;
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">مسار التوصيل</h3>
+          {route && route.stops.length > 0 && (
+            <p className="text-sm text-gray-500">
+              {route.stops.length} محطة • حوالي {route.totalKm} كم
+              {codTotal > 0 && ` • تحصيل ${codTotal.toFixed(2)} ر.س`}
+            </p>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => saveRoute('POST')}
+            disabled={saving || loading || !route || route.stops.length < 2}
+          >
+            {saving ? 'جاري الترتيب...' : 'ترتيب تلقائي'}
+          </Button>
+          {route && route.stops.length > 0 && (
+            <>
+              <Button variant="outline" size="sm" asChild>
+                <a href={pdfUrl(false)} target="_blank" rel="noopener noreferrer">
+                  <Printer className="h-4 w-4" />
+                  طباعة المسار
+                </a>
+              </Button>
+              <Button size="sm" asChild>
+                <a href={pdfUrl(true)} target="_blank" rel="noopener noreferrer">
+                  <Printer className="h-4 w-4" />
+                  المسار مع البوالص
+                </a>
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading && !route ? (
+        <p className="text-sm text-gray-500">جاري تحميل المسار...</p>
+      ) : route && route.stops.length === 0 ? (
+        <p className="text-sm text-gray-500">لا توجد شحنات نشطة في المسار</p>
+      ) : (
+        route && (
+          <>
+            {route.roughlyPlacedCount > 0 && (
+              <p className="mb-3 text-xs text-amber-700">
+                {route.roughlyPlacedCount} من الشحنات بدون موقع دقيق، راجع ترتيبها قبل الانطلاق.
+              </p>
+            )}
+            <ol className="space-y-2">
+              {route.stops.map((stop, index) => {
+                const showCluster = index === 0 || route.stops[index - 1].clusterLabel !== stop.clusterLabel;
+                const positionLabel = POSITION_LABELS[stop.positionSource];
+                return (
+                  <li key={stop.id}>
+                    {showCluster && (
+                      <p className="mt-3 mb-1 text-xs font-semibold text-rose-700">{stop.clusterLabel}</p>
+                    )}
+                    <div className="flex items-start gap-3 rounded-lg border p-3">
+                      <span className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full border text-sm font-semibold">
+                        {stop.sequence}
+                      </span>
+                      <div className="min-w-0 flex-1 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium">{stop.customerName}</span>
+                          <span className="text-xs text-gray-500">#{stop.orderNumber}</span>
+                          {stop.isCOD && <Badge variant="secondary">COD {stop.codAmount.toFixed(2)}</Badge>}
+                          {positionLabel && <Badge variant="outline">{positionLabel}</Badge>}
+                        </div>
+                        <p className="truncate text-sm text-gray-600">{stop.address}</p>
+                        <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500">
+                          {stop.legKm !== null && <span>+{stop.legKm} كم</span>}
+                          {stop.mapsLink && (
+                            <a
+                              href={stop.mapsLink}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+                            >
+                              <MapPin className="h-3 w-3" />
+                              الخريطة
+                            </a>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex flex-col gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="تقديم المحطة"
+                          onClick={() => moveStop(index, -1)}
+                          disabled={saving || index === 0}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="تأخير المحطة"
+                          onClick={() => moveStop(index, 1)}
+                          disabled={saving || index === route.stops.length - 1}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          </>
+        )
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { PackageCheck } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+
+interface ReturningShipment {
+  id: string;
+  orderNumber: string;
+  trackingNumber: string;
+  customerName: string;
+  shippingCity: string;
+  returnStartedAt: string | null;
+  returnReason: string | null;
+  attempts: number;
+  deliveryAgent: { id: string; name: string; username: string } | null;
+}
+
+interface RestockResult {
+  sku: string;
+  quantity: number;
+  name: string | null;
+  ok: boolean;
+  error?: string;
+}
+
+interface ReturningShipmentsCardProps {
+  /** Bump to reload after assignments change elsewhere on the page. */
+  refreshKey?: number;
+}
+
+const formatDateTime = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleString('en-GB', {
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+      })
+    : '—';
+
+/**
+ * Shipments that ran out of delivery attempts; receiving one puts its items
+ * back into Salla stock.
+ */
+export function ReturningShipmentsCard({ refreshKey = 0 }: ReturningShipmentsCardProps) {
+  const { toast } = useToast();
+  const [shipments, setShipments] = useState<ReturningShipment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [receivingId, setReceivingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const loadShipments = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch('/api/shipment-assignments/returns');
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر تحميل الشحنات العائدة');
+      }
+      setShipments(data.shipments || []);
+    } catch (err) {
+      setShipments([]);
+      setError(err instanceof Error ? err.message : 'تعذر تحميل الشحنات العائدة');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadShipments();
+  }, [loadShipments, refreshKey]);
+
+  const receiveShipment = async (shipment: ReturningShipment) => {
+    setReceivingId(shipment.id);
+    try {
+      const response = await fetch(`/api/shipment-assignments/returns/${shipment.id}/receive`, {
+        method: 'POST',
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر استلام الشحنة');
+      }
+      const failed = ((data.restocked || []) as RestockResult[]).filter((line) => !line.ok);
+      toast({
+        title: `تم استلام الطلب ${shipment.orderNumber}`,
+        description: failed.length
+          ? `تعذر إرجاع ${failed.map((line) => line.sku).join('، ')} للمخزون، يرجى تعديله يدوياً.`
+          : 'أعيدت المنتجات إلى المخزون في سلة.',
+        variant: failed.length ? 'destructive' : undefined,
+      });
+      setShipments((prev) => prev.filter((item) => item.id !== shipment.id));
+    } catch (err) {
+      toast({
+        title: 'تعذر استلام الشحنة',
+        description: err instanceof Error ? err.message : 'حدث خطأ غير متوقع',
+        variant: 'destructive',
+      });
+    } finally {
+      setReceivingId(null);
+    }
+  };
+
+  if (loading && shipments.length === 0) {
+    return <p className="text-sm text-gray-500">جاري التحميل...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {!error && shipments.length === 0 && (
+        <p className="text-sm text-gray-500">لا توجد شحنات في طريق العودة للمستودع.</p>
+      )}
+      {shipments.map((shipment) => (
+        <div
+          key={shipment.id}
+          className="flex flex-col gap-3 rounded-lg border p-4 md:flex-row md:items-center md:justify-between"
+        >
+          <div className="space-y-1 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-semibold">#{shipment.orderNumber}</span>
+              <span className="font-mono text-xs text-gray-500">{shipment.trackingNumber}</span>
+              <Badge variant="outline">{shipment.attempts} محاولات</Badge>
+            </div>
+            <div>
+              {shipment.customerName} • {shipment.shippingCity}
+              {shipment.deliveryAgent && ` • المندوب: ${shipment.deliveryAgent.name}`}
+            </div>
+            {shipment.returnReason && <div className="text-red-700">{shipment.returnReason}</div>}
+            <div className="text-xs text-gray-500">منذ {formatDateTime(shipment.returnStartedAt)}</div>
+          </div>
+          <Button onClick={() => receiveShipment(shipment)} disabled={receivingId === shipment.id}>
+            <PackageCheck className="h-4 w-4" />
+            {receivingId === shipment.id ? 'جاري الاستلام...' : 'استلام وإرجاع للمخزون'}
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  SHIPPING_OPTION_LABELS,
+  isShippingOptionCode,
+  type CarrierSelectionDecision,
+  type ShippingOptionCode,
+} from '@/app/lib/carrier-rates';
+
+interface CarrierRecommendationCardProps {
+  orderId: string;
+  merchantId: string | null;
+  orderData: unknown;
+  selectedCarrier: ShippingOptionCode | null;
+  onSelect: (carrier: ShippingOptionCode) => void;
+  /** Called once per order with the carrier to preselect. */
+  onRecommendation: (carrier: ShippingOptionCode | null) => void;
+}
+
+const describeDays = (min: number, max: number) => (min === max ? `${max} يوم` : `${min}-${max} أيام`);
+
+export function CarrierRecommendationCard({
+  orderId,
+  merchantId,
+  orderData,
+  selectedCarrier,
+  onSelect,
+  onRecommendation,
+}: CarrierRecommendationCardProps) {
+  const [decision, setDecision] = useState<CarrierSelectionDecision | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch('/api/shipments/carrier-quotes', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ orderId, merchantId, orderData }),
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok || !data.decision) {
+          throw new Error(data.error || 'تعذر حساب أسعار الشحن');
+        }
+        if (cancelled) return;
+        setDecision(data.decision);
+        onRecommendation(data.decision.carrier ?? null);
+      } catch (err) {
+        if (cancelled) return;
+        setDecision(null);
+        setError(err instanceof Error ? err.message : 'تعذر حساب أسعار الشحن');
+        onRecommendation(null);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+    // Quotes are per order; re-running on every orderData identity change would
+    // override a carrier the user already picked.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orderId, merchantId]);
+
+  return (
+    <Card className="mt-6 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-base font-bold text-gray-900">شركة الشحن المقترحة</h3>
+        {decision && (
+          <span className="text-xs text-gray-500">
+            المعيار: {decision.strategy === 'fastest' ? 'الأسرع' : 'الأرخص'}
+          </span>
+        )}
+      </div>
+
+      {loading && <p className="mt-2 text-sm text-gray-500">جاري حساب الأسعار...</p>}
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      {decision && (
+        <>
+          <p className="mt-2 text-sm text-gray-700">{decision.explanation}</p>
+          {decision.quotes.length > 0 && (
+            <RadioGroup
+              value={selectedCarrier || ''}
+              onValueChange={(value) => {
+                if (isShippingOptionCode(value)) onSelect(value);
+              }}
+              className="mt-3 space-y-2"
+            >
+              {decision.quotes.map((quote) => (
+                <label
+                  key={quote.carrier}
+                  className="flex items-start gap-3 rounded-lg border border-gray-200 p-3 hover:bg-gray-50 cursor-pointer"
+                >
+                  <RadioGroupItem value={quote.carrier} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold text-gray-900">
+                      {SHIPPING_OPTION_LABELS[quote.carrier]}
+                      {quote.carrier === decision.carrier && (
+                        <span className="mr-2 rounded-full bg-emerald-100 px-2 py-0.5 text-xs text-emerald-800">
+                          موصى بها
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {quote.total} {quote.currency} • {describeDays(quote.estimatedDaysMin, quote.estimatedDaysMax)} •{' '}
+                      {quote.rateCardName}
+                    </p>
+                  </div>
+                </label>
+              ))}
+            </RadioGroup>
+          )}
+          {decision.excluded.length > 0 && (
+            <ul className="mt-3 space-y-1 text-xs text-gray-500">
+              {decision.excluded.map((entry) => (
+                <li key={entry.carrier}>
+                  {SHIPPING_OPTION_LABELS[entry.carrier]}: {entry.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
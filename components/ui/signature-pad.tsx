@@ -0,0 +1,108 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+interface SignaturePadProps {
+  /** Called with a PNG data URL after each stroke, or null once cleared. */
+  onChange: (dataUrl: string | null) => void;
+  className?: string;
+  height?: number;
+  disabled?: boolean;
+}
+
+/**
+ * Finger/stylus signature capture on a canvas. Exports a white-background PNG
+ * so it embeds cleanly in PDFs.
+ */
+export function SignaturePad({ onChange, className, height = 180, disabled = false }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const drawingRef = useRef(false);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  const resetCanvas = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = height * ratio;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.offsetWidth, height);
+    context.lineWidth = 2.2;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#111827';
+  }, [height]);
+
+  useEffect(() => {
+    resetCanvas();
+  }, [resetCanvas]);
+
+  const pointFromEvent = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = true;
+    lastPointRef.current = pointFromEvent(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current || !lastPointRef.current) return;
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    const point = pointFromEvent(event);
+    context.beginPath();
+    context.moveTo(lastPointRef.current.x, lastPointRef.current.y);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+    lastPointRef.current = point;
+    if (isEmpty) setIsEmpty(false);
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    lastPointRef.current = null;
+    if (!isEmpty && canvasRef.current) {
+      onChange(canvasRef.current.toDataURL('image/png'));
+    }
+  };
+
+  const handleClear = () => {
+    resetCanvas();
+    setIsEmpty(true);
+    onChange(null);
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <canvas
+        ref={canvasRef}
+        style={{ height, touchAction: 'none' }}
+        className={cn(
+          'w-full rounded-lg border border-dashed border-slate-300 bg-white',
+          disabled && 'cursor-not-allowed opacity-60',
+        )}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      />
+      <div className="flex items-center justify-between text-xs text-slate-500">
+        <span>{isEmpty ? 'وقّع داخل المربع' : 'تم التقاط التوقيع'}</span>
+        <Button type="button" size="sm" variant="ghost" onClick={handleClear} disabled={disabled || isEmpty}>
+          مسح التوقيع
+        </Button>
+      </div>
+    </div>
+  );
+}
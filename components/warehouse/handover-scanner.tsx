@@ -34,6 +34,8 @@ interface ScanResult {
   message: string;
   trackingNumber?: string;
   confirmedAt?: string | null;
+  manifestNumber?: string | null;
+  manifestError?: string | null;
 }
 
 export function HandoverScanner({
@@ -166,6 +168,8 @@ export function HandoverScanner({
           message: data.message || 'تمت المعالجة بنجاح',
           trackingNumber: normalized,
           confirmedAt,
+          manifestNumber: data?.manifest?.manifestNumber || null,
+          manifestError: data?.manifestError || null,
         });
         if (outcome === 'confirmed') {
           playSuccessBeep();
@@ -412,6 +416,14 @@ export function HandoverScanner({
                   وقت التأكيد: {new Date(result.confirmedAt).toLocaleTimeString('ar-SA')}
                 </p>
               )}
+              {result.manifestNumber && (
+                <p className="text-sm opacity-80">
+                  بيان التسليم: <span className="font-mono">{result.manifestNumber}</span>
+                </p>
+              )}
+              {result.manifestError && (
+                <p className="text-sm font-medium text-amber-700">{result.manifestError}</p>
+              )}
             </div>
           )}
         </CardContent>
@@ -0,0 +1,238 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ar } from 'date-fns/locale';
+import { AlertTriangle, FileText, Loader2, PenLine } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { SignaturePad } from '@/components/ui/signature-pad';
+import { SHIPMENT_COMPANIES } from '@/lib/shipment-detector';
+
+interface ManifestTotals {
+  shipmentCount: number;
+  pieceCount: number;
+  codTotal: number;
+  codShipmentCount: number;
+}
+
+interface PickupManifestSummary {
+  id: string;
+  manifestNumber: string;
+  company: string;
+  status: 'open' | 'signed';
+  driverName: string | null;
+  signedAt: string | null;
+  createdAt: string;
+  totals: ManifestTotals;
+}
+
+interface UnmanifestedShipment {
+  trackingNumber: string;
+  company: string;
+  orderNumber: string | null;
+  labelledAt: string;
+  expectedManifestNumber: string;
+}
+
+interface PickupManifestsProps {
+  warehouseId?: string;
+  /** Bumped by the parent after each handover scan. */
+  refreshKey?: number;
+}
+
+const companyName = (company: string) => SHIPMENT_COMPANIES[company]?.nameAr || company;
+
+export function PickupManifests({ warehouseId, refreshKey = 0 }: PickupManifestsProps) {
+  const [manifests, setManifests] = useState<PickupManifestSummary[]>([]);
+  const [unmanifested, setUnmanifested] = useState<UnmanifestedShipment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [signing, setSigning] = useState<PickupManifestSummary | null>(null);
+  const [driverName, setDriverName] = useState('');
+  const [driverPhone, setDriverPhone] = useState('');
+  const [signature, setSignature] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [signError, setSignError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!warehouseId) {
+      setManifests([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const [manifestsResponse, unmanifestedResponse] = await Promise.all([
+        fetch(`/api/shipments/manifests?warehouseId=${encodeURIComponent(warehouseId)}`, { cache: 'no-store' }),
+        fetch('/api/shipments/manifests/unmanifested', { cache: 'no-store' }),
+      ]);
+      const manifestsData = await manifestsResponse.json();
+      if (!manifestsResponse.ok) {
+        throw new Error(manifestsData.error || 'تعذر تحميل بيانات التسليم');
+      }
+      setManifests(Array.isArray(manifestsData.manifests) ? manifestsData.manifests : []);
+      const unmanifestedData = await unmanifestedResponse.json().catch(() => ({}));
+      setUnmanifested(unmanifestedResponse.ok && Array.isArray(unmanifestedData.shipments) ? unmanifestedData.shipments : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'تعذر تحميل بيانات التسليم');
+    } finally {
+      setLoading(false);
+    }
+  }, [warehouseId]);
+
+  useEffect(() => {
+    void load();
+  }, [load, refreshKey]);
+
+  const openSignDialog = (manifest: PickupManifestSummary) => {
+    setSigning(manifest);
+    setDriverName('');
+    setDriverPhone('');
+    setSignature(null);
+    setSignError(null);
+  };
+
+  const handleSign = async () => {
+    if (!signing) return;
+    setSubmitting(true);
+    setSignError(null);
+    try {
+      const response = await fetch(`/api/shipments/manifests/${signing.id}/sign`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ driverName, driverPhone, signatureDataUrl: signature }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'تعذر حفظ التوقيع');
+      }
+      const manifestId = signing.id;
+      setSigning(null);
+      window.open(`/api/shipments/manifests/${manifestId}/pdf`, '_blank', 'noopener,noreferrer');
+      await load();
+    } catch (err) {
+      setSignError(err instanceof Error ? err.message : 'تعذر حفظ التوقيع');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!warehouseId) {
+    return null;
+  }
+
+  return (
+    <Card className="rounded-2xl">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span>بيانات تسليم شركات الشحن</span>
+          {loading && <Loader2 className="h-4 w-4 animate-spin text-slate-400" />}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {manifests.length === 0 ? (
+          <p className="text-sm text-slate-500">لا توجد بيانات تسليم اليوم. يُفتح بيان تلقائياً عند أول مسح تسليم.</p>
+        ) : (
+          <ul className="divide-y rounded-xl border border-slate-200">
+            {manifests.map((manifest) => (
+              <li key={manifest.id} className="flex flex-col gap-2 p-3 sm:flex-row sm:items-center sm:justify-between">
+                <div className="space-y-0.5">
+                  <p className="font-semibold text-slate-900">
+                    {companyName(manifest.company)} · <span className="font-mono text-sm">{manifest.manifestNumber}</span>
+                  </p>
+                  <p className="text-xs text-slate-600">
+                    {manifest.totals.shipmentCount} شحنة · {manifest.totals.pieceCount} قطعة · تحصيل{' '}
+                    {manifest.totals.codTotal} ر.س
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {manifest.status === 'signed' && manifest.signedAt
+                      ? `وقّعه ${manifest.driverName || 'المندوب'} ${format(new Date(manifest.signedAt), 'HH:mm', { locale: ar })}`
+                      : 'مفتوح بانتظار توقيع المندوب'}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  {manifest.status === 'open' && (
+                    <Button size="sm" onClick={() => openSignDialog(manifest)} className="rounded-xl">
+                      <PenLine className="h-4 w-4" />
+                      توقيع المندوب
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" className="rounded-xl" asChild>
+                    <a href={`/api/shipments/manifests/${manifest.id}/pdf`} target="_blank" rel="noopener noreferrer">
+                      <FileText className="h-4 w-4" />
+                      PDF
+                    </a>
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {unmanifested.length > 0 && (
+          <div className="space-y-2 rounded-xl border border-amber-200 bg-amber-50 p-3">
+            <p className="flex items-center gap-2 text-sm font-semibold text-amber-900">
+              <AlertTriangle className="h-4 w-4" />
+              شحنات مطبوعة البوليصة لم تُدرج في أي بيان تسليم ({unmanifested.length})
+            </p>
+            <ul className="space-y-1 text-xs text-amber-900">
+              {unmanifested.map((shipment) => (
+                <li key={shipment.trackingNumber}>
+                  <span className="font-mono">{shipment.trackingNumber}</span>
+                  {shipment.orderNumber ? ` · طلب ${shipment.orderNumber}` : ''} · {companyName(shipment.company)} ·
+                  كان يجب أن تكون في {shipment.expectedManifestNumber}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={Boolean(signing)} onOpenChange={(open) => !open && !submitting && setSigning(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>توقيع مندوب {signing ? companyName(signing.company) : ''}</DialogTitle>
+            <DialogDescription>
+              {signing
+                ? `يستلم المندوب ${signing.totals.shipmentCount} شحنة (${signing.totals.pieceCount} قطعة) بتحصيل ${signing.totals.codTotal} ر.س.`
+                : ''}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Input placeholder="اسم المندوب" value={driverName} onChange={(e) => setDriverName(e.target.value)} />
+            <Input
+              placeholder="جوال المندوب (اختياري)"
+              value={driverPhone}
+              onChange={(e) => setDriverPhone(e.target.value)}
+              inputMode="tel"
+            />
+            <SignaturePad onChange={setSignature} disabled={submitting} />
+            {signError && <p className="text-sm text-red-600">{signError}</p>}
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              onClick={handleSign}
+              disabled={submitting || !driverName.trim() || !signature}
+              className="rounded-xl"
+            >
+              {submitting ? 'جاري الحفظ...' : 'تأكيد التسليم'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,3 +1,5 @@
+import { parseShortAddress } from '@/lib/saudi-address';
+
 const ADDRESS_LINE_KEYS = [
   'address',
   'address_1',
@@ -33,6 +35,7 @@ const ADDRESS_LINE_KEYS = [
   'notes',
 ] as const;
 
+const SHORT_ADDRESS_KEYS = new Set<string>(['short_address', 'shortAddress']);
 const CITY_FIELD_KEYS = ['city', 'city_name', 'cityName', 'region', 'state', 'province', 'governorate'] as const;
 const COUNTRY_FIELD_KEYS = ['country', 'country_name', 'countryName'] as const;
 const POSTAL_FIELD_KEYS = ['postal_code', 'postalCode', 'zip', 'zip_code', 'zipcode', 'postcode'] as const;
@@ -83,7 +86,8 @@ const collectAddressParts = (records: Array<UnknownRecord | null>) => {
   for (const record of records) {
     if (!record) continue;
     for (const key of ADDRESS_LINE_KEYS) {
-      const value = normalizeText(record[key]);
+      const text = normalizeText(record[key]);
+      const value = SHORT_ADDRESS_KEYS.has(key) ? (parseShortAddress(text) ?? text) : text;
       const normalizedValue = value.toLowerCase();
       const alreadyIncluded = parts.some((part) => part.toLowerCase().includes(normalizedValue));
       if (value && !alreadyIncluded) {
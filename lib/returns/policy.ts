@@ -224,12 +224,12 @@ export const resolveReturnDeliveryDate = async (
       merchantId,
       OR: [{ orderId }, { orderNumber }].filter((entry) => Object.values(entry)[0]),
     },
-    include: { assignment: true },
+    include: { assignments: { where: { status: 'delivered' }, take: 1 } },
     orderBy: { updatedAt: 'desc' },
   });
 
   const localDeliveryDate =
-    getDeliveryDateFromRecord(localShipment?.assignment as AnyRecord | null | undefined, 'localShipment.assignment') ??
+    getDeliveryDateFromRecord(localShipment?.assignments[0] as AnyRecord | null | undefined, 'localShipment.assignment') ??
     getDeliveryDateFromRecord(localShipment as AnyRecord | null | undefined, 'localShipment') ??
     (localShipment?.status?.toLowerCase() === 'delivered'
       ? { date: localShipment.updatedAt, source: 'localShipment.updatedAt' }
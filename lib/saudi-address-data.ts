@@ -0,0 +1,239 @@
+/**
+ * Bundled Saudi city and district names for address normalization. Cities
+ * cover every place we ship to regularly; district lists are partial and only
+ * used to canonicalize spelling, never to reject an address. Centroids are
+ * rough (about a kilometre) and only good enough to order delivery stops.
+ */
+
+export type SaudiRegion =
+  | 'riyadh'
+  | 'makkah'
+  | 'madinah'
+  | 'eastern'
+  | 'qassim'
+  | 'hail'
+  | 'tabuk'
+  | 'asir'
+  | 'jazan'
+  | 'najran'
+  | 'baha'
+  | 'northern_borders'
+  | 'jouf';
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface SaudiDistrict {
+  nameAr: string;
+  nameEn: string;
+  centroid: GeoPoint;
+}
+
+export interface SaudiCity {
+  key: string;
+  nameEn: string;
+  nameAr: string;
+  region: SaudiRegion;
+  centroid: GeoPoint;
+  /** Other spellings seen on Salla orders, in either language. */
+  aliases: string[];
+  districts?: SaudiDistrict[];
+}
+
+/**
+ * First digit of the five-digit postcode per region. Regions we have not
+ * confirmed are left out and not checked.
+ */
+export const SAUDI_REGION_POSTCODE_DIGITS: Partial<Record<SaudiRegion, string[]>> = {
+  riyadh: ['1'],
+  makkah: ['2'],
+  eastern: ['3'],
+  madinah: ['4'],
+  qassim: ['5'],
+  hail: ['5'],
+  asir: ['6'],
+  najran: ['6'],
+  baha: ['6'],
+};
+
+const district = (nameAr: string, nameEn: string, lat: number, lng: number): SaudiDistrict => ({
+  nameAr,
+  nameEn,
+  centroid: { lat, lng },
+});
+
+export const SAUDI_CITIES: SaudiCity[] = [
+  {
+    key: 'riyadh',
+    nameEn: 'Riyadh',
+    nameAr: 'الرياض',
+    region: 'riyadh',
+    centroid: { lat: 24.71, lng: 46.68 },
+    aliases: ['Riyad', 'Ar Riyadh', 'Al Riyadh'],
+    districts: [
+      district('العليا', 'Al Olaya', 24.69, 46.685),
+      district('الملز', 'Al Malaz', 24.665, 46.73),
+      district('النسيم', 'An Naseem', 24.73, 46.83),
+      district('الروضة', 'Ar Rawdah', 24.735, 46.77),
+      district('السليمانية', 'As Sulimaniyah', 24.7, 46.7),
+      district('الياسمين', 'Al Yasmin', 24.825, 46.64),
+      district('النرجس', 'An Narjis', 24.86, 46.66),
+      district('الملقا', 'Al Malqa', 24.81, 46.61),
+      district('الصحافة', 'As Sahafah', 24.8, 46.64),
+      district('حطين', 'Hittin', 24.76, 46.6),
+      district('الربوة', 'Ar Rabwah', 24.69, 46.76),
+      district('السويدي', 'As Suwaidi', 24.59, 46.67),
+      district('العزيزية', 'Al Aziziyah', 24.58, 46.76),
+      district('الشفا', 'Ash Shifa', 24.56, 46.71),
+      district('النخيل', 'An Nakheel', 24.745, 46.64),
+      district('الورود', 'Al Wurud', 24.725, 46.68),
+      district('القيروان', 'Al Qirawan', 24.84, 46.58),
+      district('العارض', 'Al Arid', 24.88, 46.6),
+      district('المونسية', 'Al Munsiyah', 24.83, 46.78),
+      district('الرمال', 'Ar Rimal', 24.86, 46.84),
+    ],
+  },
+  {
+    key: 'jeddah',
+    nameEn: 'Jeddah',
+    nameAr: 'جدة',
+    region: 'makkah',
+    centroid: { lat: 21.54, lng: 39.17 },
+    aliases: ['Jedda', 'Jiddah', 'Jidda'],
+    districts: [
+      district('الروضة', 'Ar Rawdah', 21.56, 39.155),
+      district('الصفا', 'As Safa', 21.58, 39.21),
+      district('الحمراء', 'Al Hamra', 21.52, 39.17),
+      district('السلامة', 'As Salamah', 21.59, 39.15),
+      district('النعيم', 'An Naeem', 21.62, 39.15),
+      district('الزهراء', 'Az Zahra', 21.6, 39.13),
+      district('البوادي', 'Al Bawadi', 21.6, 39.17),
+      district('الفيصلية', 'Al Faisaliyah', 21.575, 39.175),
+      district('الشاطئ', 'Ash Shati', 21.6, 39.11),
+      district('أبحر الشمالية', 'Obhur Al Shamaliyah', 21.76, 39.12),
+      district('المروة', 'Al Marwah', 21.62, 39.2),
+      district('الربوة', 'Ar Rabwah', 21.6, 39.19),
+      district('النسيم', 'An Naseem', 21.54, 39.21),
+      district('السامر', 'As Samer', 21.6, 39.24),
+      district('الحمدانية', 'Al Hamdaniyah', 21.73, 39.19),
+      district('البلد', 'Al Balad', 21.485, 39.19),
+    ],
+  },
+  {
+    key: 'makkah',
+    nameEn: 'Makkah',
+    nameAr: 'مكة المكرمة',
+    region: 'makkah',
+    centroid: { lat: 21.42, lng: 39.83 },
+    aliases: ['Mecca', 'Makka', 'Makkah Al Mukarramah', 'مكة'],
+    districts: [
+      district('العزيزية', 'Al Aziziyah', 21.41, 39.87),
+      district('الشوقية', 'Ash Shawqiyah', 21.37, 39.8),
+      district('النسيم', 'An Naseem', 21.39, 39.88),
+      district('الزاهر', 'Az Zahir', 21.44, 39.8),
+      district('العوالي', 'Al Awali', 21.37, 39.86),
+      district('الششة', 'Ash Shisha', 21.4, 39.85),
+      district('الرصيفة', 'Ar Rusayfah', 21.41, 39.78),
+      district('الكعكية', 'Al Kakiyah', 21.38, 39.82),
+    ],
+  },
+  {
+    key: 'madinah',
+    nameEn: 'Madinah',
+    nameAr: 'المدينة المنورة',
+    region: 'madinah',
+    centroid: { lat: 24.47, lng: 39.61 },
+    aliases: ['Medina', 'Madina', 'Al Madinah', 'Al Madinah Al Munawwarah', 'المدينة'],
+    districts: [
+      district('قباء', 'Quba', 24.44, 39.62),
+      district('العوالي', 'Al Awali', 24.43, 39.64),
+      district('الحرة الشرقية', 'Al Harrah Ash Sharqiyah', 24.47, 39.65),
+      district('العزيزية', 'Al Aziziyah', 24.43, 39.58),
+      district('السيح', 'As Sih', 24.46, 39.6),
+      district('الدفاع', 'Ad Difa', 24.49, 39.58),
+      district('بني حارثة', 'Bani Harithah', 24.5, 39.62),
+    ],
+  },
+  {
+    key: 'dammam',
+    nameEn: 'Dammam',
+    nameAr: 'الدمام',
+    region: 'eastern',
+    centroid: { lat: 26.43, lng: 50.1 },
+    aliases: ['Ad Dammam', 'Al Dammam'],
+    districts: [
+      district('الفيصلية', 'Al Faisaliyah', 26.42, 50.07),
+      district('الشاطئ الغربي', 'Ash Shati Al Gharbi', 26.47, 50.13),
+      district('المزروعية', 'Al Mazruiyah', 26.43, 50.09),
+      district('الجلوية', 'Al Jalawiyah', 26.435, 50.11),
+      district('الريان', 'Ar Rayyan', 26.4, 50.06),
+      district('النزهة', 'An Nuzhah', 26.4, 50.12),
+      district('الروضة', 'Ar Rawdah', 26.39, 50.15),
+      district('العنود', 'Al Anud', 26.44, 50.08),
+      district('الخليج', 'Al Khalij', 26.45, 50.12),
+      district('الفيحاء', 'Al Fayha', 26.39, 50.04),
+    ],
+  },
+  {
+    key: 'khobar',
+    nameEn: 'Al Khobar',
+    nameAr: 'الخبر',
+    region: 'eastern',
+    centroid: { lat: 26.28, lng: 50.21 },
+    aliases: ['Khobar', 'Al-Khobar'],
+    districts: [
+      district('العقربية', 'Al Aqrabiyah', 26.295, 50.2),
+      district('الثقبة', 'Ath Thuqbah', 26.27, 50.19),
+      district('الخبر الشمالية', 'Al Khobar Ash Shamaliyah', 26.3, 50.21),
+      district('الراكة', 'Ar Rakah', 26.33, 50.19),
+      district('اليرموك', 'Al Yarmuk', 26.25, 50.18),
+      district('الحزام الذهبي', 'Al Hizam Adh Dhahabi', 26.25, 50.2),
+      district('العليا', 'Al Olaya', 26.26, 50.19),
+    ],
+  },
+  { key: 'dhahran', nameEn: 'Dhahran', nameAr: 'الظهران', region: 'eastern', centroid: { lat: 26.29, lng: 50.11 }, aliases: ['Az Zahran'] },
+  { key: 'qatif', nameEn: 'Qatif', nameAr: 'القطيف', region: 'eastern', centroid: { lat: 26.56, lng: 49.99 }, aliases: ['Al Qatif'] },
+  { key: 'saihat', nameEn: 'Saihat', nameAr: 'سيهات', region: 'eastern', centroid: { lat: 26.48, lng: 50.04 }, aliases: ['Sayhat'] },
+  { key: 'jubail', nameEn: 'Jubail', nameAr: 'الجبيل', region: 'eastern', centroid: { lat: 27.01, lng: 49.66 }, aliases: ['Al Jubail'] },
+  { key: 'ras_tanura', nameEn: 'Ras Tanura', nameAr: 'رأس تنورة', region: 'eastern', centroid: { lat: 26.64, lng: 50.16 }, aliases: ['Ras Tannurah'] },
+  { key: 'abqaiq', nameEn: 'Abqaiq', nameAr: 'بقيق', region: 'eastern', centroid: { lat: 25.93, lng: 49.67 }, aliases: ['Buqayq'] },
+  {
+    key: 'hofuf',
+    nameEn: 'Al Hofuf',
+    nameAr: 'الهفوف',
+    region: 'eastern',
+    centroid: { lat: 25.38, lng: 49.59 },
+    aliases: ['Hofuf', 'Al Ahsa', 'Al Hasa', 'Ahsa', 'الأحساء', 'الاحساء'],
+  },
+  { key: 'mubarraz', nameEn: 'Al Mubarraz', nameAr: 'المبرز', region: 'eastern', centroid: { lat: 25.41, lng: 49.59 }, aliases: ['Mubarraz'] },
+  { key: 'hafar_al_batin', nameEn: 'Hafar Al Batin', nameAr: 'حفر الباطن', region: 'eastern', centroid: { lat: 28.43, lng: 45.96 }, aliases: ['Hafr Al Batin'] },
+  { key: 'khafji', nameEn: 'Khafji', nameAr: 'الخفجي', region: 'eastern', centroid: { lat: 28.44, lng: 48.49 }, aliases: ['Al Khafji'] },
+  { key: 'taif', nameEn: 'Taif', nameAr: 'الطائف', region: 'makkah', centroid: { lat: 21.27, lng: 40.42 }, aliases: ['At Taif', 'Al Taif'] },
+  { key: 'rabigh', nameEn: 'Rabigh', nameAr: 'رابغ', region: 'makkah', centroid: { lat: 22.8, lng: 39.03 }, aliases: [] },
+  { key: 'qunfudhah', nameEn: 'Al Qunfudhah', nameAr: 'القنفذة', region: 'makkah', centroid: { lat: 19.13, lng: 41.08 }, aliases: ['Qunfudah', 'Al Qunfudah'] },
+  { key: 'yanbu', nameEn: 'Yanbu', nameAr: 'ينبع', region: 'madinah', centroid: { lat: 24.09, lng: 38.06 }, aliases: ['Yanbu Al Bahr', 'Yenbo'] },
+  { key: 'al_ula', nameEn: 'Al Ula', nameAr: 'العلا', region: 'madinah', centroid: { lat: 26.62, lng: 37.92 }, aliases: ['AlUla', 'Ula'] },
+  { key: 'tabuk', nameEn: 'Tabuk', nameAr: 'تبوك', region: 'tabuk', centroid: { lat: 28.38, lng: 36.57 }, aliases: ['Tabouk'] },
+  { key: 'buraidah', nameEn: 'Buraidah', nameAr: 'بريدة', region: 'qassim', centroid: { lat: 26.33, lng: 43.97 }, aliases: ['Buraydah', 'Buraida', 'Qassim', 'القصيم'] },
+  { key: 'unaizah', nameEn: 'Unaizah', nameAr: 'عنيزة', region: 'qassim', centroid: { lat: 26.08, lng: 43.99 }, aliases: ['Onaizah', 'Unayzah'] },
+  { key: 'ar_rass', nameEn: 'Ar Rass', nameAr: 'الرس', region: 'qassim', centroid: { lat: 25.87, lng: 43.5 }, aliases: ['Rass', 'Al Rass'] },
+  { key: 'hail', nameEn: 'Hail', nameAr: 'حائل', region: 'hail', centroid: { lat: 27.52, lng: 41.69 }, aliases: ["Ha'il", 'Hael'] },
+  { key: 'abha', nameEn: 'Abha', nameAr: 'أبها', region: 'asir', centroid: { lat: 18.22, lng: 42.5 }, aliases: [] },
+  { key: 'khamis_mushait', nameEn: 'Khamis Mushait', nameAr: 'خميس مشيط', region: 'asir', centroid: { lat: 18.3, lng: 42.73 }, aliases: ['Khamis Mushayt'] },
+  { key: 'bisha', nameEn: 'Bisha', nameAr: 'بيشة', region: 'asir', centroid: { lat: 20, lng: 42.6 }, aliases: [] },
+  { key: 'najran', nameEn: 'Najran', nameAr: 'نجران', region: 'najran', centroid: { lat: 17.49, lng: 44.13 }, aliases: [] },
+  { key: 'jazan', nameEn: 'Jazan', nameAr: 'جازان', region: 'jazan', centroid: { lat: 16.89, lng: 42.55 }, aliases: ['Jizan', 'Gizan', 'جيزان'] },
+  { key: 'sabya', nameEn: 'Sabya', nameAr: 'صبيا', region: 'jazan', centroid: { lat: 17.15, lng: 42.63 }, aliases: ['Sabia'] },
+  { key: 'baha', nameEn: 'Al Baha', nameAr: 'الباحة', region: 'baha', centroid: { lat: 20.01, lng: 41.47 }, aliases: ['Baha'] },
+  { key: 'arar', nameEn: 'Arar', nameAr: 'عرعر', region: 'northern_borders', centroid: { lat: 30.98, lng: 41.04 }, aliases: [] },
+  { key: 'sakaka', nameEn: 'Sakaka', nameAr: 'سكاكا', region: 'jouf', centroid: { lat: 29.97, lng: 40.21 }, aliases: ['Skaka', 'Al Jouf', 'الجوف'] },
+  { key: 'qurayyat', nameEn: 'Al Qurayyat', nameAr: 'القريات', region: 'jouf', centroid: { lat: 31.33, lng: 37.34 }, aliases: ['Qurayyat', 'Gurayat'] },
+  { key: 'kharj', nameEn: 'Al Kharj', nameAr: 'الخرج', region: 'riyadh', centroid: { lat: 24.16, lng: 47.31 }, aliases: ['Kharj'] },
+  { key: 'majmaah', nameEn: 'Al Majmaah', nameAr: 'المجمعة', region: 'riyadh', centroid: { lat: 25.9, lng: 45.34 }, aliases: ['Majmaah'] },
+  { key: 'dawadmi', nameEn: 'Ad Dawadimi', nameAr: 'الدوادمي', region: 'riyadh', centroid: { lat: 24.51, lng: 44.39 }, aliases: ['Dawadmi', 'Al Dawadmi'] },
+  { key: 'zulfi', nameEn: 'Az Zulfi', nameAr: 'الزلفي', region: 'riyadh', centroid: { lat: 26.3, lng: 44.81 }, aliases: ['Zulfi', 'Al Zulfi'] },
+  { key: 'wadi_ad_dawasir', nameEn: 'Wadi Ad Dawasir', nameAr: 'وادي الدواسر', region: 'riyadh', centroid: { lat: 20.46, lng: 44.79 }, aliases: ['Wadi Al Dawasir'] },
+  { key: 'diriyah', nameEn: 'Diriyah', nameAr: 'الدرعية', region: 'riyadh', centroid: { lat: 24.74, lng: 46.57 }, aliases: ['Ad Diriyah', 'Al Diriyah'] },
+];
@@ -0,0 +1,311 @@
+/**
+ * Saudi address normalization shared by carrier payloads, invoices and the
+ * order-shipping checks: National Address short codes, postcodes, city and
+ * district names against the bundled dataset, and a completeness score that
+ * predicts whether a courier will find the customer.
+ */
+import {
+  SAUDI_CITIES,
+  SAUDI_REGION_POSTCODE_DIGITS,
+  type SaudiCity,
+  type SaudiDistrict,
+} from '@/lib/saudi-address-data';
+
+export type { GeoPoint, SaudiCity, SaudiDistrict } from '@/lib/saudi-address-data';
+
+const ARABIC_DIGITS = /[٠-٩۰-۹]/g;
+
+/** Converts Arabic-Indic and Persian digits to ASCII. */
+export const toAsciiDigits = (value: string): string =>
+  value.replace(ARABIC_DIGITS, (digit) => {
+    const code = digit.charCodeAt(0);
+    return String(code >= 0x06f0 ? code - 0x06f0 : code - 0x0660);
+  });
+
+const SHORT_ADDRESS_PATTERN = /^([A-Z]{4})(\d{4})$/;
+const SHORT_ADDRESS_IN_TEXT = /(?:^|[^A-Za-z0-9])([A-Za-z]{4})[\s-]?(\d{4})(?![0-9])/;
+
+/**
+ * National Address short code (four letters, four digits, e.g. RRRD2929) in
+ * canonical form, or null. Accepts spaces, dashes, lower case and Arabic
+ * digits.
+ */
+export function parseShortAddress(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const compact = toAsciiDigits(value).toUpperCase().replace(/[\s-]/g, '');
+  return SHORT_ADDRESS_PATTERN.test(compact) ? compact : null;
+}
+
+/** A short code typed somewhere inside a free-text address line. */
+export function extractShortAddress(text: unknown): string | null {
+  if (typeof text !== 'string') return null;
+  const match = toAsciiDigits(text).match(SHORT_ADDRESS_IN_TEXT);
+  return match ? `${match[1]}${match[2]}`.toUpperCase() : null;
+}
+
+/**
+ * Five-digit Saudi postcode, or null. A ZIP+4 style "12345-6789" keeps the
+ * first five digits; placeholders such as 00000 are rejected.
+ */
+export function normalizeSaudiPostcode(value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const text = toAsciiDigits(String(value)).trim();
+  const match = text.match(/^(\d{5})(?:[\s-]?\d{4})?$/);
+  if (!match || /^0/.test(match[1])) return null;
+  return match[1];
+}
+
+/** Name folded for matching: no diacritics, articles, hamza or spelling variants. */
+export function foldPlaceName(value: string): string {
+  const arabic = value
+    .replace(/[ً-ْٰـ]/g, '')
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .replace(/ؤ/g, 'و')
+    .replace(/ئ/g, 'ي')
+    .replace(/(^|\s)ال/g, '$1');
+  return arabic
+    .toLowerCase()
+    .replace(/['`’]/g, '')
+    .replace(/(^|[\s-])(al|el|ad|ar|as|at|az|ash|an|adh|ath)[\s-]+/g, '$1')
+    .replace(/^al(?=[a-z]{4,})/, '')
+    .replace(/[^a-zء-ي]/g, '');
+}
+
+const CITY_INDEX = new Map<string, SaudiCity>();
+for (const city of SAUDI_CITIES) {
+  for (const name of [city.nameEn, city.nameAr, ...city.aliases]) {
+    const folded = foldPlaceName(name);
+    if (folded && !CITY_INDEX.has(folded)) {
+      CITY_INDEX.set(folded, city);
+    }
+  }
+}
+
+/** The dataset city for an Arabic or English city name, or null. */
+export function resolveSaudiCity(value: unknown): SaudiCity | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const direct = CITY_INDEX.get(foldPlaceName(value));
+  if (direct) return direct;
+  // "Riyadh, Saudi Arabia", "جدة - حي الصفا"
+  for (const part of value.split(/[,،\-/|]/)) {
+    const city = CITY_INDEX.get(foldPlaceName(part));
+    if (city) return city;
+  }
+  return null;
+}
+
+export function resolveSaudiDistrict(city: SaudiCity | null, value: unknown): SaudiDistrict | null {
+  if (!city?.districts || typeof value !== 'string' || !value.trim()) return null;
+  const folded = foldPlaceName(value.replace(/^(حي|district)\s+/i, '').replace(/\s+(district|حي)$/i, ''));
+  return (
+    city.districts.find(
+      (district) => foldPlaceName(district.nameAr) === folded || foldPlaceName(district.nameEn) === folded,
+    ) ?? null
+  );
+}
+
+export interface SaudiAddressInput {
+  city?: string | null;
+  district?: string | null;
+  line1?: string | null;
+  line2?: string | null;
+  postalCode?: string | null;
+  shortCode?: string | null;
+  coordinates?: string | null;
+}
+
+export type SaudiAddressIssueCode =
+  | 'missing_city'
+  | 'unknown_city'
+  | 'missing_street'
+  | 'missing_district'
+  | 'invalid_short_address'
+  | 'missing_short_address'
+  | 'invalid_postcode'
+  | 'postcode_region_mismatch';
+
+export interface SaudiAddressIssue {
+  code: SaudiAddressIssueCode;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+}
+
+export interface SaudiAddressAssessment {
+  city: SaudiCity | null;
+  district: SaudiDistrict | null;
+  postalCode: string | null;
+  shortCode: string | null;
+  /** 0–100; how much of the address a courier can rely on. */
+  score: number;
+  level: 'good' | 'fair' | 'poor';
+  /** Errors, or too little to go on: the label is likely to come back undelivered. */
+  likelyToFail: boolean;
+  issues: SaudiAddressIssue[];
+}
+
+// Weights add up to 100. A short code alone is enough for SMSA to locate the
+// building, so it weighs as much as the street line.
+const SCORE_WEIGHTS = {
+  city: 30,
+  street: 20,
+  shortCode: 20,
+  district: 15,
+  postcode: 10,
+  coordinates: 5,
+};
+
+const MIN_STREET_LENGTH = 8;
+
+const trimmed = (value: string | null | undefined) => (typeof value === 'string' ? value.trim() : '');
+
+/** Scores an address and lists what a courier is likely to trip over. */
+export function assessSaudiAddress(input: SaudiAddressInput): SaudiAddressAssessment {
+  const issues: SaudiAddressIssue[] = [];
+  let score = 0;
+
+  const cityText = trimmed(input.city);
+  const city = resolveSaudiCity(cityText);
+  if (city) {
+    score += SCORE_WEIGHTS.city;
+  } else if (cityText) {
+    score += SCORE_WEIGHTS.city / 3;
+    issues.push({ code: 'unknown_city', severity: 'warning', message: `المدينة "${cityText}" غير معروفة في قائمة المدن` });
+  } else {
+    issues.push({ code: 'missing_city', severity: 'error', message: 'المدينة غير محددة' });
+  }
+
+  const shortCodeText = trimmed(input.shortCode);
+  const shortCode =
+    parseShortAddress(shortCodeText) ?? extractShortAddress(input.line1) ?? extractShortAddress(input.line2);
+  if (shortCode) {
+    score += SCORE_WEIGHTS.shortCode;
+  } else if (shortCodeText) {
+    issues.push({
+      code: 'invalid_short_address',
+      severity: 'warning',
+      message: `العنوان المختصر "${shortCodeText}" غير صحيح، يجب أن يكون 4 أحرف و4 أرقام`,
+    });
+  } else {
+    issues.push({ code: 'missing_short_address', severity: 'info', message: 'لا يوجد عنوان وطني مختصر' });
+  }
+
+  const coordinates = trimmed(input.coordinates);
+  if (coordinates) {
+    score += SCORE_WEIGHTS.coordinates;
+  }
+
+  // The city repeated as the address line tells the courier nothing.
+  const street = [input.line1, input.line2]
+    .map(trimmed)
+    .filter((line) => line && (!city || resolveSaudiCity(line) !== city))
+    .join(' ');
+  if (street.length >= MIN_STREET_LENGTH) {
+    score += SCORE_WEIGHTS.street;
+  } else {
+    issues.push({
+      code: 'missing_street',
+      severity: shortCode || coordinates ? 'warning' : 'error',
+      message: 'عنوان الشارع أو المبنى ناقص',
+    });
+  }
+
+  const districtText = trimmed(input.district);
+  const district = resolveSaudiDistrict(city, districtText);
+  if (districtText) {
+    score += SCORE_WEIGHTS.district;
+  } else {
+    issues.push({ code: 'missing_district', severity: 'warning', message: 'الحي غير محدد' });
+  }
+
+  const postcodeText = trimmed(input.postalCode);
+  const postalCode = normalizeSaudiPostcode(postcodeText);
+  if (postalCode) {
+    const regionDigits = city ? SAUDI_REGION_POSTCODE_DIGITS[city.region] : undefined;
+    if (regionDigits && !regionDigits.includes(postalCode[0])) {
+      score += SCORE_WEIGHTS.postcode / 2;
+      issues.push({
+        code: 'postcode_region_mismatch',
+        severity: 'warning',
+        message: `الرمز البريدي ${postalCode} لا يتبع منطقة ${city?.nameAr}`,
+      });
+    } else {
+      score += SCORE_WEIGHTS.postcode;
+    }
+  } else if (postcodeText) {
+    issues.push({
+      code: 'invalid_postcode',
+      severity: 'warning',
+      message: `الرمز البريدي "${postcodeText}" غير صحيح، يجب أن يكون 5 أرقام`,
+    });
+  }
+
+  score = Math.round(score);
+  const level = score >= 75 ? 'good' : score >= 45 ? 'fair' : 'poor';
+
+  return {
+    city,
+    district,
+    postalCode,
+    shortCode,
+    score,
+    level,
+    likelyToFail: level === 'poor' || issues.some((issue) => issue.severity === 'error'),
+    issues,
+  };
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): UnknownRecord | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as UnknownRecord) : null;
+
+const textOf = (value: unknown): string | null => {
+  if (typeof value === 'string') return value.trim() || null;
+  if (typeof value === 'number') return String(value);
+  const record = asRecord(value);
+  return record ? textOf(record.name) ?? textOf(record.label) : null;
+};
+
+const firstText = (record: UnknownRecord, keys: string[]) => {
+  for (const key of keys) {
+    const value = textOf(record[key]);
+    if (value) return value;
+  }
+  return null;
+};
+
+const coordinatesOf = (record: UnknownRecord): string | null => {
+  const geo = asRecord(record.geo_coordinates) ?? asRecord(record.geoCoordinates) ?? record;
+  const lat = Number(geo.lat ?? geo.latitude);
+  const lng = Number(geo.lng ?? geo.longitude ?? geo.long);
+  return Number.isFinite(lat) && Number.isFinite(lng) && (lat !== 0 || lng !== 0) ? `${lat},${lng}` : null;
+};
+
+/** The Saudi address fields of a Salla order's ship-to block. */
+export function saudiAddressFromOrder(orderData: unknown): SaudiAddressInput {
+  const root = asRecord(orderData) ?? {};
+  const shipping = asRecord(root.shipping);
+  const firstShipment = (value: unknown) => (Array.isArray(value) ? asRecord(value[0]) : null);
+  const candidates = [
+    asRecord(shipping?.ship_to),
+    asRecord(shipping?.shipTo),
+    asRecord(firstShipment(shipping?.shipments)?.ship_to),
+    asRecord(firstShipment(root.shipments)?.ship_to),
+    asRecord(shipping?.receiver),
+    asRecord(shipping?.address),
+    asRecord(root.shipping_address),
+  ];
+  const shipTo = candidates.find((record) => record && (record.city || record.address_line || record.address)) ?? {};
+
+  return {
+    city: firstText(shipTo, ['city', 'city_en', 'city_ar']),
+    district: firstText(shipTo, ['district', 'neighborhood', 'area']),
+    line1: firstText(shipTo, ['address_line', 'addressLine', 'address', 'street_address', 'street']),
+    line2: [firstText(shipTo, ['street_number']), firstText(shipTo, ['building_number'])].filter(Boolean).join(' ') || null,
+    postalCode: firstText(shipTo, ['postal_code', 'postalCode', 'zip_code']),
+    shortCode: firstText(shipTo, ['short_address', 'shortAddress', 'shortcode', 'short_code']),
+    coordinates: coordinatesOf(shipTo),
+  };
+}
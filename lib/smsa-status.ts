@@ -62,3 +62,65 @@ export const resolveMajorSmsaStatus = (tracking: SmsaLiveStatus | null | undefin
 
   return tracking.description || null;
 };
+
+export type SmsaScanIssue = 'returned' | 'address_issue' | 'failed_attempt';
+
+// Checked in order: an address problem is reported as an undelivered attempt
+// too, so it must win over the generic failed-attempt match. Descriptions are
+// matched as well because the webhook and tracking API do not always agree on
+// codes.
+const SMSA_SCAN_ISSUES: {
+  issue: SmsaScanIssue;
+  codes: string[];
+  keywords: string[];
+}[] = [
+  {
+    issue: 'returned',
+    codes: ['RT', 'RC', 'RTS'],
+    keywords: ['return to shipper', 'returned to shipper', 'returned to origin', 'مرتجع للمرسل'],
+  },
+  {
+    issue: 'address_issue',
+    codes: ['BA', 'IA', 'UA'],
+    keywords: [
+      'address',
+      'unable to locate',
+      'consignee moved',
+      'wrong city',
+      'العنوان',
+    ],
+  },
+  {
+    issue: 'failed_attempt',
+    codes: ['UD', 'NA', 'CR', 'DF'],
+    keywords: [
+      'undelivered',
+      'not delivered',
+      'unable to deliver',
+      'delivery attempt',
+      'consignee not available',
+      'no answer',
+      'refused',
+      'closed',
+      'لم يتم التسليم',
+    ],
+  },
+];
+
+/**
+ * Classifies a single SMSA scan as a delivery problem, or null for normal
+ * progress scans.
+ */
+export const classifySmsaScanIssue = (scan: {
+  code?: string | null;
+  description?: string | null;
+}): SmsaScanIssue | null => {
+  const code = scan.code?.trim().toUpperCase();
+  const description = scan.description?.trim().toLowerCase() || '';
+  const match = SMSA_SCAN_ISSUES.find(
+    (candidate) =>
+      (code && candidate.codes.includes(code)) ||
+      (description && candidate.keywords.some((keyword) => description.includes(keyword.toLowerCase())))
+  );
+  return match?.issue ?? null;
+};
@@ -50,6 +50,8 @@ const PUBLIC_PATHS = [
   // Called by Vercel Cron, which carries no session; guarded by CRON_SECRET.
   '/api/salla/availability-requests/check-stock',
   '/api/customer-journey/process',
+  '/api/shipment-exceptions/check',
+  '/api/shipments/tracking-refresh',
   '/salla/webhook',
   '/logo.png',
   '/manifest.webmanifest',
@@ -81,12 +83,14 @@ const SERVICE_PATHS = new Map<ServiceKey, RegExp[]>([
       /^\/api\/local-shipping(\/.*)?$/,
       /^\/api\/shipment-assignments(\/.*)?$/,
       /^\/api\/delivery-agents(\/.*)?$/,
+      /^\/api\/shipments\/carrier-(quotes|selections)(\/.*)?$/,
     ],
   ],
   [
     'admin-order-prep',
     [/^\/admin\/order-prep(\/.*)?$/, /^\/api\/admin\/order-assignments(\/.*)?$/],
   ],
+  ['shipping-rates', [/^\/admin\/shipping-rates(\/.*)?$/, /^\/api\/admin\/shipping-rates(\/.*)?$/]],
   ['warehouse', [/^\/warehouse(\/.*)?$/, /^\/api\/shipments(\/.*)?$/]],
   [
     'local-shipping',
@@ -97,6 +101,10 @@ const SERVICE_PATHS = new Map<ServiceKey, RegExp[]>([
       /^\/api\/shipments(\/.*)?$/,
     ],
   ],
+  [
+    'shipment-exceptions',
+    [/^\/shipment-exceptions(\/.*)?$/, /^\/api\/shipment-exceptions(\/.*)?$/],
+  ],
   ['warehouse-locations', [/^\/warehouse-locations(\/.*)?$/]],
   [
     'search-update-stock',
@@ -120,6 +128,10 @@ const SERVICE_PATHS = new Map<ServiceKey, RegExp[]>([
     'delivery-agent-wallets',
     [/^\/delivery-agent-wallets(\/.*)?$/, /^\/api\/delivery-agent-wallets(\/.*)?$/],
   ],
+  [
+    'delivery-commissions',
+    [/^\/delivery-commissions(\/.*)?$/, /^\/api\/delivery-commissions(\/.*)?$/],
+  ],
   [
     'affiliate-management',
     [/^\/affiliate-management(\/.*)?$/, /^\/api\/affiliate-management(\/.*)?$/],
@@ -0,0 +1,23 @@
+CREATE TABLE "OrderPrepWave" (
+  "id" TEXT NOT NULL,
+  "merchantId" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "userName" TEXT NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'picking',
+  "orderCount" INTEGER NOT NULL DEFAULT 0,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "pickedAt" TIMESTAMP(3),
+  "completedAt" TIMESTAMP(3),
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "OrderPrepWave_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "OrderPrepWave_userId_status_idx" ON "OrderPrepWave"("userId", "status");
+CREATE INDEX "OrderPrepWave_merchantId_createdAt_idx" ON "OrderPrepWave"("merchantId", "createdAt");
+
+ALTER TABLE "OrderPrepAssignment" ADD COLUMN "waveId" TEXT;
+ALTER TABLE "OrderPrepAssignment" ADD COLUMN "toteNumber" INTEGER;
+
+CREATE INDEX "OrderPrepAssignment_waveId_idx" ON "OrderPrepAssignment"("waveId");
+
+ALTER TABLE "OrderPrepAssignment" ADD CONSTRAINT "OrderPrepAssignment_waveId_fkey" FOREIGN KEY ("waveId") REFERENCES "OrderPrepWave"("id") ON DELETE SET NULL ON UPDATE CASCADE;
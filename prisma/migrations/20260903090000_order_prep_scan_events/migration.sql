@@ -0,0 +1,20 @@
+CREATE TABLE "OrderPrepScanEvent" (
+  "id" TEXT NOT NULL,
+  "merchantId" TEXT NOT NULL,
+  "assignmentId" TEXT NOT NULL,
+  "orderId" TEXT NOT NULL,
+  "orderNumber" TEXT,
+  "userId" TEXT NOT NULL,
+  "userName" TEXT,
+  "scannedCode" TEXT NOT NULL,
+  "result" TEXT NOT NULL,
+  "lineIndex" INTEGER,
+  "sku" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "OrderPrepScanEvent_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "OrderPrepScanEvent_assignmentId_createdAt_idx" ON "OrderPrepScanEvent"("assignmentId", "createdAt");
+CREATE INDEX "OrderPrepScanEvent_merchantId_orderId_idx" ON "OrderPrepScanEvent"("merchantId", "orderId");
+CREATE INDEX "OrderPrepScanEvent_userId_createdAt_idx" ON "OrderPrepScanEvent"("userId", "createdAt");
+CREATE INDEX "OrderPrepScanEvent_result_createdAt_idx" ON "OrderPrepScanEvent"("result", "createdAt");
@@ -0,0 +1,33 @@
+CREATE TABLE "OrderRoutingRule" (
+  "id" TEXT NOT NULL,
+  "merchantId" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "position" INTEGER NOT NULL DEFAULT 0,
+  "isActive" BOOLEAN NOT NULL DEFAULT true,
+  "destination" TEXT,
+  "countries" TEXT[],
+  "paymentType" TEXT,
+  "paymentMethods" TEXT[],
+  "shippingCompanies" TEXT[],
+  "isGift" BOOLEAN,
+  "isHighPriority" BOOLEAN,
+  "warehouseCodes" TEXT[],
+  "skuCategories" TEXT[],
+  "targetUserIds" TEXT[],
+  "teamName" TEXT,
+  "weight" INTEGER NOT NULL DEFAULT 1,
+  "capacity" INTEGER,
+  "notes" TEXT,
+  "createdById" TEXT,
+  "createdByName" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "OrderRoutingRule_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "OrderRoutingRule_merchantId_isActive_position_idx" ON "OrderRoutingRule"("merchantId", "isActive", "position");
+
+ALTER TABLE "OrderUser" ALTER COLUMN "orderType" SET DEFAULT 'all';
+
+ALTER TABLE "OrderPrepAssignment" ADD COLUMN "routingRuleId" TEXT;
+CREATE INDEX "OrderPrepAssignment_userId_routingRuleId_idx" ON "OrderPrepAssignment"("userId", "routingRuleId");
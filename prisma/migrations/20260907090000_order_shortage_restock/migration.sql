@@ -0,0 +1,5 @@
+ALTER TABLE "OrderPrepUnavailableItem" ADD COLUMN "lastCheckedAt" TIMESTAMP(3);
+ALTER TABLE "OrderPrepUnavailableItem" ADD COLUMN "backInStockAt" TIMESTAMP(3);
+ALTER TABLE "OrderPrepUnavailableItem" ADD COLUMN "purchaseRequestId" TEXT;
+
+CREATE INDEX "OrderPrepUnavailableItem_resolvedAt_idx" ON "OrderPrepUnavailableItem"("resolvedAt");
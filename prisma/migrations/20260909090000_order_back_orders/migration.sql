@@ -0,0 +1,56 @@
+CREATE TABLE "OrderBackOrder" (
+  "id" TEXT NOT NULL,
+  "merchantId" TEXT NOT NULL,
+  "orderId" TEXT NOT NULL,
+  "orderNumber" TEXT,
+  "sequence" INTEGER NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'waiting_stock',
+  "lines" JSONB NOT NULL,
+  "createdById" TEXT,
+  "createdByName" TEXT,
+  "releasedAt" TIMESTAMP(3),
+  "readyAt" TIMESTAMP(3),
+  "shippedAt" TIMESTAMP(3),
+  "cancelledAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "OrderBackOrder_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "OrderBackOrder_merchantId_orderId_sequence_key" ON "OrderBackOrder"("merchantId", "orderId", "sequence");
+CREATE INDEX "OrderBackOrder_merchantId_status_idx" ON "OrderBackOrder"("merchantId", "status");
+
+CREATE TABLE "OrderShipmentLine" (
+  "id" TEXT NOT NULL,
+  "merchantId" TEXT NOT NULL,
+  "orderId" TEXT NOT NULL,
+  "orderNumber" TEXT,
+  "lineIndex" INTEGER NOT NULL,
+  "sku" TEXT,
+  "itemName" TEXT,
+  "quantity" INTEGER NOT NULL,
+  "carrier" TEXT NOT NULL,
+  "trackingNumber" TEXT,
+  "sallaShipmentId" TEXT,
+  "localShipmentId" TEXT,
+  "backOrderId" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "OrderShipmentLine_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "OrderShipmentLine_merchantId_orderId_idx" ON "OrderShipmentLine"("merchantId", "orderId");
+CREATE INDEX "OrderShipmentLine_trackingNumber_idx" ON "OrderShipmentLine"("trackingNumber");
+CREATE INDEX "OrderShipmentLine_localShipmentId_idx" ON "OrderShipmentLine"("localShipmentId");
+CREATE INDEX "OrderShipmentLine_backOrderId_idx" ON "OrderShipmentLine"("backOrderId");
+
+ALTER TABLE "OrderShipmentLine" ADD CONSTRAINT "OrderShipmentLine_localShipmentId_fkey" FOREIGN KEY ("localShipmentId") REFERENCES "LocalShipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "OrderShipmentLine" ADD CONSTRAINT "OrderShipmentLine_backOrderId_fkey" FOREIGN KEY ("backOrderId") REFERENCES "OrderBackOrder"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "OrderPrepAssignment" ADD COLUMN "splitSequence" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "OrderPrepAssignment" ADD COLUMN "backOrderId" TEXT;
+
+DROP INDEX IF EXISTS "OrderPrepAssignment_merchantId_orderId_key";
+CREATE UNIQUE INDEX "OrderPrepAssignment_merchantId_orderId_splitSequence_key" ON "OrderPrepAssignment"("merchantId", "orderId", "splitSequence");
+CREATE UNIQUE INDEX "OrderPrepAssignment_backOrderId_key" ON "OrderPrepAssignment"("backOrderId");
+
+ALTER TABLE "OrderPrepAssignment" ADD CONSTRAINT "OrderPrepAssignment_backOrderId_fkey" FOREIGN KEY ("backOrderId") REFERENCES "OrderBackOrder"("id") ON DELETE SET NULL ON UPDATE CASCADE;
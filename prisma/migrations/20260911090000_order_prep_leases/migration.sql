@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "OrderPrepAssignment" ADD COLUMN "leaseHolder" TEXT,
+ADD COLUMN "leaseExpiresAt" TIMESTAMP(3),
+ADD COLUMN "leaseHeartbeatAt" TIMESTAMP(3);
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "OrderReopenLog" (
+  "id" TEXT NOT NULL,
+  "merchantId" TEXT NOT NULL,
+  "orderId" TEXT NOT NULL,
+  "orderNumber" TEXT,
+  "previousUserId" TEXT,
+  "previousUserName" TEXT,
+  "reopenedById" TEXT NOT NULL,
+  "reopenedByName" TEXT,
+  "source" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "OrderReopenLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderReopenLog_merchantId_orderId_idx" ON "OrderReopenLog"("merchantId", "orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderReopenLog_previousUserId_createdAt_idx" ON "OrderReopenLog"("previousUserId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "OrderReopenLog_createdAt_idx" ON "OrderReopenLog"("createdAt");
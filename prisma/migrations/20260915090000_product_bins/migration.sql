@@ -0,0 +1,91 @@
+-- CreateTable
+CREATE TABLE "ProductBin" (
+  "id" TEXT NOT NULL,
+  "sku" TEXT NOT NULL,
+  "zone" TEXT NOT NULL,
+  "aisle" TEXT,
+  "shelf" TEXT,
+  "bin" TEXT,
+  "code" TEXT NOT NULL,
+  "quantity" INTEGER NOT NULL DEFAULT 0,
+  "isPrimary" BOOLEAN NOT NULL DEFAULT false,
+  "notes" TEXT,
+  "createdBy" TEXT,
+  "updatedBy" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "ProductBin_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProductBinMoveLog" (
+  "id" TEXT NOT NULL,
+  "operationId" TEXT NOT NULL,
+  "mode" TEXT NOT NULL,
+  "sku" TEXT NOT NULL,
+  "productName" TEXT,
+  "fromBinCode" TEXT,
+  "fromPrevious" INTEGER,
+  "fromResulting" INTEGER,
+  "toBinCode" TEXT,
+  "toPrevious" INTEGER,
+  "toResulting" INTEGER,
+  "quantity" INTEGER NOT NULL,
+  "reason" TEXT,
+  "createdById" TEXT,
+  "createdByName" TEXT,
+  "createdByUsername" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "ProductBinMoveLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductBin_sku_code_key" ON "ProductBin"("sku", "code");
+
+-- CreateIndex
+CREATE INDEX "ProductBin_code_idx" ON "ProductBin"("code");
+
+-- CreateIndex
+CREATE INDEX "ProductBinMoveLog_operationId_idx" ON "ProductBinMoveLog"("operationId");
+
+-- CreateIndex
+CREATE INDEX "ProductBinMoveLog_sku_createdAt_idx" ON "ProductBinMoveLog"("sku", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ProductBinMoveLog_fromBinCode_idx" ON "ProductBinMoveLog"("fromBinCode");
+
+-- CreateIndex
+CREATE INDEX "ProductBinMoveLog_toBinCode_idx" ON "ProductBinMoveLog"("toBinCode");
+
+-- CreateIndex
+CREATE INDEX "ProductBinMoveLog_createdAt_idx" ON "ProductBinMoveLog"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ProductBin" ADD CONSTRAINT "ProductBin_sku_fkey" FOREIGN KEY ("sku") REFERENCES "SallaProductLocation"("sku") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing single locations become each SKU's primary bin. Codes are split the
+-- way parseBinCode does it (uppercase, spaces or dashes between parts, anything
+-- past the fourth part joined into the bin) so the first save from the app
+-- finds the same bin instead of adding a second primary. Quantities are
+-- unknown until the first count, so they start at zero.
+INSERT INTO "ProductBin" ("id", "sku", "zone", "aisle", "shelf", "bin", "code", "isPrimary", "notes", "createdBy", "updatedBy", "updatedAt")
+SELECT
+  'bin_' || md5("id"),
+  "sku",
+  "parts"[1],
+  "parts"[2],
+  "parts"[3],
+  NULLIF(array_to_string("parts"[4:], ''), ''),
+  array_to_string(ARRAY["parts"[1], "parts"[2], "parts"[3], NULLIF(array_to_string("parts"[4:], ''), '')], '-'),
+  true,
+  "notes",
+  "createdBy",
+  "updatedBy",
+  CURRENT_TIMESTAMP
+FROM (
+  SELECT
+    *,
+    string_to_array(btrim(upper(regexp_replace("location", '[\s-]+', '-', 'g')), '-'), '-') AS "parts"
+  FROM "SallaProductLocation"
+) AS "normalized"
+WHERE cardinality("parts") > 0;
@@ -0,0 +1,6 @@
+-- Manual shipments can now be created with any carrier adapter; existing rows
+-- were all SMSA.
+ALTER TABLE "ManualSmsaShipment" ADD COLUMN "carrier" TEXT NOT NULL DEFAULT 'smsa';
+
+-- CreateIndex
+CREATE INDEX "ManualSmsaShipment_carrier_createdAt_idx" ON "ManualSmsaShipment"("carrier", "createdAt");
@@ -0,0 +1,86 @@
+-- CreateTable
+CREATE TABLE "CarrierRateCard" (
+    "id" TEXT NOT NULL,
+    "merchantId" TEXT NOT NULL,
+    "carrier" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "destination" TEXT,
+    "countries" TEXT[],
+    "cities" TEXT[],
+    "currency" TEXT NOT NULL DEFAULT 'SAR',
+    "baseFee" DECIMAL(10,2) NOT NULL,
+    "baseWeightKg" DECIMAL(8,2) NOT NULL DEFAULT 0,
+    "extraKgFee" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "codFee" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "codFeePercent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "valueFeePercent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "maxWeightKg" DECIMAL(8,2),
+    "maxCodAmount" DECIMAL(10,2),
+    "estimatedDaysMin" INTEGER NOT NULL DEFAULT 1,
+    "estimatedDaysMax" INTEGER NOT NULL DEFAULT 3,
+    "notes" TEXT,
+    "createdById" TEXT,
+    "createdByName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CarrierRateCard_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CarrierSelectionRule" (
+    "id" TEXT NOT NULL,
+    "merchantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "carriers" TEXT[],
+    "effect" TEXT NOT NULL DEFAULT 'only_when',
+    "destination" TEXT,
+    "countries" TEXT[],
+    "cities" TEXT[],
+    "paymentType" TEXT,
+    "minWeightKg" DECIMAL(8,2),
+    "maxWeightKg" DECIMAL(8,2),
+    "notes" TEXT,
+    "createdById" TEXT,
+    "createdByName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CarrierSelectionRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrderCarrierSelection" (
+    "id" TEXT NOT NULL,
+    "merchantId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "orderNumber" TEXT,
+    "carrier" TEXT NOT NULL,
+    "recommendedCarrier" TEXT,
+    "strategy" TEXT NOT NULL,
+    "overridden" BOOLEAN NOT NULL DEFAULT false,
+    "reason" TEXT NOT NULL,
+    "facts" JSONB NOT NULL,
+    "quotes" JSONB NOT NULL,
+    "excluded" JSONB NOT NULL,
+    "selectedById" TEXT,
+    "selectedByName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderCarrierSelection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CarrierRateCard_merchantId_carrier_isActive_idx" ON "CarrierRateCard"("merchantId", "carrier", "isActive");
+
+-- CreateIndex
+CREATE INDEX "CarrierSelectionRule_merchantId_isActive_position_idx" ON "CarrierSelectionRule"("merchantId", "isActive", "position");
+
+-- CreateIndex
+CREATE INDEX "OrderCarrierSelection_merchantId_orderId_createdAt_idx" ON "OrderCarrierSelection"("merchantId", "orderId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "OrderCarrierSelection_carrier_createdAt_idx" ON "OrderCarrierSelection"("carrier", "createdAt");
@@ -0,0 +1,65 @@
+-- CreateTable
+CREATE TABLE "PickupManifest" (
+    "id" TEXT NOT NULL,
+    "manifestNumber" TEXT NOT NULL,
+    "warehouseId" TEXT NOT NULL,
+    "company" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "driverName" TEXT,
+    "driverPhone" TEXT,
+    "signatureDataUrl" TEXT,
+    "signedAt" TIMESTAMP(3),
+    "signedById" TEXT,
+    "signedByName" TEXT,
+    "openedById" TEXT,
+    "openedByName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PickupManifest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PickupManifestItem" (
+    "id" TEXT NOT NULL,
+    "manifestId" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "trackingNumber" TEXT NOT NULL,
+    "orderNumber" TEXT,
+    "pieces" INTEGER NOT NULL DEFAULT 1,
+    "codAmount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "addedBy" TEXT,
+    "addedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PickupManifestItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PickupManifest_manifestNumber_key" ON "PickupManifest"("manifestNumber");
+
+-- CreateIndex
+CREATE INDEX "PickupManifest_warehouseId_company_status_idx" ON "PickupManifest"("warehouseId", "company", "status");
+
+-- CreateIndex
+CREATE INDEX "PickupManifest_company_signedAt_idx" ON "PickupManifest"("company", "signedAt");
+
+-- CreateIndex
+CREATE INDEX "PickupManifest_createdAt_idx" ON "PickupManifest"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PickupManifestItem_shipmentId_key" ON "PickupManifestItem"("shipmentId");
+
+-- CreateIndex
+CREATE INDEX "PickupManifestItem_manifestId_idx" ON "PickupManifestItem"("manifestId");
+
+-- CreateIndex
+CREATE INDEX "PickupManifestItem_trackingNumber_idx" ON "PickupManifestItem"("trackingNumber");
+
+-- AddForeignKey
+ALTER TABLE "PickupManifest" ADD CONSTRAINT "PickupManifest_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "Warehouse"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PickupManifestItem" ADD CONSTRAINT "PickupManifestItem_manifestId_fkey" FOREIGN KEY ("manifestId") REFERENCES "PickupManifest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PickupManifestItem" ADD CONSTRAINT "PickupManifestItem_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
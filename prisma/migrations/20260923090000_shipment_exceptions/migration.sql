@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "ShipmentException" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "awb" TEXT NOT NULL,
+    "reference" TEXT,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "detail" TEXT,
+    "evidenceAt" TIMESTAMP(3) NOT NULL,
+    "ownerId" TEXT,
+    "ownerName" TEXT,
+    "assignedAt" TIMESTAMP(3),
+    "resolutionNote" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+    "resolvedByName" TEXT,
+    "autoResolved" BOOLEAN NOT NULL DEFAULT false,
+    "customerContactedAt" TIMESTAMP(3),
+    "customerContactStatus" TEXT,
+    "lastDetectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShipmentException_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShipmentException_shipmentId_type_key" ON "ShipmentException"("shipmentId", "type");
+
+-- CreateIndex
+CREATE INDEX "ShipmentException_status_type_idx" ON "ShipmentException"("status", "type");
+
+-- CreateIndex
+CREATE INDEX "ShipmentException_ownerId_status_idx" ON "ShipmentException"("ownerId", "status");
+
+-- CreateIndex
+CREATE INDEX "ShipmentException_awb_idx" ON "ShipmentException"("awb");
+
+-- AddForeignKey
+ALTER TABLE "ShipmentException" ADD CONSTRAINT "ShipmentException_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "SmsaWebhookShipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "ShipmentTrackingScan" (
+    "id" TEXT NOT NULL,
+    "sourceType" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "carrier" TEXT NOT NULL,
+    "trackingNumber" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "code" TEXT,
+    "description" TEXT,
+    "city" TEXT,
+    "timezone" TEXT,
+    "receivedBy" TEXT,
+    "status" TEXT,
+    "occurredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShipmentTrackingScan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShipmentStatusTransition" (
+    "id" TEXT NOT NULL,
+    "sourceType" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "carrier" TEXT NOT NULL,
+    "trackingNumber" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "scanFingerprint" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShipmentStatusTransition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShipmentTrackingScan_sourceType_sourceId_fingerprint_key" ON "ShipmentTrackingScan"("sourceType", "sourceId", "fingerprint");
+
+-- CreateIndex
+CREATE INDEX "ShipmentTrackingScan_trackingNumber_idx" ON "ShipmentTrackingScan"("trackingNumber");
+
+-- CreateIndex
+CREATE INDEX "ShipmentStatusTransition_sourceType_sourceId_occurredAt_idx" ON "ShipmentStatusTransition"("sourceType", "sourceId", "occurredAt");
+
+-- CreateIndex
+CREATE INDEX "ShipmentStatusTransition_toStatus_createdAt_idx" ON "ShipmentStatusTransition"("toStatus", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ShipmentStatusTransition_createdAt_idx" ON "ShipmentStatusTransition"("createdAt");
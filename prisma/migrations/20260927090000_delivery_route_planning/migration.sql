@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "ShipmentAssignment" ADD COLUMN     "routeSequence" INTEGER,
+ADD COLUMN     "routePlannedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "ShipmentAssignment_deliveryAgentId_routeSequence_idx" ON "ShipmentAssignment"("deliveryAgentId", "routeSequence");
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "DeliveryProofFile" (
+    "id" TEXT NOT NULL,
+    "assignmentId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "fileSize" INTEGER NOT NULL,
+    "fileData" BYTEA NOT NULL,
+    "capturedById" TEXT,
+    "capturedByName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DeliveryProofFile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeliveryProofFile_assignmentId_kind_key" ON "DeliveryProofFile"("assignmentId", "kind");
+
+-- AddForeignKey
+ALTER TABLE "DeliveryProofFile" ADD CONSTRAINT "DeliveryProofFile_assignmentId_fkey" FOREIGN KEY ("assignmentId") REFERENCES "ShipmentAssignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
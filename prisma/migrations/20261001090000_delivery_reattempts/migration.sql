@@ -0,0 +1,16 @@
+-- DropIndex
+DROP INDEX "ShipmentAssignment_shipmentId_key";
+
+-- AlterTable
+ALTER TABLE "ShipmentAssignment" ADD COLUMN     "attemptNumber" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "failureReasonCode" TEXT;
+
+-- AlterTable
+ALTER TABLE "LocalShipment" ADD COLUMN     "returnStartedAt" TIMESTAMP(3),
+ADD COLUMN     "returnReason" TEXT,
+ADD COLUMN     "returnedAt" TIMESTAMP(3),
+ADD COLUMN     "returnReceivedBy" TEXT,
+ADD COLUMN     "restockedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShipmentAssignment_shipmentId_attemptNumber_key" ON "ShipmentAssignment"("shipmentId", "attemptNumber");
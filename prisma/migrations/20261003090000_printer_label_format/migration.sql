@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PrinterProfile" ADD COLUMN     "labelFormat" TEXT NOT NULL DEFAULT 'pdf';
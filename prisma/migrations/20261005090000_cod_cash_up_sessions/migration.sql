@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "CODCollection" ADD COLUMN "cashUpSessionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "CODCashUpSession" (
+    "id" TEXT NOT NULL,
+    "cashUpNumber" TEXT NOT NULL,
+    "deliveryAgentId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "expectedAmount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "countedAmount" DECIMAL(10,2),
+    "varianceAmount" DECIMAL(10,2),
+    "denominationCounts" JSONB,
+    "depositMethod" TEXT,
+    "depositReference" TEXT,
+    "varianceResolution" TEXT,
+    "varianceNote" TEXT,
+    "walletTransactionId" TEXT,
+    "agentSignatureDataUrl" TEXT,
+    "notes" TEXT,
+    "openedById" TEXT,
+    "openedByName" TEXT,
+    "closedAt" TIMESTAMP(3),
+    "closedById" TEXT,
+    "closedByName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CODCashUpSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CODCashUpSession_cashUpNumber_key" ON "CODCashUpSession"("cashUpNumber");
+
+-- CreateIndex
+CREATE INDEX "CODCashUpSession_deliveryAgentId_status_idx" ON "CODCashUpSession"("deliveryAgentId", "status");
+
+-- CreateIndex
+CREATE INDEX "CODCashUpSession_closedAt_idx" ON "CODCashUpSession"("closedAt");
+
+-- CreateIndex
+CREATE INDEX "CODCashUpSession_depositReference_idx" ON "CODCashUpSession"("depositReference");
+
+-- CreateIndex
+CREATE INDEX "CODCollection_cashUpSessionId_idx" ON "CODCollection"("cashUpSessionId");
+
+-- AddForeignKey
+ALTER TABLE "CODCollection" ADD CONSTRAINT "CODCollection_cashUpSessionId_fkey" FOREIGN KEY ("cashUpSessionId") REFERENCES "CODCashUpSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CODCashUpSession" ADD CONSTRAINT "CODCashUpSession_deliveryAgentId_fkey" FOREIGN KEY ("deliveryAgentId") REFERENCES "OrderUser"("id") ON DELETE CASCADE ON UPDATE CASCADE;
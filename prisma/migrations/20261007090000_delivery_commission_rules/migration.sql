@@ -0,0 +1,26 @@
+-- AlterEnum
+ALTER TYPE "DeliveryAgentWalletTransactionType" ADD VALUE 'FAILED_ATTEMPT';
+
+-- CreateTable
+CREATE TABLE "DeliveryCommissionRule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "effectiveTo" TIMESTAMP(3),
+    "baseShipmentRate" DECIMAL(10,2) NOT NULL,
+    "codHandlingBonus" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "failedAttemptRate" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "defaultTaskRate" DECIMAL(10,2) NOT NULL,
+    "taskTypeRates" JSONB,
+    "areaSurcharges" JSONB,
+    "notes" TEXT,
+    "createdById" TEXT,
+    "createdByName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DeliveryCommissionRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DeliveryCommissionRule_effectiveFrom_idx" ON "DeliveryCommissionRule"("effectiveFrom");
@@ -0,0 +1,65 @@
+-- AlterTable
+ALTER TABLE "DeliveryAgentWalletTransaction" ADD COLUMN "payoutBatchId" TEXT;
+
+-- CreateTable
+CREATE TABLE "DeliveryAgentPayoutBatch" (
+    "id" TEXT NOT NULL,
+    "batchNumber" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'proposed',
+    "threshold" DECIMAL(10,2) NOT NULL,
+    "totalAmount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "paymentMethod" TEXT,
+    "notes" TEXT,
+    "proposedById" TEXT,
+    "proposedByName" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "approvedById" TEXT,
+    "approvedByName" TEXT,
+    "cancelledAt" TIMESTAMP(3),
+    "cancelledByName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DeliveryAgentPayoutBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DeliveryAgentPayoutBatchLine" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "deliveryAgentId" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "transactionId" TEXT,
+
+    CONSTRAINT "DeliveryAgentPayoutBatchLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeliveryAgentPayoutBatch_batchNumber_key" ON "DeliveryAgentPayoutBatch"("batchNumber");
+
+-- CreateIndex
+CREATE INDEX "DeliveryAgentPayoutBatch_status_idx" ON "DeliveryAgentPayoutBatch"("status");
+
+-- CreateIndex
+CREATE INDEX "DeliveryAgentPayoutBatch_createdAt_idx" ON "DeliveryAgentPayoutBatch"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeliveryAgentPayoutBatchLine_batchId_deliveryAgentId_key" ON "DeliveryAgentPayoutBatchLine"("batchId", "deliveryAgentId");
+
+-- CreateIndex
+CREATE INDEX "DeliveryAgentPayoutBatchLine_deliveryAgentId_idx" ON "DeliveryAgentPayoutBatchLine"("deliveryAgentId");
+
+-- CreateIndex
+CREATE INDEX "DeliveryAgentWalletTransaction_deliveryAgentId_createdAt_idx" ON "DeliveryAgentWalletTransaction"("deliveryAgentId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DeliveryAgentWalletTransaction_payoutBatchId_idx" ON "DeliveryAgentWalletTransaction"("payoutBatchId");
+
+-- AddForeignKey
+ALTER TABLE "DeliveryAgentWalletTransaction" ADD CONSTRAINT "DeliveryAgentWalletTransaction_payoutBatchId_fkey" FOREIGN KEY ("payoutBatchId") REFERENCES "DeliveryAgentPayoutBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DeliveryAgentPayoutBatchLine" ADD CONSTRAINT "DeliveryAgentPayoutBatchLine_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "DeliveryAgentPayoutBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DeliveryAgentPayoutBatchLine" ADD CONSTRAINT "DeliveryAgentPayoutBatchLine_deliveryAgentId_fkey" FOREIGN KEY ("deliveryAgentId") REFERENCES "OrderUser"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "CustomerJourneyNotification" ADD COLUMN "channel" TEXT,
+ADD COLUMN "smsFallbackDueAt" TIMESTAMP(3),
+ADD COLUMN "smsFallbackAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "ShipmentAssignment" ADD COLUMN "deliveryOtpChannel" TEXT,
+ADD COLUMN "deliveryOtpMessageId" TEXT,
+ADD COLUMN "deliveryOtpSmsDueAt" TIMESTAMP(3);
+
+-- Messages sent before fallback existed all went out over their original channel
+UPDATE "CustomerJourneyNotification" SET "channel" = 'whatsapp' WHERE "providerMessageId" IS NOT NULL;
+UPDATE "ShipmentAssignment" SET "deliveryOtpChannel" = 'sms' WHERE "deliveryOtpRequestedAt" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "CustomerJourneyNotification_smsFallbackDueAt_idx" ON "CustomerJourneyNotification"("smsFallbackDueAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShipmentAssignment_deliveryOtpMessageId_key" ON "ShipmentAssignment"("deliveryOtpMessageId");
+
+-- CreateIndex
+CREATE INDEX "ShipmentAssignment_deliveryOtpSmsDueAt_idx" ON "ShipmentAssignment"("deliveryOtpSmsDueAt");
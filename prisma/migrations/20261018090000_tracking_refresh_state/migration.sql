@@ -0,0 +1,7 @@
+-- CreateTable
+CREATE TABLE "TrackingRefreshState" (
+  "id" TEXT NOT NULL,
+  "resumeAfter" TEXT,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "TrackingRefreshState_pkey" PRIMARY KEY ("id")
+);